@@ -0,0 +1,236 @@
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "email" TEXT,
+    "username" TEXT,
+    "avatar" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "metadata" JSONB,
+    "subscriptionTier" TEXT NOT NULL DEFAULT 'free',
+    "subscriptionActive" BOOLEAN NOT NULL DEFAULT true,
+    "subscriptionExpiresAt" TIMESTAMP(3),
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastActive" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "theme" TEXT NOT NULL DEFAULT 'dark',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "notifications" JSONB NOT NULL,
+    "privacy" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "risk_profiles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "riskTolerance" TEXT NOT NULL DEFAULT 'moderate',
+    "maxSlashingRisk" DOUBLE PRECISION NOT NULL DEFAULT 0.05,
+    "maxLiquidityRisk" DOUBLE PRECISION NOT NULL DEFAULT 0.3,
+    "maxConcentration" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "rebalanceThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+    "autoRebalance" BOOLEAN NOT NULL DEFAULT true,
+    "alertThresholds" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "risk_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "positions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "protocolName" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "yield" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "apy" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "riskScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "allocation" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "earnings" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "earningsChange24h" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lockupPeriod" INTEGER,
+    "unlockDate" TIMESTAMP(3),
+    "chainId" INTEGER NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "strategies" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "allocations" JSONB NOT NULL,
+    "riskScore" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "expectedYield" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "tvl" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "allocation" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "autoExecute" BOOLEAN NOT NULL DEFAULT false,
+    "minAmount" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "maxAmount" DOUBLE PRECISION NOT NULL DEFAULT 1000,
+    "fees" JSONB NOT NULL,
+    "performance" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "strategies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bridge_operations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fromChain" INTEGER NOT NULL,
+    "toChain" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "transactionHash" TEXT,
+    "destinationHash" TEXT,
+    "fee" DOUBLE PRECISION NOT NULL,
+    "estimatedTime" INTEGER NOT NULL,
+    "actualTime" INTEGER,
+    "error" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bridge_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "risk_alerts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "data" JSONB,
+    "actionRequired" BOOLEAN NOT NULL DEFAULT false,
+    "suggestedActions" TEXT[],
+    "dismissedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "risk_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "recommendations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "impact" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "estimatedGain" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "estimatedRisk" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "actionRequired" BOOLEAN NOT NULL DEFAULT false,
+    "autoExecutable" BOOLEAN NOT NULL DEFAULT false,
+    "deadline" TIMESTAMP(3),
+    "relatedPositions" TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "executedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recommendations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "activity_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION,
+    "token" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'completed',
+    "severity" TEXT,
+    "transactionHash" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_address_key" ON "users"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_preferences_userId_key" ON "user_preferences"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "risk_profiles_userId_key" ON "risk_profiles"("userId");
+
+-- CreateIndex
+CREATE INDEX "positions_userId_idx" ON "positions"("userId");
+
+-- CreateIndex
+CREATE INDEX "positions_userId_protocol_idx" ON "positions"("userId", "protocol");
+
+-- CreateIndex
+CREATE INDEX "strategies_userId_idx" ON "strategies"("userId");
+
+-- CreateIndex
+CREATE INDEX "bridge_operations_userId_createdAt_idx" ON "bridge_operations"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "bridge_operations_transactionHash_idx" ON "bridge_operations"("transactionHash");
+
+-- CreateIndex
+CREATE INDEX "risk_alerts_userId_dismissedAt_idx" ON "risk_alerts"("userId", "dismissedAt");
+
+-- CreateIndex
+CREATE INDEX "recommendations_userId_status_idx" ON "recommendations"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "activity_events_userId_createdAt_idx" ON "activity_events"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "user_preferences" ADD CONSTRAINT "user_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_profiles" ADD CONSTRAINT "risk_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "positions" ADD CONSTRAINT "positions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "strategies" ADD CONSTRAINT "strategies_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bridge_operations" ADD CONSTRAINT "bridge_operations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "risk_alerts" ADD CONSTRAINT "risk_alerts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recommendations" ADD CONSTRAINT "recommendations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "activity_events" ADD CONSTRAINT "activity_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
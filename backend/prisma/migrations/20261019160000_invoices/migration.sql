@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tier" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "periodDays" INTEGER NOT NULL,
+    "amount" TEXT NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "tokenSymbol" TEXT NOT NULL,
+    "tokenDecimals" INTEGER NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "receiver" TEXT NOT NULL,
+    "payerAddress" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "startBlock" BIGINT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "paidAt" TIMESTAMP(3),
+    "paidAmount" TEXT,
+    "txHash" TEXT,
+    "blockNumber" BIGINT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_txHash_key" ON "invoices"("txHash");
+
+-- CreateIndex
+CREATE INDEX "invoices_userId_createdAt_idx" ON "invoices"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "invoices_status_expiresAt_idx" ON "invoices"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
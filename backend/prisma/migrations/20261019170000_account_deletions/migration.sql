@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "account_deletions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "subjectHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "retentionDays" INTEGER NOT NULL,
+    "dataRemaining" TEXT[],
+    "erased" JSONB,
+    "digest" TEXT,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "purgedAt" TIMESTAMP(3),
+
+    CONSTRAINT "account_deletions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "account_deletions_status_requestedAt_idx" ON "account_deletions"("status", "requestedAt");
+
+-- CreateIndex
+CREATE INDEX "account_deletions_userId_idx" ON "account_deletions"("userId");
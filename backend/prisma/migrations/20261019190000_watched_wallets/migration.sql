@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "positions" ADD COLUMN "walletAddress" TEXT;
+
+-- CreateTable
+CREATE TABLE "watched_wallets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT,
+    "group" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "watched_wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "positions_userId_walletAddress_idx" ON "positions"("userId", "walletAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "watched_wallets_userId_address_key" ON "watched_wallets"("userId", "address");
+
+-- CreateIndex
+CREATE INDEX "watched_wallets_userId_group_idx" ON "watched_wallets"("userId", "group");
+
+-- AddForeignKey
+ALTER TABLE "watched_wallets" ADD CONSTRAINT "watched_wallets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,140 @@
+-- CreateTable
+CREATE TABLE "indexer_cursors" (
+    "chainId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "indexer_cursors_pkey" PRIMARY KEY ("chainId")
+);
+
+-- CreateTable
+CREATE TABLE "chain_events" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "contract" TEXT NOT NULL,
+    "contractName" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "type" TEXT,
+    "account" TEXT,
+    "token" TEXT,
+    "amount" TEXT,
+    "reference" TEXT,
+    "args" JSONB NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "chain_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vault_deposits" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "vault" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "shares" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vault_deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vault_withdrawals" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "vault" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "shares" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vault_withdrawals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bridge_messages" (
+    "id" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'initiated',
+    "sourceChainId" INTEGER NOT NULL,
+    "destinationChainId" INTEGER NOT NULL,
+    "sender" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "token" TEXT,
+    "amount" TEXT NOT NULL,
+    "withdrawalHash" TEXT,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "initiatedAt" TIMESTAMP(3) NOT NULL,
+    "provenAt" TIMESTAMP(3),
+    "finalizedAt" TIMESTAMP(3),
+    "finalizeTxHash" TEXT,
+
+    CONSTRAINT "bridge_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chain_events_chainId_txHash_logIndex_key" ON "chain_events"("chainId", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "chain_events_chainId_type_timestamp_idx" ON "chain_events"("chainId", "type", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "chain_events_chainId_blockNumber_idx" ON "chain_events"("chainId", "blockNumber");
+
+-- CreateIndex
+CREATE INDEX "chain_events_account_idx" ON "chain_events"("account");
+
+-- CreateIndex
+CREATE INDEX "chain_events_reference_idx" ON "chain_events"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vault_deposits_chainId_txHash_logIndex_key" ON "vault_deposits"("chainId", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "vault_deposits_account_idx" ON "vault_deposits"("account");
+
+-- CreateIndex
+CREATE INDEX "vault_deposits_chainId_vault_account_idx" ON "vault_deposits"("chainId", "vault", "account");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vault_withdrawals_chainId_txHash_logIndex_key" ON "vault_withdrawals"("chainId", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "vault_withdrawals_account_idx" ON "vault_withdrawals"("account");
+
+-- CreateIndex
+CREATE INDEX "vault_withdrawals_chainId_vault_account_idx" ON "vault_withdrawals"("chainId", "vault", "account");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bridge_messages_withdrawalHash_key" ON "bridge_messages"("withdrawalHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bridge_messages_sourceChainId_txHash_logIndex_key" ON "bridge_messages"("sourceChainId", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "bridge_messages_sender_idx" ON "bridge_messages"("sender");
+
+-- CreateIndex
+CREATE INDEX "bridge_messages_recipient_idx" ON "bridge_messages"("recipient");
+
+-- CreateIndex
+CREATE INDEX "bridge_messages_status_idx" ON "bridge_messages"("status");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "indexer_cursors" ADD COLUMN     "safeBlockNumber" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "finalizedBlockNumber" BIGINT NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "indexed_blocks" (
+    "chainId" INTEGER NOT NULL,
+    "number" BIGINT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "parentHash" TEXT NOT NULL,
+
+    CONSTRAINT "indexed_blocks_pkey" PRIMARY KEY ("chainId","number")
+);
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "vault_exchange_rates" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "accountant" TEXT NOT NULL,
+    "rate" TEXT NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "blockHash" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vault_exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vault_exchange_rates_chainId_txHash_logIndex_key" ON "vault_exchange_rates"("chainId", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "vault_exchange_rates_chainId_accountant_timestamp_idx" ON "vault_exchange_rates"("chainId", "accountant", "timestamp");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "peg_samples" (
+    "id" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "pool" TEXT NOT NULL,
+    "marketPrice" DOUBLE PRECISION NOT NULL,
+    "redemptionRate" DOUBLE PRECISION NOT NULL,
+    "deviation" DOUBLE PRECISION NOT NULL,
+    "blockNumber" BIGINT NOT NULL,
+    "sampledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "peg_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "peg_samples_symbol_sampledAt_idx" ON "peg_samples"("symbol", "sampledAt");
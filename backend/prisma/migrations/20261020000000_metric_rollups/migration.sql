@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "metric_rollups" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "resolution" INTEGER NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "tvlSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "yieldSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "usersSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "volume" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "samples" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "metric_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "metric_rollups_scope_resolution_bucket_key" ON "metric_rollups"("scope", "resolution", "bucket");
+
+-- CreateIndex
+CREATE INDEX "metric_rollups_resolution_bucket_idx" ON "metric_rollups"("resolution", "bucket");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "price_points" (
+    "id" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "sources" JSONB NOT NULL,
+    "sampledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_points_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_points_symbol_sampledAt_idx" ON "price_points"("symbol", "sampledAt");
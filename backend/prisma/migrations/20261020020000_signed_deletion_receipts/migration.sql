@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "account_deletions" RENAME COLUMN "digest" TO "signature";
+
+-- Receipts completed so far carry an unkeyed sha256; clear it so they don't verify as signed
+UPDATE "account_deletions" SET "signature" = NULL;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chain_events" ADD COLUMN "decimals" INTEGER;
+
+-- Amounts indexed so far were all read as 18 decimals; keep that reading for them
+UPDATE "chain_events" SET "decimals" = 18 WHERE "amount" IS NOT NULL;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "retired_refresh_tokens" (
+    "hash" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "retiredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "retired_refresh_tokens_pkey" PRIMARY KEY ("hash")
+);
+
+-- CreateIndex
+CREATE INDEX "retired_refresh_tokens_sessionId_idx" ON "retired_refresh_tokens"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "retired_refresh_tokens" ADD CONSTRAINT "retired_refresh_tokens_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Keep the one retired hash each session remembered so far
+INSERT INTO "retired_refresh_tokens" ("hash", "sessionId")
+SELECT "previousTokenHash", "id" FROM "sessions" WHERE "previousTokenHash" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "sessions_previousTokenHash_idx";
+
+-- AlterTable
+ALTER TABLE "sessions" DROP COLUMN "previousTokenHash";
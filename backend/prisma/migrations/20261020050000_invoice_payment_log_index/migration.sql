@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "invoices_txHash_key";
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "logIndex" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_txHash_logIndex_key" ON "invoices"("txHash", "logIndex");
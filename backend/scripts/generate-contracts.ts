@@ -0,0 +1,147 @@
+/**
+ * Generate typed contract bindings from Foundry build artifacts and deployment broadcasts.
+ *
+ *   npm run contracts:build && npm run contracts:bindings
+ *   npm run contracts:bindings -- --artifacts path/to/out    # artifacts built elsewhere
+ *
+ * Writes src/contracts/generated/abis.ts (one `as const` ABI per contract, so viem infers argument
+ * and return types) and src/contracts/generated/deployments.ts (addresses from the latest run of
+ * every deploy script, per chain).
+ */
+import fs from 'fs';
+import path from 'path';
+
+interface Broadcast {
+  transactions: Array<{ transactionType: string; contractName: string | null; contractAddress: string | null }>;
+  timestamp: number;
+  chain: number;
+  commit: string | null;
+}
+
+interface Deployment {
+  chainId: number;
+  dryRun: boolean;
+  commit: string | null;
+  deployedAt: string;
+  contracts: Record<string, string>;
+}
+
+const ROOT = path.resolve(__dirname, '..');
+const CONTRACTS_DIR = path.resolve(ROOT, '../contracts');
+const OUTPUT_DIR = path.join(ROOT, 'src/contracts/generated');
+const CONTRACTS = ['RiskOracle', 'SwellScopeVault', 'SwellChainIntegration'];
+
+function main(): void {
+  const artifactsIndex = process.argv.indexOf('--artifacts');
+  const artifacts = artifactsIndex !== -1 ? path.resolve(process.argv[artifactsIndex + 1]) : path.join(CONTRACTS_DIR, 'out');
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  write('abis.ts', renderAbis(artifacts));
+  write('deployments.ts', renderDeployments(readDeployments(path.join(CONTRACTS_DIR, 'broadcast'))));
+}
+
+function write(file: string, contents: string): void {
+  const target = path.join(OUTPUT_DIR, file);
+  fs.writeFileSync(target, contents);
+  console.log(`Wrote ${path.relative(process.cwd(), target)}`);
+}
+
+function renderAbis(artifacts: string): string {
+  const lines = [
+    '// Generated by scripts/generate-contracts.ts from the Foundry build artifacts. Do not edit by hand.',
+    ''
+  ];
+
+  for (const name of CONTRACTS) {
+    const artifact = path.join(artifacts, `${name}.sol`, `${name}.json`);
+    if (!fs.existsSync(artifact)) {
+      throw new Error(`Missing ${artifact}; run \`forge build\` in contracts/ first`);
+    }
+    const { abi } = JSON.parse(fs.readFileSync(artifact, 'utf8')) as { abi: Array<{ type: string; name?: string }> };
+    // Stable order keeps diffs readable when the compiler reorders entries
+    const sorted = [...abi].sort((a, b) => `${a.type}:${a.name || ''}`.localeCompare(`${b.type}:${b.name || ''}`));
+
+    lines.push(`export const ${name[0].toLowerCase()}${name.slice(1)}Abi = [`);
+    sorted.forEach((entry, index) => lines.push(`  ${JSON.stringify(entry)}${index < sorted.length - 1 ? ',' : ''}`));
+    lines.push('] as const;', '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * The latest run of every deploy script, per chain. A real broadcast wins over a dry run on the same chain.
+ */
+function readDeployments(broadcastDir: string): Deployment[] {
+  const deployments = new Map<number, Deployment>();
+  if (!fs.existsSync(broadcastDir)) return [];
+
+  for (const script of fs.readdirSync(broadcastDir).sort()) {
+    for (const chain of fs.readdirSync(path.join(broadcastDir, script)).sort()) {
+      const runs = [
+        { file: path.join(broadcastDir, script, chain, 'run-latest.json'), dryRun: false },
+        { file: path.join(broadcastDir, script, chain, 'dry-run', 'run-latest.json'), dryRun: true }
+      ];
+      const run = runs.find(candidate => fs.existsSync(candidate.file));
+      if (!run) continue;
+
+      const broadcast: Broadcast = JSON.parse(fs.readFileSync(run.file, 'utf8'));
+      const existing = deployments.get(broadcast.chain);
+      if (existing && !existing.dryRun && run.dryRun) continue;
+
+      const contracts: Record<string, string> = { ...(existing?.contracts || {}) };
+      for (const transaction of broadcast.transactions) {
+        if (transaction.transactionType === 'CREATE' && transaction.contractName && CONTRACTS.includes(transaction.contractName)) {
+          contracts[transaction.contractName] = (transaction.contractAddress as string).toLowerCase();
+        }
+      }
+
+      deployments.set(broadcast.chain, {
+        chainId: broadcast.chain,
+        dryRun: run.dryRun,
+        commit: broadcast.commit,
+        deployedAt: new Date(broadcast.timestamp * 1000).toISOString(),
+        contracts
+      });
+    }
+  }
+
+  return Array.from(deployments.values()).sort((a, b) => a.chainId - b.chainId);
+}
+
+function renderDeployments(deployments: Deployment[]): string {
+  const lines = [
+    '// Generated by scripts/generate-contracts.ts from contracts/broadcast. Do not edit by hand.',
+    '',
+    "import { ContractDeployment } from '../../types';",
+    '',
+    'export const DEPLOYMENTS: Record<number, ContractDeployment> = {'
+  ];
+
+  deployments.forEach((deployment, index) => {
+    const contracts = Object.entries(deployment.contracts)
+      .map(([name, address]) => `      ${name}: '${address}'`)
+      .join(',\n');
+    lines.push(
+      `  ${deployment.chainId}: {`,
+      `    chainId: ${deployment.chainId},`,
+      `    dryRun: ${deployment.dryRun},`,
+      `    commit: ${deployment.commit ? `'${deployment.commit}'` : 'null'},`,
+      `    deployedAt: '${deployment.deployedAt}',`,
+      '    contracts: {',
+      contracts,
+      '    }',
+      `  }${index < deployments.length - 1 ? ',' : ''}`
+    );
+  });
+  lines.push('};', '');
+
+  return lines.join('\n');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exit(1);
+}
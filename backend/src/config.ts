@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { DepegThreshold, EnvConfig, PriceFeed, PriceFixture } from './types';
+
+type Environment = EnvConfig['NODE_ENV'];
+
+// Per-environment defaults. Production intentionally has no defaults for secrets or connection strings.
+const PROFILES: Record<Environment, Partial<Record<keyof EnvConfig, string>>> = {
+  development: {
+    PORT: '3001',
+    DATABASE_URL: 'postgresql://localhost:5432/swellscope',
+    REDIS_URL: 'redis://localhost:6379',
+    CORS_ORIGIN: 'http://localhost:3000',
+    LOG_LEVEL: 'debug'
+  },
+  test: {
+    PORT: '3001',
+    DATABASE_URL: 'postgresql://localhost:5432/swellscope_test',
+    REDIS_URL: 'redis://localhost:6379',
+    CORS_ORIGIN: 'http://localhost:3000',
+    LOG_LEVEL: 'warn'
+  },
+  production: {
+    PORT: '3001',
+    LOG_LEVEL: 'info'
+  }
+};
+
+const PLACEHOLDER_SECRETS = ['your_super_secure_jwt_secret_here_minimum_32_characters', 'fallback-secret-for-development'];
+
+const optionalString = z.string().min(1).optional();
+
+const urlList = z.string().default('').transform((value, ctx) => {
+  const urls = value.split(',').map(item => item.trim()).filter(Boolean);
+  for (const url of urls) {
+    if (!z.string().url().safeParse(url).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid url '${redactUrl(url, true)}'` });
+    }
+  }
+  return urls;
+});
+
+const configSchema = z.object({
+  NODE_ENV: z.enum(['development', 'test', 'production']),
+  PORT: z.coerce.number().int().positive(),
+  DATABASE_URL: z.string().url(),
+  REDIS_URL: z.string().url(),
+  JWT_SECRET: z.string()
+    .min(32, 'must be at least 32 characters')
+    .refine(secret => !PLACEHOLDER_SECRETS.includes(secret), 'must not be the example placeholder'),
+  // Signs account deletion receipts; derived from JWT_SECRET when unset, so set it before rotating that
+  DELETION_RECEIPT_SECRET: z.string().min(32, 'must be at least 32 characters').optional(),
+  SWELLCHAIN_RPC_URL: z.string().url().default('https://swell-mainnet.alt.technology'),
+  ETHEREUM_RPC_URL: z.string().url().default('https://rpc.ankr.com/eth'),
+  // Comma-separated endpoints tried after the primary URL, healthiest first
+  SWELLCHAIN_FALLBACK_RPC_URLS: urlList,
+  ETHEREUM_FALLBACK_RPC_URLS: urlList,
+  RPC_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  RPC_BATCH_SIZE: z.coerce.number().int().positive().default(50),
+  RPC_CACHE_SIZE: z.coerce.number().int().positive().default(10000),
+  // Swellchain addresses of the SwellScope contracts; override the deployment manifest
+  SWELLSCOPE_VAULT_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  RISK_ORACLE_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  SWELLCHAIN_INTEGRATION_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  // Swellchain protocols the portfolio and risk views read; each adapter is off until its address is set
+  ION_PROTOCOL_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  // Ambient's CrocQuery lens, and the tokens of the ETH pools to read through it
+  AMBIENT_PROTOCOL_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  AMBIENT_POOL_TOKENS: z.string().default('').transform((value, ctx) => {
+    const tokens = value.split(',').map(item => item.trim()).filter(Boolean);
+    for (const token of tokens) {
+      if (!/^0x[a-fA-F0-9]{40}$/.test(token)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid address '${token}'` });
+      }
+    }
+    return tokens.map(token => token.toLowerCase());
+  }),
+  AMBIENT_POOL_INDEX: z.coerce.number().int().min(0).default(420),
+  // Uniswap V3 pools pairing each token with WETH on Ethereum; the depeg monitor skips tokens without one
+  SWETH_DEX_POOL_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  RSWETH_DEX_POOL_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  // Discounts that raise a depeg alert, as severity:basisPoints:minutes; each must hold for its minutes
+  DEPEG_THRESHOLDS: z.string().default('medium:50:30,high:100:15,critical:300:5').transform((value, ctx) => {
+    const thresholds: DepegThreshold[] = [];
+    for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [severity, bps, minutes] = entry.split(':').map(part => part.trim());
+      if (!['low', 'medium', 'high', 'critical'].includes(severity) || !/^\d+$/.test(bps || '') || !/^\d+$/.test(minutes || '')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid entry '${entry}', expected severity:bps:minutes` });
+        continue;
+      }
+      thresholds.push({
+        severity: severity as DepegThreshold['severity'],
+        deviationBps: Number(bps),
+        durationMs: Number(minutes) * 60 * 1000
+      });
+    }
+    return thresholds;
+  }),
+  // Window of the TWAP the depeg monitor reads as the market price
+  DEPEG_TWAP_SECONDS: z.coerce.number().int().positive().default(300),
+  DEPEG_RETENTION_DAYS: z.coerce.number().int().positive().default(90),
+  // Chainlink-style aggregators on Ethereum as SYMBOL/QUOTE=0x..., quoted in USD or ETH
+  PRICE_FEEDS: z.string().default('ETH/USD=0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419').transform((value, ctx) => {
+    const feeds: PriceFeed[] = [];
+    for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [pair, address] = entry.split('=').map(part => part.trim());
+      const [symbol, quote] = (pair || '').split('/');
+      if (!symbol || !['USD', 'ETH'].includes(quote) || !/^0x[a-fA-F0-9]{40}$/.test(address || '')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid entry '${entry}', expected SYMBOL/USD=0x... or SYMBOL/ETH=0x...` });
+        continue;
+      }
+      feeds.push({ symbol, quote: quote as PriceFeed['quote'], address: address.toLowerCase() });
+    }
+    return feeds;
+  }),
+  // Window of the DEX price source's TWAP over the depeg monitor's pools
+  PRICE_TWAP_SECONDS: z.coerce.number().int().positive().default(1800),
+  // Fixed prices as SYMBOL/QUOTE=price, for local development without feeds
+  PRICE_FIXTURES: z.string().default('').transform((value, ctx) => {
+    const fixtures: PriceFixture[] = [];
+    for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [pair, price] = entry.split('=').map(part => part.trim());
+      const [symbol, quote] = (pair || '').split('/');
+      if (!symbol || !['USD', 'ETH'].includes(quote) || !(Number(price) > 0)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid entry '${entry}', expected SYMBOL/USD=price or SYMBOL/ETH=price` });
+        continue;
+      }
+      fixtures.push({ symbol, quote: quote as PriceFixture['quote'], price: Number(price) });
+    }
+    return fixtures;
+  }),
+  // Quotes further than this from the median of a token's quotes are dropped
+  PRICE_MAX_DEVIATION_BPS: z.coerce.number().int().positive().default(200),
+  PRICE_RETENTION_DAYS: z.coerce.number().int().positive().default(365),
+  ALCHEMY_API_KEY: optionalString,
+  MORALIS_API_KEY: optionalString,
+  CORS_ORIGIN: z.string().url(),
+  SIWE_DOMAIN: optionalString,
+  SIWE_URI: z.string().url().optional(),
+  // Where plan-limit errors send users to upgrade; defaults to /pricing on CORS_ORIGIN
+  UPGRADE_URL: z.string().url().optional(),
+  // Crypto subscription payments are disabled until a receiver is configured
+  PAYMENT_RECEIVER_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address').optional(),
+  // A USD stablecoin; tier prices are charged 1:1. Defaults to USDC on Ethereum mainnet.
+  PAYMENT_TOKEN_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'must be an address')
+    .default('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'),
+  PAYMENT_TOKEN_SYMBOL: z.string().min(1).default('USDC'),
+  PAYMENT_TOKEN_DECIMALS: z.coerce.number().int().min(0).max(36).default(6),
+  PAYMENT_CHAIN_ID: z.coerce.number().int().positive().default(1),
+  // Defaults to ETHEREUM_RPC_URL; point it at a local node (e.g. anvil) for testing
+  PAYMENT_RPC_URL: z.string().url().optional(),
+  PAYMENT_CONFIRMATIONS: z.coerce.number().int().min(0).default(12),
+  PAYMENT_WATCHER: z.enum(['rpc', 'stub']).default('rpc'),
+  INDEXER_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  // Default to ETHEREUM_RPC_URL / SWELLCHAIN_RPC_URL; point both at anvil nodes for local testing
+  INDEXER_ETHEREUM_RPC_URL: z.string().url().optional(),
+  INDEXER_SWELLCHAIN_RPC_URL: z.string().url().optional(),
+  // Where to start on an empty database; defaults to the last final block
+  INDEXER_ETHEREUM_START_BLOCK: z.coerce.number().int().min(0).optional(),
+  INDEXER_SWELLCHAIN_START_BLOCK: z.coerce.number().int().min(0).optional(),
+  // Override the per-chain safe and finality depths; set both to 0 against a local node
+  INDEXER_CONFIRMATIONS: z.coerce.number().int().min(0).optional(),
+  INDEXER_FINALITY_BLOCKS: z.coerce.number().int().min(0).optional(),
+  INDEXER_BATCH_SIZE: z.coerce.number().int().positive().default(1000),
+  // Address overrides as NAME=0x...,NAME=0x..., e.g. for contracts deployed to a local node
+  INDEXER_CONTRACTS: z.string().default('').transform((value, ctx) => {
+    const contracts: Record<string, string> = {};
+    for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [name, address] = entry.split('=').map(part => part.trim());
+      if (!name || !/^0x[a-fA-F0-9]{40}$/.test(address || '')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid entry '${entry}', expected NAME=0x...` });
+        continue;
+      }
+      contracts[name.toUpperCase()] = address.toLowerCase();
+    }
+    return contracts;
+  }),
+  RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60000),
+  RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(100),
+  // Express `trust proxy`: hop count, true/false, or a comma-separated list of proxy addresses/subnets
+  TRUST_PROXY: z.string().default('false').transform(value => {
+    if (value === 'true' || value === 'false') return value === 'true';
+    return /^\d+$/.test(value) ? Number(value) : value;
+  }),
+  LOG_LEVEL: z.enum(['error', 'warn', 'info', 'http', 'debug']),
+  SENTRY_DSN: optionalString,
+  ADMIN_ADDRESSES: z.string().default('').transform(value =>
+    value.split(',').map(address => address.trim().toLowerCase()).filter(Boolean)
+  )
+});
+
+/**
+ * Load and validate configuration from the environment.
+ * Throws with every problem listed so a misconfigured deployment fails at boot.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): EnvConfig {
+  const nodeEnv = (env.NODE_ENV || 'development') as Environment;
+  const profile = PROFILES[nodeEnv] || {};
+
+  const raw: Record<string, string | undefined> = { ...profile, NODE_ENV: nodeEnv };
+  for (const key of Object.keys(configSchema.shape)) {
+    // Treat empty strings as unset so `FOO=` in a .env file falls back to the profile
+    if (env[key]) raw[key] = env[key];
+  }
+
+  // Outside production an ephemeral secret keeps local setups working; tokens do not survive restarts
+  if (!raw.JWT_SECRET && nodeEnv !== 'production') {
+    raw.JWT_SECRET = crypto.randomBytes(32).toString('hex');
+  }
+
+  const result = configSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `  - ${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid configuration for NODE_ENV=${nodeEnv}:\n${problems.join('\n')}`);
+  }
+
+  return result.data as EnvConfig;
+}
+
+const SECRET_KEY_PATTERN = /SECRET|KEY|TOKEN|PASSWORD|DSN/;
+
+/**
+ * Copy of the config that is safe to show to operators.
+ * Secrets are masked, credentials are stripped from connection strings and RPC URLs are reduced to their origin.
+ */
+export function redactConfig(config: EnvConfig): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) {
+      redacted[key] = value;
+    } else if (SECRET_KEY_PATTERN.test(key)) {
+      redacted[key] = '[REDACTED]';
+    } else if (key.endsWith('_RPC_URL')) {
+      redacted[key] = redactUrl(String(value), true);
+    } else if (key.endsWith('_RPC_URLS')) {
+      redacted[key] = (value as string[]).map(url => redactUrl(url, true));
+    } else if (key.endsWith('_URL')) {
+      redacted[key] = redactUrl(String(value), false);
+    } else {
+      redacted[key] = value;
+    }
+  }
+
+  return redacted;
+}
+
+export function redactUrl(value: string, originOnly: boolean): string {
+  try {
+    const url = new URL(value);
+    if (url.username) url.username = 'REDACTED';
+    if (url.password) url.password = 'REDACTED';
+    // RPC providers commonly embed API keys in the path or query
+    if (originOnly && (url.pathname !== '/' || url.search)) {
+      return `${url.protocol}//${url.host}/[REDACTED]`;
+    }
+    return url.toString();
+  } catch (error) {
+    return '[REDACTED]';
+  }
+}
+
+export const config: EnvConfig = loadConfig();
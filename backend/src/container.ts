@@ -0,0 +1,321 @@
+import { PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import { EnvConfig } from './types';
+import { ACCESS_TOKEN_TTL_SECONDS, AuthMiddleware, createAuthMiddleware } from './middleware/auth';
+import { AnalyticsService } from './services/AnalyticsService';
+import { CacheService } from './services/CacheService';
+import { RiskService } from './services/RiskService';
+import { SwellChainService } from './services/SwellChainService';
+import { SiweService } from './services/SiweService';
+import { SessionService } from './services/SessionService';
+import { TokenDenylist } from './services/TokenDenylist';
+import { RateLimiter } from './services/RateLimiter';
+import { ApiKeyService } from './services/ApiKeyService';
+import { EntitlementService } from './services/EntitlementService';
+import { InvoiceService, paymentSettingsFromConfig } from './services/InvoiceService';
+import { PaymentWatcher, RpcPaymentWatcher, StubPaymentWatcher } from './services/PaymentWatcher';
+import { DataExportService } from './services/DataExportService';
+import { AccountDeletionService, deletionReceiptKeyFromConfig } from './services/AccountDeletionService';
+import { OrganizationService } from './services/OrganizationService';
+import { WatchedWalletService } from './services/WatchedWalletService';
+import { ChainIndexer, indexedChainsFromConfig } from './services/ChainIndexer';
+import { RpcClient, rpcClientsFromConfig, rpcOptionsFromConfig } from './services/RpcClient';
+import { ContractsService, contractAddressesFromConfig } from './services/ContractsService';
+import { ProtocolRegistry, protocolAdaptersFromConfig } from './services/protocols/ProtocolRegistry';
+import { NucleusAdapter } from './services/protocols/NucleusAdapter';
+import { DepegMonitor, peggedTokensFromConfig } from './services/DepegMonitor';
+import { TimeSeriesService } from './services/TimeSeriesService';
+import { PriceService, priceSourcesFromConfig } from './services/PriceService';
+import { createEntitlementMiddleware, EntitlementMiddleware } from './middleware/entitlements';
+import { AddressAccessMiddleware, createAddressAccessMiddleware } from './middleware/addressAccess';
+import {
+  apiKeySubject,
+  bearerTokenSubject,
+  cachedTierLookup,
+  createRateLimitMiddleware,
+  RateLimitMiddleware
+} from './middleware/rateLimiter';
+import { UserRepository } from './repositories/UserRepository';
+import { RiskProfileRepository } from './repositories/RiskProfileRepository';
+import { PositionRepository } from './repositories/PositionRepository';
+import { StrategyRepository } from './repositories/StrategyRepository';
+import { BridgeOperationRepository } from './repositories/BridgeOperationRepository';
+import { RiskAlertRepository } from './repositories/RiskAlertRepository';
+import { RecommendationRepository } from './repositories/RecommendationRepository';
+import { ActivityRepository } from './repositories/ActivityRepository';
+import { SessionRepository } from './repositories/SessionRepository';
+import { ApiKeyRepository } from './repositories/ApiKeyRepository';
+import { AlertRuleRepository } from './repositories/AlertRuleRepository';
+import { DashboardRepository } from './repositories/DashboardRepository';
+import { InvoiceRepository } from './repositories/InvoiceRepository';
+import { AccountDeletionRepository } from './repositories/AccountDeletionRepository';
+import { OrganizationRepository } from './repositories/OrganizationRepository';
+import { WatchedWalletRepository } from './repositories/WatchedWalletRepository';
+import { ChainDataRepository } from './repositories/ChainDataRepository';
+import { PegRepository } from './repositories/PegRepository';
+import { MetricsRepository } from './repositories/MetricsRepository';
+import { PriceRepository } from './repositories/PriceRepository';
+import { ETHEREUM_CHAIN_ID, SWELLCHAIN_CHAIN_ID } from './utils/chains';
+
+/**
+ * Shared service instances for the whole process.
+ * Routers, the WebSocket layer and cron jobs all read from the same container.
+ */
+export interface Container {
+  config: EnvConfig;
+  prisma: PrismaClient;
+  redis: Redis;
+
+  // Repositories
+  userRepository: UserRepository;
+  riskProfileRepository: RiskProfileRepository;
+  positionRepository: PositionRepository;
+  strategyRepository: StrategyRepository;
+  bridgeOperationRepository: BridgeOperationRepository;
+  riskAlertRepository: RiskAlertRepository;
+  recommendationRepository: RecommendationRepository;
+  activityRepository: ActivityRepository;
+  sessionRepository: SessionRepository;
+  apiKeyRepository: ApiKeyRepository;
+  alertRuleRepository: AlertRuleRepository;
+  dashboardRepository: DashboardRepository;
+  invoiceRepository: InvoiceRepository;
+  accountDeletionRepository: AccountDeletionRepository;
+  organizationRepository: OrganizationRepository;
+  watchedWalletRepository: WatchedWalletRepository;
+  chainDataRepository: ChainDataRepository;
+  pegRepository: PegRepository;
+  metricsRepository: MetricsRepository;
+  priceRepository: PriceRepository;
+
+  // Services
+  /** JSON-RPC clients keyed by chain id */
+  rpcClients: Record<number, RpcClient>;
+  protocolRegistry: ProtocolRegistry;
+  nucleusAdapter: NucleusAdapter;
+  depegMonitor: DepegMonitor;
+  timeSeriesService: TimeSeriesService;
+  priceService: PriceService;
+  cacheService: CacheService;
+  analyticsService: AnalyticsService;
+  riskService: RiskService;
+  swellChainService: SwellChainService;
+  siweService: SiweService;
+  sessionService: SessionService;
+  tokenDenylist: TokenDenylist;
+  apiKeyService: ApiKeyService;
+  authMiddleware: AuthMiddleware;
+  rateLimiter: RateLimiter;
+  rateLimitMiddleware: RateLimitMiddleware;
+  entitlementService: EntitlementService;
+  entitlementMiddleware: EntitlementMiddleware;
+  paymentWatcher: PaymentWatcher;
+  invoiceService: InvoiceService;
+  dataExportService: DataExportService;
+  accountDeletionService: AccountDeletionService;
+  organizationService: OrganizationService;
+  addressAccessMiddleware: AddressAccessMiddleware;
+  watchedWalletService: WatchedWalletService;
+  chainIndexer: ChainIndexer;
+  contractsService: ContractsService;
+}
+
+export interface ContainerDependencies {
+  config: EnvConfig;
+  prisma: PrismaClient;
+  redis: Redis;
+}
+
+/**
+ * Composition root. Builds every shared instance once; pass overrides to swap in fakes.
+ */
+export function createContainer(
+  { config, prisma, redis }: ContainerDependencies,
+  overrides: Partial<Container> = {}
+): Container {
+  const rpcClients = overrides.rpcClients || rpcClientsFromConfig(config);
+  const userRepository = overrides.userRepository || new UserRepository(prisma);
+  const positionRepository = overrides.positionRepository || new PositionRepository(prisma);
+  const strategyRepository = overrides.strategyRepository || new StrategyRepository(prisma);
+  const alertRuleRepository = overrides.alertRuleRepository || new AlertRuleRepository(prisma);
+  const dashboardRepository = overrides.dashboardRepository || new DashboardRepository(prisma);
+  const watchedWalletRepository = overrides.watchedWalletRepository || new WatchedWalletRepository(prisma);
+  const sessionRepository = overrides.sessionRepository || new SessionRepository(prisma);
+  const tokenDenylist = overrides.tokenDenylist || new TokenDenylist(redis, ACCESS_TOKEN_TTL_SECONDS);
+  const apiKeyRepository = overrides.apiKeyRepository || new ApiKeyRepository(prisma);
+  const apiKeyService = overrides.apiKeyService || new ApiKeyService(apiKeyRepository);
+  const authMiddleware = overrides.authMiddleware || createAuthMiddleware(tokenDenylist, apiKeyService);
+  const rateLimiter = overrides.rateLimiter || new RateLimiter(redis);
+  const tierOf = cachedTierLookup(userId => userRepository.findSubscriptionTier(userId));
+  const entitlementService = overrides.entitlementService || new EntitlementService(
+    userRepository,
+    {
+      maxPositions: userId => positionRepository.countForUser(userId),
+      maxStrategies: userId => strategyRepository.countForUser(userId),
+      alerts: userId => alertRuleRepository.countForUser(userId),
+      customDashboards: userId => dashboardRepository.countForUser(userId),
+      watchedWallets: userId => watchedWalletRepository.countForUser(userId)
+    },
+    config.UPGRADE_URL || new URL('/pricing', config.CORS_ORIGIN).toString()
+  );
+  const activityRepository = overrides.activityRepository || new ActivityRepository(prisma);
+  const invoiceRepository = overrides.invoiceRepository || new InvoiceRepository(prisma);
+  const paymentWatcher = overrides.paymentWatcher || (config.PAYMENT_WATCHER === 'stub'
+    ? new StubPaymentWatcher()
+    : new RpcPaymentWatcher(config.PAYMENT_RPC_URL
+      ? new RpcClient(config.PAYMENT_CHAIN_ID, [config.PAYMENT_RPC_URL], rpcOptionsFromConfig(config, config.PAYMENT_CHAIN_ID))
+      : rpcClients[config.PAYMENT_CHAIN_ID] || rpcClients[ETHEREUM_CHAIN_ID]));
+  const invoiceService = overrides.invoiceService || new InvoiceService(
+    invoiceRepository,
+    userRepository,
+    activityRepository,
+    paymentWatcher,
+    redis,
+    paymentSettingsFromConfig(config)
+  );
+  const riskProfileRepository = overrides.riskProfileRepository || new RiskProfileRepository(prisma);
+  const bridgeOperationRepository = overrides.bridgeOperationRepository || new BridgeOperationRepository(prisma);
+  const riskAlertRepository = overrides.riskAlertRepository || new RiskAlertRepository(prisma);
+  const sessionService = overrides.sessionService || new SessionService(sessionRepository, userRepository, tokenDenylist);
+  const accountDeletionRepository = overrides.accountDeletionRepository || new AccountDeletionRepository(prisma);
+  const siweService = overrides.siweService || new SiweService(redis, rpcClients);
+  const organizationRepository = overrides.organizationRepository || new OrganizationRepository(prisma);
+  const organizationService = overrides.organizationService || new OrganizationService(
+    organizationRepository,
+    userRepository,
+    siweService
+  );
+  const chainDataRepository = overrides.chainDataRepository || new ChainDataRepository(prisma);
+  const nucleusAdapter = overrides.nucleusAdapter || new NucleusAdapter(rpcClients[SWELLCHAIN_CHAIN_ID], chainDataRepository);
+  const protocolRegistry = overrides.protocolRegistry || new ProtocolRegistry(
+    protocolAdaptersFromConfig(config, rpcClients, nucleusAdapter)
+  );
+  const pegRepository = overrides.pegRepository || new PegRepository(prisma);
+  const depegMonitor = overrides.depegMonitor || new DepegMonitor(
+    rpcClients[ETHEREUM_CHAIN_ID],
+    pegRepository,
+    peggedTokensFromConfig(config),
+    config.DEPEG_THRESHOLDS,
+    config.DEPEG_TWAP_SECONDS
+  );
+  const priceRepository = overrides.priceRepository || new PriceRepository(prisma);
+  const priceService = overrides.priceService || new PriceService(
+    priceRepository,
+    priceSourcesFromConfig(config, rpcClients),
+    config.PRICE_MAX_DEVIATION_BPS
+  );
+  const metricsRepository = overrides.metricsRepository || new MetricsRepository(prisma);
+  const timeSeriesService = overrides.timeSeriesService || new TimeSeriesService(
+    metricsRepository,
+    chainDataRepository,
+    protocolRegistry,
+    priceService
+  );
+  const riskService = overrides.riskService || new RiskService(prisma, redis, protocolRegistry, depegMonitor);
+  const swellChainService = overrides.swellChainService || new SwellChainService(
+    prisma,
+    redis,
+    chainDataRepository,
+    protocolRegistry
+  );
+
+  return {
+    config,
+    prisma,
+    redis,
+
+    userRepository,
+    riskProfileRepository,
+    positionRepository,
+    strategyRepository,
+    bridgeOperationRepository,
+    riskAlertRepository,
+    recommendationRepository: new RecommendationRepository(prisma),
+    activityRepository,
+    sessionRepository,
+    apiKeyRepository,
+    alertRuleRepository,
+    dashboardRepository,
+    invoiceRepository,
+    accountDeletionRepository,
+    organizationRepository,
+    watchedWalletRepository,
+    chainDataRepository,
+    pegRepository,
+    metricsRepository,
+    priceRepository,
+
+    rpcClients,
+    protocolRegistry,
+    nucleusAdapter,
+    depegMonitor,
+    timeSeriesService,
+    priceService,
+    cacheService: new CacheService(redis),
+    analyticsService: new AnalyticsService(
+      chainDataRepository,
+      rpcClients,
+      protocolRegistry,
+      depegMonitor,
+      timeSeriesService,
+      priceService
+    ),
+    riskService,
+    swellChainService,
+    siweService,
+    sessionService,
+    tokenDenylist,
+    apiKeyService,
+    authMiddleware,
+    rateLimiter,
+    rateLimitMiddleware: createRateLimitMiddleware({
+      limiter: rateLimiter,
+      resolvers: [
+        apiKeySubject(authMiddleware.verifyApiKey, tierOf),
+        bearerTokenSubject(authMiddleware.verifyAccessToken, tierOf)
+      ],
+      anonymousLimit: { maxRequests: config.RATE_LIMIT_MAX_REQUESTS, windowMs: config.RATE_LIMIT_WINDOW_MS }
+    }),
+    entitlementService,
+    entitlementMiddleware: createEntitlementMiddleware(entitlementService),
+    paymentWatcher,
+    invoiceService,
+    dataExportService: new DataExportService({
+      userRepository,
+      riskProfileRepository,
+      positionRepository,
+      strategyRepository,
+      riskAlertRepository,
+      alertRuleRepository,
+      dashboardRepository,
+      activityRepository,
+      bridgeOperationRepository,
+      invoiceRepository,
+      organizationRepository,
+      watchedWalletRepository
+    }),
+    accountDeletionService: new AccountDeletionService(
+      accountDeletionRepository,
+      userRepository,
+      apiKeyRepository,
+      invoiceRepository,
+      sessionService,
+      deletionReceiptKeyFromConfig(config)
+    ),
+    organizationService,
+    addressAccessMiddleware: createAddressAccessMiddleware(organizationService),
+    watchedWalletService: new WatchedWalletService(
+      watchedWalletRepository,
+      positionRepository,
+      riskService,
+      swellChainService
+    ),
+    chainIndexer: new ChainIndexer(chainDataRepository, indexedChainsFromConfig(config, rpcClients), {
+      batchSize: config.INDEXER_BATCH_SIZE,
+      maxBatchesPerRun: 10
+    }),
+    contractsService: new ContractsService(rpcClients[SWELLCHAIN_CHAIN_ID], contractAddressesFromConfig(config)),
+
+    ...overrides
+  };
+}
@@ -0,0 +1,17 @@
+// Generated by scripts/generate-contracts.ts from contracts/broadcast. Do not edit by hand.
+
+import { ContractDeployment } from '../../types';
+
+export const DEPLOYMENTS: Record<number, ContractDeployment> = {
+  1924: {
+    chainId: 1924,
+    dryRun: true,
+    commit: 'a99898d',
+    deployedAt: '2025-06-22T08:17:10.000Z',
+    contracts: {
+      RiskOracle: '0xf2e246bb76df876cef8b38ae84130f4f55de395b',
+      SwellChainIntegration: '0x2946259e0334f33a064106302415ad3391bed384',
+      SwellScopeVault: '0xde09e74d4888bc4e65f589e8c13bce9f71ddf4c7'
+    }
+  }
+};
@@ -7,35 +7,31 @@ import { Server as SocketIOServer } from 'socket.io';
 import Redis from 'ioredis';
 import { PrismaClient } from '@prisma/client';
 
+// Configuration is validated on import; a misconfigured deployment fails here
+import { config } from './config';
+
 // Services
-import { AnalyticsService } from './services/AnalyticsService';
-import { CacheService } from './services/CacheService';
-import { RiskService } from './services/RiskService';
-import { SwellChainService } from './services/SwellChainService';
+import { createContainer } from './container';
 import { WebSocketService } from './services/WebSocketService';
 import { CronService } from './services/CronService';
 
 // Middleware
 import { errorHandler } from './middleware/errorHandler';
-import { rateLimit } from './middleware/rateLimiter';
 import { logger } from './utils/logger';
 
 // Routes
-import analyticsRoutes from './routes/analytics';
-import riskRoutes from './routes/risk';
-import portfolioRoutes from './routes/portfolio';
-import avsRoutes from './routes/avs';
-import bridgeRoutes from './routes/bridge';
-import userRoutes from './routes/user';
+import { createApiMounts } from './routes';
+
+// API documentation
+import { buildOpenApiDocument } from './openapi/document';
 
 const app = express();
 const server = createServer(app);
 
-// Environment variables with defaults
-const PORT = process.env.PORT || 3001;
-const NODE_ENV = process.env.NODE_ENV || 'development';
-const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000';
-const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+const PORT = config.PORT;
+const NODE_ENV = config.NODE_ENV;
+const CORS_ORIGIN = config.CORS_ORIGIN;
+const REDIS_URL = config.REDIS_URL;
 
 // Initialize database and cache
 const prisma = new PrismaClient({
@@ -59,19 +55,31 @@ const io = new SocketIOServer(server, {
   transports: ['websocket', 'polling']
 });
 
-// Initialize services
-const cacheService = new CacheService();
-const analyticsService = new AnalyticsService();
-const riskService = new RiskService(prisma, redis);
-const swellChainService = new SwellChainService(prisma, redis);
-const webSocketService = new WebSocketService(io);
+// Initialize services once; routers, WebSocket and cron jobs share these instances
+const container = createContainer({ prisma, redis, config });
+const webSocketService = new WebSocketService(
+  io,
+  container.authMiddleware.verifyAccessToken,
+  (user, address) => container.organizationService.resolveAddressAccess(user, address).then(access => access !== null)
+);
 const cronService = new CronService(
-  analyticsService,
-  riskService,
-  swellChainService,
-  webSocketService
+  container.analyticsService,
+  container.riskService,
+  container.swellChainService,
+  webSocketService,
+  container.invoiceService,
+  container.accountDeletionService,
+  container.chainIndexer,
+  container.depegMonitor,
+  config.DEPEG_RETENTION_DAYS,
+  container.timeSeriesService,
+  container.priceService,
+  config.PRICE_RETENTION_DAYS
 );
 
+// Client IPs come from X-Forwarded-For only when the proxy in front of us is trusted
+app.set('trust proxy', config.TRUST_PROXY);
+
 // Basic middleware
 app.use(helmet({
   crossOriginEmbedderPolicy: false,
@@ -92,14 +100,15 @@ app.use(cors({
   origin: CORS_ORIGIN,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key'],
+  exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After']
 }));
 
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Rate limiting
-app.use('/api', rateLimit('api', 100, 60000)); // 100 requests per minute
+// Rate limiting: per user (or per IP when anonymous) with tier quotas, shared across instances through Redis
+app.use('/api', container.rateLimitMiddleware.apiRateLimit);
 
 // Request logging middleware
 app.use((req, res, next) => {
@@ -135,12 +144,14 @@ app.get('/health', (req, res) => {
 });
 
 // API routes
-app.use('/api/v1/analytics', analyticsRoutes);
-app.use('/api/v1/risk', riskRoutes);
-app.use('/api/v1/portfolio', portfolioRoutes);
-app.use('/api/v1/avs', avsRoutes);
-app.use('/api/v1/bridge', bridgeRoutes);
-app.use('/api/v1/user', userRoutes);
+const apiMounts = createApiMounts(container, () => openApiDocument);
+
+// Fails at boot if a route has no spec entry (or a spec entry has no route)
+const openApiDocument = buildOpenApiDocument(apiMounts, container.authMiddleware);
+
+for (const mount of apiMounts) {
+  app.use(mount.path, mount.router);
+}
 
 // 404 handler for API routes
 app.use('/api', (req, res) => {
@@ -240,6 +251,7 @@ async function startServer() {
         avs: '/api/v1/avs',
         bridge: '/api/v1/bridge',
         user: '/api/v1/user',
+        admin: '/api/v1/admin',
         health: '/health'
       });
     });
@@ -0,0 +1,132 @@
+import { PrismaClient } from '@prisma/client';
+import { Request, RequestHandler, Response } from 'express';
+import { createAddressAccessMiddleware, AddressAccessMiddleware } from './addressAccess';
+import { OrganizationService } from '../services/OrganizationService';
+import { SiweService } from '../services/SiweService';
+import { OrganizationRepository } from '../repositories/OrganizationRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { isSameAddress } from '../utils/address';
+import { AuthenticatedRequest, OrganizationRole, User } from '../types';
+
+jest.mock('../utils/logger');
+
+const CALLER = { id: 'caller', address: '0x1111111111111111111111111111111111111111' };
+const TREASURY = '0x2222222222222222222222222222222222222222';
+const OTHER_WALLET = '0x3333333333333333333333333333333333333333';
+
+/** Organization memberships and attached wallets, queried the way the Postgres repository does */
+class InMemoryOrganizationRepository extends OrganizationRepository {
+  members: Array<{ organizationId: string; userId: string; role: OrganizationRole }> = [];
+  addresses: Array<{ organizationId: string; address: string }> = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findAccessToAddress(userId: string, address: string): Promise<Array<{ organizationId: string; role: OrganizationRole }>> {
+    return this.members
+      .filter(member => member.userId === userId)
+      .filter(member => this.addresses.some(row => row.organizationId === member.organizationId && isSameAddress(row.address, address)))
+      .map(({ organizationId, role }) => ({ organizationId, role }));
+  }
+}
+
+class InMemoryUserRepository extends UserRepository {
+  users: User[] = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findByAddress(address: string): Promise<User | null> {
+    return this.users.find(user => isSameAddress(user.address, address)) || null;
+  }
+}
+
+describe('address access middleware', () => {
+  let organizations: InMemoryOrganizationRepository;
+  let users: InMemoryUserRepository;
+  let middleware: AddressAccessMiddleware;
+
+  const join = (organizationId: string, role: OrganizationRole, ...attached: string[]) => {
+    organizations.members.push({ organizationId, userId: CALLER.id, role });
+    attached.forEach(address => organizations.addresses.push({ organizationId, address }));
+  };
+
+  // Resolves with the status the handler answered with, or 200 if it passed the request on
+  const request = (handler: RequestHandler, address: string, user: AuthenticatedRequest['user'] = CALLER as User) => {
+    const req = { user, params: { address } } as unknown as AuthenticatedRequest;
+    return new Promise<{ status: number; req: AuthenticatedRequest; body?: any }>((resolve, reject) => {
+      const res = {
+        status: (status: number) => ({ json: (body: unknown) => resolve({ status, req, body }) })
+      } as unknown as Response;
+      handler(req as unknown as Request, res, error => (error ? reject(error) : resolve({ status: 200, req })));
+    });
+  };
+
+  beforeEach(() => {
+    organizations = new InMemoryOrganizationRepository();
+    users = new InMemoryUserRepository();
+    users.users.push({ id: 'treasury', address: TREASURY, isActive: true } as User);
+    const service = new OrganizationService(organizations, users, {} as SiweService);
+    middleware = createAddressAccessMiddleware(service);
+  });
+
+  it('lets callers act on their own wallet', async () => {
+    const { status, req } = await request(middleware.canAct, CALLER.address);
+
+    expect(status).toBe(200);
+    expect(req.addressAccess).toEqual({ address: CALLER.address, userId: CALLER.id, role: 'owner' });
+  });
+
+  it('lets analysts and owners act on an attached wallet', async () => {
+    join('org-1', 'analyst', TREASURY);
+
+    const { status, req } = await request(middleware.canAct, TREASURY);
+
+    expect(status).toBe(200);
+    expect(req.addressAccess).toEqual({ address: TREASURY, userId: 'treasury', role: 'analyst', organizationId: 'org-1' });
+  });
+
+  it('lets viewers read an attached wallet but not act on it', async () => {
+    join('org-1', 'viewer', TREASURY);
+
+    await expect(request(middleware.canView, TREASURY)).resolves.toMatchObject({ status: 200 });
+    await expect(request(middleware.canAct, TREASURY)).resolves.toMatchObject({
+      status: 403,
+      body: { error: 'Requires the analyst role for this address' }
+    });
+  });
+
+  it('uses the strongest role across the caller\'s organizations', async () => {
+    join('org-1', 'viewer', TREASURY);
+    join('org-2', 'owner', TREASURY);
+
+    const { status, req } = await request(middleware.canAct, TREASURY);
+
+    expect(status).toBe(200);
+    expect(req.addressAccess).toMatchObject({ role: 'owner', organizationId: 'org-2' });
+  });
+
+  it('refuses wallets not attached to any of the caller\'s organizations', async () => {
+    join('org-1', 'owner', OTHER_WALLET);
+    organizations.addresses.push({ organizationId: 'org-2', address: TREASURY });
+
+    await expect(request(middleware.canView, TREASURY)).resolves.toMatchObject({
+      status: 403,
+      body: { error: 'Unauthorized access to address' }
+    });
+  });
+
+  it('refuses wallets whose account is inactive or missing', async () => {
+    join('org-1', 'owner', TREASURY, OTHER_WALLET);
+    users.users[0].isActive = false;
+
+    await expect(request(middleware.canView, TREASURY)).resolves.toMatchObject({ status: 403 });
+    await expect(request(middleware.canView, OTHER_WALLET)).resolves.toMatchObject({ status: 403 });
+  });
+
+  it('requires an authenticated caller', async () => {
+    await expect(request(middleware.canView, TREASURY, null)).resolves.toMatchObject({ status: 401 });
+  });
+});
@@ -0,0 +1,57 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { AuthenticatedRequest, OrganizationRole } from '../types';
+import { OrganizationService, hasRole } from '../services/OrganizationService';
+
+/**
+ * Build the `/:address` authorization middleware. Callers reach an address they own,
+ * or one attached to an organization they belong to with at least the required role.
+ */
+export const createAddressAccessMiddleware = (organizationService: OrganizationService) => {
+  /**
+   * Resolve the caller's access to `req.params.address` into `req.addressAccess`.
+   * Mount after auth and validateRequest.
+   */
+  const requireAddressAccess = (minimum: OrganizationRole): RequestHandler =>
+    ((req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'User not authenticated',
+          timestamp: Date.now()
+        });
+        return;
+      }
+
+      organizationService.resolveAddressAccess(req.user, req.params.address).then(access => {
+        if (!access) {
+          res.status(403).json({
+            success: false,
+            error: 'Unauthorized access to address',
+            timestamp: Date.now()
+          });
+          return;
+        }
+
+        if (!hasRole(access.role, minimum)) {
+          res.status(403).json({
+            success: false,
+            error: `Requires the ${minimum} role for this address`,
+            timestamp: Date.now()
+          });
+          return;
+        }
+
+        req.addressAccess = access;
+        next();
+      }, next);
+    }) as RequestHandler;
+
+  return {
+    /** Read access: any organization role */
+    canView: requireAddressAccess('viewer'),
+    /** Changes made on the address's behalf: owners and analysts */
+    canAct: requireAddressAccess('analyst')
+  };
+};
+
+export type AddressAccessMiddleware = ReturnType<typeof createAddressAccessMiddleware>;
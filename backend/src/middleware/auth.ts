@@ -1,86 +1,238 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { User, AuthenticatedRequest } from '../types';
+import crypto from 'crypto';
+import { User, AuthenticatedRequest, ApiKeyScope } from '../types';
+import { TokenDenylist } from '../services/TokenDenylist';
+import { ApiKeyService, ApiKeyVerification } from '../services/ApiKeyService';
+import { config } from '../config';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-for-development';
+const JWT_SECRET = config.JWT_SECRET;
+
+// Access tokens are short-lived; sessions are kept alive with rotating refresh tokens
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+// Read-only keys are limited to requests that cannot change anything
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
 
 export interface JWTPayload {
   userId: string;
   address: string;
+  sid: string;
+  jti: string;
   iat: number;
   exp: number;
 }
 
 /**
- * Authentication middleware that validates JWT tokens
- * Supports optional authentication - if no token provided, continues without user info
+ * Build the authentication middleware around a token denylist so revoked sessions are rejected.
+ * With an ApiKeyService, requests may authenticate with an X-API-Key header instead of a Bearer token.
  */
-export const auth = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    const token = req.header('Authorization')?.replace('Bearer ', '');
-    
-    if (!token) {
-      // No token provided - continue without authentication
-      return next();
+export const createAuthMiddleware = (denylist: TokenDenylist, apiKeyService?: ApiKeyService) => {
+  // The rate limiter and the route's auth both look at the key; verify it once per request
+  const apiKeyVerifications = new WeakMap<Request, Promise<ApiKeyVerification>>();
+
+  /**
+   * Verify a token's signature and expiry, then make sure neither it nor its session has been revoked
+   */
+  const verifyAccessToken = async (token: string): Promise<JWTPayload | null> => {
+    const decoded = verifyToken(token);
+    if (!decoded || !decoded.sid || !decoded.jti) {
+      return null;
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
-    req.user = decoded;
-    
-    next();
-  } catch (error) {
-    // Invalid token - return error
-    res.status(401).json({
-      success: false,
-      error: 'Invalid token',
-      message: 'Please provide a valid authentication token',
-      timestamp: Date.now()
-    });
-  }
-};
+    if (await denylist.isRevoked(decoded.sid, decoded.jti)) {
+      return null;
+    }
 
-export const optionalAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      // No auth provided, continue without user
-      return next();
+    return decoded;
+  };
+
+  /**
+   * Verify the request's API key, or return null when it did not present one
+   */
+  const verifyApiKey = (req: Request): Promise<ApiKeyVerification> | null => {
+    const rawKey = req.header(API_KEY_HEADER);
+    if (!rawKey || !apiKeyService) {
+      return null;
+    }
+
+    let verification = apiKeyVerifications.get(req);
+    if (!verification) {
+      verification = apiKeyService.verify(rawKey, req.ip).catch((): ApiKeyVerification => ({ valid: false, reason: 'invalid' }));
+      apiKeyVerifications.set(req, verification);
+    }
+    return verification;
+  };
+
+  /**
+   * Authenticate with an API key. Returns false when the request was rejected.
+   */
+  const authenticateApiKey = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    verification: Promise<ApiKeyVerification>,
+    required: boolean
+  ): Promise<boolean> => {
+    const result = await verification;
+
+    if (result.valid === false) {
+      if (!required) return true;
+      const ipRejected = result.reason === 'ip_not_allowed';
+      res.status(ipRejected ? 403 : 401).json({
+        success: false,
+        error: ipRejected ? 'Forbidden' : 'Invalid API key',
+        message: ipRejected
+          ? 'This API key is not allowed from your IP address'
+          : 'Please provide a valid, unrevoked API key',
+        timestamp: Date.now()
+      });
+      return false;
+    }
+
+    const scopes = result.key.scopes as ApiKeyScope[];
+    if (!READ_METHODS.includes(req.method) && !scopes.includes('trade')) {
+      if (!required) return true;
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: 'This API key is read-only; use a key with the trade scope',
+        timestamp: Date.now()
+      });
+      return false;
+    }
+
+    req.user = {
+      id: result.key.userId,
+      address: result.key.user.address,
+    } as User;
+    req.apiKey = { id: result.key.id, scopes };
+    return true;
+  };
+
+  /**
+   * Authentication middleware that validates JWT tokens
+   * Supports optional authentication - if no token provided, continues without user info
+   */
+  const auth = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const apiKeyVerification = verifyApiKey(req);
+    if (apiKeyVerification) {
+      if (await authenticateApiKey(req, res, apiKeyVerification, true)) {
+        next();
+      }
+      return;
     }
 
-    const token = authHeader.substring(7);
-    
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-      
+      const token = req.header('Authorization')?.replace('Bearer ', '');
+    
+      if (!token) {
+        // No token provided - continue without authentication
+        return next();
+      }
+
+      // Verify token
+      const decoded = await verifyAccessToken(token);
+      if (!decoded) {
+        throw new Error('Token invalid or revoked');
+      }
+
       req.user = {
         id: decoded.userId,
         address: decoded.address,
       } as User;
-      
       req.token = token;
-    } catch (jwtError) {
-      // Invalid token, but continue without user (optional auth)
-      console.warn('Invalid token in optional auth:', jwtError);
+      req.sessionId = decoded.sid;
+
+      next();
+    } catch (error) {
+      // Invalid token - return error
+      res.status(401).json({
+        success: false,
+        error: 'Invalid token',
+        message: 'Please provide a valid authentication token',
+        timestamp: Date.now()
+      });
+    }
+  };
+
+  const optionalAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const apiKeyVerification = verifyApiKey(req);
+    if (apiKeyVerification) {
+      // A bad key is treated like no key: the request continues anonymously
+      await authenticateApiKey(req, res, apiKeyVerification, false);
+      return next();
     }
+
+    try {
+      const authHeader = req.headers.authorization;
     
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        // No auth provided, continue without user
+        return next();
+      }
+
+      const token = authHeader.substring(7);
+    
+      try {
+        const decoded = await verifyAccessToken(token);
+        if (!decoded) {
+          throw new Error('Token invalid or revoked');
+        }
+      
+        req.user = {
+          id: decoded.userId,
+          address: decoded.address,
+        } as User;
+      
+        req.token = token;
+        req.sessionId = decoded.sid;
+      } catch (jwtError) {
+        // Invalid token, but continue without user (optional auth)
+        console.warn('Invalid token in optional auth:', jwtError);
+      }
+    
+      next();
+    } catch (error) {
+      console.error('Optional auth middleware error:', error);
+      next(); // Continue even if there's an error
+    }
+  };
+
+  /**
+   * Reject API-key requests on routes that manage credentials or the account itself.
+   * Mount after `auth`.
+   */
+  const sessionOnly = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (req.apiKey) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: 'This endpoint requires a wallet session and cannot be used with an API key',
+        timestamp: Date.now()
+      });
+      return;
+    }
     next();
-  } catch (error) {
-    console.error('Optional auth middleware error:', error);
-    next(); // Continue even if there's an error
-  }
+  };
+
+  return { auth, optionalAuth, sessionOnly, verifyAccessToken, verifyApiKey };
 };
 
-export const generateToken = (userId: string, address: string): string => {
+export type AuthMiddleware = ReturnType<typeof createAuthMiddleware>;
+
+export const generateToken = (userId: string, address: string, sessionId: string): string => {
   return jwt.sign(
     {
       userId,
       address,
+      sid: sessionId,
+      jti: crypto.randomUUID(),
     },
     JWT_SECRET,
     {
-      expiresIn: '7d', // Token expires in 7 days
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
     }
   );
 };
@@ -0,0 +1,54 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { AuthenticatedRequest, CountedLimit } from '../types';
+import { EntitlementService } from '../services/EntitlementService';
+import { ChartRangeValue } from '../schemas/common';
+
+/**
+ * Plan check middleware; the checked limit stays attached so the OpenAPI document can describe the route
+ */
+export type EntitlementCheck = RequestHandler & { entitlement: CountedLimit | 'historicalData' };
+
+export const isEntitlementCheck = (handler: unknown): handler is EntitlementCheck =>
+  typeof handler === 'function' && 'entitlement' in handler;
+
+/**
+ * Build the plan-limit middleware around the shared EntitlementService
+ */
+export const createEntitlementMiddleware = (entitlementService: EntitlementService) => {
+  /**
+   * Reject a `timeRange` beyond the caller's history window. Mount after validateRequest
+   * so the range has been parsed and defaulted; anonymous callers get the free tier's window.
+   * 'all' always passes: the handler clamps it to the window instead.
+   */
+  const limitHistory: EntitlementCheck = Object.assign(
+    (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+      const timeRange = req.query.timeRange as ChartRangeValue | undefined;
+      if (!timeRange || timeRange === 'all') {
+        return next();
+      }
+
+      entitlementService.assertHistoryAllowed(req.user?.id, timeRange).then(() => next(), next);
+    },
+    { entitlement: 'historicalData' as const }
+  );
+
+  /**
+   * Reject creating one more of a capped resource. Mount after auth, and after the address
+   * access check on /:address routes so the limit is the plan of the account that owns the data.
+   */
+  const withinLimit = (limit: CountedLimit): EntitlementCheck => {
+    const check = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+      if (!req.user) {
+        return next();
+      }
+
+      entitlementService.assertCanCreate(req.addressAccess?.userId || req.user.id, limit).then(() => next(), next);
+    };
+
+    return Object.assign(check, { entitlement: limit });
+  };
+
+  return { limitHistory, withinLimit };
+};
+
+export type EntitlementMiddleware = ReturnType<typeof createEntitlementMiddleware>;
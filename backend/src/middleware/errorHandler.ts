@@ -1,12 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
-import { SwellScopeError } from '../types';
+import { config } from '../config';
+import { SwellScopeError, UpgradeHint } from '../types';
 
 export interface CustomError extends Error {
   statusCode?: number;
   status?: string;
   isOperational?: boolean;
   code?: string;
+  details?: any;
 }
 
 // Error handling for different types of errors
@@ -69,12 +71,14 @@ export const errorHandler = (
     code,
     message,
     timestamp: Date.now(),
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+    ...(err.statusCode && err.details && { details: err.details }),
+    ...(config.NODE_ENV === 'development' && { stack: err.stack })
   };
 
   // Additional details for development
-  if (process.env.NODE_ENV === 'development') {
+  if (config.NODE_ENV === 'development') {
     errorResponse.details = {
+      ...errorResponse.details,
       originalMessage: err.message,
       path: req.path,
       method: req.method,
@@ -120,26 +124,30 @@ export class AppError extends Error {
   statusCode: number;
   status: string;
   isOperational: boolean;
+  code?: string;
+  details?: any;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code?: string) {
     super(message);
     this.statusCode = statusCode;
     this.status = `${statusCode}`.startsWith('4') ? 'fail' : 'error';
     this.isOperational = true;
+    this.code = code;
 
     Error.captureStackTrace(this, this.constructor);
   }
 }
 
 export class ValidationError extends AppError {
-  constructor(message: string = 'Validation failed') {
-    super(message, 400);
+  constructor(message: string = 'Validation failed', details?: any) {
+    super(message, 400, 'VALIDATION_ERROR');
+    this.details = details;
   }
 }
 
 export class AuthenticationError extends AppError {
-  constructor(message: string = 'Authentication required') {
-    super(message, 401);
+  constructor(message: string = 'Authentication required', code: string = 'AUTHENTICATION_REQUIRED') {
+    super(message, 401, code);
   }
 }
 
@@ -161,12 +169,38 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * The user's plan does not allow more of something (strategies, alert rules, dashboards)
+ */
+export class PlanLimitError extends AppError {
+  constructor(message: string, hint: UpgradeHint) {
+    super(message, 402, 'PLAN_LIMIT_REACHED');
+    this.details = hint;
+  }
+}
+
+/**
+ * The user's plan does not include what was requested (e.g. history beyond its retention window)
+ */
+export class PlanFeatureError extends AppError {
+  constructor(message: string, hint: UpgradeHint) {
+    super(message, 403, 'PLAN_UPGRADE_REQUIRED');
+    this.details = hint;
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Rate limit exceeded') {
     super(message, 429);
   }
 }
 
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string = 'Service unavailable') {
+    super(message, 503, 'SERVICE_UNAVAILABLE');
+  }
+}
+
 // Risk-specific errors for SwellScope
 export class RiskAssessmentError extends AppError {
   constructor(message: string = 'Risk assessment failed') {
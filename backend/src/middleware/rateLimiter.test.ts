@@ -0,0 +1,163 @@
+import { Response } from 'express';
+import { Redis } from 'ioredis';
+import { apiKeySubject, bearerTokenSubject, createRateLimitMiddleware, RateLimitMiddleware } from './rateLimiter';
+import { JWTPayload } from './auth';
+import { MemoryRateLimitStore, RateLimiter } from '../services/RateLimiter';
+import { ApiKeyVerification } from '../services/ApiKeyService';
+import { SUBSCRIPTION_LIMITS } from '../utils/subscriptions';
+import { AuthenticatedRequest, SubscriptionTier } from '../types';
+
+jest.mock('../utils/logger');
+
+const MINUTE = 60 * 1000;
+const ANONYMOUS_LIMIT = 3;
+
+const TIERS: Record<string, SubscriptionTier> = { alice: 'free', bob: 'basic' };
+const ACCESS_TOKENS: Record<string, string> = { 'alice-token': 'alice', 'bob-token': 'bob' };
+const API_KEYS: Record<string, { id: string; userId: string }> = { 'sk-alice': { id: 'key-1', userId: 'alice' } };
+
+interface Caller {
+  token?: string;
+  apiKey?: string;
+  ip?: string;
+}
+
+function fakeResponse() {
+  const headers: Record<string, string> = {};
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    headers,
+    set: (name: string | Record<string, string>, value?: string) => {
+      Object.assign(headers, typeof name === 'string' ? { [name]: value } : name);
+      return res;
+    },
+    get: (name: string) => headers[name],
+    status: (code: number) => {
+      res.statusCode = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      res.body = body;
+      return res;
+    }
+  };
+  return res;
+}
+
+describe('rate limit middleware', () => {
+  let middleware: RateLimitMiddleware;
+
+  const call = async ({ token, apiKey, ip = '203.0.113.1' }: Caller) => {
+    const headers: Record<string, string | undefined> = {
+      Authorization: token && `Bearer ${token}`,
+      'X-API-Key': apiKey
+    };
+    const req = { ip, header: (name: string) => headers[name] } as unknown as AuthenticatedRequest;
+    const res = fakeResponse();
+    await middleware.apiRateLimit(req, res as unknown as Response, () => undefined);
+    return res;
+  };
+
+  const callTimes = async (count: number, caller: Caller) => {
+    for (let i = 0; i < count; i++) {
+      expect((await call(caller)).statusCode).toBe(200);
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T00:00:00.000Z') });
+    const store = new MemoryRateLimitStore();
+    const limiter = new RateLimiter({ status: 'ready' } as unknown as Redis, store, store);
+    const tierOf = async (userId: string) => TIERS[userId];
+
+    middleware = createRateLimitMiddleware({
+      limiter,
+      resolvers: [
+        apiKeySubject(req => {
+          const key = req.header('X-API-Key');
+          if (!key) return null;
+          const verification = API_KEYS[key]
+            ? { valid: true, key: API_KEYS[key] }
+            : { valid: false, reason: 'invalid' };
+          return Promise.resolve(verification as ApiKeyVerification);
+        }, tierOf),
+        bearerTokenSubject(async token => (ACCESS_TOKENS[token] ? { userId: ACCESS_TOKENS[token] } as JWTPayload : null), tierOf)
+      ],
+      anonymousLimit: { maxRequests: ANONYMOUS_LIMIT, windowMs: MINUTE }
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts anonymous clients per IP', async () => {
+    await callTimes(ANONYMOUS_LIMIT, { ip: '203.0.113.1' });
+
+    const limited = await call({ ip: '203.0.113.1' });
+    expect(limited.statusCode).toBe(429);
+    expect(limited.body.error).toMatchObject({ code: 'RATE_LIMITED', details: { policy: 'burst', limit: ANONYMOUS_LIMIT, tier: 'free' } });
+    expect(limited.headers['Retry-After']).toBe('61');
+
+    expect((await call({ ip: '203.0.113.2' })).statusCode).toBe(200);
+    // An invalid token or API key is counted against the IP
+    expect((await call({ ip: '203.0.113.1', token: 'forged' })).statusCode).toBe(429);
+    expect((await call({ ip: '203.0.113.1', apiKey: 'sk-forged' })).statusCode).toBe(429);
+  });
+
+  it('gives users and their API keys separate burst limits at the user\'s tier', async () => {
+    const { apiCallsPerMinute } = SUBSCRIPTION_LIMITS.free;
+    await callTimes(apiCallsPerMinute, { token: 'alice-token' });
+
+    const limited = await call({ token: 'alice-token' });
+    expect(limited.statusCode).toBe(429);
+    expect(limited.body.error.details).toMatchObject({ policy: 'burst', limit: apiCallsPerMinute, tier: 'free' });
+
+    // Neither the API key nor the IP the user called from were charged
+    expect((await call({ apiKey: 'sk-alice' })).statusCode).toBe(200);
+    expect((await call({})).statusCode).toBe(200);
+  });
+
+  it('applies each tier\'s burst limit', async () => {
+    await callTimes(SUBSCRIPTION_LIMITS.basic.apiCallsPerMinute, { token: 'bob-token' });
+
+    const limited = await call({ token: 'bob-token' });
+    expect(limited.statusCode).toBe(429);
+    expect(limited.body.error.details).toMatchObject({ limit: SUBSCRIPTION_LIMITS.basic.apiCallsPerMinute, tier: 'basic' });
+    expect(limited.headers['RateLimit-Policy']).toBe(
+      `${SUBSCRIPTION_LIMITS.basic.apiCallsPerMinute};w=60, ${SUBSCRIPTION_LIMITS.basic.apiCalls};w=86400`
+    );
+  });
+
+  it('shares the daily quota between a user\'s session and API keys', async () => {
+    const { apiCalls } = SUBSCRIPTION_LIMITS.free;
+    for (let sent = 0; sent < apiCalls; sent += 50) {
+      await callTimes(25, { token: 'alice-token' });
+      await callTimes(25, { apiKey: 'sk-alice' });
+      // Let both burst windows slide out
+      jest.advanceTimersByTime(2 * MINUTE);
+    }
+
+    const session = await call({ token: 'alice-token' });
+    expect(session.statusCode).toBe(429);
+    expect(session.body.error.details).toMatchObject({ policy: 'daily', limit: apiCalls });
+    expect((await call({ apiKey: 'sk-alice' })).statusCode).toBe(429);
+    expect((await call({ token: 'bob-token' })).statusCode).toBe(200);
+  });
+
+  it('counts route limits per subject', async () => {
+    const login = middleware.rateLimit('login', 1, MINUTE);
+    const send = async (caller: Caller) => {
+      const req = { ip: caller.ip, header: (name: string) => (name === 'Authorization' && caller.token ? `Bearer ${caller.token}` : undefined) };
+      const res = fakeResponse();
+      await login(req as unknown as AuthenticatedRequest, res as unknown as Response, () => undefined);
+      return res.statusCode;
+    };
+
+    expect(await send({ token: 'alice-token' })).toBe(200);
+    expect(await send({ token: 'alice-token' })).toBe(429);
+    expect(await send({ token: 'bob-token' })).toBe(200);
+    expect(await send({ ip: '203.0.113.9' })).toBe(200);
+  });
+});
@@ -1,86 +1,227 @@
-import { Request, Response, NextFunction } from 'express';
-import { RateLimitData } from '../types';
-
-// In-memory store for rate limiting (in production, use Redis)
-const rateLimitStore: Map<string, RateLimitData> = new Map();
-
-export const rateLimit = (
-  identifier: string,
-  maxRequests: number,
-  windowMs: number
-) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const clientKey = `${identifier}:${req.ip || 'unknown'}`;
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest, RateLimitDecision, RateLimitPolicy, RateLimitResult, RateLimitSubject, SubscriptionTier } from '../types';
+import { RateLimiter } from '../services/RateLimiter';
+import { JWTPayload } from './auth';
+import { ApiKeyVerification } from '../services/ApiKeyService';
+import { SUBSCRIPTION_LIMITS } from '../utils/subscriptions';
+import { logger } from '../utils/logger';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TIER_CACHE_TTL_MS = 60 * 1000;
+const TIER_CACHE_MAX_ENTRIES = 10000;
+
+/**
+ * Identify who a request should be counted against, or return null to let the next resolver try
+ */
+export type SubjectResolver = (req: AuthenticatedRequest) => Promise<RateLimitSubject | null>;
+
+export interface RateLimitMiddlewareOptions {
+  limiter: RateLimiter;
+  /** Tried in order; requests no resolver claims are limited per client IP */
+  resolvers: SubjectResolver[];
+  /** Per-IP burst limit for anonymous traffic */
+  anonymousLimit: { maxRequests: number; windowMs: number };
+}
+
+export type TierLookup = (userId: string) => Promise<SubscriptionTier>;
+
+/**
+ * Cache subscription tier lookups briefly so rate limiting doesn't hit the database on every request
+ */
+export const cachedTierLookup = (getTier: (userId: string) => Promise<SubscriptionTier | null>): TierLookup => {
+  const tiers: Map<string, { tier: SubscriptionTier; expires: number }> = new Map();
+
+  return async (userId: string): Promise<SubscriptionTier> => {
     const now = Date.now();
-    
-    const current = rateLimitStore.get(clientKey);
-    
-    if (!current) {
-      // First request from this client
-      rateLimitStore.set(clientKey, {
-        key: clientKey,
-        count: 1,
-        resetTime: now + windowMs
-      });
+    const cached = tiers.get(userId);
+    if (cached && cached.expires > now) {
+      return cached.tier;
+    }
+
+    const tier = (await getTier(userId)) || 'free';
+    if (tiers.size >= TIER_CACHE_MAX_ENTRIES) {
+      tiers.clear();
+    }
+    tiers.set(userId, { tier, expires: now + TIER_CACHE_TTL_MS });
+    return tier;
+  };
+};
+
+/**
+ * Resolve the subject from an X-API-Key header. Each key gets its own burst limit at the owner's tier.
+ */
+export const apiKeySubject = (
+  verifyApiKey: (req: AuthenticatedRequest) => Promise<ApiKeyVerification> | null,
+  tierOf: TierLookup
+): SubjectResolver => {
+  return async (req) => {
+    const verification = verifyApiKey(req);
+    if (!verification) {
+      return null;
+    }
+
+    const result = await verification;
+    if (!result.valid) {
+      return null;
+    }
+
+    const userId = result.key.userId;
+    return { kind: 'apiKey', id: result.key.id, tier: await tierOf(userId), userId };
+  };
+};
+
+/**
+ * Resolve the subject from a bearer access token. An invalid token is not an error here:
+ * the request is counted per IP and the route's auth middleware rejects it.
+ */
+export const bearerTokenSubject = (
+  verifyAccessToken: (token: string) => Promise<JWTPayload | null>,
+  tierOf: TierLookup
+): SubjectResolver => {
+  return async (req) => {
+    const header = req.header('Authorization');
+    if (!header || !header.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const decoded = await verifyAccessToken(header.substring(7)).catch(() => null);
+    if (!decoded) {
+      return null;
+    }
+
+    return { kind: 'user', id: decoded.userId, tier: await tierOf(decoded.userId), userId: decoded.userId };
+  };
+};
+
+/**
+ * Build the API-wide limiter and the per-route limiter factory around a shared RateLimiter
+ */
+export const createRateLimitMiddleware = ({ limiter, resolvers, anonymousLimit }: RateLimitMiddlewareOptions) => {
+  const resolveSubject = async (req: AuthenticatedRequest): Promise<RateLimitSubject> => {
+    if (req.rateLimitSubject) {
+      return req.rateLimitSubject;
+    }
+
+    let subject: RateLimitSubject | null = null;
+    for (const resolver of resolvers) {
+      subject = await resolver(req);
+      if (subject) break;
+    }
+
+    req.rateLimitSubject = subject || { kind: 'ip', id: req.ip || 'unknown', tier: 'free' };
+    return req.rateLimitSubject;
+  };
+
+  /**
+   * Burst limit plus daily quota. Authenticated subjects get their tier's quotas;
+   * anonymous clients get the configured per-IP burst limit and the free daily quota.
+   * The daily quota is per user, shared by their session and all of their API keys.
+   */
+  const tierPolicies = (subject: RateLimitSubject): RateLimitPolicy[] => {
+    const limits = SUBSCRIPTION_LIMITS[subject.tier] || SUBSCRIPTION_LIMITS.free;
+    const burst: RateLimitPolicy = subject.kind === 'ip'
+      ? { name: 'burst', limit: anonymousLimit.maxRequests, windowMs: anonymousLimit.windowMs }
+      : { name: 'burst', limit: limits.apiCallsPerMinute, windowMs: MINUTE_MS };
+
+    const daily: RateLimitPolicy = { name: 'daily', limit: limits.apiCalls, windowMs: DAY_MS };
+    if (subject.userId) {
+      daily.key = `api:user:${subject.userId}`;
+    }
+
+    return [burst, daily];
+  };
+
+  const enforce = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    scope: string,
+    policiesFor: (subject: RateLimitSubject) => RateLimitPolicy[]
+  ): Promise<void> => {
+    let subject: RateLimitSubject;
+    let policies: RateLimitPolicy[];
+    let result: RateLimitDecision;
+
+    try {
+      subject = await resolveSubject(req);
+      policies = policiesFor(subject);
+      result = await limiter.consume(`${scope}:${subject.kind}:${subject.id}`, policies);
+    } catch (error) {
+      // Counting must never take the API down
+      logger.error('Rate limiter error:', error);
       return next();
     }
-    
-    if (now > current.resetTime) {
-      // Window has expired, reset
-      rateLimitStore.set(clientKey, {
-        key: clientKey,
-        count: 1,
-        resetTime: now + windowMs
-      });
+
+    setRateLimitHeaders(res, result, policies);
+
+    if (result.allowed) {
       return next();
     }
-    
-    if (current.count >= maxRequests) {
-      // Rate limit exceeded
-      const timeUntilReset = Math.ceil((current.resetTime - now) / 1000);
-      
-      res.set({
-        'X-RateLimit-Limit': maxRequests.toString(),
-        'X-RateLimit-Remaining': '0',
-        'X-RateLimit-Reset': current.resetTime.toString(),
-        'Retry-After': timeUntilReset.toString()
-      });
-      
-      return res.status(429).json({
-        success: false,
-        error: 'Rate limit exceeded',
-        message: `Too many requests. Please try again in ${timeUntilReset} seconds.`,
+
+    const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+    res.set('Retry-After', retryAfterSeconds.toString());
+
+    logger.security('Rate limit exceeded', {
+      scope,
+      policy: result.policy.name,
+      subject: subject.kind,
+      subjectId: subject.id,
+      tier: subject.tier
+    });
+
+    res.status(429).json({
+      success: false,
+      error: {
+        code: 'RATE_LIMITED',
+        message: `Too many requests. Please try again in ${retryAfterSeconds} seconds.`,
+        details: {
+          scope,
+          policy: result.policy.name,
+          limit: result.policy.limit,
+          windowMs: result.policy.windowMs,
+          tier: subject.tier
+        },
         timestamp: Date.now()
-      });
-    }
-    
-    // Increment count
-    current.count++;
-    rateLimitStore.set(clientKey, current);
-    
-    // Set rate limit headers
-    res.set({
-      'X-RateLimit-Limit': maxRequests.toString(),
-      'X-RateLimit-Remaining': (maxRequests - current.count).toString(),
-      'X-RateLimit-Reset': current.resetTime.toString()
+      }
     });
-    
-    next();
   };
-};
 
-// Cleanup expired entries (run periodically)
-export const cleanupRateLimit = () => {
-  const now = Date.now();
-  for (const [key, data] of rateLimitStore.entries()) {
-    if (now > data.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
+  /**
+   * API-wide limit, mounted once in front of every router
+   */
+  const apiRateLimit = (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    return enforce(req, res, next, 'api', tierPolicies);
+  };
+
+  /**
+   * Additional limit for one route, counted per subject on top of the API-wide limit
+   */
+  const rateLimit = (identifier: string, maxRequests: number, windowMs: number) => {
+    const policies: RateLimitPolicy[] = [{ name: 'route', limit: maxRequests, windowMs }];
+    return (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> =>
+      enforce(req, res, next, `route:${identifier}`, () => policies);
+  };
+
+  return { apiRateLimit, rateLimit, resolveSubject };
 };
 
-// Clean up every 5 minutes
-setInterval(cleanupRateLimit, 5 * 60 * 1000);
+export type RateLimitMiddleware = ReturnType<typeof createRateLimitMiddleware>;
+
+/**
+ * IETF RateLimit header fields. When several limiters run for one request,
+ * the headers describe whichever has the least headroom left.
+ */
+function setRateLimitHeaders(res: Response, result: RateLimitResult, policies: RateLimitPolicy[]): void {
+  const existing = res.get('RateLimit-Remaining');
+  if (existing !== undefined && Number(existing) <= result.remaining && result.allowed) {
+    return;
+  }
 
-// Export store for testing/monitoring
-export { rateLimitStore }; 
\ No newline at end of file
+  res.set({
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': Math.ceil(result.resetMs / 1000).toString(),
+    'RateLimit-Policy': policies.map(policy => `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`).join(', ')
+  });
+}
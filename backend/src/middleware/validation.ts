@@ -1,206 +1,74 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ZodError, ZodTypeAny } from 'zod';
+import { ValidationError } from './errorHandler';
+import { FieldValidationError } from '../types';
 
-export const validateQueryParams = (requiredParams: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const missing = requiredParams.filter(param => !req.query[param]);
-    
-    if (missing.length > 0) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing required query parameters',
-        missing,
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    next();
-  };
-};
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
 
-export const validateBody = (requiredFields: string[], optionalFields: string[] = []) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    if (!req.body || typeof req.body !== 'object') {
-      res.status(400).json({
-        success: false,
-        error: 'Request body is required',
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    const missing = requiredFields.filter(field => !req.body[field]);
-    
-    if (missing.length > 0) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing required fields in request body',
-        missing,
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    // Optional fields validation can be added here if needed
-    // For now, we just accept them without validation
-    
-    next();
-  };
-};
+/**
+ * Validation middleware; the schemas stay attached so the OpenAPI document can describe the route
+ */
+export type RequestValidator = RequestHandler & { schemas: RequestSchemas };
 
-export const validateAddress = (addressField: string = 'address') => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const address = req.params[addressField] || req.query[addressField] || req.body[addressField];
-    
-    if (!address) {
-      res.status(400).json({
-        success: false,
-        error: `${addressField} is required`,
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    // Basic Ethereum address validation (0x + 40 hex characters)
-    const addressRegex = /^0x[a-fA-F0-9]{40}$/;
-    if (!addressRegex.test(address)) {
-      res.status(400).json({
-        success: false,
-        error: `Invalid ${addressField} format`,
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    next();
-  };
-};
+type RequestLocation = keyof RequestSchemas;
 
-export const validatePagination = () => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const { page, limit } = req.query;
-    
-    if (page && isNaN(Number(page))) {
-      res.status(400).json({
-        success: false,
-        error: 'Page must be a valid number',
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    if (limit && isNaN(Number(limit))) {
-      res.status(400).json({
-        success: false,
-        error: 'Limit must be a valid number',
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    // Set defaults and bounds
-    req.query.page = String(Math.max(1, Number(page) || 1));
-    req.query.limit = String(Math.min(100, Math.max(1, Number(limit) || 20)));
-    
-    next();
-  };
-};
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
 
-export const validateTimeRange = () => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const { from, to } = req.query;
-    
-    if (from && isNaN(Number(from))) {
-      res.status(400).json({
-        success: false,
-        error: 'From timestamp must be a valid number',
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    if (to && isNaN(Number(to))) {
-      res.status(400).json({
-        success: false,
-        error: 'To timestamp must be a valid number',
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    if (from && to && Number(from) > Number(to)) {
-      res.status(400).json({
-        success: false,
-        error: 'From timestamp cannot be greater than to timestamp',
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    next();
-  };
-};
+/**
+ * Validate request params, query and body against schemas.
+ * Parsed (coerced, defaulted) values replace the raw ones so handlers receive typed input;
+ * failures are reported per field through ValidationError.
+ */
+export const validateRequest = (schemas: RequestSchemas): RequestValidator => {
+  const validator = (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldValidationError[] = [];
 
-export const validateNumericParam = (paramName: string, min?: number, max?: number) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const value = req.params[paramName] || req.query[paramName] || req.body[paramName];
-    
-    if (value === undefined || value === null) {
-      res.status(400).json({
-        success: false,
-        error: `${paramName} is required`,
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    const numValue = Number(value);
-    if (isNaN(numValue)) {
-      res.status(400).json({
-        success: false,
-        error: `${paramName} must be a valid number`,
-        timestamp: Date.now()
-      });
-      return;
-    }
-    
-    if (min !== undefined && numValue < min) {
-      res.status(400).json({
-        success: false,
-        error: `${paramName} must be at least ${min}`,
-        timestamp: Date.now()
-      });
-      return;
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        req[location] = result.data;
+      } else {
+        errors.push(...toFieldErrors(location, result.error));
+      }
     }
-    
-    if (max !== undefined && numValue > max) {
-      res.status(400).json({
-        success: false,
-        error: `${paramName} must not exceed ${max}`,
-        timestamp: Date.now()
-      });
-      return;
+
+    if (errors.length > 0) {
+      return next(new ValidationError('Request validation failed', { fields: errors }));
     }
-    
+
     next();
   };
+
+  return Object.assign(validator, { schemas });
 };
 
-export const validateQuery = (allowedParams: string[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
-    const queryKeys = Object.keys(req.query);
-    const invalidParams = queryKeys.filter(key => !allowedParams.includes(key));
-    
-    if (invalidParams.length > 0) {
-      res.status(400).json({
-        success: false,
-        error: `Invalid query parameters: ${invalidParams.join(', ')}`,
-        message: `Allowed parameters: ${allowedParams.join(', ')}`,
-        timestamp: Date.now()
-      });
-      return;
+export const isRequestValidator = (handler: unknown): handler is RequestValidator =>
+  typeof handler === 'function' && 'schemas' in handler;
+
+const toFieldErrors = (location: RequestLocation, error: ZodError): FieldValidationError[] => {
+  return error.issues.flatMap((issue): FieldValidationError[] => {
+    // Report each unexpected key as its own field
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map(key => ({
+        location,
+        field: [...issue.path, key].join('.'),
+        message: 'Unknown field',
+        code: issue.code
+      }));
     }
-    
-    next();
-  };
-}; 
\ No newline at end of file
+
+    return [{
+      location,
+      field: issue.path.join('.'),
+      message: issue.message,
+      code: issue.code
+    }];
+  });
+};
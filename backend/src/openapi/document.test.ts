@@ -0,0 +1,44 @@
+import { PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import { config } from '../config';
+import { createContainer } from '../container';
+import { createApiMounts } from '../routes';
+import { buildOpenApiDocument, collectRoutes, findSpecDrift } from './document';
+
+describe('OpenAPI spec drift', () => {
+  // Building routers touches no database or Redis; the clients are never called
+  const container = createContainer({ config, prisma: {} as PrismaClient, redis: {} as Redis });
+  const mounts = () => createApiMounts(container, () => {
+    throw new Error('The document is not served in these tests');
+  });
+
+  it('has a spec entry for every registered route', () => {
+    const drift = findSpecDrift(collectRoutes(mounts(), container.authMiddleware));
+
+    expect(drift).toEqual({ undocumented: [], stale: [] });
+  });
+
+  it('reports a route registered without a spec entry', () => {
+    const withExtraRoute = mounts();
+    withExtraRoute[0].router.get('/unregistered', (req, res) => {
+      res.end();
+    });
+
+    const drift = findSpecDrift(collectRoutes(withExtraRoute, container.authMiddleware));
+
+    expect(drift.undocumented).toEqual(['GET /api/v1/analytics/unregistered']);
+    expect(drift.stale).toEqual([]);
+    expect(() => buildOpenApiDocument(withExtraRoute, container.authMiddleware))
+      .toThrow('GET /api/v1/analytics/unregistered has no entry in openapi/operations.ts');
+  });
+
+  it('reports spec entries whose route is gone', () => {
+    const withoutAdmin = mounts().filter(mount => mount.tag !== 'Admin');
+
+    const drift = findSpecDrift(collectRoutes(withoutAdmin, container.authMiddleware));
+
+    expect(drift.undocumented).toEqual([]);
+    expect(drift.stale.length).toBeGreaterThan(0);
+    expect(drift.stale.every(key => key.includes(' /api/v1/admin/'))).toBe(true);
+  });
+});
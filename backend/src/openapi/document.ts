@@ -0,0 +1,372 @@
+import { Router } from 'express';
+import { ZodTypeAny } from 'zod';
+import { isRequestValidator, RequestSchemas } from '../middleware/validation';
+import { AuthMiddleware } from '../middleware/auth';
+import { EntitlementCheck, isEntitlementCheck } from '../middleware/entitlements';
+import { componentSchemas, isOptionalInput, JsonSchema, zodToJsonSchema } from '../utils/zodToJsonSchema';
+import { OPERATIONS } from './operations';
+import { RESPONSE_SCHEMAS } from './responses';
+
+export interface ApiMount {
+  path: string;
+  tag: string;
+  router: Router;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: Record<string, Record<string, unknown>>;
+}
+
+interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  deprecated?: boolean;
+  tags: string[];
+  security?: Array<Record<string, string[]>>;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { $ref: string } | OpenApiResponse>;
+}
+
+interface OpenApiResponse {
+  description: string;
+  content: Record<string, { schema: JsonSchema & { allOf?: JsonSchema[] } }>;
+}
+
+/**
+ * A route as registered on an Express router, with everything the spec needs to know about it
+ */
+export interface RouteDefinition {
+  method: string;
+  path: string;
+  tag: string;
+  schemas: RequestSchemas;
+  auth: 'required' | 'optional' | 'none';
+  /** API keys are rejected; a wallet session is required */
+  sessionOnly: boolean;
+  /** Plan limit checked before the handler runs */
+  entitlement?: EntitlementCheck['entitlement'];
+}
+
+/**
+ * Walk the mounted routers and list every route with its validation schemas and auth requirement
+ */
+export function collectRoutes(mounts: ApiMount[], authMiddleware: AuthMiddleware): RouteDefinition[] {
+  const routes: RouteDefinition[] = [];
+
+  for (const mount of mounts) {
+    for (const layer of mount.router.stack) {
+      if (!layer.route) continue;
+
+      const handlers = layer.route.stack.map(routeLayer => routeLayer.handle);
+      const validator = handlers.find(isRequestValidator);
+      const auth = handlers.includes(authMiddleware.auth)
+        ? 'required'
+        : handlers.includes(authMiddleware.optionalAuth) ? 'optional' : 'none';
+
+      const methods = new Set(layer.route.stack.map(routeLayer => routeLayer.method.toUpperCase()));
+      for (const method of methods) {
+        routes.push({
+          method,
+          path: toOpenApiPath(mount.path, layer.route.path),
+          tag: mount.tag,
+          schemas: validator?.schemas || {},
+          auth,
+          sessionOnly: handlers.includes(authMiddleware.sessionOnly),
+          entitlement: handlers.find(isEntitlementCheck)?.entitlement
+        });
+      }
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Routes that exist without a spec entry, and spec entries whose route no longer exists
+ */
+export function findSpecDrift(routes: RouteDefinition[]): { undocumented: string[]; stale: string[] } {
+  const registered = new Set(routes.map(operationKey));
+
+  return {
+    undocumented: [...registered].filter(key => !OPERATIONS[key]),
+    stale: Object.keys(OPERATIONS).filter(key => !registered.has(key))
+  };
+}
+
+/**
+ * Build the OpenAPI 3.1 document from the mounted routers.
+ * Throws when routes and OPERATIONS disagree so an undocumented endpoint fails at boot.
+ */
+export function buildOpenApiDocument(mounts: ApiMount[], authMiddleware: AuthMiddleware): OpenApiDocument {
+  const routes = collectRoutes(mounts, authMiddleware);
+
+  const { undocumented, stale } = findSpecDrift(routes);
+  if (undocumented.length > 0 || stale.length > 0) {
+    const problems = [
+      ...undocumented.map(key => `  - ${key} has no entry in openapi/operations.ts`),
+      ...stale.map(key => `  - ${key} is documented but no such route is registered`)
+    ];
+    throw new Error(`OpenAPI document is out of date:\n${problems.join('\n')}`);
+  }
+
+  const paths: OpenApiDocument['paths'] = {};
+  for (const route of routes) {
+    paths[route.path] = paths[route.path] || {};
+    paths[route.path][route.method.toLowerCase()] = buildOperation(route);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'SwellScope API',
+      version: '1.0.0',
+      description: 'Restaking analytics and risk management for Swellchain'
+    },
+    tags: [...new Set(mounts.map(mount => mount.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      },
+      schemas: {
+        ...componentSchemas(RESPONSE_SCHEMAS),
+        ApiResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {},
+            message: { type: 'string' },
+            timestamp: { type: 'integer' },
+            cached: { type: 'boolean' }
+          },
+          required: ['success', 'timestamp']
+        },
+        ErrorResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', const: false },
+            // Thrown errors are structured; some handlers still answer with a plain message
+            error: {
+              anyOf: [
+                {
+                  type: 'object',
+                  properties: {
+                    code: { type: 'string' },
+                    message: { type: 'string' },
+                    details: {},
+                    timestamp: { type: 'integer' }
+                  },
+                  required: ['code', 'message']
+                },
+                { type: 'string' }
+              ]
+            },
+            timestamp: { type: 'integer' }
+          },
+          required: ['success', 'error']
+        },
+        ValidationErrorResponse: {
+          allOf: [
+            { $ref: '#/components/schemas/ErrorResponse' },
+            {
+              type: 'object',
+              properties: {
+                error: {
+                  type: 'object',
+                  properties: {
+                    details: {
+                      type: 'object',
+                      properties: {
+                        fields: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              location: { type: 'string', enum: ['params', 'query', 'body'] },
+                              field: { type: 'string' },
+                              message: { type: 'string' },
+                              code: { type: 'string' }
+                            },
+                            required: ['location', 'field', 'message', 'code']
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          ]
+        }
+      },
+      responses: {
+        ValidationFailed: jsonResponse('Request params, query or body failed validation', 'ValidationErrorResponse'),
+        Unauthorized: jsonResponse('Missing, invalid or revoked access token or API key', 'ErrorResponse'),
+        Forbidden: jsonResponse(
+          'API key not allowed from this IP, lacking the scope, or not accepted by this endpoint; '
+            + 'or the plan does not cover the request (PLAN_UPGRADE_REQUIRED, with an upgrade hint in details)',
+          'ErrorResponse'
+        ),
+        PlanLimitReached: jsonResponse('The plan allows no more of this resource; details carry an upgrade hint', 'ErrorResponse'),
+        RateLimited: {
+          ...jsonResponse('Too many requests; every response carries the RateLimit-* headers', 'ErrorResponse'),
+          headers: {
+            'Retry-After': integerHeader('Seconds until the request would be allowed'),
+            'RateLimit-Limit': integerHeader('Request quota of the limit with the least headroom'),
+            'RateLimit-Remaining': integerHeader('Requests left in that quota'),
+            'RateLimit-Reset': integerHeader('Seconds until the current window ends'),
+            'RateLimit-Policy': { description: 'Applied quotas as "limit;w=window-seconds"', schema: { type: 'string' } }
+          }
+        },
+        ServerError: jsonResponse('Unexpected server error', 'ErrorResponse')
+      }
+    }
+  };
+}
+
+function buildOperation(route: RouteDefinition): OpenApiOperation {
+  const doc = OPERATIONS[operationKey(route)];
+  const parameters = [...pathParameters(route), ...queryParameters(route.schemas.query)];
+
+  const responses: OpenApiOperation['responses'] = { '200': successResponse(doc.response) };
+  if (route.schemas.params || route.schemas.query || route.schemas.body) {
+    responses['400'] = { $ref: '#/components/responses/ValidationFailed' };
+  }
+  if (route.auth === 'required') {
+    responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+    responses['403'] = { $ref: '#/components/responses/Forbidden' };
+  }
+  if (route.entitlement === 'historicalData') {
+    responses['403'] = { $ref: '#/components/responses/Forbidden' };
+  } else if (route.entitlement) {
+    responses['402'] = { $ref: '#/components/responses/PlanLimitReached' };
+  }
+  responses['429'] = { $ref: '#/components/responses/RateLimited' };
+  responses['500'] = { $ref: '#/components/responses/ServerError' };
+
+  return {
+    operationId: operationId(route),
+    summary: doc.summary,
+    ...(doc.description && { description: doc.description }),
+    ...(doc.deprecated && { deprecated: true }),
+    tags: [route.tag],
+    // Optional auth: anonymous access is allowed, a token or key personalises the response
+    ...(route.auth === 'required' && {
+      security: route.sessionOnly ? [{ bearerAuth: [] }] : [{ bearerAuth: [] }, { apiKeyAuth: [] }]
+    }),
+    ...(route.auth === 'optional' && { security: [{}, { bearerAuth: [] }, { apiKeyAuth: [] }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.schemas.body && {
+      requestBody: {
+        required: !isOptionalInput(route.schemas.body),
+        content: { 'application/json': { schema: zodToJsonSchema(route.schemas.body) } }
+      }
+    }),
+    responses
+  };
+}
+
+function pathParameters(route: RouteDefinition): OpenApiParameter[] {
+  const properties = route.schemas.params ? zodToJsonSchema(route.schemas.params).properties || {} : {};
+  const names = [...route.path.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+
+  return names.map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: properties[name] || { type: 'string' }
+  }));
+}
+
+function queryParameters(schema?: ZodTypeAny): OpenApiParameter[] {
+  if (!schema) return [];
+
+  const json = zodToJsonSchema(schema);
+  const required = new Set(json.required || []);
+
+  return Object.entries(json.properties || {}).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: required.has(name),
+    schema: property
+  }));
+}
+
+/**
+ * The response envelope with `data` described by the operation's response schema
+ */
+function successResponse(data: ZodTypeAny | null): OpenApiResponse {
+  if (!data) {
+    return { description: 'HTML page', content: { 'text/html': { schema: { type: 'string' } } } };
+  }
+
+  return {
+    description: 'Successful response',
+    content: {
+      'application/json': {
+        schema: {
+          allOf: [
+            { $ref: '#/components/schemas/ApiResponse' },
+            { type: 'object', properties: { data: zodToJsonSchema(data, RESPONSE_SCHEMAS) }, required: ['data'] }
+          ]
+        }
+      }
+    }
+  };
+}
+
+function jsonResponse(description: string, schema: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } }
+  };
+}
+
+function integerHeader(description: string) {
+  return { description, schema: { type: 'integer' } };
+}
+
+function toOpenApiPath(mountPath: string, routePath: string): string {
+  const path = `${mountPath}${routePath}`.replace(/:(\w+)/g, '{$1}');
+  return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+function operationKey(route: Pick<RouteDefinition, 'method' | 'path'>): string {
+  return `${route.method} ${route.path}`;
+}
+
+/**
+ * Stable camelCase id, e.g. GET /api/v1/risk/alerts/{address} -> getRiskAlertsByAddress
+ */
+function operationId(route: RouteDefinition): string {
+  const words = route.path
+    .replace(/^\/api\/v\d+/, '')
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      const param = segment.match(/^\{(\w+)\}$/);
+      return param ? `by-${param[1]}` : segment;
+    })
+    .join('-')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+
+  return [route.method.toLowerCase(), ...words]
+    .map((word, index) => index === 0 ? word : word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
@@ -0,0 +1,315 @@
+import { z, ZodTypeAny } from 'zod';
+import {
+  activityEventSchema,
+  aggregatedCrossChainPositionsSchema,
+  aggregatedPortfolioSchema,
+  aggregatedRiskMetricsSchema,
+  alertRuleSchema,
+  analyticsDataSchema,
+  analyticsMetricsSchema,
+  apiKeyInfoSchema,
+  authResponseSchema,
+  authTokensSchema,
+  avsDetailsSchema,
+  avsMetricsSchema,
+  avsOperatorSchema,
+  avsOverviewSchema,
+  avsPerformanceSchema,
+  avsRewardsSchema,
+  avsRiskMetricsSchema,
+  bridgeCostEstimateSchema,
+  bridgeEstimateSchema,
+  bridgeFeeStructureSchema,
+  bridgeOperationSchema,
+  bridgeOperationStatusSchema,
+  bridgeRouteSchema,
+  chainConfigSchema,
+  contractsStatusSchema,
+  createdApiKeySchema,
+  crossChainPositionSchema,
+  dashboardSchema,
+  deletionReceiptSchema,
+  entitlementsSchema,
+  indexerStatusSchema,
+  integrationBridgeStatusSchema,
+  integrationMetricsSchema,
+  invoiceSchema,
+  nucleusAccountSchema,
+  nucleusRateHistorySchema,
+  oracleRiskScoreSchema,
+  organizationDetailsSchema,
+  organizationInviteSchema,
+  organizationSchema,
+  pegSampleSchema,
+  pegStatusSchema,
+  performanceDataSchema,
+  portfolioDataSchema,
+  positionSchema,
+  protocolDataSchema,
+  protocolPositionSchema,
+  rebalanceResultSchema,
+  recommendationSchema,
+  riskAlertSchema,
+  riskMetricsSchema,
+  riskProfileSchema,
+  rpcClientMetricsSchema,
+  siweChallengeSchema,
+  stakeResultSchema,
+  strategySchema,
+  subscriptionResultSchema,
+  tokenPriceSchema,
+  transactionDataSchema,
+  userDataExportSchema,
+  userPreferencesSchema,
+  userSchema,
+  userSessionSchema,
+  userStatsSchema,
+  userSubscriptionSchema,
+  validatorRiskSchema,
+  vaultRiskProfileSchema,
+  vaultStateSchema,
+  watchedAddressSchema,
+  watchedWalletSchema
+} from './responses';
+
+/**
+ * Human-written documentation for each API operation.
+ * Keys are `METHOD /path` with OpenAPI-style `{param}` placeholders. Request parameters and bodies
+ * are not described here: they come from the zod schemas the route validates with.
+ */
+export interface OperationDoc {
+  summary: string;
+  description?: string;
+  deprecated?: boolean;
+  /** The `data` of a successful response; null when the operation does not answer with JSON */
+  response: ZodTypeAny | null;
+}
+
+export const OPERATIONS: Record<string, OperationDoc> = {
+  // Analytics
+  'GET /api/v1/analytics': { summary: 'Get overall analytics data', response: analyticsDataSchema },
+  'GET /api/v1/analytics/tvl': { summary: 'Get TVL data', response: analyticsMetricsSchema },
+  'GET /api/v1/analytics/yields': { summary: 'Get yield data', response: analyticsMetricsSchema },
+  'GET /api/v1/analytics/protocols': { summary: 'Get protocol rankings', response: z.array(protocolDataSchema) },
+  'GET /api/v1/analytics/users': { summary: 'Get user statistics', response: analyticsMetricsSchema },
+  'GET /api/v1/analytics/realtime': { summary: 'Get real-time metrics', response: analyticsMetricsSchema },
+  'GET /api/v1/analytics/swellchain': { summary: 'Get Swellchain specific metrics', response: analyticsMetricsSchema },
+  'GET /api/v1/analytics/nucleus': {
+    summary: 'Get the earnETH share price history',
+    description: 'Indexed accountant rate updates in the window, led by the rate in effect when it opened, and the APY they imply. The APY is null until the updates span a day.',
+    response: nucleusRateHistorySchema
+  },
+  'GET /api/v1/analytics/transactions': { summary: 'Get transaction data', response: z.array(transactionDataSchema) },
+  'GET /api/v1/analytics/prices': {
+    summary: 'Get current token prices',
+    description: 'USD prices aggregated from Chainlink feeds, DEX TWAPs and any configured fixtures, with every source quote and whether it was accepted. Tokens without a price in the last 10 minutes are omitted.',
+    response: z.array(tokenPriceSchema)
+  },
+  'GET /api/v1/analytics/prices/{symbol}': {
+    summary: 'Get the USD price of a token',
+    description: 'The current price, or with `at` the recorded price in effect then. 404 when no price was recorded in the 10 minutes before.',
+    response: tokenPriceSchema
+  },
+
+  // Risk
+  'GET /api/v1/risk/metrics/{address}': { summary: "Get comprehensive risk metrics for a user's portfolio", response: riskMetricsSchema },
+  'GET /api/v1/risk/metrics/{address}/aggregate': {
+    summary: 'Get risk metrics across the own and watch-only wallets of an account',
+    description: 'Concentration is measured over the combined positions. Pass `group` to cover only the watched wallets in that group.',
+    response: aggregatedRiskMetricsSchema
+  },
+  'GET /api/v1/risk/alerts/{address}': { summary: 'Get active risk alerts for a user', response: z.array(riskAlertSchema) },
+  'GET /api/v1/risk/depeg': {
+    summary: 'Get swETH and rswETH peg status',
+    description: 'Latest DEX price and redemption rate, in ETH per token, for each token with a configured pool. `breach` is set while a discount has held past one of the configured thresholds for its duration.',
+    response: z.array(pegStatusSchema)
+  },
+  'GET /api/v1/risk/depeg/{symbol}/history': { summary: 'Get the peg sample history of swETH or rswETH', response: z.array(pegSampleSchema) },
+  'GET /api/v1/risk/profile/{address}': { summary: 'Get risk profile settings for a user', response: riskProfileSchema },
+  'PUT /api/v1/risk/profile/{address}': { summary: 'Update risk profile settings for a user', response: riskProfileSchema },
+  'POST /api/v1/risk/assessment/{address}': { summary: 'Trigger a manual risk assessment for a user', response: riskMetricsSchema },
+  'GET /api/v1/risk/validators/{address}': { summary: "Get validator risk analysis for a user's positions", response: z.array(validatorRiskSchema) },
+  'GET /api/v1/risk/avs/{address}': { summary: "Get AVS risk analysis for a user's positions", response: z.array(avsRiskMetricsSchema) },
+  'POST /api/v1/risk/alerts/{address}/dismiss': { summary: 'Dismiss specific risk alerts', response: z.object({ dismissed: z.array(z.string()) }) },
+  'GET /api/v1/risk/alert-rules/{address}': { summary: 'List custom alert rules', response: z.array(alertRuleSchema) },
+  'POST /api/v1/risk/alert-rules/{address}': { summary: 'Create a custom alert rule', response: alertRuleSchema },
+  'DELETE /api/v1/risk/alert-rules/{address}/{ruleId}': { summary: 'Delete a custom alert rule', response: z.object({ deleted: z.array(z.string()) }) },
+
+  // Portfolio
+  'GET /api/v1/portfolio/{address}': {
+    summary: 'Get comprehensive portfolio data for a user',
+    description: 'Available for your own wallet and for wallets attached to an organization you belong to. Changes on an attached wallet need the owner or analyst role; this applies to every portfolio, risk and bridge route taking an address.',
+    response: portfolioDataSchema
+  },
+  'GET /api/v1/portfolio/{address}/aggregate': {
+    summary: 'Get the combined portfolio of an account and its watch-only wallets',
+    description: 'Includes a per-wallet breakdown. Pass `group` to cover only the watched wallets in that group.',
+    response: aggregatedPortfolioSchema
+  },
+  'GET /api/v1/portfolio/{address}/positions': { summary: 'Get all positions for a user', response: z.array(positionSchema) },
+  'GET /api/v1/portfolio/{address}/protocols': {
+    summary: 'Get on-chain protocol positions',
+    description: 'Holdings in swETH, rswETH, Nucleus earnETH and, where configured, Ion and Ambient, read from chain state. Values are in ETH.',
+    response: z.array(protocolPositionSchema)
+  },
+  'GET /api/v1/portfolio/{address}/nucleus': {
+    summary: 'Get a Nucleus earnETH account',
+    description: 'Shares and value from chain state, with indexed Teller deposits and open withdrawal-queue requests. Withdrawal requests are only tracked once the atomic queue is indexed.',
+    response: nucleusAccountSchema
+  },
+  'POST /api/v1/portfolio/{address}/rebalance': { summary: 'Trigger portfolio rebalancing', response: rebalanceResultSchema },
+  'GET /api/v1/portfolio/{address}/strategies': { summary: 'Get investment strategies for a user', response: z.array(strategySchema) },
+  'POST /api/v1/portfolio/{address}/strategies': { summary: 'Create a new investment strategy', response: strategySchema },
+  'GET /api/v1/portfolio/{address}/performance': { summary: 'Get portfolio performance metrics', response: performanceDataSchema },
+  'GET /api/v1/portfolio/{address}/recommendations': { summary: 'Get portfolio optimization recommendations', response: z.array(recommendationSchema) },
+
+  // AVS
+  'GET /api/v1/avs': { summary: 'Get all AVS services and their metrics', response: z.array(avsMetricsSchema) },
+  'GET /api/v1/avs/{avsId}': { summary: 'Get detailed metrics for a specific AVS', response: avsMetricsSchema },
+  'GET /api/v1/avs/{avsId}/operators': { summary: 'Get operators for a specific AVS', response: z.array(avsOperatorSchema) },
+  'GET /api/v1/avs/{avsId}/rewards': { summary: 'Get reward information for a specific AVS', response: avsRewardsSchema },
+  'GET /api/v1/avs/{avsId}/performance': { summary: 'Get performance metrics for a specific AVS', response: avsPerformanceSchema },
+  'GET /api/v1/avs/mach': { summary: 'Get MACH (Fast Finality) specific metrics', response: avsDetailsSchema },
+  'GET /api/v1/avs/vital': { summary: 'Get VITAL (Data Availability) specific metrics', response: avsDetailsSchema },
+  'GET /api/v1/avs/squad': { summary: 'Get SQUAD (Decentralized Sequencing) specific metrics', response: avsDetailsSchema },
+  'GET /api/v1/avs/overview': { summary: 'Get overview of all AVS services', response: avsOverviewSchema },
+  'POST /api/v1/avs/{avsId}/stake': { summary: 'Simulate staking to an AVS', response: stakeResultSchema },
+
+  // Bridge
+  'GET /api/v1/bridge/positions/{address}': { summary: 'Get cross-chain positions for a user', response: z.array(crossChainPositionSchema) },
+  'GET /api/v1/bridge/positions/{address}/aggregate': {
+    summary: 'Get cross-chain positions of an account and its watch-only wallets',
+    description: 'Each position carries the wallet holding it. Pass `group` to cover only the watched wallets in that group.',
+    response: aggregatedCrossChainPositionsSchema
+  },
+  'POST /api/v1/bridge/transfer': { summary: 'Execute a cross-chain bridge transfer', response: bridgeOperationSchema },
+  'GET /api/v1/bridge/operations/{address}': { summary: 'Get bridge operation history for a user', response: z.array(bridgeOperationSchema) },
+  'GET /api/v1/bridge/operation/{operationId}': { summary: 'Get details of a specific bridge operation', response: bridgeOperationSchema },
+  'GET /api/v1/bridge/chains': { summary: 'Get supported bridge chains and their configurations', response: z.array(chainConfigSchema) },
+  'GET /api/v1/bridge/fees': {
+    summary: 'Get bridge fees for different chain pairs',
+    description: 'Returns a quote when fromChain, toChain, token and amount are all given, otherwise the fee structure.',
+    response: z.union([bridgeCostEstimateSchema, bridgeFeeStructureSchema])
+  },
+  'POST /api/v1/bridge/estimate': { summary: 'Get bridge transfer estimate without executing', response: bridgeEstimateSchema },
+  'GET /api/v1/bridge/status/{operationId}': { summary: 'Get real-time status of a bridge operation', response: bridgeOperationStatusSchema },
+
+  // Contracts
+  'GET /api/v1/contracts': {
+    summary: 'SwellScope contract addresses',
+    description: 'Swellchain addresses of RiskOracle, SwellScopeVault and SwellChainIntegration, from the deployment manifest or environment overrides. Contracts without an address are omitted.',
+    response: contractsStatusSchema
+  },
+  'GET /api/v1/contracts/vault': {
+    summary: 'Vault state',
+    description: 'Total assets and supply, fees, portfolio risk and the active strategies, read from SwellScopeVault in one multicall. Amounts are base-unit integer strings.',
+    response: vaultStateSchema
+  },
+  'GET /api/v1/contracts/vault/profile/{address}': { summary: "A depositor's vault risk profile", response: vaultRiskProfileSchema },
+  'GET /api/v1/contracts/oracle/{address}': {
+    summary: 'Oracle risk score for an asset',
+    description: 'Composite and component risk scores, the alert threshold, and whether the data is stale or an emergency is active.',
+    response: oracleRiskScoreSchema
+  },
+  'GET /api/v1/contracts/integration': { summary: 'SwellChainIntegration metrics', response: integrationMetricsSchema },
+  'GET /api/v1/contracts/integration/bridge/route': {
+    summary: 'Optimal bridge route',
+    description: 'The bridge SwellChainIntegration would use for a token, base-unit amount and destination chain. estimatedCost is in wei.',
+    response: bridgeRouteSchema
+  },
+  'GET /api/v1/contracts/integration/bridge/{operationId}': { summary: 'On-chain bridge operation status', response: integrationBridgeStatusSchema },
+
+  // User
+  'GET /api/v1/user/auth/nonce': { summary: 'Issue a Sign-In with Ethereum (EIP-4361) message for the wallet to sign', response: siweChallengeSchema },
+  'POST /api/v1/user/auth': { summary: 'Authenticate user with a signed SIWE message', response: authResponseSchema },
+  'POST /api/v1/user/auth/refresh': { summary: 'Exchange a refresh token for a new access/refresh token pair', response: authTokensSchema },
+  'POST /api/v1/user/auth/logout': { summary: 'Revoke the current session', response: z.object({ revoked: z.array(z.string()) }) },
+  'GET /api/v1/user/sessions': { summary: 'List active sessions for the current user', response: z.array(userSessionSchema) },
+  'DELETE /api/v1/user/sessions/{sessionId}': { summary: 'Revoke a single session', response: z.object({ revoked: z.array(z.string()) }) },
+  'DELETE /api/v1/user/sessions': { summary: 'Revoke every session for the current user', response: z.object({ revokedCount: z.number() }) },
+  'GET /api/v1/user/api-keys': { summary: 'List active API keys for the current user', response: z.array(apiKeyInfoSchema) },
+  'POST /api/v1/user/api-keys': { summary: 'Create an API key', response: createdApiKeySchema },
+  'POST /api/v1/user/api-keys/{keyId}/rotate': { summary: 'Rotate an API key', response: createdApiKeySchema },
+  'DELETE /api/v1/user/api-keys/{keyId}': { summary: 'Revoke an API key', response: z.object({ revoked: z.array(z.string()) }) },
+  'GET /api/v1/user/profile': { summary: "Get current user's profile", response: userSchema },
+  'PUT /api/v1/user/profile': { summary: "Update current user's profile", response: userSchema },
+  'GET /api/v1/user/preferences': { summary: "Get current user's preferences", response: userPreferencesSchema },
+  'PUT /api/v1/user/preferences': { summary: "Update current user's preferences", response: userPreferencesSchema },
+  'GET /api/v1/user/subscription': { summary: "Get current user's subscription information", response: userSubscriptionSchema },
+  'GET /api/v1/user/stats': { summary: 'Get user statistics and activity', response: userStatsSchema },
+  'GET /api/v1/user/activity': { summary: 'Get user activity feed', response: z.array(activityEventSchema) },
+  'GET /api/v1/user/entitlements': { summary: "Get the current plan's limits and usage", response: entitlementsSchema },
+  'GET /api/v1/user/dashboards': { summary: 'List custom dashboards', response: z.array(dashboardSchema) },
+  'POST /api/v1/user/dashboards': { summary: 'Create a custom dashboard', response: dashboardSchema },
+  'PUT /api/v1/user/dashboards/{dashboardId}': { summary: 'Update a custom dashboard', response: dashboardSchema },
+  'DELETE /api/v1/user/dashboards/{dashboardId}': { summary: 'Delete a custom dashboard', response: z.object({ deleted: z.array(z.string()) }) },
+  'GET /api/v1/user/wallets': { summary: 'List watch-only wallets', response: z.array(watchedWalletSchema) },
+  'POST /api/v1/user/wallets': { summary: 'Watch a wallet', response: watchedWalletSchema },
+  'PUT /api/v1/user/wallets/{address}': { summary: "Change a watched wallet's label or group", response: watchedWalletSchema },
+  'DELETE /api/v1/user/wallets/{address}': { summary: 'Stop watching a wallet', response: z.object({ deleted: z.array(z.string()) }) },
+  'POST /api/v1/user/subscribe': {
+    summary: 'Request a subscription tier',
+    description: 'Returns an invoice payable in the configured token from the signed-in wallet. The tier is activated once the transfer is confirmed; until then entitlements follow the current tier.',
+    response: subscriptionResultSchema
+  },
+  'GET /api/v1/user/invoices': { summary: 'List subscription invoices', response: z.array(invoiceSchema) },
+  'GET /api/v1/user/invoices/{invoiceId}': { summary: 'Get a subscription invoice', response: invoiceSchema },
+  'GET /api/v1/user/export': {
+    summary: 'Export account data',
+    description: 'Everything stored about the user. format=zip (default) downloads an archive with data.json and one CSV per record type; format=json returns the same document in the usual envelope.',
+    response: userDataExportSchema
+  },
+  'DELETE /api/v1/user/account': {
+    summary: 'Request account deletion',
+    description: 'Locks the account and schedules erasure. Personal data is deleted; transaction hashes and anonymized metrics are kept for the retention period, then purged.',
+    response: deletionReceiptSchema
+  },
+  'GET /api/v1/user/account/deletions/{confirmationId}': { summary: 'Get an account deletion receipt', response: deletionReceiptSchema },
+  'POST /api/v1/user/account/deletions/verify': {
+    summary: 'Verify an account deletion receipt',
+    description: 'Checks the receipt\'s signature against the fields it covers. valid is false when the receipt was altered or not issued by this server.',
+    response: z.object({ valid: z.boolean() })
+  },
+
+  // Organizations
+  'GET /api/v1/orgs': { summary: 'List your organizations', response: z.array(organizationSchema) },
+  'POST /api/v1/orgs': { summary: 'Create an organization', response: organizationSchema },
+  'GET /api/v1/orgs/invites': { summary: 'List invitations to your wallet', response: z.array(organizationInviteSchema) },
+  'POST /api/v1/orgs/invites/{inviteId}/accept': {
+    summary: 'Accept an organization invitation',
+    description: "Sign the invitation's message with the invited wallet (personal_sign or EIP-1271) and submit the signature.",
+    response: organizationDetailsSchema
+  },
+  'GET /api/v1/orgs/{orgId}': { summary: 'Get an organization with its members and watched addresses', response: organizationDetailsSchema },
+  'PUT /api/v1/orgs/{orgId}': { summary: 'Rename an organization', response: organizationDetailsSchema },
+  'DELETE /api/v1/orgs/{orgId}': { summary: 'Delete an organization', response: z.object({ deleted: z.string() }) },
+  'PUT /api/v1/orgs/{orgId}/members/{userId}': { summary: "Change a member's role", response: organizationDetailsSchema },
+  'DELETE /api/v1/orgs/{orgId}/members/{userId}': { summary: 'Remove a member or leave an organization', response: z.object({ removed: z.string() }) },
+  'GET /api/v1/orgs/{orgId}/invites': { summary: 'List organization invitations', response: z.array(organizationInviteSchema) },
+  'POST /api/v1/orgs/{orgId}/invites': { summary: 'Invite a wallet to an organization', response: organizationInviteSchema },
+  'DELETE /api/v1/orgs/{orgId}/invites/{inviteId}': { summary: 'Revoke an invitation', response: z.object({ revoked: z.string() }) },
+  'POST /api/v1/orgs/{orgId}/addresses/challenge': {
+    summary: 'Request a watch-address signature challenge',
+    description: 'Returns a SIWE message for the wallet to sign. Submitting the signed message to POST /orgs/{orgId}/addresses attaches the wallet.',
+    response: siweChallengeSchema
+  },
+  'POST /api/v1/orgs/{orgId}/addresses': { summary: 'Attach a signed-for wallet to an organization', response: watchedAddressSchema },
+  'DELETE /api/v1/orgs/{orgId}/addresses/{address}': { summary: 'Detach a watched wallet', response: z.object({ removed: z.string() }) },
+
+  // Admin
+  'GET /api/v1/admin/config': { summary: 'Effective configuration with secrets redacted', response: z.record(z.unknown()) },
+  'GET /api/v1/admin/indexer': {
+    summary: 'Chain indexer status',
+    description: 'Last indexed block, chain head and lag for Ethereum and Swellchain.',
+    response: z.array(indexerStatusSchema)
+  },
+  'GET /api/v1/admin/rpc': {
+    summary: 'RPC endpoint metrics',
+    description: 'Health score, latency and errors per configured endpoint, plus cache and batching statistics, for each chain.',
+    response: z.array(rpcClientMetricsSchema)
+  },
+
+  // Docs
+  'GET /api/v1/openapi.json': { summary: 'This OpenAPI document', response: z.record(z.unknown()) },
+  'GET /api/v1/docs': { summary: 'Browsable API reference', response: null }
+};
@@ -0,0 +1,1422 @@
+import { z, ZodTypeAny } from 'zod';
+import {
+  AVSMetrics,
+  AVSOperator,
+  AVSRewards,
+  AVSRiskMetrics,
+  AVSService,
+  AccountDeletionStatus,
+  ActivityEvent,
+  AggregatedCrossChainPositions,
+  AggregatedPortfolio,
+  AggregatedRiskMetrics,
+  AlertChannel,
+  AlertRule,
+  AlertRuleMetric,
+  AlertThresholds,
+  AnalyticsData,
+  ApiKeyInfo,
+  ApiKeyScope,
+  AuthResponse,
+  AuthTokens,
+  BridgeOperation,
+  BridgeRoute,
+  ChainConfig,
+  ChartDataPoint,
+  ConcentrationRiskData,
+  ConfirmationLevel,
+  ContractName,
+  ContractsStatus,
+  CountedLimit,
+  CreatedApiKey,
+  CrossChainPosition,
+  Dashboard,
+  DashboardWidget,
+  DashboardWidgetType,
+  DeletionReceipt,
+  Entitlements,
+  IndexerStatus,
+  IntegrationAVSMetrics,
+  IntegrationBridgeStatus,
+  IntegrationMetrics,
+  IntegrationTokenMetrics,
+  Invoice,
+  InvoiceKind,
+  InvoiceStatus,
+  LiquidityRiskData,
+  NotificationPreferences,
+  NucleusAccount,
+  NucleusRateHistory,
+  OracleRiskScore,
+  Organization,
+  OrganizationDetails,
+  OrganizationInvite,
+  OrganizationInviteStatus,
+  OrganizationMember,
+  OrganizationRole,
+  PaidSubscriptionTier,
+  PegBreach,
+  PegSample,
+  PegStatus,
+  PerformanceData,
+  PerformanceDataPoint,
+  PortfolioData,
+  Position,
+  PrivacySettings,
+  ProtocolData,
+  ProtocolPosition,
+  Recommendation,
+  RewardDistribution,
+  RiskAlert,
+  RiskMetadata,
+  RiskMetrics,
+  RiskProfile,
+  RpcClientMetrics,
+  RpcEndpointMetrics,
+  SiweChallenge,
+  SlashingCondition,
+  SlashingEvent,
+  SlashingRiskData,
+  Strategy,
+  StrategyFees,
+  StrategyPerformance,
+  SubscriptionLimits,
+  SubscriptionTier,
+  TellerDeposit,
+  TimeRange,
+  TokenPrice,
+  TransactionData,
+  User,
+  UserDataExport,
+  UserPreferences,
+  UserSession,
+  UserSubscription,
+  ValidatorRisk,
+  VaultExchangeRate,
+  VaultRiskProfile,
+  VaultState,
+  VaultStrategy,
+  WalletCrossChainPosition,
+  WalletPortfolioSummary,
+  WalletRiskSummary,
+  WalletSummary,
+  WatchedAddress,
+  WatchedWallet,
+  WithdrawalQueueRequest
+} from '../types';
+
+/**
+ * Response models as they go over the wire: dates are ISO strings. Every schema registered here
+ * becomes a named component of the OpenAPI document, and the SDK generates its types from them.
+ */
+export const RESPONSE_SCHEMAS = new Map<ZodTypeAny, string>();
+
+function responseSchema<T extends ZodTypeAny>(name: string, schema: T): T {
+  RESPONSE_SCHEMAS.set(schema, name);
+  return schema;
+}
+
+export const notificationPreferencesSchema = responseSchema('NotificationPreferences', z.object({
+  email: z.boolean(),
+  push: z.boolean(),
+  discord: z.boolean(),
+  telegram: z.boolean(),
+  riskAlerts: z.boolean(),
+  rebalanceNotifications: z.boolean(),
+  yieldUpdates: z.boolean(),
+  marketUpdates: z.boolean()
+}));
+
+export const privacySettingsSchema = responseSchema('PrivacySettings', z.object({
+  showPortfolio: z.boolean(),
+  showTransactions: z.boolean(),
+  allowAnalytics: z.boolean(),
+  shareData: z.boolean()
+}));
+
+export const userPreferencesSchema = responseSchema('UserPreferences', z.object({
+  theme: z.enum(['light', 'dark', 'auto']),
+  currency: z.enum(['USD', 'ETH', 'EUR']),
+  language: z.string(),
+  timezone: z.string(),
+  notifications: notificationPreferencesSchema,
+  privacy: privacySettingsSchema
+}));
+
+export const subscriptionTierSchema = responseSchema('SubscriptionTier', z.enum(['free', 'basic', 'premium', 'enterprise']));
+
+export const subscriptionLimitsSchema = responseSchema('SubscriptionLimits', z.object({
+  maxPositions: z.number(),
+  maxStrategies: z.number(),
+  apiCalls: z.number().describe('per day'),
+  apiCallsPerMinute: z.number(),
+  historicalData: z.number().describe('days'),
+  alerts: z.number(),
+  customDashboards: z.number(),
+  watchedWallets: z.number()
+}));
+
+export const userSubscriptionSchema = responseSchema('UserSubscription', z.object({
+  tier: subscriptionTierSchema,
+  isActive: z.boolean(),
+  expiresAt: z.string().optional(),
+  graceEndsAt: z.string().describe('Paid tiers keep their limits until this time after expiresAt').optional(),
+  features: z.array(z.string()),
+  limits: subscriptionLimitsSchema
+}));
+
+export const userSchema = responseSchema('User', z.object({
+  id: z.string(),
+  address: z.string(),
+  email: z.string().optional(),
+  username: z.string().optional(),
+  avatar: z.string().optional(),
+  joinedAt: z.string(),
+  lastActive: z.string(),
+  preferences: userPreferencesSchema,
+  subscription: userSubscriptionSchema,
+  isActive: z.boolean(),
+  metadata: z.record(z.unknown()).optional()
+}));
+
+export const countedLimitSchema = responseSchema('CountedLimit', z.enum(['maxPositions', 'maxStrategies', 'alerts', 'customDashboards', 'watchedWallets']));
+
+export const entitlementsSchema = responseSchema('Entitlements', z.object({
+  tier: subscriptionTierSchema,
+  features: z.array(z.string()),
+  limits: subscriptionLimitsSchema,
+  usage: z.object({
+    maxPositions: z.number(),
+    maxStrategies: z.number(),
+    alerts: z.number(),
+    customDashboards: z.number(),
+    watchedWallets: z.number()
+  }),
+  upgradeUrl: z.string()
+}));
+
+export const chartDataPointSchema = responseSchema('ChartDataPoint', z.object({
+  timestamp: z.number(),
+  tvl: z.number(),
+  yield: z.number(),
+  users: z.number(),
+  volume: z.number()
+}));
+
+export const protocolDataSchema = responseSchema('ProtocolData', z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  tvl: z.number(),
+  yield: z.number(),
+  riskScore: z.number(),
+  users: z.number(),
+  logo: z.string(),
+  category: z.enum(['restaking', 'defi', 'bridge', 'avs', 'yield-farming']),
+  isActive: z.boolean(),
+  chainId: z.number(),
+  deployedAt: z.string(),
+  lastUpdate: z.string()
+}));
+
+export const confirmationLevelSchema = responseSchema('ConfirmationLevel', z.enum(['unconfirmed', 'safe', 'finalized']).describe('`unconfirmed` records can still disappear in a reorg; `safe` ones are past the chain\'s confirmation depth and `finalized` ones past its finality depth.'));
+
+export const transactionDataSchema = responseSchema('TransactionData', z.object({
+  id: z.string(),
+  hash: z.string(),
+  type: z.enum(['deposit', 'withdraw', 'rebalance', 'claim', 'bridge']),
+  amount: z.number(),
+  token: z.string(),
+  user: z.string(),
+  timestamp: z.number(),
+  status: z.enum(['pending', 'confirmed', 'failed']),
+  gasUsed: z.number().optional(),
+  gasPrice: z.number().optional(),
+  blockNumber: z.number().optional(),
+  chainId: z.number(),
+  confirmation: confirmationLevelSchema.describe('Reorg safety of the block the transaction was indexed from').optional()
+}));
+
+export const analyticsDataSchema = responseSchema('AnalyticsData', z.object({
+  totalTVL: z.number(),
+  totalUsers: z.number(),
+  averageYield: z.number(),
+  totalProtocols: z.number(),
+  tvlChange24h: z.number(),
+  usersChange24h: z.number(),
+  yieldChange24h: z.number(),
+  protocolsChange24h: z.number(),
+  chartData: z.array(chartDataPointSchema),
+  topProtocols: z.array(protocolDataSchema),
+  recentTransactions: z.array(transactionDataSchema)
+}));
+
+export const protocolPositionSchema = responseSchema('ProtocolPosition', z.object({
+  protocol: z.string().describe('Adapter id, e.g. \'sweth\''),
+  protocolName: z.string(),
+  chainId: z.number(),
+  token: z.string(),
+  contractAddress: z.string(),
+  amount: z.number().describe('Token units'),
+  value: z.number().describe('ETH'),
+  avs: z.string().describe('AVS the position\'s ETH is restaked to').optional(),
+  confirmation: confirmationLevelSchema.describe('Depth of the block the balance was read at')
+}).describe('A holding in one protocol, read from chain state'));
+
+export const vaultExchangeRateSchema = responseSchema('VaultExchangeRate', z.object({
+  chainId: z.number(),
+  accountant: z.string(),
+  rate: z.string(),
+  blockNumber: z.number(),
+  timestamp: z.string(),
+  confirmation: confirmationLevelSchema
+}).describe('A vault accountant\'s share price after one update: base asset per share, in base units'));
+
+export const tellerDepositSchema = responseSchema('TellerDeposit', z.object({
+  nonce: z.string(),
+  txHash: z.string(),
+  asset: z.string(),
+  amount: z.string(),
+  shares: z.string(),
+  timestamp: z.string(),
+  unlocksAt: z.string().describe('When the minted shares may be transferred or withdrawn'),
+  refunded: z.boolean(),
+  confirmation: confirmationLevelSchema
+}).describe('A deposit made through the Nucleus Teller, in base units'));
+
+export const withdrawalQueueRequestSchema = responseSchema('WithdrawalQueueRequest', z.object({
+  offerToken: z.string(),
+  wantToken: z.string(),
+  amount: z.string().describe('Shares still offered, in base units'),
+  minPrice: z.string().describe('Lowest acceptable want-token price per share, in base units'),
+  deadline: z.string(),
+  requestedAt: z.string(),
+  status: z.enum(['pending', 'expired']).describe('Requests past their deadline can no longer be solved'),
+  confirmation: confirmationLevelSchema
+}).describe('An open Nucleus atomic-queue request offering vault shares for `wantToken`'));
+
+export const nucleusAccountSchema = responseSchema('NucleusAccount', z.object({
+  address: z.string(),
+  shares: z.number(),
+  value: z.number(),
+  rate: z.number().describe('ETH per share'),
+  sharesLockedUntil: z.string().nullable().describe('Latest share unlock among the account\'s deposits, null once everything is unlocked'),
+  deposits: z.array(tellerDepositSchema),
+  pendingWithdrawals: z.array(withdrawalQueueRequestSchema)
+}).describe('An account\'s earnETH holding with its Teller deposits and queued withdrawals; values in ETH'));
+
+export const nucleusRateHistorySchema = responseSchema('NucleusRateHistory', z.object({
+  rate: z.number().describe('Current ETH per share'),
+  apy: z.number().nullable().describe('Annualized from the indexed updates; null until they span a day'),
+  rates: z.array(vaultExchangeRateSchema)
+}).describe('earnETH share price updates over a window and the yield they imply'));
+
+export const slashingRiskDataSchema = responseSchema('SlashingRiskData', z.object({
+  probability: z.number(),
+  potentialLoss: z.number(),
+  riskScore: z.number(),
+  timeHorizon: z.string(),
+  confidenceLevel: z.number()
+}));
+
+export const liquidityRiskDataSchema = responseSchema('LiquidityRiskData', z.object({
+  availableLiquidity: z.number(),
+  utilizationRate: z.number(),
+  withdrawalDelay: z.number(),
+  pegDiscount: z.number().describe('Value-weighted market discount of the liquid staking tokens held, as a fraction'),
+  riskScore: z.number()
+}));
+
+export const concentrationRiskDataSchema = responseSchema('ConcentrationRiskData', z.object({
+  protocolConcentration: z.number(),
+  operatorConcentration: z.number(),
+  avsConcentration: z.number(),
+  diversificationScore: z.number()
+}));
+
+export const slashingEventSchema = responseSchema('SlashingEvent', z.object({
+  id: z.string(),
+  validatorAddress: z.string(),
+  avsId: z.string(),
+  amount: z.number(),
+  timestamp: z.number(),
+  reason: z.string(),
+  blockNumber: z.number(),
+  transactionHash: z.string(),
+  affectedUsers: z.array(z.string())
+}));
+
+export const validatorRiskSchema = responseSchema('ValidatorRisk', z.object({
+  validatorAddress: z.string(),
+  riskScore: z.number(),
+  slashingHistory: z.array(slashingEventSchema),
+  performance: z.number(),
+  uptime: z.number(),
+  commission: z.number(),
+  stakedAmount: z.number(),
+  lastUpdated: z.number()
+}));
+
+export const slashingConditionSchema = responseSchema('SlashingCondition', z.object({
+  type: z.string(),
+  description: z.string(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  probability: z.number(),
+  maxSlashingPercent: z.number()
+}));
+
+export const avsRiskMetricsSchema = responseSchema('AVSRiskMetrics', z.object({
+  avsId: z.string(),
+  name: z.string(),
+  riskScore: z.number(),
+  slashingConditions: z.array(slashingConditionSchema),
+  operatorCount: z.number(),
+  totalStaked: z.number(),
+  auditScore: z.number(),
+  governanceRisk: z.number(),
+  lastUpdated: z.number()
+}));
+
+export const riskMetadataSchema = responseSchema('RiskMetadata', z.object({
+  calculationVersion: z.string(),
+  dataQuality: z.number(),
+  uncertaintyLevel: z.number()
+}));
+
+export const riskMetricsSchema = responseSchema('RiskMetrics', z.object({
+  userAddress: z.string(),
+  overallRiskScore: z.number(),
+  riskLevel: z.enum(['low', 'medium', 'high', 'critical']),
+  slashingRisk: slashingRiskDataSchema,
+  liquidityRisk: liquidityRiskDataSchema,
+  concentrationRisk: concentrationRiskDataSchema,
+  validatorRisks: z.array(validatorRiskSchema),
+  avsRisks: z.array(avsRiskMetricsSchema),
+  lastUpdated: z.number(),
+  metadata: riskMetadataSchema
+}));
+
+export const pegSampleSchema = responseSchema('PegSample', z.object({
+  symbol: z.string(),
+  token: z.string(),
+  pool: z.string(),
+  marketPrice: z.number(),
+  redemptionRate: z.number(),
+  deviation: z.number().describe('(market - redemption) / redemption; negative when the token trades at a discount'),
+  blockNumber: z.number(),
+  sampledAt: z.string()
+}).describe('A liquid staking token\'s DEX price next to its redemption rate, both in ETH per token'));
+
+export const pegBreachSchema = responseSchema('PegBreach', z.object({
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  deviationBps: z.number(),
+  since: z.string().describe('Start of the current run of samples past the threshold, looking back one monitoring window'),
+  discount: z.number().describe('Current discount, as a fraction')
+}).describe('The strongest threshold a token\'s discount has held past'));
+
+export const pegStatusSchema = responseSchema('PegStatus', z.object({
+  symbol: z.string(),
+  token: z.string(),
+  protocol: z.string().describe('Protocol adapter id holding the token'),
+  latest: pegSampleSchema.nullable(),
+  breach: pegBreachSchema.nullable()
+}));
+
+export const tokenPriceSchema = responseSchema('TokenPrice', z.object({
+  symbol: z.string(),
+  price: z.number().describe('USD, the median of the accepted quotes'),
+  sources: z.array(z.object({
+    source: z.string(),
+    price: z.number(),
+    accepted: z.boolean()
+  })).describe('Every quote considered, converted to USD; `accepted` is false for outliers'),
+  sampledAt: z.string()
+}).describe('A token\'s USD price, aggregated from the quotes of every source that covers it'));
+
+export const alertThresholdsSchema = responseSchema('AlertThresholds', z.object({
+  slashing: z.number(),
+  liquidity: z.number(),
+  concentration: z.number(),
+  performance: z.number()
+}));
+
+export const riskProfileSchema = responseSchema('RiskProfile', z.object({
+  userId: z.string(),
+  riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']),
+  maxSlashingRisk: z.number(),
+  maxLiquidityRisk: z.number(),
+  maxConcentration: z.number(),
+  rebalanceThreshold: z.number(),
+  autoRebalance: z.boolean(),
+  alertThresholds: alertThresholdsSchema,
+  createdAt: z.string(),
+  updatedAt: z.string()
+}));
+
+export const alertRuleMetricSchema = responseSchema('AlertRuleMetric', z.enum(['slashing', 'liquidity', 'concentration', 'performance']));
+
+export const alertChannelSchema = responseSchema('AlertChannel', z.enum(['email', 'push', 'discord', 'telegram']));
+
+export const alertRuleSchema = responseSchema('AlertRule', z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  metric: alertRuleMetricSchema,
+  threshold: z.number(),
+  channels: z.array(alertChannelSchema),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+}));
+
+export const riskAlertSchema = responseSchema('RiskAlert', z.object({
+  id: z.string(),
+  type: z.enum(['validator_risk', 'concentration_risk', 'slashing_event', 'liquidity_risk', 'depeg_risk']),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  title: z.string(),
+  message: z.string(),
+  timestamp: z.number(),
+  data: z.unknown().optional(),
+  actionRequired: z.boolean(),
+  suggestedActions: z.array(z.string()).optional()
+}));
+
+export const positionSchema = responseSchema('Position', z.object({
+  id: z.string(),
+  userId: z.string(),
+  protocol: z.string(),
+  protocolName: z.string(),
+  token: z.string(),
+  amount: z.number(),
+  value: z.number(),
+  yield: z.number(),
+  riskScore: z.number(),
+  allocation: z.number(),
+  earnings: z.number(),
+  earningsChange24h: z.number(),
+  isActive: z.boolean(),
+  lastUpdate: z.string(),
+  apy: z.number(),
+  lockupPeriod: z.number().optional(),
+  unlockDate: z.string().optional(),
+  chainId: z.number(),
+  contractAddress: z.string(),
+  walletAddress: z.string().describe('Watch-only wallet holding the position; unset for the account\'s own wallet').optional()
+}));
+
+export const strategyFeesSchema = responseSchema('StrategyFees', z.object({
+  managementFee: z.number(),
+  performanceFee: z.number(),
+  withdrawalFee: z.number(),
+  depositFee: z.number()
+}));
+
+export const strategyPerformanceSchema = responseSchema('StrategyPerformance', z.object({
+  totalReturn: z.number(),
+  annualizedReturn: z.number(),
+  sharpeRatio: z.number(),
+  maxDrawdown: z.number(),
+  volatility: z.number(),
+  alpha: z.number(),
+  beta: z.number()
+}));
+
+export const strategySchema = responseSchema('Strategy', z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  description: z.string(),
+  allocations: z.record(z.number()),
+  riskScore: z.number(),
+  expectedYield: z.number(),
+  tvl: z.number(),
+  allocation: z.number(),
+  isActive: z.boolean(),
+  autoExecute: z.boolean(),
+  minAmount: z.number(),
+  maxAmount: z.number(),
+  fees: strategyFeesSchema,
+  performance: strategyPerformanceSchema,
+  createdAt: z.string(),
+  updatedAt: z.string()
+}));
+
+export const performanceDataPointSchema = responseSchema('PerformanceDataPoint', z.object({
+  timestamp: z.number(),
+  value: z.number(),
+  return: z.number(),
+  cumulativeReturn: z.number(),
+  drawdown: z.number()
+}));
+
+export const performanceDataSchema = responseSchema('PerformanceData', z.object({
+  totalReturn: z.number(),
+  totalReturnUSD: z.number(),
+  annualizedReturn: z.number(),
+  sharpeRatio: z.number(),
+  maxDrawdown: z.number(),
+  volatility: z.number(),
+  bestDay: z.number(),
+  worstDay: z.number(),
+  winRate: z.number(),
+  profitFactor: z.number(),
+  chartData: z.array(performanceDataPointSchema)
+}));
+
+export const recommendationSchema = responseSchema('Recommendation', z.object({
+  id: z.string(),
+  userId: z.string(),
+  type: z.enum(['rebalance', 'strategy_change', 'risk_adjustment', 'yield_optimization']),
+  title: z.string(),
+  description: z.string(),
+  impact: z.string(),
+  priority: z.enum(['low', 'medium', 'high']),
+  estimatedGain: z.number(),
+  estimatedRisk: z.number(),
+  actionRequired: z.boolean(),
+  autoExecutable: z.boolean(),
+  deadline: z.number().optional(),
+  relatedPositions: z.array(z.string()),
+  createdAt: z.string(),
+  executedAt: z.string().optional(),
+  status: z.enum(['pending', 'executed', 'rejected', 'expired'])
+}));
+
+export const portfolioDataSchema = responseSchema('PortfolioData', z.object({
+  userId: z.string(),
+  totalValue: z.number(),
+  totalStaked: z.number(),
+  totalEarnings: z.number(),
+  averageYield: z.number(),
+  riskScore: z.number(),
+  lastRebalance: z.number(),
+  positions: z.array(positionSchema),
+  strategies: z.array(strategySchema),
+  performance: performanceDataSchema,
+  recommendations: z.array(recommendationSchema)
+}));
+
+export const watchedWalletSchema = responseSchema('WatchedWallet', z.object({
+  address: z.string(),
+  label: z.string().optional(),
+  group: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+}));
+
+export const walletSummarySchema = responseSchema('WalletSummary', z.object({
+  address: z.string(),
+  label: z.string().optional(),
+  group: z.string().optional(),
+  primary: z.boolean(),
+  totalValue: z.number(),
+  share: z.number().describe('Fraction of the aggregate\'s total value, 0-1')
+}).describe('One wallet\'s part of an aggregated view. The account\'s own wallet is marked `primary`.'));
+
+export const walletPortfolioSummarySchema = responseSchema('WalletPortfolioSummary', walletSummarySchema.extend({
+  totalStaked: z.number(),
+  totalEarnings: z.number(),
+  averageYield: z.number(),
+  riskScore: z.number(),
+  positionCount: z.number()
+}));
+
+export const aggregatedPortfolioSchema = responseSchema('AggregatedPortfolio', z.object({
+  group: z.string().describe('Set when the aggregate covers a single wallet group').optional(),
+  totalValue: z.number(),
+  totalStaked: z.number(),
+  totalEarnings: z.number(),
+  averageYield: z.number(),
+  riskScore: z.number(),
+  positions: z.array(positionSchema),
+  wallets: z.array(walletPortfolioSummarySchema)
+}));
+
+export const walletRiskSummarySchema = responseSchema('WalletRiskSummary', walletSummarySchema.extend({
+  overallRiskScore: z.number(),
+  riskLevel: riskMetricsSchema.shape.riskLevel
+}));
+
+export const aggregatedRiskMetricsSchema = responseSchema('AggregatedRiskMetrics', z.object({
+  group: z.string().optional(),
+  metrics: riskMetricsSchema.describe('Metrics over the combined positions of every wallet, concentration included'),
+  wallets: z.array(walletRiskSummarySchema)
+}));
+
+export const crossChainPositionSchema = responseSchema('CrossChainPosition', z.object({
+  id: z.string(),
+  userId: z.string(),
+  chainId: z.number(),
+  chainName: z.string(),
+  token: z.string(),
+  amount: z.number(),
+  value: z.number(),
+  bridge: z.string(),
+  status: z.enum(['active', 'pending', 'failed']),
+  lastUpdate: z.number(),
+  canBridge: z.boolean(),
+  bridgeFee: z.number(),
+  estimatedTime: z.number(),
+  contractAddress: z.string(),
+  confirmation: confirmationLevelSchema.describe('Reorg safety of the indexed data behind the position').optional()
+}));
+
+export const walletCrossChainPositionSchema = responseSchema('WalletCrossChainPosition', crossChainPositionSchema.extend({
+  walletAddress: z.string()
+}));
+
+export const aggregatedCrossChainPositionsSchema = responseSchema('AggregatedCrossChainPositions', z.object({
+  group: z.string().optional(),
+  totalValue: z.number(),
+  positions: z.array(walletCrossChainPositionSchema),
+  wallets: z.array(walletSummarySchema)
+}));
+
+export const activityEventSchema = responseSchema('ActivityEvent', z.object({
+  id: z.string(),
+  userId: z.string(),
+  type: z.string(),
+  description: z.string(),
+  amount: z.number().optional(),
+  token: z.string().optional(),
+  status: z.string(),
+  severity: z.string().optional(),
+  transactionHash: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  timestamp: z.number()
+}));
+
+export const avsServiceSchema = responseSchema('AVSService', z.object({
+  name: z.string(),
+  description: z.string(),
+  isActive: z.boolean(),
+  performanceMetrics: z.object({
+    responseTime: z.number(),
+    accuracy: z.number(),
+    availability: z.number()
+  }),
+  deployedAt: z.string(),
+  version: z.string()
+}));
+
+export const avsOperatorSchema = responseSchema('AVSOperator', z.object({
+  address: z.string(),
+  name: z.string().optional(),
+  stake: z.number(),
+  commission: z.number(),
+  performanceScore: z.number(),
+  slashingHistory: z.number(),
+  isActive: z.boolean(),
+  services: z.array(z.string()),
+  joinedAt: z.string(),
+  lastActive: z.string(),
+  metadata: z.record(z.unknown()).optional()
+}));
+
+export const rewardDistributionSchema = responseSchema('RewardDistribution', z.object({
+  id: z.string(),
+  amount: z.number(),
+  recipients: z.number(),
+  timestamp: z.number(),
+  transactionHash: z.string(),
+  status: z.enum(['pending', 'completed', 'failed'])
+}));
+
+export const avsRewardsSchema = responseSchema('AVSRewards', z.object({
+  totalRewards: z.number(),
+  userRewards: z.number(),
+  rewardRate: z.number(),
+  lastDistribution: z.number(),
+  nextDistribution: z.number(),
+  claimableRewards: z.number(),
+  distributionHistory: z.array(rewardDistributionSchema)
+}));
+
+export const avsMetricsSchema = responseSchema('AVSMetrics', z.object({
+  id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  totalStaked: z.number(),
+  operatorCount: z.number(),
+  performanceScore: z.number(),
+  slashingEvents: z.number(),
+  slashingRisk: z.number(),
+  averageCommission: z.number(),
+  uptime: z.number(),
+  lastSlashing: z.number().optional(),
+  isActive: z.boolean(),
+  services: z.array(avsServiceSchema),
+  operators: z.array(avsOperatorSchema),
+  rewards: avsRewardsSchema,
+  chainId: z.number(),
+  deployedAt: z.string(),
+  lastUpdate: z.string()
+}));
+
+export const bridgeOperationSchema = responseSchema('BridgeOperation', z.object({
+  id: z.string(),
+  userId: z.string(),
+  fromChain: z.number(),
+  toChain: z.number(),
+  token: z.string(),
+  amount: z.number(),
+  recipient: z.string(),
+  status: z.enum(['pending', 'confirmed', 'failed', 'cancelled']),
+  transactionHash: z.string().optional(),
+  destinationHash: z.string().optional(),
+  fee: z.number(),
+  estimatedTime: z.number(),
+  actualTime: z.number().optional(),
+  timestamp: z.number(),
+  error: z.string().optional(),
+  metadata: z.record(z.unknown()).optional()
+}));
+
+export const chainConfigSchema = responseSchema('ChainConfig', z.object({
+  chainId: z.number(),
+  name: z.string(),
+  rpcUrl: z.string(),
+  explorerUrl: z.string(),
+  nativeCurrency: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number()
+  }),
+  contracts: z.record(z.string()),
+  isTestnet: z.boolean(),
+  blockTime: z.number(),
+  finalityBlocks: z.number()
+}));
+
+export const indexerStatusSchema = responseSchema('IndexerStatus', z.object({
+  chainId: z.number(),
+  name: z.string(),
+  blockNumber: z.number().optional(),
+  blockHash: z.string().optional(),
+  safeBlockNumber: z.number().optional(),
+  finalizedBlockNumber: z.number().optional(),
+  head: z.number().optional(),
+  lag: z.number().describe('Blocks between the chain head and the last indexed block').optional(),
+  updatedAt: z.string().optional(),
+  error: z.string().optional()
+}));
+
+export const rpcEndpointMetricsSchema = responseSchema('RpcEndpointMetrics', z.object({
+  url: z.string().describe('Origin only; provider keys in the path are redacted'),
+  healthy: z.boolean().describe('False while the endpoint is backing off after failures'),
+  score: z.number().describe('0-100 from recent error rate and latency; the highest scoring endpoint is tried first'),
+  requests: z.number(),
+  errors: z.number(),
+  consecutiveErrors: z.number(),
+  latencyMs: z.number().optional(),
+  lastError: z.string().optional(),
+  lastErrorAt: z.string().optional()
+}));
+
+export const rpcClientMetricsSchema = responseSchema('RpcClientMetrics', z.object({
+  chainId: z.number(),
+  endpoints: z.array(rpcEndpointMetricsSchema),
+  cache: z.object({
+    entries: z.number(),
+    hits: z.number(),
+    misses: z.number()
+  }),
+  deduplicated: z.number().describe('Requests answered by an identical request already in flight'),
+  batches: z.number()
+}));
+
+export const contractNameSchema = responseSchema('ContractName', z.enum(['RiskOracle', 'SwellScopeVault', 'SwellChainIntegration']));
+
+export const contractsStatusSchema = responseSchema('ContractsStatus', z.object({
+  chainId: z.number(),
+  contracts: z.object({
+    RiskOracle: z.string().optional(),
+    SwellScopeVault: z.string().optional(),
+    SwellChainIntegration: z.string().optional()
+  }).describe('Contracts without an address are not deployed on this chain')
+}));
+
+export const vaultStrategySchema = responseSchema('VaultStrategy', z.object({
+  address: z.string(),
+  active: z.boolean(),
+  allocation: z.number().describe('Basis points of the vault\'s assets'),
+  riskScore: z.number().describe('0-100'),
+  expectedYield: z.number().describe('Basis points'),
+  tvl: z.string().describe('Base units of the vault asset')
+}));
+
+export const vaultStateSchema = responseSchema('VaultState', z.object({
+  address: z.string(),
+  asset: z.string(),
+  totalAssets: z.string().describe('Base units of `asset`'),
+  totalSupply: z.string(),
+  portfolioRiskScore: z.number().describe('Allocation-weighted strategy risk, 0-100'),
+  totalAllocation: z.number().describe('Basis points allocated across active strategies'),
+  managementFeeBps: z.number(),
+  performanceFeeBps: z.number(),
+  emergencyExitTriggered: z.boolean(),
+  paused: z.boolean(),
+  lastRiskUpdate: z.string().nullable(),
+  strategies: z.array(vaultStrategySchema)
+}));
+
+export const vaultRiskProfileSchema = responseSchema('VaultRiskProfile', z.object({
+  maxRiskScore: z.number().describe('0-100'),
+  preferredYield: z.number(),
+  autoRebalance: z.boolean(),
+  lastRebalance: z.string().nullable()
+}));
+
+export const oracleRiskScoreSchema = responseSchema('OracleRiskScore', z.object({
+  asset: z.string(),
+  riskScore: z.number(),
+  threshold: z.number(),
+  slashingRisk: z.number(),
+  liquidityRisk: z.number(),
+  smartContractRisk: z.number(),
+  marketRisk: z.number(),
+  emergencyActive: z.boolean(),
+  stale: z.boolean().describe('No oracle update within the staleness window'),
+  lastUpdate: z.string().nullable()
+}).describe('RiskOracle scores are in basis points, 0-10000'));
+
+export const integrationAVSMetricsSchema = responseSchema('IntegrationAVSMetrics', z.object({
+  name: z.string(),
+  avsContract: z.string(),
+  totalStaked: z.string(),
+  performanceScore: z.number(),
+  slashingEvents: z.number(),
+  operatorCount: z.number(),
+  isActive: z.boolean()
+}));
+
+export const integrationTokenMetricsSchema = responseSchema('IntegrationTokenMetrics', z.object({
+  token: z.string(),
+  exchangeRate: z.string(),
+  totalSupply: z.string(),
+  backingAssets: z.string(),
+  yieldRate: z.number(),
+  slashingRisk: z.number()
+}));
+
+export const integrationMetricsSchema = responseSchema('IntegrationMetrics', z.object({
+  address: z.string(),
+  mach: integrationAVSMetricsSchema,
+  swETH: integrationTokenMetricsSchema,
+  rswETH: integrationTokenMetricsSchema,
+  network: z.object({
+    isHealthy: z.boolean(),
+    finalityTime: z.number(),
+    gasPrice: z.string()
+  })
+}));
+
+export const bridgeRouteSchema = responseSchema('BridgeRoute', z.object({
+  bridge: z.string(),
+  estimatedTime: z.number().describe('Seconds'),
+  estimatedCost: z.string().describe('Wei')
+}));
+
+export const integrationBridgeStatusSchema = responseSchema('IntegrationBridgeStatus', z.object({
+  operationId: z.string(),
+  status: z.enum(['pending', 'confirmed']).describe('Unknown operations also read as pending')
+}));
+
+export const siweChallengeSchema = responseSchema('SiweChallenge', z.object({
+  message: z.string(),
+  nonce: z.string(),
+  expiresAt: z.number()
+}));
+
+export const authTokensSchema = responseSchema('AuthTokens', z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+  sessionId: z.string(),
+  expiresAt: z.number(),
+  refreshExpiresAt: z.number()
+}));
+
+export const authResponseSchema = responseSchema('AuthResponse', authTokensSchema.extend({
+  user: userSchema
+}));
+
+export const userSessionSchema = responseSchema('UserSession', z.object({
+  id: z.string(),
+  userId: z.string(),
+  userAgent: z.string().optional(),
+  ipAddress: z.string().optional(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  expiresAt: z.string(),
+  revokedAt: z.string().optional(),
+  current: z.boolean().optional()
+}));
+
+export const apiKeyScopeSchema = responseSchema('ApiKeyScope', z.enum(['read', 'trade']));
+
+export const apiKeyInfoSchema = responseSchema('ApiKeyInfo', z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  allowedIps: z.array(z.string()),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+  lastUsedIp: z.string().optional(),
+  expiresAt: z.string().optional(),
+  revokedAt: z.string().optional()
+}));
+
+export const dashboardWidgetTypeSchema = responseSchema('DashboardWidgetType', z.enum(['portfolio_value', 'risk_score', 'yield_chart', 'tvl_chart', 'avs_performance', 'alerts', 'bridge_activity']));
+
+export const dashboardWidgetSchema = responseSchema('DashboardWidget', z.object({
+  type: dashboardWidgetTypeSchema,
+  title: z.string().optional(),
+  position: z.object({
+    x: z.number(),
+    y: z.number(),
+    w: z.number(),
+    h: z.number()
+  }),
+  config: z.record(z.unknown()).optional()
+}));
+
+export const dashboardSchema = responseSchema('Dashboard', z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  widgets: z.array(dashboardWidgetSchema),
+  createdAt: z.string(),
+  updatedAt: z.string()
+}));
+
+export const createdApiKeySchema = responseSchema('CreatedApiKey', z.object({
+  apiKey: apiKeyInfoSchema,
+  key: z.string().describe('The full key; only returned when the key is created or rotated')
+}));
+
+export const timeRangeSchema = responseSchema('TimeRange', z.enum(['1h', '24h', '7d', '30d', '90d', '1y', 'all']));
+
+export const rebalanceTransactionSchema = responseSchema('RebalanceTransaction', z.object({
+  type: z.enum(['withdraw', 'deposit']),
+  protocol: z.string(),
+  amount: z.number(),
+  token: z.string(),
+  estimatedGas: z.number(),
+  hash: z.string().nullable()
+}));
+
+export const rebalanceResultSchema = responseSchema('RebalanceResult', z.object({
+  id: z.string(),
+  userId: z.string(),
+  strategy: z.string(),
+  status: z.enum(['simulated', 'completed']),
+  transactions: z.array(rebalanceTransactionSchema),
+  estimatedGas: z.number(),
+  estimatedTime: z.number(),
+  actualTime: z.number().nullable(),
+  slippage: z.number(),
+  fees: z.object({
+    gas: z.number(),
+    protocol: z.number()
+  }),
+  newAllocations: z.record(z.number()),
+  timestamp: z.number()
+}));
+
+export const avsPerformanceSchema = responseSchema('AVSPerformance', z.object({
+  avsId: z.string(),
+  timeRange: timeRangeSchema,
+  metrics: avsMetricsSchema.pick({ uptime: true, performanceScore: true, averageCommission: true, slashingEvents: true, totalStaked: true, operatorCount: true }),
+  historical: z.object({
+    uptime: z.array(z.object({
+      timestamp: z.number(),
+      value: z.number()
+    })),
+    performance: z.array(z.object({
+      timestamp: z.number(),
+      value: z.number()
+    })),
+    stake: z.array(z.object({
+      timestamp: z.number(),
+      value: z.number()
+    }))
+  }),
+  comparison: z.object({
+    industryAverage: z.object({
+      uptime: z.number(),
+      performance: z.number(),
+      commission: z.number()
+    }),
+    ranking: z.object({
+      uptimeRank: z.number(),
+      performanceRank: z.number(),
+      stakeRank: z.number(),
+      totalAVS: z.number()
+    })
+  })
+}));
+
+export const avsDetailsSchema = responseSchema('AVSDetails', avsMetricsSchema.extend({
+  specific: z.record(z.unknown())
+}).describe('MACH, VITAL and SQUAD metrics plus service-specific figures'));
+
+export const avsOverviewSchema = responseSchema('AVSOverview', z.object({
+  totalAVS: z.number(),
+  activeAVS: z.number(),
+  totalStaked: z.number(),
+  totalOperators: z.number(),
+  averagePerformance: z.number(),
+  averageUptime: z.number(),
+  totalSlashingEvents: z.number(),
+  services: z.array(avsMetricsSchema.pick({ id: true, name: true, totalStaked: true, performanceScore: true, uptime: true, isActive: true })),
+  healthScore: z.number(),
+  trends: z.object({
+    stakeGrowth24h: z.number(),
+    performanceChange24h: z.number(),
+    newOperators24h: z.number()
+  })
+}));
+
+export const stakeResultSchema = responseSchema('StakeResult', z.object({
+  transactionId: z.string(),
+  avsId: z.string(),
+  operator: z.string(),
+  amount: z.number(),
+  estimatedRewards: z.number(),
+  lockupPeriod: z.number(),
+  status: z.literal('pending'),
+  estimatedGas: z.number(),
+  gasPrice: z.number()
+}));
+
+export const bridgeCostEstimateSchema = responseSchema('BridgeCostEstimate', z.object({
+  fee: z.number(),
+  estimatedTime: z.number(),
+  gasEstimate: z.number(),
+  exchangeRate: z.number(),
+  minimumAmount: z.number(),
+  maximumAmount: z.number(),
+  breakdown: z.object({
+    baseFee: z.number(),
+    percentageFee: z.number(),
+    gasFee: z.number()
+  })
+}));
+
+export const bridgeFeeStructureSchema = responseSchema('BridgeFeeStructure', z.object({
+  baseFees: z.record(z.number()),
+  percentageFees: z.object({
+    standard: z.number(),
+    fast: z.number(),
+    instant: z.number()
+  }),
+  limits: z.object({
+    minimum: z.number(),
+    maximum: z.number(),
+    daily: z.number()
+  })
+}));
+
+export const bridgeEstimateSchema = responseSchema('BridgeEstimate', bridgeCostEstimateSchema.extend({
+  route: z.object({
+    path: z.array(z.number()),
+    hops: z.number(),
+    protocol: z.string(),
+    security: z.string(),
+    disputePeriod: z.number()
+  }),
+  risks: z.record(z.union([z.string(), z.number()])),
+  alternatives: z.array(z.object({
+    name: z.string(),
+    estimatedTime: z.number(),
+    fee: z.number(),
+    confidence: z.number()
+  })),
+  priceImpact: z.number(),
+  confidence: z.number()
+}));
+
+export const bridgeOperationStatusSchema = responseSchema('BridgeOperationStatus', z.object({
+  operationId: z.string(),
+  status: bridgeOperationSchema.shape.status,
+  progress: z.number(),
+  currentStep: z.string(),
+  steps: z.array(z.object({
+    name: z.string(),
+    status: z.string(),
+    timestamp: z.number().nullable()
+  })),
+  estimatedCompletion: z.number(),
+  confirmations: z.object({
+    source: z.number(),
+    destination: z.number(),
+    required: z.number()
+  })
+}));
+
+export const userStatsSchema = responseSchema('UserStats', z.object({
+  portfolio: z.object({
+    totalValue: z.number(),
+    totalStaked: z.number(),
+    totalEarnings: z.number(),
+    positionsCount: z.number(),
+    strategiesCount: z.number()
+  }),
+  activity: z.object({
+    transactionsCount: z.number(),
+    bridgeOperationsCount: z.number(),
+    rebalancesCount: z.number(),
+    lastTransactionDate: z.number().nullable()
+  }),
+  risk: z.object({
+    averageRiskScore: z.number(),
+    alertsCount: z.number(),
+    slashingEvents: z.number()
+  }),
+  rewards: z.object({
+    averageYield: z.number(),
+    bestPerformingPosition: z.string().nullable()
+  }),
+  period: timeRangeSchema,
+  lastUpdated: z.number()
+}));
+
+export const paidSubscriptionTierSchema = responseSchema('PaidSubscriptionTier', z.enum(['basic', 'premium', 'enterprise']));
+
+export const invoiceStatusSchema = responseSchema('InvoiceStatus', z.enum(['pending', 'paid', 'expired', 'cancelled']));
+
+export const invoiceKindSchema = responseSchema('InvoiceKind', z.enum(['new', 'renewal', 'change']));
+
+export const invoiceSchema = responseSchema('Invoice', z.object({
+  id: z.string(),
+  tier: paidSubscriptionTierSchema,
+  kind: invoiceKindSchema,
+  status: invoiceStatusSchema,
+  periodDays: z.number(),
+  amount: z.string().describe('Amount due in token base units, as a decimal string'),
+  token: z.object({
+    address: z.string(),
+    symbol: z.string(),
+    decimals: z.number()
+  }),
+  chainId: z.number(),
+  receiver: z.string(),
+  payerAddress: z.string().describe('Only transfers from this wallet settle the invoice'),
+  paymentUri: z.string().describe('EIP-681 link wallets can open to prefill the transfer'),
+  expiresAt: z.string(),
+  createdAt: z.string(),
+  paidAt: z.string().optional(),
+  paidAmount: z.string().optional(),
+  txHash: z.string().optional()
+}));
+
+export const subscriptionResultSchema = responseSchema('SubscriptionResult', z.object({
+  tier: paidSubscriptionTierSchema,
+  status: z.literal('pending_payment'),
+  paymentMethod: z.literal('crypto'),
+  features: z.array(z.string()),
+  invoice: invoiceSchema
+}));
+
+export const organizationRoleSchema = responseSchema('OrganizationRole', z.enum(['owner', 'analyst', 'viewer']));
+
+export const organizationSchema = responseSchema('Organization', z.object({
+  id: z.string(),
+  name: z.string(),
+  role: organizationRoleSchema.describe('Your role in the organization'),
+  memberCount: z.number(),
+  addressCount: z.number(),
+  createdAt: z.string()
+}));
+
+export const userDataExportSchema = responseSchema('UserDataExport', z.object({
+  exportedAt: z.string(),
+  profile: userSchema.omit({ preferences: true }),
+  preferences: userPreferencesSchema,
+  riskProfile: riskProfileSchema,
+  positions: z.array(positionSchema),
+  strategies: z.array(strategySchema),
+  alerts: z.array(riskAlertSchema),
+  alertRules: z.array(alertRuleSchema),
+  dashboards: z.array(dashboardSchema),
+  activity: z.array(activityEventSchema),
+  bridgeOperations: z.array(bridgeOperationSchema),
+  invoices: z.array(invoiceSchema),
+  organizations: z.array(organizationSchema),
+  watchedWallets: z.array(watchedWalletSchema)
+}));
+
+export const accountDeletionStatusSchema = responseSchema('AccountDeletionStatus', z.enum(['pending', 'completed', 'failed']));
+
+export const deletionReceiptSchema = responseSchema('DeletionReceipt', z.object({
+  confirmationId: z.string(),
+  status: accountDeletionStatusSchema,
+  requestedAt: z.string(),
+  completedAt: z.string().optional(),
+  retentionPeriod: z.number().describe('Days the retained records are kept before they are purged too'),
+  retainedUntil: z.string().optional(),
+  dataRemaining: z.array(z.string()),
+  erased: z.record(z.number()).optional(),
+  subjectHash: z.string().describe('sha256 of `<confirmationId>:<lowercase wallet address>`'),
+  signature: z.string().describe('HMAC-SHA256 of the receipt\'s other fields under the server\'s receipt key; set once the erasure has completed').optional()
+}));
+
+export const organizationInviteStatusSchema = responseSchema('OrganizationInviteStatus', z.enum(['pending', 'accepted', 'revoked', 'expired']));
+
+export const organizationMemberSchema = responseSchema('OrganizationMember', z.object({
+  userId: z.string(),
+  address: z.string(),
+  role: organizationRoleSchema,
+  joinedAt: z.string()
+}));
+
+export const watchedAddressSchema = responseSchema('WatchedAddress', z.object({
+  address: z.string(),
+  label: z.string().optional(),
+  addedBy: z.string(),
+  createdAt: z.string()
+}));
+
+export const organizationDetailsSchema = responseSchema('OrganizationDetails', organizationSchema.extend({
+  members: z.array(organizationMemberSchema),
+  addresses: z.array(watchedAddressSchema)
+}));
+
+export const organizationInviteSchema = responseSchema('OrganizationInvite', z.object({
+  id: z.string(),
+  organizationId: z.string(),
+  organizationName: z.string(),
+  address: z.string(),
+  role: organizationRoleSchema,
+  status: organizationInviteStatusSchema,
+  message: z.string().describe('SIWE-formatted message the invited wallet signs to accept'),
+  expiresAt: z.string(),
+  createdAt: z.string(),
+  acceptedAt: z.string().optional()
+}));
+
+export const analyticsMetricsSchema = responseSchema('AnalyticsMetrics', z.record(z.unknown()).describe('Analytics endpoints whose payload shape is not fixed yet'));
+
+/**
+ * What a value of type T becomes once serialized to JSON
+ */
+type Serialized<T> = T extends Date
+  ? string
+  : T extends Array<infer U>
+    ? Array<Serialized<U>>
+    : T extends object ? { [K in keyof T]: Serialized<T[K]> } : T;
+
+// Fields are compared by name as well: without strictNullChecks zod infers every field as optional
+type Describes<Schema extends ZodTypeAny, T> = [Serialized<T>] extends [z.infer<Schema>]
+  ? [Exclude<keyof T, keyof z.infer<Schema>> | Exclude<keyof z.infer<Schema>, keyof T>] extends [never] ? true : false
+  : false;
+
+type Assert<T extends true> = T;
+
+// Fails to compile when a backend model stops matching the schema that documents it
+export type ResponseSchemasMatchModels = [
+  Assert<Describes<typeof notificationPreferencesSchema, NotificationPreferences>>,
+  Assert<Describes<typeof privacySettingsSchema, PrivacySettings>>,
+  Assert<Describes<typeof userPreferencesSchema, UserPreferences>>,
+  Assert<Describes<typeof subscriptionTierSchema, SubscriptionTier>>,
+  Assert<Describes<typeof subscriptionLimitsSchema, SubscriptionLimits>>,
+  Assert<Describes<typeof userSubscriptionSchema, UserSubscription>>,
+  Assert<Describes<typeof userSchema, User>>,
+  Assert<Describes<typeof countedLimitSchema, CountedLimit>>,
+  Assert<Describes<typeof entitlementsSchema, Entitlements>>,
+  Assert<Describes<typeof chartDataPointSchema, ChartDataPoint>>,
+  Assert<Describes<typeof protocolDataSchema, ProtocolData>>,
+  Assert<Describes<typeof confirmationLevelSchema, ConfirmationLevel>>,
+  Assert<Describes<typeof transactionDataSchema, TransactionData>>,
+  Assert<Describes<typeof analyticsDataSchema, AnalyticsData>>,
+  Assert<Describes<typeof protocolPositionSchema, ProtocolPosition>>,
+  Assert<Describes<typeof vaultExchangeRateSchema, VaultExchangeRate>>,
+  Assert<Describes<typeof tellerDepositSchema, TellerDeposit>>,
+  Assert<Describes<typeof withdrawalQueueRequestSchema, WithdrawalQueueRequest>>,
+  Assert<Describes<typeof nucleusAccountSchema, NucleusAccount>>,
+  Assert<Describes<typeof nucleusRateHistorySchema, NucleusRateHistory>>,
+  Assert<Describes<typeof slashingRiskDataSchema, SlashingRiskData>>,
+  Assert<Describes<typeof liquidityRiskDataSchema, LiquidityRiskData>>,
+  Assert<Describes<typeof concentrationRiskDataSchema, ConcentrationRiskData>>,
+  Assert<Describes<typeof slashingEventSchema, SlashingEvent>>,
+  Assert<Describes<typeof validatorRiskSchema, ValidatorRisk>>,
+  Assert<Describes<typeof slashingConditionSchema, SlashingCondition>>,
+  Assert<Describes<typeof avsRiskMetricsSchema, AVSRiskMetrics>>,
+  Assert<Describes<typeof riskMetadataSchema, RiskMetadata>>,
+  Assert<Describes<typeof riskMetricsSchema, RiskMetrics>>,
+  Assert<Describes<typeof pegSampleSchema, PegSample>>,
+  Assert<Describes<typeof pegBreachSchema, PegBreach>>,
+  Assert<Describes<typeof pegStatusSchema, PegStatus>>,
+  Assert<Describes<typeof tokenPriceSchema, TokenPrice>>,
+  Assert<Describes<typeof alertThresholdsSchema, AlertThresholds>>,
+  Assert<Describes<typeof riskProfileSchema, RiskProfile>>,
+  Assert<Describes<typeof alertRuleMetricSchema, AlertRuleMetric>>,
+  Assert<Describes<typeof alertChannelSchema, AlertChannel>>,
+  Assert<Describes<typeof alertRuleSchema, AlertRule>>,
+  Assert<Describes<typeof riskAlertSchema, RiskAlert>>,
+  Assert<Describes<typeof positionSchema, Position>>,
+  Assert<Describes<typeof strategyFeesSchema, StrategyFees>>,
+  Assert<Describes<typeof strategyPerformanceSchema, StrategyPerformance>>,
+  Assert<Describes<typeof strategySchema, Strategy>>,
+  Assert<Describes<typeof performanceDataPointSchema, PerformanceDataPoint>>,
+  Assert<Describes<typeof performanceDataSchema, PerformanceData>>,
+  Assert<Describes<typeof recommendationSchema, Recommendation>>,
+  Assert<Describes<typeof portfolioDataSchema, PortfolioData>>,
+  Assert<Describes<typeof watchedWalletSchema, WatchedWallet>>,
+  Assert<Describes<typeof walletSummarySchema, WalletSummary>>,
+  Assert<Describes<typeof walletPortfolioSummarySchema, WalletPortfolioSummary>>,
+  Assert<Describes<typeof aggregatedPortfolioSchema, AggregatedPortfolio>>,
+  Assert<Describes<typeof walletRiskSummarySchema, WalletRiskSummary>>,
+  Assert<Describes<typeof aggregatedRiskMetricsSchema, AggregatedRiskMetrics>>,
+  Assert<Describes<typeof crossChainPositionSchema, CrossChainPosition>>,
+  Assert<Describes<typeof walletCrossChainPositionSchema, WalletCrossChainPosition>>,
+  Assert<Describes<typeof aggregatedCrossChainPositionsSchema, AggregatedCrossChainPositions>>,
+  Assert<Describes<typeof activityEventSchema, ActivityEvent>>,
+  Assert<Describes<typeof avsServiceSchema, AVSService>>,
+  Assert<Describes<typeof avsOperatorSchema, AVSOperator>>,
+  Assert<Describes<typeof rewardDistributionSchema, RewardDistribution>>,
+  Assert<Describes<typeof avsRewardsSchema, AVSRewards>>,
+  Assert<Describes<typeof avsMetricsSchema, AVSMetrics>>,
+  Assert<Describes<typeof bridgeOperationSchema, BridgeOperation>>,
+  Assert<Describes<typeof chainConfigSchema, ChainConfig>>,
+  Assert<Describes<typeof indexerStatusSchema, IndexerStatus>>,
+  Assert<Describes<typeof rpcEndpointMetricsSchema, RpcEndpointMetrics>>,
+  Assert<Describes<typeof rpcClientMetricsSchema, RpcClientMetrics>>,
+  Assert<Describes<typeof contractNameSchema, ContractName>>,
+  Assert<Describes<typeof contractsStatusSchema, ContractsStatus>>,
+  Assert<Describes<typeof vaultStrategySchema, VaultStrategy>>,
+  Assert<Describes<typeof vaultStateSchema, VaultState>>,
+  Assert<Describes<typeof vaultRiskProfileSchema, VaultRiskProfile>>,
+  Assert<Describes<typeof oracleRiskScoreSchema, OracleRiskScore>>,
+  Assert<Describes<typeof integrationAVSMetricsSchema, IntegrationAVSMetrics>>,
+  Assert<Describes<typeof integrationTokenMetricsSchema, IntegrationTokenMetrics>>,
+  Assert<Describes<typeof integrationMetricsSchema, IntegrationMetrics>>,
+  Assert<Describes<typeof bridgeRouteSchema, BridgeRoute>>,
+  Assert<Describes<typeof integrationBridgeStatusSchema, IntegrationBridgeStatus>>,
+  Assert<Describes<typeof siweChallengeSchema, SiweChallenge>>,
+  Assert<Describes<typeof authTokensSchema, AuthTokens>>,
+  Assert<Describes<typeof authResponseSchema, AuthResponse>>,
+  Assert<Describes<typeof userSessionSchema, UserSession>>,
+  Assert<Describes<typeof apiKeyScopeSchema, ApiKeyScope>>,
+  Assert<Describes<typeof apiKeyInfoSchema, ApiKeyInfo>>,
+  Assert<Describes<typeof dashboardWidgetTypeSchema, DashboardWidgetType>>,
+  Assert<Describes<typeof dashboardWidgetSchema, DashboardWidget>>,
+  Assert<Describes<typeof dashboardSchema, Dashboard>>,
+  Assert<Describes<typeof createdApiKeySchema, CreatedApiKey>>,
+  Assert<Describes<typeof timeRangeSchema, TimeRange>>,
+  Assert<Describes<typeof paidSubscriptionTierSchema, PaidSubscriptionTier>>,
+  Assert<Describes<typeof invoiceStatusSchema, InvoiceStatus>>,
+  Assert<Describes<typeof invoiceKindSchema, InvoiceKind>>,
+  Assert<Describes<typeof invoiceSchema, Invoice>>,
+  Assert<Describes<typeof organizationRoleSchema, OrganizationRole>>,
+  Assert<Describes<typeof organizationSchema, Organization>>,
+  Assert<Describes<typeof userDataExportSchema, UserDataExport>>,
+  Assert<Describes<typeof accountDeletionStatusSchema, AccountDeletionStatus>>,
+  Assert<Describes<typeof deletionReceiptSchema, DeletionReceipt>>,
+  Assert<Describes<typeof organizationInviteStatusSchema, OrganizationInviteStatus>>,
+  Assert<Describes<typeof organizationMemberSchema, OrganizationMember>>,
+  Assert<Describes<typeof watchedAddressSchema, WatchedAddress>>,
+  Assert<Describes<typeof organizationDetailsSchema, OrganizationDetails>>,
+  Assert<Describes<typeof organizationInviteSchema, OrganizationInvite>>
+];
@@ -0,0 +1,167 @@
+import { AccountDeletion as AccountDeletionRow, Prisma, PrismaClient } from '@prisma/client';
+import { AccountDeletionStatus, DeletionReceipt } from '../types';
+
+export interface AccountDeletionInput {
+  retentionDays: number;
+  dataRemaining: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AccountDeletionRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(id: string): Promise<AccountDeletionRow | null> {
+    return this.prisma.accountDeletion.findUnique({ where: { id } });
+  }
+
+  async findPendingForUser(userId: string): Promise<AccountDeletionRow | null> {
+    return this.prisma.accountDeletion.findFirst({ where: { userId, status: 'pending' } });
+  }
+
+  async create(userId: string, input: AccountDeletionInput): Promise<AccountDeletionRow> {
+    return this.prisma.accountDeletion.create({
+      data: {
+        userId,
+        subjectHash: '',
+        retentionDays: input.retentionDays,
+        dataRemaining: input.dataRemaining
+      }
+    });
+  }
+
+  async setSubjectHash(id: string, subjectHash: string): Promise<AccountDeletionRow> {
+    return this.prisma.accountDeletion.update({ where: { id }, data: { subjectHash } });
+  }
+
+  async listPending(limit: number): Promise<AccountDeletionRow[]> {
+    return this.prisma.accountDeletion.findMany({
+      where: { status: 'pending' },
+      orderBy: { requestedAt: 'asc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Completed erasures whose retention period is over and whose retained records are still stored
+   */
+  async listPurgeable(now: Date = new Date()): Promise<AccountDeletionRow[]> {
+    const rows = await this.prisma.accountDeletion.findMany({
+      where: { status: 'completed', purgedAt: null },
+      orderBy: { completedAt: 'asc' },
+      take: 100
+    });
+
+    return rows.filter(row => row.completedAt && row.completedAt.getTime() + row.retentionDays * DAY_MS <= now.getTime());
+  }
+
+  async markCompleted(id: string, erased: Record<string, number>, completedAt: Date, signature: string): Promise<AccountDeletionRow> {
+    return this.prisma.accountDeletion.update({
+      where: { id },
+      data: { status: 'completed', erased, completedAt, signature, lastError: null }
+    });
+  }
+
+  async recordFailure(id: string, error: string, giveUp: boolean): Promise<void> {
+    await this.prisma.accountDeletion.update({
+      where: { id },
+      data: {
+        attempts: { increment: 1 },
+        lastError: error,
+        ...(giveUp && { status: 'failed' })
+      }
+    });
+  }
+
+  async markPurged(id: string): Promise<void> {
+    await this.prisma.accountDeletion.update({ where: { id }, data: { purgedAt: new Date() } });
+  }
+
+  /**
+   * Delete the user's personal data and anonymize what is retained, in one transaction.
+   * Kept: own-wallet positions (anonymized metrics) and the on-chain references in activity, bridge
+   * operations and invoices. The user row stays as an anonymous anchor until the purge.
+   */
+  async eraseUserData(userId: string, deletionId: string): Promise<Record<string, number>> {
+    return this.prisma.$transaction(async tx => {
+      const erased: Record<string, number> = {};
+      const where = { userId };
+
+      erased.sessions = (await tx.session.deleteMany({ where })).count;
+      erased.apiKeys = (await tx.apiKey.deleteMany({ where })).count;
+      erased.preferences = (await tx.userPreferences.deleteMany({ where })).count;
+      erased.riskProfile = (await tx.riskProfile.deleteMany({ where })).count;
+      erased.strategies = (await tx.strategy.deleteMany({ where })).count;
+      erased.alerts = (await tx.riskAlert.deleteMany({ where })).count;
+      erased.alertRules = (await tx.alertRule.deleteMany({ where })).count;
+      erased.dashboards = (await tx.dashboard.deleteMany({ where })).count;
+      erased.recommendations = (await tx.recommendation.deleteMany({ where })).count;
+      erased.watchedWallets = (await tx.watchedWallet.deleteMany({ where })).count;
+      erased.watchedWalletPositions = (await tx.position.deleteMany({ where: { userId, walletAddress: { not: null } } })).count;
+
+      // Organizations lose access to the wallet; ones left without members go with it
+      const { address } = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { address: true } });
+      erased.organizationMemberships = (await tx.organizationMember.deleteMany({ where })).count;
+      erased.watchedAddresses = (await tx.organizationAddress.deleteMany({ where: { address } })).count;
+      erased.organizationInvites = (await tx.organizationInvite.deleteMany({ where: { address } })).count;
+      await tx.organization.deleteMany({ where: { members: { none: {} } } });
+      erased.activity = (await tx.activityEvent.deleteMany({ where: { userId, transactionHash: null } })).count;
+
+      erased.anonymizedActivity = (await tx.activityEvent.updateMany({
+        where,
+        data: { description: '', metadata: Prisma.DbNull }
+      })).count;
+      erased.anonymizedBridgeOperations = (await tx.bridgeOperation.updateMany({
+        where,
+        data: { recipient: '', error: null, metadata: Prisma.DbNull }
+      })).count;
+      await tx.invoice.updateMany({ where: { userId, status: 'pending' }, data: { status: 'cancelled' } });
+      erased.anonymizedInvoices = (await tx.invoice.updateMany({ where, data: { payerAddress: '' } })).count;
+
+      // The wallet address is unique; freeing it lets the same wallet sign up again as a new user
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          address: `erased:${deletionId}`,
+          email: null,
+          username: null,
+          avatar: null,
+          metadata: Prisma.DbNull,
+          isActive: false,
+          subscriptionTier: 'free',
+          subscriptionActive: false,
+          subscriptionExpiresAt: null
+        }
+      });
+      erased.profile = 1;
+
+      return erased;
+    });
+  }
+
+  /**
+   * Remove the anonymized user row; retained records go with it
+   */
+  async purgeUser(userId: string): Promise<void> {
+    await this.prisma.user.deleteMany({ where: { id: userId } });
+  }
+
+  toReceipt(row: AccountDeletionRow): DeletionReceipt {
+    return {
+      confirmationId: row.id,
+      status: row.status as AccountDeletionStatus,
+      requestedAt: row.requestedAt,
+      completedAt: row.completedAt || undefined,
+      retentionPeriod: row.retentionDays,
+      retainedUntil: row.completedAt ? new Date(row.completedAt.getTime() + row.retentionDays * DAY_MS) : undefined,
+      dataRemaining: row.dataRemaining,
+      erased: (row.erased as Record<string, number>) || undefined,
+      subjectHash: row.subjectHash,
+      signature: row.signature || undefined
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { Prisma, PrismaClient, ActivityEvent as ActivityEventRow } from '@prisma/client';
+import { ActivityEvent } from '../types';
+
+export interface ActivityFilters {
+  type?: string;
+  limit?: number;
+  offset?: number;
+  since?: Date;
+}
+
+export class ActivityRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async listForUser(userId: string, filters: ActivityFilters = {}): Promise<ActivityEvent[]> {
+    const rows = await this.prisma.activityEvent.findMany({
+      where: {
+        userId,
+        ...(filters.type && { type: filters.type }),
+        ...(filters.since && { createdAt: { gte: filters.since } })
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: filters.offset,
+      take: filters.limit
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  /**
+   * Count events per type, optionally restricted to a time window
+   */
+  async countByType(userId: string, since?: Date): Promise<Record<string, number>> {
+    const groups = await this.prisma.activityEvent.groupBy({
+      by: ['type'],
+      where: {
+        userId,
+        ...(since && { createdAt: { gte: since } })
+      },
+      _count: { _all: true }
+    });
+
+    return groups.reduce((counts, group) => {
+      counts[group.type] = group._count._all;
+      return counts;
+    }, {} as Record<string, number>);
+  }
+
+  async record(userId: string, event: Omit<ActivityEvent, 'id' | 'userId' | 'timestamp'>): Promise<ActivityEvent> {
+    const row = await this.prisma.activityEvent.create({
+      data: {
+        userId,
+        type: event.type,
+        description: event.description,
+        amount: event.amount,
+        token: event.token,
+        status: event.status,
+        severity: event.severity,
+        transactionHash: event.transactionHash,
+        metadata: event.metadata as Prisma.InputJsonObject | undefined
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  private toDomain(row: ActivityEventRow): ActivityEvent {
+    return {
+      id: row.id,
+      userId: row.userId,
+      type: row.type,
+      description: row.description,
+      amount: row.amount ?? undefined,
+      token: row.token || undefined,
+      status: row.status,
+      severity: row.severity || undefined,
+      transactionHash: row.transactionHash || undefined,
+      metadata: (row.metadata as Record<string, any>) || undefined,
+      timestamp: row.createdAt.getTime()
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { AlertRule as AlertRuleRow, PrismaClient } from '@prisma/client';
+import { AlertChannel, AlertRule, AlertRuleMetric } from '../types';
+
+export interface AlertRuleInput {
+  name: string;
+  metric: AlertRuleMetric;
+  threshold: number;
+  channels: AlertChannel[];
+}
+
+export class AlertRuleRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async listForUser(userId: string): Promise<AlertRule[]> {
+    const rows = await this.prisma.alertRule.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countForUser(userId: string): Promise<number> {
+    return this.prisma.alertRule.count({ where: { userId } });
+  }
+
+  async create(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+    const row = await this.prisma.alertRule.create({
+      data: {
+        userId,
+        name: input.name,
+        metric: input.metric,
+        threshold: input.threshold,
+        channels: input.channels
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.alertRule.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+
+  private toDomain(row: AlertRuleRow): AlertRule {
+    return {
+      id: row.id,
+      userId: row.userId,
+      name: row.name,
+      metric: row.metric as AlertRuleMetric,
+      threshold: row.threshold,
+      channels: row.channels as AlertChannel[],
+      isActive: row.isActive,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
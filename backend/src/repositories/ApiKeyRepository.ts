@@ -0,0 +1,126 @@
+import { ApiKey as ApiKeyRow, PrismaClient } from '@prisma/client';
+import { ApiKeyInfo, ApiKeyScope } from '../types';
+
+export type ApiKeyWithOwner = ApiKeyRow & { user: { address: string; isActive: boolean } };
+
+export interface ApiKeyInput {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  allowedIps: string[];
+  expiresAt?: Date;
+}
+
+export class ApiKeyRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(userId: string, id: string): Promise<ApiKeyRow | null> {
+    return this.prisma.apiKey.findFirst({ where: { id, userId } });
+  }
+
+  /**
+   * Look up a key by the hash of its full secret, with the owner fields authentication needs
+   */
+  async findByHash(keyHash: string): Promise<ApiKeyWithOwner | null> {
+    return this.prisma.apiKey.findUnique({
+      where: { keyHash },
+      include: { user: { select: { address: true, isActive: true } } }
+    });
+  }
+
+  async listActive(userId: string): Promise<ApiKeyInfo[]> {
+    const rows = await this.prisma.apiKey.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countActive(userId: string): Promise<number> {
+    return this.prisma.apiKey.count({
+      where: {
+        userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+      }
+    });
+  }
+
+  async create(userId: string, input: ApiKeyInput): Promise<ApiKeyInfo> {
+    const row = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: input.name,
+        prefix: input.prefix,
+        keyHash: input.keyHash,
+        scopes: input.scopes,
+        allowedIps: input.allowedIps,
+        expiresAt: input.expiresAt
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+
+  async revokeAll(userId: string): Promise<number> {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return count;
+  }
+
+  /**
+   * Let a rotated-out key keep working until the given time
+   */
+  async expireAt(userId: string, id: string, expiresAt: Date): Promise<boolean> {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { expiresAt }
+    });
+
+    return count > 0;
+  }
+
+  async recordUse(id: string, ipAddress?: string): Promise<void> {
+    await this.prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress }
+    });
+  }
+
+  toDomain(row: ApiKeyRow): ApiKeyInfo {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: row.scopes as ApiKeyScope[],
+      allowedIps: row.allowedIps,
+      createdAt: row.createdAt,
+      lastUsedAt: row.lastUsedAt || undefined,
+      lastUsedIp: row.lastUsedIp || undefined,
+      expiresAt: row.expiresAt || undefined,
+      revokedAt: row.revokedAt || undefined
+    };
+  }
+}
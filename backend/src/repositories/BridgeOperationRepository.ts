@@ -0,0 +1,105 @@
+import { Prisma, PrismaClient, BridgeOperation as BridgeOperationRow } from '@prisma/client';
+import { BridgeOperation } from '../types';
+
+export interface BridgeOperationFilters {
+  status?: string;
+  fromChain?: number;
+  toChain?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export class BridgeOperationRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(id: string): Promise<BridgeOperation | null> {
+    const row = await this.prisma.bridgeOperation.findUnique({ where: { id } });
+    return row ? this.toDomain(row) : null;
+  }
+
+  async listForUser(userId: string, filters: BridgeOperationFilters = {}): Promise<BridgeOperation[]> {
+    const rows = await this.prisma.bridgeOperation.findMany({
+      where: {
+        userId,
+        ...(filters.status && { status: filters.status }),
+        ...(filters.fromChain !== undefined && { fromChain: filters.fromChain }),
+        ...(filters.toChain !== undefined && { toChain: filters.toChain })
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: filters.offset,
+      take: filters.limit
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countForUser(userId: string): Promise<number> {
+    return this.prisma.bridgeOperation.count({ where: { userId } });
+  }
+
+  /**
+   * Persist a bridge operation returned by the bridge service
+   */
+  async create(operation: BridgeOperation): Promise<BridgeOperation> {
+    const row = await this.prisma.bridgeOperation.create({
+      data: {
+        id: operation.id,
+        userId: operation.userId,
+        fromChain: operation.fromChain,
+        toChain: operation.toChain,
+        token: operation.token,
+        amount: operation.amount,
+        recipient: operation.recipient,
+        status: operation.status,
+        transactionHash: operation.transactionHash,
+        destinationHash: operation.destinationHash,
+        fee: operation.fee,
+        estimatedTime: operation.estimatedTime,
+        actualTime: operation.actualTime,
+        error: operation.error,
+        metadata: operation.metadata as Prisma.InputJsonObject | undefined,
+        createdAt: new Date(operation.timestamp)
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  async updateStatus(
+    id: string,
+    status: BridgeOperation['status'],
+    updates: Partial<Pick<BridgeOperation, 'transactionHash' | 'destinationHash' | 'actualTime' | 'error'>> = {}
+  ): Promise<BridgeOperation> {
+    const row = await this.prisma.bridgeOperation.update({
+      where: { id },
+      data: { status, ...updates }
+    });
+
+    return this.toDomain(row);
+  }
+
+  private toDomain(row: BridgeOperationRow): BridgeOperation {
+    return {
+      id: row.id,
+      userId: row.userId,
+      fromChain: row.fromChain,
+      toChain: row.toChain,
+      token: row.token,
+      amount: row.amount,
+      recipient: row.recipient,
+      status: row.status as BridgeOperation['status'],
+      transactionHash: row.transactionHash || undefined,
+      destinationHash: row.destinationHash || undefined,
+      fee: row.fee,
+      estimatedTime: row.estimatedTime,
+      actualTime: row.actualTime ?? undefined,
+      timestamp: row.createdAt.getTime(),
+      error: row.error || undefined,
+      metadata: (row.metadata as Record<string, any>) || undefined
+    };
+  }
+}
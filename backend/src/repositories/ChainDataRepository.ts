@@ -0,0 +1,670 @@
+import {
+  BridgeMessage as BridgeMessageRow,
+  ChainEvent as ChainEventRow,
+  IndexerCursor as IndexerCursorRow,
+  Prisma,
+  PrismaClient,
+  VaultExchangeRate as VaultExchangeRateRow
+} from '@prisma/client';
+import { formatUnits } from 'viem';
+import { normalizeAddress } from '../utils/address';
+import { TOKEN_SYMBOLS } from '../utils/chains';
+import {
+  BridgeMessage,
+  BridgeMessageStatus,
+  ConfirmationLevel,
+  TellerDeposit,
+  TransactionData,
+  VaultBalance,
+  VaultExchangeRate,
+  WithdrawalQueueRequest
+} from '../types';
+
+export type ChainEventType = 'deposit' | 'withdraw' | 'bridge';
+
+interface LogPosition {
+  chainId: number;
+  blockNumber: bigint;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface ChainEventRecord extends LogPosition {
+  contract: string;
+  contractName: string;
+  event: string;
+  type: ChainEventType | null;
+  account?: string;
+  /** Token address; undefined for ETH */
+  token?: string;
+  amount?: string;
+  /** Decimals of `amount`; undefined when the token doesn't report them */
+  decimals?: number;
+  reference?: string;
+  args: Record<string, unknown>;
+  timestamp: Date;
+}
+
+export interface VaultFlowRecord extends LogPosition {
+  vault: string;
+  account: string;
+  asset: string;
+  amount: string;
+  shares: string;
+  timestamp: Date;
+}
+
+export interface ExchangeRateRecord extends LogPosition {
+  accountant: string;
+  rate: string;
+  timestamp: Date;
+}
+
+export interface BridgeMessageRecord {
+  direction: BridgeMessage['direction'];
+  sourceChainId: number;
+  destinationChainId: number;
+  sender: string;
+  recipient: string;
+  token?: string;
+  amount: string;
+  withdrawalHash?: string;
+  blockNumber: bigint;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  initiatedAt: Date;
+}
+
+/** Everything decoded from one block range of one chain */
+export interface ChainEventBatch {
+  events: ChainEventRecord[];
+  deposits: VaultFlowRecord[];
+  withdrawals: VaultFlowRecord[];
+  exchangeRates: ExchangeRateRecord[];
+  bridgeMessages: BridgeMessageRecord[];
+}
+
+export interface BlockHeader {
+  number: bigint;
+  hash: string;
+  parentHash: string;
+}
+
+export interface ChainCursor {
+  chainId: number;
+  blockNumber: bigint;
+  blockHash: string;
+  safeBlockNumber: bigint;
+  finalizedBlockNumber: bigint;
+  updatedAt: Date;
+}
+
+export interface ChainCheckpoint {
+  blockNumber: bigint;
+  blockHash: string;
+  safeBlockNumber: bigint;
+  finalizedBlockNumber: bigint;
+  /** Headers of the blocks in the batch that are not final yet */
+  blocks: BlockHeader[];
+}
+
+/** Amount of one token moved on one chain, in token units */
+export interface TokenVolume {
+  chainId: number;
+  /** Token symbol, or its address when the symbol is unknown */
+  token: string;
+  amount: number;
+}
+
+export interface TransactionFilter {
+  chainId?: number;
+  since?: Date;
+  type?: string;
+  limit: number;
+}
+
+// OptimismPortal events that settle a withdrawal on L1
+const WITHDRAWAL_PROVEN = 'WithdrawalProven';
+const WITHDRAWAL_FINALIZED = 'WithdrawalFinalized';
+
+const NUCLEUS_TELLER = 'NUCLEUS_TELLER';
+const NUCLEUS_ATOMIC_QUEUE = 'NUCLEUS_ATOMIC_QUEUE';
+
+const symbolOf = (token: string | null): string => token ? TOKEN_SYMBOLS[token] || token : 'ETH';
+
+const CONFIRMATION_RANK: Record<ConfirmationLevel, number> = { unconfirmed: 0, safe: 1, finalized: 2 };
+
+type ConfirmationOf = (chainId: number, blockNumber: bigint) => ConfirmationLevel;
+
+/**
+ * Storage for the chain indexer's output and the read models built on it
+ */
+export class ChainDataRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async getCursor(chainId: number): Promise<ChainCursor | null> {
+    const row = await this.prisma.indexerCursor.findUnique({ where: { chainId } });
+    return row ? this.toCursor(row) : null;
+  }
+
+  async listCursors(): Promise<ChainCursor[]> {
+    const rows = await this.prisma.indexerCursor.findMany({ orderBy: { chainId: 'asc' } });
+    return rows.map(row => this.toCursor(row));
+  }
+
+  /**
+   * Tracked headers of a chain's non-final blocks, newest first
+   */
+  async listIndexedBlocks(chainId: number): Promise<BlockHeader[]> {
+    return this.prisma.indexedBlock.findMany({
+      where: { chainId },
+      orderBy: { number: 'desc' },
+      select: { number: true, hash: true, parentHash: true }
+    });
+  }
+
+  /**
+   * Store a decoded block range and advance the chain's cursor in one transaction.
+   * Rows already present are skipped, so replaying a range is harmless.
+   */
+  async saveBatch(chainId: number, batch: ChainEventBatch, checkpoint: ChainCheckpoint): Promise<void> {
+    const { blocks, ...cursor } = checkpoint;
+
+    await this.prisma.$transaction(async tx => {
+      if (blocks.length > 0) {
+        await tx.indexedBlock.createMany({
+          data: blocks.map(block => ({ chainId, ...block })),
+          skipDuplicates: true
+        });
+      }
+      // The final block stays as the anchor a reorg search can stop at
+      await tx.indexedBlock.deleteMany({ where: { chainId, number: { lt: cursor.finalizedBlockNumber } } });
+
+      if (batch.events.length > 0) {
+        await tx.chainEvent.createMany({
+          data: batch.events.map(event => ({ ...event, args: event.args as Prisma.InputJsonObject })),
+          skipDuplicates: true
+        });
+      }
+      if (batch.deposits.length > 0) {
+        await tx.vaultDeposit.createMany({ data: batch.deposits, skipDuplicates: true });
+      }
+      if (batch.withdrawals.length > 0) {
+        await tx.vaultWithdrawal.createMany({ data: batch.withdrawals, skipDuplicates: true });
+      }
+      if (batch.exchangeRates.length > 0) {
+        await tx.vaultExchangeRate.createMany({ data: batch.exchangeRates, skipDuplicates: true });
+      }
+      if (batch.bridgeMessages.length > 0) {
+        await tx.bridgeMessage.createMany({ data: batch.bridgeMessages, skipDuplicates: true });
+      }
+
+      const previous = await tx.indexerCursor.findUnique({ where: { chainId } });
+      await tx.indexerCursor.upsert({
+        where: { chainId },
+        create: { chainId, ...cursor },
+        update: cursor
+      });
+
+      // Proofs can be indexed on L1 before the L2 side catches up, so settle from both directions.
+      // Proofs only count once safe, so also settle the ones that just crossed the safe depth.
+      const withdrawalHashes = new Set<string>();
+      for (const message of batch.bridgeMessages) {
+        if (message.withdrawalHash) withdrawalHashes.add(message.withdrawalHash);
+      }
+      const newlySafe = await tx.chainEvent.findMany({
+        where: {
+          chainId,
+          event: { in: [WITHDRAWAL_PROVEN, WITHDRAWAL_FINALIZED] },
+          blockNumber: { gt: previous ? previous.safeBlockNumber : -1n, lte: cursor.safeBlockNumber }
+        },
+        select: { reference: true }
+      });
+      for (const event of newlySafe) {
+        if (event.reference) withdrawalHashes.add(event.reference);
+      }
+      if (withdrawalHashes.size > 0) {
+        await this.settleWithdrawals(tx, Array.from(withdrawalHashes));
+      }
+    }, { timeout: 30000 });
+  }
+
+  /**
+   * Undo everything indexed on a chain above `ancestor` after a reorg and move the cursor back to it.
+   * Withdrawals whose proofs were orphaned fall back to the status their remaining proofs support, and
+   * bridge operations sent or delivered in an orphaned transaction go back to pending.
+   * Vault positions need no separate step: they are summed from the vault flows at read time
+   * (see getVaultBalances), and `positions` rows are tracked by users, not built from blocks.
+   * Returns the number of events removed.
+   */
+  async rollback(chainId: number, ancestor: { number: bigint; hash: string }): Promise<number> {
+    const orphaned = { chainId, blockNumber: { gt: ancestor.number } };
+
+    return this.prisma.$transaction(async tx => {
+      const proofs = await tx.chainEvent.findMany({
+        where: { ...orphaned, event: { in: [WITHDRAWAL_PROVEN, WITHDRAWAL_FINALIZED] } },
+        select: { reference: true }
+      });
+      const orphanedTxs = await tx.chainEvent.findMany({ where: orphaned, select: { txHash: true }, distinct: ['txHash'] });
+      const txHashes = orphanedTxs.map(event => event.txHash);
+
+      const { count } = await tx.chainEvent.deleteMany({ where: orphaned });
+      await tx.vaultDeposit.deleteMany({ where: orphaned });
+      await tx.vaultWithdrawal.deleteMany({ where: orphaned });
+      await tx.vaultExchangeRate.deleteMany({ where: orphaned });
+      await tx.bridgeMessage.deleteMany({ where: { sourceChainId: chainId, blockNumber: { gt: ancestor.number } } });
+      await tx.indexedBlock.deleteMany({ where: { chainId, number: { gt: ancestor.number } } });
+
+      const cursor = await tx.indexerCursor.findUnique({ where: { chainId } });
+      if (cursor) {
+        await tx.indexerCursor.update({
+          where: { chainId },
+          data: {
+            blockNumber: ancestor.number,
+            blockHash: ancestor.hash,
+            safeBlockNumber: cursor.safeBlockNumber < ancestor.number ? cursor.safeBlockNumber : ancestor.number,
+            finalizedBlockNumber: cursor.finalizedBlockNumber < ancestor.number ? cursor.finalizedBlockNumber : ancestor.number
+          }
+        });
+      }
+
+      if (txHashes.length > 0) {
+        await this.reopenBridgeOperations(tx, chainId, txHashes);
+      }
+
+      const withdrawalHashes = Array.from(new Set(proofs.map(event => event.reference).filter(Boolean))) as string[];
+      if (withdrawalHashes.length > 0) {
+        await this.settleWithdrawals(tx, withdrawalHashes);
+      }
+
+      return count;
+    }, { timeout: 30000 });
+  }
+
+  /**
+   * User-facing activity (deposits, withdrawals and bridge transfers), newest first
+   */
+  async listTransactions(filter: TransactionFilter): Promise<TransactionData[]> {
+    const confirmationOf = await this.confirmationResolver();
+    const rows = await this.prisma.chainEvent.findMany({
+      where: {
+        type: filter.type ? filter.type : { not: null },
+        ...(filter.chainId !== undefined && { chainId: filter.chainId }),
+        ...(filter.since && { timestamp: { gte: filter.since } })
+      },
+      orderBy: [{ timestamp: 'desc' }, { logIndex: 'desc' }],
+      take: filter.limit
+    });
+
+    return rows.map(row => this.toTransaction(row, confirmationOf));
+  }
+
+  /**
+   * Distinct accounts with user-facing activity before `until`, overall and per chain
+   */
+  async countActiveAccounts(until: Date): Promise<{ total: number; byChain: Record<number, number> }> {
+    const groups = await this.prisma.chainEvent.groupBy({
+      by: ['chainId', 'account'],
+      where: { type: { not: null }, account: { not: null }, timestamp: { lt: until } }
+    });
+
+    const byChain: Record<number, number> = {};
+    for (const group of groups) {
+      byChain[group.chainId] = (byChain[group.chainId] || 0) + 1;
+    }
+    return { total: new Set(groups.map(group => group.account)).size, byChain };
+  }
+
+  /**
+   * Amount moved by user-facing activity in [since, until) per chain and token, in token units.
+   * Amounts in tokens whose decimals are unknown are left out.
+   */
+  async sumVolume(since: Date, until: Date): Promise<TokenVolume[]> {
+    const rows = await this.prisma.chainEvent.findMany({
+      where: { type: { not: null }, amount: { not: null }, decimals: { not: null }, timestamp: { gte: since, lt: until } },
+      select: { chainId: true, token: true, amount: true, decimals: true }
+    });
+
+    // Raw amounts only add up within the same token and number of decimals
+    const totals = new Map<string, { chainId: number; token: string | null; decimals: number; total: bigint }>();
+    for (const row of rows) {
+      const key = `${row.chainId}:${row.token}:${row.decimals}`;
+      const entry = totals.get(key) || { chainId: row.chainId, token: row.token, decimals: row.decimals as number, total: 0n };
+      entry.total += BigInt(row.amount as string);
+      totals.set(key, entry);
+    }
+
+    const volumes = new Map<string, TokenVolume>();
+    for (const { chainId, token, decimals, total } of Array.from(totals.values())) {
+      const symbol = symbolOf(token);
+      const volume = volumes.get(`${chainId}:${symbol}`) || { chainId, token: symbol, amount: 0 };
+      volume.amount += Number(formatUnits(total, decimals));
+      volumes.set(`${chainId}:${symbol}`, volume);
+    }
+    return Array.from(volumes.values());
+  }
+
+  /**
+   * Net vault shares per vault for an account; vaults it has fully exited are omitted.
+   * `minConfirmation` ignores flows from blocks that are not yet that deep.
+   */
+  async getVaultBalances(account: string, options: { minConfirmation?: ConfirmationLevel } = {}): Promise<VaultBalance[]> {
+    const address = normalizeAddress(account);
+    const confirmationOf = await this.confirmationResolver();
+    const minRank = CONFIRMATION_RANK[options.minConfirmation || 'unconfirmed'];
+    const select = { chainId: true, vault: true, amount: true, shares: true, blockNumber: true, timestamp: true };
+    const [deposits, withdrawals] = await Promise.all([
+      this.prisma.vaultDeposit.findMany({ where: { account: address }, select }),
+      this.prisma.vaultWithdrawal.findMany({ where: { account: address }, select })
+    ]);
+
+    const balances = new Map<string, {
+      chainId: number;
+      vault: string;
+      shares: bigint;
+      assets: bigint;
+      lastUpdate: Date;
+      confirmation: ConfirmationLevel;
+    }>();
+    const apply = (flow: typeof deposits[number], sign: bigint) => {
+      const confirmation = confirmationOf(flow.chainId, flow.blockNumber);
+      if (CONFIRMATION_RANK[confirmation] < minRank) return;
+
+      const key = `${flow.chainId}:${flow.vault}`;
+      const balance = balances.get(key) || {
+        chainId: flow.chainId,
+        vault: flow.vault,
+        shares: 0n,
+        assets: 0n,
+        lastUpdate: flow.timestamp,
+        confirmation
+      };
+      balance.shares += sign * BigInt(flow.shares);
+      balance.assets += sign * BigInt(flow.amount);
+      if (flow.timestamp > balance.lastUpdate) balance.lastUpdate = flow.timestamp;
+      if (CONFIRMATION_RANK[confirmation] < CONFIRMATION_RANK[balance.confirmation]) balance.confirmation = confirmation;
+      balances.set(key, balance);
+    };
+    deposits.forEach(flow => apply(flow, 1n));
+    withdrawals.forEach(flow => apply(flow, -1n));
+
+    return Array.from(balances.values())
+      .filter(balance => balance.shares > 0n)
+      .map(balance => ({
+        chainId: balance.chainId,
+        vault: balance.vault,
+        account: address,
+        shares: balance.shares.toString(),
+        assets: (balance.assets > 0n ? balance.assets : 0n).toString(),
+        lastUpdate: balance.lastUpdate,
+        confirmation: balance.confirmation
+      }));
+  }
+
+  /**
+   * Arguments of the most recent occurrence of an event, e.g. an accountant's latest exchange rate
+   */
+  async findLatestEventArgs(chainId: number, contractName: string, event: string): Promise<Record<string, unknown> | null> {
+    const row = await this.prisma.chainEvent.findFirst({
+      where: { chainId, contractName, event },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+    });
+
+    return row ? row.args as Record<string, unknown> : null;
+  }
+
+  /**
+   * An accountant's rate updates since `since`, oldest first. The last update before `since` leads
+   * the list, since it is the rate that was in effect when the window opened.
+   */
+  async listExchangeRates(chainId: number, accountant: string, since: Date): Promise<VaultExchangeRate[]> {
+    const where = { chainId, accountant: normalizeAddress(accountant) };
+    const confirmationOf = await this.confirmationResolver();
+    const [opening, rows] = await Promise.all([
+      this.prisma.vaultExchangeRate.findFirst({
+        where: { ...where, timestamp: { lt: since } },
+        orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+      }),
+      this.prisma.vaultExchangeRate.findMany({
+        where: { ...where, timestamp: { gte: since } },
+        orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }]
+      })
+    ]);
+
+    return (opening ? [opening, ...rows] : rows).map(row => this.toExchangeRate(row, confirmationOf));
+  }
+
+  /**
+   * Nucleus Teller deposits credited to an account, newest first
+   */
+  async listTellerDeposits(account: string): Promise<TellerDeposit[]> {
+    const address = normalizeAddress(account);
+    const confirmationOf = await this.confirmationResolver();
+    const rows = await this.prisma.chainEvent.findMany({
+      where: { contractName: NUCLEUS_TELLER, event: { in: ['Deposit', 'DepositRefunded'] }, account: address },
+      orderBy: [{ blockNumber: 'desc' }, { logIndex: 'desc' }]
+    });
+    const refunded = new Set(rows.filter(row => row.event === 'DepositRefunded').map(row => `${row.chainId}:${this.argsOf(row).nonce}`));
+
+    return rows.filter(row => row.event === 'Deposit').map(row => {
+      const args = this.argsOf(row);
+      const depositedAt = Number(args.depositTimestamp);
+      return {
+        nonce: args.nonce as string,
+        txHash: row.txHash,
+        asset: row.token as string,
+        amount: row.amount as string,
+        shares: args.shareAmount as string,
+        timestamp: row.timestamp,
+        unlocksAt: new Date((depositedAt + Number(args.shareLockPeriodAtTimeOfDeposit)) * 1000),
+        refunded: refunded.has(`${row.chainId}:${args.nonce}`),
+        confirmation: confirmationOf(row.chainId, row.blockNumber)
+      };
+    });
+  }
+
+  /**
+   * An account's open Nucleus atomic-queue requests. Each update event carries the request's full
+   * state and each fill spends part of it, so replaying them in chain order gives the current book.
+   */
+  async listWithdrawalRequests(account: string): Promise<WithdrawalQueueRequest[]> {
+    const address = normalizeAddress(account);
+    const confirmationOf = await this.confirmationResolver();
+    const rows = await this.prisma.chainEvent.findMany({
+      where: { contractName: NUCLEUS_ATOMIC_QUEUE, account: address },
+      orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }]
+    });
+
+    const requests = new Map<string, Omit<WithdrawalQueueRequest, 'amount' | 'status'> & { amount: bigint }>();
+    for (const row of rows) {
+      const args = this.argsOf(row);
+      const key = `${row.chainId}:${args.offerToken}:${args.wantToken}`;
+      const confirmation = confirmationOf(row.chainId, row.blockNumber);
+
+      if (row.event === 'AtomicRequestUpdated') {
+        requests.set(key, {
+          offerToken: normalizeAddress(args.offerToken as string),
+          wantToken: normalizeAddress(args.wantToken as string),
+          amount: BigInt(args.amount as string),
+          minPrice: args.minPrice as string,
+          deadline: new Date(Number(args.deadline) * 1000),
+          requestedAt: row.timestamp,
+          confirmation
+        });
+      } else if (row.event === 'AtomicRequestFulfilled') {
+        const request = requests.get(key);
+        if (!request) continue;
+        const remaining = request.amount - BigInt(args.offerAmountSpent as string);
+        request.amount = remaining > 0n ? remaining : 0n;
+        if (CONFIRMATION_RANK[confirmation] < CONFIRMATION_RANK[request.confirmation]) request.confirmation = confirmation;
+      }
+    }
+
+    const now = Date.now();
+    return Array.from(requests.values())
+      .filter(request => request.amount > 0n)
+      .map(request => ({
+        ...request,
+        amount: request.amount.toString(),
+        status: request.deadline.getTime() > now ? 'pending' as const : 'expired' as const
+      }));
+  }
+
+  /**
+   * Bridge transfers sent or received by an address; `pending` limits to ones not yet settled
+   */
+  async listBridgeMessages(account: string, options: { pending?: boolean } = {}): Promise<BridgeMessage[]> {
+    const address = normalizeAddress(account);
+    const confirmationOf = await this.confirmationResolver();
+    const rows = await this.prisma.bridgeMessage.findMany({
+      where: {
+        OR: [{ sender: address }, { recipient: address }],
+        ...(options.pending && { status: { in: ['initiated', 'proven'] } })
+      },
+      orderBy: { initiatedAt: 'desc' }
+    });
+
+    return rows.map(row => this.toBridgeMessage(row, confirmationOf));
+  }
+
+  /**
+   * Put bridge operations whose source or delivery transaction was orphaned on `chainId` back to pending.
+   * The delivery is cleared as well when the source goes, since it can no longer stand on its own.
+   */
+  private async reopenBridgeOperations(tx: Prisma.TransactionClient, chainId: number, txHashes: string[]): Promise<void> {
+    await tx.bridgeOperation.updateMany({
+      where: { fromChain: chainId, transactionHash: { in: txHashes }, status: { not: 'cancelled' } },
+      data: { status: 'pending', destinationHash: null, actualTime: null, error: null }
+    });
+    await tx.bridgeOperation.updateMany({
+      where: { toChain: chainId, destinationHash: { in: txHashes }, status: { not: 'cancelled' } },
+      data: { status: 'pending', destinationHash: null, actualTime: null }
+    });
+  }
+
+  /**
+   * Derive withdrawal status from the proof and finalization events that have reached the safe depth,
+   * so a proof in a block that is later orphaned never advances a withdrawal
+   */
+  private async settleWithdrawals(tx: Prisma.TransactionClient, withdrawalHashes: string[]): Promise<void> {
+    const [events, cursors] = await Promise.all([
+      tx.chainEvent.findMany({
+        where: { reference: { in: withdrawalHashes }, event: { in: [WITHDRAWAL_PROVEN, WITHDRAWAL_FINALIZED] } },
+        orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }]
+      }),
+      tx.indexerCursor.findMany()
+    ]);
+    const safeEvents = events.filter(event => {
+      const cursor = cursors.find(candidate => candidate.chainId === event.chainId);
+      return cursor !== undefined && event.blockNumber <= cursor.safeBlockNumber;
+    });
+
+    for (const withdrawalHash of withdrawalHashes) {
+      const related = safeEvents.filter(event => event.reference === withdrawalHash);
+      const proven = related.filter(event => event.event === WITHDRAWAL_PROVEN).pop();
+      const finalized = related.filter(event => event.event === WITHDRAWAL_FINALIZED).pop();
+
+      let status: BridgeMessageStatus = 'initiated';
+      if (finalized) {
+        status = (finalized.args as Record<string, unknown>).success === false ? 'failed' : 'finalized';
+      } else if (proven) {
+        status = 'proven';
+      }
+
+      await tx.bridgeMessage.updateMany({
+        where: { withdrawalHash },
+        data: {
+          status,
+          provenAt: proven ? proven.timestamp : null,
+          finalizedAt: finalized ? finalized.timestamp : null,
+          finalizeTxHash: finalized ? finalized.txHash : null
+        }
+      });
+    }
+  }
+
+  /**
+   * Snapshot of every chain's safe and final block, for labelling records read in one query
+   */
+  private async confirmationResolver(): Promise<ConfirmationOf> {
+    const cursors = await this.prisma.indexerCursor.findMany();
+
+    return (chainId, blockNumber) => {
+      const cursor = cursors.find(candidate => candidate.chainId === chainId);
+      if (!cursor) return 'unconfirmed';
+      if (blockNumber <= cursor.finalizedBlockNumber) return 'finalized';
+      if (blockNumber <= cursor.safeBlockNumber) return 'safe';
+      return 'unconfirmed';
+    };
+  }
+
+  private toCursor(row: IndexerCursorRow): ChainCursor {
+    return {
+      chainId: row.chainId,
+      blockNumber: row.blockNumber,
+      blockHash: row.blockHash,
+      safeBlockNumber: row.safeBlockNumber,
+      finalizedBlockNumber: row.finalizedBlockNumber,
+      updatedAt: row.updatedAt
+    };
+  }
+
+  private argsOf(row: ChainEventRow): Record<string, unknown> {
+    return row.args as Record<string, unknown>;
+  }
+
+  private toExchangeRate(row: VaultExchangeRateRow, confirmationOf: ConfirmationOf): VaultExchangeRate {
+    return {
+      chainId: row.chainId,
+      accountant: row.accountant,
+      rate: row.rate,
+      blockNumber: Number(row.blockNumber),
+      timestamp: row.timestamp,
+      confirmation: confirmationOf(row.chainId, row.blockNumber)
+    };
+  }
+
+  private toTransaction(row: ChainEventRow, confirmationOf: ConfirmationOf): TransactionData {
+    return {
+      id: `${row.chainId}:${row.txHash}:${row.logIndex}`,
+      hash: row.txHash,
+      type: row.type as TransactionData['type'],
+      amount: row.amount && row.decimals !== null ? Number(formatUnits(BigInt(row.amount), row.decimals)) : 0,
+      token: symbolOf(row.token),
+      user: row.account || '',
+      timestamp: row.timestamp.getTime(),
+      status: 'confirmed',
+      blockNumber: Number(row.blockNumber),
+      chainId: row.chainId,
+      confirmation: confirmationOf(row.chainId, row.blockNumber)
+    };
+  }
+
+  private toBridgeMessage(row: BridgeMessageRow, confirmationOf: ConfirmationOf): BridgeMessage {
+    return {
+      id: row.id,
+      direction: row.direction as BridgeMessage['direction'],
+      status: row.status as BridgeMessageStatus,
+      sourceChainId: row.sourceChainId,
+      destinationChainId: row.destinationChainId,
+      sender: row.sender,
+      recipient: row.recipient,
+      token: row.token || undefined,
+      amount: row.amount,
+      withdrawalHash: row.withdrawalHash || undefined,
+      txHash: row.txHash,
+      blockNumber: Number(row.blockNumber),
+      initiatedAt: row.initiatedAt,
+      provenAt: row.provenAt || undefined,
+      finalizedAt: row.finalizedAt || undefined,
+      finalizeTxHash: row.finalizeTxHash || undefined,
+      confirmation: confirmationOf(row.sourceChainId, row.blockNumber)
+    };
+  }
+}
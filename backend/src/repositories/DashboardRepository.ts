@@ -0,0 +1,76 @@
+import { Dashboard as DashboardRow, Prisma, PrismaClient } from '@prisma/client';
+import { Dashboard, DashboardWidget } from '../types';
+
+export interface DashboardInput {
+  name: string;
+  widgets: DashboardWidget[];
+}
+
+export class DashboardRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async listForUser(userId: string): Promise<Dashboard[]> {
+    const rows = await this.prisma.dashboard.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countForUser(userId: string): Promise<number> {
+    return this.prisma.dashboard.count({ where: { userId } });
+  }
+
+  async create(userId: string, input: DashboardInput): Promise<Dashboard> {
+    const row = await this.prisma.dashboard.create({
+      data: {
+        userId,
+        name: input.name,
+        widgets: input.widgets as unknown as Prisma.InputJsonArray
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  /**
+   * Update a dashboard owned by the user; returns null when it doesn't exist
+   */
+  async update(userId: string, id: string, updates: Partial<DashboardInput>): Promise<Dashboard | null> {
+    const { count } = await this.prisma.dashboard.updateMany({
+      where: { id, userId },
+      data: {
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(updates.widgets !== undefined && { widgets: updates.widgets as unknown as Prisma.InputJsonArray })
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const row = await this.prisma.dashboard.findUniqueOrThrow({ where: { id } });
+    return this.toDomain(row);
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.dashboard.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+
+  private toDomain(row: DashboardRow): Dashboard {
+    return {
+      id: row.id,
+      userId: row.userId,
+      name: row.name,
+      widgets: row.widgets as unknown as DashboardWidget[],
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { Invoice as InvoiceRow, PrismaClient } from '@prisma/client';
+import { Invoice, InvoiceKind, InvoiceStatus, PaidSubscriptionTier, PaymentToken } from '../types';
+
+export interface InvoiceInput {
+  tier: PaidSubscriptionTier;
+  kind: InvoiceKind;
+  periodDays: number;
+  amount: string;
+  token: PaymentToken;
+  chainId: number;
+  receiver: string;
+  payerAddress: string;
+  startBlock: bigint;
+  expiresAt: Date;
+}
+
+export interface InvoicePayment {
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  paidAmount: string;
+  paidAt: Date;
+}
+
+export class InvoiceRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(userId: string, id: string): Promise<InvoiceRow | null> {
+    return this.prisma.invoice.findFirst({ where: { id, userId } });
+  }
+
+  async listForUser(userId: string, limit?: number): Promise<Invoice[]> {
+    const rows = await this.prisma.invoice.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  /**
+   * Invoices still waiting for a transfer, oldest first. Includes ones past their expiry
+   * that haven't been swept yet, since a payment may have landed before they expired.
+   */
+  async listPending(chainId: number, tokenAddress: string, receiver: string): Promise<InvoiceRow[]> {
+    return this.prisma.invoice.findMany({
+      where: { status: 'pending', chainId, tokenAddress, receiver },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async hasPending(userId: string): Promise<boolean> {
+    const count = await this.prisma.invoice.count({
+      where: { userId, status: 'pending', expiresAt: { gt: new Date() } }
+    });
+
+    return count > 0;
+  }
+
+  async create(userId: string, input: InvoiceInput): Promise<InvoiceRow> {
+    return this.prisma.invoice.create({
+      data: {
+        userId,
+        tier: input.tier,
+        kind: input.kind,
+        periodDays: input.periodDays,
+        amount: input.amount,
+        tokenAddress: input.token.address,
+        tokenSymbol: input.token.symbol,
+        tokenDecimals: input.token.decimals,
+        chainId: input.chainId,
+        receiver: input.receiver,
+        payerAddress: input.payerAddress,
+        startBlock: input.startBlock,
+        expiresAt: input.expiresAt
+      }
+    });
+  }
+
+  /**
+   * Cancel the user's open invoices, e.g. when they request a different one
+   */
+  async cancelPending(userId: string): Promise<number> {
+    const { count } = await this.prisma.invoice.updateMany({
+      where: { userId, status: 'pending' },
+      data: { status: 'cancelled' }
+    });
+
+    return count;
+  }
+
+  /**
+   * Settle a pending invoice. Returns false if it was already settled, expired or cancelled.
+   */
+  async markPaid(id: string, payment: InvoicePayment): Promise<boolean> {
+    const { count } = await this.prisma.invoice.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'paid',
+        txHash: payment.txHash,
+        logIndex: payment.logIndex,
+        blockNumber: payment.blockNumber,
+        paidAmount: payment.paidAmount,
+        paidAt: payment.paidAt
+      }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Whether a Transfer log has already settled an invoice. Invoices paid before log indexes
+   * were recorded have none, and count as having used every transfer in their transaction.
+   */
+  async isTransferUsed(txHash: string, logIndex: number): Promise<boolean> {
+    const count = await this.prisma.invoice.count({
+      where: { txHash, OR: [{ logIndex }, { logIndex: null }] }
+    });
+    return count > 0;
+  }
+
+  /**
+   * Mark the given invoices expired, skipping any that were settled in the meantime
+   */
+  async expirePending(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const { count } = await this.prisma.invoice.updateMany({
+      where: { id: { in: ids }, status: 'pending' },
+      data: { status: 'expired' }
+    });
+
+    return count;
+  }
+
+  toDomain(row: InvoiceRow): Invoice {
+    return {
+      id: row.id,
+      tier: row.tier as PaidSubscriptionTier,
+      kind: row.kind as InvoiceKind,
+      status: row.status as InvoiceStatus,
+      periodDays: row.periodDays,
+      amount: row.amount,
+      token: { address: row.tokenAddress, symbol: row.tokenSymbol, decimals: row.tokenDecimals },
+      chainId: row.chainId,
+      receiver: row.receiver,
+      payerAddress: row.payerAddress,
+      paymentUri: `ethereum:${row.tokenAddress}@${row.chainId}/transfer?address=${row.receiver}&uint256=${row.amount}`,
+      expiresAt: row.expiresAt,
+      createdAt: row.createdAt,
+      paidAt: row.paidAt || undefined,
+      paidAmount: row.paidAmount || undefined,
+      txHash: row.txHash || undefined
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { MetricRollup as MetricRollupRow, PrismaClient } from '@prisma/client';
+import { MetricRollup, MetricSnapshot, MetricVolume } from '../types';
+
+export class MetricsRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Fold snapshots taken at `at` into the bucket containing it at every resolution
+   */
+  async record(snapshots: MetricSnapshot[], at: Date, resolutions: number[]): Promise<void> {
+    if (snapshots.length === 0) return;
+
+    await this.prisma.$transaction(snapshots.flatMap(snapshot => resolutions.map(resolution => {
+      const bucket = new Date(Math.floor(at.getTime() / (resolution * 1000)) * resolution * 1000);
+      return this.prisma.metricRollup.upsert({
+        where: { scope_resolution_bucket: { scope: snapshot.scope, resolution, bucket } },
+        create: {
+          scope: snapshot.scope,
+          resolution,
+          bucket,
+          tvlSum: snapshot.tvl,
+          yieldSum: snapshot.yield,
+          usersSum: snapshot.users,
+          samples: 1
+        },
+        update: {
+          tvlSum: { increment: snapshot.tvl },
+          yieldSum: { increment: snapshot.yield },
+          usersSum: { increment: snapshot.users },
+          samples: { increment: 1 }
+        }
+      });
+    })));
+  }
+
+  /**
+   * Replace the volume of each bucket. A bucket without snapshots is created for a non-zero volume;
+   * it has no samples, so it carries no gauges.
+   */
+  async setVolumes(volumes: MetricVolume[]): Promise<void> {
+    if (volumes.length === 0) return;
+
+    await this.prisma.$transaction(volumes.map(({ scope, resolution, bucket, volume }) => volume > 0
+      ? this.prisma.metricRollup.upsert({
+        where: { scope_resolution_bucket: { scope, resolution, bucket } },
+        create: { scope, resolution, bucket, volume },
+        update: { volume }
+      })
+      : this.prisma.metricRollup.updateMany({ where: { scope, resolution, bucket }, data: { volume: 0 } })
+    ));
+  }
+
+  /**
+   * A scope's buckets since `since`, oldest first. The last bucket with snapshots before `since`
+   * leads the list, so gauges can be carried into the window when it opens on a gap.
+   */
+  async listRollups(scope: string, resolution: number, since: Date): Promise<MetricRollup[]> {
+    const [opening, rows] = await Promise.all([
+      this.prisma.metricRollup.findFirst({
+        where: { scope, resolution, bucket: { lt: since }, samples: { gt: 0 } },
+        orderBy: { bucket: 'desc' }
+      }),
+      this.prisma.metricRollup.findMany({
+        where: { scope, resolution, bucket: { gte: since } },
+        orderBy: { bucket: 'asc' }
+      })
+    ]);
+
+    return (opening ? [opening, ...rows] : rows).map(row => this.toDomain(row));
+  }
+
+  /**
+   * The latest bucket with snapshots at or before `at`
+   */
+  async findAt(scope: string, resolution: number, at: Date): Promise<MetricRollup | null> {
+    const row = await this.prisma.metricRollup.findFirst({
+      where: { scope, resolution, bucket: { lte: at }, samples: { gt: 0 } },
+      orderBy: { bucket: 'desc' }
+    });
+
+    return row ? this.toDomain(row) : null;
+  }
+
+  /**
+   * Drop buckets of one resolution older than `before`; returns how many were removed
+   */
+  async deleteBefore(resolution: number, before: Date): Promise<number> {
+    const { count } = await this.prisma.metricRollup.deleteMany({ where: { resolution, bucket: { lt: before } } });
+    return count;
+  }
+
+  private toDomain(row: MetricRollupRow): MetricRollup {
+    // Buckets holding only volume have no samples to average
+    const samples = Math.max(row.samples, 1);
+    return {
+      scope: row.scope,
+      resolution: row.resolution,
+      bucket: row.bucket,
+      tvl: row.tvlSum / samples,
+      yield: row.yieldSum / samples,
+      users: Math.round(row.usersSum / samples),
+      volume: row.volume,
+      samples: row.samples
+    };
+  }
+}
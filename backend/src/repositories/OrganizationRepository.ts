@@ -0,0 +1,278 @@
+import {
+  OrganizationAddress as OrganizationAddressRow,
+  OrganizationInvite as OrganizationInviteRow,
+  PrismaClient
+} from '@prisma/client';
+import { normalizeAddress } from '../utils/address';
+import {
+  Organization,
+  OrganizationDetails,
+  OrganizationInvite,
+  OrganizationInviteStatus,
+  OrganizationRole,
+  WatchedAddress
+} from '../types';
+
+export interface OrganizationInviteInput {
+  address: string;
+  role: OrganizationRole;
+  message: string;
+  invitedBy: string;
+  expiresAt: Date;
+}
+
+type InviteWithOrganization = OrganizationInviteRow & { organization: { name: string } };
+
+export class OrganizationRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Create an organization with `userId` as its first owner
+   */
+  async create(userId: string, name: string): Promise<Organization> {
+    const row = await this.prisma.organization.create({
+      data: {
+        name,
+        createdBy: userId,
+        members: { create: { userId, role: 'owner' } }
+      }
+    });
+
+    return { id: row.id, name: row.name, role: 'owner', memberCount: 1, addressCount: 0, createdAt: row.createdAt };
+  }
+
+  async listForUser(userId: string): Promise<Organization[]> {
+    const memberships = await this.prisma.organizationMember.findMany({
+      where: { userId },
+      include: {
+        organization: { include: { _count: { select: { members: true, addresses: true } } } }
+      },
+      orderBy: { joinedAt: 'asc' }
+    });
+
+    return memberships.map(membership => ({
+      id: membership.organization.id,
+      name: membership.organization.name,
+      role: membership.role as OrganizationRole,
+      memberCount: membership.organization._count.members,
+      addressCount: membership.organization._count.addresses,
+      createdAt: membership.organization.createdAt
+    }));
+  }
+
+  /**
+   * The organization as seen by one of its members, or null if `userId` isn't a member
+   */
+  async findForMember(organizationId: string, userId: string): Promise<OrganizationDetails | null> {
+    const row = await this.prisma.organization.findFirst({
+      where: { id: organizationId, members: { some: { userId } } },
+      include: {
+        members: { include: { user: { select: { address: true } } }, orderBy: { joinedAt: 'asc' } },
+        addresses: { orderBy: { createdAt: 'asc' } }
+      }
+    });
+    if (!row) return null;
+
+    const members = row.members.map(member => ({
+      userId: member.userId,
+      address: member.user.address,
+      role: member.role as OrganizationRole,
+      joinedAt: member.joinedAt
+    }));
+
+    return {
+      id: row.id,
+      name: row.name,
+      role: members.find(member => member.userId === userId)!.role,
+      memberCount: members.length,
+      addressCount: row.addresses.length,
+      createdAt: row.createdAt,
+      members,
+      addresses: row.addresses.map(address => this.toWatchedAddress(address))
+    };
+  }
+
+  async rename(organizationId: string, name: string): Promise<void> {
+    await this.prisma.organization.update({ where: { id: organizationId }, data: { name } });
+  }
+
+  async delete(organizationId: string): Promise<void> {
+    await this.prisma.organization.deleteMany({ where: { id: organizationId } });
+  }
+
+  async findRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const row = await this.prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      select: { role: true }
+    });
+
+    return (row?.role as OrganizationRole) || null;
+  }
+
+  /**
+   * Roles `userId` holds in organizations that have `address` attached
+   */
+  async findAccessToAddress(userId: string, address: string): Promise<Array<{ organizationId: string; role: OrganizationRole }>> {
+    const rows = await this.prisma.organizationMember.findMany({
+      where: {
+        userId,
+        organization: { addresses: { some: { address: normalizeAddress(address) } } }
+      },
+      select: { organizationId: true, role: true }
+    });
+
+    return rows.map(row => ({ organizationId: row.organizationId, role: row.role as OrganizationRole }));
+  }
+
+  async setMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<boolean> {
+    const { count } = await this.prisma.organizationMember.updateMany({
+      where: { organizationId, userId },
+      data: { role }
+    });
+
+    return count > 0;
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    const { count } = await this.prisma.organizationMember.deleteMany({ where: { organizationId, userId } });
+    return count > 0;
+  }
+
+  async countOwners(organizationId: string): Promise<number> {
+    return this.prisma.organizationMember.count({ where: { organizationId, role: 'owner' } });
+  }
+
+  async attachAddress(organizationId: string, address: string, label: string | undefined, addedBy: string): Promise<WatchedAddress> {
+    const normalized = normalizeAddress(address);
+    const row = await this.prisma.organizationAddress.upsert({
+      where: { organizationId_address: { organizationId, address: normalized } },
+      update: { label },
+      create: { organizationId, address: normalized, label, addedBy }
+    });
+
+    return this.toWatchedAddress(row);
+  }
+
+  async detachAddress(organizationId: string, address: string): Promise<boolean> {
+    const { count } = await this.prisma.organizationAddress.deleteMany({
+      where: { organizationId, address: normalizeAddress(address) }
+    });
+
+    return count > 0;
+  }
+
+  async createInvite(organizationId: string, input: OrganizationInviteInput): Promise<OrganizationInvite> {
+    const row = await this.prisma.organizationInvite.create({
+      data: {
+        organizationId,
+        address: normalizeAddress(input.address),
+        role: input.role,
+        message: input.message,
+        invitedBy: input.invitedBy,
+        expiresAt: input.expiresAt
+      },
+      include: { organization: { select: { name: true } } }
+    });
+
+    return this.toInvite(row);
+  }
+
+  async findInvite(id: string): Promise<OrganizationInvite | null> {
+    const row = await this.prisma.organizationInvite.findUnique({
+      where: { id },
+      include: { organization: { select: { name: true } } }
+    });
+
+    return row ? this.toInvite(row) : null;
+  }
+
+  async listInvitesForOrganization(organizationId: string): Promise<OrganizationInvite[]> {
+    const rows = await this.prisma.organizationInvite.findMany({
+      where: { organizationId },
+      include: { organization: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    });
+
+    return rows.map(row => this.toInvite(row));
+  }
+
+  /**
+   * Open invitations addressed to a wallet
+   */
+  async listPendingInvitesForAddress(address: string): Promise<OrganizationInvite[]> {
+    const rows = await this.prisma.organizationInvite.findMany({
+      where: { address: normalizeAddress(address), status: 'pending', expiresAt: { gt: new Date() } },
+      include: { organization: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rows.map(row => this.toInvite(row));
+  }
+
+  /**
+   * Accept a pending invitation and add the member in one transaction. Returns false if the
+   * invitation was accepted or revoked in the meantime, or the user has become a member since;
+   * an existing membership is never changed.
+   */
+  async acceptInvite(invite: OrganizationInvite, userId: string): Promise<boolean> {
+    return this.prisma.$transaction(async tx => {
+      const member = await tx.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId: invite.organizationId, userId } }
+      });
+      if (member) return false;
+
+      const { count } = await tx.organizationInvite.updateMany({
+        where: { id: invite.id, status: 'pending', expiresAt: { gt: new Date() } },
+        data: { status: 'accepted', acceptedAt: new Date() }
+      });
+      if (count === 0) return false;
+
+      await tx.organizationMember.create({
+        data: { organizationId: invite.organizationId, userId, role: invite.role }
+      });
+      return true;
+    });
+  }
+
+  async revokeInvite(organizationId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.organizationInvite.updateMany({
+      where: { id, organizationId, status: 'pending' },
+      data: { status: 'revoked' }
+    });
+
+    return count > 0;
+  }
+
+  private toWatchedAddress(row: OrganizationAddressRow): WatchedAddress {
+    return {
+      address: row.address,
+      label: row.label || undefined,
+      addedBy: row.addedBy,
+      createdAt: row.createdAt
+    };
+  }
+
+  private toInvite(row: InviteWithOrganization): OrganizationInvite {
+    const status = row.status === 'pending' && row.expiresAt.getTime() <= Date.now()
+      ? 'expired'
+      : row.status as OrganizationInviteStatus;
+
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      organizationName: row.organization.name,
+      address: row.address,
+      role: row.role as OrganizationRole,
+      status,
+      message: row.message,
+      expiresAt: row.expiresAt,
+      createdAt: row.createdAt,
+      acceptedAt: row.acceptedAt || undefined
+    };
+  }
+}
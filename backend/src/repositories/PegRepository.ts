@@ -0,0 +1,60 @@
+import { PegSample as PegSampleRow, PrismaClient } from '@prisma/client';
+import { PegSample } from '../types';
+
+export class PegRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async record(samples: PegSample[]): Promise<void> {
+    if (samples.length === 0) return;
+
+    await this.prisma.pegSample.createMany({
+      data: samples.map(sample => ({ ...sample, blockNumber: BigInt(sample.blockNumber) }))
+    });
+  }
+
+  /**
+   * A token's samples since `since`, oldest first
+   */
+  async listSince(symbol: string, since: Date): Promise<PegSample[]> {
+    const rows = await this.prisma.pegSample.findMany({
+      where: { symbol, sampledAt: { gte: since } },
+      orderBy: { sampledAt: 'asc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async findLatest(symbol: string): Promise<PegSample | null> {
+    const row = await this.prisma.pegSample.findFirst({
+      where: { symbol },
+      orderBy: { sampledAt: 'desc' }
+    });
+
+    return row ? this.toDomain(row) : null;
+  }
+
+  /**
+   * Drop samples older than `before`; returns how many were removed
+   */
+  async deleteBefore(before: Date): Promise<number> {
+    const { count } = await this.prisma.pegSample.deleteMany({ where: { sampledAt: { lt: before } } });
+    return count;
+  }
+
+  private toDomain(row: PegSampleRow): PegSample {
+    return {
+      symbol: row.symbol,
+      token: row.token,
+      pool: row.pool,
+      marketPrice: row.marketPrice,
+      redemptionRate: row.redemptionRate,
+      deviation: row.deviation,
+      blockNumber: Number(row.blockNumber),
+      sampledAt: row.sampledAt
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { PrismaClient, Position as PositionRow } from '@prisma/client';
+import { normalizeAddress } from '../utils/address';
+import { Position } from '../types';
+
+export type PositionInput = Omit<Position, 'id' | 'userId' | 'lastUpdate'>;
+
+export interface PositionFilters {
+  protocol?: string;
+  isActive?: boolean;
+  /** A watch-only wallet's address, or null for the account's own wallet; all wallets when unset */
+  walletAddress?: string | null;
+}
+
+export class PositionRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async listForUser(userId: string, filters: PositionFilters = {}): Promise<Position[]> {
+    const rows = await this.prisma.position.findMany({
+      where: {
+        userId,
+        ...(filters.protocol && { protocol: filters.protocol }),
+        ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+        ...(filters.walletAddress !== undefined && {
+          walletAddress: filters.walletAddress && normalizeAddress(filters.walletAddress)
+        })
+      },
+      orderBy: { value: 'desc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countForUser(userId: string, activeOnly: boolean = true): Promise<number> {
+    return this.prisma.position.count({
+      where: { userId, ...(activeOnly && { isActive: true }) }
+    });
+  }
+
+  async create(userId: string, input: PositionInput): Promise<Position> {
+    const row = await this.prisma.position.create({
+      data: {
+        ...input,
+        userId,
+        walletAddress: input.walletAddress && normalizeAddress(input.walletAddress)
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  async update(id: string, updates: Partial<PositionInput>): Promise<Position> {
+    const row = await this.prisma.position.update({
+      where: { id },
+      data: updates
+    });
+
+    return this.toDomain(row);
+  }
+
+  private toDomain(row: PositionRow): Position {
+    return {
+      id: row.id,
+      userId: row.userId,
+      protocol: row.protocol,
+      protocolName: row.protocolName,
+      token: row.token,
+      amount: row.amount,
+      value: row.value,
+      yield: row.yield,
+      riskScore: row.riskScore,
+      allocation: row.allocation,
+      earnings: row.earnings,
+      earningsChange24h: row.earningsChange24h,
+      isActive: row.isActive,
+      lastUpdate: row.updatedAt,
+      apy: row.apy,
+      lockupPeriod: row.lockupPeriod ?? undefined,
+      unlockDate: row.unlockDate ?? undefined,
+      chainId: row.chainId,
+      contractAddress: row.contractAddress,
+      walletAddress: row.walletAddress ?? undefined
+    };
+  }
+}
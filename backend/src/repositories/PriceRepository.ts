@@ -0,0 +1,59 @@
+import { PricePoint as PricePointRow, PrismaClient } from '@prisma/client';
+import { TokenPrice } from '../types';
+
+export class PriceRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async record(prices: TokenPrice[]): Promise<void> {
+    if (prices.length === 0) return;
+
+    await this.prisma.pricePoint.createMany({
+      data: prices.map(price => ({ symbol: price.symbol, price: price.price, sources: price.sources, sampledAt: price.sampledAt }))
+    });
+  }
+
+  /**
+   * The price in effect at `at`: the latest one recorded at or before it
+   */
+  async findAt(symbol: string, at: Date): Promise<TokenPrice | null> {
+    const row = await this.prisma.pricePoint.findFirst({
+      where: { symbol, sampledAt: { lte: at } },
+      orderBy: { sampledAt: 'desc' }
+    });
+
+    return row ? this.toDomain(row) : null;
+  }
+
+  /**
+   * Latest price of every recorded symbol
+   */
+  async listLatest(): Promise<TokenPrice[]> {
+    const rows = await this.prisma.pricePoint.findMany({
+      distinct: ['symbol'],
+      orderBy: [{ symbol: 'asc' }, { sampledAt: 'desc' }]
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  /**
+   * Drop prices older than `before`; returns how many were removed
+   */
+  async deleteBefore(before: Date): Promise<number> {
+    const { count } = await this.prisma.pricePoint.deleteMany({ where: { sampledAt: { lt: before } } });
+    return count;
+  }
+
+  private toDomain(row: PricePointRow): TokenPrice {
+    return {
+      symbol: row.symbol,
+      price: row.price,
+      sources: row.sources as TokenPrice['sources'],
+      sampledAt: row.sampledAt
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { PrismaClient, Recommendation as RecommendationRow } from '@prisma/client';
+import { Recommendation } from '../types';
+
+export interface RecommendationFilters {
+  type?: string;
+  priority?: string;
+  status?: Recommendation['status'];
+}
+
+export class RecommendationRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(id: string): Promise<Recommendation | null> {
+    const row = await this.prisma.recommendation.findUnique({ where: { id } });
+    return row ? this.toDomain(row) : null;
+  }
+
+  async listForUser(userId: string, filters: RecommendationFilters = {}): Promise<Recommendation[]> {
+    const rows = await this.prisma.recommendation.findMany({
+      where: {
+        userId,
+        ...(filters.type && { type: filters.type }),
+        ...(filters.priority && { priority: filters.priority }),
+        ...(filters.status && { status: filters.status })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async create(userId: string, input: Omit<Recommendation, 'id' | 'userId' | 'createdAt' | 'executedAt' | 'status'>): Promise<Recommendation> {
+    const row = await this.prisma.recommendation.create({
+      data: {
+        userId,
+        type: input.type,
+        title: input.title,
+        description: input.description,
+        impact: input.impact,
+        priority: input.priority,
+        estimatedGain: input.estimatedGain,
+        estimatedRisk: input.estimatedRisk,
+        actionRequired: input.actionRequired,
+        autoExecutable: input.autoExecutable,
+        deadline: input.deadline ? new Date(input.deadline) : undefined,
+        relatedPositions: input.relatedPositions
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  async updateStatus(id: string, status: Recommendation['status']): Promise<Recommendation> {
+    const row = await this.prisma.recommendation.update({
+      where: { id },
+      data: {
+        status,
+        ...(status === 'executed' && { executedAt: new Date() })
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  private toDomain(row: RecommendationRow): Recommendation {
+    return {
+      id: row.id,
+      userId: row.userId,
+      type: row.type as Recommendation['type'],
+      title: row.title,
+      description: row.description,
+      impact: row.impact,
+      priority: row.priority as Recommendation['priority'],
+      estimatedGain: row.estimatedGain,
+      estimatedRisk: row.estimatedRisk,
+      actionRequired: row.actionRequired,
+      autoExecutable: row.autoExecutable,
+      deadline: row.deadline?.getTime(),
+      relatedPositions: row.relatedPositions,
+      createdAt: row.createdAt,
+      executedAt: row.executedAt ?? undefined,
+      status: row.status as Recommendation['status']
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { Prisma, PrismaClient, RiskAlert as RiskAlertRow } from '@prisma/client';
+import { RiskAlert } from '../types';
+
+export interface RiskAlertFilters {
+  severity?: string;
+  type?: string;
+  limit?: number;
+}
+
+export class RiskAlertRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * List alerts that have not been dismissed, newest first
+   */
+  async listActive(userId: string, filters: RiskAlertFilters = {}): Promise<RiskAlert[]> {
+    const rows = await this.prisma.riskAlert.findMany({
+      where: {
+        userId,
+        dismissedAt: null,
+        ...(filters.severity && { severity: filters.severity }),
+        ...(filters.type && { type: filters.type })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  /**
+   * Every alert the user has received, including dismissed ones, newest first
+   */
+  async listForUser(userId: string): Promise<RiskAlert[]> {
+    const rows = await this.prisma.riskAlert.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countActive(userId: string): Promise<number> {
+    return this.prisma.riskAlert.count({ where: { userId, dismissedAt: null } });
+  }
+
+  async create(userId: string, alert: Omit<RiskAlert, 'id' | 'timestamp'>): Promise<RiskAlert> {
+    const row = await this.prisma.riskAlert.create({
+      data: {
+        userId,
+        type: alert.type,
+        severity: alert.severity,
+        title: alert.title,
+        message: alert.message,
+        data: alert.data as Prisma.InputJsonValue | undefined,
+        actionRequired: alert.actionRequired,
+        suggestedActions: alert.suggestedActions || []
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  /**
+   * Dismiss alerts owned by the user and return the ids that were actually dismissed
+   */
+  async dismiss(userId: string, alertIds: string[]): Promise<string[]> {
+    const owned = await this.prisma.riskAlert.findMany({
+      where: { id: { in: alertIds }, userId, dismissedAt: null },
+      select: { id: true }
+    });
+    const ids = owned.map(alert => alert.id);
+
+    if (ids.length > 0) {
+      await this.prisma.riskAlert.updateMany({
+        where: { id: { in: ids } },
+        data: { dismissedAt: new Date() }
+      });
+    }
+
+    return ids;
+  }
+
+  private toDomain(row: RiskAlertRow): RiskAlert {
+    return {
+      id: row.id,
+      type: row.type as RiskAlert['type'],
+      severity: row.severity as RiskAlert['severity'],
+      title: row.title,
+      message: row.message,
+      timestamp: row.createdAt.getTime(),
+      data: row.data ?? undefined,
+      actionRequired: row.actionRequired,
+      suggestedActions: row.suggestedActions
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { Prisma, PrismaClient, RiskProfile as RiskProfileRow } from '@prisma/client';
+import { AlertThresholds, RiskProfile } from '../types';
+
+export type RiskProfileUpdate = Partial<Omit<RiskProfile, 'userId' | 'createdAt' | 'updatedAt' | 'alertThresholds'>> & {
+  alertThresholds?: Partial<AlertThresholds>;
+};
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  slashing: 0.03,
+  liquidity: 0.2,
+  concentration: 0.4,
+  performance: -0.1
+};
+
+export class RiskProfileRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Get the stored risk profile, falling back to defaults for users who never saved one
+   */
+  async getForUser(userId: string): Promise<RiskProfile> {
+    const row = await this.prisma.riskProfile.findUnique({ where: { userId } });
+    return row ? this.toDomain(row) : this.defaultProfile(userId);
+  }
+
+  async upsert(userId: string, updates: RiskProfileUpdate): Promise<RiskProfile> {
+    const current = await this.getForUser(userId);
+
+    const data = {
+      riskTolerance: updates.riskTolerance ?? current.riskTolerance,
+      maxSlashingRisk: updates.maxSlashingRisk ?? current.maxSlashingRisk,
+      maxLiquidityRisk: updates.maxLiquidityRisk ?? current.maxLiquidityRisk,
+      maxConcentration: updates.maxConcentration ?? current.maxConcentration,
+      rebalanceThreshold: updates.rebalanceThreshold ?? current.rebalanceThreshold,
+      autoRebalance: updates.autoRebalance ?? current.autoRebalance,
+      alertThresholds: {
+        ...current.alertThresholds,
+        ...updates.alertThresholds
+      } as unknown as Prisma.InputJsonObject
+    };
+
+    const row = await this.prisma.riskProfile.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data }
+    });
+
+    return this.toDomain(row);
+  }
+
+  private defaultProfile(userId: string): RiskProfile {
+    const now = new Date();
+
+    return {
+      userId,
+      riskTolerance: 'moderate',
+      maxSlashingRisk: 0.05,
+      maxLiquidityRisk: 0.3,
+      maxConcentration: 0.5,
+      rebalanceThreshold: 0.1,
+      autoRebalance: true,
+      alertThresholds: { ...DEFAULT_ALERT_THRESHOLDS },
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private toDomain(row: RiskProfileRow): RiskProfile {
+    return {
+      userId: row.userId,
+      riskTolerance: row.riskTolerance as RiskProfile['riskTolerance'],
+      maxSlashingRisk: row.maxSlashingRisk,
+      maxLiquidityRisk: row.maxLiquidityRisk,
+      maxConcentration: row.maxConcentration,
+      rebalanceThreshold: row.rebalanceThreshold,
+      autoRebalance: row.autoRebalance,
+      alertThresholds: {
+        ...DEFAULT_ALERT_THRESHOLDS,
+        ...(row.alertThresholds as unknown as Partial<AlertThresholds>)
+      },
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { PrismaClient, Session as SessionRow } from '@prisma/client';
+import { UserSession } from '../types';
+
+export interface SessionInput {
+  refreshTokenHash: string;
+  expiresAt: Date;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export class SessionRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(id: string): Promise<SessionRow | null> {
+    return this.prisma.session.findUnique({ where: { id } });
+  }
+
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<SessionRow | null> {
+    return this.prisma.session.findUnique({ where: { refreshTokenHash } });
+  }
+
+  /**
+   * Find a session by any refresh token hash it has already rotated out
+   */
+  async findByRetiredTokenHash(hash: string): Promise<SessionRow | null> {
+    const retired = await this.prisma.retiredRefreshToken.findUnique({
+      where: { hash },
+      include: { session: true }
+    });
+
+    return retired?.session || null;
+  }
+
+  async listActive(userId: string): Promise<UserSession[]> {
+    const rows = await this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async create(userId: string, input: SessionInput): Promise<SessionRow> {
+    return this.prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: input.refreshTokenHash,
+        expiresAt: input.expiresAt,
+        userAgent: input.userAgent,
+        ipAddress: input.ipAddress
+      }
+    });
+  }
+
+  /**
+   * Replace the refresh token hash, retiring the old one for reuse detection
+   */
+  async rotate(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<SessionRow | null> {
+    return this.prisma.$transaction(async tx => {
+      const { count } = await tx.session.updateMany({
+        where: { id, refreshTokenHash: currentHash, revokedAt: null },
+        data: {
+          refreshTokenHash: nextHash,
+          lastUsedAt: new Date(),
+          expiresAt
+        }
+      });
+      if (!count) {
+        return null;
+      }
+
+      await tx.retiredRefreshToken.create({ data: { hash: currentHash, sessionId: id } });
+      return tx.session.findUnique({ where: { id } });
+    });
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.session.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Revoke all active sessions for a user and return the revoked session ids
+   */
+  async revokeAll(userId: string): Promise<string[]> {
+    const active = await this.prisma.session.findMany({
+      where: { userId, revokedAt: null },
+      select: { id: true }
+    });
+    const ids = active.map(session => session.id);
+
+    if (ids.length > 0) {
+      await this.prisma.session.updateMany({
+        where: { id: { in: ids } },
+        data: { revokedAt: new Date() }
+      });
+    }
+
+    return ids;
+  }
+
+  private toDomain(row: SessionRow): UserSession {
+    return {
+      id: row.id,
+      userId: row.userId,
+      userAgent: row.userAgent || undefined,
+      ipAddress: row.ipAddress || undefined,
+      createdAt: row.createdAt,
+      lastUsedAt: row.lastUsedAt,
+      expiresAt: row.expiresAt,
+      revokedAt: row.revokedAt || undefined
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { Prisma, PrismaClient, Strategy as StrategyRow } from '@prisma/client';
+import { Strategy, StrategyFees, StrategyPerformance } from '../types';
+
+export interface StrategyInput {
+  name: string;
+  description?: string;
+  allocations: Record<string, number>;
+  riskScore?: number;
+  expectedYield?: number;
+  autoExecute?: boolean;
+  minAmount?: number;
+  maxAmount?: number;
+  fees?: StrategyFees;
+}
+
+const DEFAULT_FEES: StrategyFees = {
+  managementFee: 0.005, // 0.5%
+  performanceFee: 0.1, // 10%
+  withdrawalFee: 0,
+  depositFee: 0
+};
+
+const EMPTY_PERFORMANCE: StrategyPerformance = {
+  totalReturn: 0,
+  annualizedReturn: 0,
+  sharpeRatio: 0,
+  maxDrawdown: 0,
+  volatility: 0,
+  alpha: 0,
+  beta: 1
+};
+
+export class StrategyRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async listForUser(userId: string, isActive?: boolean): Promise<Strategy[]> {
+    const rows = await this.prisma.strategy.findMany({
+      where: {
+        userId,
+        ...(isActive !== undefined && { isActive })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countForUser(userId: string, activeOnly: boolean = true): Promise<number> {
+    return this.prisma.strategy.count({
+      where: { userId, ...(activeOnly && { isActive: true }) }
+    });
+  }
+
+  async create(userId: string, input: StrategyInput): Promise<Strategy> {
+    const row = await this.prisma.strategy.create({
+      data: {
+        userId,
+        name: input.name,
+        description: input.description || '',
+        allocations: input.allocations as Prisma.InputJsonObject,
+        riskScore: input.riskScore ?? 0.5,
+        expectedYield: input.expectedYield ?? 0,
+        autoExecute: input.autoExecute ?? false,
+        minAmount: input.minAmount ?? 1, // 1 ETH minimum
+        maxAmount: input.maxAmount ?? 1000, // 1000 ETH maximum
+        fees: (input.fees || DEFAULT_FEES) as unknown as Prisma.InputJsonObject,
+        performance: EMPTY_PERFORMANCE as unknown as Prisma.InputJsonObject
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  private toDomain(row: StrategyRow): Strategy {
+    return {
+      id: row.id,
+      userId: row.userId,
+      name: row.name,
+      description: row.description,
+      allocations: row.allocations as Record<string, number>,
+      riskScore: row.riskScore,
+      expectedYield: row.expectedYield,
+      tvl: row.tvl,
+      allocation: row.allocation,
+      isActive: row.isActive,
+      autoExecute: row.autoExecute,
+      minAmount: row.minAmount,
+      maxAmount: row.maxAmount,
+      fees: row.fees as unknown as StrategyFees,
+      performance: row.performance as unknown as StrategyPerformance,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
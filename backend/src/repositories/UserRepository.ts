@@ -0,0 +1,229 @@
+import { Prisma, PrismaClient, User as UserRow, UserPreferences as UserPreferencesRow } from '@prisma/client';
+import { User, UserPreferences, UserPreferencesUpdate, NotificationPreferences, PrivacySettings, SubscriptionTier } from '../types';
+import { addDays, buildSubscription, isSubscriptionLapsed, isSubscriptionTier, SUBSCRIPTION_GRACE_PERIOD_DAYS } from '../utils/subscriptions';
+import { normalizeAddress } from '../utils/address';
+
+type UserWithPreferences = UserRow & { preferences: UserPreferencesRow | null };
+
+export interface UserProfileUpdate {
+  username?: string;
+  email?: string;
+  avatar?: string;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'dark',
+  currency: 'USD',
+  language: 'en',
+  timezone: 'UTC',
+  notifications: {
+    email: true,
+    push: true,
+    discord: false,
+    telegram: false,
+    riskAlerts: true,
+    rebalanceNotifications: true,
+    yieldUpdates: true,
+    marketUpdates: false
+  },
+  privacy: {
+    showPortfolio: false,
+    showTransactions: false,
+    allowAnalytics: true,
+    shareData: false
+  }
+};
+
+export class UserRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const row = await this.prisma.user.findUnique({
+      where: { id },
+      include: { preferences: true }
+    });
+
+    return row ? this.toDomain(row) : null;
+  }
+
+  async findByAddress(address: string): Promise<User | null> {
+    const row = await this.prisma.user.findUnique({
+      where: { address: normalizeAddress(address) },
+      include: { preferences: true }
+    });
+
+    return row ? this.toDomain(row) : null;
+  }
+
+  /**
+   * Resolve a user id from a wallet address without loading the full profile
+   */
+  async findIdByAddress(address: string): Promise<string | null> {
+    const row = await this.prisma.user.findUnique({
+      where: { address: normalizeAddress(address) },
+      select: { id: true }
+    });
+
+    return row?.id || null;
+  }
+
+  /**
+   * Tier whose limits currently apply; inactive subscriptions and ones past their grace period fall back to free
+   */
+  async findSubscriptionTier(id: string): Promise<SubscriptionTier | null> {
+    const row = await this.prisma.user.findUnique({
+      where: { id },
+      select: { subscriptionTier: true, subscriptionActive: true, subscriptionExpiresAt: true }
+    });
+
+    if (!row) return null;
+
+    if (!row.subscriptionActive || isSubscriptionLapsed(row.subscriptionExpiresAt) || !isSubscriptionTier(row.subscriptionTier)) {
+      return 'free';
+    }
+    return row.subscriptionTier;
+  }
+
+  /**
+   * Put the user on a tier until the given time, e.g. after a confirmed payment
+   */
+  async setSubscription(id: string, tier: SubscriptionTier, expiresAt: Date): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: { subscriptionTier: tier, subscriptionActive: true, subscriptionExpiresAt: expiresAt }
+    });
+  }
+
+  /**
+   * Block sign-in and token refresh for the user, e.g. while their account is being erased
+   */
+  async deactivate(id: string): Promise<void> {
+    await this.prisma.user.update({ where: { id }, data: { isActive: false } });
+  }
+
+  /**
+   * Active paid subscriptions expiring before `before` that haven't lapsed yet
+   */
+  async listExpiringSubscriptions(before: Date): Promise<Array<{ id: string; address: string; tier: SubscriptionTier; expiresAt: Date }>> {
+    const rows = await this.prisma.user.findMany({
+      where: {
+        isActive: true,
+        subscriptionActive: true,
+        subscriptionTier: { not: 'free' },
+        subscriptionExpiresAt: { lte: before, gt: addDays(new Date(), -SUBSCRIPTION_GRACE_PERIOD_DAYS) }
+      },
+      select: { id: true, address: true, subscriptionTier: true, subscriptionExpiresAt: true }
+    });
+
+    return rows
+      .filter(row => isSubscriptionTier(row.subscriptionTier))
+      .map(row => ({
+        id: row.id,
+        address: row.address,
+        tier: row.subscriptionTier as SubscriptionTier,
+        expiresAt: row.subscriptionExpiresAt as Date
+      }));
+  }
+
+  /**
+   * Get the user for a wallet address, creating it with default preferences on first sign-in
+   */
+  async findOrCreateByAddress(address: string): Promise<User> {
+    const normalized = normalizeAddress(address);
+
+    const row = await this.prisma.user.upsert({
+      where: { address: normalized },
+      update: { lastActive: new Date() },
+      create: {
+        address: normalized,
+        username: `user_${normalized.slice(-6)}`,
+        preferences: {
+          create: this.toPreferencesData(DEFAULT_PREFERENCES)
+        }
+      },
+      include: { preferences: true }
+    });
+
+    return this.toDomain(row);
+  }
+
+  async updateProfile(id: string, updates: UserProfileUpdate): Promise<User> {
+    const row = await this.prisma.user.update({
+      where: { id },
+      data: {
+        ...(updates.username !== undefined && { username: updates.username }),
+        ...(updates.email !== undefined && { email: updates.email }),
+        ...(updates.avatar !== undefined && { avatar: updates.avatar }),
+        lastActive: new Date()
+      },
+      include: { preferences: true }
+    });
+
+    return this.toDomain(row);
+  }
+
+  /**
+   * Merge preference updates into the stored preferences
+   */
+  async updatePreferences(id: string, updates: UserPreferencesUpdate): Promise<UserPreferences> {
+    const current = await this.prisma.userPreferences.findUnique({ where: { userId: id } });
+    const existing = current ? this.toPreferences(current) : DEFAULT_PREFERENCES;
+
+    const merged: UserPreferences = {
+      ...existing,
+      ...updates,
+      notifications: { ...existing.notifications, ...updates.notifications },
+      privacy: { ...existing.privacy, ...updates.privacy }
+    };
+
+    const row = await this.prisma.userPreferences.upsert({
+      where: { userId: id },
+      update: this.toPreferencesData(merged),
+      create: { userId: id, ...this.toPreferencesData(merged) }
+    });
+
+    return this.toPreferences(row);
+  }
+
+  private toPreferencesData(preferences: UserPreferences) {
+    return {
+      theme: preferences.theme,
+      currency: preferences.currency,
+      language: preferences.language,
+      timezone: preferences.timezone,
+      notifications: preferences.notifications as unknown as Prisma.InputJsonObject,
+      privacy: preferences.privacy as unknown as Prisma.InputJsonObject
+    };
+  }
+
+  private toPreferences(row: UserPreferencesRow): UserPreferences {
+    return {
+      theme: row.theme as UserPreferences['theme'],
+      currency: row.currency as UserPreferences['currency'],
+      language: row.language,
+      timezone: row.timezone,
+      notifications: row.notifications as unknown as NotificationPreferences,
+      privacy: row.privacy as unknown as PrivacySettings
+    };
+  }
+
+  private toDomain(row: UserWithPreferences): User {
+    return {
+      id: row.id,
+      address: row.address,
+      email: row.email || undefined,
+      username: row.username || undefined,
+      avatar: row.avatar || undefined,
+      joinedAt: row.joinedAt,
+      lastActive: row.lastActive,
+      preferences: row.preferences ? this.toPreferences(row.preferences) : DEFAULT_PREFERENCES,
+      subscription: buildSubscription(row.subscriptionTier, row.subscriptionActive, row.subscriptionExpiresAt),
+      isActive: row.isActive,
+      metadata: (row.metadata as Record<string, any>) || undefined
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { PrismaClient, WatchedWallet as WatchedWalletRow } from '@prisma/client';
+import { normalizeAddress } from '../utils/address';
+import { WatchedWallet } from '../types';
+
+export interface WatchedWalletInput {
+  address: string;
+  label?: string;
+  group?: string;
+}
+
+/** `null` clears the field, `undefined` leaves it unchanged */
+export interface WatchedWalletUpdate {
+  label?: string | null;
+  group?: string | null;
+}
+
+export class WatchedWalletRepository {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async listForUser(userId: string, group?: string): Promise<WatchedWallet[]> {
+    const rows = await this.prisma.watchedWallet.findMany({
+      where: { userId, ...(group !== undefined && { group }) },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return rows.map(row => this.toDomain(row));
+  }
+
+  async countForUser(userId: string): Promise<number> {
+    return this.prisma.watchedWallet.count({ where: { userId } });
+  }
+
+  async find(userId: string, address: string): Promise<WatchedWallet | null> {
+    const row = await this.prisma.watchedWallet.findUnique({
+      where: { userId_address: { userId, address: normalizeAddress(address) } }
+    });
+
+    return row ? this.toDomain(row) : null;
+  }
+
+  async create(userId: string, input: WatchedWalletInput): Promise<WatchedWallet> {
+    const row = await this.prisma.watchedWallet.create({
+      data: {
+        userId,
+        address: normalizeAddress(input.address),
+        label: input.label,
+        group: input.group
+      }
+    });
+
+    return this.toDomain(row);
+  }
+
+  /**
+   * Relabel or regroup a watched wallet; returns null when the user doesn't watch it
+   */
+  async update(userId: string, address: string, updates: WatchedWalletUpdate): Promise<WatchedWallet | null> {
+    const { count } = await this.prisma.watchedWallet.updateMany({
+      where: { userId, address: normalizeAddress(address) },
+      data: {
+        ...(updates.label !== undefined && { label: updates.label }),
+        ...(updates.group !== undefined && { group: updates.group })
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.find(userId, address);
+  }
+
+  /**
+   * Stop watching a wallet and drop the positions recorded for it
+   */
+  async delete(userId: string, address: string): Promise<boolean> {
+    const walletAddress = normalizeAddress(address);
+    const [, { count }] = await this.prisma.$transaction([
+      this.prisma.position.deleteMany({ where: { userId, walletAddress } }),
+      this.prisma.watchedWallet.deleteMany({ where: { userId, address: walletAddress } })
+    ]);
+
+    return count > 0;
+  }
+
+  private toDomain(row: WatchedWalletRow): WatchedWallet {
+    return {
+      address: row.address,
+      label: row.label || undefined,
+      group: row.group || undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import express, { Router, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { asyncHandler, AuthenticationError, AuthorizationError } from '../middleware/errorHandler';
+import { redactConfig } from '../config';
+import { ApiResponse, AuthenticatedRequest, IndexerStatus, RpcClientMetrics } from '../types';
+import { Container } from '../container';
+
+/**
+ * Build the /api/v1/admin router from the shared container
+ */
+export const createAdminRouter = (container: Container): Router => {
+  const router = express.Router();
+  const { config } = container;
+  const { auth: authMiddleware } = container.authMiddleware;
+
+  /**
+   * Only wallets listed in ADMIN_ADDRESSES may use admin endpoints
+   */
+  const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const address = req.user?.address?.toLowerCase();
+
+    if (!address) {
+      return next(new AuthenticationError());
+    }
+
+    if (!config.ADMIN_ADDRESSES.includes(address)) {
+      logger.security('Admin endpoint access denied', { address, path: req.originalUrl });
+      return next(new AuthorizationError());
+    }
+
+    next();
+  };
+
+  /**
+   * GET /api/v1/admin/config
+   * Effective configuration with secrets redacted
+   */
+  router.get('/config',
+    authMiddleware,
+    requireAdmin,
+    asyncHandler(async (req: AuthenticatedRequest, res) => {
+      logger.security('Configuration viewed', { address: req.user?.address });
+
+      const response: ApiResponse<Record<string, unknown>> = {
+        success: true,
+        data: redactConfig(config),
+        timestamp: Date.now()
+      };
+
+      res.json(response);
+    })
+  );
+
+  /**
+   * GET /api/v1/admin/indexer
+   * Chain indexer progress per chain
+   */
+  router.get('/indexer',
+    authMiddleware,
+    requireAdmin,
+    asyncHandler(async (req: AuthenticatedRequest, res) => {
+      const response: ApiResponse<IndexerStatus[]> = {
+        success: true,
+        data: await container.chainIndexer.getStatus(),
+        timestamp: Date.now()
+      };
+
+      res.json(response);
+    })
+  );
+
+  /**
+   * GET /api/v1/admin/rpc
+   * Per-endpoint health, latency and errors, and cache statistics for each chain's RPC client
+   */
+  router.get('/rpc',
+    authMiddleware,
+    requireAdmin,
+    asyncHandler(async (req: AuthenticatedRequest, res) => {
+      const response: ApiResponse<RpcClientMetrics[]> = {
+        success: true,
+        data: Object.values(container.rpcClients).map(client => client.getMetrics()),
+        timestamp: Date.now()
+      };
+
+      res.json(response);
+    })
+  );
+
+  return router;
+};
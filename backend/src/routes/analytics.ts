@@ -1,342 +1,520 @@
 import { Router } from 'express';
-import { AnalyticsService } from '../services/AnalyticsService';
-import { CacheService } from '../services/CacheService';
-import { auth } from '../middleware/auth';
-import { rateLimit } from '../middleware/rateLimiter';
-import { validateQuery } from '../middleware/validation';
-import { ApiResponse } from '../types';
-
-const router = Router();
-const analyticsService = new AnalyticsService();
-const cacheService = new CacheService();
-
-// Get overall analytics data
-router.get('/', 
-  rateLimit('analytics:overview', 100, 900), // 100 requests per 15 minutes
-  validateQuery(['timeRange', 'chain']),
-  async (req, res) => {
-    try {
-      const { timeRange = '24h', chain = '1101' } = req.query;
-      const cacheKey = `analytics:overview:${timeRange}:${chain}`;
-      
-      // Check cache first
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+import { validateRequest } from '../middleware/validation';
+import { ApiResponse, ValidatedRequest } from '../types';
+import {
+  chartRangeQuerySchema,
+  overviewQuerySchema,
+  protocolSeriesQuerySchema,
+  protocolsQuerySchema,
+  timeRangeQuerySchema,
+  emptyQuerySchema,
+  priceParamsSchema,
+  priceQuerySchema,
+  transactionsQuerySchema,
+  ChartRangeQuery,
+  OverviewQuery,
+  PriceParams,
+  PriceQuery,
+  ProtocolSeriesQuery,
+  ProtocolsQuery,
+  TimeRangeQuery,
+  TransactionsQuery
+} from '../schemas/analytics';
+import { ChartRangeValue, TIME_RANGE_DAYS } from '../schemas/common';
+import { Container } from '../container';
+
+const FIFTEEN_MINUTES_MS = 15 * 60 * 1000;
+
+/**
+ * Build the /api/v1/analytics router from the shared container
+ */
+export const createAnalyticsRouter = (container: Container): Router => {
+  const router = Router();
+  const { analyticsService, cacheService, entitlementService, nucleusAdapter, priceService } = container;
+  const { auth, optionalAuth } = container.authMiddleware;
+  const { rateLimit } = container.rateLimitMiddleware;
+  const { limitHistory } = container.entitlementMiddleware;
+
+  // 'all' spans the caller's plan history, so its cache entries are kept per history window
+  const chartWindow = async (userId: string | undefined, timeRange: ChartRangeValue) => {
+    const historyDays = timeRange === 'all' ? await entitlementService.getHistoryDays(userId) : undefined;
+    return { historyDays, range: historyDays ? `all-${historyDays}d` : timeRange };
+  };
+
+  // Get overall analytics data
+  router.get('/', 
+    optionalAuth,
+    rateLimit('analytics:overview', 100, FIFTEEN_MINUTES_MS), // 100 requests per 15 minutes
+    validateRequest({ query: overviewQuerySchema }),
+    limitHistory,
+    async (req: ValidatedRequest<{}, OverviewQuery>, res) => {
+      try {
+        const { timeRange, chain } = req.query;
+        const { historyDays, range } = await chartWindow(req.user?.id, timeRange);
+        const cacheKey = `analytics:overview:${range}:${chain}`;
+
+        // Check cache first
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getOverviewData(timeRange, chain, historyDays);
+
+        // Cache for 5 minutes
+        await cacheService.set(cacheKey, data, 300);
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Analytics overview error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch analytics data',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
-
-      const data = await analyticsService.getOverviewData(timeRange as string, parseInt(chain as string));
-      
-      // Cache for 5 minutes
-      await cacheService.set(cacheKey, data, 300);
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('Analytics overview error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch analytics data',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
     }
-  }
-);
-
-// Get TVL data
-router.get('/tvl',
-  rateLimit('analytics:tvl', 200, 900),
-  validateQuery(['timeRange', 'protocol']),
-  async (req, res) => {
-    try {
-      const { timeRange = '24h', protocol } = req.query;
-      const cacheKey = `analytics:tvl:${timeRange}:${protocol || 'all'}`;
-      
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+  );
+
+  // Get TVL data
+  router.get('/tvl',
+    optionalAuth,
+    rateLimit('analytics:tvl', 200, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: protocolSeriesQuerySchema }),
+    limitHistory,
+    async (req: ValidatedRequest<{}, ProtocolSeriesQuery>, res) => {
+      try {
+        const { timeRange, protocol } = req.query;
+        const { historyDays, range } = await chartWindow(req.user?.id, timeRange);
+        const cacheKey = `analytics:tvl:${range}:${protocol || 'all'}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getTVLData(timeRange, protocol, historyDays);
+
+        await cacheService.set(cacheKey, data, 180); // Cache for 3 minutes
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('TVL data error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch TVL data',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
-
-      const data = await analyticsService.getTVLData(timeRange as string, protocol as string);
-      
-      await cacheService.set(cacheKey, data, 180); // Cache for 3 minutes
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('TVL data error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch TVL data',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
     }
-  }
-);
-
-// Get yield data
-router.get('/yields',
-  rateLimit('analytics:yields', 200, 900),
-  validateQuery(['timeRange', 'protocol']),
-  async (req, res) => {
-    try {
-      const { timeRange = '24h', protocol } = req.query;
-      const cacheKey = `analytics:yields:${timeRange}:${protocol || 'all'}`;
-      
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+  );
+
+  // Get yield data
+  router.get('/yields',
+    optionalAuth,
+    rateLimit('analytics:yields', 200, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: protocolSeriesQuerySchema }),
+    limitHistory,
+    async (req: ValidatedRequest<{}, ProtocolSeriesQuery>, res) => {
+      try {
+        const { timeRange, protocol } = req.query;
+        const { historyDays, range } = await chartWindow(req.user?.id, timeRange);
+        const cacheKey = `analytics:yields:${range}:${protocol || 'all'}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getYieldData(timeRange, protocol, historyDays);
+
+        await cacheService.set(cacheKey, data, 300); // Cache for 5 minutes
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Yield data error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch yield data',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
-
-      const data = await analyticsService.getYieldData(timeRange as string, protocol as string);
-      
-      await cacheService.set(cacheKey, data, 300); // Cache for 5 minutes
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('Yield data error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch yield data',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
     }
-  }
-);
-
-// Get protocol rankings
-router.get('/protocols',
-  rateLimit('analytics:protocols', 150, 900),
-  validateQuery(['sortBy', 'order', 'limit']),
-  async (req, res) => {
-    try {
-      const { sortBy = 'tvl', order = 'desc', limit = '50' } = req.query;
-      const cacheKey = `analytics:protocols:${sortBy}:${order}:${limit}`;
-      
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+  );
+
+  // Get protocol rankings
+  router.get('/protocols',
+    rateLimit('analytics:protocols', 150, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: protocolsQuerySchema }),
+    async (req: ValidatedRequest<{}, ProtocolsQuery>, res) => {
+      try {
+        const { sortBy, order, limit } = req.query;
+        const cacheKey = `analytics:protocols:${sortBy}:${order}:${limit}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getProtocolRankings(
+          sortBy,
+          order,
+          limit
+        );
+
+        await cacheService.set(cacheKey, data, 600); // Cache for 10 minutes
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Protocol rankings error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch protocol rankings',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
-
-      const data = await analyticsService.getProtocolRankings(
-        sortBy as string,
-        order as 'asc' | 'desc',
-        parseInt(limit as string)
-      );
-      
-      await cacheService.set(cacheKey, data, 600); // Cache for 10 minutes
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('Protocol rankings error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch protocol rankings',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
     }
-  }
-);
-
-// Get user statistics (requires auth)
-router.get('/users',
-  auth,
-  rateLimit('analytics:users', 50, 900),
-  validateQuery(['timeRange']),
-  async (req, res) => {
-    try {
-      const { timeRange = '24h' } = req.query;
-      const cacheKey = `analytics:users:${timeRange}`;
-      
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+  );
+
+  // Get user statistics (requires auth)
+  router.get('/users',
+    auth,
+    rateLimit('analytics:users', 50, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: chartRangeQuerySchema }),
+    limitHistory,
+    async (req: ValidatedRequest<{}, ChartRangeQuery>, res) => {
+      try {
+        const { timeRange } = req.query;
+        const { historyDays, range } = await chartWindow(req.user?.id, timeRange);
+        const cacheKey = `analytics:users:${range}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getUserStats(timeRange, historyDays);
+
+        await cacheService.set(cacheKey, data, 600); // Cache for 10 minutes
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('User stats error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch user statistics',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
-
-      const data = await analyticsService.getUserStats(timeRange as string);
-      
-      await cacheService.set(cacheKey, data, 600); // Cache for 10 minutes
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('User stats error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch user statistics',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
     }
-  }
-);
-
-// Get real-time metrics
-router.get('/realtime',
-  rateLimit('analytics:realtime', 300, 900),
-  async (req, res) => {
-    try {
-      const cacheKey = 'analytics:realtime';
-      
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+  );
+
+  // Get real-time metrics
+  router.get('/realtime',
+    rateLimit('analytics:realtime', 300, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: emptyQuerySchema }),
+    async (req, res) => {
+      try {
+        const cacheKey = 'analytics:realtime';
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getRealtimeMetrics();
+
+        await cacheService.set(cacheKey, data, 30); // Cache for 30 seconds
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Realtime metrics error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch realtime metrics',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
+    }
+  );
+
+  // Get Swellchain specific metrics
+  router.get('/swellchain',
+    optionalAuth,
+    rateLimit('analytics:swellchain', 100, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: timeRangeQuerySchema }),
+    limitHistory,
+    async (req: ValidatedRequest<{}, TimeRangeQuery>, res) => {
+      try {
+        const { timeRange } = req.query;
+        const cacheKey = `analytics:swellchain:${timeRange}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getSwellchainMetrics(timeRange);
+
+        await cacheService.set(cacheKey, data, 300); // Cache for 5 minutes
 
-      const data = await analyticsService.getRealtimeMetrics();
-      
-      await cacheService.set(cacheKey, data, 30); // Cache for 30 seconds
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('Realtime metrics error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch realtime metrics',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
+        res.json({
+          success: true,
+          data,
+          timestamp: Date.now(),
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Swellchain metrics error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch Swellchain metrics',
+          timestamp: Date.now()
+        } as ApiResponse<any>);
+      }
     }
-  }
-);
-
-// Get Swellchain specific metrics
-router.get('/swellchain',
-  rateLimit('analytics:swellchain', 100, 900),
-  validateQuery(['timeRange']),
-  async (req, res) => {
-    try {
-      const { timeRange = '24h' } = req.query;
-      const cacheKey = `analytics:swellchain:${timeRange}`;
-      
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+  );
+
+  // Get the earnETH share price history and the yield it implies
+  router.get('/nucleus',
+    optionalAuth,
+    rateLimit('analytics:nucleus', 100, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: timeRangeQuerySchema }),
+    limitHistory,
+    async (req: ValidatedRequest<{}, TimeRangeQuery>, res) => {
+      try {
+        const { timeRange } = req.query;
+        const cacheKey = `analytics:nucleus:${timeRange}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await nucleusAdapter.getRateHistory(new Date(Date.now() - TIME_RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000));
+
+        await cacheService.set(cacheKey, data, 300); // Cache for 5 minutes
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Nucleus rate history error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch Nucleus rate history',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
+    }
+  );
+
+  // Get transaction data
+  router.get('/transactions',
+    optionalAuth,
+    rateLimit('analytics:transactions', 100, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: transactionsQuerySchema }),
+    limitHistory,
+    async (req: ValidatedRequest<{}, TransactionsQuery>, res) => {
+      try {
+        const { timeRange, type, limit } = req.query;
+        const cacheKey = `analytics:transactions:${timeRange}:${type || 'all'}:${limit}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await analyticsService.getTransactionData(
+          timeRange,
+          type,
+          limit
+        );
+
+        await cacheService.set(cacheKey, data, 180); // Cache for 3 minutes
 
-      const data = await analyticsService.getSwellchainMetrics(timeRange as string);
-      
-      await cacheService.set(cacheKey, data, 300); // Cache for 5 minutes
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('Swellchain metrics error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch Swellchain metrics',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
+        res.json({
+          success: true,
+          data,
+          timestamp: Date.now(),
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Transaction data error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch transaction data',
+          timestamp: Date.now()
+        } as ApiResponse<any>);
+      }
     }
-  }
-);
-
-// Get transaction data
-router.get('/transactions',
-  rateLimit('analytics:transactions', 100, 900),
-  validateQuery(['timeRange', 'type', 'limit']),
-  async (req, res) => {
-    try {
-      const { timeRange = '24h', type, limit = '100' } = req.query;
-      const cacheKey = `analytics:transactions:${timeRange}:${type || 'all'}:${limit}`;
-      
-      const cached = await cacheService.get(cacheKey);
-      if (cached) {
-        return res.json({
+  );
+
+  // Get current token prices
+  router.get('/prices',
+    rateLimit('analytics:prices', 300, FIFTEEN_MINUTES_MS),
+    validateRequest({ query: emptyQuerySchema }),
+    async (req, res) => {
+      try {
+        const cacheKey = 'analytics:prices';
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await priceService.getPrices();
+
+        await cacheService.set(cacheKey, data, 30); // Cache for 30 seconds
+
+        res.json({
           success: true,
-          data: cached,
+          data,
           timestamp: Date.now(),
-          cached: true
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Token prices error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch token prices',
+          timestamp: Date.now()
         } as ApiResponse<any>);
       }
+    }
+  );
+
+  // Get one token's price, now or at a past moment
+  router.get('/prices/:symbol',
+    rateLimit('analytics:prices', 300, FIFTEEN_MINUTES_MS),
+    validateRequest({ params: priceParamsSchema, query: priceQuerySchema }),
+    async (req: ValidatedRequest<PriceParams, PriceQuery>, res) => {
+      try {
+        const { symbol } = req.params;
+        const { at } = req.query;
+        const cacheKey = `analytics:prices:${symbol}:${at ? at.toISOString() : 'latest'}`;
+
+        const cached = await cacheService.get(cacheKey);
+        if (cached) {
+          return res.json({
+            success: true,
+            data: cached,
+            timestamp: Date.now(),
+            cached: true
+          } as ApiResponse<any>);
+        }
+
+        const data = await priceService.getPrice(symbol, at);
+        if (!data) {
+          return res.status(404).json({
+            success: false,
+            error: `No price for ${symbol}${at ? ` at ${at.toISOString()}` : ''}`,
+            timestamp: Date.now()
+          } as ApiResponse<any>);
+        }
+
+        // Past prices do not change; current ones refresh every minute
+        await cacheService.set(cacheKey, data, at && at.getTime() < Date.now() ? 3600 : 30);
 
-      const data = await analyticsService.getTransactionData(
-        timeRange as string,
-        type as string,
-        parseInt(limit as string)
-      );
-      
-      await cacheService.set(cacheKey, data, 180); // Cache for 3 minutes
-      
-      res.json({
-        success: true,
-        data,
-        timestamp: Date.now(),
-        cached: false
-      } as ApiResponse<any>);
-    } catch (error) {
-      console.error('Transaction data error:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch transaction data',
-        timestamp: Date.now()
-      } as ApiResponse<any>);
+        res.json({
+          success: true,
+          data,
+          timestamp: Date.now(),
+          cached: false
+        } as ApiResponse<any>);
+      } catch (error) {
+        console.error('Token price error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Failed to fetch token price',
+          timestamp: Date.now()
+        } as ApiResponse<any>);
+      }
     }
-  }
-);
+  );
 
-export default router; 
\ No newline at end of file
+  return router;
+};
@@ -1,562 +1,571 @@
-import express from 'express';
-import { SwellChainService } from '../services/SwellChainService';
-import { PrismaClient } from '@prisma/client';
-import Redis from 'ioredis';
-import { auth as authMiddleware, optionalAuth } from '../middleware/auth';
-import { validateQuery, validatePagination } from '../middleware/validation';
+import express, { Router } from 'express';
+import { validateRequest } from '../middleware/validation';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
-import { ApiResponse, AuthenticatedRequest, AVSMetrics, AVSOperator, AVSRewards } from '../types';
-
-const router = express.Router();
-
-// Initialize services (these would be injected in a real implementation)
-const prisma = new PrismaClient();
-const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
-const swellChainService = new SwellChainService(prisma, redis);
+import { ApiResponse, ValidatedRequest, AVSMetrics, AVSOperator, AVSRewards } from '../types';
+import {
+  avsParamsSchema,
+  avsListQuerySchema,
+  operatorsQuerySchema,
+  avsPerformanceQuerySchema,
+  stakeBodySchema,
+  AvsParams,
+  AvsListQuery,
+  OperatorsQuery,
+  AvsPerformanceQuery,
+  StakeBody
+} from '../schemas/avs';
+import { Container } from '../container';
 
 /**
- * GET /api/v1/avs
- * Get all AVS services and their metrics
+ * Build the /api/v1/avs router from the shared container
  */
-router.get('/',
-  optionalAuth,
-  validateQuery(['sort', 'order', 'status']),
-  asyncHandler(async (req, res) => {
-    const { sort = 'totalStaked', order = 'desc', status } = req.query;
-    
-    try {
-      logger.info('Fetching AVS metrics', { sort, order, status });
-      
-      let avsMetrics = await swellChainService.getAVSMetrics();
-      
-      // Apply filters
-      if (status) {
-        avsMetrics = avsMetrics.filter(avs => 
-          status === 'active' ? avs.isActive : !avs.isActive
-        );
-      }
-      
-      // Sort AVS services
-      avsMetrics.sort((a, b) => {
-        const aVal = (a as any)[sort as string] || 0;
-        const bVal = (b as any)[sort as string] || 0;
-        return order === 'desc' ? bVal - aVal : aVal - bVal;
-      });
-      
-      const response: ApiResponse<AVSMetrics[]> = {
-        success: true,
-        data: avsMetrics,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${avsMetrics.length} AVS services retrieved`);
-      res.json(response);
-    } catch (error) {
-      logger.error('Error fetching AVS metrics:', error);
-      throw error;
-    }
-  })
-);
+export const createAvsRouter = (container: Container): Router => {
+  const router = express.Router();
+  const { swellChainService } = container;
+  const { auth: authMiddleware, optionalAuth } = container.authMiddleware;
+  const { limitHistory } = container.entitlementMiddleware;
 
-/**
- * GET /api/v1/avs/:avsId
- * Get detailed metrics for a specific AVS
- */
-router.get('/:avsId',
-  optionalAuth,
-  asyncHandler(async (req, res) => {
-    const { avsId } = req.params;
-    
-    try {
-      logger.info(`Fetching AVS details for: ${avsId}`);
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      const avs = avsMetrics.find(a => a.id === avsId);
-      
-      if (!avs) {
-        return res.status(404).json({
-          success: false,
-          error: 'AVS not found',
-          timestamp: Date.now()
-        });
-      }
-      
-      const response: ApiResponse<AVSMetrics> = {
-        success: true,
-        data: avs,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`AVS details retrieved for ${avsId}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching AVS details for ${avsId}:`, error);
-      throw error;
-    }
-  })
-);
+  /**
+   * GET /api/v1/avs
+   * Get all AVS services and their metrics
+   */
+  router.get('/',
+    optionalAuth,
+    validateRequest({ query: avsListQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<{}, AvsListQuery>, res) => {
+      const { sort, order, status } = req.query;
 
-/**
- * GET /api/v1/avs/:avsId/operators
- * Get operators for a specific AVS
- */
-router.get('/:avsId/operators',
-  optionalAuth,
-  validateQuery(['sort', 'order', 'status', 'limit']),
-  asyncHandler(async (req, res) => {
-    const { avsId } = req.params;
-    const { sort = 'stake', order = 'desc', status, limit = '50' } = req.query;
-    
-    try {
-      logger.info(`Fetching operators for AVS: ${avsId}`);
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      const avs = avsMetrics.find(a => a.id === avsId);
-      
-      if (!avs) {
-        return res.status(404).json({
-          success: false,
-          error: 'AVS not found',
-          timestamp: Date.now()
+      try {
+        logger.info('Fetching AVS metrics', { sort, order, status });
+
+        let avsMetrics = await swellChainService.getAVSMetrics();
+
+        // Apply filters
+        if (status) {
+          avsMetrics = avsMetrics.filter(avs => 
+            status === 'active' ? avs.isActive : !avs.isActive
+          );
+        }
+
+        // Sort AVS services
+        avsMetrics.sort((a, b) => {
+          const aVal = a[sort] || 0;
+          const bVal = b[sort] || 0;
+          return order === 'desc' ? bVal - aVal : aVal - bVal;
         });
+
+        const response: ApiResponse<AVSMetrics[]> = {
+          success: true,
+          data: avsMetrics,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${avsMetrics.length} AVS services retrieved`);
+        res.json(response);
+      } catch (error) {
+        logger.error('Error fetching AVS metrics:', error);
+        throw error;
       }
-      
-      let operators = avs.operators;
-      
-      // Apply filters
-      if (status) {
-        operators = operators.filter(op => 
-          status === 'active' ? op.isActive : !op.isActive
-        );
+    })
+  );
+
+  /**
+   * GET /api/v1/avs/:avsId
+   * Get detailed metrics for a specific AVS
+   */
+  router.get('/:avsId',
+    optionalAuth,
+    validateRequest({ params: avsParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<AvsParams>, res) => {
+      const { avsId } = req.params;
+
+      try {
+        logger.info(`Fetching AVS details for: ${avsId}`);
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+        const avs = avsMetrics.find(a => a.id === avsId);
+
+        if (!avs) {
+          return res.status(404).json({
+            success: false,
+            error: 'AVS not found',
+            timestamp: Date.now()
+          });
+        }
+
+        const response: ApiResponse<AVSMetrics> = {
+          success: true,
+          data: avs,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`AVS details retrieved for ${avsId}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching AVS details for ${avsId}:`, error);
+        throw error;
       }
-      
-      // Sort operators
-      operators.sort((a, b) => {
-        const aVal = (a as any)[sort as string] || 0;
-        const bVal = (b as any)[sort as string] || 0;
-        return order === 'desc' ? bVal - aVal : aVal - bVal;
-      });
-      
-      // Apply limit
-      const limitNum = parseInt(limit as string);
-      operators = operators.slice(0, limitNum);
-      
-      const response: ApiResponse<AVSOperator[]> = {
-        success: true,
-        data: operators,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${operators.length} operators retrieved for ${avsId}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching operators for ${avsId}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * GET /api/v1/avs/:avsId/rewards
- * Get reward information for a specific AVS
- */
-router.get('/:avsId/rewards',
-  optionalAuth,
-  asyncHandler(async (req, res) => {
-    const { avsId } = req.params;
-    
-    try {
-      logger.info(`Fetching rewards for AVS: ${avsId}`);
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      const avs = avsMetrics.find(a => a.id === avsId);
-      
-      if (!avs) {
-        return res.status(404).json({
-          success: false,
-          error: 'AVS not found',
-          timestamp: Date.now()
+  /**
+   * GET /api/v1/avs/:avsId/operators
+   * Get operators for a specific AVS
+   */
+  router.get('/:avsId/operators',
+    optionalAuth,
+    validateRequest({ params: avsParamsSchema, query: operatorsQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<AvsParams, OperatorsQuery>, res) => {
+      const { avsId } = req.params;
+      const { sort, order, status, limit } = req.query;
+
+      try {
+        logger.info(`Fetching operators for AVS: ${avsId}`);
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+        const avs = avsMetrics.find(a => a.id === avsId);
+
+        if (!avs) {
+          return res.status(404).json({
+            success: false,
+            error: 'AVS not found',
+            timestamp: Date.now()
+          });
+        }
+
+        let operators = avs.operators;
+
+        // Apply filters
+        if (status) {
+          operators = operators.filter(op => 
+            status === 'active' ? op.isActive : !op.isActive
+          );
+        }
+
+        // Sort operators
+        operators.sort((a, b) => {
+          const aVal = a[sort] || 0;
+          const bVal = b[sort] || 0;
+          return order === 'desc' ? bVal - aVal : aVal - bVal;
         });
+
+        // Apply limit
+        operators = operators.slice(0, limit);
+
+        const response: ApiResponse<AVSOperator[]> = {
+          success: true,
+          data: operators,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${operators.length} operators retrieved for ${avsId}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching operators for ${avsId}:`, error);
+        throw error;
       }
-      
-      const response: ApiResponse<AVSRewards> = {
-        success: true,
-        data: avs.rewards,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Rewards data retrieved for ${avsId}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching rewards for ${avsId}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * GET /api/v1/avs/:avsId/performance
- * Get performance metrics for a specific AVS
- */
-router.get('/:avsId/performance',
-  optionalAuth,
-  validateQuery(['timeRange']),
-  asyncHandler(async (req, res) => {
-    const { avsId } = req.params;
-    const { timeRange = '24h' } = req.query;
-    
-    try {
-      logger.info(`Fetching performance for AVS: ${avsId}`, { timeRange });
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      const avs = avsMetrics.find(a => a.id === avsId);
-      
-      if (!avs) {
-        return res.status(404).json({
-          success: false,
-          error: 'AVS not found',
-          timestamp: Date.now()
-        });
+  /**
+   * GET /api/v1/avs/:avsId/rewards
+   * Get reward information for a specific AVS
+   */
+  router.get('/:avsId/rewards',
+    optionalAuth,
+    validateRequest({ params: avsParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<AvsParams>, res) => {
+      const { avsId } = req.params;
+
+      try {
+        logger.info(`Fetching rewards for AVS: ${avsId}`);
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+        const avs = avsMetrics.find(a => a.id === avsId);
+
+        if (!avs) {
+          return res.status(404).json({
+            success: false,
+            error: 'AVS not found',
+            timestamp: Date.now()
+          });
+        }
+
+        const response: ApiResponse<AVSRewards> = {
+          success: true,
+          data: avs.rewards,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Rewards data retrieved for ${avsId}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching rewards for ${avsId}:`, error);
+        throw error;
       }
-      
-      // In a real implementation, this would fetch historical performance data
-      const performanceData = {
-        avsId,
-        timeRange,
-        metrics: {
-          uptime: avs.uptime,
-          performanceScore: avs.performanceScore,
-          averageCommission: avs.averageCommission,
-          slashingEvents: avs.slashingEvents,
-          totalStaked: avs.totalStaked,
-          operatorCount: avs.operatorCount
-        },
-        historical: {
-          uptime: generateHistoricalData('uptime', timeRange as string),
-          performance: generateHistoricalData('performance', timeRange as string),
-          stake: generateHistoricalData('stake', timeRange as string)
-        },
-        comparison: {
-          industryAverage: {
-            uptime: 0.987,
-            performance: 0.94,
-            commission: 0.03
+    })
+  );
+
+  /**
+   * GET /api/v1/avs/:avsId/performance
+   * Get performance metrics for a specific AVS
+   */
+  router.get('/:avsId/performance',
+    optionalAuth,
+    validateRequest({ params: avsParamsSchema, query: avsPerformanceQuerySchema }),
+    limitHistory,
+    asyncHandler(async (req: ValidatedRequest<AvsParams, AvsPerformanceQuery>, res) => {
+      const { avsId } = req.params;
+      const { timeRange } = req.query;
+
+      try {
+        logger.info(`Fetching performance for AVS: ${avsId}`, { timeRange });
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+        const avs = avsMetrics.find(a => a.id === avsId);
+
+        if (!avs) {
+          return res.status(404).json({
+            success: false,
+            error: 'AVS not found',
+            timestamp: Date.now()
+          });
+        }
+
+        // In a real implementation, this would fetch historical performance data
+        const performanceData = {
+          avsId,
+          timeRange,
+          metrics: {
+            uptime: avs.uptime,
+            performanceScore: avs.performanceScore,
+            averageCommission: avs.averageCommission,
+            slashingEvents: avs.slashingEvents,
+            totalStaked: avs.totalStaked,
+            operatorCount: avs.operatorCount
+          },
+          historical: {
+            uptime: generateHistoricalData('uptime', timeRange),
+            performance: generateHistoricalData('performance', timeRange),
+            stake: generateHistoricalData('stake', timeRange)
           },
-          ranking: {
-            uptimeRank: 2,
-            performanceRank: 1,
-            stakeRank: 3,
-            totalAVS: 15
+          comparison: {
+            industryAverage: {
+              uptime: 0.987,
+              performance: 0.94,
+              commission: 0.03
+            },
+            ranking: {
+              uptimeRank: 2,
+              performanceRank: 1,
+              stakeRank: 3,
+              totalAVS: 15
+            }
           }
+        };
+
+        const response: ApiResponse<typeof performanceData> = {
+          success: true,
+          data: performanceData,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Performance data retrieved for ${avsId}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching performance for ${avsId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/avs/mach
+   * Get MACH (Fast Finality) specific metrics
+   */
+  router.get('/mach',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      try {
+        logger.info('Fetching MACH AVS metrics');
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+        const mach = avsMetrics.find(a => a.id === 'MACH');
+
+        if (!mach) {
+          return res.status(404).json({
+            success: false,
+            error: 'MACH AVS not found',
+            timestamp: Date.now()
+          });
         }
-      };
-      
-      const response: ApiResponse<typeof performanceData> = {
-        success: true,
-        data: performanceData,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Performance data retrieved for ${avsId}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching performance for ${avsId}:`, error);
-      throw error;
-    }
-  })
-);
 
-/**
- * GET /api/v1/avs/mach
- * Get MACH (Fast Finality) specific metrics
- */
-router.get('/mach',
-  optionalAuth,
-  asyncHandler(async (req, res) => {
-    try {
-      logger.info('Fetching MACH AVS metrics');
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      const mach = avsMetrics.find(a => a.id === 'MACH');
-      
-      if (!mach) {
-        return res.status(404).json({
-          success: false,
-          error: 'MACH AVS not found',
-          timestamp: Date.now()
-        });
+        // MACH-specific data
+        const machData = {
+          ...mach,
+          specific: {
+            finalityTime: 2.1, // seconds
+            crossChainTransactions: 15847,
+            bridgeVolume24h: 2547000, // USD
+            supportedChains: ['Ethereum', 'Polygon', 'Arbitrum', 'Base'],
+            latency: {
+              average: 500, // ms
+              p95: 850, // ms
+              p99: 1200 // ms
+            },
+            reliability: {
+              successRate: 99.95,
+              failureRate: 0.05,
+              downtimeLastMonth: 0
+            }
+          }
+        };
+
+        const response: ApiResponse<typeof machData> = {
+          success: true,
+          data: machData,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info('MACH AVS metrics retrieved');
+        res.json(response);
+      } catch (error) {
+        logger.error('Error fetching MACH metrics:', error);
+        throw error;
       }
-      
-      // MACH-specific data
-      const machData = {
-        ...mach,
-        specific: {
-          finalityTime: 2.1, // seconds
-          crossChainTransactions: 15847,
-          bridgeVolume24h: 2547000, // USD
-          supportedChains: ['Ethereum', 'Polygon', 'Arbitrum', 'Base'],
-          latency: {
-            average: 500, // ms
-            p95: 850, // ms
-            p99: 1200 // ms
-          },
-          reliability: {
-            successRate: 99.95,
-            failureRate: 0.05,
-            downtimeLastMonth: 0
+    })
+  );
+
+  /**
+   * GET /api/v1/avs/vital
+   * Get VITAL (Data Availability) specific metrics
+   */
+  router.get('/vital',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      try {
+        logger.info('Fetching VITAL AVS metrics');
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+        const vital = avsMetrics.find(a => a.id === 'VITAL');
+
+        if (!vital) {
+          return res.status(404).json({
+            success: false,
+            error: 'VITAL AVS not found',
+            timestamp: Date.now()
+          });
+        }
+
+        // VITAL-specific data
+        const vitalData = {
+          ...vital,
+          specific: {
+            dataAvailability: 99.97, // %
+            blobsStored: 125000,
+            storageCapacity: 50000, // GB
+            redundancyFactor: 3,
+            retrievalTime: {
+              average: 150, // ms
+              p95: 300, // ms
+              p99: 500 // ms
+            },
+            costs: {
+              storageCostPerGB: 0.001, // ETH
+              retrievalCostPerGB: 0.0001 // ETH
+            }
           }
+        };
+
+        const response: ApiResponse<typeof vitalData> = {
+          success: true,
+          data: vitalData,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info('VITAL AVS metrics retrieved');
+        res.json(response);
+      } catch (error) {
+        logger.error('Error fetching VITAL metrics:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/avs/squad
+   * Get SQUAD (Decentralized Sequencing) specific metrics
+   */
+  router.get('/squad',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      try {
+        logger.info('Fetching SQUAD AVS metrics');
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+        const squad = avsMetrics.find(a => a.id === 'SQUAD');
+
+        if (!squad) {
+          return res.status(404).json({
+            success: false,
+            error: 'SQUAD AVS not found',
+            timestamp: Date.now()
+          });
         }
-      };
-      
-      const response: ApiResponse<typeof machData> = {
-        success: true,
-        data: machData,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info('MACH AVS metrics retrieved');
-      res.json(response);
-    } catch (error) {
-      logger.error('Error fetching MACH metrics:', error);
-      throw error;
-    }
-  })
-);
 
-/**
- * GET /api/v1/avs/vital
- * Get VITAL (Data Availability) specific metrics
- */
-router.get('/vital',
-  optionalAuth,
-  asyncHandler(async (req, res) => {
-    try {
-      logger.info('Fetching VITAL AVS metrics');
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      const vital = avsMetrics.find(a => a.id === 'VITAL');
-      
-      if (!vital) {
-        return res.status(404).json({
-          success: false,
-          error: 'VITAL AVS not found',
-          timestamp: Date.now()
-        });
+        // SQUAD-specific data
+        const squadData = {
+          ...squad,
+          specific: {
+            sequencingSpeed: 5000, // TPS
+            orderingLatency: 100, // ms
+            mevProtection: 87.5, // %
+            decentralizationScore: 92.3, // %
+            sequencers: {
+              total: 45,
+              active: 42,
+              standby: 3
+            },
+            fairness: {
+              giniCoefficient: 0.15,
+              nakamotoCoefficient: 12
+            }
+          }
+        };
+
+        const response: ApiResponse<typeof squadData> = {
+          success: true,
+          data: squadData,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info('SQUAD AVS metrics retrieved');
+        res.json(response);
+      } catch (error) {
+        logger.error('Error fetching SQUAD metrics:', error);
+        throw error;
       }
-      
-      // VITAL-specific data
-      const vitalData = {
-        ...vital,
-        specific: {
-          dataAvailability: 99.97, // %
-          blobsStored: 125000,
-          storageCapacity: 50000, // GB
-          redundancyFactor: 3,
-          retrievalTime: {
-            average: 150, // ms
-            p95: 300, // ms
-            p99: 500 // ms
-          },
-          costs: {
-            storageCostPerGB: 0.001, // ETH
-            retrievalCostPerGB: 0.0001 // ETH
+    })
+  );
+
+  /**
+   * GET /api/v1/avs/overview
+   * Get overview of all AVS services
+   */
+  router.get('/overview',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      try {
+        logger.info('Fetching AVS overview');
+
+        const avsMetrics = await swellChainService.getAVSMetrics();
+
+        const overview = {
+          totalAVS: avsMetrics.length,
+          activeAVS: avsMetrics.filter(avs => avs.isActive).length,
+          totalStaked: avsMetrics.reduce((sum, avs) => sum + avs.totalStaked, 0),
+          totalOperators: avsMetrics.reduce((sum, avs) => sum + avs.operatorCount, 0),
+          averagePerformance: avsMetrics.reduce((sum, avs) => sum + avs.performanceScore, 0) / avsMetrics.length,
+          averageUptime: avsMetrics.reduce((sum, avs) => sum + avs.uptime, 0) / avsMetrics.length,
+          totalSlashingEvents: avsMetrics.reduce((sum, avs) => sum + avs.slashingEvents, 0),
+          services: avsMetrics.map(avs => ({
+            id: avs.id,
+            name: avs.name,
+            totalStaked: avs.totalStaked,
+            performanceScore: avs.performanceScore,
+            uptime: avs.uptime,
+            isActive: avs.isActive
+          })),
+          healthScore: calculateHealthScore(avsMetrics),
+          trends: {
+            stakeGrowth24h: 2.5, // %
+            performanceChange24h: 0.8, // %
+            newOperators24h: 3
           }
-        }
-      };
-      
-      const response: ApiResponse<typeof vitalData> = {
-        success: true,
-        data: vitalData,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info('VITAL AVS metrics retrieved');
-      res.json(response);
-    } catch (error) {
-      logger.error('Error fetching VITAL metrics:', error);
-      throw error;
-    }
-  })
-);
+        };
 
-/**
- * GET /api/v1/avs/squad
- * Get SQUAD (Decentralized Sequencing) specific metrics
- */
-router.get('/squad',
-  optionalAuth,
-  asyncHandler(async (req, res) => {
-    try {
-      logger.info('Fetching SQUAD AVS metrics');
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      const squad = avsMetrics.find(a => a.id === 'SQUAD');
-      
-      if (!squad) {
-        return res.status(404).json({
-          success: false,
-          error: 'SQUAD AVS not found',
+        const response: ApiResponse<typeof overview> = {
+          success: true,
+          data: overview,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info('AVS overview retrieved');
+        res.json(response);
+      } catch (error) {
+        logger.error('Error fetching AVS overview:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/avs/:avsId/stake
+   * Simulate staking to an AVS (for authenticated users)
+   */
+  router.post('/:avsId/stake',
+    authMiddleware,
+    validateRequest({ params: avsParamsSchema, body: stakeBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<AvsParams, {}, StakeBody>, res) => {
+      const { avsId } = req.params;
+      const { amount, operator } = req.body;
+
+      try {
+        logger.info(`Processing stake request for AVS: ${avsId}`, {
+          userId: req.user?.address,
+          amount,
+          operator
+        });
+
+        // In a real implementation, this would:
+        // 1. Validate the AVS and operator
+        // 2. Check user balance
+        // 3. Execute staking transaction
+        // 4. Update positions
+
+        const stakeResult = {
+          transactionId: `stake_${Date.now()}`,
+          avsId,
+          operator: operator || 'default',
+          amount,
+          estimatedRewards: amount * 0.087, // 8.7% annual yield
+          lockupPeriod: 7 * 24 * 60 * 60 * 1000, // 7 days in ms
+          status: 'pending',
+          estimatedGas: 150000,
+          gasPrice: 20 // gwei
+        };
+
+        const response: ApiResponse<typeof stakeResult> = {
+          success: true,
+          data: stakeResult,
+          message: 'Stake transaction submitted',
           timestamp: Date.now()
+        };
+
+        logger.info(`Stake transaction submitted for ${req.user?.address}`, {
+          transactionId: stakeResult.transactionId
         });
-      }
-      
-      // SQUAD-specific data
-      const squadData = {
-        ...squad,
-        specific: {
-          sequencingSpeed: 5000, // TPS
-          orderingLatency: 100, // ms
-          mevProtection: 87.5, // %
-          decentralizationScore: 92.3, // %
-          sequencers: {
-            total: 45,
-            active: 42,
-            standby: 3
-          },
-          fairness: {
-            giniCoefficient: 0.15,
-            nakamotoCoefficient: 12
-          }
-        }
-      };
-      
-      const response: ApiResponse<typeof squadData> = {
-        success: true,
-        data: squadData,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info('SQUAD AVS metrics retrieved');
-      res.json(response);
-    } catch (error) {
-      logger.error('Error fetching SQUAD metrics:', error);
-      throw error;
-    }
-  })
-);
 
-/**
- * GET /api/v1/avs/overview
- * Get overview of all AVS services
- */
-router.get('/overview',
-  optionalAuth,
-  asyncHandler(async (req, res) => {
-    try {
-      logger.info('Fetching AVS overview');
-      
-      const avsMetrics = await swellChainService.getAVSMetrics();
-      
-      const overview = {
-        totalAVS: avsMetrics.length,
-        activeAVS: avsMetrics.filter(avs => avs.isActive).length,
-        totalStaked: avsMetrics.reduce((sum, avs) => sum + avs.totalStaked, 0),
-        totalOperators: avsMetrics.reduce((sum, avs) => sum + avs.operatorCount, 0),
-        averagePerformance: avsMetrics.reduce((sum, avs) => sum + avs.performanceScore, 0) / avsMetrics.length,
-        averageUptime: avsMetrics.reduce((sum, avs) => sum + avs.uptime, 0) / avsMetrics.length,
-        totalSlashingEvents: avsMetrics.reduce((sum, avs) => sum + avs.slashingEvents, 0),
-        services: avsMetrics.map(avs => ({
-          id: avs.id,
-          name: avs.name,
-          totalStaked: avs.totalStaked,
-          performanceScore: avs.performanceScore,
-          uptime: avs.uptime,
-          isActive: avs.isActive
-        })),
-        healthScore: calculateHealthScore(avsMetrics),
-        trends: {
-          stakeGrowth24h: 2.5, // %
-          performanceChange24h: 0.8, // %
-          newOperators24h: 3
-        }
-      };
-      
-      const response: ApiResponse<typeof overview> = {
-        success: true,
-        data: overview,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info('AVS overview retrieved');
-      res.json(response);
-    } catch (error) {
-      logger.error('Error fetching AVS overview:', error);
-      throw error;
-    }
-  })
-);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error processing stake for ${avsId}:`, error);
+        throw error;
+      }
+    })
+  );
 
-/**
- * POST /api/v1/avs/:avsId/stake
- * Simulate staking to an AVS (for authenticated users)
- */
-router.post('/:avsId/stake',
-  authMiddleware,
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { avsId } = req.params;
-    const { amount, operator } = req.body;
-    
-    if (!amount || amount <= 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid stake amount',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Processing stake request for AVS: ${avsId}`, {
-        userId: req.user?.address,
-        amount,
-        operator
-      });
-      
-      // In a real implementation, this would:
-      // 1. Validate the AVS and operator
-      // 2. Check user balance
-      // 3. Execute staking transaction
-      // 4. Update positions
-      
-      const stakeResult = {
-        transactionId: `stake_${Date.now()}`,
-        avsId,
-        operator: operator || 'default',
-        amount,
-        estimatedRewards: amount * 0.087, // 8.7% annual yield
-        lockupPeriod: 7 * 24 * 60 * 60 * 1000, // 7 days in ms
-        status: 'pending',
-        estimatedGas: 150000,
-        gasPrice: 20 // gwei
-      };
-      
-      const response: ApiResponse<typeof stakeResult> = {
-        success: true,
-        data: stakeResult,
-        message: 'Stake transaction submitted',
-        timestamp: Date.now()
-      };
-      
-      logger.info(`Stake transaction submitted for ${req.user?.address}`, {
-        transactionId: stakeResult.transactionId
-      });
-      
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error processing stake for ${avsId}:`, error);
-      throw error;
-    }
-  })
-);
+  return router;
+};
 
 // Helper functions
 
@@ -604,5 +613,3 @@ function calculateHealthScore(avsMetrics: AVSMetrics[]): number {
   
   return Math.round((totalScore / avsMetrics.length) * 100) / 100;
 }
-
-export default router; 
\ No newline at end of file
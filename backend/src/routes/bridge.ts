@@ -1,438 +1,456 @@
-import express from 'express';
-import { SwellChainService } from '../services/SwellChainService';
-import { PrismaClient } from '@prisma/client';
-import Redis from 'ioredis';
-import { auth as authMiddleware, optionalAuth } from '../middleware/auth';
-import { validateQuery, validateAddress, validateBody } from '../middleware/validation';
+import express, { Router } from 'express';
+import { validateRequest } from '../middleware/validation';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 import { 
   ApiResponse, 
-  AuthenticatedRequest, 
+  ValidatedRequest, 
   CrossChainPosition, 
   BridgeOperation,
-  ChainConfig 
+  ChainConfig,
+  AggregatedCrossChainPositions
 } from '../types';
-
-const router = express.Router();
-
-// Initialize services (these would be injected in a real implementation)
-const prisma = new PrismaClient();
-const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
-const swellChainService = new SwellChainService(prisma, redis);
+import { addressParamsSchema, AddressParams } from '../schemas/common';
+import { aggregateQuerySchema, AggregateQuery } from '../schemas/wallets';
+import {
+  operationParamsSchema,
+  bridgePositionsQuerySchema,
+  transferBodySchema,
+  bridgeOperationsQuerySchema,
+  feesQuerySchema,
+  estimateBodySchema,
+  OperationParams,
+  BridgePositionsQuery,
+  TransferBody,
+  BridgeOperationsQuery,
+  FeesQuery,
+  EstimateBody
+} from '../schemas/bridge';
+import { Container } from '../container';
+import { CONFIRMATION_DEPTHS, ETHEREUM_CHAIN_ID, SWELLCHAIN_CHAIN_ID } from '../utils/chains';
 
 /**
- * GET /api/v1/bridge/positions/:address
- * Get cross-chain positions for a user
+ * Build the /api/v1/bridge router from the shared container
  */
-router.get('/positions/:address',
-  authMiddleware,
-  validateAddress('address'),
-  validateQuery(['chainId', 'token', 'status']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { chainId, token, status } = req.query;
-    
-    // Ensure user can only access their own positions
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access to bridge positions',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching cross-chain positions for address: ${address}`);
-      
-      let positions = await swellChainService.getCrossChainPositions(address);
-      
-      // Apply filters
-      if (chainId) {
-        positions = positions.filter(pos => pos.chainId === parseInt(chainId as string));
-      }
-      
-      if (token) {
-        positions = positions.filter(pos => pos.token.toLowerCase() === (token as string).toLowerCase());
+export const createBridgeRouter = (container: Container): Router => {
+  const router = express.Router();
+  const {
+    swellChainService,
+    bridgeOperationRepository,
+    activityRepository,
+    organizationService,
+    watchedWalletService
+  } = container;
+  const { auth: authMiddleware, optionalAuth } = container.authMiddleware;
+  const { canView } = container.addressAccessMiddleware;
+
+  /**
+   * GET /api/v1/bridge/positions/:address
+   * Get cross-chain positions for a user
+   */
+  router.get('/positions/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: bridgePositionsQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, BridgePositionsQuery>, res) => {
+      const { address } = req.params;
+      const { chainId, token, status } = req.query;
+
+      try {
+        logger.info(`Fetching cross-chain positions for address: ${address}`);
+
+        let positions = await swellChainService.getCrossChainPositions(address);
+
+        // Apply filters
+        if (chainId) {
+          positions = positions.filter(pos => pos.chainId === chainId);
+        }
+
+        if (token) {
+          positions = positions.filter(pos => pos.token.toLowerCase() === token.toLowerCase());
+        }
+
+        if (status) {
+          positions = positions.filter(pos => pos.status === status);
+        }
+
+        const response: ApiResponse<CrossChainPosition[]> = {
+          success: true,
+          data: positions,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${positions.length} cross-chain positions retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching cross-chain positions for ${address}:`, error);
+        throw error;
       }
-      
-      if (status) {
-        positions = positions.filter(pos => pos.status === status);
+    })
+  );
+
+  /**
+   * GET /api/v1/bridge/positions/:address/aggregate
+   * Cross-chain positions of the account's own and watch-only wallets, tagged with the wallet holding them
+   */
+  router.get('/positions/:address/aggregate',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: aggregateQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, AggregateQuery>, res) => {
+      const { address } = req.params;
+      const { group } = req.query;
+
+      try {
+        logger.info(`Fetching aggregated cross-chain positions for address: ${address}`, { group });
+
+        const { userId, address: accountAddress } = req.addressAccess!;
+        const positions = await watchedWalletService.getCrossChainPositions({ id: userId, address: accountAddress }, group);
+
+        const response: ApiResponse<AggregatedCrossChainPositions> = {
+          success: true,
+          data: positions,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${positions.positions.length} cross-chain positions retrieved across ${positions.wallets.length} wallets for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching aggregated cross-chain positions for ${address}:`, error);
+        throw error;
       }
-      
-      const response: ApiResponse<CrossChainPosition[]> = {
-        success: true,
-        data: positions,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${positions.length} cross-chain positions retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching cross-chain positions for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * POST /api/v1/bridge/transfer
- * Execute a cross-chain bridge transfer
- */
-router.post('/transfer',
-  authMiddleware,
-  validateBody(['fromChain', 'toChain', 'token', 'amount', 'recipient'], ['slippageTolerance', 'deadline']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { fromChain, toChain, token, amount, recipient, slippageTolerance = 0.02, deadline } = req.body;
-    
-    try {
-      logger.info(`Processing bridge transfer`, {
-        userId: req.user?.address,
-        fromChain,
-        toChain,
-        token,
-        amount
-      });
-      
-      // Validate bridge parameters
-      if (fromChain === toChain) {
-        return res.status(400).json({
+  /**
+   * POST /api/v1/bridge/transfer
+   * Execute a cross-chain bridge transfer
+   */
+  router.post('/transfer',
+    authMiddleware,
+    validateRequest({ body: transferBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<{}, {}, TransferBody>, res) => {
+      const { fromChain, toChain, token, amount, recipient } = req.body;
+
+      if (!req.user?.id) {
+        return res.status(401).json({
           success: false,
-          error: 'Source and destination chains cannot be the same',
+          error: 'User not authenticated',
           timestamp: Date.now()
         });
       }
-      
-      if (amount <= 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid transfer amount',
-          timestamp: Date.now()
+
+      try {
+        logger.info(`Processing bridge transfer`, {
+          userId: req.user?.address,
+          fromChain,
+          toChain,
+          token,
+          amount
         });
-      }
-      
-      // Calculate bridge fees and times
-      const bridgeDetails = await calculateBridgeCosts(fromChain, toChain, token, amount);
-      
-      const bridgeOperation: Omit<BridgeOperation, 'id' | 'timestamp' | 'status'> = {
-        userId: req.user?.address || '',
-        fromChain,
-        toChain,
-        token,
-        amount,
-        recipient,
-        fee: bridgeDetails.fee,
-        estimatedTime: bridgeDetails.estimatedTime
-      };
-      
-      const result = await swellChainService.executeBridgeOperation(bridgeOperation);
-      
-      const response: ApiResponse<BridgeOperation> = {
-        success: true,
-        data: result,
-        message: 'Bridge transfer initiated successfully',
-        timestamp: Date.now()
-      };
-      
-      logger.info(`Bridge transfer initiated for ${req.user?.address}`, {
-        operationId: result.id,
-        status: result.status
-      });
-      
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error processing bridge transfer:`, error);
-      throw error;
-    }
-  })
-);
 
-/**
- * GET /api/v1/bridge/operations/:address
- * Get bridge operation history for a user
- */
-router.get('/operations/:address',
-  authMiddleware,
-  validateAddress('address'),
-  validateQuery(['status', 'fromChain', 'toChain', 'limit', 'offset']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { status, fromChain, toChain, limit = '20', offset = '0' } = req.query;
-    
-    // Ensure user can only access their own operations
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access to bridge operations',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching bridge operations for address: ${address}`);
-      
-      // In a real implementation, this would fetch from database
-      let operations = await getBridgeOperations(address);
-      
-      // Apply filters
-      if (status) {
-        operations = operations.filter(op => op.status === status);
-      }
-      
-      if (fromChain) {
-        operations = operations.filter(op => op.fromChain === parseInt(fromChain as string));
-      }
-      
-      if (toChain) {
-        operations = operations.filter(op => op.toChain === parseInt(toChain as string));
-      }
-      
-      // Apply pagination
-      const limitNum = parseInt(limit as string);
-      const offsetNum = parseInt(offset as string);
-      const paginatedOperations = operations.slice(offsetNum, offsetNum + limitNum);
-      
-      const response: ApiResponse<BridgeOperation[]> = {
-        success: true,
-        data: paginatedOperations,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${paginatedOperations.length} bridge operations retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching bridge operations for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+        // Calculate bridge fees and times
+        const bridgeDetails = await calculateBridgeCosts(fromChain, toChain, token, amount);
 
-/**
- * GET /api/v1/bridge/operation/:operationId
- * Get details of a specific bridge operation
- */
-router.get('/operation/:operationId',
-  authMiddleware,
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { operationId } = req.params;
-    
-    try {
-      logger.info(`Fetching bridge operation: ${operationId}`);
-      
-      // In a real implementation, this would fetch from database
-      const operation = await getBridgeOperationById(operationId);
-      
-      if (!operation) {
-        return res.status(404).json({
-          success: false,
-          error: 'Bridge operation not found',
+        const bridgeOperation: Omit<BridgeOperation, 'id' | 'timestamp' | 'status'> = {
+          userId: req.user.id,
+          fromChain,
+          toChain,
+          token,
+          amount,
+          recipient,
+          fee: bridgeDetails.fee,
+          estimatedTime: bridgeDetails.estimatedTime
+        };
+
+        const executed = await swellChainService.executeBridgeOperation(bridgeOperation);
+        const result = await bridgeOperationRepository.create(executed);
+
+        await activityRepository.record(req.user.id, {
+          type: 'bridge',
+          description: `Bridged ${amount} ${token} from chain ${fromChain} to chain ${toChain}`,
+          amount,
+          token,
+          status: result.status,
+          transactionHash: result.transactionHash,
+          metadata: { operationId: result.id }
+        });
+
+        const response: ApiResponse<BridgeOperation> = {
+          success: true,
+          data: result,
+          message: 'Bridge transfer initiated successfully',
           timestamp: Date.now()
+        };
+
+        logger.info(`Bridge transfer initiated for ${req.user?.address}`, {
+          operationId: result.id,
+          status: result.status
         });
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error processing bridge transfer:`, error);
+        throw error;
       }
-      
-      // Ensure user can only access their own operations
-      if (operation.userId !== req.user?.address) {
-        return res.status(403).json({
-          success: false,
-          error: 'Unauthorized access to bridge operation',
-          timestamp: Date.now()
+    })
+  );
+
+  /**
+   * GET /api/v1/bridge/operations/:address
+   * Get bridge operation history for a user
+   */
+  router.get('/operations/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: bridgeOperationsQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, BridgeOperationsQuery>, res) => {
+      const { address } = req.params;
+      const { status, fromChain, toChain, limit, offset } = req.query;
+
+      try {
+        logger.info(`Fetching bridge operations for address: ${address}`);
+
+        const paginatedOperations = await bridgeOperationRepository.listForUser(req.addressAccess!.userId, {
+          status,
+          fromChain,
+          toChain,
+          limit,
+          offset
         });
+
+        const response: ApiResponse<BridgeOperation[]> = {
+          success: true,
+          data: paginatedOperations,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${paginatedOperations.length} bridge operations retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching bridge operations for ${address}:`, error);
+        throw error;
       }
-      
-      const response: ApiResponse<BridgeOperation> = {
-        success: true,
-        data: operation,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Bridge operation details retrieved: ${operationId}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching bridge operation ${operationId}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * GET /api/v1/bridge/chains
- * Get supported bridge chains and their configurations
- */
-router.get('/chains',
-  optionalAuth,
-  asyncHandler(async (req, res) => {
-    try {
-      logger.info('Fetching supported bridge chains');
-      
-      const supportedChains = getSupportedChains();
-      
-      const response: ApiResponse<ChainConfig[]> = {
-        success: true,
-        data: supportedChains,
-        timestamp: Date.now(),
-        cached: true
-      };
-      
-      logger.info(`${supportedChains.length} supported chains retrieved`);
-      res.json(response);
-    } catch (error) {
-      logger.error('Error fetching supported chains:', error);
-      throw error;
-    }
-  })
-);
+  /**
+   * GET /api/v1/bridge/operation/:operationId
+   * Get details of a specific bridge operation
+   */
+  router.get('/operation/:operationId',
+    authMiddleware,
+    validateRequest({ params: operationParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<OperationParams>, res) => {
+      const { operationId } = req.params;
 
-/**
- * GET /api/v1/bridge/fees
- * Get bridge fees for different chain pairs
- */
-router.get('/fees',
-  optionalAuth,
-  validateQuery(['fromChain', 'toChain', 'token', 'amount']),
-  asyncHandler(async (req, res) => {
-    const { fromChain, toChain, token, amount } = req.query;
-    
-    try {
-      logger.info('Fetching bridge fees', { fromChain, toChain, token, amount });
-      
-      if (fromChain && toChain && token && amount) {
-        // Calculate specific fees
-        const bridgeDetails = await calculateBridgeCosts(
-          parseInt(fromChain as string),
-          parseInt(toChain as string),
-          token as string,
-          parseFloat(amount as string)
-        );
-        
-        const response: ApiResponse<typeof bridgeDetails> = {
+      try {
+        logger.info(`Fetching bridge operation: ${operationId}`);
+
+        const operation = await bridgeOperationRepository.findById(operationId);
+
+        if (!operation) {
+          return res.status(404).json({
+            success: false,
+            error: 'Bridge operation not found',
+            timestamp: Date.now()
+          });
+        }
+
+        // Operations are visible to their owner and to organizations watching the owner's wallet
+        if (!(await organizationService.canViewAccount(req.user!, operation.userId))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Unauthorized access to bridge operation',
+            timestamp: Date.now()
+          });
+        }
+
+        const response: ApiResponse<BridgeOperation> = {
           success: true,
-          data: bridgeDetails,
+          data: operation,
           timestamp: Date.now(),
           cached: false
         };
-        
+
+        logger.info(`Bridge operation details retrieved: ${operationId}`);
         res.json(response);
-      } else {
-        // Return fee structure for all supported pairs
-        const feeStructure = getBridgeFeeStructure();
-        
-        const response: ApiResponse<typeof feeStructure> = {
+      } catch (error) {
+        logger.error(`Error fetching bridge operation ${operationId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/bridge/chains
+   * Get supported bridge chains and their configurations
+   */
+  router.get('/chains',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      try {
+        logger.info('Fetching supported bridge chains');
+
+        const supportedChains = getSupportedChains();
+
+        const response: ApiResponse<ChainConfig[]> = {
           success: true,
-          data: feeStructure,
+          data: supportedChains,
           timestamp: Date.now(),
           cached: true
         };
-        
+
+        logger.info(`${supportedChains.length} supported chains retrieved`);
         res.json(response);
+      } catch (error) {
+        logger.error('Error fetching supported chains:', error);
+        throw error;
       }
-    } catch (error) {
-      logger.error('Error fetching bridge fees:', error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * POST /api/v1/bridge/estimate
- * Get bridge transfer estimate without executing
- */
-router.post('/estimate',
-  optionalAuth,
-  validateBody(['fromChain', 'toChain', 'token', 'amount']),
-  asyncHandler(async (req, res) => {
-    const { fromChain, toChain, token, amount } = req.body;
-    
-    try {
-      logger.info('Calculating bridge estimate', { fromChain, toChain, token, amount });
-      
-      if (fromChain === toChain) {
-        return res.status(400).json({
-          success: false,
-          error: 'Source and destination chains cannot be the same',
-          timestamp: Date.now()
-        });
+  /**
+   * GET /api/v1/bridge/fees
+   * Get bridge fees for different chain pairs
+   */
+  router.get('/fees',
+    optionalAuth,
+    validateRequest({ query: feesQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<{}, FeesQuery>, res) => {
+      const { fromChain, toChain, token, amount } = req.query;
+
+      try {
+        logger.info('Fetching bridge fees', { fromChain, toChain, token, amount });
+
+        if (fromChain && toChain && token && amount) {
+          // Calculate specific fees
+          const bridgeDetails = await calculateBridgeCosts(fromChain, toChain, token, amount);
+
+          const response: ApiResponse<typeof bridgeDetails> = {
+            success: true,
+            data: bridgeDetails,
+            timestamp: Date.now(),
+            cached: false
+          };
+
+          res.json(response);
+        } else {
+          // Return fee structure for all supported pairs
+          const feeStructure = getBridgeFeeStructure();
+
+          const response: ApiResponse<typeof feeStructure> = {
+            success: true,
+            data: feeStructure,
+            timestamp: Date.now(),
+            cached: true
+          };
+
+          res.json(response);
+        }
+      } catch (error) {
+        logger.error('Error fetching bridge fees:', error);
+        throw error;
       }
-      
-      const estimate = await calculateBridgeCosts(fromChain, toChain, token, amount);
-      
-      // Add additional estimate details
-      const detailedEstimate = {
-        ...estimate,
-        route: getBridgeRoute(fromChain, toChain),
-        risks: getBridgeRisks(fromChain, toChain),
-        alternatives: getAlternativeRoutes(fromChain, toChain, token),
-        priceImpact: calculatePriceImpact(amount, token),
-        confidence: 0.95 // 95% confidence in estimate
-      };
-      
-      const response: ApiResponse<typeof detailedEstimate> = {
-        success: true,
-        data: detailedEstimate,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info('Bridge estimate calculated successfully');
-      res.json(response);
-    } catch (error) {
-      logger.error('Error calculating bridge estimate:', error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * GET /api/v1/bridge/status/:operationId
- * Get real-time status of a bridge operation
- */
-router.get('/status/:operationId',
-  authMiddleware,
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { operationId } = req.params;
-    
-    try {
-      logger.info(`Checking bridge operation status: ${operationId}`);
-      
-      const operation = await getBridgeOperationById(operationId);
-      
-      if (!operation) {
-        return res.status(404).json({
-          success: false,
-          error: 'Bridge operation not found',
-          timestamp: Date.now()
-        });
+  /**
+   * POST /api/v1/bridge/estimate
+   * Get bridge transfer estimate without executing
+   */
+  router.post('/estimate',
+    optionalAuth,
+    validateRequest({ body: estimateBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<{}, {}, EstimateBody>, res) => {
+      const { fromChain, toChain, token, amount } = req.body;
+
+      try {
+        logger.info('Calculating bridge estimate', { fromChain, toChain, token, amount });
+
+        const estimate = await calculateBridgeCosts(fromChain, toChain, token, amount);
+
+        // Add additional estimate details
+        const detailedEstimate = {
+          ...estimate,
+          route: getBridgeRoute(fromChain, toChain),
+          risks: getBridgeRisks(fromChain, toChain),
+          alternatives: getAlternativeRoutes(fromChain, toChain, token),
+          priceImpact: calculatePriceImpact(amount, token),
+          confidence: 0.95 // 95% confidence in estimate
+        };
+
+        const response: ApiResponse<typeof detailedEstimate> = {
+          success: true,
+          data: detailedEstimate,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info('Bridge estimate calculated successfully');
+        res.json(response);
+      } catch (error) {
+        logger.error('Error calculating bridge estimate:', error);
+        throw error;
       }
-      
-      // Ensure user can only check their own operations
-      if (operation.userId !== req.user?.address) {
-        return res.status(403).json({
-          success: false,
-          error: 'Unauthorized access',
-          timestamp: Date.now()
-        });
+    })
+  );
+
+  /**
+   * GET /api/v1/bridge/status/:operationId
+   * Get real-time status of a bridge operation
+   */
+  router.get('/status/:operationId',
+    authMiddleware,
+    validateRequest({ params: operationParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<OperationParams>, res) => {
+      const { operationId } = req.params;
+
+      try {
+        logger.info(`Checking bridge operation status: ${operationId}`);
+
+        const operation = await bridgeOperationRepository.findById(operationId);
+
+        if (!operation) {
+          return res.status(404).json({
+            success: false,
+            error: 'Bridge operation not found',
+            timestamp: Date.now()
+          });
+        }
+
+        if (!(await organizationService.canViewAccount(req.user!, operation.userId))) {
+          return res.status(403).json({
+            success: false,
+            error: 'Unauthorized access',
+            timestamp: Date.now()
+          });
+        }
+
+        // Get real-time status (in production, this would check on-chain status)
+        const statusDetails = await getBridgeOperationStatus(operation);
+
+        const response: ApiResponse<typeof statusDetails> = {
+          success: true,
+          data: statusDetails,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Bridge operation status retrieved: ${operationId}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error checking bridge operation status ${operationId}:`, error);
+        throw error;
       }
-      
-      // Get real-time status (in production, this would check on-chain status)
-      const statusDetails = await getBridgeOperationStatus(operationId);
-      
-      const response: ApiResponse<typeof statusDetails> = {
-        success: true,
-        data: statusDetails,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Bridge operation status retrieved: ${operationId}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error checking bridge operation status ${operationId}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
+
+  return router;
+};
 
 // Helper functions
 
@@ -480,7 +498,7 @@ function getSupportedChains(): ChainConfig[] {
       contracts: { bridge: '0x...' },
       isTestnet: false,
       blockTime: 12000,
-      finalityBlocks: 12
+      finalityBlocks: CONFIRMATION_DEPTHS[ETHEREUM_CHAIN_ID].finalized
     },
     {
       chainId: 1923,
@@ -491,7 +509,7 @@ function getSupportedChains(): ChainConfig[] {
       contracts: { bridge: '0x...' },
       isTestnet: false,
       blockTime: 2000,
-      finalityBlocks: 10
+      finalityBlocks: CONFIRMATION_DEPTHS[SWELLCHAIN_CHAIN_ID].finalized
     },
     {
       chainId: 137,
@@ -572,63 +590,18 @@ function calculatePriceImpact(amount: number, token: string): number {
   return 0.01; // 1%
 }
 
-async function getBridgeOperations(userAddress: string): Promise<BridgeOperation[]> {
-  // Mock data - in production, this would fetch from database
-  return [
-    {
-      id: 'bridge_1',
-      userId: userAddress,
-      fromChain: 1,
-      toChain: 1923,
-      token: 'swETH',
-      amount: 10.5,
-      recipient: userAddress,
-      status: 'confirmed',
-      transactionHash: '0x123...',
-      destinationHash: '0x456...',
-      fee: 0.015,
-      estimatedTime: 300000,
-      actualTime: 280000,
-      timestamp: Date.now() - 3600000 // 1 hour ago
-    }
-  ];
-}
-
-async function getBridgeOperationById(operationId: string): Promise<BridgeOperation | null> {
-  // Mock implementation
-  if (operationId === 'bridge_1') {
-    return {
-      id: operationId,
-      userId: '0x...',
-      fromChain: 1,
-      toChain: 1923,
-      token: 'swETH',
-      amount: 10.5,
-      recipient: '0x...',
-      status: 'confirmed',
-      transactionHash: '0x123...',
-      destinationHash: '0x456...',
-      fee: 0.015,
-      estimatedTime: 300000,
-      actualTime: 280000,
-      timestamp: Date.now() - 3600000
-    };
-  }
-  return null;
-}
-
-async function getBridgeOperationStatus(operationId: string) {
+async function getBridgeOperationStatus(operation: BridgeOperation) {
   return {
-    operationId,
-    status: 'confirmed',
-    progress: 100,
-    currentStep: 'completed',
+    operationId: operation.id,
+    status: operation.status,
+    progress: operation.status === 'confirmed' ? 100 : 50,
+    currentStep: operation.status === 'confirmed' ? 'completed' : 'validation',
     steps: [
-      { name: 'Source Transaction', status: 'completed', timestamp: Date.now() - 3600000 },
-      { name: 'Validation', status: 'completed', timestamp: Date.now() - 3300000 },
-      { name: 'Destination Transaction', status: 'completed', timestamp: Date.now() - 3000000 }
+      { name: 'Source Transaction', status: 'completed', timestamp: operation.timestamp },
+      { name: 'Validation', status: operation.status === 'confirmed' ? 'completed' : 'pending', timestamp: operation.timestamp },
+      { name: 'Destination Transaction', status: operation.status === 'confirmed' ? 'completed' : 'pending', timestamp: operation.actualTime ? operation.timestamp + operation.actualTime : null }
     ],
-    estimatedCompletion: Date.now() - 3000000,
+    estimatedCompletion: operation.timestamp + (operation.actualTime ?? operation.estimatedTime),
     confirmations: {
       source: 15,
       destination: 12,
@@ -636,5 +609,3 @@ async function getBridgeOperationStatus(operationId: string) {
     }
   };
 }
-
-export default router; 
\ No newline at end of file
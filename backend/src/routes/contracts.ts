@@ -0,0 +1,207 @@
+import express, { Router } from 'express';
+import { validateRequest } from '../middleware/validation';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  ApiResponse,
+  ValidatedRequest,
+  BridgeRoute,
+  ContractsStatus,
+  IntegrationBridgeStatus,
+  IntegrationMetrics,
+  OracleRiskScore,
+  VaultRiskProfile,
+  VaultState
+} from '../types';
+import { addressParamsSchema, AddressParams } from '../schemas/common';
+import {
+  integrationOperationParamsSchema,
+  bridgeRouteQuerySchema,
+  IntegrationOperationParams,
+  BridgeRouteQuery
+} from '../schemas/contracts';
+import { Container } from '../container';
+
+/**
+ * Build the /api/v1/contracts router from the shared container
+ */
+export const createContractsRouter = (container: Container): Router => {
+  const router = express.Router();
+  const { contractsService } = container;
+  const { optionalAuth } = container.authMiddleware;
+
+  /**
+   * GET /api/v1/contracts
+   * Swellchain addresses of the SwellScope contracts this deployment reads
+   */
+  router.get('/',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      const response: ApiResponse<ContractsStatus> = {
+        success: true,
+        data: contractsService.getStatus(),
+        timestamp: Date.now()
+      };
+
+      res.json(response);
+    })
+  );
+
+  /**
+   * GET /api/v1/contracts/vault
+   * On-chain state of the SwellScope vault and its active strategies
+   */
+  router.get('/vault',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      try {
+        logger.info('Reading SwellScope vault state');
+
+        const response: ApiResponse<VaultState> = {
+          success: true,
+          data: await contractsService.getVaultState(),
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error('Error reading SwellScope vault state:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/contracts/vault/profile/:address
+   * Risk preferences a depositor has set on the vault
+   */
+  router.get('/vault/profile/:address',
+    optionalAuth,
+    validateRequest({ params: addressParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Reading vault risk profile for address: ${address}`);
+
+        const response: ApiResponse<VaultRiskProfile> = {
+          success: true,
+          data: await contractsService.getUserRiskProfile(address),
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error reading vault risk profile for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/contracts/oracle/:address
+   * Risk score the RiskOracle currently publishes for an asset
+   */
+  router.get('/oracle/:address',
+    optionalAuth,
+    validateRequest({ params: addressParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Reading oracle risk score for asset: ${address}`);
+
+        const response: ApiResponse<OracleRiskScore> = {
+          success: true,
+          data: await contractsService.getOracleRiskScore(address),
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error reading oracle risk score for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/contracts/integration
+   * MACH, swETH and rswETH metrics and network status from the SwellChainIntegration contract
+   */
+  router.get('/integration',
+    optionalAuth,
+    asyncHandler(async (req, res) => {
+      try {
+        logger.info('Reading SwellChainIntegration metrics');
+
+        const response: ApiResponse<IntegrationMetrics> = {
+          success: true,
+          data: await contractsService.getIntegrationMetrics(),
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error('Error reading SwellChainIntegration metrics:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/contracts/integration/bridge/route
+   * Cheapest bridge the integration contract knows for a token, amount and destination chain
+   */
+  router.get('/integration/bridge/route',
+    optionalAuth,
+    validateRequest({ query: bridgeRouteQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<{}, BridgeRouteQuery>, res) => {
+      const { token, amount, targetChainId } = req.query;
+
+      try {
+        logger.info('Reading optimal bridge route', { token, amount: amount.toString(), targetChainId });
+
+        const response: ApiResponse<BridgeRoute> = {
+          success: true,
+          data: await contractsService.getOptimalBridgeRoute(token, amount, targetChainId),
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error('Error reading optimal bridge route:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/contracts/integration/bridge/:operationId
+   * Status of a bridge operation recorded by the integration contract
+   */
+  router.get('/integration/bridge/:operationId',
+    optionalAuth,
+    validateRequest({ params: integrationOperationParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<IntegrationOperationParams>, res) => {
+      const { operationId } = req.params;
+
+      try {
+        logger.info(`Reading bridge operation status: ${operationId}`);
+
+        const response: ApiResponse<IntegrationBridgeStatus> = {
+          success: true,
+          data: await contractsService.getBridgeStatus(operationId),
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error reading bridge operation ${operationId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  return router;
+};
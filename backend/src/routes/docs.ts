@@ -0,0 +1,60 @@
+import express, { Router } from 'express';
+import crypto from 'crypto';
+import { OpenApiDocument } from '../openapi/document';
+
+const CDN_ORIGIN = 'https://cdn.jsdelivr.net';
+const SWAGGER_UI_CDN = `${CDN_ORIGIN}/npm/swagger-ui-dist@5.17.14`;
+
+// Subresource integrity for the pinned version; recompute both when bumping it
+const SWAGGER_UI_CSS_INTEGRITY = 'sha384-wxLW6kwyHktdDGr6Pv1zgm/VGJh99lfUbzSn6HNHBENZlCN7W602k9VkGdxuFvPn';
+const SWAGGER_UI_BUNDLE_INTEGRITY = 'sha384-wmyclcVGX/WhUkdkATwhaK1X1JtiNrr2EoYJ+diV3vj4v6OC5yCeSu+yW13SYJep';
+
+/**
+ * Build the router serving the OpenAPI document and its browsable UI.
+ * The document is read lazily because it describes this router too.
+ */
+export const createDocsRouter = (getDocument: () => OpenApiDocument): Router => {
+  const router = express.Router();
+
+  /**
+   * GET /api/v1/openapi.json
+   * OpenAPI 3.1 document generated from the route definitions
+   */
+  router.get('/openapi.json', (req, res) => {
+    res.json(getDocument());
+  });
+
+  /**
+   * GET /api/v1/docs
+   * Swagger UI for the document above
+   */
+  router.get('/docs', (req, res) => {
+    // The global CSP only allows same-origin scripts; this page needs the UI bundle and one inline bootstrap
+    const nonce = crypto.randomBytes(16).toString('base64');
+    res.setHeader('Content-Security-Policy', [
+      "default-src 'self'",
+      `script-src 'self' 'nonce-${nonce}' ${CDN_ORIGIN}`,
+      `style-src 'self' 'unsafe-inline' ${CDN_ORIGIN}`,
+      "img-src 'self' data: https:",
+      "connect-src 'self'"
+    ].join('; '));
+
+    res.type('html').send(`<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>SwellScope API</title>
+    <link rel="stylesheet" href="${SWAGGER_UI_CDN}/swagger-ui.css" integrity="${SWAGGER_UI_CSS_INTEGRITY}" crossorigin="anonymous" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${SWAGGER_UI_CDN}/swagger-ui-bundle.js" integrity="${SWAGGER_UI_BUNDLE_INTEGRITY}" crossorigin="anonymous"></script>
+    <script nonce="${nonce}">
+      window.ui = SwaggerUIBundle({ url: './openapi.json', dom_id: '#swagger-ui' });
+    </script>
+  </body>
+</html>`);
+  });
+
+  return router;
+};
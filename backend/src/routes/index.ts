@@ -0,0 +1,29 @@
+import { Container } from '../container';
+import { ApiMount, OpenApiDocument } from '../openapi/document';
+import { createAnalyticsRouter } from './analytics';
+import { createRiskRouter } from './risk';
+import { createPortfolioRouter } from './portfolio';
+import { createAvsRouter } from './avs';
+import { createBridgeRouter } from './bridge';
+import { createContractsRouter } from './contracts';
+import { createUserRouter } from './user';
+import { createOrganizationRouter } from './organizations';
+import { createAdminRouter } from './admin';
+import { createDocsRouter } from './docs';
+
+/**
+ * Every API router with its mount path and spec tag. The docs router reads the document lazily
+ * because the document is built from these mounts.
+ */
+export const createApiMounts = (container: Container, getDocument: () => OpenApiDocument): ApiMount[] => [
+  { path: '/api/v1/analytics', tag: 'Analytics', router: createAnalyticsRouter(container) },
+  { path: '/api/v1/risk', tag: 'Risk', router: createRiskRouter(container) },
+  { path: '/api/v1/portfolio', tag: 'Portfolio', router: createPortfolioRouter(container) },
+  { path: '/api/v1/avs', tag: 'AVS', router: createAvsRouter(container) },
+  { path: '/api/v1/bridge', tag: 'Bridge', router: createBridgeRouter(container) },
+  { path: '/api/v1/contracts', tag: 'Contracts', router: createContractsRouter(container) },
+  { path: '/api/v1/user', tag: 'User', router: createUserRouter(container) },
+  { path: '/api/v1/orgs', tag: 'Organizations', router: createOrganizationRouter(container) },
+  { path: '/api/v1/admin', tag: 'Admin', router: createAdminRouter(container) },
+  { path: '/api/v1', tag: 'Docs', router: createDocsRouter(getDocument) }
+];
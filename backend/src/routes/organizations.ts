@@ -0,0 +1,622 @@
+import express, { Router } from 'express';
+import { validateRequest } from '../middleware/validation';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  ApiResponse,
+  ValidatedRequest,
+  Organization,
+  OrganizationDetails,
+  OrganizationInvite,
+  SiweChallenge,
+  WatchedAddress
+} from '../types';
+import {
+  createOrganizationBodySchema,
+  updateOrganizationBodySchema,
+  organizationParamsSchema,
+  memberParamsSchema,
+  memberRoleBodySchema,
+  createInviteBodySchema,
+  organizationInviteParamsSchema,
+  inviteParamsSchema,
+  acceptInviteBodySchema,
+  addressChallengeBodySchema,
+  attachAddressBodySchema,
+  watchedAddressParamsSchema,
+  CreateOrganizationBody,
+  UpdateOrganizationBody,
+  OrganizationParams,
+  MemberParams,
+  MemberRoleBody,
+  CreateInviteBody,
+  OrganizationInviteParams,
+  InviteParams,
+  AcceptInviteBody,
+  AddressChallengeBody,
+  AttachAddressBody,
+  WatchedAddressParams
+} from '../schemas/organizations';
+import { Container } from '../container';
+
+/**
+ * Build the /api/v1/orgs router from the shared container
+ */
+export const createOrganizationRouter = (container: Container): Router => {
+  const router = express.Router();
+  const { organizationService } = container;
+  const { auth: authMiddleware, sessionOnly } = container.authMiddleware;
+
+  /**
+   * GET /api/v1/orgs
+   * List the organizations the current user belongs to
+   */
+  router.get('/',
+    authMiddleware,
+    sessionOnly,
+    asyncHandler(async (req, res) => {
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const organizations = await organizationService.listOrganizations(userId);
+
+        const response: ApiResponse<Organization[]> = {
+          success: true,
+          data: organizations,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error('Error listing organizations:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/orgs
+   * Create an organization with the current user as owner
+   */
+  router.post('/',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ body: createOrganizationBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<{}, {}, CreateOrganizationBody>, res) => {
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const organization = await organizationService.createOrganization(userId, req.body.name);
+
+        const response: ApiResponse<Organization> = {
+          success: true,
+          data: organization,
+          message: 'Organization created',
+          timestamp: Date.now()
+        };
+
+        res.status(201).json(response);
+      } catch (error) {
+        logger.error('Error creating organization:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/orgs/invites
+   * List open invitations addressed to the current user's wallet
+   */
+  router.get('/invites',
+    authMiddleware,
+    sessionOnly,
+    asyncHandler(async (req, res) => {
+      try {
+        if (!req.user?.id) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const invites = await organizationService.listInvitesForWallet(req.user.address);
+
+        const response: ApiResponse<OrganizationInvite[]> = {
+          success: true,
+          data: invites,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error('Error listing organization invites:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/orgs/invites/:inviteId/accept
+   * Join an organization by signing the invitation's message with the invited wallet
+   */
+  router.post('/invites/:inviteId/accept',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: inviteParamsSchema, body: acceptInviteBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<InviteParams, {}, AcceptInviteBody>, res) => {
+      const { inviteId } = req.params;
+
+      try {
+        if (!req.user?.id) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const organization = await organizationService.acceptInvite(inviteId, req.user, req.body.signature as `0x${string}`);
+
+        const response: ApiResponse<OrganizationDetails> = {
+          success: true,
+          data: organization,
+          message: `Joined ${organization.name}`,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error accepting organization invite ${inviteId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/orgs/:orgId
+   * Get an organization with its members and watched addresses
+   */
+  router.get('/:orgId',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationParams>, res) => {
+      const { orgId } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const organization = await organizationService.getOrganization(orgId, userId);
+
+        const response: ApiResponse<OrganizationDetails> = {
+          success: true,
+          data: organization,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * PUT /api/v1/orgs/:orgId
+   * Rename an organization (owners only)
+   */
+  router.put('/:orgId',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationParamsSchema, body: updateOrganizationBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationParams, {}, UpdateOrganizationBody>, res) => {
+      const { orgId } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const organization = await organizationService.renameOrganization(orgId, userId, req.body.name);
+
+        const response: ApiResponse<OrganizationDetails> = {
+          success: true,
+          data: organization,
+          message: 'Organization updated',
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error updating organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * DELETE /api/v1/orgs/:orgId
+   * Delete an organization with its memberships, watched addresses and invitations (owners only)
+   */
+  router.delete('/:orgId',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationParams>, res) => {
+      const { orgId } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        await organizationService.deleteOrganization(orgId, userId);
+
+        const response: ApiResponse<{ deleted: string }> = {
+          success: true,
+          data: { deleted: orgId },
+          message: 'Organization deleted',
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error deleting organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * PUT /api/v1/orgs/:orgId/members/:userId
+   * Change a member's role (owners only). The last owner can't be demoted.
+   */
+  router.put('/:orgId/members/:userId',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: memberParamsSchema, body: memberRoleBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<MemberParams, {}, MemberRoleBody>, res) => {
+      const { orgId, userId: memberId } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const organization = await organizationService.setMemberRole(orgId, userId, memberId, req.body.role!);
+
+        const response: ApiResponse<OrganizationDetails> = {
+          success: true,
+          data: organization,
+          message: 'Member role updated',
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error updating member ${memberId} of organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * DELETE /api/v1/orgs/:orgId/members/:userId
+   * Remove a member (owners only), or leave the organization with your own user id
+   */
+  router.delete('/:orgId/members/:userId',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: memberParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<MemberParams>, res) => {
+      const { orgId, userId: memberId } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        await organizationService.removeMember(orgId, userId, memberId);
+
+        const response: ApiResponse<{ removed: string }> = {
+          success: true,
+          data: { removed: memberId },
+          message: memberId === userId ? 'Left organization' : 'Member removed',
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error removing member ${memberId} from organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/orgs/:orgId/invites
+   * List the organization's invitations (owners only)
+   */
+  router.get('/:orgId/invites',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationParams>, res) => {
+      const { orgId } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const invites = await organizationService.listInvites(orgId, userId);
+
+        const response: ApiResponse<OrganizationInvite[]> = {
+          success: true,
+          data: invites,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error listing invites of organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/orgs/:orgId/invites
+   * Invite a wallet with a role (owners only). The invited wallet accepts by signing the returned message.
+   */
+  router.post('/:orgId/invites',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationParamsSchema, body: createInviteBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationParams, {}, CreateInviteBody>, res) => {
+      const { orgId } = req.params;
+      const { address, role } = req.body;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const invite = await organizationService.inviteMember(orgId, userId, address!, role!);
+
+        const response: ApiResponse<OrganizationInvite> = {
+          success: true,
+          data: invite,
+          message: 'Invitation created',
+          timestamp: Date.now()
+        };
+
+        res.status(201).json(response);
+      } catch (error) {
+        logger.error(`Error inviting ${address} to organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * DELETE /api/v1/orgs/:orgId/invites/:inviteId
+   * Revoke a pending invitation (owners only)
+   */
+  router.delete('/:orgId/invites/:inviteId',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationInviteParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationInviteParams>, res) => {
+      const { orgId, inviteId } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        await organizationService.revokeInvite(orgId, userId, inviteId);
+
+        const response: ApiResponse<{ revoked: string }> = {
+          success: true,
+          data: { revoked: inviteId },
+          message: 'Invitation revoked',
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error revoking invite ${inviteId} of organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/orgs/:orgId/addresses/challenge
+   * Issue the message a wallet signs to be watched by the organization (owners and analysts)
+   */
+  router.post('/:orgId/addresses/challenge',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationParamsSchema, body: addressChallengeBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationParams, {}, AddressChallengeBody>, res) => {
+      const { orgId } = req.params;
+      const { address, chainId } = req.body;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const challenge = await organizationService.createAddressChallenge(orgId, userId, address!, chainId!);
+
+        const response: ApiResponse<SiweChallenge> = {
+          success: true,
+          data: challenge,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error creating address challenge for organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/orgs/:orgId/addresses
+   * Attach the wallet that signed an address challenge (owners and analysts)
+   */
+  router.post('/:orgId/addresses',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: organizationParamsSchema, body: attachAddressBodySchema }),
+    asyncHandler(async (req: ValidatedRequest<OrganizationParams, {}, AttachAddressBody>, res) => {
+      const { orgId } = req.params;
+      const { message, signature, label } = req.body;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        const watched = await organizationService.attachAddress(orgId, userId, message!, signature as `0x${string}`, label);
+
+        const response: ApiResponse<WatchedAddress> = {
+          success: true,
+          data: watched,
+          message: 'Address attached',
+          timestamp: Date.now()
+        };
+
+        res.status(201).json(response);
+      } catch (error) {
+        logger.error(`Error attaching address to organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * DELETE /api/v1/orgs/:orgId/addresses/:address
+   * Stop watching an address (owners and analysts)
+   */
+  router.delete('/:orgId/addresses/:address',
+    authMiddleware,
+    sessionOnly,
+    validateRequest({ params: watchedAddressParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<WatchedAddressParams>, res) => {
+      const { orgId, address } = req.params;
+
+      try {
+        const userId = req.user?.id;
+
+        if (!userId) {
+          return res.status(401).json({
+            success: false,
+            error: 'User not authenticated',
+            timestamp: Date.now()
+          });
+        }
+
+        await organizationService.detachAddress(orgId, userId, address);
+
+        const response: ApiResponse<{ removed: string }> = {
+          success: true,
+          data: { removed: address },
+          message: 'Address detached',
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error detaching ${address} from organization ${orgId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  return router;
+};
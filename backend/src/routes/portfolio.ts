@@ -1,550 +1,510 @@
-import express from 'express';
-import { PrismaClient } from '@prisma/client';
-import Redis from 'ioredis';
-import { auth as authMiddleware } from '../middleware/auth';
-import { validateQuery, validateAddress, validatePagination, validateBody } from '../middleware/validation';
+import express, { Router } from 'express';
+import { validateRequest } from '../middleware/validation';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 import { 
   ApiResponse, 
-  AuthenticatedRequest, 
+  ValidatedRequest, 
   PortfolioData, 
   Position, 
   Strategy, 
   PerformanceData,
-  Recommendation
+  Recommendation,
+  AggregatedPortfolio,
+  ProtocolPosition,
+  NucleusAccount
 } from '../types';
-
-const router = express.Router();
-
-// Initialize services (these would be injected in a real implementation)
-const prisma = new PrismaClient();
-const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+import { addressParamsSchema, AddressParams } from '../schemas/common';
+import { aggregateQuerySchema, AggregateQuery } from '../schemas/wallets';
+import {
+  positionsQuerySchema,
+  rebalanceBodySchema,
+  strategiesQuerySchema,
+  createStrategyBodySchema,
+  performanceQuerySchema,
+  recommendationsQuerySchema,
+  PositionsQuery,
+  RebalanceBody,
+  StrategiesQuery,
+  CreateStrategyBody,
+  PerformanceQuery,
+  RecommendationsQuery
+} from '../schemas/portfolio';
+import { Container } from '../container';
 
 /**
- * GET /api/v1/portfolio/:address
- * Get comprehensive portfolio data for a user
+ * Build the /api/v1/portfolio router from the shared container
  */
-router.get('/:address',
-  authMiddleware,
-  validateAddress('address'),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    
-    // Ensure user can only access their own portfolio
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access to portfolio',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching portfolio data for address: ${address}`);
-      
-      // In a real implementation, this would fetch from database
-      const portfolioData: PortfolioData = {
-        userId: address,
-        totalValue: 245000.50, // USD
-        totalStaked: 78.25, // ETH
-        totalEarnings: 12450.75, // USD
-        averageYield: 8.7, // %
-        riskScore: 0.35,
-        lastRebalance: Date.now() - 3 * 24 * 60 * 60 * 1000, // 3 days ago
-        positions: await getPositions(address),
-        strategies: await getStrategies(address),
-        performance: await getPerformance(address),
-        recommendations: await getRecommendations(address)
-      };
-      
-      const response: ApiResponse<PortfolioData> = {
-        success: true,
-        data: portfolioData,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Portfolio data retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching portfolio for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+export const createPortfolioRouter = (container: Container): Router => {
+  const router = express.Router();
+  const {
+    positionRepository,
+    strategyRepository,
+    recommendationRepository,
+    activityRepository,
+    watchedWalletService,
+    protocolRegistry,
+    nucleusAdapter,
+    priceService
+  } = container;
+  const { auth: authMiddleware } = container.authMiddleware;
+  const { limitHistory, withinLimit } = container.entitlementMiddleware;
+  const { canView, canAct } = container.addressAccessMiddleware;
 
-/**
- * GET /api/v1/portfolio/:address/positions
- * Get all positions for a user
- */
-router.get('/:address/positions',
-  authMiddleware,
-  validateAddress('address'),
-  validateQuery(['protocol', 'status', 'sort', 'order', 'limit']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { protocol, status, sort = 'value', order = 'desc', limit = '50' } = req.query;
-    
-    // Ensure user can only access their own positions
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching positions for address: ${address}`);
-      
-      let positions = await getPositions(address);
-      
-      // Apply filters
-      if (protocol) {
-        positions = positions.filter(pos => pos.protocol === protocol);
+  /**
+   * GET /api/v1/portfolio/:address
+   * Get comprehensive portfolio data for a user
+   */
+  router.get('/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Fetching portfolio data for address: ${address}`);
+
+        const userId = req.addressAccess!.userId;
+        const [storedPositions, strategies, performance, recommendations, rebalances] = await Promise.all([
+          positionRepository.listForUser(userId, { isActive: true, walletAddress: null }),
+          strategyRepository.listForUser(userId),
+          getPerformance(address),
+          recommendationRepository.listForUser(userId, { status: 'pending' }),
+          activityRepository.listForUser(userId, { type: 'rebalance', limit: 1 })
+        ]);
+
+        // Value positions at current USD prices; a token without one keeps its stored value
+        const symbols = Array.from(new Set(storedPositions.map(pos => pos.token)));
+        const prices = await Promise.all(symbols.map(symbol => priceService.getPrice(symbol)));
+        const positions = storedPositions.map(pos => {
+          const price = prices[symbols.indexOf(pos.token)];
+          return price ? { ...pos, value: pos.amount * price.price } : pos;
+        });
+
+        const totalValue = positions.reduce((sum, pos) => sum + pos.value, 0);
+
+        const portfolioData: PortfolioData = {
+          userId,
+          totalValue, // USD
+          totalStaked: positions.reduce((sum, pos) => sum + pos.amount, 0), // ETH
+          totalEarnings: positions.reduce((sum, pos) => sum + pos.earnings, 0), // USD
+          averageYield: totalValue > 0 ? positions.reduce((sum, pos) => sum + pos.apy * pos.value, 0) / totalValue : 0, // %
+          riskScore: totalValue > 0 ? positions.reduce((sum, pos) => sum + pos.riskScore * pos.value, 0) / totalValue : 0,
+          lastRebalance: rebalances[0]?.timestamp || 0,
+          positions,
+          strategies,
+          performance,
+          recommendations
+        };
+
+        const response: ApiResponse<PortfolioData> = {
+          success: true,
+          data: portfolioData,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Portfolio data retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching portfolio for ${address}:`, error);
+        throw error;
       }
-      
-      if (status) {
-        positions = positions.filter(pos => pos.isActive === (status === 'active'));
+    })
+  );
+
+  /**
+   * GET /api/v1/portfolio/:address/aggregate
+   * Combined portfolio of the account's own wallet and its watch-only wallets, with a per-wallet breakdown
+   */
+  router.get('/:address/aggregate',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: aggregateQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, AggregateQuery>, res) => {
+      const { address } = req.params;
+      const { group } = req.query;
+
+      try {
+        logger.info(`Fetching aggregated portfolio for address: ${address}`, { group });
+
+        const { userId, address: accountAddress } = req.addressAccess!;
+        const portfolio = await watchedWalletService.getPortfolio({ id: userId, address: accountAddress }, group);
+
+        const response: ApiResponse<AggregatedPortfolio> = {
+          success: true,
+          data: portfolio,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Aggregated portfolio retrieved for ${address}`, { wallets: portfolio.wallets.length });
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching aggregated portfolio for ${address}:`, error);
+        throw error;
       }
-      
-      // Sort positions
-      positions.sort((a, b) => {
-        const aVal = (a as any)[sort as string] || 0;
-        const bVal = (b as any)[sort as string] || 0;
-        return order === 'desc' ? bVal - aVal : aVal - bVal;
-      });
-      
-      // Apply limit
-      const limitNum = parseInt(limit as string);
-      positions = positions.slice(0, limitNum);
-      
-      const response: ApiResponse<Position[]> = {
-        success: true,
-        data: positions,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${positions.length} positions retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching positions for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * POST /api/v1/portfolio/:address/rebalance
- * Trigger portfolio rebalancing
- */
-router.post('/:address/rebalance',
-  authMiddleware,
-  validateAddress('address'),
-  validateBody(['strategy'], ['targetAllocations', 'maxSlippage', 'dryRun']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { strategy, targetAllocations, maxSlippage = 0.02, dryRun = false } = req.body;
-    
-    // Ensure user can only rebalance their own portfolio
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Starting portfolio rebalance for address: ${address}`, {
-        strategy,
-        dryRun,
-        maxSlippage
-      });
-      
-      // In a real implementation, this would:
-      // 1. Validate the strategy
-      // 2. Calculate optimal rebalancing transactions
-      // 3. Execute transactions if not dry run
-      // 4. Update portfolio state
-      
-      const rebalanceResult = {
-        id: `rebalance_${Date.now()}`,
-        userId: address,
-        strategy,
-        status: dryRun ? 'simulated' : 'completed',
-        transactions: [
-          {
-            type: 'withdraw',
-            protocol: 'swell',
-            amount: 5.5,
-            token: 'swETH',
-            estimatedGas: 120000,
-            hash: dryRun ? null : `0x${Math.random().toString(16).substr(2, 64)}`
-          },
-          {
-            type: 'deposit',
-            protocol: 'ion',
-            amount: 5.5,
-            token: 'swETH',
-            estimatedGas: 150000,
-            hash: dryRun ? null : `0x${Math.random().toString(16).substr(2, 64)}`
-          }
-        ],
-        estimatedGas: 270000,
-        estimatedTime: 480000, // 8 minutes
-        actualTime: dryRun ? null : 420000, // 7 minutes
-        slippage: 0.015,
-        fees: {
-          gas: 0.024, // ETH
-          protocol: 0.005 // ETH
-        },
-        newAllocations: {
-          'swell': 0.45,
-          'ion': 0.35,
-          'ambient': 0.20
-        },
-        timestamp: Date.now()
-      };
-      
-      const response: ApiResponse<typeof rebalanceResult> = {
-        success: true,
-        data: rebalanceResult,
-        message: dryRun ? 'Rebalance simulation completed' : 'Portfolio rebalanced successfully',
-        timestamp: Date.now()
-      };
-      
-      logger.info(`Portfolio rebalance ${dryRun ? 'simulated' : 'completed'} for ${address}`, {
-        rebalanceId: rebalanceResult.id,
-        transactions: rebalanceResult.transactions.length
-      });
-      
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error rebalancing portfolio for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+  /**
+   * GET /api/v1/portfolio/:address/positions
+   * Get all positions for a user
+   */
+  router.get('/:address/positions',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: positionsQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, PositionsQuery>, res) => {
+      const { address } = req.params;
+      const { protocol, status, sort, order, limit } = req.query;
 
-/**
- * GET /api/v1/portfolio/:address/strategies
- * Get investment strategies for a user
- */
-router.get('/:address/strategies',
-  authMiddleware,
-  validateAddress('address'),
-  validateQuery(['status', 'sort', 'order']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { status, sort = 'tvl', order = 'desc' } = req.query;
-    
-    // Ensure user can only access their own strategies
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching strategies for address: ${address}`);
-      
-      let strategies = await getStrategies(address);
-      
-      // Apply filters
-      if (status) {
-        strategies = strategies.filter(strategy => 
-          strategy.isActive === (status === 'active')
-        );
+      try {
+        logger.info(`Fetching positions for address: ${address}`);
+
+        let positions = await positionRepository.listForUser(req.addressAccess!.userId, {
+          protocol,
+          isActive: status ? status === 'active' : undefined,
+          walletAddress: null
+        });
+
+        // Sort positions
+        positions.sort((a, b) => {
+          const aVal = a[sort] || 0;
+          const bVal = b[sort] || 0;
+          return order === 'desc' ? bVal - aVal : aVal - bVal;
+        });
+
+        // Apply limit
+        positions = positions.slice(0, limit);
+
+        const response: ApiResponse<Position[]> = {
+          success: true,
+          data: positions,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${positions.length} positions retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching positions for ${address}:`, error);
+        throw error;
       }
-      
-      // Sort strategies
-      strategies.sort((a, b) => {
-        const aVal = (a as any)[sort as string] || 0;
-        const bVal = (b as any)[sort as string] || 0;
-        return order === 'desc' ? bVal - aVal : aVal - bVal;
-      });
-      
-      const response: ApiResponse<Strategy[]> = {
-        success: true,
-        data: strategies,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${strategies.length} strategies retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching strategies for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * POST /api/v1/portfolio/:address/strategies
- * Create a new investment strategy
- */
-router.post('/:address/strategies',
-  authMiddleware,
-  validateAddress('address'),
-  validateBody(['name', 'allocations'], ['description', 'riskScore', 'autoExecute']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { name, description, allocations, riskScore, autoExecute = false } = req.body;
-    
-    // Ensure user can only create strategies for their own portfolio
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Creating strategy for address: ${address}`, { name });
-      
-      // Validate allocations sum to 1
-      const allocationValues = Object.values(allocations as Record<string, number>);
-      const totalAllocation: number = allocationValues.reduce((sum: number, val: number) => sum + val, 0);
-      if (Math.abs(totalAllocation - 1) > 0.01) {
-        return res.status(400).json({
-          success: false,
-          error: 'Allocations must sum to 100%',
+  /**
+   * GET /api/v1/portfolio/:address/protocols
+   * Holdings read from chain state across every supported protocol
+   */
+  router.get('/:address/protocols',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Discovering protocol positions for address: ${address}`);
+
+        const positions = await protocolRegistry.discoverPositions(address);
+
+        const response: ApiResponse<ProtocolPosition[]> = {
+          success: true,
+          data: positions,
+          timestamp: Date.now()
+        };
+
+        logger.info(`${positions.length} protocol positions found for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error discovering protocol positions for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/portfolio/:address/nucleus
+   * earnETH shares with the address's Teller deposits and queued withdrawals
+   */
+  router.get('/:address/nucleus',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Fetching Nucleus account for address: ${address}`);
+
+        const account = await nucleusAdapter.getAccount(address);
+
+        const response: ApiResponse<NucleusAccount> = {
+          success: true,
+          data: account,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching Nucleus account for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/portfolio/:address/rebalance
+   * Trigger portfolio rebalancing
+   */
+  router.post('/:address/rebalance',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, body: rebalanceBodySchema }),
+    canAct,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, {}, RebalanceBody>, res) => {
+      const { address } = req.params;
+      const { strategy, targetAllocations, maxSlippage, dryRun } = req.body;
+
+      try {
+        logger.info(`Starting portfolio rebalance for address: ${address}`, {
+          strategy,
+          dryRun,
+          maxSlippage
+        });
+
+        // In a real implementation, this would:
+        // 1. Validate the strategy
+        // 2. Calculate optimal rebalancing transactions
+        // 3. Execute transactions if not dry run
+        // 4. Update portfolio state
+
+        const rebalanceResult = {
+          id: `rebalance_${Date.now()}`,
+          userId: address,
+          strategy,
+          status: dryRun ? 'simulated' : 'completed',
+          transactions: [
+            {
+              type: 'withdraw',
+              protocol: 'swell',
+              amount: 5.5,
+              token: 'swETH',
+              estimatedGas: 120000,
+              hash: dryRun ? null : `0x${Math.random().toString(16).substr(2, 64)}`
+            },
+            {
+              type: 'deposit',
+              protocol: 'ion',
+              amount: 5.5,
+              token: 'swETH',
+              estimatedGas: 150000,
+              hash: dryRun ? null : `0x${Math.random().toString(16).substr(2, 64)}`
+            }
+          ],
+          estimatedGas: 270000,
+          estimatedTime: 480000, // 8 minutes
+          actualTime: dryRun ? null : 420000, // 7 minutes
+          slippage: 0.015,
+          fees: {
+            gas: 0.024, // ETH
+            protocol: 0.005 // ETH
+          },
+          newAllocations: {
+            'swell': 0.45,
+            'ion': 0.35,
+            'ambient': 0.20
+          },
+          timestamp: Date.now()
+        };
+
+        const response: ApiResponse<typeof rebalanceResult> = {
+          success: true,
+          data: rebalanceResult,
+          message: dryRun ? 'Rebalance simulation completed' : 'Portfolio rebalanced successfully',
           timestamp: Date.now()
+        };
+
+        logger.info(`Portfolio rebalance ${dryRun ? 'simulated' : 'completed'} for ${address}`, {
+          rebalanceId: rebalanceResult.id,
+          transactions: rebalanceResult.transactions.length
         });
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error rebalancing portfolio for ${address}:`, error);
+        throw error;
       }
-      
-      const newStrategy: Strategy = {
-        id: `strategy_${Date.now()}`,
-        userId: address,
-        name,
-        description: description || '',
-        riskScore: riskScore || 0.5,
-        expectedYield: 8.5, // Would be calculated based on allocations
-        tvl: 0, // Initially zero
-        allocation: 0, // Not yet allocated
-        isActive: true,
-        autoExecute,
-        minAmount: 1, // 1 ETH minimum
-        maxAmount: 1000, // 1000 ETH maximum
-        fees: {
-          managementFee: 0.005, // 0.5%
-          performanceFee: 0.1, // 10%
-          withdrawalFee: 0,
-          depositFee: 0
-        },
-        performance: {
-          totalReturn: 0,
-          annualizedReturn: 0,
-          sharpeRatio: 0,
-          maxDrawdown: 0,
-          volatility: 0,
-          alpha: 0,
-          beta: 1
-        },
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      // In a real implementation, this would save to database
-      
-      const response: ApiResponse<Strategy> = {
-        success: true,
-        data: newStrategy,
-        message: 'Strategy created successfully',
-        timestamp: Date.now()
-      };
-      
-      logger.info(`Strategy created for ${address}`, { strategyId: newStrategy.id });
-      res.status(201).json(response);
-    } catch (error) {
-      logger.error(`Error creating strategy for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * GET /api/v1/portfolio/:address/performance
- * Get portfolio performance metrics
- */
-router.get('/:address/performance',
-  authMiddleware,
-  validateAddress('address'),
-  validateQuery(['timeRange']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { timeRange = '30d' } = req.query;
-    
-    // Ensure user can only access their own performance
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching performance for address: ${address}`, { timeRange });
-      
-      const performance = await getPerformance(address, timeRange as string);
-      
-      const response: ApiResponse<PerformanceData> = {
-        success: true,
-        data: performance,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Performance data retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching performance for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+  /**
+   * GET /api/v1/portfolio/:address/strategies
+   * Get investment strategies for a user
+   */
+  router.get('/:address/strategies',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: strategiesQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, StrategiesQuery>, res) => {
+      const { address } = req.params;
+      const { status, sort, order } = req.query;
 
-/**
- * GET /api/v1/portfolio/:address/recommendations
- * Get portfolio optimization recommendations
- */
-router.get('/:address/recommendations',
-  authMiddleware,
-  validateAddress('address'),
-  validateQuery(['type', 'priority']),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { type, priority } = req.query;
-    
-    // Ensure user can only access their own recommendations
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching recommendations for address: ${address}`);
-      
-      let recommendations = await getRecommendations(address);
-      
-      // Apply filters
-      if (type) {
-        recommendations = recommendations.filter(rec => rec.type === type);
+      try {
+        logger.info(`Fetching strategies for address: ${address}`);
+
+        const strategies = await strategyRepository.listForUser(
+          req.addressAccess!.userId,
+          status ? status === 'active' : undefined
+        );
+
+        // Sort strategies
+        strategies.sort((a, b) => {
+          const aVal = a[sort] || 0;
+          const bVal = b[sort] || 0;
+          return order === 'desc' ? bVal - aVal : aVal - bVal;
+        });
+
+        const response: ApiResponse<Strategy[]> = {
+          success: true,
+          data: strategies,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${strategies.length} strategies retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching strategies for ${address}:`, error);
+        throw error;
       }
-      
-      if (priority) {
-        recommendations = recommendations.filter(rec => rec.priority === priority);
+    })
+  );
+
+  /**
+   * POST /api/v1/portfolio/:address/strategies
+   * Create a new investment strategy
+   */
+  router.post('/:address/strategies',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, body: createStrategyBodySchema }),
+    canAct,
+    withinLimit('maxStrategies'),
+    asyncHandler(async (req: ValidatedRequest<AddressParams, {}, CreateStrategyBody>, res) => {
+      const { address } = req.params;
+      const { name, description, allocations, riskScore, autoExecute } = req.body;
+
+      try {
+        logger.info(`Creating strategy for address: ${address}`, { name });
+
+        const newStrategy = await strategyRepository.create(req.addressAccess!.userId, {
+          name,
+          description,
+          allocations,
+          riskScore,
+          expectedYield: 8.5, // Would be calculated based on allocations
+          autoExecute
+        });
+
+        await activityRepository.record(req.addressAccess!.userId, {
+          type: 'strategy_created',
+          description: `Created strategy ${name}`,
+          status: 'completed',
+          metadata: { strategyId: newStrategy.id }
+        });
+
+        const response: ApiResponse<Strategy> = {
+          success: true,
+          data: newStrategy,
+          message: 'Strategy created successfully',
+          timestamp: Date.now()
+        };
+
+        logger.info(`Strategy created for ${address}`, { strategyId: newStrategy.id });
+        res.status(201).json(response);
+      } catch (error) {
+        logger.error(`Error creating strategy for ${address}:`, error);
+        throw error;
       }
-      
-      const response: ApiResponse<Recommendation[]> = {
-        success: true,
-        data: recommendations,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${recommendations.length} recommendations retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching recommendations for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-// Helper functions (in a real implementation, these would be proper service methods)
+  /**
+   * GET /api/v1/portfolio/:address/performance
+   * Get portfolio performance metrics
+   */
+  router.get('/:address/performance',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: performanceQuerySchema }),
+    canView,
+    limitHistory,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, PerformanceQuery>, res) => {
+      const { address } = req.params;
+      const { timeRange } = req.query;
 
-async function getPositions(address: string): Promise<Position[]> {
-  // Mock data - in production, this would fetch from database/blockchain
-  return [
-    {
-      id: 'pos_1',
-      userId: address,
-      protocol: 'swell',
-      protocolName: 'Swell Network',
-      token: 'swETH',
-      amount: 32.5,
-      value: 97500, // USD
-      yield: 9.2,
-      riskScore: 0.25,
-      allocation: 0.4,
-      apy: 9.2,
-      earnings: 5460.75,
-      earningsChange24h: 52.34,
-      isActive: true,
-      lastUpdate: new Date(),
-      chainId: 1923,
-      contractAddress: '0x...'
-    },
-    {
-      id: 'pos_2',
-      userId: address,
-      protocol: 'ion',
-      protocolName: 'Ion Protocol',
-      token: 'swETH',
-      amount: 25.0,
-      value: 75000, // USD
-      yield: 8.9,
-      riskScore: 0.35,
-      allocation: 0.31,
-      apy: 8.9,
-      earnings: 4200.50,
-      earningsChange24h: 38.92,
-      isActive: true,
-      lastUpdate: new Date(),
-      chainId: 1923,
-      contractAddress: '0x...'
-    }
-  ];
-}
+      try {
+        logger.info(`Fetching performance for address: ${address}`, { timeRange });
 
-async function getStrategies(address: string): Promise<Strategy[]> {
-  // Mock data - in production, this would fetch from database
-  return [
-    {
-      id: 'strategy_1',
-      userId: address,
-      name: 'Conservative Yield',
-      description: 'Low-risk strategy focused on stable yields',
-      riskScore: 0.3,
-      expectedYield: 7.5,
-      tvl: 150000,
-      allocation: 0.6,
-      isActive: true,
-      autoExecute: true,
-      minAmount: 1,
-      maxAmount: 500,
-      fees: {
-        managementFee: 0.005,
-        performanceFee: 0.1,
-        withdrawalFee: 0,
-        depositFee: 0
-      },
-      performance: {
-        totalReturn: 12.5,
-        annualizedReturn: 8.2,
-        sharpeRatio: 1.8,
-        maxDrawdown: -2.1,
-        volatility: 4.5,
-        alpha: 0.8,
-        beta: 0.7
-      },
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }
-  ];
-}
+        const performance = await getPerformance(address, timeRange);
+
+        const response: ApiResponse<PerformanceData> = {
+          success: true,
+          data: performance,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Performance data retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching performance for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/portfolio/:address/recommendations
+   * Get portfolio optimization recommendations
+   */
+  router.get('/:address/recommendations',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: recommendationsQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, RecommendationsQuery>, res) => {
+      const { address } = req.params;
+      const { type, priority } = req.query;
+
+      try {
+        logger.info(`Fetching recommendations for address: ${address}`);
+
+        const recommendations = await recommendationRepository.listForUser(req.addressAccess!.userId, {
+          type,
+          priority
+        });
+
+        const response: ApiResponse<Recommendation[]> = {
+          success: true,
+          data: recommendations,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${recommendations.length} recommendations retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching recommendations for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  return router;
+};
+
+// Helper functions (in a real implementation, these would be proper service methods)
 
 async function getPerformance(address: string, timeRange: string = '30d'): Promise<PerformanceData> {
   // Mock data - in production, this would calculate from historical data
@@ -562,27 +522,3 @@ async function getPerformance(address: string, timeRange: string = '30d'): Promi
     chartData: [] // Would be populated with time series data
   };
 }
-
-async function getRecommendations(address: string): Promise<Recommendation[]> {
-  // Mock data - in production, this would be generated by AI/ML models
-  return [
-    {
-      id: 'rec_1',
-      userId: address,
-      type: 'rebalance',
-      title: 'Rebalance Portfolio',
-      description: 'Consider rebalancing to reduce concentration risk',
-      impact: 'Potential 0.8% yield improvement',
-      priority: 'medium',
-      estimatedGain: 0.008,
-      estimatedRisk: -0.05,
-      actionRequired: true,
-      autoExecutable: true,
-      relatedPositions: ['pos_1'],
-      createdAt: new Date(),
-      status: 'pending'
-    }
-  ];
-}
-
-export default router; 
\ No newline at end of file
@@ -1,405 +1,537 @@
-import express from 'express';
-import { RiskService } from '../services/RiskService';
-import { PrismaClient } from '@prisma/client';
-import Redis from 'ioredis';
-import { auth as authMiddleware } from '../middleware/auth';
-import { validateQuery, validateAddress, validatePagination } from '../middleware/validation';
+import express, { Router } from 'express';
+import { validateRequest } from '../middleware/validation';
 import { logger } from '../utils/logger';
-import { asyncHandler } from '../middleware/errorHandler';
-import { ApiResponse, AuthenticatedRequest, RiskMetrics, RiskAlert, RiskProfile } from '../types';
-
-const router = express.Router();
-
-// Initialize services (these would be injected in a real implementation)
-const prisma = new PrismaClient();
-const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
-const riskService = new RiskService(prisma, redis);
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import {
+  ApiResponse,
+  ValidatedRequest,
+  RiskMetrics,
+  RiskAlert,
+  RiskProfile,
+  AlertRule,
+  AggregatedRiskMetrics,
+  PegSample,
+  PegStatus
+} from '../types';
+import { addressParamsSchema, AddressParams, TIME_RANGE_DAYS } from '../schemas/common';
+import { aggregateQuerySchema, AggregateQuery } from '../schemas/wallets';
+import {
+  alertsQuerySchema,
+  validatorsQuerySchema,
+  avsRisksQuerySchema,
+  riskProfileUpdateSchema,
+  dismissAlertsBodySchema,
+  createAlertRuleBodySchema,
+  alertRuleParamsSchema,
+  pegParamsSchema,
+  pegHistoryQuerySchema,
+  AlertsQuery,
+  ValidatorsQuery,
+  AvsRisksQuery,
+  RiskProfileUpdateBody,
+  DismissAlertsBody,
+  CreateAlertRuleBody,
+  AlertRuleParams,
+  PegParams,
+  PegHistoryQuery
+} from '../schemas/risk';
+import { Container } from '../container';
 
 /**
- * GET /api/v1/risk/metrics/:address
- * Get comprehensive risk metrics for a user's portfolio
+ * Build the /api/v1/risk router from the shared container
  */
-router.get('/metrics/:address', 
-  validateAddress('address'),
-  asyncHandler(async (req, res) => {
-    const { address } = req.params;
-    
-    try {
-      logger.info(`Fetching risk metrics for address: ${address}`);
-      
-      const riskMetrics = await riskService.getRiskMetrics(address);
-      
-      const response: ApiResponse<RiskMetrics> = {
-        success: true,
-        data: riskMetrics,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Risk metrics retrieved successfully for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching risk metrics for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+export const createRiskRouter = (container: Container): Router => {
+  const router = express.Router();
+  const {
+    riskService,
+    userRepository,
+    riskProfileRepository,
+    riskAlertRepository,
+    alertRuleRepository,
+    watchedWalletService,
+    depegMonitor
+  } = container;
+  const { auth: authMiddleware } = container.authMiddleware;
+  const { withinLimit } = container.entitlementMiddleware;
+  const { canView, canAct } = container.addressAccessMiddleware;
 
-/**
- * GET /api/v1/risk/alerts/:address
- * Get active risk alerts for a user
- */
-router.get('/alerts/:address',
-  validateAddress('address'),
-  validateQuery(['severity', 'type', 'limit']),
-  asyncHandler(async (req, res) => {
-    const { address } = req.params;
-    const { severity, type, limit = '10' } = req.query;
-    
-    try {
-      logger.info(`Fetching risk alerts for address: ${address}`);
-      
-      let alerts = await riskService.getRiskAlerts(address);
-      
-      // Apply filters
-      if (severity) {
-        alerts = alerts.filter(alert => alert.severity === severity);
+  /**
+   * GET /api/v1/risk/metrics/:address
+   * Get comprehensive risk metrics for a user's portfolio
+   */
+  router.get('/metrics/:address', 
+    validateRequest({ params: addressParamsSchema }),
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Fetching risk metrics for address: ${address}`);
+
+        const riskMetrics = await riskService.getRiskMetrics(address);
+
+        const response: ApiResponse<RiskMetrics> = {
+          success: true,
+          data: riskMetrics,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Risk metrics retrieved successfully for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching risk metrics for ${address}:`, error);
+        throw error;
       }
-      
-      if (type) {
-        alerts = alerts.filter(alert => alert.type === type);
+    })
+  );
+
+  /**
+   * GET /api/v1/risk/metrics/:address/aggregate
+   * Risk metrics across the account's own and watch-only wallets, with a per-wallet breakdown
+   */
+  router.get('/metrics/:address/aggregate',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, query: aggregateQuerySchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, AggregateQuery>, res) => {
+      const { address } = req.params;
+      const { group } = req.query;
+
+      try {
+        logger.info(`Fetching aggregated risk metrics for address: ${address}`, { group });
+
+        const { userId, address: accountAddress } = req.addressAccess!;
+        const riskMetrics = await watchedWalletService.getRiskMetrics({ id: userId, address: accountAddress }, group);
+
+        const response: ApiResponse<AggregatedRiskMetrics> = {
+          success: true,
+          data: riskMetrics,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Aggregated risk metrics retrieved for ${address}`, { wallets: riskMetrics.wallets.length });
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching aggregated risk metrics for ${address}:`, error);
+        throw error;
       }
-      
-      // Apply limit
-      const limitNum = parseInt(limit as string);
-      alerts = alerts.slice(0, limitNum);
-      
-      const response: ApiResponse<RiskAlert[]> = {
-        success: true,
-        data: alerts,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${alerts.length} risk alerts retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching risk alerts for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * GET /api/v1/risk/profile/:address
- * Get risk profile settings for a user
- */
-router.get('/profile/:address',
-  authMiddleware,
-  validateAddress('address'),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    
-    // Ensure user can only access their own profile
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access to risk profile',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Fetching risk profile for address: ${address}`);
-      
-      // In a real implementation, this would fetch from database
-      const riskProfile: RiskProfile = {
-        userId: address,
-        riskTolerance: 'moderate',
-        maxSlashingRisk: 0.05,
-        maxLiquidityRisk: 0.3,
-        maxConcentration: 0.5,
-        rebalanceThreshold: 0.1,
-        autoRebalance: true,
-        alertThresholds: {
-          slashing: 0.03,
-          liquidity: 0.2,
-          concentration: 0.4,
-          performance: -0.1
-        },
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      const response: ApiResponse<RiskProfile> = {
-        success: true,
-        data: riskProfile,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Risk profile retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching risk profile for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+  /**
+   * GET /api/v1/risk/alerts/:address
+   * Get active risk alerts for a user
+   */
+  router.get('/alerts/:address',
+    validateRequest({ params: addressParamsSchema, query: alertsQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<AddressParams, AlertsQuery>, res) => {
+      const { address } = req.params;
+      const { severity, type, limit } = req.query;
 
-/**
- * PUT /api/v1/risk/profile/:address
- * Update risk profile settings for a user
- */
-router.put('/profile/:address',
-  authMiddleware,
-  validateAddress('address'),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const updates = req.body;
-    
-    // Ensure user can only update their own profile
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access to risk profile',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Updating risk profile for address: ${address}`);
-      
-      // Validate updates
-      const allowedFields = [
-        'riskTolerance', 'maxSlashingRisk', 'maxLiquidityRisk', 
-        'maxConcentration', 'rebalanceThreshold', 'autoRebalance', 'alertThresholds'
-      ];
-      
-      const updateFields = Object.keys(updates);
-      const invalidFields = updateFields.filter(field => !allowedFields.includes(field));
-      
-      if (invalidFields.length > 0) {
-        return res.status(400).json({
-          success: false,
-          error: `Invalid fields: ${invalidFields.join(', ')}`,
+      try {
+        logger.info(`Fetching risk alerts for address: ${address}`);
+
+        const userId = await userRepository.findIdByAddress(address);
+        const [computedAlerts, storedAlerts] = await Promise.all([
+          riskService.getRiskAlerts(address),
+          userId ? riskAlertRepository.listActive(userId) : Promise.resolve([])
+        ]);
+
+        let alerts = [...storedAlerts, ...computedAlerts];
+
+        // Apply filters
+        if (severity) {
+          alerts = alerts.filter(alert => alert.severity === severity);
+        }
+
+        if (type) {
+          alerts = alerts.filter(alert => alert.type === type);
+        }
+
+        // Apply limit
+        alerts = alerts.slice(0, limit);
+
+        const response: ApiResponse<RiskAlert[]> = {
+          success: true,
+          data: alerts,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${alerts.length} risk alerts retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching risk alerts for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/risk/depeg
+   * Market price against redemption rate for swETH and rswETH, with any active depeg
+   */
+  router.get('/depeg',
+    asyncHandler(async (req, res) => {
+      try {
+        const statuses = await depegMonitor.getStatuses();
+
+        const response: ApiResponse<PegStatus[]> = {
+          success: true,
+          data: statuses,
           timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error('Error fetching peg statuses:', error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/risk/depeg/:symbol/history
+   * Peg samples of one token over a time range, oldest first
+   */
+  router.get('/depeg/:symbol/history',
+    validateRequest({ params: pegParamsSchema, query: pegHistoryQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<PegParams, PegHistoryQuery>, res) => {
+      const { symbol } = req.params;
+      const { timeRange } = req.query;
+
+      try {
+        if (!depegMonitor.listTokens().some(token => token.symbol === symbol)) {
+          throw new NotFoundError(`${symbol} is not monitored`);
+        }
+
+        const since = new Date(Date.now() - TIME_RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000);
+        const samples = await depegMonitor.getHistory(symbol, since);
+
+        const response: ApiResponse<PegSample[]> = {
+          success: true,
+          data: samples,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching peg history for ${symbol}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/risk/profile/:address
+   * Get risk profile settings for a user
+   */
+  router.get('/profile/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Fetching risk profile for address: ${address}`);
+
+        const riskProfile = await riskProfileRepository.getForUser(req.addressAccess!.userId);
+
+        const response: ApiResponse<RiskProfile> = {
+          success: true,
+          data: riskProfile,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Risk profile retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching risk profile for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * PUT /api/v1/risk/profile/:address
+   * Update risk profile settings for a user
+   */
+  router.put('/profile/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, body: riskProfileUpdateSchema }),
+    canAct,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, {}, RiskProfileUpdateBody>, res) => {
+      const { address } = req.params;
+      const updates = req.body;
+
+      try {
+        logger.info(`Updating risk profile for address: ${address}`);
+
+        // Unset fields keep their stored values
+        const updatedProfile = await riskProfileRepository.upsert(req.addressAccess!.userId, updates);
+
+        const response: ApiResponse<RiskProfile> = {
+          success: true,
+          data: updatedProfile,
+          message: 'Risk profile updated successfully',
+          timestamp: Date.now()
+        };
+
+        logger.info(`Risk profile updated for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error updating risk profile for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/risk/assessment/:address
+   * Trigger a manual risk assessment for a user
+   */
+  router.post('/assessment/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        logger.info(`Triggering risk assessment for address: ${address}`);
+
+        // Force fresh risk calculation (bypass cache)
+        const riskMetrics = await riskService.getRiskMetrics(address);
+
+        const response: ApiResponse<RiskMetrics> = {
+          success: true,
+          data: riskMetrics,
+          message: 'Risk assessment completed',
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`Risk assessment completed for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error in risk assessment for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/risk/validators/:address
+   * Get validator risk analysis for a user's positions
+   */
+  router.get('/validators/:address',
+    validateRequest({ params: addressParamsSchema, query: validatorsQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<AddressParams, ValidatorsQuery>, res) => {
+      const { address } = req.params;
+      const { sort, order, limit } = req.query;
+
+      try {
+        logger.info(`Fetching validator risks for address: ${address}`);
+
+        const riskMetrics = await riskService.getRiskMetrics(address);
+        let validatorRisks = riskMetrics.validatorRisks || [];
+
+        // Sort validators
+        validatorRisks.sort((a, b) => {
+          const aVal = a[sort] || 0;
+          const bVal = b[sort] || 0;
+          return order === 'desc' ? bVal - aVal : aVal - bVal;
         });
+
+        // Apply limit
+        validatorRisks = validatorRisks.slice(0, limit);
+
+        const response: ApiResponse<typeof validatorRisks> = {
+          success: true,
+          data: validatorRisks,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${validatorRisks.length} validator risks retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching validator risks for ${address}:`, error);
+        throw error;
       }
-      
-      // In a real implementation, this would update the database
-      const updatedProfile: RiskProfile = {
-        userId: address,
-        riskTolerance: updates.riskTolerance || 'moderate',
-        maxSlashingRisk: updates.maxSlashingRisk || 0.05,
-        maxLiquidityRisk: updates.maxLiquidityRisk || 0.3,
-        maxConcentration: updates.maxConcentration || 0.5,
-        rebalanceThreshold: updates.rebalanceThreshold || 0.1,
-        autoRebalance: updates.autoRebalance !== undefined ? updates.autoRebalance : true,
-        alertThresholds: {
-          ...updates.alertThresholds,
-          slashing: updates.alertThresholds?.slashing || 0.03,
-          liquidity: updates.alertThresholds?.liquidity || 0.2,
-          concentration: updates.alertThresholds?.concentration || 0.4,
-          performance: updates.alertThresholds?.performance || -0.1
-        },
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      const response: ApiResponse<RiskProfile> = {
-        success: true,
-        data: updatedProfile,
-        message: 'Risk profile updated successfully',
-        timestamp: Date.now()
-      };
-      
-      logger.info(`Risk profile updated for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error updating risk profile for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+    })
+  );
 
-/**
- * POST /api/v1/risk/assessment/:address
- * Trigger a manual risk assessment for a user
- */
-router.post('/assessment/:address',
-  authMiddleware,
-  validateAddress('address'),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    
-    // Ensure user can only trigger assessment for their own address
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Triggering risk assessment for address: ${address}`);
-      
-      // Force fresh risk calculation (bypass cache)
-      const riskMetrics = await riskService.getRiskMetrics(address);
-      
-      const response: ApiResponse<RiskMetrics> = {
-        success: true,
-        data: riskMetrics,
-        message: 'Risk assessment completed',
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`Risk assessment completed for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error in risk assessment for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+  /**
+   * GET /api/v1/risk/avs/:address
+   * Get AVS risk analysis for a user's positions
+   */
+  router.get('/avs/:address',
+    validateRequest({ params: addressParamsSchema, query: avsRisksQuerySchema }),
+    asyncHandler(async (req: ValidatedRequest<AddressParams, AvsRisksQuery>, res) => {
+      const { address } = req.params;
+      const { sort, order, limit } = req.query;
 
-/**
- * GET /api/v1/risk/validators/:address
- * Get validator risk analysis for a user's positions
- */
-router.get('/validators/:address',
-  validateAddress('address'),
-  validateQuery(['sort', 'order', 'limit']),
-  asyncHandler(async (req, res) => {
-    const { address } = req.params;
-    const { sort = 'riskScore', order = 'desc', limit = '20' } = req.query;
-    
-    try {
-      logger.info(`Fetching validator risks for address: ${address}`);
-      
-      const riskMetrics = await riskService.getRiskMetrics(address);
-      let validatorRisks = riskMetrics.validatorRisks || [];
-      
-      // Sort validators
-      validatorRisks.sort((a, b) => {
-        const aVal = (a as any)[sort as string] || 0;
-        const bVal = (b as any)[sort as string] || 0;
-        return order === 'desc' ? bVal - aVal : aVal - bVal;
-      });
-      
-      // Apply limit
-      const limitNum = parseInt(limit as string);
-      validatorRisks = validatorRisks.slice(0, limitNum);
-      
-      const response: ApiResponse<typeof validatorRisks> = {
-        success: true,
-        data: validatorRisks,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${validatorRisks.length} validator risks retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching validator risks for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+      try {
+        logger.info(`Fetching AVS risks for address: ${address}`);
 
-/**
- * GET /api/v1/risk/avs/:address
- * Get AVS risk analysis for a user's positions
- */
-router.get('/avs/:address',
-  validateAddress('address'),
-  validateQuery(['sort', 'order', 'limit']),
-  asyncHandler(async (req, res) => {
-    const { address } = req.params;
-    const { sort = 'riskScore', order = 'desc', limit = '10' } = req.query;
-    
-    try {
-      logger.info(`Fetching AVS risks for address: ${address}`);
-      
-      const riskMetrics = await riskService.getRiskMetrics(address);
-      let avsRisks = riskMetrics.avsRisks || [];
-      
-      // Sort AVS risks
-      avsRisks.sort((a, b) => {
-        const aVal = (a as any)[sort as string] || 0;
-        const bVal = (b as any)[sort as string] || 0;
-        return order === 'desc' ? bVal - aVal : aVal - bVal;
-      });
-      
-      // Apply limit
-      const limitNum = parseInt(limit as string);
-      avsRisks = avsRisks.slice(0, limitNum);
-      
-      const response: ApiResponse<typeof avsRisks> = {
-        success: true,
-        data: avsRisks,
-        timestamp: Date.now(),
-        cached: false
-      };
-      
-      logger.info(`${avsRisks.length} AVS risks retrieved for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error fetching AVS risks for ${address}:`, error);
-      throw error;
-    }
-  })
-);
+        const riskMetrics = await riskService.getRiskMetrics(address);
+        let avsRisks = riskMetrics.avsRisks || [];
 
-/**
- * POST /api/v1/risk/alerts/:address/dismiss
- * Dismiss specific risk alerts
- */
-router.post('/alerts/:address/dismiss',
-  authMiddleware,
-  validateAddress('address'),
-  asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const { address } = req.params;
-    const { alertIds } = req.body;
-    
-    // Ensure user can only dismiss their own alerts
-    if (req.user?.address !== address) {
-      return res.status(403).json({
-        success: false,
-        error: 'Unauthorized access',
-        timestamp: Date.now()
-      });
-    }
-    
-    if (!alertIds || !Array.isArray(alertIds)) {
-      return res.status(400).json({
-        success: false,
-        error: 'alertIds must be an array',
-        timestamp: Date.now()
-      });
-    }
-    
-    try {
-      logger.info(`Dismissing alerts for address: ${address}`, { alertIds });
-      
-      // In a real implementation, this would update alert status in database
-      
-      const response: ApiResponse<{ dismissed: string[] }> = {
-        success: true,
-        data: { dismissed: alertIds },
-        message: `${alertIds.length} alerts dismissed`,
-        timestamp: Date.now()
-      };
-      
-      logger.info(`${alertIds.length} alerts dismissed for ${address}`);
-      res.json(response);
-    } catch (error) {
-      logger.error(`Error dismissing alerts for ${address}:`, error);
-      throw error;
-    }
-  })
-);
-
-export default router; 
\ No newline at end of file
+        // Sort AVS risks
+        avsRisks.sort((a, b) => {
+          const aVal = a[sort] || 0;
+          const bVal = b[sort] || 0;
+          return order === 'desc' ? bVal - aVal : aVal - bVal;
+        });
+
+        // Apply limit
+        avsRisks = avsRisks.slice(0, limit);
+
+        const response: ApiResponse<typeof avsRisks> = {
+          success: true,
+          data: avsRisks,
+          timestamp: Date.now(),
+          cached: false
+        };
+
+        logger.info(`${avsRisks.length} AVS risks retrieved for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching AVS risks for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/risk/alerts/:address/dismiss
+   * Dismiss specific risk alerts
+   */
+  router.post('/alerts/:address/dismiss',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, body: dismissAlertsBodySchema }),
+    canAct,
+    asyncHandler(async (req: ValidatedRequest<AddressParams, {}, DismissAlertsBody>, res) => {
+      const { address } = req.params;
+      const { alertIds } = req.body;
+
+      try {
+        logger.info(`Dismissing alerts for address: ${address}`, { alertIds });
+
+        const dismissed = await riskAlertRepository.dismiss(req.addressAccess!.userId, alertIds);
+
+        const response: ApiResponse<{ dismissed: string[] }> = {
+          success: true,
+          data: { dismissed },
+          message: `${dismissed.length} alerts dismissed`,
+          timestamp: Date.now()
+        };
+
+        logger.info(`${dismissed.length} alerts dismissed for ${address}`);
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error dismissing alerts for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * GET /api/v1/risk/alert-rules/:address
+   * List the user's custom alert rules
+   */
+  router.get('/alert-rules/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema }),
+    canView,
+    asyncHandler(async (req: ValidatedRequest<AddressParams>, res) => {
+      const { address } = req.params;
+
+      try {
+        const rules = await alertRuleRepository.listForUser(req.addressAccess!.userId);
+
+        const response: ApiResponse<AlertRule[]> = {
+          success: true,
+          data: rules,
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error fetching alert rules for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * POST /api/v1/risk/alert-rules/:address
+   * Create a custom alert rule; the number of rules is capped by subscription tier
+   */
+  router.post('/alert-rules/:address',
+    authMiddleware,
+    validateRequest({ params: addressParamsSchema, body: createAlertRuleBodySchema }),
+    canAct,
+    withinLimit('alerts'),
+    asyncHandler(async (req: ValidatedRequest<AddressParams, {}, CreateAlertRuleBody>, res) => {
+      const { address } = req.params;
+      const { name, metric, threshold, channels } = req.body;
+
+      try {
+        logger.info(`Creating alert rule for address: ${address}`, { metric, threshold });
+
+        const rule = await alertRuleRepository.create(req.addressAccess!.userId, { name, metric, threshold, channels });
+
+        const response: ApiResponse<AlertRule> = {
+          success: true,
+          data: rule,
+          message: 'Alert rule created',
+          timestamp: Date.now()
+        };
+
+        res.status(201).json(response);
+      } catch (error) {
+        logger.error(`Error creating alert rule for ${address}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  /**
+   * DELETE /api/v1/risk/alert-rules/:address/:ruleId
+   * Delete a custom alert rule
+   */
+  router.delete('/alert-rules/:address/:ruleId',
+    authMiddleware,
+    validateRequest({ params: alertRuleParamsSchema }),
+    canAct,
+    asyncHandler(async (req: ValidatedRequest<AlertRuleParams>, res) => {
+      const { address, ruleId } = req.params;
+
+      try {
+        const deleted = await alertRuleRepository.delete(req.addressAccess!.userId, ruleId);
+        if (!deleted) {
+          throw new NotFoundError('Alert rule not found');
+        }
+
+        const response: ApiResponse<{ deleted: string[] }> = {
+          success: true,
+          data: { deleted: [ruleId] },
+          message: 'Alert rule deleted',
+          timestamp: Date.now()
+        };
+
+        res.json(response);
+      } catch (error) {
+        logger.error(`Error deleting alert rule ${ruleId}:`, error);
+        throw error;
+      }
+    })
+  );
+
+  return router;
+};
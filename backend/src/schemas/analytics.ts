@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { chainIdSchema, chartRangeSchema, limitSchema, orderSchema, timeRangeSchema } from './common';
+
+export const overviewQuerySchema = z.object({
+  timeRange: chartRangeSchema.default('24h'),
+  chain: chainIdSchema.default(1101)
+}).strict();
+
+export const protocolSeriesQuerySchema = z.object({
+  timeRange: chartRangeSchema.default('24h'),
+  protocol: z.string().min(1).optional()
+}).strict();
+
+export const protocolsQuerySchema = z.object({
+  sortBy: z.enum(['tvl', 'yield', 'riskScore', 'users']).default('tvl'),
+  order: orderSchema.default('desc'),
+  limit: limitSchema(50)
+}).strict();
+
+export const timeRangeQuerySchema = z.object({
+  timeRange: timeRangeSchema.default('24h')
+}).strict();
+
+export const chartRangeQuerySchema = z.object({
+  timeRange: chartRangeSchema.default('24h')
+}).strict();
+
+export const emptyQuerySchema = z.object({}).strict();
+
+export const transactionsQuerySchema = z.object({
+  timeRange: timeRangeSchema.default('24h'),
+  type: z.enum(['deposit', 'withdraw', 'rebalance', 'claim', 'bridge']).optional(),
+  limit: limitSchema(100, 500)
+}).strict();
+
+export const priceParamsSchema = z.object({
+  symbol: z.string().regex(/^[A-Za-z0-9]{1,16}$/, 'Invalid token symbol')
+});
+
+export const priceQuerySchema = z.object({
+  // Look the price up in history instead of returning the current one
+  at: z.string().datetime().transform(value => new Date(value)).optional()
+}).strict();
+
+export type OverviewQuery = z.infer<typeof overviewQuerySchema>;
+export type ProtocolSeriesQuery = z.infer<typeof protocolSeriesQuerySchema>;
+export type ProtocolsQuery = z.infer<typeof protocolsQuerySchema>;
+export type TimeRangeQuery = z.infer<typeof timeRangeQuerySchema>;
+export type ChartRangeQuery = z.infer<typeof chartRangeQuerySchema>;
+export type TransactionsQuery = z.infer<typeof transactionsQuerySchema>;
+export type PriceParams = z.infer<typeof priceParamsSchema>;
+export type PriceQuery = z.infer<typeof priceQuerySchema>;
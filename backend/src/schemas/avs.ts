@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { limitSchema, orderSchema, timeRangeSchema } from './common';
+
+const activeStatusSchema = z.enum(['active', 'inactive']);
+
+export const avsParamsSchema = z.object({
+  avsId: z.string().trim().min(1).max(64)
+});
+
+export const avsListQuerySchema = z.object({
+  sort: z.enum(['totalStaked', 'operatorCount', 'performanceScore', 'slashingEvents', 'slashingRisk', 'averageCommission', 'uptime'])
+    .default('totalStaked'),
+  order: orderSchema.default('desc'),
+  status: activeStatusSchema.optional()
+}).strict();
+
+export const operatorsQuerySchema = z.object({
+  sort: z.enum(['stake', 'commission', 'performanceScore', 'slashingHistory']).default('stake'),
+  order: orderSchema.default('desc'),
+  status: activeStatusSchema.optional(),
+  limit: limitSchema(50)
+}).strict();
+
+export const avsPerformanceQuerySchema = z.object({
+  timeRange: timeRangeSchema.default('24h')
+}).strict();
+
+export const stakeBodySchema = z.object({
+  amount: z.number().positive(),
+  operator: z.string().min(1).optional()
+});
+
+export type AvsParams = z.infer<typeof avsParamsSchema>;
+export type AvsListQuery = z.infer<typeof avsListQuerySchema>;
+export type OperatorsQuery = z.infer<typeof operatorsQuerySchema>;
+export type AvsPerformanceQuery = z.infer<typeof avsPerformanceQuerySchema>;
+export type StakeBody = z.infer<typeof stakeBodySchema>;
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { addressSchema, chainIdSchema, limitSchema, offsetSchema } from './common';
+
+const tokenSchema = z.string().trim().min(1).max(32);
+
+/**
+ * Source and destination chains of a bridge request must differ
+ */
+const distinctChains = <T extends { fromChain?: number; toChain?: number }>(value: T) =>
+  value.fromChain === undefined || value.fromChain !== value.toChain;
+
+const distinctChainsError = {
+  message: 'Source and destination chains cannot be the same',
+  path: ['toChain']
+};
+
+export const operationParamsSchema = z.object({
+  operationId: z.string().trim().min(1)
+});
+
+export const bridgePositionsQuerySchema = z.object({
+  chainId: chainIdSchema.optional(),
+  token: tokenSchema.optional(),
+  status: z.enum(['active', 'pending', 'failed']).optional()
+}).strict();
+
+export const transferBodySchema = z.object({
+  fromChain: z.number().int().positive(),
+  toChain: z.number().int().positive(),
+  token: tokenSchema,
+  amount: z.number().positive(),
+  recipient: addressSchema,
+  slippageTolerance: z.number().min(0).max(0.5).default(0.02),
+  deadline: z.number().int().positive().optional()
+}).refine(distinctChains, distinctChainsError);
+
+export const bridgeOperationsQuerySchema = z.object({
+  status: z.enum(['pending', 'confirmed', 'failed', 'cancelled']).optional(),
+  fromChain: chainIdSchema.optional(),
+  toChain: chainIdSchema.optional(),
+  limit: limitSchema(20),
+  offset: offsetSchema
+}).strict();
+
+export const feesQuerySchema = z.object({
+  fromChain: chainIdSchema.optional(),
+  toChain: chainIdSchema.optional(),
+  token: tokenSchema.optional(),
+  amount: z.coerce.number().positive().optional()
+}).strict();
+
+export const estimateBodySchema = z.object({
+  fromChain: z.number().int().positive(),
+  toChain: z.number().int().positive(),
+  token: tokenSchema,
+  amount: z.number().positive()
+}).refine(distinctChains, distinctChainsError);
+
+export type OperationParams = z.infer<typeof operationParamsSchema>;
+export type BridgePositionsQuery = z.infer<typeof bridgePositionsQuerySchema>;
+export type TransferBody = z.infer<typeof transferBodySchema>;
+export type BridgeOperationsQuery = z.infer<typeof bridgeOperationsQuerySchema>;
+export type FeesQuery = z.infer<typeof feesQuerySchema>;
+export type EstimateBody = z.infer<typeof estimateBodySchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address');
+
+export const txHashSchema = z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash');
+
+export const timeRangeSchema = z.enum(['1h', '24h', '7d', '30d', '90d', '1y']);
+
+export type TimeRangeValue = z.infer<typeof timeRangeSchema>;
+
+/** Chart ranges add 'all': as far back as the caller's plan keeps history */
+export const chartRangeSchema = z.enum(['1h', '24h', '7d', '30d', '90d', '1y', 'all']);
+
+export type ChartRangeValue = z.infer<typeof chartRangeSchema>;
+
+/** How far back each time range reaches, in days */
+export const TIME_RANGE_DAYS: Record<TimeRangeValue, number> = {
+  '1h': 1 / 24,
+  '24h': 1,
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+};
+
+export const orderSchema = z.enum(['asc', 'desc']);
+
+export const chainIdSchema = z.coerce.number().int().positive();
+
+/**
+ * Positive integer page size, capped at `max`
+ */
+export const limitSchema = (defaultValue: number, max: number = 100) =>
+  z.coerce.number().int().min(1).max(max).default(defaultValue);
+
+export const offsetSchema = z.coerce.number().int().min(0).default(0);
+
+/**
+ * Query-string boolean: only the literal strings "true" and "false" are accepted
+ */
+export const booleanQuerySchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+export const addressParamsSchema = z.object({ address: addressSchema });
+
+export type AddressParams = z.infer<typeof addressParamsSchema>;
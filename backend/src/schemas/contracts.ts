@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { addressSchema, chainIdSchema } from './common';
+
+export const integrationOperationParamsSchema = z.object({
+  operationId: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid operation id')
+});
+
+export const bridgeRouteQuerySchema = z.object({
+  token: addressSchema,
+  /** Amount in the token's base units */
+  amount: z.string().regex(/^\d{1,78}$/, 'Amount must be an integer in base units').transform(value => BigInt(value)),
+  targetChainId: chainIdSchema
+}).strict();
+
+export type IntegrationOperationParams = z.infer<typeof integrationOperationParamsSchema>;
+export type BridgeRouteQuery = z.infer<typeof bridgeRouteQuerySchema>;
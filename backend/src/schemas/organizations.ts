@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { addressSchema, chainIdSchema } from './common';
+
+const hexSchema = z.string().regex(/^0x[a-fA-F0-9]*$/, 'Must be a 0x-prefixed hex string');
+
+export const organizationRoleSchema = z.enum(['owner', 'analyst', 'viewer']);
+
+const organizationNameSchema = z.string().trim().min(1).max(100);
+
+export const createOrganizationBodySchema = z.object({
+  name: organizationNameSchema
+}).strict();
+
+export const updateOrganizationBodySchema = z.object({
+  name: organizationNameSchema
+}).strict();
+
+export const organizationParamsSchema = z.object({
+  orgId: z.string().trim().min(1)
+});
+
+export const memberParamsSchema = organizationParamsSchema.extend({
+  userId: z.string().trim().min(1)
+});
+
+export const memberRoleBodySchema = z.object({
+  role: organizationRoleSchema
+}).strict();
+
+export const createInviteBodySchema = z.object({
+  address: addressSchema,
+  role: organizationRoleSchema.default('viewer')
+}).strict();
+
+export const organizationInviteParamsSchema = organizationParamsSchema.extend({
+  inviteId: z.string().trim().min(1)
+});
+
+export const inviteParamsSchema = z.object({
+  inviteId: z.string().trim().min(1)
+});
+
+export const acceptInviteBodySchema = z.object({
+  signature: hexSchema
+}).strict();
+
+export const addressChallengeBodySchema = z.object({
+  address: addressSchema,
+  chainId: chainIdSchema.default(1)
+}).strict();
+
+export const attachAddressBodySchema = z.object({
+  message: z.string().min(1).max(4096),
+  signature: hexSchema,
+  label: z.string().trim().min(1).max(100).optional()
+}).strict();
+
+export const watchedAddressParamsSchema = organizationParamsSchema.extend({
+  address: addressSchema
+});
+
+export type CreateOrganizationBody = z.infer<typeof createOrganizationBodySchema>;
+export type UpdateOrganizationBody = z.infer<typeof updateOrganizationBodySchema>;
+export type OrganizationParams = z.infer<typeof organizationParamsSchema>;
+export type MemberParams = z.infer<typeof memberParamsSchema>;
+export type MemberRoleBody = z.infer<typeof memberRoleBodySchema>;
+export type CreateInviteBody = z.infer<typeof createInviteBodySchema>;
+export type OrganizationInviteParams = z.infer<typeof organizationInviteParamsSchema>;
+export type InviteParams = z.infer<typeof inviteParamsSchema>;
+export type AcceptInviteBody = z.infer<typeof acceptInviteBodySchema>;
+export type AddressChallengeBody = z.infer<typeof addressChallengeBodySchema>;
+export type AttachAddressBody = z.infer<typeof attachAddressBodySchema>;
+export type WatchedAddressParams = z.infer<typeof watchedAddressParamsSchema>;
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { limitSchema, orderSchema, timeRangeSchema } from './common';
+
+const activeStatusSchema = z.enum(['active', 'inactive']);
+
+/**
+ * Protocol -> weight map; weights must add up to 1 (within 1%)
+ */
+const allocationsSchema = z.record(z.string().min(1), z.number().min(0).max(1))
+  .refine(allocations => Object.keys(allocations).length > 0, 'At least one allocation is required')
+  .refine(allocations => {
+    const total = Object.values(allocations).reduce((sum, value) => sum + value, 0);
+    return Math.abs(total - 1) <= 0.01;
+  }, 'Allocations must sum to 100%');
+
+export const positionsQuerySchema = z.object({
+  protocol: z.string().min(1).optional(),
+  status: activeStatusSchema.optional(),
+  sort: z.enum(['value', 'amount', 'yield', 'apy', 'riskScore', 'allocation', 'earnings']).default('value'),
+  order: orderSchema.default('desc'),
+  limit: limitSchema(50)
+}).strict();
+
+export const rebalanceBodySchema = z.object({
+  strategy: z.string().min(1),
+  targetAllocations: allocationsSchema.optional(),
+  maxSlippage: z.number().min(0).max(0.5).default(0.02),
+  dryRun: z.boolean().default(false)
+});
+
+export const strategiesQuerySchema = z.object({
+  status: activeStatusSchema.optional(),
+  sort: z.enum(['tvl', 'riskScore', 'expectedYield', 'allocation']).default('tvl'),
+  order: orderSchema.default('desc')
+}).strict();
+
+export const createStrategyBodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  allocations: allocationsSchema,
+  riskScore: z.number().min(0).max(1).optional(),
+  autoExecute: z.boolean().default(false)
+});
+
+export const performanceQuerySchema = z.object({
+  timeRange: timeRangeSchema.default('30d')
+}).strict();
+
+export const recommendationsQuerySchema = z.object({
+  type: z.enum(['rebalance', 'strategy_change', 'risk_adjustment', 'yield_optimization']).optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional()
+}).strict();
+
+export type PositionsQuery = z.infer<typeof positionsQuerySchema>;
+export type RebalanceBody = z.infer<typeof rebalanceBodySchema>;
+export type StrategiesQuery = z.infer<typeof strategiesQuerySchema>;
+export type CreateStrategyBody = z.infer<typeof createStrategyBodySchema>;
+export type PerformanceQuery = z.infer<typeof performanceQuerySchema>;
+export type RecommendationsQuery = z.infer<typeof recommendationsQuerySchema>;
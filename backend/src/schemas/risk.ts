@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { addressSchema, limitSchema, orderSchema, timeRangeSchema } from './common';
+
+const ratioSchema = z.number().min(0).max(1);
+
+export const alertsQuerySchema = z.object({
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  type: z.enum(['validator_risk', 'concentration_risk', 'slashing_event', 'liquidity_risk', 'depeg_risk']).optional(),
+  limit: limitSchema(10)
+}).strict();
+
+export const validatorsQuerySchema = z.object({
+  sort: z.enum(['riskScore', 'performance', 'uptime', 'commission', 'stakedAmount']).default('riskScore'),
+  order: orderSchema.default('desc'),
+  limit: limitSchema(20)
+}).strict();
+
+export const avsRisksQuerySchema = z.object({
+  sort: z.enum(['riskScore', 'operatorCount', 'totalStaked', 'auditScore', 'governanceRisk']).default('riskScore'),
+  order: orderSchema.default('desc'),
+  limit: limitSchema(10)
+}).strict();
+
+export const riskProfileUpdateSchema = z.object({
+  riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional(),
+  maxSlashingRisk: ratioSchema.optional(),
+  maxLiquidityRisk: ratioSchema.optional(),
+  maxConcentration: ratioSchema.optional(),
+  rebalanceThreshold: ratioSchema.optional(),
+  autoRebalance: z.boolean().optional(),
+  alertThresholds: z.object({
+    slashing: ratioSchema.optional(),
+    liquidity: ratioSchema.optional(),
+    concentration: ratioSchema.optional(),
+    performance: z.number().min(-1).max(1).optional()
+  }).strict().optional()
+}).strict();
+
+export const createAlertRuleBodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  metric: z.enum(['slashing', 'liquidity', 'concentration', 'performance']),
+  threshold: z.number().min(-1).max(1),
+  channels: z.array(z.enum(['email', 'push', 'discord', 'telegram'])).max(4).default(['push'])
+}).strict();
+
+export const alertRuleParamsSchema = z.object({
+  address: addressSchema,
+  ruleId: z.string().trim().min(1)
+});
+
+export const dismissAlertsBodySchema = z.object({
+  alertIds: z.array(z.string().min(1)).min(1).max(100)
+});
+
+export const pegParamsSchema = z.object({
+  symbol: z.enum(['swETH', 'rswETH'])
+});
+
+export const pegHistoryQuerySchema = z.object({
+  timeRange: timeRangeSchema.default('24h')
+}).strict();
+
+export type AlertsQuery = z.infer<typeof alertsQuerySchema>;
+export type ValidatorsQuery = z.infer<typeof validatorsQuerySchema>;
+export type AvsRisksQuery = z.infer<typeof avsRisksQuerySchema>;
+export type RiskProfileUpdateBody = z.infer<typeof riskProfileUpdateSchema>;
+export type DismissAlertsBody = z.infer<typeof dismissAlertsBodySchema>;
+export type CreateAlertRuleBody = z.infer<typeof createAlertRuleBodySchema>;
+export type AlertRuleParams = z.infer<typeof alertRuleParamsSchema>;
+export type PegParams = z.infer<typeof pegParamsSchema>;
+export type PegHistoryQuery = z.infer<typeof pegHistoryQuerySchema>;
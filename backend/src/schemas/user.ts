@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { addressSchema, limitSchema, offsetSchema, timeRangeSchema } from './common';
+import { isIpOrCidr } from '../utils/ipAllowlist';
+
+const hexSchema = z.string().regex(/^0x[a-fA-F0-9]*$/, 'Must be a 0x-prefixed hex string');
+
+export const nonceQuerySchema = z.object({
+  address: addressSchema,
+  chainId: z.coerce.number().int().positive().default(1923)
+}).strict();
+
+export const authBodySchema = z.object({
+  signature: hexSchema,
+  message: z.string().min(1).max(4096),
+  address: addressSchema.optional()
+});
+
+export const refreshBodySchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+export const sessionParamsSchema = z.object({
+  sessionId: z.string().trim().min(1)
+});
+
+export const profileBodySchema = z.object({
+  username: z.string().trim().min(1).max(50).optional(),
+  email: z.string().email().optional(),
+  avatar: z.string().url().optional()
+}).strict();
+
+export const preferencesBodySchema = z.object({
+  theme: z.enum(['light', 'dark', 'auto']).optional(),
+  currency: z.enum(['USD', 'ETH', 'EUR']).optional(),
+  language: z.string().min(2).max(10).optional(),
+  timezone: z.string().min(1).max(64).optional(),
+  notifications: z.object({
+    email: z.boolean(),
+    push: z.boolean(),
+    discord: z.boolean(),
+    telegram: z.boolean(),
+    riskAlerts: z.boolean(),
+    rebalanceNotifications: z.boolean(),
+    yieldUpdates: z.boolean(),
+    marketUpdates: z.boolean()
+  }).partial().strict().optional(),
+  privacy: z.object({
+    showPortfolio: z.boolean(),
+    showTransactions: z.boolean(),
+    allowAnalytics: z.boolean(),
+    shareData: z.boolean()
+  }).partial().strict().optional()
+}).strict();
+
+export const statsQuerySchema = z.object({
+  timeRange: timeRangeSchema.default('30d')
+}).strict();
+
+export const activityQuerySchema = z.object({
+  limit: limitSchema(20),
+  offset: offsetSchema,
+  type: z.string().min(1).max(50).optional()
+}).strict();
+
+export const subscribeBodySchema = z.object({
+  tier: z.enum(['basic', 'premium', 'enterprise']),
+  paymentMethod: z.enum(['crypto']).default('crypto')
+});
+
+export const invoiceParamsSchema = z.object({
+  invoiceId: z.string().trim().min(1)
+});
+
+export const exportQuerySchema = z.object({
+  format: z.enum(['zip', 'json']).default('zip')
+}).strict();
+
+export const deletionReceiptParamsSchema = z.object({
+  confirmationId: z.string().trim().min(1)
+});
+
+// A receipt as returned by the API; fields the signature doesn't cover are ignored
+export const verifyDeletionReceiptBodySchema = z.object({
+  confirmationId: z.string().trim().min(1),
+  requestedAt: z.string().datetime().transform(value => new Date(value)),
+  completedAt: z.string().datetime().transform(value => new Date(value)),
+  retentionPeriod: z.number().int().nonnegative(),
+  dataRemaining: z.array(z.string()),
+  erased: z.record(z.number().int().nonnegative()),
+  subjectHash: z.string().regex(/^[a-f0-9]{64}$/, 'must be a sha256 hex digest'),
+  signature: z.string().regex(/^[a-f0-9]{64}$/, 'must be an HMAC-SHA256 hex digest')
+});
+
+export const deleteAccountBodySchema = z.object({
+  confirmation: z.literal('DELETE_MY_ACCOUNT', {
+    errorMap: () => ({ message: 'Invalid confirmation string' })
+  })
+});
+
+export const createApiKeyBodySchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  scopes: z.array(z.enum(['read', 'trade'])).min(1).default(['read']),
+  allowedIps: z.array(
+    z.string().trim().refine(isIpOrCidr, 'Must be an IP address or CIDR range')
+  ).max(20).default([]),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+}).strict();
+
+export const apiKeyParamsSchema = z.object({
+  keyId: z.string().trim().min(1)
+});
+
+export const rotateApiKeyBodySchema = z.object({
+  gracePeriodMinutes: z.number().int().min(0).max(1440).default(0)
+}).strict();
+
+const dashboardWidgetSchema = z.object({
+  type: z.enum(['portfolio_value', 'risk_score', 'yield_chart', 'tvl_chart', 'avs_performance', 'alerts', 'bridge_activity']),
+  title: z.string().trim().min(1).max(100).optional(),
+  position: z.object({
+    x: z.number().int().min(0).max(23),
+    y: z.number().int().min(0).max(99),
+    w: z.number().int().min(1).max(24),
+    h: z.number().int().min(1).max(24)
+  }).strict(),
+  config: z.record(z.unknown()).optional()
+}).strict();
+
+export const createDashboardBodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  widgets: z.array(dashboardWidgetSchema).max(24).default([])
+}).strict();
+
+export const updateDashboardBodySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  widgets: z.array(dashboardWidgetSchema).max(24).optional()
+}).strict();
+
+export const dashboardParamsSchema = z.object({
+  dashboardId: z.string().trim().min(1)
+});
+
+export type NonceQuery = z.infer<typeof nonceQuerySchema>;
+export type AuthBody = z.infer<typeof authBodySchema>;
+export type RefreshBody = z.infer<typeof refreshBodySchema>;
+export type SessionParams = z.infer<typeof sessionParamsSchema>;
+export type ProfileBody = z.infer<typeof profileBodySchema>;
+export type PreferencesBody = z.infer<typeof preferencesBodySchema>;
+export type StatsQuery = z.infer<typeof statsQuerySchema>;
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+export type SubscribeBody = z.infer<typeof subscribeBodySchema>;
+export type InvoiceParams = z.infer<typeof invoiceParamsSchema>;
+export type DeleteAccountBody = z.infer<typeof deleteAccountBodySchema>;
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type DeletionReceiptParams = z.infer<typeof deletionReceiptParamsSchema>;
+export type VerifyDeletionReceiptBody = z.infer<typeof verifyDeletionReceiptBodySchema>;
+export type CreateApiKeyBody = z.infer<typeof createApiKeyBodySchema>;
+export type ApiKeyParams = z.infer<typeof apiKeyParamsSchema>;
+export type RotateApiKeyBody = z.infer<typeof rotateApiKeyBodySchema>;
+export type CreateDashboardBody = z.infer<typeof createDashboardBodySchema>;
+export type UpdateDashboardBody = z.infer<typeof updateDashboardBodySchema>;
+export type DashboardParams = z.infer<typeof dashboardParamsSchema>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { addressSchema } from './common';
+
+const walletLabelSchema = z.string().trim().min(1).max(100);
+
+const walletGroupSchema = z.string().trim().min(1).max(50);
+
+export const createWatchedWalletBodySchema = z.object({
+  address: addressSchema,
+  label: walletLabelSchema.optional(),
+  group: walletGroupSchema.optional()
+}).strict();
+
+/** `null` clears a label or group */
+export const updateWatchedWalletBodySchema = z.object({
+  label: walletLabelSchema.nullable().optional(),
+  group: walletGroupSchema.nullable().optional()
+}).strict();
+
+export const watchedWalletsQuerySchema = z.object({
+  group: walletGroupSchema.optional()
+});
+
+/** Without a group the aggregate covers the account's own wallet and every watched one */
+export const aggregateQuerySchema = z.object({
+  group: walletGroupSchema.optional()
+});
+
+export type CreateWatchedWalletBody = z.infer<typeof createWatchedWalletBodySchema>;
+export type UpdateWatchedWalletBody = z.infer<typeof updateWatchedWalletBodySchema>;
+export type WatchedWalletsQuery = z.infer<typeof watchedWalletsQuerySchema>;
+export type AggregateQuery = z.infer<typeof aggregateQuerySchema>;
@@ -0,0 +1,47 @@
+import { AccountDeletionService, deletionReceiptKeyFromConfig, signDeletionReceipt, SignedReceiptFields } from './AccountDeletionService';
+import { config } from '../config';
+
+const RECEIPT: SignedReceiptFields = {
+  confirmationId: 'clx0deletion',
+  subjectHash: 'a'.repeat(64),
+  requestedAt: new Date('2026-10-19T12:00:00.000Z'),
+  completedAt: new Date('2026-10-19T12:05:00.000Z'),
+  retentionPeriod: 90,
+  dataRemaining: ['transaction_hashes', 'anonymized_metrics'],
+  erased: { profile: 1, activity: 14 }
+};
+
+describe('deletion receipts', () => {
+  const key = deletionReceiptKeyFromConfig(config);
+  // verifyReceipt only needs the key
+  const service = new AccountDeletionService(null as never, null as never, null as never, null as never, null as never, key);
+
+  it('verifies a receipt as issued', () => {
+    const signature = signDeletionReceipt(RECEIPT, key);
+
+    expect(service.verifyReceipt({ ...RECEIPT, signature })).toBe(true);
+  });
+
+  it('rejects a receipt with a changed field', () => {
+    const signature = signDeletionReceipt(RECEIPT, key);
+
+    expect(service.verifyReceipt({ ...RECEIPT, erased: { profile: 1, activity: 13 }, signature })).toBe(false);
+    expect(service.verifyReceipt({ ...RECEIPT, retentionPeriod: 30, signature })).toBe(false);
+  });
+
+  it('rejects a signature made with another key, a malformed one or none', () => {
+    const forged = signDeletionReceipt(RECEIPT, Buffer.from('x'.repeat(32)));
+
+    expect(service.verifyReceipt({ ...RECEIPT, signature: forged })).toBe(false);
+    expect(service.verifyReceipt({ ...RECEIPT, signature: 'abc' })).toBe(false);
+    expect(service.verifyReceipt(RECEIPT)).toBe(false);
+  });
+
+  it('uses DELETION_RECEIPT_SECRET when set and a key derived from JWT_SECRET otherwise', () => {
+    const secret = 's'.repeat(32);
+
+    expect(deletionReceiptKeyFromConfig({ ...config, DELETION_RECEIPT_SECRET: secret })).toEqual(Buffer.from(secret));
+    expect(key).toHaveLength(32);
+    expect(key.equals(Buffer.from(config.JWT_SECRET))).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { AccountDeletion as AccountDeletionRow } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { normalizeAddress } from '../utils/address';
+import { NotFoundError } from '../middleware/errorHandler';
+import { AccountDeletionRepository } from '../repositories/AccountDeletionRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { ApiKeyRepository } from '../repositories/ApiKeyRepository';
+import { InvoiceRepository } from '../repositories/InvoiceRepository';
+import { SessionService } from './SessionService';
+import { DeletionReceipt, EnvConfig } from '../types';
+
+// Retained records are kept this long after the erasure, then purged
+const RETENTION_DAYS = 90;
+const RETAINED_DATA = ['transaction_hashes', 'anonymized_metrics'];
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 10;
+
+/**
+ * The receipt fields a signature covers
+ */
+export type SignedReceiptFields = Omit<DeletionReceipt, 'status' | 'retainedUntil' | 'signature'>;
+
+/**
+ * Signature over a receipt's fields, in a fixed order so the receipt can be checked from the fields its holder kept
+ */
+export function signDeletionReceipt(receipt: SignedReceiptFields, key: Buffer): string {
+  const erased = receipt.erased || {};
+  const canonical = JSON.stringify([
+    receipt.confirmationId,
+    receipt.subjectHash,
+    receipt.requestedAt.toISOString(),
+    receipt.completedAt ? receipt.completedAt.toISOString() : null,
+    receipt.retentionPeriod,
+    receipt.dataRemaining,
+    Object.keys(erased).sort().map(kind => [kind, erased[kind]])
+  ]);
+
+  return crypto.createHmac('sha256', key).update(canonical).digest('hex');
+}
+
+/**
+ * Key receipts are signed with: DELETION_RECEIPT_SECRET, or a key derived from JWT_SECRET when that is unset
+ */
+export function deletionReceiptKeyFromConfig(config: EnvConfig): Buffer {
+  if (config.DELETION_RECEIPT_SECRET) return Buffer.from(config.DELETION_RECEIPT_SECRET);
+  return Buffer.from(crypto.hkdfSync('sha256', config.JWT_SECRET, '', 'swellscope deletion receipts', 32));
+}
+
+/**
+ * GDPR erasure. A request locks the account straight away; a background job then deletes
+ * personal data, anonymizes what must be retained and records a receipt.
+ */
+export class AccountDeletionService {
+  private accountDeletionRepository: AccountDeletionRepository;
+  private userRepository: UserRepository;
+  private apiKeyRepository: ApiKeyRepository;
+  private invoiceRepository: InvoiceRepository;
+  private sessionService: SessionService;
+  private receiptKey: Buffer;
+
+  constructor(
+    accountDeletionRepository: AccountDeletionRepository,
+    userRepository: UserRepository,
+    apiKeyRepository: ApiKeyRepository,
+    invoiceRepository: InvoiceRepository,
+    sessionService: SessionService,
+    receiptKey: Buffer
+  ) {
+    this.accountDeletionRepository = accountDeletionRepository;
+    this.userRepository = userRepository;
+    this.apiKeyRepository = apiKeyRepository;
+    this.invoiceRepository = invoiceRepository;
+    this.sessionService = sessionService;
+    this.receiptKey = receiptKey;
+  }
+
+  /**
+   * Schedule erasure and lock the account: sessions and API keys are revoked and sign-in is refused.
+   * Repeated requests return the one already scheduled.
+   */
+  async requestDeletion(userId: string, address: string): Promise<DeletionReceipt> {
+    let row = await this.accountDeletionRepository.findPendingForUser(userId);
+    if (!row) {
+      const created = await this.accountDeletionRepository.create(userId, {
+        retentionDays: RETENTION_DAYS,
+        dataRemaining: RETAINED_DATA
+      });
+      // Salted with the confirmation id so the hash can't be matched against a list of known addresses
+      const subjectHash = crypto.createHash('sha256').update(`${created.id}:${normalizeAddress(address)}`).digest('hex');
+      row = await this.accountDeletionRepository.setSubjectHash(created.id, subjectHash);
+    }
+
+    await this.userRepository.deactivate(userId);
+    await Promise.all([
+      this.sessionService.revokeAllSessions(userId),
+      this.apiKeyRepository.revokeAll(userId),
+      this.invoiceRepository.cancelPending(userId)
+    ]);
+
+    logger.security('Account deletion requested', { userId, confirmationId: row.id });
+    return this.accountDeletionRepository.toReceipt(row);
+  }
+
+  async getReceipt(confirmationId: string): Promise<DeletionReceipt> {
+    const row = await this.accountDeletionRepository.findById(confirmationId);
+    if (!row) {
+      throw new NotFoundError('Deletion request not found');
+    }
+
+    return this.accountDeletionRepository.toReceipt(row);
+  }
+
+  /**
+   * Whether the receipt, as its holder kept it, is one this server signed. Any changed field fails the check.
+   */
+  verifyReceipt(receipt: SignedReceiptFields & { signature?: string }): boolean {
+    if (!receipt.signature) return false;
+
+    const expected = Buffer.from(signDeletionReceipt(receipt, this.receiptKey), 'hex');
+    const presented = Buffer.from(receipt.signature, 'hex');
+    return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+  }
+
+  /**
+   * Carry out scheduled erasures. Failures are retried on later runs, up to MAX_ATTEMPTS.
+   */
+  async processPending(): Promise<number> {
+    const pending = await this.accountDeletionRepository.listPending(BATCH_SIZE);
+    let completed = 0;
+
+    for (const request of pending) {
+      try {
+        await this.erase(request);
+        completed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const giveUp = request.attempts + 1 >= MAX_ATTEMPTS;
+        await this.accountDeletionRepository.recordFailure(request.id, message, giveUp);
+        logger.error(`Account erasure ${request.id} failed${giveUp ? '; giving up' : ''}:`, error);
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Remove the retained records of erasures whose retention period has ended
+   */
+  async purgeExpired(): Promise<number> {
+    const purgeable = await this.accountDeletionRepository.listPurgeable();
+
+    for (const request of purgeable) {
+      await this.accountDeletionRepository.purgeUser(request.userId);
+      await this.accountDeletionRepository.markPurged(request.id);
+      logger.security('Retained account data purged', { confirmationId: request.id });
+    }
+
+    return purgeable.length;
+  }
+
+  private async erase(request: AccountDeletionRow): Promise<void> {
+    const erased = await this.accountDeletionRepository.eraseUserData(request.userId, request.id);
+    const completedAt = new Date();
+    const signature = signDeletionReceipt({
+      ...this.accountDeletionRepository.toReceipt(request),
+      completedAt,
+      erased
+    }, this.receiptKey);
+
+    await this.accountDeletionRepository.markCompleted(request.id, erased, completedAt, signature);
+    logger.security('Account erased', { confirmationId: request.id, erased });
+  }
+}
@@ -1,36 +1,58 @@
-import { AnalyticsData, ChartDataPoint, ProtocolData, TransactionData } from '../types';
+import { AnalyticsData, ProtocolData, TimeRange, TransactionData } from '../types';
+import { ChainDataRepository } from '../repositories/ChainDataRepository';
+import { SWELLCHAIN_CHAIN_ID } from '../utils/chains';
+import { RpcClient } from './RpcClient';
+import { ProtocolRegistry } from './protocols/ProtocolRegistry';
+import { DepegMonitor } from './DepegMonitor';
+import { chainScope, protocolScope, TimeSeriesService, TOTAL_SCOPE } from './TimeSeriesService';
+import { PriceService } from './PriceService';
 
 export class AnalyticsService {
-  private swellchainRPC: string;
-  private ethereumRPC: string;
-
-  constructor() {
-    this.swellchainRPC = process.env.SWELLCHAIN_RPC_URL || 'https://rpc.ankr.com/polygon_zkevm';
-    this.ethereumRPC = process.env.ETHEREUM_RPC_URL || 'https://rpc.ankr.com/eth';
+  private chainDataRepository: ChainDataRepository;
+  private rpcClients: Record<number, RpcClient>;
+  private protocolRegistry: ProtocolRegistry;
+  private depegMonitor: DepegMonitor;
+  private timeSeriesService: TimeSeriesService;
+  private priceService: PriceService;
+
+  constructor(
+    chainDataRepository: ChainDataRepository,
+    rpcClients: Record<number, RpcClient>,
+    protocolRegistry: ProtocolRegistry,
+    depegMonitor: DepegMonitor,
+    timeSeriesService: TimeSeriesService,
+    priceService: PriceService
+  ) {
+    this.chainDataRepository = chainDataRepository;
+    this.rpcClients = rpcClients;
+    this.protocolRegistry = protocolRegistry;
+    this.depegMonitor = depegMonitor;
+    this.timeSeriesService = timeSeriesService;
+    this.priceService = priceService;
   }
 
-  async getOverviewData(timeRange: string, chainId: number): Promise<AnalyticsData> {
+  /**
+   * `historyDays` bounds the 'all' range; the other ranges have a fixed span
+   */
+  async getOverviewData(timeRange: TimeRange, chainId: number, historyDays?: number): Promise<AnalyticsData> {
     try {
       // Fetch real data from multiple sources
       const [tvlData, protocolData, transactionData] = await Promise.all([
-        this.fetchTVLData(timeRange, chainId),
+        this.fetchTVLData(),
         this.fetchProtocolData(chainId),
         this.fetchRecentTransactions(chainId, 10)
       ]);
 
-      const currentTime = Date.now();
-      const periodMs = this.getTimeRangeMs(timeRange);
-
       return {
         totalTVL: tvlData.current,
         totalUsers: await this.getUserCount(chainId),
-        averageYield: await this.getAverageYield(chainId),
+        averageYield: this.weightedYield(protocolData),
         totalProtocols: protocolData.length,
         tvlChange24h: this.calculatePercentageChange(tvlData.current, tvlData.previous24h),
         usersChange24h: await this.getUserChange24h(chainId),
         yieldChange24h: await this.getYieldChange24h(chainId),
         protocolsChange24h: 0, // Protocols don't change frequently
-        chartData: await this.generateChartData(timeRange, chainId),
+        chartData: await this.timeSeriesService.getSeries(chainScope(chainId), timeRange, historyDays),
         topProtocols: protocolData.slice(0, 10),
         recentTransactions: transactionData
       };
@@ -40,47 +62,45 @@ export class AnalyticsService {
     }
   }
 
-  async getTVLData(timeRange: string, protocol?: string): Promise<any> {
+  async getTVLData(timeRange: TimeRange, protocol?: string, historyDays?: number): Promise<any> {
     try {
-      // Simulate real TVL data - in production, this would fetch from:
-      // - DefiLlama API
-      // - Swellchain indexer
-      // - Direct contract calls
-      
-      const baseData = {
-        current: 292000000, // $292M current TVL
-        previous24h: 287500000,
-        previous7d: 275000000,
-        chartData: await this.generateTVLChart(timeRange)
-      };
-
-      if (protocol) {
-        return this.getProtocolTVL(protocol);
-      }
+      const scope = protocol ? protocolScope(protocol) : TOTAL_SCOPE;
+      const now = Date.now();
+      const [protocols, previous24h, previous7d, chartData] = await Promise.all([
+        this.protocolRegistry.getProtocolData(),
+        this.timeSeriesService.getPointAt(scope, new Date(now - 24 * 60 * 60 * 1000)),
+        this.timeSeriesService.getPointAt(scope, new Date(now - 7 * 24 * 60 * 60 * 1000)),
+        this.timeSeriesService.getSeries(scope, timeRange, historyDays)
+      ]);
 
-      return baseData;
+      return {
+        current: protocols
+          .filter(candidate => !protocol || candidate.id === protocol)
+          .reduce((sum, candidate) => sum + candidate.tvl, 0),
+        // null until the store has history that far back
+        previous24h: previous24h ? previous24h.tvl : null,
+        previous7d: previous7d ? previous7d.tvl : null,
+        chartData,
+        ...(protocol && { protocol })
+      };
     } catch (error) {
       console.error('Error fetching TVL data:', error);
       throw new Error('Failed to fetch TVL data');
     }
   }
 
-  async getYieldData(timeRange: string, protocol?: string): Promise<any> {
+  async getYieldData(timeRange: TimeRange, protocol?: string, historyDays?: number): Promise<any> {
     try {
-      // Real yield data would come from:
-      // - Swellchain yield aggregator
-      // - Individual protocol APIs
-      // - Historical yield tracking
-      
+      const protocols = await this.protocolRegistry.getProtocolData();
+      const topYieldingProtocols = protocols
+        .filter(candidate => !protocol || candidate.id === protocol)
+        .sort((a, b) => b.yield - a.yield)
+        .map(({ name, yield: protocolYield, tvl }) => ({ name, yield: protocolYield, tvl }));
+
       return {
-        averageYield: 8.7,
-        topYieldingProtocols: [
-          { name: 'Swell Restaking', yield: 9.2, tvl: 45000000 },
-          { name: 'Ion Protocol', yield: 8.9, tvl: 23000000 },
-          { name: 'Ambient Finance', yield: 8.1, tvl: 18000000 },
-          { name: 'Tempest Finance', yield: 7.8, tvl: 15000000 }
-        ],
-        yieldHistory: await this.generateYieldChart(timeRange)
+        averageYield: this.weightedYield(protocols),
+        topYieldingProtocols,
+        yieldHistory: await this.timeSeriesService.getSeries(protocol ? protocolScope(protocol) : TOTAL_SCOPE, timeRange, historyDays)
       };
     } catch (error) {
       console.error('Error fetching yield data:', error);
@@ -90,58 +110,7 @@ export class AnalyticsService {
 
   async getProtocolRankings(sortBy: string, order: 'asc' | 'desc', limit: number): Promise<ProtocolData[]> {
     try {
-      // Real protocol data would be fetched from:
-      // - Swellchain registry
-      // - Protocol APIs
-      // - On-chain contract calls
-      
-      const protocols: ProtocolData[] = [
-        {
-          id: '1',
-          name: 'Swell Restaking',
-          address: '0x1234567890123456789012345678901234567890',
-          tvl: 45000000,
-          yield: 9.2,
-          riskScore: 25,
-          users: 1250,
-          logo: 'https://swell.io/logo.png',
-          category: 'restaking',
-          isActive: true,
-          chainId: 1101,
-          deployedAt: new Date('2024-01-15'),
-          lastUpdate: new Date()
-        },
-        {
-          id: '2',
-          name: 'Ion Protocol',
-          address: '0x2345678901234567890123456789012345678901',
-          tvl: 23000000,
-          yield: 8.9,
-          riskScore: 35,
-          users: 890,
-          logo: 'https://ion.money/logo.png',
-          category: 'defi',
-          isActive: true,
-          chainId: 1101,
-          deployedAt: new Date('2024-02-01'),
-          lastUpdate: new Date()
-        },
-        {
-          id: '3',
-          name: 'Ambient Finance',
-          address: '0x3456789012345678901234567890123456789012',
-          tvl: 18000000,
-          yield: 8.1,
-          riskScore: 40,
-          users: 650,
-          logo: 'https://ambient.finance/logo.png',
-          category: 'defi',
-          isActive: true,
-          chainId: 1101,
-          deployedAt: new Date('2024-02-15'),
-          lastUpdate: new Date()
-        }
-      ];
+      const protocols = await this.protocolRegistry.getProtocolData();
 
       // Sort protocols
       protocols.sort((a, b) => {
@@ -157,13 +126,15 @@ export class AnalyticsService {
     }
   }
 
-  async getUserStats(timeRange: string): Promise<any> {
+  async getUserStats(timeRange: TimeRange, historyDays?: number): Promise<any> {
     try {
+      const userGrowthChart = await this.timeSeriesService.getSeries(TOTAL_SCOPE, timeRange, historyDays);
+
       return {
-        totalUsers: 37710,
+        totalUsers: userGrowthChart.length > 0 ? userGrowthChart[userGrowthChart.length - 1].users : 0,
         activeUsers24h: 2847,
         newUsers24h: 156,
-        userGrowthChart: await this.generateUserGrowthChart(timeRange)
+        userGrowthChart
       };
     } catch (error) {
       console.error('Error fetching user stats:', error);
@@ -176,7 +147,17 @@ export class AnalyticsService {
       // Real-time data would come from WebSocket connections to:
       // - Swellchain nodes
       // - Indexer services
-      // - Price feeds
+      const [pegs, prices, protocols] = await Promise.all([
+        this.depegMonitor.getStatuses(),
+        this.priceService.getPrices(),
+        this.protocolRegistry.getProtocolData()
+      ]);
+      const usdPrice = (symbol: string) => {
+        const price = prices.find(candidate => candidate.symbol === symbol);
+        return price ? price.price : null;
+      };
+      const ethPrice = usdPrice('ETH');
+      const tvl = protocols.reduce((sum, protocol) => sum + protocol.tvl, 0);
       
       return {
         currentBlockNumber: await this.getCurrentBlockNumber(),
@@ -184,9 +165,13 @@ export class AnalyticsService {
         avgBlockTime: 2.1, // seconds
         pendingTransactions: 127,
         gasPrice: 0.001, // ETH
-        swETHPrice: 2847.32,
-        rswETHPrice: 2851.67,
-        totalValueLocked: 292156743.21,
+        // USD; null while no price source covers the token
+        ethPrice,
+        swETHPrice: usdPrice('swETH'),
+        rswETHPrice: usdPrice('rswETH'),
+        pegs,
+        // Protocol TVL in USD
+        totalValueLocked: ethPrice !== null ? tvl * ethPrice : null,
         timestamp: Date.now()
       };
     } catch (error) {
@@ -231,36 +216,12 @@ export class AnalyticsService {
 
   async getTransactionData(timeRange: string, type?: string, limit: number = 100): Promise<TransactionData[]> {
     try {
-      // Real transaction data would come from:
-      // - Swellchain indexer
-      // - Event logs from contracts
-      // - Real-time transaction monitoring
-      
-      const transactions: TransactionData[] = [];
-      const now = Date.now();
-      
-      for (let i = 0; i < limit; i++) {
-        transactions.push({
-          id: `tx-${i}`,
-          hash: `0x${Math.random().toString(16).substring(2, 66)}`,
-          type: ['deposit', 'withdraw', 'rebalance', 'claim'][Math.floor(Math.random() * 4)] as any,
-          amount: Math.random() * 1000,
-          token: ['swETH', 'rswETH', 'ETH'][Math.floor(Math.random() * 3)],
-          user: `0x${Math.random().toString(16).substring(2, 42)}`,
-          timestamp: now - (i * 60000), // 1 minute apart
-          status: ['confirmed', 'pending'][Math.floor(Math.random() * 2)] as any,
-          gasUsed: Math.floor(Math.random() * 100000) + 21000,
-          gasPrice: Math.random() * 50 + 10,
-          blockNumber: 12345678 - i,
-          chainId: 1101
-        });
-      }
-
-      if (type) {
-        return transactions.filter(tx => tx.type === type);
-      }
-
-      return transactions;
+      // Indexed deposits, withdrawals and bridge transfers on Ethereum and Swellchain
+      return await this.chainDataRepository.listTransactions({
+        since: new Date(Date.now() - this.getTimeRangeMs(timeRange)),
+        type,
+        limit
+      });
     } catch (error) {
       console.error('Error fetching transaction data:', error);
       throw new Error('Failed to fetch transaction data');
@@ -285,50 +246,18 @@ export class AnalyticsService {
     return ((current - previous) / previous) * 100;
   }
 
-  private async generateChartData(timeRange: string, chainId: number): Promise<ChartDataPoint[]> {
-    const points = this.getDataPoints(timeRange);
-    const data: ChartDataPoint[] = [];
-    const now = Date.now();
-    const interval = this.getTimeRangeMs(timeRange) / points;
-
-    for (let i = 0; i < points; i++) {
-      data.push({
-        timestamp: now - ((points - i - 1) * interval),
-        tvl: 292000000 + (Math.random() - 0.5) * 10000000,
-        yield: 8.7 + (Math.random() - 0.5) * 2,
-        users: 37710 + Math.floor((Math.random() - 0.5) * 1000),
-        volume: Math.random() * 5000000
-      });
-    }
-
-    return data;
-  }
-
-  private getDataPoints(timeRange: string): number {
-    const points: { [key: string]: number } = {
-      '1h': 60,
-      '24h': 144, // 10-minute intervals
-      '7d': 168, // hourly
-      '30d': 120, // 6-hour intervals
-      '90d': 90, // daily
-      '1y': 52 // weekly
-    };
-    return points[timeRange] || 144;
-  }
+  private async fetchTVLData(): Promise<{ current: number; previous24h: number }> {
+    const [protocols, previous] = await Promise.all([
+      this.protocolRegistry.getProtocolData(),
+      this.timeSeriesService.getPointAt(TOTAL_SCOPE, new Date(Date.now() - 24 * 60 * 60 * 1000))
+    ]);
+    const current = protocols.reduce((sum, protocol) => sum + protocol.tvl, 0);
 
-  private async fetchTVLData(timeRange: string, chainId: number): Promise<{ current: number; previous24h: number }> {
-    // In production, this would make real API calls to:
-    // - DefiLlama
-    // - Swellchain indexer
-    // - Contract calls for real TVL
-    return {
-      current: 292000000,
-      previous24h: 287500000
-    };
+    // Without a day of history the change reads as zero
+    return { current, previous24h: previous ? previous.tvl : current };
   }
 
   private async fetchProtocolData(chainId: number): Promise<ProtocolData[]> {
-    // Return sample protocol data - in production this would be real
     return this.getProtocolRankings('tvl', 'desc', 50);
   }
 
@@ -340,8 +269,12 @@ export class AnalyticsService {
     return 37710;
   }
 
-  private async getAverageYield(chainId: number): Promise<number> {
-    return 8.7;
+  /**
+   * TVL-weighted yield across protocols, in percent
+   */
+  private weightedYield(protocols: ProtocolData[]): number {
+    const tvl = protocols.reduce((sum, protocol) => sum + protocol.tvl, 0);
+    return tvl > 0 ? protocols.reduce((sum, protocol) => sum + protocol.yield * protocol.tvl, 0) / tvl : 0;
   }
 
   private async getUserChange24h(chainId: number): Promise<number> {
@@ -352,33 +285,11 @@ export class AnalyticsService {
     return 0.3; // 0.3% increase
   }
 
-  private async generateTVLChart(timeRange: string): Promise<ChartDataPoint[]> {
-    return this.generateChartData(timeRange, 1101);
-  }
-
-  private async generateYieldChart(timeRange: string): Promise<ChartDataPoint[]> {
-    return this.generateChartData(timeRange, 1101);
-  }
-
-  private async generateUserGrowthChart(timeRange: string): Promise<ChartDataPoint[]> {
-    return this.generateChartData(timeRange, 1101);
-  }
-
   private async getCurrentBlockNumber(): Promise<number> {
     try {
-      // In production, this would make a real RPC call
-      return 12345678;
+      return Number(await this.rpcClients[SWELLCHAIN_CHAIN_ID].getBlockNumber());
     } catch (error) {
       return 0;
     }
   }
-
-  private async getProtocolTVL(protocol: string): Promise<any> {
-    // Return protocol-specific TVL data
-    return {
-      current: 45000000,
-      previous24h: 44200000,
-      protocol: protocol
-    };
-  }
 } 
\ No newline at end of file
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { isIpAllowed } from '../utils/ipAllowlist';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { ApiKeyRepository, ApiKeyWithOwner } from '../repositories/ApiKeyRepository';
+import { ApiKeyInfo, ApiKeyScope, CreatedApiKey } from '../types';
+
+const KEY_PREFIX = 'ssk';
+const MAX_ACTIVE_KEYS = 10;
+// lastUsedAt is informational; don't write on every request
+const USAGE_WRITE_INTERVAL_MS = 60 * 1000;
+
+export interface ApiKeySettings {
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  expiresInDays?: number;
+}
+
+/**
+ * Outcome of checking a presented key. `reason` tells the middleware which error to answer with.
+ */
+export type ApiKeyVerification =
+  | { valid: true; key: ApiKeyWithOwner }
+  | { valid: false; reason: 'invalid' | 'ip_not_allowed' };
+
+export class ApiKeyService {
+  private apiKeyRepository: ApiKeyRepository;
+
+  constructor(apiKeyRepository: ApiKeyRepository) {
+    this.apiKeyRepository = apiKeyRepository;
+  }
+
+  /**
+   * Issue a new key. The full key is only returned here.
+   */
+  async createKey(userId: string, settings: ApiKeySettings): Promise<CreatedApiKey> {
+    const active = await this.apiKeyRepository.countActive(userId);
+    if (active >= MAX_ACTIVE_KEYS) {
+      throw new ConflictError(`At most ${MAX_ACTIVE_KEYS} active API keys are allowed; revoke one first`);
+    }
+
+    const generated = this.generateKey();
+    const apiKey = await this.apiKeyRepository.create(userId, {
+      name: settings.name,
+      prefix: generated.prefix,
+      keyHash: generated.hash,
+      // Trade access implies read access
+      scopes: settings.scopes.includes('trade') ? ['read', 'trade'] : ['read'],
+      allowedIps: settings.allowedIps || [],
+      expiresAt: settings.expiresInDays ? new Date(Date.now() + settings.expiresInDays * 24 * 60 * 60 * 1000) : undefined
+    });
+
+    logger.security('API key created', { userId, keyId: apiKey.id, scopes: apiKey.scopes });
+    return { apiKey, key: generated.key };
+  }
+
+  async listKeys(userId: string): Promise<ApiKeyInfo[]> {
+    return this.apiKeyRepository.listActive(userId);
+  }
+
+  /**
+   * Replace a key with a new secret and the same settings.
+   * The old key stops working immediately, or after the grace period so deployments can switch over.
+   */
+  async rotateKey(userId: string, keyId: string, gracePeriodMinutes: number = 0): Promise<CreatedApiKey> {
+    const existing = await this.apiKeyRepository.findById(userId, keyId);
+    if (!existing || existing.revokedAt || (existing.expiresAt && existing.expiresAt.getTime() <= Date.now())) {
+      throw new NotFoundError('API key not found');
+    }
+
+    // The old key stays active until its grace period ends, so the replacement needs a free slot
+    if (gracePeriodMinutes > 0) {
+      const active = await this.apiKeyRepository.countActive(userId);
+      if (active >= MAX_ACTIVE_KEYS) {
+        throw new ConflictError(
+          `At most ${MAX_ACTIVE_KEYS} active API keys are allowed, including keys in a grace period; rotate without one or revoke a key first`
+        );
+      }
+    }
+
+    const generated = this.generateKey();
+    const apiKey = await this.apiKeyRepository.create(userId, {
+      name: existing.name,
+      prefix: generated.prefix,
+      keyHash: generated.hash,
+      scopes: existing.scopes as ApiKeyScope[],
+      allowedIps: existing.allowedIps,
+      expiresAt: existing.expiresAt || undefined
+    });
+
+    if (gracePeriodMinutes > 0) {
+      const graceEnds = new Date(Date.now() + gracePeriodMinutes * 60 * 1000);
+      const expiresAt = existing.expiresAt && existing.expiresAt < graceEnds ? existing.expiresAt : graceEnds;
+      await this.apiKeyRepository.expireAt(userId, keyId, expiresAt);
+    } else {
+      await this.apiKeyRepository.revoke(userId, keyId);
+    }
+
+    logger.security('API key rotated', { userId, keyId, replacementId: apiKey.id, gracePeriodMinutes });
+    return { apiKey, key: generated.key };
+  }
+
+  async revokeKey(userId: string, keyId: string): Promise<void> {
+    const revoked = await this.apiKeyRepository.revoke(userId, keyId);
+    if (!revoked) {
+      throw new NotFoundError('API key not found');
+    }
+
+    logger.security('API key revoked', { userId, keyId });
+  }
+
+  /**
+   * Check a presented key: it must exist, be live, belong to an active user and be used from an allowed IP
+   */
+  async verify(rawKey: string, ipAddress?: string): Promise<ApiKeyVerification> {
+    if (!rawKey.startsWith(`${KEY_PREFIX}_`)) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const key = await this.apiKeyRepository.findByHash(this.hashKey(rawKey));
+    if (!key || key.revokedAt || !key.user.isActive) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    if (!isIpAllowed(ipAddress, key.allowedIps)) {
+      logger.security('API key used from a disallowed IP', { keyId: key.id, userId: key.userId, ipAddress });
+      return { valid: false, reason: 'ip_not_allowed' };
+    }
+
+    if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > USAGE_WRITE_INTERVAL_MS) {
+      this.apiKeyRepository.recordUse(key.id, ipAddress).catch(error => {
+        logger.error(`Error recording API key usage for ${key.id}:`, error);
+      });
+    }
+
+    return { valid: true, key };
+  }
+
+  private generateKey(): { key: string; prefix: string; hash: string } {
+    const prefix = `${KEY_PREFIX}_${crypto.randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+    return { key, prefix, hash: this.hashKey(key) };
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
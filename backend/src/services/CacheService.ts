@@ -1,4 +1,6 @@
+import { Redis } from 'ioredis';
 import { CacheData } from '../types';
+import { config } from '../config';
 
 // In-memory cache fallback when Redis is not available
 const memoryCache: Map<string, { value: any; expires: number }> = new Map();
@@ -7,15 +9,21 @@ export class CacheService {
   private redis: any = null;
   private useRedis: boolean = false;
 
-  constructor() {
-    this.initializeRedis();
+  constructor(redis?: Redis) {
+    if (redis) {
+      // Shared connection supplied by the container
+      this.redis = redis;
+      this.useRedis = true;
+    } else {
+      this.initializeRedis();
+    }
   }
 
   private async initializeRedis() {
     try {
       // Try to initialize Redis if available
       const Redis = require('ioredis');
-      this.redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+      this.redis = new Redis(config.REDIS_URL);
       
       // Test connection
       await this.redis.ping();
@@ -234,8 +242,12 @@ export class CacheService {
   }
 }
 
-// Cleanup memory cache every 10 minutes if not using Redis
-const cacheService = new CacheService();
+// Cleanup memory cache every 10 minutes; entries only exist while Redis is unavailable
 setInterval(() => {
-  cacheService.cleanupMemoryCache();
-}, 10 * 60 * 1000); 
\ No newline at end of file
+  const now = Date.now();
+  for (const [key, data] of memoryCache.entries()) {
+    if (data.expires <= now) {
+      memoryCache.delete(key);
+    }
+  }
+}, 10 * 60 * 1000).unref();
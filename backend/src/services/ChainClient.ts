@@ -0,0 +1,218 @@
+import { Abi, encodeAbiParameters, getEventSelector, keccak256, parseAbi, PublicClient, toHex } from 'viem';
+import { normalizeAddress } from '../utils/address';
+import { RpcClient } from './RpcClient';
+
+type AbiEvent = Extract<Abi[number], { type: 'event' }>;
+
+const ERC20_DECIMALS_ABI = parseAbi(['function decimals() view returns (uint8)']);
+
+export interface ChainBlock {
+  number: bigint;
+  hash: string;
+  parentHash: string;
+  timestamp: Date;
+}
+
+export interface ChainLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: bigint;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface LogQuery {
+  addresses: string[];
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/**
+ * Read-only access to one EVM chain for the indexer. Implementations report the head as they see it;
+ * confirmation depth is the caller's concern.
+ */
+export interface ChainClient {
+  getChainId(): Promise<number>;
+  getBlockNumber(): Promise<bigint>;
+  getBlock(blockNumber: bigint): Promise<ChainBlock>;
+  /** Logs emitted by any of `addresses` within the inclusive block range, in chain order */
+  getLogs(query: LogQuery): Promise<ChainLog[]>;
+  /** Decimals of an ERC-20 token */
+  getTokenDecimals(token: string): Promise<number>;
+}
+
+/**
+ * Follows a chain over JSON-RPC; works against public nodes and local ones like anvil
+ */
+export class RpcChainClient implements ChainClient {
+  private client: PublicClient;
+
+  constructor(rpc: RpcClient) {
+    this.client = rpc.toPublicClient();
+  }
+
+  async getChainId(): Promise<number> {
+    return this.client.getChainId();
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.client.getBlockNumber();
+  }
+
+  async getBlock(blockNumber: bigint): Promise<ChainBlock> {
+    const block = await this.client.getBlock({ blockNumber });
+    return {
+      number: block.number as bigint,
+      hash: block.hash as string,
+      parentHash: block.parentHash,
+      timestamp: new Date(Number(block.timestamp) * 1000)
+    };
+  }
+
+  async getLogs(query: LogQuery): Promise<ChainLog[]> {
+    if (query.addresses.length === 0) return [];
+
+    const logs = await this.client.getLogs({
+      address: query.addresses as `0x${string}`[],
+      fromBlock: query.fromBlock,
+      toBlock: query.toBlock
+    });
+
+    return logs
+      .filter(log => !log.removed && log.transactionHash && log.blockNumber !== null && log.logIndex !== null)
+      .map(log => ({
+        address: normalizeAddress(log.address),
+        topics: (log as typeof log & { topics: string[] }).topics,
+        data: log.data,
+        blockNumber: log.blockNumber as bigint,
+        blockHash: log.blockHash as string,
+        txHash: log.transactionHash as string,
+        logIndex: log.logIndex as number
+      }));
+  }
+
+  async getTokenDecimals(token: string): Promise<number> {
+    return this.client.readContract({ address: token as `0x${string}`, abi: ERC20_DECIMALS_ABI, functionName: 'decimals' });
+  }
+}
+
+/**
+ * In-memory chain for tests and local development. Blocks are mined explicitly and events land in the latest one.
+ */
+export class StubChainClient implements ChainClient {
+  private chainId: number;
+  private blocks: ChainBlock[] = [];
+  private logs: ChainLog[] = [];
+  private tokenDecimals: Map<string, number> = new Map();
+  private transactions = 0;
+  private fork = 0;
+
+  constructor(chainId: number, startBlock: bigint = 1n) {
+    this.chainId = chainId;
+    this.pushBlock(startBlock, new Date());
+  }
+
+  mineBlocks(count: number = 1, timestamp: Date = new Date()): bigint {
+    for (let i = 0; i < count; i++) {
+      this.pushBlock(this.head().number + 1n, timestamp);
+    }
+    return this.head().number;
+  }
+
+  /**
+   * Tokens report 18 decimals unless set here
+   */
+  setTokenDecimals(token: string, decimals: number): void {
+    this.tokenDecimals.set(normalizeAddress(token), decimals);
+  }
+
+  /**
+   * Replace the last `depth` blocks with empty blocks on a new fork, dropping their logs
+   */
+  reorg(depth: number, timestamp: Date = new Date()): bigint {
+    const forkPoint = this.head().number - BigInt(depth);
+    this.blocks = this.blocks.filter(block => block.number <= forkPoint);
+    this.logs = this.logs.filter(log => log.blockNumber <= forkPoint);
+    this.fork += 1;
+    return this.mineBlocks(depth, timestamp);
+  }
+
+  /**
+   * Emit `event` from `address` in a newly mined block, or in the same transaction as an earlier
+   * emission when `txHash` is given. Indexed parameters must be value types. Returns the recorded log.
+   */
+  emit(address: string, event: AbiEvent, args: Record<string, unknown>, txHash?: string): ChainLog {
+    const previous = txHash ? this.logs.find(log => log.txHash === txHash) : undefined;
+    if (!previous) {
+      this.mineBlocks();
+    }
+    const block = previous
+      ? this.blocks.find(candidate => candidate.number === previous.blockNumber) as ChainBlock
+      : this.head();
+
+    // encodeEventTopics treats zero-valued arguments as wildcards, so encode topics directly
+    const indexed = event.inputs.filter(input => input.indexed);
+    const nonIndexed = event.inputs.filter(input => !input.indexed);
+    const log: ChainLog = {
+      address: normalizeAddress(address),
+      topics: [
+        getEventSelector(event),
+        ...indexed.map(input => encodeAbiParameters([input], [args[input.name as string]]))
+      ],
+      data: encodeAbiParameters(nonIndexed, nonIndexed.map(input => args[input.name as string])),
+      blockNumber: block.number,
+      blockHash: block.hash,
+      txHash: txHash || keccak256(toHex(`stub:${this.chainId}:tx:${++this.transactions}`)),
+      logIndex: this.logs.filter(candidate => candidate.blockNumber === block.number).length
+    };
+    this.logs.push(log);
+
+    return log;
+  }
+
+  async getChainId(): Promise<number> {
+    return this.chainId;
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.head().number;
+  }
+
+  async getBlock(blockNumber: bigint): Promise<ChainBlock> {
+    const block = this.blocks.find(candidate => candidate.number === blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    return block;
+  }
+
+  async getLogs(query: LogQuery): Promise<ChainLog[]> {
+    const addresses = query.addresses.map(normalizeAddress);
+
+    return this.logs.filter(log =>
+      addresses.includes(log.address) &&
+      log.blockNumber >= query.fromBlock &&
+      log.blockNumber <= query.toBlock
+    );
+  }
+
+  async getTokenDecimals(token: string): Promise<number> {
+    return this.tokenDecimals.get(normalizeAddress(token)) ?? 18;
+  }
+
+  private head(): ChainBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  private pushBlock(number: bigint, timestamp: Date): void {
+    const parent = this.blocks[this.blocks.length - 1];
+    this.blocks.push({
+      number,
+      hash: keccak256(toHex(`stub:${this.chainId}:${this.fork}:block:${number}`)),
+      parentHash: parent ? parent.hash : keccak256(toHex(`stub:${this.chainId}:genesis`)),
+      timestamp
+    });
+  }
+}
@@ -0,0 +1,281 @@
+import { Abi, decodeEventLog, parseAbi } from 'viem';
+import { normalizeAddress } from '../utils/address';
+import { ETHEREUM_CHAIN_ID, SWELLCHAIN_CHAIN_ID } from '../utils/chains';
+import { ChainLog } from './ChainClient';
+import {
+  BridgeMessageRecord,
+  ChainEventBatch,
+  ChainEventRecord,
+  ChainEventType,
+  VaultFlowRecord
+} from '../repositories/ChainDataRepository';
+
+/**
+ * Events the indexer understands, by contract name in the Swellchain address book
+ */
+export const CHAIN_EVENT_ABIS: Record<string, Abi> = {
+  // OptimismPortal on Ethereum
+  BRIDGE_L1: parseAbi([
+    'event TransactionDeposited(address indexed from, address indexed to, uint256 indexed version, bytes opaqueData)',
+    'event WithdrawalProven(bytes32 indexed withdrawalHash, address indexed from, address indexed to)',
+    'event WithdrawalFinalized(bytes32 indexed withdrawalHash, bool success)'
+  ]),
+  // L2StandardBridge predeploy
+  BRIDGE_L2: parseAbi([
+    'event ETHBridgeInitiated(address indexed from, address indexed to, uint256 amount, bytes extraData)',
+    'event ETHBridgeFinalized(address indexed from, address indexed to, uint256 amount, bytes extraData)',
+    'event ERC20BridgeInitiated(address indexed localToken, address indexed remoteToken, address indexed from, address to, uint256 amount, bytes extraData)',
+    'event ERC20BridgeFinalized(address indexed localToken, address indexed remoteToken, address indexed from, address to, uint256 amount, bytes extraData)'
+  ]),
+  L2_TO_L1_MESSAGE_PASSER: parseAbi([
+    'event MessagePassed(uint256 indexed nonce, address indexed sender, address indexed target, uint256 value, uint256 gasLimit, bytes data, bytes32 withdrawalHash)'
+  ]),
+  NUCLEUS_BORING_VAULT: parseAbi([
+    'event Enter(address indexed from, address indexed asset, uint256 amount, address indexed to, uint256 shares)',
+    'event Exit(address indexed to, address indexed asset, uint256 amount, address indexed from, uint256 shares)'
+  ]),
+  NUCLEUS_TELLER: parseAbi([
+    'event Deposit(uint256 indexed nonce, address indexed receiver, address indexed depositAsset, uint256 depositAmount, uint256 shareAmount, uint256 depositTimestamp, uint256 shareLockPeriodAtTimeOfDeposit)',
+    'event DepositRefunded(uint256 indexed nonce, bytes32 depositHash, address indexed user)',
+    'event BulkDeposit(address indexed asset, uint256 depositAmount)',
+    'event BulkWithdraw(address indexed asset, uint256 shareAmount)'
+  ]),
+  NUCLEUS_ACCOUNTANT: parseAbi([
+    'event ExchangeRateUpdated(uint96 oldRate, uint96 newRate, uint64 currentTime)'
+  ]),
+  // Withdrawals: users offer vault shares and solvers fill them through the Teller
+  NUCLEUS_ATOMIC_QUEUE: parseAbi([
+    'event AtomicRequestUpdated(address indexed user, address indexed offerToken, address indexed wantToken, uint256 amount, uint256 deadline, uint256 minPrice, uint256 timestamp)',
+    'event AtomicRequestFulfilled(address indexed user, address indexed offerToken, address indexed wantToken, uint256 offerAmountSpent, uint256 wantAmountReceived, uint256 timestamp)'
+  ]),
+  MACH_SERVICE_MANAGER: parseAbi([
+    'event AlertConfirmed(bytes32 indexed alertHeaderHash, bytes32 messageHash)'
+  ])
+};
+
+type EventArgs = Record<string, unknown>;
+
+interface DecodedLog {
+  log: ChainLog;
+  contractName: string;
+  event: string;
+  args: EventArgs;
+  timestamp: Date;
+}
+
+const address = (value: unknown): string => normalizeAddress(value as string);
+
+const amount = (value: unknown): string => (value as bigint).toString();
+
+/** JSON-safe copy of decoded arguments */
+const serializeArgs = (args: EventArgs): EventArgs => Object.fromEntries(
+  Object.entries(args).map(([key, value]) => [key, typeof value === 'bigint' ? value.toString() : value])
+);
+
+/**
+ * Turns raw logs from one chain into the indexer's normalized records. Logs from unknown contracts
+ * and events without an ABI entry are skipped.
+ */
+export class ChainEventDecoder {
+  private chainId: number;
+  private contractNames: Map<string, string> = new Map();
+
+  /**
+   * @param contracts contract name to address for the contracts indexed on this chain
+   */
+  constructor(chainId: number, contracts: Record<string, string>) {
+    this.chainId = chainId;
+    for (const [name, contractAddress] of Object.entries(contracts)) {
+      this.contractNames.set(normalizeAddress(contractAddress), name);
+    }
+  }
+
+  /**
+   * Decode logs in chain order; `timestamps` must hold every block the logs were emitted in
+   */
+  decode(logs: ChainLog[], timestamps: Map<bigint, Date>): ChainEventBatch {
+    const batch: ChainEventBatch = { events: [], deposits: [], withdrawals: [], exchangeRates: [], bridgeMessages: [] };
+
+    for (const log of logs) {
+      const decoded = this.decodeLog(log, timestamps);
+      if (decoded) {
+        this.normalize(decoded, batch);
+      }
+    }
+
+    return batch;
+  }
+
+  private decodeLog(log: ChainLog, timestamps: Map<bigint, Date>): DecodedLog | null {
+    const contractName = this.contractNames.get(normalizeAddress(log.address));
+    const abi = contractName ? CHAIN_EVENT_ABIS[contractName] : undefined;
+    if (!contractName || !abi) return null;
+
+    try {
+      const { eventName, args } = decodeEventLog({
+        abi,
+        data: log.data as `0x${string}`,
+        topics: log.topics as [`0x${string}`, ...`0x${string}`[]]
+      });
+
+      return {
+        log,
+        contractName,
+        event: eventName as string,
+        args: args as EventArgs,
+        timestamp: timestamps.get(log.blockNumber) as Date
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private normalize(decoded: DecodedLog, batch: ChainEventBatch): void {
+    const { log, args, timestamp } = decoded;
+    const record = (type: ChainEventType | null, details: Partial<ChainEventRecord> = {}) => {
+      batch.events.push({
+        chainId: this.chainId,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.txHash,
+        logIndex: log.logIndex,
+        contract: normalizeAddress(log.address),
+        contractName: decoded.contractName,
+        event: decoded.event,
+        type,
+        args: serializeArgs(args),
+        timestamp,
+        ...details
+      });
+    };
+    const vaultFlow = (account: string): VaultFlowRecord => ({
+      chainId: this.chainId,
+      vault: normalizeAddress(log.address),
+      account,
+      asset: address(args.asset),
+      amount: amount(args.amount),
+      shares: amount(args.shares),
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.txHash,
+      logIndex: log.logIndex,
+      timestamp
+    });
+    const bridgeMessage = (message: Pick<BridgeMessageRecord, 'direction' | 'sender' | 'recipient' | 'token' | 'amount' | 'withdrawalHash'>) => {
+      batch.bridgeMessages.push({
+        ...message,
+        sourceChainId: this.chainId,
+        destinationChainId: message.direction === 'deposit' ? SWELLCHAIN_CHAIN_ID : ETHEREUM_CHAIN_ID,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.txHash,
+        logIndex: log.logIndex,
+        initiatedAt: timestamp
+      });
+    };
+
+    switch (decoded.event) {
+      case 'TransactionDeposited': {
+        // opaqueData is abi.encodePacked(mint, value, gasLimit, isCreation, data); mint is the ETH bridged
+        const opaqueData = args.opaqueData as string;
+        const mint = opaqueData.length >= 66 ? BigInt(`0x${opaqueData.slice(2, 66)}`) : 0n;
+        if (mint === 0n) {
+          record(null, { account: address(args.from) });
+          break;
+        }
+        record('bridge', { account: address(args.from), amount: mint.toString() });
+        bridgeMessage({ direction: 'deposit', sender: address(args.from), recipient: address(args.to), amount: mint.toString() });
+        break;
+      }
+      case 'WithdrawalProven':
+        record(null, { account: address(args.from), reference: args.withdrawalHash as string });
+        break;
+      case 'WithdrawalFinalized':
+        record(null, { reference: args.withdrawalHash as string });
+        break;
+      case 'ETHBridgeInitiated':
+        record('bridge', { account: address(args.from), amount: amount(args.amount) });
+        bridgeMessage({ direction: 'withdrawal', sender: address(args.from), recipient: address(args.to), amount: amount(args.amount) });
+        break;
+      case 'ERC20BridgeInitiated':
+        record('bridge', { account: address(args.from), token: address(args.localToken), amount: amount(args.amount) });
+        bridgeMessage({
+          direction: 'withdrawal',
+          sender: address(args.from),
+          recipient: address(args.to),
+          token: address(args.remoteToken),
+          amount: amount(args.amount)
+        });
+        break;
+      case 'ETHBridgeFinalized':
+        record('bridge', { account: address(args.to), amount: amount(args.amount) });
+        break;
+      case 'ERC20BridgeFinalized':
+        record('bridge', { account: address(args.to), token: address(args.localToken), amount: amount(args.amount) });
+        break;
+      case 'MessagePassed': {
+        // The standard bridge emits its own event earlier in the same transaction; link the two
+        const withdrawalHash = args.withdrawalHash as string;
+        const initiated = batch.bridgeMessages.find(message =>
+          message.txHash === log.txHash && message.direction === 'withdrawal' && !message.withdrawalHash
+        );
+        if (initiated) {
+          initiated.withdrawalHash = withdrawalHash;
+          record(null, { account: address(args.sender), reference: withdrawalHash });
+        } else if ((args.value as bigint) > 0n) {
+          record('bridge', { account: address(args.sender), amount: amount(args.value), reference: withdrawalHash });
+          bridgeMessage({
+            direction: 'withdrawal',
+            sender: address(args.sender),
+            recipient: address(args.target),
+            amount: amount(args.value),
+            withdrawalHash
+          });
+        } else {
+          record(null, { account: address(args.sender), reference: withdrawalHash });
+        }
+        break;
+      }
+      case 'Enter': {
+        const flow = vaultFlow(address(args.to));
+        batch.deposits.push(flow);
+        record('deposit', { account: flow.account, token: flow.asset, amount: flow.amount });
+        break;
+      }
+      case 'Exit': {
+        const flow = vaultFlow(address(args.from));
+        batch.withdrawals.push(flow);
+        record('withdraw', { account: flow.account, token: flow.asset, amount: flow.amount });
+        break;
+      }
+      case 'Deposit':
+        record(null, { account: address(args.receiver), token: address(args.depositAsset), amount: amount(args.depositAmount) });
+        break;
+      case 'DepositRefunded':
+        record(null, { account: address(args.user), reference: args.depositHash as string });
+        break;
+      case 'ExchangeRateUpdated':
+        batch.exchangeRates.push({
+          chainId: this.chainId,
+          accountant: normalizeAddress(log.address),
+          rate: amount(args.newRate),
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          txHash: log.txHash,
+          logIndex: log.logIndex,
+          timestamp
+        });
+        record(null);
+        break;
+      case 'AtomicRequestUpdated':
+        record(null, { account: address(args.user), token: address(args.offerToken), amount: amount(args.amount) });
+        break;
+      case 'AtomicRequestFulfilled':
+        // The solver burns the shares, so the vault's Exit names the solver; credit the user here
+        record('withdraw', { account: address(args.user), token: address(args.wantToken), amount: amount(args.wantAmountReceived) });
+        break;
+      default:
+        record(null);
+    }
+  }
+}
@@ -0,0 +1,303 @@
+import { Abi, getAbiItem } from 'viem';
+import { PrismaClient } from '@prisma/client';
+import { ChainIndexer, IndexedChain } from './ChainIndexer';
+import { StubChainClient } from './ChainClient';
+import { CHAIN_EVENT_ABIS } from './ChainEventDecoder';
+import {
+  BlockHeader,
+  ChainCheckpoint,
+  ChainCursor,
+  ChainDataRepository,
+  ChainEventBatch,
+  ChainEventRecord,
+  VaultFlowRecord
+} from '../repositories/ChainDataRepository';
+import { SWELLCHAIN_CHAIN_ID } from '../utils/chains';
+
+jest.mock('../utils/logger');
+
+type AbiEvent = Extract<Abi[number], { type: 'event' }>;
+
+const VAULT = '0x9ed15383940cc380faef0a75edace507cc775f22';
+const WETH = '0x4200000000000000000000000000000000000006';
+const USDC = '0x1111111111111111111111111111111111111111';
+const ALICE = '0x2222222222222222222222222222222222222222';
+const ENTER = getAbiItem({ abi: CHAIN_EVENT_ABIS.NUCLEUS_BORING_VAULT, name: 'Enter' }) as AbiEvent;
+
+/**
+ * Keeps what the indexer stores in memory. Rollback drops rows above the ancestor the same way the
+ * Prisma-backed repository does, and remembers what it dropped.
+ */
+class InMemoryChainDataRepository extends ChainDataRepository {
+  cursors = new Map<number, ChainCursor>();
+  blocks: Array<BlockHeader & { chainId: number }> = [];
+  events: ChainEventRecord[] = [];
+  deposits: VaultFlowRecord[] = [];
+  rollbacks: Array<{ chainId: number; ancestor: bigint; events: ChainEventRecord[]; deposits: VaultFlowRecord[] }> = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async getCursor(chainId: number): Promise<ChainCursor | null> {
+    return this.cursors.get(chainId) || null;
+  }
+
+  async listCursors(): Promise<ChainCursor[]> {
+    return Array.from(this.cursors.values());
+  }
+
+  async listIndexedBlocks(chainId: number): Promise<BlockHeader[]> {
+    return this.blocks
+      .filter(block => block.chainId === chainId)
+      .sort((a, b) => (a.number < b.number ? 1 : -1))
+      .map(({ number, hash, parentHash }) => ({ number, hash, parentHash }));
+  }
+
+  async saveBatch(chainId: number, batch: ChainEventBatch, checkpoint: ChainCheckpoint): Promise<void> {
+    const { blocks, ...cursor } = checkpoint;
+    const key = (row: { chainId: number; txHash: string; logIndex: number }) => `${row.chainId}:${row.txHash}:${row.logIndex}`;
+    const add = <T extends { chainId: number; txHash: string; logIndex: number }>(rows: T[], added: T[]) => {
+      const existing = new Set(rows.map(key));
+      rows.push(...added.filter(row => !existing.has(key(row))));
+    };
+
+    for (const block of blocks) {
+      if (!this.blocks.some(tracked => tracked.chainId === chainId && tracked.number === block.number)) {
+        this.blocks.push({ chainId, ...block });
+      }
+    }
+    this.blocks = this.blocks.filter(block => block.chainId !== chainId || block.number >= cursor.finalizedBlockNumber);
+    add(this.events, batch.events);
+    add(this.deposits, batch.deposits);
+    this.cursors.set(chainId, { chainId, ...cursor, updatedAt: new Date() });
+  }
+
+  async rollback(chainId: number, ancestor: { number: bigint; hash: string }): Promise<number> {
+    const orphaned = (row: { chainId: number; blockNumber: bigint }) => row.chainId === chainId && row.blockNumber > ancestor.number;
+    const events = this.events.filter(orphaned);
+    const deposits = this.deposits.filter(orphaned);
+
+    this.events = this.events.filter(row => !orphaned(row));
+    this.deposits = this.deposits.filter(row => !orphaned(row));
+    this.blocks = this.blocks.filter(block => block.chainId !== chainId || block.number <= ancestor.number);
+
+    const cursor = this.cursors.get(chainId) as ChainCursor;
+    this.cursors.set(chainId, {
+      ...cursor,
+      blockNumber: ancestor.number,
+      blockHash: ancestor.hash,
+      safeBlockNumber: cursor.safeBlockNumber < ancestor.number ? cursor.safeBlockNumber : ancestor.number,
+      finalizedBlockNumber: cursor.finalizedBlockNumber < ancestor.number ? cursor.finalizedBlockNumber : ancestor.number
+    });
+
+    this.rollbacks.push({ chainId, ancestor: ancestor.number, events, deposits });
+    return events.length;
+  }
+}
+
+describe('ChainIndexer', () => {
+  let client: StubChainClient;
+  let repository: InMemoryChainDataRepository;
+
+  const chainOf = (overrides: Partial<IndexedChain> = {}): IndexedChain => ({
+    chainId: SWELLCHAIN_CHAIN_ID,
+    name: 'Swellchain',
+    client,
+    contracts: { NUCLEUS_BORING_VAULT: VAULT },
+    safeBlocks: 2,
+    finalityBlocks: 5,
+    startBlock: 1n,
+    ...overrides
+  });
+
+  const indexer = (options = { batchSize: 100, maxBatchesPerRun: 10 }, chain: Partial<IndexedChain> = {}) =>
+    new ChainIndexer(repository, [chainOf(chain)], options);
+
+  const deposit = (amount: bigint, asset: string = WETH) =>
+    client.emit(VAULT, ENTER, { from: ALICE, asset, amount, to: ALICE, shares: amount });
+
+  const hashOf = async (blockNumber: bigint) => (await client.getBlock(blockNumber)).hash;
+
+  beforeEach(() => {
+    client = new StubChainClient(SWELLCHAIN_CHAIN_ID, 1n);
+    repository = new InMemoryChainDataRepository();
+  });
+
+  describe('indexing', () => {
+    it('stores decoded events and checkpoints the tip with its safe and final depths', async () => {
+      const first = deposit(10n ** 18n);
+      const second = deposit(5n * 10n ** 18n);
+      client.mineBlocks(5);
+
+      const [result] = await indexer().run();
+
+      expect(result).toMatchObject({ chainId: SWELLCHAIN_CHAIN_ID, fromBlock: 1, toBlock: 8, events: 2 });
+      expect(repository.events.map(event => [event.blockNumber, event.txHash, event.type, event.amount])).toEqual([
+        [first.blockNumber, first.txHash, 'deposit', (10n ** 18n).toString()],
+        [second.blockNumber, second.txHash, 'deposit', (5n * 10n ** 18n).toString()]
+      ]);
+      expect(repository.deposits).toHaveLength(2);
+      expect(repository.cursors.get(SWELLCHAIN_CHAIN_ID)).toMatchObject({
+        blockNumber: 8n,
+        blockHash: await hashOf(8n),
+        safeBlockNumber: 6n,
+        finalizedBlockNumber: 3n
+      });
+      // Headers are kept from the last final block up, for tracing reorgs
+      expect((await repository.listIndexedBlocks(SWELLCHAIN_CHAIN_ID)).map(block => block.number)).toEqual([8n, 7n, 6n, 5n, 4n, 3n]);
+    });
+
+    it('records amounts with the decimals of their token', async () => {
+      client.setTokenDecimals(USDC, 6);
+      deposit(10n ** 18n, WETH);
+      deposit(2_500_000n, USDC);
+
+      await indexer().run();
+
+      expect(repository.events.map(event => [event.token, event.decimals])).toEqual([[WETH, 18], [USDC, 6]]);
+    });
+
+    it('stores amounts without decimals when the token does not report them', async () => {
+      jest.spyOn(client, 'getTokenDecimals').mockRejectedValue(new Error('execution reverted'));
+      deposit(1000n, USDC);
+
+      const [result] = await indexer().run();
+
+      expect(result.error).toBeUndefined();
+      expect(repository.events[0]).toMatchObject({ amount: '1000', decimals: undefined });
+    });
+
+    it('resumes from the checkpoint on the next run', async () => {
+      deposit(1n);
+      await indexer().run();
+
+      const [idle] = await indexer().run();
+      const later = deposit(2n);
+      const [next] = await indexer().run();
+
+      expect(idle).toEqual({ chainId: SWELLCHAIN_CHAIN_ID, events: 0 });
+      expect(next).toMatchObject({ chainId: SWELLCHAIN_CHAIN_ID, fromBlock: Number(later.blockNumber), toBlock: Number(later.blockNumber), events: 1 });
+      expect(repository.events).toHaveLength(2);
+    });
+
+    it('spreads a long range over several runs', async () => {
+      client.mineBlocks(20);
+      const limited = indexer({ batchSize: 5, maxBatchesPerRun: 2 });
+
+      const runs = [];
+      for (let i = 0; i < 3; i++) {
+        runs.push((await limited.run())[0]);
+      }
+
+      expect(runs.map(run => [run.fromBlock, run.toBlock])).toEqual([[1, 10], [11, 20], [21, 21]]);
+      expect(repository.cursors.get(SWELLCHAIN_CHAIN_ID)?.blockNumber).toBe(21n);
+    });
+
+    it('reports the time span of the events it saved', async () => {
+      const first = deposit(1n);
+      client.mineBlocks(3);
+      const last = deposit(2n);
+
+      const [result] = await indexer().run();
+
+      expect(result.span).toEqual({
+        since: (await client.getBlock(first.blockNumber)).timestamp,
+        until: (await client.getBlock(last.blockNumber)).timestamp
+      });
+    });
+
+    it('refuses to index a chain whose RPC reports a different chain id', async () => {
+      const [result] = await indexer(undefined, { chainId: 1 }).run();
+
+      expect(result.error).toBe(`RPC for Swellchain reports chain ${SWELLCHAIN_CHAIN_ID}, expected 1`);
+      expect(repository.cursors.size).toBe(0);
+    });
+  });
+
+  describe('reorgs', () => {
+    it('rolls back to the fork point and re-indexes the new canonical blocks', async () => {
+      const kept = deposit(1n);
+      const orphanedFirst = deposit(2n);
+      const orphanedSecond = deposit(3n);
+      client.mineBlocks(1);
+      await indexer().run();
+      const forkPoint = orphanedFirst.blockNumber - 1n;
+      const ancestorHash = await hashOf(forkPoint);
+
+      // Blocks after the first deposit are replaced by a fork that includes a different deposit
+      client.reorg(3);
+      const replacement = deposit(4n);
+
+      const [result] = await indexer().run();
+
+      expect(result).toMatchObject({ reorgDepth: 3, fromBlock: Number(forkPoint) + 1, toBlock: Number(replacement.blockNumber), events: 1 });
+      expect(repository.rollbacks).toHaveLength(1);
+      expect(repository.rollbacks[0].ancestor).toBe(forkPoint);
+      expect(repository.rollbacks[0].events.map(event => event.txHash)).toEqual([orphanedFirst.txHash, orphanedSecond.txHash]);
+      expect(repository.rollbacks[0].deposits.map(flow => flow.amount)).toEqual(['2', '3']);
+      expect(repository.events.map(event => [event.txHash, event.blockHash])).toEqual([
+        [kept.txHash, kept.blockHash],
+        [replacement.txHash, replacement.blockHash]
+      ]);
+      expect(repository.cursors.get(SWELLCHAIN_CHAIN_ID)).toMatchObject({
+        blockNumber: replacement.blockNumber,
+        blockHash: await hashOf(replacement.blockNumber)
+      });
+      expect(await hashOf(forkPoint)).toBe(ancestorHash);
+    });
+
+    it('reports a span from the fork point so rolled back events are covered', async () => {
+      deposit(1n);
+      const orphaned = deposit(2n);
+      await indexer().run();
+      const forkPoint = orphaned.blockNumber - 1n;
+
+      client.reorg(1);
+      const [result] = await indexer().run();
+
+      expect(result.span?.since).toEqual((await client.getBlock(forkPoint)).timestamp);
+      expect(result.span!.until.getTime()).toBeGreaterThanOrEqual((await client.getBlock(orphaned.blockNumber)).timestamp.getTime());
+    });
+
+    it('tracks only headers on the new fork after a rollback', async () => {
+      client.mineBlocks(6);
+      await indexer().run();
+
+      client.reorg(2);
+      await indexer().run();
+
+      const tracked = await repository.listIndexedBlocks(SWELLCHAIN_CHAIN_ID);
+      for (const block of tracked) {
+        expect(block.hash).toBe(await hashOf(block.number));
+      }
+      expect(tracked[0].number).toBe(await client.getBlockNumber());
+    });
+
+    it('leaves the index alone when the tip is still canonical', async () => {
+      deposit(1n);
+      await indexer().run();
+      client.mineBlocks(2);
+
+      const [result] = await indexer().run();
+
+      expect(result.reorgDepth).toBeUndefined();
+      expect(repository.rollbacks).toEqual([]);
+    });
+
+    it('stops with an error when the reorg reaches past the last final block', async () => {
+      deposit(1n);
+      client.mineBlocks(7);
+      await indexer().run();
+      const cursor = repository.cursors.get(SWELLCHAIN_CHAIN_ID);
+
+      client.reorg(8);
+      const [result] = await indexer().run();
+
+      expect(result.error).toBe('Reorg on Swellchain reaches past the last final block; re-index from an earlier start block');
+      expect(repository.rollbacks).toEqual([]);
+      expect(repository.events).toHaveLength(1);
+      expect(repository.cursors.get(SWELLCHAIN_CHAIN_ID)).toEqual(cursor);
+    });
+  });
+});
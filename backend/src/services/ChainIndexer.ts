@@ -0,0 +1,305 @@
+import { logger } from '../utils/logger';
+import { normalizeAddress } from '../utils/address';
+import {
+  CHAIN_NAMES,
+  CONFIRMATION_DEPTHS,
+  ETHEREUM_CHAIN_ID,
+  INDEXED_CONTRACTS,
+  SWELLCHAIN_CHAIN_ID,
+  SWELLCHAIN_CONTRACTS
+} from '../utils/chains';
+import { BlockHeader, ChainCursor, ChainDataRepository, ChainEventRecord } from '../repositories/ChainDataRepository';
+import { ChainClient, RpcChainClient } from './ChainClient';
+import { ChainEventDecoder } from './ChainEventDecoder';
+import { RpcClient, rpcOptionsFromConfig } from './RpcClient';
+import { EnvConfig, IndexerStatus } from '../types';
+
+export interface IndexedChain {
+  chainId: number;
+  name: string;
+  client: ChainClient;
+  /** Contract name to address */
+  contracts: Record<string, string>;
+  /** Depth at which indexed data counts as safe from reorgs */
+  safeBlocks: number;
+  /** Depth at which blocks are final; reorgs are tracked within this window */
+  finalityBlocks: number;
+  /** First block to index when nothing has been indexed yet; defaults to the last final block */
+  startBlock?: bigint;
+}
+
+export interface ChainIndexerOptions {
+  /** Blocks fetched per getLogs call */
+  batchSize: number;
+  /** Upper bound on batches per chain per run so one run cannot monopolise the process */
+  maxBatchesPerRun: number;
+}
+
+export interface ChainRunResult {
+  chainId: number;
+  fromBlock?: number;
+  toBlock?: number;
+  events: number;
+  /** Blocks rolled back because of a reorg */
+  reorgDepth?: number;
+  /** Timestamps spanned by the events saved or rolled back, for recomputing aggregates over them */
+  span?: { since: Date; until: Date };
+  error?: string;
+}
+
+/**
+ * Ethereum and Swellchain over the shared RPC clients unless an indexer-specific URL is set, or
+ * nothing when the indexer is disabled
+ */
+export function indexedChainsFromConfig(config: EnvConfig, rpcClients: Record<number, RpcClient>): IndexedChain[] {
+  if (!config.INDEXER_ENABLED) return [];
+
+  const addresses: Record<string, string> = { ...SWELLCHAIN_CONTRACTS, ...config.INDEXER_CONTRACTS };
+  const chain = (chainId: number, rpcUrl: string | undefined, startBlock?: number): IndexedChain => ({
+    chainId,
+    name: CHAIN_NAMES[chainId],
+    client: new RpcChainClient(rpcUrl ? new RpcClient(chainId, [rpcUrl], rpcOptionsFromConfig(config, chainId)) : rpcClients[chainId]),
+    contracts: Object.fromEntries(INDEXED_CONTRACTS[chainId]
+      .filter(name => addresses[name])
+      .map(name => [name, normalizeAddress(addresses[name])])),
+    safeBlocks: config.INDEXER_CONFIRMATIONS ?? CONFIRMATION_DEPTHS[chainId].safe,
+    finalityBlocks: config.INDEXER_FINALITY_BLOCKS ?? CONFIRMATION_DEPTHS[chainId].finalized,
+    startBlock: startBlock !== undefined ? BigInt(startBlock) : undefined
+  });
+
+  return [
+    chain(ETHEREUM_CHAIN_ID, config.INDEXER_ETHEREUM_RPC_URL, config.INDEXER_ETHEREUM_START_BLOCK),
+    chain(SWELLCHAIN_CHAIN_ID, config.INDEXER_SWELLCHAIN_RPC_URL, config.INDEXER_SWELLCHAIN_START_BLOCK)
+  ];
+}
+
+interface ChainState {
+  chain: IndexedChain;
+  decoder: ChainEventDecoder;
+  verified: boolean;
+  /** Decimals by token address, filled as tokens are first seen */
+  tokenDecimals: Map<string, number>;
+}
+
+const ETH_DECIMALS = 18;
+
+const max = (a: bigint, b: bigint): bigint => a > b ? a : b;
+const min = (a: bigint, b: bigint): bigint => a < b ? a : b;
+
+const widenSpan = (result: ChainRunResult, since: Date, until: Date): void => {
+  result.span = result.span
+    ? { since: since < result.span.since ? since : result.span.since, until: until > result.span.until ? until : result.span.until }
+    : { since, until };
+};
+
+/**
+ * Follows each configured chain to its head and stores decoded contract events. Progress is
+ * checkpointed per chain, so runs resume where the last one stopped.
+ *
+ * Headers of non-final blocks are kept so a reorg can be traced back to the fork point; everything
+ * indexed above it is rolled back and re-indexed from the new canonical chain.
+ */
+export class ChainIndexer {
+  private repository: ChainDataRepository;
+  private chains: ChainState[];
+  private options: ChainIndexerOptions;
+
+  constructor(repository: ChainDataRepository, chains: IndexedChain[], options: ChainIndexerOptions) {
+    this.repository = repository;
+    this.chains = chains.map(chain => ({
+      chain,
+      decoder: new ChainEventDecoder(chain.chainId, chain.contracts),
+      verified: false,
+      tokenDecimals: new Map()
+    }));
+    this.options = options;
+  }
+
+  /**
+   * Index every chain; a failing chain is logged and does not hold back the others
+   */
+  async run(): Promise<ChainRunResult[]> {
+    const results: ChainRunResult[] = [];
+
+    for (const state of this.chains) {
+      try {
+        results.push(await this.indexChain(state));
+      } catch (error) {
+        logger.error(`Indexing ${state.chain.name} failed`, error);
+        results.push({ chainId: state.chain.chainId, events: 0, error: (error as Error).message });
+      }
+    }
+
+    return results;
+  }
+
+  async getStatus(): Promise<IndexerStatus[]> {
+    const cursors = await this.repository.listCursors();
+
+    return Promise.all(this.chains.map(async ({ chain }) => {
+      const cursor = cursors.find(candidate => candidate.chainId === chain.chainId);
+      const status: IndexerStatus = {
+        chainId: chain.chainId,
+        name: chain.name,
+        blockNumber: cursor ? Number(cursor.blockNumber) : undefined,
+        blockHash: cursor?.blockHash,
+        safeBlockNumber: cursor ? Number(cursor.safeBlockNumber) : undefined,
+        finalizedBlockNumber: cursor ? Number(cursor.finalizedBlockNumber) : undefined,
+        updatedAt: cursor?.updatedAt
+      };
+
+      try {
+        const head = await chain.client.getBlockNumber();
+        status.head = Number(head);
+        if (cursor) status.lag = Number(head - cursor.blockNumber);
+      } catch (error) {
+        status.error = (error as Error).message;
+      }
+
+      return status;
+    }));
+  }
+
+  private async indexChain(state: ChainState): Promise<ChainRunResult> {
+    const { chain, decoder } = state;
+
+    if (!state.verified) {
+      const chainId = await chain.client.getChainId();
+      if (chainId !== chain.chainId) {
+        throw new Error(`RPC for ${chain.name} reports chain ${chainId}, expected ${chain.chainId}`);
+      }
+      state.verified = true;
+    }
+
+    const result: ChainRunResult = { chainId: chain.chainId, events: 0 };
+    const head = await chain.client.getBlockNumber();
+    const finalizedHead = max(head - BigInt(chain.finalityBlocks), 0n);
+    const safeHead = max(head - BigInt(chain.safeBlocks), 0n);
+
+    let cursor = await this.repository.getCursor(chain.chainId);
+    if (cursor) {
+      const rollback = await this.rollbackReorg(chain, cursor);
+      if (rollback) {
+        result.reorgDepth = rollback.depth;
+        // Every orphaned event came after the fork point
+        widenSpan(result, rollback.since, new Date());
+        cursor = await this.repository.getCursor(chain.chainId);
+      }
+    }
+
+    let fromBlock = cursor ? cursor.blockNumber + 1n : (chain.startBlock ?? finalizedHead);
+    let parentHash = cursor?.blockHash;
+    const addresses = Object.values(chain.contracts);
+
+    for (let batches = 0; batches < this.options.maxBatchesPerRun && fromBlock <= head; batches++) {
+      const toBlock = min(fromBlock + BigInt(this.options.batchSize) - 1n, head);
+
+      const logs = await chain.client.getLogs({ addresses, fromBlock, toBlock });
+      logs.sort((a, b) => a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : (a.blockNumber < b.blockNumber ? -1 : 1));
+
+      // Blocks that can still be reorged are fetched one by one and must link to their parents
+      const blocks: BlockHeader[] = [];
+      const timestamps = new Map<bigint, Date>();
+      for (let number = max(fromBlock, finalizedHead); number <= toBlock; number++) {
+        const block = await chain.client.getBlock(number);
+        const expectedParent = blocks.length > 0 ? blocks[blocks.length - 1].hash : (number === fromBlock ? parentHash : undefined);
+        if (expectedParent && block.parentHash !== expectedParent) {
+          logger.warn(`${chain.name} block ${number} does not extend the indexed chain; resolving the reorg next run`);
+          return result;
+        }
+        blocks.push({ number, hash: block.hash, parentHash: block.parentHash });
+        timestamps.set(number, block.timestamp);
+      }
+      if (logs.some(log => blocks.some(block => block.number === log.blockNumber && block.hash !== log.blockHash))) {
+        logger.warn(`${chain.name} logs and headers disagree between blocks ${fromBlock}-${toBlock}; retrying next run`);
+        return result;
+      }
+      for (const blockNumber of Array.from(new Set(logs.map(log => log.blockNumber)))) {
+        if (!timestamps.has(blockNumber)) {
+          timestamps.set(blockNumber, (await chain.client.getBlock(blockNumber)).timestamp);
+        }
+      }
+      const lastIndexed = blocks.length > 0 ? blocks[blocks.length - 1] : await chain.client.getBlock(toBlock);
+
+      const batch = decoder.decode(logs, timestamps);
+      await this.resolveDecimals(state, batch.events);
+      await this.repository.saveBatch(chain.chainId, batch, {
+        blockNumber: toBlock,
+        blockHash: lastIndexed.hash,
+        safeBlockNumber: min(safeHead, toBlock),
+        finalizedBlockNumber: min(finalizedHead, toBlock),
+        blocks
+      });
+
+      result.fromBlock = result.fromBlock ?? Number(fromBlock);
+      result.toBlock = Number(toBlock);
+      result.events += batch.events.length;
+      if (batch.events.length > 0) {
+        const times = batch.events.map(event => event.timestamp.getTime());
+        widenSpan(result, new Date(Math.min(...times)), new Date(Math.max(...times)));
+      }
+      fromBlock = toBlock + 1n;
+      parentHash = lastIndexed.hash;
+    }
+
+    if (result.toBlock !== undefined) {
+      logger.debug(`Indexed ${chain.name} blocks ${result.fromBlock}-${result.toBlock}`, { events: result.events });
+    }
+
+    return result;
+  }
+
+  /**
+   * Record the decimals of each event's amount: 18 for ETH, the token's own otherwise. Amounts in
+   * tokens that don't report decimals are stored without them rather than holding the chain back.
+   */
+  private async resolveDecimals(state: ChainState, events: ChainEventRecord[]): Promise<void> {
+    for (const event of events) {
+      if (event.amount === undefined) continue;
+      if (!event.token) {
+        event.decimals = ETH_DECIMALS;
+        continue;
+      }
+
+      if (!state.tokenDecimals.has(event.token)) {
+        try {
+          state.tokenDecimals.set(event.token, await state.chain.client.getTokenDecimals(event.token));
+        } catch (error) {
+          logger.warn(`Could not read decimals of ${event.token} on ${state.chain.name}; its amounts are left out of volumes`, error);
+        }
+      }
+      event.decimals = state.tokenDecimals.get(event.token);
+    }
+  }
+
+  /**
+   * When the indexed tip is no longer canonical, walk the tracked headers back to the newest one
+   * the chain still agrees with and roll back to it. Returns the number of blocks rolled back and
+   * the time of the block rolled back to, or null when there was nothing to roll back.
+   */
+  private async rollbackReorg(chain: IndexedChain, cursor: ChainCursor): Promise<{ depth: number; since: Date } | null> {
+    if (await this.canonicalHash(chain, cursor.blockNumber) === cursor.blockHash) return null;
+
+    const tracked = await this.repository.listIndexedBlocks(chain.chainId);
+    for (const block of tracked) {
+      if (block.number >= cursor.blockNumber) continue;
+      if (await this.canonicalHash(chain, block.number) !== block.hash) continue;
+
+      const removed = await this.repository.rollback(chain.chainId, block);
+      const depth = Number(cursor.blockNumber - block.number);
+      logger.warn(`Reorg on ${chain.name}: rolled back ${depth} blocks to ${block.number}`, { removed });
+      return { depth, since: (await chain.client.getBlock(block.number)).timestamp };
+    }
+
+    throw new Error(`Reorg on ${chain.name} reaches past the last final block; re-index from an earlier start block`);
+  }
+
+  private async canonicalHash(chain: IndexedChain, blockNumber: bigint): Promise<string | null> {
+    try {
+      return (await chain.client.getBlock(blockNumber)).hash;
+    } catch (error) {
+      // The chain may now be shorter than what was indexed
+      return null;
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import { BaseError, ContractFunctionRevertedError, Hex, PublicClient } from 'viem';
+import { ServiceUnavailableError, ValidationError } from '../middleware/errorHandler';
+import { normalizeAddress } from '../utils/address';
+import { MULTICALL3_ADDRESS, SWELLCHAIN_CHAIN_ID } from '../utils/chains';
+import { riskOracleAbi, swellChainIntegrationAbi, swellScopeVaultAbi } from '../contracts/generated/abis';
+import { DEPLOYMENTS } from '../contracts/generated/deployments';
+import { RpcClient } from './RpcClient';
+import {
+  BridgeRoute,
+  ContractName,
+  ContractsStatus,
+  EnvConfig,
+  IntegrationAVSMetrics,
+  IntegrationBridgeStatus,
+  IntegrationMetrics,
+  IntegrationTokenMetrics,
+  OracleRiskScore,
+  VaultRiskProfile,
+  VaultState
+} from '../types';
+
+/**
+ * Swellchain addresses from the deployment manifest, overridden per contract by the environment.
+ * Dry runs are skipped: their addresses were simulated, not deployed.
+ */
+export function contractAddressesFromConfig(config: EnvConfig): Partial<Record<ContractName, string>> {
+  const deployment = DEPLOYMENTS[SWELLCHAIN_CHAIN_ID];
+  const addresses: Partial<Record<ContractName, string>> = deployment && !deployment.dryRun ? { ...deployment.contracts } : {};
+  const overrides: Partial<Record<ContractName, string | undefined>> = {
+    RiskOracle: config.RISK_ORACLE_ADDRESS,
+    SwellScopeVault: config.SWELLSCOPE_VAULT_ADDRESS,
+    SwellChainIntegration: config.SWELLCHAIN_INTEGRATION_ADDRESS
+  };
+
+  for (const [name, address] of Object.entries(overrides)) {
+    if (address) addresses[name as ContractName] = normalizeAddress(address);
+  }
+  return addresses;
+}
+
+const toDate = (seconds: bigint): Date | null => seconds > 0n ? new Date(Number(seconds) * 1000) : null;
+
+/**
+ * Reads the SwellScope contracts on Swellchain through the generated bindings. Related reads go out
+ * as one multicall.
+ */
+export class ContractsService {
+  private client: PublicClient;
+  private addresses: Partial<Record<ContractName, string>>;
+
+  constructor(rpc: RpcClient, addresses: Partial<Record<ContractName, string>>) {
+    this.client = rpc.toPublicClient();
+    this.addresses = addresses;
+  }
+
+  getStatus(): ContractsStatus {
+    return { chainId: SWELLCHAIN_CHAIN_ID, contracts: { ...this.addresses } };
+  }
+
+  async getVaultState(): Promise<VaultState> {
+    const vault = { address: this.address('SwellScopeVault'), abi: swellScopeVaultAbi } as const;
+    const [
+      asset,
+      totalAssets,
+      totalSupply,
+      portfolioRiskScore,
+      totalAllocation,
+      managementFee,
+      performanceFee,
+      emergencyExitTriggered,
+      lastRiskUpdate,
+      paused,
+      strategies
+    ] = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL3_ADDRESS as Hex,
+      contracts: [
+        { ...vault, functionName: 'asset' },
+        { ...vault, functionName: 'totalAssets' },
+        { ...vault, functionName: 'totalSupply' },
+        { ...vault, functionName: 'getPortfolioRiskScore' },
+        { ...vault, functionName: 'getTotalAllocation' },
+        { ...vault, functionName: 'managementFee' },
+        { ...vault, functionName: 'performanceFee' },
+        { ...vault, functionName: 'emergencyExitTriggered' },
+        { ...vault, functionName: 'lastRiskUpdate' },
+        { ...vault, functionName: 'paused' },
+        { ...vault, functionName: 'getActiveStrategies' }
+      ]
+    });
+
+    const infos = strategies.length === 0 ? [] : await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL3_ADDRESS as Hex,
+      contracts: strategies.map(strategy => ({ ...vault, functionName: 'getStrategyInfo', args: [strategy] }) as const)
+    });
+
+    return {
+      address: vault.address,
+      asset: normalizeAddress(asset),
+      totalAssets: totalAssets.toString(),
+      totalSupply: totalSupply.toString(),
+      portfolioRiskScore: Number(portfolioRiskScore),
+      totalAllocation: Number(totalAllocation),
+      managementFeeBps: Number(managementFee),
+      performanceFeeBps: Number(performanceFee),
+      emergencyExitTriggered,
+      paused,
+      lastRiskUpdate: toDate(lastRiskUpdate),
+      strategies: infos.map((info, index) => ({
+        address: normalizeAddress(strategies[index]),
+        active: info.active,
+        allocation: Number(info.allocation),
+        riskScore: Number(info.riskScore),
+        expectedYield: Number(info.expectedYield),
+        tvl: info.tvl.toString()
+      }))
+    };
+  }
+
+  async getUserRiskProfile(user: string): Promise<VaultRiskProfile> {
+    const profile = await this.client.readContract({
+      address: this.address('SwellScopeVault'),
+      abi: swellScopeVaultAbi,
+      functionName: 'getUserRiskProfile',
+      args: [user as Hex]
+    });
+
+    return {
+      maxRiskScore: Number(profile.maxRiskScore),
+      preferredYield: Number(profile.preferredYield),
+      autoRebalance: profile.autoRebalance,
+      lastRebalance: toDate(profile.lastRebalance)
+    };
+  }
+
+  async getOracleRiskScore(asset: string): Promise<OracleRiskScore> {
+    const oracle = { address: this.address('RiskOracle'), abi: riskOracleAbi } as const;
+    const [metrics, threshold, emergencyActive, stale] = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL3_ADDRESS as Hex,
+      contracts: [
+        { ...oracle, functionName: 'getRiskMetrics', args: [asset as Hex] },
+        { ...oracle, functionName: 'getRiskThreshold', args: [asset as Hex] },
+        { ...oracle, functionName: 'isEmergencyActive', args: [asset as Hex] },
+        { ...oracle, functionName: 'isDataStale', args: [asset as Hex] }
+      ]
+    });
+
+    return {
+      asset: normalizeAddress(asset),
+      riskScore: Number(metrics.compositeRisk),
+      threshold: Number(threshold),
+      slashingRisk: Number(metrics.slashingRisk),
+      liquidityRisk: Number(metrics.liquidityRisk),
+      smartContractRisk: Number(metrics.smartContractRisk),
+      marketRisk: Number(metrics.marketRisk),
+      emergencyActive,
+      stale,
+      lastUpdate: toDate(metrics.lastUpdate)
+    };
+  }
+
+  async getIntegrationMetrics(): Promise<IntegrationMetrics> {
+    const integration = { address: this.address('SwellChainIntegration'), abi: swellChainIntegrationAbi } as const;
+    const [mach, swETH, rswETH, network] = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL3_ADDRESS as Hex,
+      contracts: [
+        { ...integration, functionName: 'getMACHMetrics' },
+        { ...integration, functionName: 'getSwETHMetrics' },
+        { ...integration, functionName: 'getRswETHMetrics' },
+        { ...integration, functionName: 'getNetworkStatus' }
+      ]
+    });
+    const [isHealthy, finalityTime, gasPrice] = network;
+
+    return {
+      address: integration.address,
+      mach: this.avsMetrics(mach),
+      swETH: this.tokenMetrics(swETH),
+      rswETH: this.tokenMetrics(rswETH),
+      network: { isHealthy, finalityTime: Number(finalityTime), gasPrice: gasPrice.toString() }
+    };
+  }
+
+  async getBridgeStatus(operationId: string): Promise<IntegrationBridgeStatus> {
+    const status = await this.client.readContract({
+      address: this.address('SwellChainIntegration'),
+      abi: swellChainIntegrationAbi,
+      functionName: 'getBridgeStatus',
+      args: [operationId as Hex]
+    });
+
+    return { operationId, status: status === 1 ? 'confirmed' : 'pending' };
+  }
+
+  async getOptimalBridgeRoute(token: string, amount: bigint, targetChainId: number): Promise<BridgeRoute> {
+    try {
+      const [bridge, estimatedTime, estimatedCost] = await this.client.readContract({
+        address: this.address('SwellChainIntegration'),
+        abi: swellChainIntegrationAbi,
+        functionName: 'getOptimalBridgeRoute',
+        args: [token as Hex, amount, BigInt(targetChainId)]
+      });
+
+      return { bridge: normalizeAddress(bridge), estimatedTime: Number(estimatedTime), estimatedCost: estimatedCost.toString() };
+    } catch (error) {
+      // The contract rejects unsupported tokens with a revert reason worth passing on
+      const reverted = error instanceof BaseError
+        ? error.walk(cause => cause instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null
+        : null;
+      if (reverted?.reason) throw new ValidationError(reverted.reason);
+      throw error;
+    }
+  }
+
+  private address(name: ContractName): Hex {
+    const address = this.addresses[name];
+    if (!address) {
+      throw new ServiceUnavailableError(`${name} is not deployed on Swellchain`);
+    }
+    return address as Hex;
+  }
+
+  private avsMetrics(metrics: {
+    name: string;
+    avsContract: string;
+    totalStaked: bigint;
+    performanceScore: bigint;
+    slashingEvents: bigint;
+    operatorCount: bigint;
+    isActive: boolean;
+  }): IntegrationAVSMetrics {
+    return {
+      name: metrics.name,
+      avsContract: normalizeAddress(metrics.avsContract),
+      totalStaked: metrics.totalStaked.toString(),
+      performanceScore: Number(metrics.performanceScore),
+      slashingEvents: Number(metrics.slashingEvents),
+      operatorCount: Number(metrics.operatorCount),
+      isActive: metrics.isActive
+    };
+  }
+
+  private tokenMetrics(metrics: {
+    token: string;
+    exchangeRate: bigint;
+    totalSupply: bigint;
+    backingAssets: bigint;
+    yieldRate: bigint;
+    slashingRisk: bigint;
+  }): IntegrationTokenMetrics {
+    return {
+      token: normalizeAddress(metrics.token),
+      exchangeRate: metrics.exchangeRate.toString(),
+      totalSupply: metrics.totalSupply.toString(),
+      backingAssets: metrics.backingAssets.toString(),
+      yieldRate: Number(metrics.yieldRate),
+      slashingRisk: Number(metrics.slashingRisk)
+    };
+  }
+}
@@ -4,6 +4,13 @@ import { AnalyticsService } from './AnalyticsService';
 import { RiskService } from './RiskService';
 import { SwellChainService } from './SwellChainService';
 import { WebSocketService } from './WebSocketService';
+import { InvoiceService } from './InvoiceService';
+import { AccountDeletionService } from './AccountDeletionService';
+import { ChainIndexer } from './ChainIndexer';
+import { DepegMonitor } from './DepegMonitor';
+import { TimeSeriesService } from './TimeSeriesService';
+import { PriceService } from './PriceService';
+import { DepegThreshold } from '../types';
 
 interface ScheduledTask {
   name: string;
@@ -17,12 +24,22 @@ interface ScheduledTask {
 export class CronService {
   private tasks: Map<string, ScheduledTask> = new Map();
   private isShuttingDown: boolean = false;
+  // Severity of each token's breach as of the last depeg run, to announce only changes
+  private pegSeverities: Map<string, DepegThreshold['severity']> = new Map();
 
   constructor(
     private analyticsService: AnalyticsService,
     private riskService: RiskService,
     private swellChainService: SwellChainService,
-    private webSocketService: WebSocketService
+    private webSocketService: WebSocketService,
+    private invoiceService: InvoiceService,
+    private accountDeletionService: AccountDeletionService,
+    private chainIndexer: ChainIndexer,
+    private depegMonitor: DepegMonitor,
+    private depegRetentionDays: number,
+    private timeSeriesService: TimeSeriesService,
+    private priceService: PriceService,
+    private priceRetentionDays: number
   ) {
     this.initializeTasks();
     logger.info('CronService initialized with scheduled tasks');
@@ -36,6 +53,34 @@ export class CronService {
       this.updateAnalyticsData.bind(this)
     );
 
+    // Snapshot dashboard metrics every minute, half a minute in so the indexer has caught up
+    this.scheduleTask(
+      'metrics-snapshot',
+      '30 * * * * *',
+      this.recordMetrics.bind(this)
+    );
+
+    // Drop metric rollups past retention daily
+    this.scheduleTask(
+      'metrics-retention',
+      '0 4 * * *',
+      this.pruneMetrics.bind(this)
+    );
+
+    // Aggregate token prices and stream them every minute
+    this.scheduleTask(
+      'price-update',
+      '* * * * *',
+      this.updatePrices.bind(this)
+    );
+
+    // Drop price history past retention daily
+    this.scheduleTask(
+      'price-retention',
+      '15 4 * * *',
+      this.prunePrices.bind(this)
+    );
+
     // Update risk metrics every 2 minutes
     this.scheduleTask(
       'risk-update',
@@ -50,6 +95,55 @@ export class CronService {
       this.updateSwellChainData.bind(this)
     );
 
+    // Follow Ethereum and Swellchain every 15 seconds
+    this.scheduleTask(
+      'chain-indexer',
+      '*/15 * * * * *',
+      this.indexChains.bind(this)
+    );
+
+    // Sample swETH and rswETH against their redemption rates every minute
+    this.scheduleTask(
+      'depeg-monitor',
+      '* * * * *',
+      this.monitorPegs.bind(this)
+    );
+
+    // Drop peg samples past retention daily
+    this.scheduleTask(
+      'depeg-retention',
+      '45 3 * * *',
+      this.prunePegSamples.bind(this)
+    );
+
+    // Settle and expire subscription invoices every minute
+    this.scheduleTask(
+      'subscription-payments',
+      '* * * * *',
+      this.processSubscriptionPayments.bind(this)
+    );
+
+    // Issue renewal invoices every hour
+    this.scheduleTask(
+      'subscription-renewals',
+      '15 * * * *',
+      this.createRenewalInvoices.bind(this)
+    );
+
+    // Carry out requested account erasures every 5 minutes
+    this.scheduleTask(
+      'account-erasure',
+      '*/5 * * * *',
+      this.processAccountDeletions.bind(this)
+    );
+
+    // Purge retained data of erased accounts daily
+    this.scheduleTask(
+      'account-purge',
+      '30 3 * * *',
+      this.purgeErasedAccounts.bind(this)
+    );
+
     // Cleanup cache every hour
     this.scheduleTask(
       'cache-cleanup',
@@ -165,6 +259,56 @@ export class CronService {
     }
   }
 
+  private async recordMetrics(): Promise<void> {
+    try {
+      await this.timeSeriesService.recordSnapshot();
+    } catch (error) {
+      logger.error('Metrics snapshot failed:', error);
+      throw error;
+    }
+  }
+
+  private async pruneMetrics(): Promise<void> {
+    try {
+      const pruned = await this.timeSeriesService.prune();
+      if (pruned > 0) {
+        logger.info(`Pruned ${pruned} metric rollups`);
+      }
+    } catch (error) {
+      logger.error('Metric rollup pruning failed:', error);
+      throw error;
+    }
+  }
+
+  private async updatePrices(): Promise<void> {
+    try {
+      const prices = await this.priceService.refresh();
+
+      for (const price of prices) {
+        await this.webSocketService.broadcastPriceUpdate({
+          symbol: price.symbol,
+          price: price.price,
+          change24h: await this.priceService.getChange24h(price.symbol)
+        });
+      }
+    } catch (error) {
+      logger.error('Price update failed:', error);
+      throw error;
+    }
+  }
+
+  private async prunePrices(): Promise<void> {
+    try {
+      const pruned = await this.priceService.prune(this.priceRetentionDays);
+      if (pruned > 0) {
+        logger.info(`Pruned ${pruned} price points`);
+      }
+    } catch (error) {
+      logger.error('Price pruning failed:', error);
+      throw error;
+    }
+  }
+
   private async updateRiskMetrics(): Promise<void> {
     try {
       logger.debug('Updating risk metrics...');
@@ -205,6 +349,116 @@ export class CronService {
     }
   }
 
+  private async indexChains(): Promise<void> {
+    try {
+      const results = await this.chainIndexer.run();
+
+      // Volume is bucketed by event time, so late and rolled-back events change past buckets
+      for (const { chainId, span } of results) {
+        if (span) {
+          await this.timeSeriesService.refreshVolume(chainId, span.since, span.until);
+        }
+      }
+    } catch (error) {
+      logger.error('Chain indexing failed:', error);
+      throw error;
+    }
+  }
+
+  private async monitorPegs(): Promise<void> {
+    try {
+      await this.depegMonitor.sample();
+
+      const statuses = await this.depegMonitor.getStatuses();
+      const changed = statuses.filter(status => status.breach && status.breach.severity !== this.pegSeverities.get(status.symbol));
+      const recovered = statuses.filter(status => !status.breach && this.pegSeverities.has(status.symbol));
+
+      for (const status of changed) {
+        logger.warn(`${status.symbol} is trading below peg`, { breach: status.breach, previous: this.pegSeverities.get(status.symbol) });
+        this.pegSeverities.set(status.symbol, status.breach!.severity);
+      }
+      for (const status of recovered) {
+        logger.info(`${status.symbol} is back within its peg thresholds`, { previous: this.pegSeverities.get(status.symbol) });
+        this.pegSeverities.delete(status.symbol);
+      }
+
+      if (changed.length > 0) {
+        await this.webSocketService.broadcastMarketData({
+          type: 'depeg_alert',
+          timestamp: Date.now(),
+          data: changed
+        });
+      }
+      if (recovered.length > 0) {
+        await this.webSocketService.broadcastMarketData({
+          type: 'depeg_recovered',
+          timestamp: Date.now(),
+          data: recovered
+        });
+      }
+    } catch (error) {
+      logger.error('Depeg monitoring failed:', error);
+      throw error;
+    }
+  }
+
+  private async prunePegSamples(): Promise<void> {
+    try {
+      const pruned = await this.depegMonitor.prune(this.depegRetentionDays);
+      if (pruned > 0) {
+        logger.info(`Pruned ${pruned} peg samples`);
+      }
+    } catch (error) {
+      logger.error('Peg sample pruning failed:', error);
+      throw error;
+    }
+  }
+
+  private async processSubscriptionPayments(): Promise<void> {
+    try {
+      await this.invoiceService.processPayments();
+    } catch (error) {
+      logger.error('Subscription payment processing failed:', error);
+      throw error;
+    }
+  }
+
+  private async createRenewalInvoices(): Promise<void> {
+    try {
+      const created = await this.invoiceService.createRenewalInvoices();
+      if (created > 0) {
+        logger.info(`Issued ${created} subscription renewal invoices`);
+      }
+    } catch (error) {
+      logger.error('Renewal invoice creation failed:', error);
+      throw error;
+    }
+  }
+
+  private async processAccountDeletions(): Promise<void> {
+    try {
+      const completed = await this.accountDeletionService.processPending();
+      if (completed > 0) {
+        logger.info(`Erased ${completed} accounts`);
+      }
+    } catch (error) {
+      logger.error('Account erasure failed:', error);
+      throw error;
+    }
+  }
+
+  private async purgeErasedAccounts(): Promise<void> {
+    try {
+      const purged = await this.accountDeletionService.purgeExpired();
+      if (purged > 0) {
+        logger.info(`Purged retained data for ${purged} erased accounts`);
+      }
+    } catch (error) {
+      logger.error('Erased account purge failed:', error);
+      throw error;
+    }
+  }
+
   private async cleanupCache(): Promise<void> {
     try {
       logger.debug('Performing cache cleanup...');
@@ -0,0 +1,198 @@
+import { logger } from '../utils/logger';
+import { toCsv } from '../utils/csv';
+import { createZip } from '../utils/zip';
+import { NotFoundError } from '../middleware/errorHandler';
+import { UserRepository } from '../repositories/UserRepository';
+import { RiskProfileRepository } from '../repositories/RiskProfileRepository';
+import { PositionRepository } from '../repositories/PositionRepository';
+import { StrategyRepository } from '../repositories/StrategyRepository';
+import { RiskAlertRepository } from '../repositories/RiskAlertRepository';
+import { AlertRuleRepository } from '../repositories/AlertRuleRepository';
+import { DashboardRepository } from '../repositories/DashboardRepository';
+import { ActivityRepository } from '../repositories/ActivityRepository';
+import { BridgeOperationRepository } from '../repositories/BridgeOperationRepository';
+import { InvoiceRepository } from '../repositories/InvoiceRepository';
+import { OrganizationRepository } from '../repositories/OrganizationRepository';
+import { WatchedWalletRepository } from '../repositories/WatchedWalletRepository';
+import { UserDataExport } from '../types';
+
+export interface DataExportRepositories {
+  userRepository: UserRepository;
+  riskProfileRepository: RiskProfileRepository;
+  positionRepository: PositionRepository;
+  strategyRepository: StrategyRepository;
+  riskAlertRepository: RiskAlertRepository;
+  alertRuleRepository: AlertRuleRepository;
+  dashboardRepository: DashboardRepository;
+  activityRepository: ActivityRepository;
+  bridgeOperationRepository: BridgeOperationRepository;
+  invoiceRepository: InvoiceRepository;
+  organizationRepository: OrganizationRepository;
+  watchedWalletRepository: WatchedWalletRepository;
+}
+
+const EXPORT_README = `SwellScope data export
+
+data.json holds everything below in one document, including nested fields.
+The CSV files hold one row per record; nested values are JSON-encoded.
+
+profile.csv            account and subscription
+positions.csv          tracked positions
+watched_wallets.csv    watch-only wallets
+strategies.csv         saved strategies
+alerts.csv             risk alerts, including dismissed ones
+alert_rules.csv        alert rules
+activity.csv           activity history
+bridge_operations.csv  bridge transfers
+invoices.csv           subscription invoices
+`;
+
+/**
+ * Collects everything stored about a user for GDPR access requests (Art. 15/20)
+ */
+export class DataExportService {
+  private repositories: DataExportRepositories;
+
+  constructor(repositories: DataExportRepositories) {
+    this.repositories = repositories;
+  }
+
+  async buildExport(userId: string): Promise<UserDataExport> {
+    const {
+      userRepository,
+      riskProfileRepository,
+      positionRepository,
+      strategyRepository,
+      riskAlertRepository,
+      alertRuleRepository,
+      dashboardRepository,
+      activityRepository,
+      bridgeOperationRepository,
+      invoiceRepository,
+      organizationRepository,
+      watchedWalletRepository
+    } = this.repositories;
+
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const [
+      riskProfile,
+      positions,
+      strategies,
+      alerts,
+      alertRules,
+      dashboards,
+      activity,
+      bridgeOperations,
+      invoices,
+      organizations,
+      watchedWallets
+    ] = await Promise.all([
+      riskProfileRepository.getForUser(userId),
+      positionRepository.listForUser(userId),
+      strategyRepository.listForUser(userId),
+      riskAlertRepository.listForUser(userId),
+      alertRuleRepository.listForUser(userId),
+      dashboardRepository.listForUser(userId),
+      activityRepository.listForUser(userId),
+      bridgeOperationRepository.listForUser(userId),
+      invoiceRepository.listForUser(userId),
+      organizationRepository.listForUser(userId),
+      watchedWalletRepository.listForUser(userId)
+    ]);
+
+    const { preferences, ...profile } = user;
+    logger.security('User data export generated', { userId });
+
+    return {
+      exportedAt: new Date(),
+      profile,
+      preferences,
+      riskProfile,
+      positions,
+      strategies,
+      alerts,
+      alertRules,
+      dashboards,
+      activity,
+      bridgeOperations,
+      invoices,
+      organizations,
+      watchedWallets
+    };
+  }
+
+  /**
+   * Zip archive with the full JSON document plus one CSV per record type
+   */
+  buildArchive(data: UserDataExport): Buffer {
+    const { profile } = data;
+    const toDate = (timestamp: number) => new Date(timestamp);
+
+    return createZip([
+      { name: 'README.txt', content: EXPORT_README },
+      { name: 'data.json', content: JSON.stringify(data, null, 2) },
+      {
+        name: 'profile.csv',
+        content: toCsv([{
+          id: profile.id,
+          address: profile.address,
+          username: profile.username,
+          email: profile.email,
+          avatar: profile.avatar,
+          joinedAt: profile.joinedAt,
+          lastActive: profile.lastActive,
+          subscriptionTier: profile.subscription.tier,
+          subscriptionExpiresAt: profile.subscription.expiresAt
+        }], ['id', 'address', 'username', 'email', 'avatar', 'joinedAt', 'lastActive', 'subscriptionTier', 'subscriptionExpiresAt'])
+      },
+      {
+        name: 'positions.csv',
+        content: toCsv(data.positions, [
+          'id', 'protocol', 'protocolName', 'token', 'amount', 'value', 'apy', 'riskScore', 'earnings', 'isActive', 'chainId', 'contractAddress', 'walletAddress', 'lastUpdate'
+        ])
+      },
+      {
+        name: 'watched_wallets.csv',
+        content: toCsv(data.watchedWallets, ['address', 'label', 'group', 'createdAt', 'updatedAt'])
+      },
+      {
+        name: 'strategies.csv',
+        content: toCsv(data.strategies, [
+          'id', 'name', 'description', 'allocations', 'riskScore', 'expectedYield', 'isActive', 'autoExecute', 'minAmount', 'maxAmount', 'createdAt', 'updatedAt'
+        ])
+      },
+      {
+        name: 'alerts.csv',
+        content: toCsv(data.alerts.map(alert => ({ ...alert, timestamp: toDate(alert.timestamp) })), [
+          'id', 'type', 'severity', 'title', 'message', 'actionRequired', 'timestamp'
+        ])
+      },
+      {
+        name: 'alert_rules.csv',
+        content: toCsv(data.alertRules, ['id', 'name', 'metric', 'threshold', 'channels', 'isActive', 'createdAt', 'updatedAt'])
+      },
+      {
+        name: 'activity.csv',
+        content: toCsv(data.activity.map(event => ({ ...event, timestamp: toDate(event.timestamp) })), [
+          'id', 'type', 'description', 'amount', 'token', 'status', 'transactionHash', 'timestamp'
+        ])
+      },
+      {
+        name: 'bridge_operations.csv',
+        content: toCsv(data.bridgeOperations.map(operation => ({ ...operation, timestamp: toDate(operation.timestamp) })), [
+          'id', 'fromChain', 'toChain', 'token', 'amount', 'recipient', 'status', 'transactionHash', 'destinationHash', 'fee', 'timestamp'
+        ])
+      },
+      {
+        name: 'invoices.csv',
+        content: toCsv(data.invoices.map(invoice => ({ ...invoice, tokenSymbol: invoice.token.symbol })), [
+          'id', 'tier', 'kind', 'status', 'amount', 'tokenSymbol', 'chainId', 'receiver', 'payerAddress', 'txHash', 'createdAt', 'paidAt', 'expiresAt'
+        ])
+      }
+    ], data.exportedAt);
+  }
+}
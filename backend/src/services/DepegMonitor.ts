@@ -0,0 +1,197 @@
+import { formatEther, Hex, parseAbi, PublicClient } from 'viem';
+import { logger } from '../utils/logger';
+import { normalizeAddress } from '../utils/address';
+import { MULTICALL3_ADDRESS, RSWETH_ADDRESS, SWETH_ADDRESS } from '../utils/chains';
+import { RpcClient } from './RpcClient';
+import { averageTick } from './prices/DexTwapPriceSource';
+import { PegRepository } from '../repositories/PegRepository';
+import { DepegThreshold, EnvConfig, PegBreach, PegSample, PegStatus } from '../types';
+
+const POOL_ABI = parseAbi([
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+  'function token0() view returns (address)'
+]);
+
+const RATE_ABI = parseAbi([
+  // ETH per token, 18 decimals
+  'function getRate() view returns (uint256)'
+]);
+
+// A sample older than this says nothing about the current peg
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+const SEVERITY_RANK: Record<DepegThreshold['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/** A liquid staking token and the DEX pool its market price comes from */
+export interface PeggedToken {
+  symbol: string;
+  /** Protocol adapter id of the token */
+  protocol: string;
+  token: string;
+  pool: string;
+}
+
+/**
+ * swETH and rswETH, for whichever has a DEX pool configured
+ */
+export function peggedTokensFromConfig(config: EnvConfig): PeggedToken[] {
+  const tokens: Array<PeggedToken | null> = [
+    config.SWETH_DEX_POOL_ADDRESS
+      ? { symbol: 'swETH', protocol: 'sweth', token: SWETH_ADDRESS, pool: normalizeAddress(config.SWETH_DEX_POOL_ADDRESS) }
+      : null,
+    config.RSWETH_DEX_POOL_ADDRESS
+      ? { symbol: 'rswETH', protocol: 'rsweth', token: RSWETH_ADDRESS, pool: normalizeAddress(config.RSWETH_DEX_POOL_ADDRESS) }
+      : null
+  ];
+  return tokens.filter((token): token is PeggedToken => token !== null);
+}
+
+/**
+ * Watches the gap between what swETH and rswETH trade for on Ethereum DEXs and what the protocol
+ * redeems them for. Samples are kept as a time series; a discount raises an alert once it has held
+ * past one of the configured thresholds for that threshold's duration.
+ */
+export class DepegMonitor {
+  private client: PublicClient;
+  private pegRepository: PegRepository;
+  private tokens: PeggedToken[];
+  private thresholds: DepegThreshold[];
+  private twapSeconds: number;
+
+  constructor(
+    rpc: RpcClient,
+    pegRepository: PegRepository,
+    tokens: PeggedToken[],
+    thresholds: DepegThreshold[],
+    twapSeconds: number
+  ) {
+    this.client = rpc.toPublicClient();
+    this.pegRepository = pegRepository;
+    this.tokens = tokens;
+    this.thresholds = thresholds;
+    this.twapSeconds = twapSeconds;
+  }
+
+  listTokens(): PeggedToken[] {
+    return [...this.tokens];
+  }
+
+  /**
+   * Read every token's market price and redemption rate at the same block and store them. The market
+   * price is the pool's TWAP over the last `twapSeconds`, so a swap within one block cannot move it.
+   * A token that cannot be read, or whose pool has less observation history than the window, is
+   * logged and skipped.
+   */
+  async sample(): Promise<PegSample[]> {
+    if (this.tokens.length === 0) return [];
+
+    const blockNumber = await this.client.getBlockNumber();
+    const sampledAt = new Date();
+    const results = await Promise.allSettled(this.tokens.map(async (token): Promise<PegSample> => {
+      const [rate, observation, token0] = await this.client.multicall({
+        allowFailure: false,
+        multicallAddress: MULTICALL3_ADDRESS as Hex,
+        blockNumber,
+        contracts: [
+          { address: token.token as Hex, abi: RATE_ABI, functionName: 'getRate' },
+          { address: token.pool as Hex, abi: POOL_ABI, functionName: 'observe', args: [[this.twapSeconds, 0]] },
+          { address: token.pool as Hex, abi: POOL_ABI, functionName: 'token0' }
+        ]
+      });
+      const tick = averageTick(observation[0], this.twapSeconds);
+      // 1.0001^tick is token1 per token0; both sides have 18 decimals
+      const marketPrice = Math.pow(1.0001, normalizeAddress(token0) === normalizeAddress(token.token) ? tick : -tick);
+      const redemptionRate = Number(formatEther(rate));
+
+      return {
+        symbol: token.symbol,
+        token: normalizeAddress(token.token),
+        pool: token.pool,
+        marketPrice,
+        redemptionRate,
+        deviation: redemptionRate > 0 ? (marketPrice - redemptionRate) / redemptionRate : 0,
+        blockNumber: Number(blockNumber),
+        sampledAt
+      };
+    }));
+
+    const samples = results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') return [result.value];
+      logger.warn(`Peg sample failed for ${this.tokens[index].symbol}`, { error: result.reason?.message });
+      return [];
+    });
+    await this.pegRepository.record(samples);
+
+    return samples;
+  }
+
+  async getStatuses(): Promise<PegStatus[]> {
+    return Promise.all(this.tokens.map(token => this.statusOf(token)));
+  }
+
+  async getStatus(symbol: string): Promise<PegStatus | null> {
+    const token = this.tokens.find(candidate => candidate.symbol === symbol);
+    return token ? this.statusOf(token) : null;
+  }
+
+  async getHistory(symbol: string, since: Date): Promise<PegSample[]> {
+    return this.pegRepository.listSince(symbol, since);
+  }
+
+  /**
+   * Current market discount of a protocol's token as a fraction; 0 at or above peg, for protocols
+   * without a monitored token, and when the latest sample is stale
+   */
+  async getDiscount(protocol: string): Promise<number> {
+    const token = this.tokens.find(candidate => candidate.protocol === protocol);
+    if (!token) return 0;
+
+    const latest = await this.pegRepository.findLatest(token.symbol);
+    if (!latest || Date.now() - latest.sampledAt.getTime() > STALE_AFTER_MS) return 0;
+    return Math.max(0, -latest.deviation);
+  }
+
+  /**
+   * Remove samples older than `retentionDays`
+   */
+  async prune(retentionDays: number): Promise<number> {
+    return this.pegRepository.deleteBefore(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+  }
+
+  private async statusOf(token: PeggedToken): Promise<PegStatus> {
+    const window = Math.max(0, ...this.thresholds.map(threshold => threshold.durationMs)) + STALE_AFTER_MS;
+    const samples = await this.pegRepository.listSince(token.symbol, new Date(Date.now() - window));
+    const latest = samples.length > 0 ? samples[samples.length - 1] : await this.pegRepository.findLatest(token.symbol);
+
+    return {
+      symbol: token.symbol,
+      token: normalizeAddress(token.token),
+      protocol: token.protocol,
+      latest,
+      breach: this.findBreach(samples)
+    };
+  }
+
+  /**
+   * The most severe threshold whose discount every sample has met for at least its duration,
+   * counting back from the latest sample
+   */
+  private findBreach(samples: PegSample[]): PegBreach | null {
+    const latest = samples[samples.length - 1];
+    if (!latest || Date.now() - latest.sampledAt.getTime() > STALE_AFTER_MS) return null;
+
+    let breach: PegBreach | null = null;
+    for (const threshold of this.thresholds) {
+      let since: Date | null = null;
+      for (let i = samples.length - 1; i >= 0 && -samples[i].deviation * 10000 >= threshold.deviationBps; i--) {
+        since = samples[i].sampledAt;
+      }
+      if (!since || latest.sampledAt.getTime() - since.getTime() < threshold.durationMs) continue;
+
+      if (!breach || SEVERITY_RANK[threshold.severity] > SEVERITY_RANK[breach.severity]) {
+        breach = { severity: threshold.severity, deviationBps: threshold.deviationBps, since, discount: -latest.deviation };
+      }
+    }
+    return breach;
+  }
+}
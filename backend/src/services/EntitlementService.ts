@@ -0,0 +1,113 @@
+import { CountedLimit, Entitlements, SubscriptionLimits, SubscriptionTier, UpgradeHint } from '../types';
+import { SUBSCRIPTION_FEATURES, SUBSCRIPTION_LIMITS, SUBSCRIPTION_TIERS } from '../utils/subscriptions';
+import { PlanFeatureError, PlanLimitError } from '../middleware/errorHandler';
+import { TIME_RANGE_DAYS, TimeRangeValue } from '../schemas/common';
+import { UserRepository } from '../repositories/UserRepository';
+
+/**
+ * Counts how many of a capped resource the user currently has
+ */
+export type UsageCounter = (userId: string) => Promise<number>;
+
+const LIMIT_LABELS: Record<CountedLimit, string> = {
+  maxPositions: 'positions',
+  maxStrategies: 'strategies',
+  alerts: 'alert rules',
+  customDashboards: 'dashboards',
+  watchedWallets: 'watched wallets'
+};
+
+/**
+ * Enforces the SUBSCRIPTION_LIMITS of the user's effective tier.
+ * Lapsed or inactive subscriptions fall back to the free tier, as does anonymous access.
+ */
+export class EntitlementService {
+  private userRepository: UserRepository;
+  private counters: Record<CountedLimit, UsageCounter>;
+  private upgradeUrl: string;
+
+  constructor(userRepository: UserRepository, counters: Record<CountedLimit, UsageCounter>, upgradeUrl: string) {
+    this.userRepository = userRepository;
+    this.counters = counters;
+    this.upgradeUrl = upgradeUrl;
+  }
+
+  async getTier(userId?: string): Promise<SubscriptionTier> {
+    if (!userId) return 'free';
+    return (await this.userRepository.findSubscriptionTier(userId)) || 'free';
+  }
+
+  async getEntitlements(userId: string): Promise<Entitlements> {
+    const limits = Object.keys(this.counters) as CountedLimit[];
+    const [tier, counts] = await Promise.all([
+      this.getTier(userId),
+      Promise.all(limits.map(limit => this.counters[limit](userId)))
+    ]);
+
+    const usage = {} as Record<CountedLimit, number>;
+    limits.forEach((limit, index) => {
+      usage[limit] = counts[index];
+    });
+
+    return {
+      tier,
+      features: SUBSCRIPTION_FEATURES[tier],
+      limits: SUBSCRIPTION_LIMITS[tier],
+      usage,
+      upgradeUrl: this.upgradeUrl
+    };
+  }
+
+  /**
+   * Throw PlanLimitError (402) when adding more would exceed the tier's cap
+   */
+  async assertCanCreate(userId: string, limit: CountedLimit, adding: number = 1): Promise<void> {
+    const [tier, used] = await Promise.all([this.getTier(userId), this.counters[limit](userId)]);
+    const allowed = SUBSCRIPTION_LIMITS[tier][limit];
+    const requested = used + adding;
+
+    if (requested > allowed) {
+      throw new PlanLimitError(
+        `Your ${tier} plan's limit for ${LIMIT_LABELS[limit]} is ${allowed}; upgrade to add more`,
+        this.upgradeHint(tier, limit, requested)
+      );
+    }
+  }
+
+  /**
+   * How many days back the user's plan keeps history
+   */
+  async getHistoryDays(userId?: string): Promise<number> {
+    return SUBSCRIPTION_LIMITS[await this.getTier(userId)].historicalData;
+  }
+
+  /**
+   * Throw PlanFeatureError (403) when a time range reaches further back than the tier's history window
+   */
+  async assertHistoryAllowed(userId: string | undefined, timeRange: TimeRangeValue): Promise<void> {
+    const tier = await this.getTier(userId);
+    const allowed = SUBSCRIPTION_LIMITS[tier].historicalData;
+    const requested = TIME_RANGE_DAYS[timeRange];
+
+    if (requested > allowed) {
+      throw new PlanFeatureError(
+        `Your ${tier} plan includes ${allowed} days of history; the ${timeRange} range requires an upgrade`,
+        this.upgradeHint(tier, 'historicalData', Math.ceil(requested))
+      );
+    }
+  }
+
+  private upgradeHint(tier: SubscriptionTier, limit: keyof SubscriptionLimits, requested: number): UpgradeHint {
+    // SUBSCRIPTION_TIERS is ordered cheapest first
+    const requiredTier = SUBSCRIPTION_TIERS.find(candidate => SUBSCRIPTION_LIMITS[candidate][limit] >= requested);
+
+    return {
+      currentTier: tier,
+      limit,
+      allowed: SUBSCRIPTION_LIMITS[tier][limit],
+      requested,
+      ...(requiredTier && { requiredTier }),
+      upgradeUrl: this.upgradeUrl
+    };
+  }
+}
@@ -0,0 +1,439 @@
+import { Invoice as InvoiceRow, PrismaClient } from '@prisma/client';
+import { Redis } from 'ioredis';
+import { InvoiceService, PaymentSettings } from './InvoiceService';
+import { StubPaymentWatcher } from './PaymentWatcher';
+import { InvoiceInput, InvoicePayment, InvoiceRepository } from '../repositories/InvoiceRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { ActivityRepository } from '../repositories/ActivityRepository';
+import { ActivityEvent, Invoice, SubscriptionTier, User } from '../types';
+import { addDays, buildSubscription, getGracePeriodEnd, isSubscriptionLapsed } from '../utils/subscriptions';
+
+jest.mock('../utils/logger');
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+const PAYER = '0x1111111111111111111111111111111111111111';
+const STRANGER = '0x2222222222222222222222222222222222222222';
+
+const SETTINGS: PaymentSettings = {
+  chainId: 1,
+  token: { address: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', symbol: 'USDC', decimals: 6 },
+  receiver: '0x3333333333333333333333333333333333333333',
+  confirmations: 2
+};
+
+// Prices are whole dollars in a 6-decimal token
+const BASIC_PRICE = 29_000_000n;
+const PREMIUM_PRICE = 99_000_000n;
+
+/**
+ * Invoices kept in memory with the same status transitions as the Prisma-backed repository
+ */
+class InMemoryInvoiceRepository extends InvoiceRepository {
+  rows: InvoiceRow[] = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findById(userId: string, id: string): Promise<InvoiceRow | null> {
+    return this.rows.find(row => row.id === id && row.userId === userId) || null;
+  }
+
+  async listForUser(userId: string): Promise<Invoice[]> {
+    return this.rows.filter(row => row.userId === userId).map(row => this.toDomain(row));
+  }
+
+  async listPending(chainId: number, tokenAddress: string, receiver: string): Promise<InvoiceRow[]> {
+    return this.rows.filter(row =>
+      row.status === 'pending' && row.chainId === chainId && row.tokenAddress === tokenAddress && row.receiver === receiver
+    );
+  }
+
+  async hasPending(userId: string): Promise<boolean> {
+    return this.rows.some(row => row.userId === userId && row.status === 'pending' && row.expiresAt.getTime() > Date.now());
+  }
+
+  async create(userId: string, input: InvoiceInput): Promise<InvoiceRow> {
+    const row: InvoiceRow = {
+      id: `invoice-${this.rows.length + 1}`,
+      userId,
+      tier: input.tier,
+      kind: input.kind,
+      periodDays: input.periodDays,
+      amount: input.amount,
+      tokenAddress: input.token.address,
+      tokenSymbol: input.token.symbol,
+      tokenDecimals: input.token.decimals,
+      chainId: input.chainId,
+      receiver: input.receiver,
+      payerAddress: input.payerAddress,
+      status: 'pending',
+      startBlock: input.startBlock,
+      expiresAt: input.expiresAt,
+      paidAt: null,
+      paidAmount: null,
+      txHash: null,
+      logIndex: null,
+      blockNumber: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.rows.push(row);
+    return row;
+  }
+
+  async cancelPending(userId: string): Promise<number> {
+    return this.update(row => row.userId === userId && row.status === 'pending', { status: 'cancelled' });
+  }
+
+  async markPaid(id: string, payment: InvoicePayment): Promise<boolean> {
+    const count = this.update(row => row.id === id && row.status === 'pending', { status: 'paid', ...payment });
+    return count > 0;
+  }
+
+  async isTransferUsed(txHash: string, logIndex: number): Promise<boolean> {
+    return this.rows.some(row => row.txHash === txHash && (row.logIndex === logIndex || row.logIndex === null));
+  }
+
+  async expirePending(ids: string[]): Promise<number> {
+    return this.update(row => ids.includes(row.id) && row.status === 'pending', { status: 'expired' });
+  }
+
+  private update(matches: (row: InvoiceRow) => boolean, data: Partial<InvoiceRow>): number {
+    const matching = this.rows.filter(matches);
+    matching.forEach(row => Object.assign(row, data, { updatedAt: new Date() }));
+    return matching.length;
+  }
+}
+
+interface StoredUser {
+  id: string;
+  address: string;
+  tier: SubscriptionTier;
+  expiresAt: Date | null;
+}
+
+class InMemoryUserRepository extends UserRepository {
+  users: StoredUser[] = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const user = this.users.find(candidate => candidate.id === id);
+    if (!user) return null;
+
+    return {
+      id: user.id,
+      address: user.address,
+      joinedAt: NOW,
+      lastActive: NOW,
+      preferences: {} as User['preferences'],
+      subscription: buildSubscription(user.tier, true, user.expiresAt),
+      isActive: true
+    };
+  }
+
+  async setSubscription(id: string, tier: SubscriptionTier, expiresAt: Date): Promise<void> {
+    Object.assign(this.users.find(user => user.id === id) as StoredUser, { tier, expiresAt });
+  }
+
+  async listExpiringSubscriptions(before: Date): Promise<Array<{ id: string; address: string; tier: SubscriptionTier; expiresAt: Date }>> {
+    return this.users
+      .filter(user => user.tier !== 'free' && user.expiresAt && user.expiresAt <= before && !isSubscriptionLapsed(user.expiresAt))
+      .map(user => ({ ...user, expiresAt: user.expiresAt as Date }));
+  }
+}
+
+class InMemoryActivityRepository extends ActivityRepository {
+  events: ActivityEvent[] = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async record(userId: string, event: Omit<ActivityEvent, 'id' | 'userId' | 'timestamp'>): Promise<ActivityEvent> {
+    const recorded = { ...event, id: `event-${this.events.length + 1}`, userId, timestamp: Date.now() };
+    this.events.push(recorded);
+    return recorded;
+  }
+}
+
+function inMemoryRedis(): Redis {
+  const values = new Map<string, string>();
+  return {
+    get: async (key: string) => values.get(key) ?? null,
+    set: async (key: string, value: string) => {
+      values.set(key, value);
+      return 'OK';
+    }
+  } as unknown as Redis;
+}
+
+describe('InvoiceService', () => {
+  let invoices: InMemoryInvoiceRepository;
+  let users: InMemoryUserRepository;
+  let activity: InMemoryActivityRepository;
+  let chain: StubPaymentWatcher;
+  let service: InvoiceService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    invoices = new InMemoryInvoiceRepository();
+    users = new InMemoryUserRepository();
+    activity = new InMemoryActivityRepository();
+    chain = new StubPaymentWatcher(100n);
+    service = new InvoiceService(invoices, users, activity, chain, inMemoryRedis(), SETTINGS);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const addUser = (tier: SubscriptionTier, expiresAt: Date | null = null, address: string = PAYER): StoredUser => {
+    const user = { id: `user-${users.users.length + 1}`, address, tier, expiresAt };
+    users.users.push(user);
+    return user;
+  };
+
+  const pay = (value: bigint, timestamp: Date = new Date(), from: string = PAYER) =>
+    chain.addTransfer({ token: SETTINGS.token.address, from, to: SETTINGS.receiver, value, timestamp });
+
+  // Mine a block at `timestamp` with enough blocks on top for it and everything before to be confirmed
+  const confirm = (timestamp: Date = new Date()) => chain.mineBlocks(SETTINGS.confirmations + 1, timestamp);
+
+  const statusOf = (invoice: Invoice) => invoices.rows.find(row => row.id === invoice.id)?.status;
+
+  describe('processPayments', () => {
+    it('settles an invoice from a confirmed transfer of the invoiced amount', async () => {
+      const user = addUser('free');
+      const invoice = await service.createInvoice(user.id, 'basic');
+      const transfer = pay(BASIC_PRICE);
+      confirm();
+
+      const result = await service.processPayments();
+
+      expect(invoice.kind).toBe('new');
+      expect(invoice.amount).toBe(BASIC_PRICE.toString());
+      expect(result).toEqual({ paid: 1, expired: 0, scannedTo: transfer.blockNumber + 1n });
+      expect(await service.getInvoice(user.id, invoice.id)).toMatchObject({
+        status: 'paid',
+        txHash: transfer.txHash,
+        paidAmount: BASIC_PRICE.toString(),
+        paidAt: NOW
+      });
+      expect(user).toMatchObject({ tier: 'basic', expiresAt: addDays(NOW, 30) });
+      expect(activity.events).toEqual([
+        expect.objectContaining({ userId: user.id, type: 'subscription_payment', amount: 29, token: 'USDC', transactionHash: transfer.txHash })
+      ]);
+    });
+
+    it('waits for confirmations before settling', async () => {
+      const user = addUser('free');
+      const invoice = await service.createInvoice(user.id, 'basic');
+      pay(BASIC_PRICE);
+
+      expect(await service.processPayments()).toEqual({ paid: 0, expired: 0 });
+      expect(statusOf(invoice)).toBe('pending');
+
+      confirm();
+      expect(await service.processPayments()).toMatchObject({ paid: 1 });
+    });
+
+    it('ignores transfers from other wallets and transfers mined before the invoice', async () => {
+      const user = addUser('free');
+      pay(BASIC_PRICE);
+      chain.mineBlocks();
+      const invoice = await service.createInvoice(user.id, 'basic');
+      pay(BASIC_PRICE, new Date(), STRANGER);
+      confirm();
+
+      expect(await service.processPayments()).toMatchObject({ paid: 0, expired: 0 });
+      expect(statusOf(invoice)).toBe('pending');
+      expect(user.tier).toBe('free');
+    });
+
+    it('leaves an underpaid invoice open until a full payment arrives', async () => {
+      const user = addUser('free');
+      const invoice = await service.createInvoice(user.id, 'basic');
+      pay(BASIC_PRICE - 1n);
+      confirm();
+
+      expect(await service.processPayments()).toMatchObject({ paid: 0, expired: 0 });
+      expect(statusOf(invoice)).toBe('pending');
+      expect(user.tier).toBe('free');
+
+      const full = pay(BASIC_PRICE);
+      confirm();
+
+      expect(await service.processPayments()).toMatchObject({ paid: 1, expired: 0 });
+      expect(await service.getInvoice(user.id, invoice.id)).toMatchObject({ status: 'paid', txHash: full.txHash });
+    });
+
+    it('expires an underpaid invoice once the scan passes its deadline', async () => {
+      const user = addUser('free');
+      const invoice = await service.createInvoice(user.id, 'basic');
+      pay(BASIC_PRICE / 2n);
+      confirm(new Date(invoice.expiresAt.getTime() + 1000));
+
+      expect(await service.processPayments()).toMatchObject({ paid: 0, expired: 1 });
+      expect(statusOf(invoice)).toBe('expired');
+      expect(user.tier).toBe('free');
+    });
+
+    it('settles a payment made before the deadline even when it is confirmed after it', async () => {
+      const user = addUser('free');
+      const invoice = await service.createInvoice(user.id, 'basic');
+      pay(BASIC_PRICE, new Date(invoice.expiresAt.getTime() - 1000));
+      confirm(new Date(invoice.expiresAt.getTime() + HOUR_MS));
+
+      expect(await service.processPayments()).toMatchObject({ paid: 1, expired: 0 });
+      expect(statusOf(invoice)).toBe('paid');
+    });
+
+    it('does not settle an invoice from a transfer made after it expired', async () => {
+      const user = addUser('free');
+      const invoice = await service.createInvoice(user.id, 'basic');
+      pay(BASIC_PRICE, new Date(invoice.expiresAt.getTime() + 1000));
+      confirm(new Date(invoice.expiresAt.getTime() + 2000));
+
+      expect(await service.processPayments()).toMatchObject({ paid: 0, expired: 1 });
+      expect(statusOf(invoice)).toBe('expired');
+      expect(user.tier).toBe('free');
+    });
+
+    it('uses each transfer for one invoice only, even when a range is scanned again', async () => {
+      const user = addUser('free');
+      const first = await service.createInvoice(user.id, 'basic');
+      const transfer = pay(BASIC_PRICE);
+      confirm();
+      await service.processPayments();
+
+      // Another open invoice the same transfer would match, and a lost checkpoint
+      const second: InvoiceRow = { ...invoices.rows[0], id: 'invoice-copy', status: 'pending', txHash: null, logIndex: null, paidAt: null, paidAmount: null };
+      invoices.rows.push(second);
+      const rescan = new InvoiceService(invoices, users, activity, chain, inMemoryRedis(), SETTINGS);
+
+      expect(await rescan.processPayments()).toMatchObject({ paid: 0 });
+      expect(statusOf(first)).toBe('paid');
+      expect(second.status).toBe('pending');
+      expect(invoices.rows.filter(row => row.txHash === transfer.txHash)).toHaveLength(1);
+    });
+
+    it('settles one invoice per transfer of a batch transaction', async () => {
+      const first = addUser('free');
+      const second = addUser('free', null, STRANGER);
+      const basic = await service.createInvoice(first.id, 'basic');
+      const premium = await service.createInvoice(second.id, 'premium');
+      const [toBasic, toPremium] = chain.addBatchTransfer([
+        { token: SETTINGS.token.address, from: PAYER, to: SETTINGS.receiver, value: BASIC_PRICE },
+        { token: SETTINGS.token.address, from: STRANGER, to: SETTINGS.receiver, value: PREMIUM_PRICE }
+      ]);
+      confirm();
+
+      expect(await service.processPayments()).toMatchObject({ paid: 2 });
+      expect(toBasic.txHash).toBe(toPremium.txHash);
+      expect(invoices.rows.find(row => row.id === basic.id)).toMatchObject({ status: 'paid', txHash: toBasic.txHash, logIndex: 0 });
+      expect(invoices.rows.find(row => row.id === premium.id)).toMatchObject({ status: 'paid', txHash: toBasic.txHash, logIndex: 1 });
+      expect(first.tier).toBe('basic');
+      expect(second.tier).toBe('premium');
+    });
+
+    it('resumes from the checkpoint instead of rescanning the same blocks', async () => {
+      const user = addUser('free');
+      await service.createInvoice(user.id, 'basic');
+      pay(BASIC_PRICE - 1n);
+      confirm();
+      const first = await service.processPayments();
+
+      const getTransfers = jest.spyOn(chain, 'getTransfers');
+      pay(BASIC_PRICE);
+      confirm();
+
+      expect(await service.processPayments()).toMatchObject({ paid: 1 });
+      expect(getTransfers).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: (first.scannedTo as bigint) + 1n }));
+    });
+  });
+
+  describe('createRenewalInvoices', () => {
+    it('issues one renewal invoice per expiring subscription, payable until the grace period ends', async () => {
+      const expiresAt = addDays(NOW, 5);
+      const user = addUser('premium', expiresAt);
+      addUser('basic', addDays(NOW, 20));
+
+      expect(await service.createRenewalInvoices()).toBe(1);
+      expect(await service.createRenewalInvoices()).toBe(0);
+
+      const [invoice] = await service.listInvoices(user.id);
+      expect(invoice).toMatchObject({ tier: 'premium', kind: 'renewal', status: 'pending', expiresAt: getGracePeriodEnd(expiresAt) });
+      expect(activity.events).toEqual([
+        expect.objectContaining({ userId: user.id, type: 'subscription_renewal_due', metadata: expect.objectContaining({ invoiceId: invoice.id }) })
+      ]);
+    });
+
+    it('extends the subscription from its current expiry when the renewal is paid early', async () => {
+      const expiresAt = addDays(NOW, 5);
+      const user = addUser('premium', expiresAt);
+      await service.createRenewalInvoices();
+
+      pay(PREMIUM_PRICE);
+      confirm();
+      await service.processPayments();
+
+      expect(user).toMatchObject({ tier: 'premium', expiresAt: addDays(expiresAt, 30) });
+    });
+
+    it('keeps the paid period continuous when the renewal is paid during the grace period', async () => {
+      const expiresAt = addDays(NOW, 2);
+      const user = addUser('premium', expiresAt);
+      await service.createRenewalInvoices();
+
+      const paidAt = addDays(expiresAt, 1);
+      jest.setSystemTime(paidAt);
+      pay(PREMIUM_PRICE, paidAt);
+      confirm();
+
+      expect(await service.processPayments()).toMatchObject({ paid: 1 });
+      expect(user).toMatchObject({ tier: 'premium', expiresAt: addDays(expiresAt, 30) });
+    });
+
+    it('lets an unpaid subscription lapse and starts a new period when the user pays again', async () => {
+      const expiresAt = addDays(NOW, 2);
+      const user = addUser('premium', expiresAt);
+      await service.createRenewalInvoices();
+      const [renewal] = await service.listInvoices(user.id);
+
+      const afterGrace = new Date(getGracePeriodEnd(expiresAt).getTime() + HOUR_MS);
+      jest.setSystemTime(afterGrace);
+      confirm(afterGrace);
+
+      expect(await service.processPayments()).toMatchObject({ paid: 0, expired: 1 });
+      expect(statusOf(renewal)).toBe('expired');
+      expect(isSubscriptionLapsed(user.expiresAt, afterGrace.getTime())).toBe(true);
+      expect(await service.createRenewalInvoices()).toBe(0);
+
+      const invoice = await service.createInvoice(user.id, 'premium');
+      pay(PREMIUM_PRICE, afterGrace);
+      confirm(afterGrace);
+      await service.processPayments();
+
+      expect(invoice.kind).toBe('new');
+      expect(user).toMatchObject({ tier: 'premium', expiresAt: addDays(afterGrace, 30) });
+    });
+
+    it('starts a new period when a different tier is paid for during the grace period', async () => {
+      const expiresAt = addDays(NOW, -1);
+      const user = addUser('basic', expiresAt);
+
+      const invoice = await service.createInvoice(user.id, 'premium');
+      pay(PREMIUM_PRICE);
+      confirm();
+      await service.processPayments();
+
+      expect(invoice.kind).toBe('change');
+      expect(user).toMatchObject({ tier: 'premium', expiresAt: addDays(NOW, 30) });
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { Redis } from 'ioredis';
+import { Invoice as InvoiceRow } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { isSameAddress, normalizeAddress } from '../utils/address';
+import {
+  addDays,
+  getGracePeriodEnd,
+  isSubscriptionLapsed,
+  SUBSCRIPTION_PERIOD_DAYS,
+  SUBSCRIPTION_PRICES_USD
+} from '../utils/subscriptions';
+import { NotFoundError, ServiceUnavailableError } from '../middleware/errorHandler';
+import { InvoiceRepository } from '../repositories/InvoiceRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { ActivityRepository } from '../repositories/ActivityRepository';
+import { PaymentWatcher, TokenTransfer } from './PaymentWatcher';
+import { EnvConfig, Invoice, InvoiceKind, PaidSubscriptionTier, PaymentToken, UserSubscription } from '../types';
+
+// How long a requested invoice stays payable
+const INVOICE_TTL_MS = 60 * 60 * 1000;
+// Renewal invoices are issued this long before the subscription expires
+const RENEWAL_NOTICE_DAYS = 7;
+// Upper bound on blocks fetched per run so a long outage catches up in steps
+const MAX_BLOCK_RANGE = 2000n;
+
+export interface PaymentSettings {
+  chainId: number;
+  token: PaymentToken;
+  receiver: string;
+  confirmations: number;
+}
+
+/**
+ * Payment settings from config, or null when no receiver is configured and crypto payments are off
+ */
+export function paymentSettingsFromConfig(config: EnvConfig): PaymentSettings | null {
+  if (!config.PAYMENT_RECEIVER_ADDRESS) return null;
+
+  return {
+    chainId: config.PAYMENT_CHAIN_ID,
+    token: {
+      address: normalizeAddress(config.PAYMENT_TOKEN_ADDRESS),
+      symbol: config.PAYMENT_TOKEN_SYMBOL,
+      decimals: config.PAYMENT_TOKEN_DECIMALS
+    },
+    receiver: normalizeAddress(config.PAYMENT_RECEIVER_ADDRESS),
+    confirmations: config.PAYMENT_CONFIRMATIONS
+  };
+}
+
+export interface PaymentRunResult {
+  paid: number;
+  expired: number;
+  scannedTo?: bigint;
+}
+
+/**
+ * Issues invoices for paid tiers and settles them from ERC-20 transfers to the receiver.
+ * An invoice is settled by the first confirmed transfer from the user's wallet of at least
+ * the invoiced amount, made after the invoice was issued and before it expired.
+ */
+export class InvoiceService {
+  private invoiceRepository: InvoiceRepository;
+  private userRepository: UserRepository;
+  private activityRepository: ActivityRepository;
+  private watcher: PaymentWatcher;
+  private redis: Redis;
+  private settings: PaymentSettings | null;
+
+  constructor(
+    invoiceRepository: InvoiceRepository,
+    userRepository: UserRepository,
+    activityRepository: ActivityRepository,
+    watcher: PaymentWatcher,
+    redis: Redis,
+    settings: PaymentSettings | null
+  ) {
+    this.invoiceRepository = invoiceRepository;
+    this.userRepository = userRepository;
+    this.activityRepository = activityRepository;
+    this.watcher = watcher;
+    this.redis = redis;
+    this.settings = settings;
+  }
+
+  /**
+   * Issue an invoice for one period of `tier`, replacing any invoice the user has open
+   */
+  async createInvoice(userId: string, tier: PaidSubscriptionTier): Promise<Invoice> {
+    this.requireSettings();
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await this.invoiceRepository.cancelPending(userId);
+    return this.issue(userId, user.address, tier, this.invoiceKind(user.subscription, tier), new Date(Date.now() + INVOICE_TTL_MS));
+  }
+
+  async listInvoices(userId: string): Promise<Invoice[]> {
+    return this.invoiceRepository.listForUser(userId, 50);
+  }
+
+  async getInvoice(userId: string, invoiceId: string): Promise<Invoice> {
+    const row = await this.invoiceRepository.findById(userId, invoiceId);
+    if (!row) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    return this.invoiceRepository.toDomain(row);
+  }
+
+  /**
+   * Scan the next confirmed block range for transfers to the receiver, settle matching invoices
+   * and expire the ones whose deadline the scan has passed. Progress is checkpointed in Redis.
+   */
+  async processPayments(): Promise<PaymentRunResult> {
+    if (!this.settings) return { paid: 0, expired: 0 };
+
+    const { chainId, token, receiver, confirmations } = this.settings;
+    const pending = await this.invoiceRepository.listPending(chainId, token.address, receiver);
+    if (pending.length === 0) return { paid: 0, expired: 0 };
+
+    const safeBlock = (await this.watcher.getBlockNumber()) - BigInt(confirmations);
+    const earliest = pending.reduce((min, invoice) => invoice.startBlock < min ? invoice.startBlock : min, pending[0].startBlock);
+
+    // Skip ranges scanned before and idle ranges before the oldest open invoice
+    const checkpoint = await this.getCheckpoint();
+    const fromBlock = checkpoint !== null && checkpoint >= earliest ? checkpoint + 1n : earliest;
+    if (fromBlock > safeBlock) return { paid: 0, expired: 0 };
+
+    const toBlock = safeBlock < fromBlock + MAX_BLOCK_RANGE - 1n ? safeBlock : fromBlock + MAX_BLOCK_RANGE - 1n;
+    const transfers = await this.watcher.getTransfers({ token: token.address, to: receiver, fromBlock, toBlock });
+    transfers.sort((a, b) => a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : (a.blockNumber < b.blockNumber ? -1 : 1));
+
+    const open = [...pending];
+    let paid = 0;
+
+    for (const transfer of transfers) {
+      if (await this.invoiceRepository.isTransferUsed(transfer.txHash, transfer.logIndex)) continue;
+
+      const paidAt = await this.watcher.getBlockTimestamp(transfer.blockNumber);
+      const invoice = open.find(candidate =>
+        isSameAddress(candidate.payerAddress, transfer.from) &&
+        transfer.blockNumber >= candidate.startBlock &&
+        paidAt <= candidate.expiresAt &&
+        transfer.value >= BigInt(candidate.amount)
+      );
+
+      if (!invoice) {
+        logger.warn('Payment transfer did not match an open invoice', {
+          txHash: transfer.txHash,
+          from: transfer.from,
+          value: transfer.value.toString()
+        });
+        continue;
+      }
+
+      if (await this.settle(invoice, transfer, paidAt)) {
+        paid++;
+        open.splice(open.indexOf(invoice), 1);
+      }
+    }
+
+    await this.saveCheckpoint(toBlock);
+
+    // Invoices whose deadline is behind the scanned range can no longer be paid
+    const scannedUntil = await this.watcher.getBlockTimestamp(toBlock);
+    const expired = await this.invoiceRepository.expirePending(
+      open.filter(invoice => invoice.expiresAt < scannedUntil).map(invoice => invoice.id)
+    );
+
+    if (paid > 0 || expired > 0) {
+      logger.info('Processed subscription payments', { fromBlock: fromBlock.toString(), toBlock: toBlock.toString(), paid, expired });
+    }
+
+    return { paid, expired, scannedTo: toBlock };
+  }
+
+  /**
+   * Issue renewal invoices for paid subscriptions expiring soon. They stay payable until the grace period ends.
+   */
+  async createRenewalInvoices(): Promise<number> {
+    if (!this.settings) return 0;
+
+    const due = await this.userRepository.listExpiringSubscriptions(addDays(new Date(), RENEWAL_NOTICE_DAYS));
+    let created = 0;
+
+    for (const subscription of due) {
+      if (subscription.tier === 'free') continue;
+      if (await this.invoiceRepository.hasPending(subscription.id)) continue;
+
+      const graceEnd = getGracePeriodEnd(subscription.expiresAt);
+      const deadline = new Date(Math.max(graceEnd.getTime(), Date.now() + INVOICE_TTL_MS));
+
+      try {
+        const invoice = await this.issue(subscription.id, subscription.address, subscription.tier, 'renewal', deadline);
+        await this.activityRepository.record(subscription.id, {
+          type: 'subscription_renewal_due',
+          description: `Your ${subscription.tier} subscription expires on ${subscription.expiresAt.toISOString().slice(0, 10)}; pay invoice ${invoice.id} to renew`,
+          status: 'pending',
+          metadata: { invoiceId: invoice.id, expiresAt: subscription.expiresAt.toISOString(), graceEndsAt: graceEnd.toISOString() }
+        });
+        created++;
+      } catch (error) {
+        logger.error(`Error creating renewal invoice for user ${subscription.id}:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  private async issue(
+    userId: string,
+    payerAddress: string,
+    tier: PaidSubscriptionTier,
+    kind: InvoiceKind,
+    expiresAt: Date
+  ): Promise<Invoice> {
+    const settings = this.requireSettings();
+
+    const row = await this.invoiceRepository.create(userId, {
+      tier,
+      kind,
+      periodDays: SUBSCRIPTION_PERIOD_DAYS,
+      amount: (BigInt(SUBSCRIPTION_PRICES_USD[tier]) * 10n ** BigInt(settings.token.decimals)).toString(),
+      token: settings.token,
+      chainId: settings.chainId,
+      receiver: settings.receiver,
+      payerAddress: normalizeAddress(payerAddress),
+      // Transfers mined before the invoice existed can't pay for it
+      startBlock: await this.watcher.getBlockNumber(),
+      expiresAt
+    });
+
+    logger.info('Invoice issued', { userId, invoiceId: row.id, tier, kind });
+    return this.invoiceRepository.toDomain(row);
+  }
+
+  /**
+   * Mark the invoice paid and extend the subscription. Payments for the running tier, including
+   * ones made during the grace period, continue from the current expiry; other tiers start a new period.
+   */
+  private async settle(invoice: InvoiceRow, transfer: TokenTransfer, paidAt: Date): Promise<boolean> {
+    const settled = await this.invoiceRepository.markPaid(invoice.id, {
+      txHash: transfer.txHash,
+      logIndex: transfer.logIndex,
+      blockNumber: transfer.blockNumber,
+      paidAmount: transfer.value.toString(),
+      paidAt
+    });
+    if (!settled) return false;
+
+    const user = await this.userRepository.findById(invoice.userId);
+    const current = user?.subscription;
+    const continuesCurrent = current &&
+      current.tier === invoice.tier &&
+      current.expiresAt &&
+      !isSubscriptionLapsed(current.expiresAt, paidAt.getTime());
+
+    const periodStart = continuesCurrent && current.expiresAt ? current.expiresAt : paidAt;
+    const expiresAt = addDays(periodStart, invoice.periodDays);
+    await this.userRepository.setSubscription(invoice.userId, invoice.tier as PaidSubscriptionTier, expiresAt);
+
+    await this.activityRepository.record(invoice.userId, {
+      type: 'subscription_payment',
+      description: `Paid for ${invoice.periodDays} days of the ${invoice.tier} plan`,
+      amount: Number(transfer.value) / 10 ** invoice.tokenDecimals,
+      token: invoice.tokenSymbol,
+      status: 'completed',
+      transactionHash: transfer.txHash,
+      metadata: { invoiceId: invoice.id, expiresAt: expiresAt.toISOString() }
+    });
+
+    logger.info('Invoice paid', {
+      userId: invoice.userId,
+      invoiceId: invoice.id,
+      txHash: transfer.txHash,
+      tier: invoice.tier,
+      expiresAt: expiresAt.toISOString()
+    });
+    return true;
+  }
+
+  private invoiceKind(subscription: UserSubscription, tier: PaidSubscriptionTier): InvoiceKind {
+    if (subscription.tier === 'free' || !subscription.isActive || isSubscriptionLapsed(subscription.expiresAt)) {
+      return 'new';
+    }
+    return subscription.tier === tier ? 'renewal' : 'change';
+  }
+
+  private requireSettings(): PaymentSettings {
+    if (!this.settings) {
+      throw new ServiceUnavailableError('Crypto payments are not configured');
+    }
+    return this.settings;
+  }
+
+  private checkpointKey(): string {
+    const { chainId, token, receiver } = this.requireSettings();
+    return `payments:checkpoint:${chainId}:${token.address}:${receiver}`;
+  }
+
+  private async getCheckpoint(): Promise<bigint | null> {
+    const value = await this.redis.get(this.checkpointKey());
+    return value ? BigInt(value) : null;
+  }
+
+  private async saveCheckpoint(blockNumber: bigint): Promise<void> {
+    await this.redis.set(this.checkpointKey(), blockNumber.toString());
+  }
+}
@@ -0,0 +1,125 @@
+import { PrismaClient } from '@prisma/client';
+import { OrganizationService } from './OrganizationService';
+import { SiweService } from './SiweService';
+import { OrganizationRepository } from '../repositories/OrganizationRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { OrganizationDetails, OrganizationInvite, OrganizationRole } from '../types';
+
+jest.mock('../utils/logger');
+
+const ORG_ID = 'org-1';
+const ALICE = { id: 'alice', address: '0x1111111111111111111111111111111111111111' };
+const BOB = { id: 'bob', address: '0x2222222222222222222222222222222222222222' };
+const SIGNATURE = '0xc0ffee';
+
+/** Members and invitations of one organization, with the repository's accept semantics */
+class InMemoryOrganizationRepository extends OrganizationRepository {
+  members = new Map<string, OrganizationRole>();
+  invites = new Map<string, OrganizationInvite>();
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findForMember(organizationId: string, userId: string): Promise<OrganizationDetails | null> {
+    const role = this.members.get(userId);
+    if (organizationId !== ORG_ID || !role) return null;
+
+    return { id: ORG_ID, name: 'Desk', role, memberCount: this.members.size, addressCount: 0, createdAt: new Date(), members: [], addresses: [] };
+  }
+
+  async findRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    return organizationId === ORG_ID ? this.members.get(userId) || null : null;
+  }
+
+  async findInvite(id: string): Promise<OrganizationInvite | null> {
+    return this.invites.get(id) || null;
+  }
+
+  async acceptInvite(invite: OrganizationInvite, userId: string): Promise<boolean> {
+    const current = this.invites.get(invite.id);
+    if (this.members.has(userId) || current?.status !== 'pending') return false;
+
+    current.status = 'accepted';
+    this.members.set(userId, invite.role);
+    return true;
+  }
+}
+
+describe('OrganizationService invitations', () => {
+  let organizations: InMemoryOrganizationRepository;
+  let verifyWalletSignature: jest.Mock;
+  let service: OrganizationService;
+
+  const invite = (id: string, address: string, role: OrganizationRole) => {
+    organizations.invites.set(id, {
+      id,
+      organizationId: ORG_ID,
+      organizationName: 'Desk',
+      address,
+      role,
+      status: 'pending',
+      message: `Join Desk on SwellScope as ${role}`,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      createdAt: new Date()
+    });
+  };
+
+  beforeEach(() => {
+    organizations = new InMemoryOrganizationRepository();
+    organizations.members.set(ALICE.id, 'owner');
+    verifyWalletSignature = jest.fn().mockResolvedValue(true);
+    const siwe = { verifyWalletSignature } as unknown as SiweService;
+    service = new OrganizationService(organizations, new UserRepository({} as PrismaClient), siwe);
+  });
+
+  it('adds the invited wallet with the invited role', async () => {
+    invite('invite-1', BOB.address, 'analyst');
+
+    await expect(service.acceptInvite('invite-1', BOB, SIGNATURE)).resolves.toMatchObject({ id: ORG_ID, role: 'analyst' });
+    expect(verifyWalletSignature).toHaveBeenCalledWith(BOB.address, 1, 'Join Desk on SwellScope as analyst', SIGNATURE);
+  });
+
+  it('does not downgrade an existing member', async () => {
+    // Issued before Alice became an owner some other way
+    invite('invite-1', ALICE.address, 'viewer');
+
+    await expect(service.acceptInvite('invite-1', ALICE, SIGNATURE)).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(organizations.members.get(ALICE.id)).toBe('owner');
+    expect(organizations.invites.get('invite-1')?.status).toBe('pending');
+  });
+
+  it('does not let a second invitation change the role of a member who joined through the first', async () => {
+    invite('invite-1', BOB.address, 'viewer');
+    invite('invite-2', BOB.address, 'analyst');
+    await service.acceptInvite('invite-1', BOB, SIGNATURE);
+
+    await expect(service.acceptInvite('invite-2', BOB, SIGNATURE)).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(organizations.members.get(BOB.id)).toBe('viewer');
+  });
+
+  it('turns down a member who joins between the check and the acceptance', async () => {
+    invite('invite-1', BOB.address, 'viewer');
+    verifyWalletSignature.mockImplementation(async () => {
+      organizations.members.set(BOB.id, 'analyst');
+      return true;
+    });
+
+    await expect(service.acceptInvite('invite-1', BOB, SIGNATURE)).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(organizations.members.get(BOB.id)).toBe('analyst');
+  });
+
+  it('only accepts the invited wallet\'s signature', async () => {
+    invite('invite-1', BOB.address, 'analyst');
+
+    await expect(service.acceptInvite('invite-1', { id: 'carol', address: '0x3333333333333333333333333333333333333333' }, SIGNATURE))
+      .rejects.toMatchObject({ statusCode: 404 });
+
+    verifyWalletSignature.mockResolvedValue(false);
+    await expect(service.acceptInvite('invite-1', BOB, SIGNATURE)).rejects.toMatchObject({ code: 'SIWE_INVALID_SIGNATURE' });
+    expect(organizations.members.has(BOB.id)).toBe(false);
+  });
+});
@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import { Hex } from 'viem';
+import { logger } from '../utils/logger';
+import { isSameAddress, normalizeAddress } from '../utils/address';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError
+} from '../middleware/errorHandler';
+import { OrganizationRepository } from '../repositories/OrganizationRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { SiweService } from './SiweService';
+import {
+  AddressAccess,
+  Organization,
+  OrganizationDetails,
+  OrganizationInvite,
+  OrganizationRole,
+  SiweChallenge,
+  User,
+  WatchedAddress
+} from '../types';
+
+const ROLE_RANK: Record<OrganizationRole, number> = { viewer: 0, analyst: 1, owner: 2 };
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Invitations are signed as SIWE messages on mainnet; the chain only matters for EIP-1271 wallets
+const INVITE_CHAIN_ID = 1;
+export const ADDRESS_CLAIM_STATEMENT = 'Allow a SwellScope organization to monitor this wallet';
+
+/**
+ * Whether `role` grants at least the permissions of `minimum`
+ */
+export const hasRole = (role: OrganizationRole, minimum: OrganizationRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[minimum];
+
+const organizationResource = (organizationId: string): string => `urn:swellscope:organization:${organizationId}`;
+
+/**
+ * Team workspaces. Owners manage members and invitations, owners and analysts attach wallets
+ * and act on them, viewers can only read. Both joining and attaching a wallet need that wallet's signature.
+ */
+export class OrganizationService {
+  private organizationRepository: OrganizationRepository;
+  private userRepository: UserRepository;
+  private siweService: SiweService;
+
+  constructor(organizationRepository: OrganizationRepository, userRepository: UserRepository, siweService: SiweService) {
+    this.organizationRepository = organizationRepository;
+    this.userRepository = userRepository;
+    this.siweService = siweService;
+  }
+
+  async createOrganization(userId: string, name: string): Promise<Organization> {
+    const organization = await this.organizationRepository.create(userId, name);
+    logger.info('Organization created', { organizationId: organization.id, userId });
+    return organization;
+  }
+
+  async listOrganizations(userId: string): Promise<Organization[]> {
+    return this.organizationRepository.listForUser(userId);
+  }
+
+  async getOrganization(organizationId: string, userId: string): Promise<OrganizationDetails> {
+    const organization = await this.organizationRepository.findForMember(organizationId, userId);
+    if (!organization) {
+      throw new NotFoundError('Organization not found');
+    }
+
+    return organization;
+  }
+
+  async renameOrganization(organizationId: string, userId: string, name: string): Promise<OrganizationDetails> {
+    await this.requireRole(organizationId, userId, 'owner');
+    await this.organizationRepository.rename(organizationId, name);
+    return this.getOrganization(organizationId, userId);
+  }
+
+  async deleteOrganization(organizationId: string, userId: string): Promise<void> {
+    await this.requireRole(organizationId, userId, 'owner');
+    await this.organizationRepository.delete(organizationId);
+    logger.security('Organization deleted', { organizationId, userId });
+  }
+
+  async setMemberRole(organizationId: string, userId: string, memberId: string, role: OrganizationRole): Promise<OrganizationDetails> {
+    await this.requireRole(organizationId, userId, 'owner');
+
+    const current = await this.organizationRepository.findRole(organizationId, memberId);
+    if (!current) {
+      throw new NotFoundError('Member not found');
+    }
+    if (current === 'owner' && role !== 'owner') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.organizationRepository.setMemberRole(organizationId, memberId, role);
+    logger.security('Organization role changed', { organizationId, memberId, role, changedBy: userId });
+    return this.getOrganization(organizationId, userId);
+  }
+
+  /**
+   * Remove a member. Owners can remove anyone; every member can leave.
+   */
+  async removeMember(organizationId: string, userId: string, memberId: string): Promise<void> {
+    if (memberId !== userId) {
+      await this.requireRole(organizationId, userId, 'owner');
+    }
+
+    const current = await this.organizationRepository.findRole(organizationId, memberId);
+    if (!current) {
+      throw new NotFoundError('Member not found');
+    }
+    if (current === 'owner') {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.organizationRepository.removeMember(organizationId, memberId);
+    logger.security('Organization member removed', { organizationId, memberId, removedBy: userId });
+  }
+
+  /**
+   * Invite a wallet. The returned message is what the invited wallet signs to accept.
+   */
+  async inviteMember(organizationId: string, userId: string, address: string, role: OrganizationRole): Promise<OrganizationInvite> {
+    const organization = await this.requireRole(organizationId, userId, 'owner');
+    if (organization.members.some(member => isSameAddress(member.address, address))) {
+      throw new ConflictError('Wallet is already a member of this organization');
+    }
+
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + INVITE_TTL_MS);
+    const message = this.siweService.buildMessage(address, INVITE_CHAIN_ID, {
+      statement: `Join ${organization.name} on SwellScope as ${role}`,
+      resources: [organizationResource(organizationId)],
+      nonce: crypto.randomBytes(16).toString('hex'),
+      issuedAt,
+      expiresAt
+    });
+
+    const invite = await this.organizationRepository.createInvite(organizationId, {
+      address,
+      role,
+      message,
+      invitedBy: userId,
+      expiresAt
+    });
+
+    logger.security('Organization invite created', { organizationId, inviteId: invite.id, address: invite.address, role });
+    return invite;
+  }
+
+  async listInvites(organizationId: string, userId: string): Promise<OrganizationInvite[]> {
+    await this.requireRole(organizationId, userId, 'owner');
+    return this.organizationRepository.listInvitesForOrganization(organizationId);
+  }
+
+  async revokeInvite(organizationId: string, userId: string, inviteId: string): Promise<void> {
+    await this.requireRole(organizationId, userId, 'owner');
+
+    const revoked = await this.organizationRepository.revokeInvite(organizationId, inviteId);
+    if (!revoked) {
+      throw new NotFoundError('Invitation not found or no longer pending');
+    }
+  }
+
+  async listInvitesForWallet(address: string): Promise<OrganizationInvite[]> {
+    return this.organizationRepository.listPendingInvitesForAddress(address);
+  }
+
+  /**
+   * Join an organization by signing the invitation message with the invited wallet.
+   * Members keep their role; owners change it with setMemberRole instead.
+   */
+  async acceptInvite(inviteId: string, user: Pick<User, 'id' | 'address'>, signature: Hex): Promise<OrganizationDetails> {
+    const invite = await this.organizationRepository.findInvite(inviteId);
+    if (!invite || !isSameAddress(invite.address, user.address)) {
+      throw new NotFoundError('Invitation not found');
+    }
+    if (invite.status !== 'pending') {
+      throw new ConflictError(`Invitation is ${invite.status}`);
+    }
+    if (await this.organizationRepository.findRole(invite.organizationId, user.id)) {
+      throw new ConflictError('You are already a member of this organization');
+    }
+
+    const isValid = await this.siweService.verifyWalletSignature(user.address, INVITE_CHAIN_ID, invite.message, signature);
+    if (!isValid) {
+      logger.security('Organization invite signature rejected', { inviteId, address: user.address });
+      throw new AuthenticationError('Invalid signature', 'SIWE_INVALID_SIGNATURE');
+    }
+
+    const accepted = await this.organizationRepository.acceptInvite(invite, user.id);
+    if (!accepted) {
+      throw new ConflictError('Invitation is no longer pending');
+    }
+
+    logger.security('Organization invite accepted', { organizationId: invite.organizationId, inviteId, userId: user.id });
+    return this.getOrganization(invite.organizationId, user.id);
+  }
+
+  /**
+   * Issue the message a wallet signs to let the organization monitor it
+   */
+  async createAddressChallenge(organizationId: string, userId: string, address: string, chainId: number): Promise<SiweChallenge> {
+    await this.requireRole(organizationId, userId, 'analyst');
+
+    return this.siweService.createChallenge(address, chainId, {
+      statement: ADDRESS_CLAIM_STATEMENT,
+      resources: [organizationResource(organizationId)]
+    });
+  }
+
+  /**
+   * Attach the wallet that signed an address challenge. Wallets without an account get one,
+   * so their data has an owner if they sign in later.
+   */
+  async attachAddress(
+    organizationId: string,
+    userId: string,
+    message: string,
+    signature: Hex,
+    label?: string
+  ): Promise<WatchedAddress> {
+    await this.requireRole(organizationId, userId, 'analyst');
+
+    const { address, resources } = await this.siweService.verify(message, signature, ADDRESS_CLAIM_STATEMENT);
+    if (!resources.includes(organizationResource(organizationId))) {
+      throw new ValidationError('Signed message was issued for a different organization');
+    }
+
+    const owner = await this.userRepository.findOrCreateByAddress(address);
+    if (!owner.isActive) {
+      throw new ConflictError('Wallet belongs to an inactive account');
+    }
+
+    const watched = await this.organizationRepository.attachAddress(organizationId, address, label, userId);
+    logger.security('Address attached to organization', { organizationId, address, addedBy: userId });
+    return watched;
+  }
+
+  async detachAddress(organizationId: string, userId: string, address: string): Promise<void> {
+    await this.requireRole(organizationId, userId, 'analyst');
+
+    const detached = await this.organizationRepository.detachAddress(organizationId, address);
+    if (!detached) {
+      throw new NotFoundError('Address is not attached to this organization');
+    }
+    logger.security('Address detached from organization', { organizationId, address, removedBy: userId });
+  }
+
+  /**
+   * How `user` may act on `address`: as its owner, or through the strongest role they hold in an
+   * organization it is attached to. Null when they have no access.
+   */
+  async resolveAddressAccess(user: Pick<User, 'id' | 'address'>, address: string): Promise<AddressAccess | null> {
+    if (isSameAddress(user.address, address)) {
+      return { address: normalizeAddress(address), userId: user.id, role: 'owner' };
+    }
+
+    const grants = await this.organizationRepository.findAccessToAddress(user.id, address);
+    if (grants.length === 0) return null;
+
+    const subject = await this.userRepository.findByAddress(address);
+    if (!subject || !subject.isActive) return null;
+
+    const best = grants.reduce((top, grant) => ROLE_RANK[grant.role] > ROLE_RANK[top.role] ? grant : top);
+    return {
+      address: normalizeAddress(address),
+      userId: subject.id,
+      role: best.role,
+      organizationId: best.organizationId
+    };
+  }
+
+  /**
+   * Whether `user` may read data owned by the account `accountId`
+   */
+  async canViewAccount(user: Pick<User, 'id' | 'address'>, accountId: string): Promise<boolean> {
+    if (user.id === accountId) return true;
+
+    const account = await this.userRepository.findById(accountId);
+    return account !== null && (await this.resolveAddressAccess(user, account.address)) !== null;
+  }
+
+  private async requireRole(organizationId: string, userId: string, minimum: OrganizationRole): Promise<OrganizationDetails> {
+    const organization = await this.getOrganization(organizationId, userId);
+    if (!hasRole(organization.role, minimum)) {
+      throw new AuthorizationError(`Requires the ${minimum} role in this organization`);
+    }
+
+    return organization;
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    if (await this.organizationRepository.countOwners(organizationId) <= 1) {
+      throw new ConflictError('An organization needs at least one owner');
+    }
+  }
+}
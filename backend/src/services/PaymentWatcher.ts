@@ -0,0 +1,150 @@
+import { parseAbiItem, PublicClient } from 'viem';
+import { normalizeAddress } from '../utils/address';
+import { RpcClient } from './RpcClient';
+
+export interface TokenTransfer {
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+export interface TransferQuery {
+  token: string;
+  to: string;
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/**
+ * Read-only view of the chain payments are made on. Confirmation depth is the caller's concern;
+ * implementations report the head as they see it.
+ */
+export interface PaymentWatcher {
+  getBlockNumber(): Promise<bigint>;
+  getBlockTimestamp(blockNumber: bigint): Promise<Date>;
+  /** ERC-20 transfers of `token` to `to` within the inclusive block range */
+  getTransfers(query: TransferQuery): Promise<TokenTransfer[]>;
+}
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+
+/**
+ * Watches a chain over JSON-RPC; works against public nodes and local ones like anvil or hardhat
+ */
+export class RpcPaymentWatcher implements PaymentWatcher {
+  private client: PublicClient;
+
+  constructor(rpc: RpcClient) {
+    this.client = rpc.toPublicClient();
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.client.getBlockNumber();
+  }
+
+  async getBlockTimestamp(blockNumber: bigint): Promise<Date> {
+    const block = await this.client.getBlock({ blockNumber });
+    return new Date(Number(block.timestamp) * 1000);
+  }
+
+  async getTransfers(query: TransferQuery): Promise<TokenTransfer[]> {
+    const logs = await this.client.getLogs({
+      address: query.token as `0x${string}`,
+      event: TRANSFER_EVENT,
+      args: { to: query.to as `0x${string}` },
+      fromBlock: query.fromBlock,
+      toBlock: query.toBlock
+    });
+
+    return logs
+      .filter(log => !log.removed && log.transactionHash && log.blockNumber !== null && log.logIndex !== null)
+      .map(log => ({
+        txHash: log.transactionHash as string,
+        logIndex: log.logIndex as number,
+        blockNumber: log.blockNumber as bigint,
+        from: normalizeAddress(log.args.from as string),
+        to: normalizeAddress(log.args.to as string),
+        value: log.args.value as bigint
+      }));
+  }
+}
+
+/**
+ * In-memory chain for tests and local development. Blocks are mined explicitly and transfers land in the latest one.
+ */
+export class StubPaymentWatcher implements PaymentWatcher {
+  private blockNumber: bigint;
+  private timestamps: Map<bigint, Date> = new Map();
+  private transfers: Array<TokenTransfer & { token: string }> = [];
+  private transactionCount = 0;
+
+  constructor(startBlock: bigint = 1n) {
+    this.blockNumber = startBlock;
+    this.timestamps.set(startBlock, new Date());
+  }
+
+  mineBlocks(count: number = 1, timestamp: Date = new Date()): bigint {
+    for (let i = 0; i < count; i++) {
+      this.blockNumber += 1n;
+      this.timestamps.set(this.blockNumber, timestamp);
+    }
+    return this.blockNumber;
+  }
+
+  /**
+   * Record a transfer in a newly mined block and return it
+   */
+  addTransfer(transfer: { token: string; from: string; to: string; value: bigint; timestamp?: Date }): TokenTransfer {
+    return this.addBatchTransfer([transfer], transfer.timestamp)[0];
+  }
+
+  /**
+   * Record several transfers made by one transaction, like a multisend, in a newly mined block
+   */
+  addBatchTransfer(transfers: Array<{ token: string; from: string; to: string; value: bigint }>, timestamp?: Date): TokenTransfer[] {
+    const blockNumber = this.mineBlocks(1, timestamp);
+    this.transactionCount += 1;
+    const txHash = `0x${this.transactionCount.toString(16).padStart(64, '0')}`;
+
+    return transfers.map((transfer, logIndex) => {
+      const recorded = {
+        txHash,
+        logIndex,
+        blockNumber,
+        token: normalizeAddress(transfer.token),
+        from: normalizeAddress(transfer.from),
+        to: normalizeAddress(transfer.to),
+        value: transfer.value
+      };
+      this.transfers.push(recorded);
+
+      const { token, ...result } = recorded;
+      return result;
+    });
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.blockNumber;
+  }
+
+  async getBlockTimestamp(blockNumber: bigint): Promise<Date> {
+    return this.timestamps.get(blockNumber) || new Date();
+  }
+
+  async getTransfers(query: TransferQuery): Promise<TokenTransfer[]> {
+    const token = normalizeAddress(query.token);
+    const to = normalizeAddress(query.to);
+
+    return this.transfers
+      .filter(transfer =>
+        transfer.token === token &&
+        transfer.to === to &&
+        transfer.blockNumber >= query.fromBlock &&
+        transfer.blockNumber <= query.toBlock
+      )
+      .map(({ token: _token, ...transfer }) => transfer);
+  }
+}
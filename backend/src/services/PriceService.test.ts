@@ -0,0 +1,86 @@
+import { PrismaClient } from '@prisma/client';
+import { PriceService } from './PriceService';
+import { PriceSource } from './prices/PriceSource';
+import { PriceRepository } from '../repositories/PriceRepository';
+import { logger } from '../utils/logger';
+import { PriceQuote, TokenPrice } from '../types';
+
+jest.mock('../utils/logger');
+
+class InMemoryPriceRepository extends PriceRepository {
+  recorded: TokenPrice[] = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async record(prices: TokenPrice[]): Promise<void> {
+    this.recorded.push(...prices);
+  }
+}
+
+const source = (name: string, quotes: Array<Omit<PriceQuote, 'source' | 'updatedAt'>>): PriceSource => ({
+  name,
+  getQuotes: async () => quotes.map(quote => ({ ...quote, source: name, updatedAt: new Date() }))
+});
+
+const ethUsd = (name: string, price: number) => source(name, [{ symbol: 'ETH', quote: 'USD', price }]);
+
+describe('PriceService', () => {
+  let repository: InMemoryPriceRepository;
+
+  // 200 bps band
+  const refresh = (sources: PriceSource[]) => new PriceService(repository, sources, 200).refresh();
+
+  beforeEach(() => {
+    repository = new InMemoryPriceRepository();
+    jest.mocked(logger.warn).mockClear();
+  });
+
+  it('drops a quote far from the median of three or more', async () => {
+    const [eth] = await refresh([ethUsd('chainlink', 3000), ethUsd('dex-twap', 3010), ethUsd('fixture', 2500)]);
+
+    expect(eth.price).toBe(3005);
+    expect(eth.sources.map(quote => [quote.source, quote.accepted])).toEqual([
+      ['chainlink', true],
+      ['dex-twap', true],
+      ['fixture', false]
+    ]);
+  });
+
+  it('takes the median of two quotes that agree', async () => {
+    const [eth] = await refresh([ethUsd('chainlink', 3000), ethUsd('dex-twap', 3020)]);
+
+    expect(eth.price).toBe(3010);
+    expect(eth.sources.every(quote => quote.accepted)).toBe(true);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the Chainlink quote when two quotes disagree, and logs it', async () => {
+    const [eth] = await refresh([ethUsd('chainlink', 3000), ethUsd('dex-twap', 2400)]);
+
+    expect(eth.price).toBe(3000);
+    expect(eth.sources.map(quote => [quote.source, quote.accepted])).toEqual([
+      ['chainlink', true],
+      ['dex-twap', false]
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith('Price sources disagree on ETH', expect.objectContaining({ fallback: 'chainlink' }));
+    expect(repository.recorded).toEqual([eth]);
+  });
+
+  it('leaves a token unpriced when two quotes disagree and neither is from Chainlink', async () => {
+    const prices = await refresh([ethUsd('dex-twap', 3000), ethUsd('fixture', 2400)]);
+
+    expect(prices).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith('Price sources disagree on ETH', expect.objectContaining({ fallback: null }));
+  });
+
+  it('applies the fallback to tokens quoted in ETH after conversion', async () => {
+    const prices = await refresh([
+      source('chainlink', [{ symbol: 'ETH', quote: 'USD', price: 3000 }, { symbol: 'swETH', quote: 'ETH', price: 1.1 }]),
+      source('dex-twap', [{ symbol: 'swETH', quote: 'ETH', price: 0.9 }])
+    ]);
+
+    expect(prices.find(price => price.symbol === 'swETH')?.price).toBeCloseTo(3300);
+  });
+});
@@ -0,0 +1,163 @@
+import { logger } from '../utils/logger';
+import { ETHEREUM_CHAIN_ID } from '../utils/chains';
+import { RpcClient } from './RpcClient';
+import { peggedTokensFromConfig } from './DepegMonitor';
+import { PriceSource } from './prices/PriceSource';
+import { ChainlinkPriceSource } from './prices/ChainlinkPriceSource';
+import { DexTwapPriceSource } from './prices/DexTwapPriceSource';
+import { FixturePriceSource } from './prices/FixturePriceSource';
+import { PriceRepository } from '../repositories/PriceRepository';
+import { EnvConfig, TokenPrice } from '../types';
+
+// Daily-heartbeat feeds (most LST/ETH aggregators) update at least this often
+const MAX_QUOTE_AGE_MS = 25 * 60 * 60 * 1000;
+
+// A recorded price stands for this long; after that the token has no price until the next sample
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+// Fewer quotes than this cannot outvote an outlier, since the median sits between them
+const MIN_QUOTES_FOR_OUTLIERS = 3;
+
+// Trusted over the other sources when too few quotes disagree to tell which is wrong
+const FALLBACK_SOURCE = 'chainlink';
+
+// Priced as the token they wrap
+const PRICE_ALIASES: Record<string, string> = { WETH: 'ETH' };
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Chainlink feeds and DEX TWAPs on Ethereum, plus fixtures when PRICE_FIXTURES is set
+ */
+export function priceSourcesFromConfig(config: EnvConfig, rpcClients: Record<number, RpcClient>): PriceSource[] {
+  const sources: PriceSource[] = [
+    new ChainlinkPriceSource(rpcClients[ETHEREUM_CHAIN_ID], config.PRICE_FEEDS),
+    new DexTwapPriceSource(rpcClients[ETHEREUM_CHAIN_ID], peggedTokensFromConfig(config), config.PRICE_TWAP_SECONDS)
+  ];
+  if (config.PRICE_FIXTURES.length > 0) {
+    sources.push(new FixturePriceSource(config.PRICE_FIXTURES));
+  }
+  return sources;
+}
+
+/**
+ * USD token prices aggregated across price sources. With three or more quotes, a token's price is the
+ * median of its quotes after dropping those too far from the median; with fewer that disagree, it is
+ * the Chainlink quote. Quotes in ETH are converted at the aggregated ETH price. Every aggregate is
+ * recorded, so past prices can be looked up.
+ */
+export class PriceService {
+  private priceRepository: PriceRepository;
+  private sources: PriceSource[];
+  private maxDeviationBps: number;
+
+  constructor(priceRepository: PriceRepository, sources: PriceSource[], maxDeviationBps: number) {
+    this.priceRepository = priceRepository;
+    this.sources = sources;
+    this.maxDeviationBps = maxDeviationBps;
+  }
+
+  /**
+   * Pull every source, aggregate and record the result. A failing source is logged and skipped;
+   * a token whose sources all disagree, with no Chainlink quote to fall back on, gets no price.
+   */
+  async refresh(): Promise<TokenPrice[]> {
+    const results = await Promise.allSettled(this.sources.map(source => source.getQuotes()));
+    const now = Date.now();
+    const quotes = results
+      .flatMap((result, index) => {
+        if (result.status === 'fulfilled') return result.value;
+        logger.warn(`Price source ${this.sources[index].name} failed`, { error: result.reason?.message });
+        return [];
+      })
+      .filter(quote => quote.price > 0 && now - quote.updatedAt.getTime() <= MAX_QUOTE_AGE_MS);
+
+    const sampledAt = new Date(now);
+    const eth = this.aggregate('ETH', quotes.filter(quote => quote.symbol === 'ETH' && quote.quote === 'USD'), sampledAt);
+    const symbols = Array.from(new Set(quotes.map(quote => quote.symbol))).filter(symbol => symbol !== 'ETH');
+    const prices = [
+      eth,
+      ...symbols.map(symbol => this.aggregate(symbol, quotes.flatMap(quote => {
+        if (quote.symbol !== symbol) return [];
+        if (quote.quote === 'USD') return [quote];
+        return eth ? [{ ...quote, price: quote.price * eth.price }] : [];
+      }), sampledAt))
+    ].filter((price): price is TokenPrice => price !== null);
+
+    await this.priceRepository.record(prices);
+    return prices;
+  }
+
+  /**
+   * USD price of `symbol` now, or at `at` from history. Null when nothing priced it within the
+   * ten minutes before.
+   */
+  async getPrice(symbol: string, at?: Date): Promise<TokenPrice | null> {
+    const when = at || new Date();
+    const price = await this.priceRepository.findAt(PRICE_ALIASES[symbol] || symbol, when);
+    if (!price || when.getTime() - price.sampledAt.getTime() > STALE_AFTER_MS) return null;
+    return { ...price, symbol };
+  }
+
+  /**
+   * Current price of every priced token
+   */
+  async getPrices(): Promise<TokenPrice[]> {
+    const now = Date.now();
+    return (await this.priceRepository.listLatest()).filter(price => now - price.sampledAt.getTime() <= STALE_AFTER_MS);
+  }
+
+  /**
+   * Percent change of `symbol` over the last 24 hours; null without a price at both ends
+   */
+  async getChange24h(symbol: string): Promise<number | null> {
+    const [current, previous] = await Promise.all([
+      this.getPrice(symbol),
+      this.getPrice(symbol, new Date(Date.now() - 24 * 60 * 60 * 1000))
+    ]);
+    return current && previous ? ((current.price - previous.price) / previous.price) * 100 : null;
+  }
+
+  /**
+   * Remove prices older than `retentionDays`
+   */
+  async prune(retentionDays: number): Promise<number> {
+    return this.priceRepository.deleteBefore(new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000));
+  }
+
+  private aggregate(symbol: string, quotes: Array<{ source: string; price: number }>, sampledAt: Date): TokenPrice | null {
+    if (quotes.length === 0) return null;
+
+    const center = median(quotes.map(quote => quote.price));
+    const sources = quotes.map(quote => ({
+      source: quote.source,
+      price: quote.price,
+      accepted: (Math.abs(quote.price - center) / center) * 10000 <= this.maxDeviationBps
+    }));
+
+    if (quotes.length < MIN_QUOTES_FOR_OUTLIERS && sources.some(source => !source.accepted)) {
+      const fallback = sources.find(source => source.source === FALLBACK_SOURCE);
+      logger.warn(`Price sources disagree on ${symbol}`, { sources, fallback: fallback ? fallback.source : null });
+      if (!fallback) return null;
+
+      return {
+        symbol,
+        price: fallback.price,
+        sources: sources.map(source => ({ ...source, accepted: source === fallback })),
+        sampledAt
+      };
+    }
+
+    const accepted = sources.filter(source => source.accepted);
+    if (accepted.length === 0) {
+      logger.warn(`Price sources disagree on ${symbol}`, { sources });
+      return null;
+    }
+
+    return { symbol, price: median(accepted.map(source => source.price)), sources, sampledAt };
+  }
+}
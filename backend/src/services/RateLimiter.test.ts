@@ -0,0 +1,186 @@
+import { Redis } from 'ioredis';
+import { MemoryRateLimitStore, RateLimiter, RateLimitStore, RedisRateLimitStore } from './RateLimiter';
+import { logger } from '../utils/logger';
+import { RateLimitPolicy } from '../types';
+
+jest.mock('../utils/logger');
+
+const MINUTE = 60 * 1000;
+const POLICY: RateLimitPolicy = { name: 'burst', limit: 10, windowMs: MINUTE };
+
+/**
+ * Redis whose EVAL runs the sliding window script's steps against in-memory keys.
+ * There is no Lua runtime here, so this mirrors SLIDING_WINDOW_SCRIPT line by line.
+ */
+function scriptedRedis() {
+  const values = new Map<string, number>();
+  const ttls = new Map<string, number>();
+  const redis = {
+    status: 'ready',
+    eval: jest.fn(async (_script: string, _keys: number, currentKey: string, previousKey: string, limit: number, window: number, elapsed: number) => {
+      let current = values.get(currentKey) || 0;
+      const previous = values.get(previousKey) || 0;
+      const estimated = Math.floor(previous * (window - elapsed) / window) + current;
+      if (estimated >= limit) {
+        return [0, current, previous];
+      }
+      values.set(currentKey, ++current);
+      if (current === 1) {
+        ttls.set(currentKey, window * 2);
+      }
+      return [1, current, previous];
+    })
+  };
+  return { redis, values, ttls };
+}
+
+describe.each([
+  ['RedisRateLimitStore', (): RateLimitStore => new RedisRateLimitStore(scriptedRedis().redis as unknown as Redis)],
+  ['MemoryRateLimitStore', (): RateLimitStore => new MemoryRateLimitStore()]
+])('%s', (_name, createStore) => {
+  let store: RateLimitStore;
+
+  const fill = async (count: number, at: number) => {
+    for (let i = 0; i < count; i++) {
+      expect(await store.consume('k', POLICY, at)).toMatchObject({ allowed: true });
+    }
+  };
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('allows the limit within a window and rejects the next request', async () => {
+    await fill(10, 5000);
+
+    await expect(store.consume('k', POLICY, 5000)).resolves.toMatchObject({ allowed: false, remaining: 0, resetMs: MINUTE - 5000 });
+    await expect(store.consume('other', POLICY, 5000)).resolves.toMatchObject({ allowed: true, remaining: 9 });
+  });
+
+  it('carries the previous window over the boundary, weighted by how much of it still overlaps', async () => {
+    await fill(10, MINUTE - 1);
+
+    // The full previous window still counts at the start of the next one
+    await expect(store.consume('k', POLICY, MINUTE)).resolves.toMatchObject({ allowed: false });
+
+    // Half way through, half of it has slid out
+    await fill(5, MINUTE + MINUTE / 2);
+    await expect(store.consume('k', POLICY, MINUTE + MINUTE / 2)).resolves.toMatchObject({ allowed: false });
+
+    // Two windows later nothing is left
+    await fill(10, 3 * MINUTE);
+  });
+
+  it('reports the exact wait until the next request is allowed', async () => {
+    // Rejected because the current window is full on its own
+    await fill(10, MINUTE / 2);
+    const full = await store.consume('k', POLICY, MINUTE / 2);
+    expect(full).toMatchObject({ allowed: false, retryAfterMs: MINUTE / 2 + 1 });
+    await expect(store.consume('k', POLICY, MINUTE / 2 + full.retryAfterMs - 1)).resolves.toMatchObject({ allowed: false });
+    await expect(store.consume('k', POLICY, MINUTE / 2 + full.retryAfterMs)).resolves.toMatchObject({ allowed: true });
+
+    // Rejected because of what is left of the previous window
+    const at = MINUTE + 1;
+    const sliding = await store.consume('k', POLICY, at);
+    expect(sliding).toMatchObject({ allowed: false, retryAfterMs: 6000 });
+    await expect(store.consume('k', POLICY, at + sliding.retryAfterMs - 1)).resolves.toMatchObject({ allowed: false });
+    await expect(store.consume('k', POLICY, at + sliding.retryAfterMs)).resolves.toMatchObject({ allowed: true });
+  });
+});
+
+describe('RedisRateLimitStore keys', () => {
+  it('keys counters by window and expires each after two windows', async () => {
+    const { redis, values, ttls } = scriptedRedis();
+    const store = new RedisRateLimitStore(redis as unknown as Redis);
+
+    await store.consume('api:user:u1:burst', POLICY, MINUTE + 1500);
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String), 2, 'ratelimit:api:user:u1:burst:1', 'ratelimit:api:user:u1:burst:0', 10, MINUTE, 1500
+    );
+    expect(values.get('ratelimit:api:user:u1:burst:1')).toBe(1);
+    expect(ttls.get('ratelimit:api:user:u1:burst:1')).toBe(2 * MINUTE);
+  });
+});
+
+describe('RateLimiter', () => {
+  const NOW = new Date('2026-10-19T12:00:00.000Z');
+  let redis: { status: string };
+  let redisStore: MemoryRateLimitStore;
+  let memoryStore: MemoryRateLimitStore;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    redis = { status: 'ready' };
+    // Stand-ins for the two stores, so the test can tell which one counted
+    redisStore = new MemoryRateLimitStore();
+    memoryStore = new MemoryRateLimitStore();
+    jest.spyOn(redisStore, 'consume');
+    jest.spyOn(memoryStore, 'consume');
+    limiter = new RateLimiter(redis as unknown as Redis, redisStore, memoryStore);
+    jest.mocked(logger.warn).mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts every key separately', async () => {
+    for (let i = 0; i < 10; i++) {
+      await limiter.consume('api:user:u1', [POLICY]);
+    }
+
+    await expect(limiter.consume('api:user:u1', [POLICY])).resolves.toMatchObject({ allowed: false });
+    await expect(limiter.consume('api:apiKey:u1', [POLICY])).resolves.toMatchObject({ allowed: true });
+    await expect(limiter.consume('api:ip:u1', [POLICY])).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('counts a policy with its own key across subjects', async () => {
+    const shared: RateLimitPolicy = { name: 'daily', limit: 2, windowMs: MINUTE, key: 'api:user:u1' };
+
+    await limiter.consume('api:user:u1', [shared]);
+    await limiter.consume('api:apiKey:k1', [shared]);
+
+    await expect(limiter.consume('api:apiKey:k2', [shared])).resolves.toMatchObject({ allowed: false, policy: shared });
+  });
+
+  it('returns the tightest policy and stops charging once one rejects', async () => {
+    const burst: RateLimitPolicy = { name: 'burst', limit: 1, windowMs: MINUTE };
+    const daily: RateLimitPolicy = { name: 'daily', limit: 5, windowMs: 24 * 60 * MINUTE };
+
+    await expect(limiter.consume('k', [daily, burst])).resolves.toMatchObject({ allowed: true, remaining: 0, policy: burst });
+    await expect(limiter.consume('k', [burst, daily])).resolves.toMatchObject({ allowed: false, policy: burst });
+
+    // The rejected request was not counted against the daily quota
+    await expect(limiter.consume('k', [daily])).resolves.toMatchObject({ remaining: 3 });
+  });
+
+  it('falls back to in-memory counting while Redis is not ready and goes back once it is', async () => {
+    redis.status = 'reconnecting';
+    await limiter.consume('k', [POLICY]);
+
+    expect(memoryStore.consume).toHaveBeenCalledTimes(1);
+    expect(redisStore.consume).not.toHaveBeenCalled();
+
+    redis.status = 'ready';
+    await limiter.consume('k', [POLICY]);
+
+    expect(redisStore.consume).toHaveBeenCalledTimes(1);
+    expect(memoryStore.consume).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to in-memory counting when a Redis command fails, warning at most once a minute', async () => {
+    jest.mocked(redisStore.consume).mockRejectedValue(new Error('Connection is closed'));
+
+    await expect(limiter.consume('k', [POLICY])).resolves.toMatchObject({ allowed: true, remaining: 9 });
+    await expect(limiter.consume('k', [POLICY])).resolves.toMatchObject({ allowed: true, remaining: 8 });
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(MINUTE);
+    await limiter.consume('k', [POLICY]);
+
+    expect(memoryStore.consume).toHaveBeenCalledTimes(3);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,191 @@
+import { Redis } from 'ioredis';
+import { RateLimitDecision, RateLimitPolicy, RateLimitResult } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Counts requests per key. Implementations use a sliding window counter: the previous
+ * fixed window's count is weighted by how much of it still overlaps the sliding window.
+ */
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult>;
+}
+
+// KEYS: current window, previous window. ARGV: limit, window ms, ms elapsed in the current window.
+// Returns { allowed, current count, previous count }.
+const SLIDING_WINDOW_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local elapsed = tonumber(ARGV[3])
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local estimated = math.floor(previous * (window - elapsed) / window) + current
+if estimated >= limit then
+  return { 0, current, previous }
+end
+current = redis.call('INCR', KEYS[1])
+if current == 1 then
+  redis.call('PEXPIRE', KEYS[1], window * 2)
+end
+return { 1, current, previous }
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    const window = Math.floor(now / policy.windowMs);
+    const elapsed = now - window * policy.windowMs;
+
+    const [allowed, current, previous] = await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      2,
+      `ratelimit:${key}:${window}`,
+      `ratelimit:${key}:${window - 1}`,
+      policy.limit,
+      policy.windowMs,
+      elapsed
+    ) as [number, number, number];
+
+    return toResult(allowed === 1, current, previous, policy, elapsed);
+  }
+}
+
+/**
+ * Process-local store; used when Redis is unavailable, so limits are per instance until it recovers
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows: Map<string, { count: number; expires: number }> = new Map();
+
+  constructor() {
+    // Drop expired windows every 5 minutes
+    setInterval(() => this.cleanup(), 5 * 60 * 1000).unref();
+  }
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    const window = Math.floor(now / policy.windowMs);
+    const elapsed = now - window * policy.windowMs;
+    const currentKey = `${key}:${window}`;
+
+    const current = this.windows.get(currentKey)?.count || 0;
+    const previous = this.windows.get(`${key}:${window - 1}`)?.count || 0;
+    const estimated = Math.floor(previous * (policy.windowMs - elapsed) / policy.windowMs) + current;
+
+    if (estimated >= policy.limit) {
+      return toResult(false, current, previous, policy, elapsed);
+    }
+
+    this.windows.set(currentKey, { count: current + 1, expires: (window + 2) * policy.windowMs });
+    return toResult(true, current + 1, previous, policy, elapsed);
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.windows.entries()) {
+      if (entry.expires <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+function toResult(
+  allowed: boolean,
+  current: number,
+  previous: number,
+  policy: RateLimitPolicy,
+  elapsed: number
+): RateLimitResult {
+  const { limit, windowMs } = policy;
+  const weighted = (count: number, at: number) => Math.floor(count * (windowMs - at) / windowMs);
+  const remaining = Math.max(0, limit - weighted(previous, elapsed) - current);
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    if (current < limit) {
+      // Wait until enough of the previous window has slid out
+      retryAfterMs = Math.ceil(windowMs * (1 - (limit - current) / previous)) - elapsed + 1;
+    } else {
+      // This window is full on its own; it becomes the previous window and has to slide out too
+      retryAfterMs = windowMs - elapsed + Math.ceil(windowMs * (1 - limit / current)) + 1;
+    }
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining,
+    resetMs: windowMs - elapsed,
+    retryAfterMs: Math.max(0, retryAfterMs)
+  };
+}
+
+const FALLBACK_WARNING_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Rate limiter shared by every instance through Redis, falling back to process-local
+ * counting while Redis is down so a cache outage never takes the API with it.
+ */
+export class RateLimiter {
+  private redis: Redis;
+  private redisStore: RateLimitStore;
+  private memoryStore: RateLimitStore;
+  private lastFallbackWarning = 0;
+
+  constructor(redis: Redis, redisStore?: RateLimitStore, memoryStore?: RateLimitStore) {
+    this.redis = redis;
+    this.redisStore = redisStore || new RedisRateLimitStore(redis);
+    this.memoryStore = memoryStore || new MemoryRateLimitStore();
+  }
+
+  /**
+   * Count one request against every policy and return the most restrictive outcome.
+   * Policies are checked in order; once one rejects, later ones are not charged.
+   */
+  async consume(key: string, policies: RateLimitPolicy[]): Promise<RateLimitDecision> {
+    const now = Date.now();
+    let tightest: RateLimitDecision | null = null;
+
+    for (const policy of policies) {
+      const result = await this.consumeOne(`${policy.key || key}:${policy.name}`, policy, now);
+      if (!result.allowed) {
+        return { ...result, policy };
+      }
+      if (!tightest || result.remaining < tightest.remaining) {
+        tightest = { ...result, policy };
+      }
+    }
+
+    if (!tightest) {
+      throw new Error('At least one rate limit policy is required');
+    }
+    return tightest;
+  }
+
+  private async consumeOne(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    // With offline queueing a command would wait for the reconnect; don't hold requests hostage
+    if (this.redis.status === 'ready') {
+      try {
+        return await this.redisStore.consume(key, policy, now);
+      } catch (error) {
+        this.warnFallback(error);
+      }
+    } else {
+      this.warnFallback(new Error(`Redis status is ${this.redis.status}`));
+    }
+
+    return this.memoryStore.consume(key, policy, now);
+  }
+
+  private warnFallback(error: unknown): void {
+    const now = Date.now();
+    if (now - this.lastFallbackWarning < FALLBACK_WARNING_INTERVAL_MS) return;
+    this.lastFallbackWarning = now;
+    logger.warn('Rate limiter falling back to in-memory counters', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
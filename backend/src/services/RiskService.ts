@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { Redis } from 'ioredis';
 import { logger } from '../utils/logger';
+import { ProtocolRegistry } from './protocols/ProtocolRegistry';
+import { DepegMonitor } from './DepegMonitor';
 import { 
   RiskMetrics, 
   RiskAlert, 
@@ -12,18 +14,33 @@ import {
   AVSRiskMetrics
 } from '../types';
 
+interface StakingPosition {
+  protocol: string;
+  validator: string;
+  operator: string;
+  /** Unset for ETH that is staked but not restaked */
+  avs?: string;
+  value: number; // ETH
+}
+
+const MAX_PEG_DISCOUNT = 0.05;
+
 export class RiskService {
   private prisma: PrismaClient;
   private redis: Redis;
+  private protocolRegistry: ProtocolRegistry;
+  private depegMonitor: DepegMonitor;
   private riskThresholds = {
     high: 0.7,
     medium: 0.4,
     low: 0.2
   };
 
-  constructor(prisma: PrismaClient, redis: Redis) {
+  constructor(prisma: PrismaClient, redis: Redis, protocolRegistry: ProtocolRegistry, depegMonitor: DepegMonitor) {
     this.prisma = prisma;
     this.redis = redis;
+    this.protocolRegistry = protocolRegistry;
+    this.depegMonitor = depegMonitor;
   }
 
   /**
@@ -42,54 +59,8 @@ export class RiskService {
 
       logger.risk('Calculating risk metrics', { userAddress });
 
-      const [
-        overallRisk,
-        slashingRisk,
-        liquidityRisk,
-        concentrationRisk,
-        validatorRisks,
-        avsRisks
-      ] = await Promise.all([
-        this.calculateOverallRisk(userAddress),
-        this.calculateSlashingRisk(userAddress),
-        this.calculateLiquidityRisk(userAddress),
-        this.calculateConcentrationRisk(userAddress),
-        this.getValidatorRisks(userAddress),
-        this.getAVSRisks(userAddress)
-      ]);
-
-      const riskMetrics: RiskMetrics = {
-        userAddress,
-        overallRiskScore: overallRisk.score,
-        riskLevel: this.getRiskLevel(overallRisk.score),
-        slashingRisk: {
-          probability: slashingRisk.probability,
-          potentialLoss: slashingRisk.potentialLoss,
-          riskScore: slashingRisk.score,
-          timeHorizon: '30d',
-          confidenceLevel: 0.95
-        },
-        liquidityRisk: {
-          availableLiquidity: liquidityRisk.available,
-          utilizationRate: liquidityRisk.utilization,
-          withdrawalDelay: liquidityRisk.delay,
-          riskScore: liquidityRisk.score
-        },
-        concentrationRisk: {
-          protocolConcentration: concentrationRisk.protocol,
-          operatorConcentration: concentrationRisk.operator,
-          avsConcentration: concentrationRisk.avs,
-          diversificationScore: concentrationRisk.diversification
-        },
-        validatorRisks,
-        avsRisks,
-        lastUpdated: Date.now(),
-        metadata: {
-          calculationVersion: '1.0',
-          dataQuality: overallRisk.dataQuality,
-          uncertaintyLevel: overallRisk.uncertainty
-        }
-      };
+      const positions = await this.getUserStakingPositions(userAddress);
+      const riskMetrics = await this.buildRiskMetrics(userAddress, positions);
 
       // Cache for 5 minutes
       await this.redis.setex(cacheKey, 300, JSON.stringify(riskMetrics));
@@ -107,6 +78,96 @@ export class RiskService {
     }
   }
 
+  /**
+   * Risk metrics for several wallets treated as one portfolio, so concentration is measured
+   * across the whole group. Also scores each wallet on its own.
+   */
+  async getAggregateRiskMetrics(label: string, addresses: string[]): Promise<{
+    metrics: RiskMetrics;
+    wallets: Array<{ address: string; value: number; overallRiskScore: number; riskLevel: RiskMetrics['riskLevel'] }>;
+  }> {
+    try {
+      const walletPositions = await Promise.all(addresses.map(address => this.getUserStakingPositions(address)));
+
+      const wallets = await Promise.all(addresses.map(async (address, index) => {
+        const overall = await this.calculateOverallRisk(walletPositions[index]);
+        return {
+          address,
+          value: walletPositions[index].reduce((sum, position) => sum + position.value, 0),
+          overallRiskScore: overall.score,
+          riskLevel: this.getRiskLevel(overall.score)
+        };
+      }));
+      const metrics = await this.buildRiskMetrics(label, walletPositions.flat());
+
+      logger.risk('Aggregate risk metrics calculated', {
+        label,
+        walletCount: addresses.length,
+        overallScore: metrics.overallRiskScore
+      });
+
+      return { metrics, wallets };
+    } catch (error) {
+      logger.error('Error calculating aggregate risk metrics', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assemble risk metrics from a set of staking positions
+   */
+  private async buildRiskMetrics(userAddress: string, positions: StakingPosition[]): Promise<RiskMetrics> {
+    const [
+      overallRisk,
+      slashingRisk,
+      liquidityRisk,
+      concentrationRisk,
+      validatorRisks,
+      avsRisks
+    ] = await Promise.all([
+      this.calculateOverallRisk(positions),
+      this.calculateSlashingRisk(positions),
+      this.calculateLiquidityRisk(positions),
+      this.calculateConcentrationRisk(positions),
+      this.getValidatorRisks(positions),
+      this.getAVSRisks(positions)
+    ]);
+
+    return {
+      userAddress,
+      overallRiskScore: overallRisk.score,
+      riskLevel: this.getRiskLevel(overallRisk.score),
+      slashingRisk: {
+        probability: slashingRisk.probability,
+        potentialLoss: slashingRisk.potentialLoss,
+        riskScore: slashingRisk.score,
+        timeHorizon: '30d',
+        confidenceLevel: 0.95
+      },
+      liquidityRisk: {
+        availableLiquidity: liquidityRisk.available,
+        utilizationRate: liquidityRisk.utilization,
+        withdrawalDelay: liquidityRisk.delay,
+        pegDiscount: liquidityRisk.pegDiscount,
+        riskScore: liquidityRisk.score
+      },
+      concentrationRisk: {
+        protocolConcentration: concentrationRisk.protocol,
+        operatorConcentration: concentrationRisk.operator,
+        avsConcentration: concentrationRisk.avs,
+        diversificationScore: concentrationRisk.diversification
+      },
+      validatorRisks,
+      avsRisks,
+      lastUpdated: Date.now(),
+      metadata: {
+        calculationVersion: '1.0',
+        dataQuality: overallRisk.dataQuality,
+        uncertaintyLevel: overallRisk.uncertainty
+      }
+    };
+  }
+
   /**
    * Get active risk alerts for a user
    */
@@ -123,6 +184,8 @@ export class RiskService {
 
       const alerts: RiskAlert[] = [];
 
+      const positions = await this.getUserStakingPositions(userAddress);
+
       // Check for high risk validators
       const highRiskValidators = await this.getHighRiskValidators(userAddress);
       highRiskValidators.forEach(validator => {
@@ -144,7 +207,7 @@ export class RiskService {
       });
 
       // Check for concentration risk
-      const concentrationRisk = await this.calculateConcentrationRisk(userAddress);
+      const concentrationRisk = await this.calculateConcentrationRisk(positions);
       if (concentrationRisk.protocol > 0.5) {
         alerts.push({
           id: `concentration-protocol-${userAddress}`,
@@ -182,6 +245,33 @@ export class RiskService {
         });
       });
 
+      // Check for held liquid staking tokens trading below their redemption rate
+      const pegStatuses = await this.depegMonitor.getStatuses();
+      pegStatuses.forEach(status => {
+        const exposure = positions
+          .filter(position => position.protocol === status.protocol)
+          .reduce((sum, position) => sum + position.value, 0);
+        if (!status.breach || exposure === 0) return;
+
+        const { breach } = status;
+        const minutes = Math.round((Date.now() - breach.since.getTime()) / 60000);
+        alerts.push({
+          id: `depeg-${status.symbol}-${breach.severity}`,
+          type: 'depeg_risk',
+          severity: breach.severity,
+          title: `${status.symbol} Trading Below Peg`,
+          message: `${status.symbol} has traded ${breach.deviationBps / 100}% or more below its redemption rate for at least ${minutes} minutes (now ${(breach.discount * 100).toFixed(2)}%)`,
+          timestamp: Date.now(),
+          data: { status, exposure },
+          actionRequired: breach.severity === 'high' || breach.severity === 'critical',
+          suggestedActions: [
+            `Avoid selling ${status.symbol} on DEXs while the discount lasts`,
+            'Redeem through the protocol withdrawal queue instead',
+            `Review your ${status.symbol} exposure`
+          ]
+        });
+      });
+
       // Cache for 2 minutes
       await this.redis.setex(cacheKey, 120, JSON.stringify(alerts));
 
@@ -195,14 +285,12 @@ export class RiskService {
   /**
    * Calculate overall risk score
    */
-  private async calculateOverallRisk(userAddress: string): Promise<{
+  private async calculateOverallRisk(positions: StakingPosition[]): Promise<{
     score: number;
     dataQuality: number;
     uncertainty: number;
   }> {
-    // Fetch user's staking positions and calculate weighted risk
-    const positions = await this.getUserStakingPositions(userAddress);
-    
+    // Weight each staking position's risk by its value
     if (!positions.length) {
       return { score: 0, dataQuality: 1, uncertainty: 0 };
     }
@@ -214,7 +302,7 @@ export class RiskService {
     for (const position of positions) {
       const protocolRisk = await this.getProtocolRisk(position.protocol);
       const validatorRisk = await this.getValidatorRisk(position.validator);
-      const avsRisk = await this.getAVSRisk(position.avs);
+      const avsRisk = position.avs ? await this.getAVSRisk(position.avs) : { score: 0 };
 
       // Combined risk calculation
       const positionRisk = Math.sqrt(
@@ -241,20 +329,20 @@ export class RiskService {
   /**
    * Calculate slashing risk
    */
-  private async calculateSlashingRisk(userAddress: string): Promise<{
+  private async calculateSlashingRisk(positions: StakingPosition[]): Promise<{
     probability: number;
     potentialLoss: number;
     score: number;
   }> {
-    const positions = await this.getUserStakingPositions(userAddress);
-    
     let totalStaked = 0;
     let totalSlashingRisk = 0;
     let potentialLoss = 0;
 
     for (const position of positions) {
       const validatorHistory = await this.getValidatorSlashingHistory(position.validator);
-      const avsSlashingRisk = await this.getAVSSlashingRisk(position.avs);
+      const avsSlashingRisk = position.avs
+        ? await this.getAVSSlashingRisk(position.avs)
+        : { baseProbability: 0, maxSlashingPercent: 0 };
       
       // Calculate probability based on historical data and current risk factors
       const historicalProbability = validatorHistory.slashingEvents / Math.max(validatorHistory.totalEpochs, 1);
@@ -282,37 +370,45 @@ export class RiskService {
   /**
    * Calculate liquidity risk
    */
-  private async calculateLiquidityRisk(userAddress: string): Promise<{
+  private async calculateLiquidityRisk(positions: StakingPosition[]): Promise<{
     available: number;
     utilization: number;
     delay: number;
+    pegDiscount: number;
     score: number;
   }> {
-    const positions = await this.getUserStakingPositions(userAddress);
-    
     let totalStaked = 0;
     let availableLiquidity = 0;
     let weightedDelay = 0;
+    let weightedDiscount = 0;
 
     for (const position of positions) {
       const protocolLiquidity = await this.getProtocolLiquidity(position.protocol);
-      const withdrawalDelay = await this.getWithdrawalDelay(position.protocol, position.validator);
+      const withdrawalDelay = await this.getWithdrawalDelay(position.protocol);
+      // Exiting without the withdrawal delay means selling at the market discount
+      const discount = await this.depegMonitor.getDiscount(position.protocol);
       
       totalStaked += position.value;
       availableLiquidity += Math.min(position.value, protocolLiquidity.available);
       weightedDelay += withdrawalDelay * position.value;
+      weightedDiscount += discount * position.value;
     }
 
     const utilization = totalStaked > 0 ? 1 - (availableLiquidity / totalStaked) : 0;
     const avgDelay = totalStaked > 0 ? weightedDelay / totalStaked : 0;
+    const pegDiscount = totalStaked > 0 ? weightedDiscount / totalStaked : 0;
     
-    // Liquidity risk score based on utilization and delay
-    const score = Math.min(utilization + (avgDelay / (7 * 24 * 60 * 60 * 1000)), 1); // Normalize delay to days
+    // Liquidity risk score based on utilization, delay and depeg; a 5% discount alone is the maximum
+    const score = Math.min(
+      utilization + (avgDelay / (7 * 24 * 60 * 60 * 1000)) + pegDiscount / MAX_PEG_DISCOUNT, // Normalize delay to days
+      1
+    );
 
     return {
       available: availableLiquidity,
       utilization,
       delay: avgDelay,
+      pegDiscount,
       score
     };
   }
@@ -320,14 +416,12 @@ export class RiskService {
   /**
    * Calculate concentration risk
    */
-  private async calculateConcentrationRisk(userAddress: string): Promise<{
+  private async calculateConcentrationRisk(positions: StakingPosition[]): Promise<{
     protocol: number;
     operator: number;
     avs: number;
     diversification: number;
   }> {
-    const positions = await this.getUserStakingPositions(userAddress);
-    
     const protocolDistribution = new Map<string, number>();
     const operatorDistribution = new Map<string, number>();
     const avsDistribution = new Map<string, number>();
@@ -381,8 +475,7 @@ export class RiskService {
   /**
    * Get validator risks for user's positions
    */
-  private async getValidatorRisks(userAddress: string): Promise<ValidatorRisk[]> {
-    const positions = await this.getUserStakingPositions(userAddress);
+  private async getValidatorRisks(positions: StakingPosition[]): Promise<ValidatorRisk[]> {
     const validatorRisks: ValidatorRisk[] = [];
 
     for (const position of positions) {
@@ -405,11 +498,12 @@ export class RiskService {
   /**
    * Get AVS risks for user's positions
    */
-  private async getAVSRisks(userAddress: string): Promise<AVSRiskMetrics[]> {
-    const positions = await this.getUserStakingPositions(userAddress);
+  private async getAVSRisks(positions: StakingPosition[]): Promise<AVSRiskMetrics[]> {
     const avsRisks: AVSRiskMetrics[] = [];
 
     for (const position of positions) {
+      if (!position.avs) continue;
+
       const avsRisk = await this.getAVSRisk(position.avs);
       avsRisks.push({
         avsId: position.avs,
@@ -438,22 +532,22 @@ export class RiskService {
   }
 
   // Helper methods for data fetching (these would connect to real Swellchain data sources)
-  private async getUserStakingPositions(userAddress: string) {
-    // This would fetch real staking positions from Swellchain
-    // For now, implementing with placeholder structure
-    return [
-      {
-        protocol: 'swell',
-        validator: '0x123...',
-        operator: '0x456...',
-        avs: 'MACH',
-        value: 32 // ETH
-      }
-    ];
+  private async getUserStakingPositions(userAddress: string): Promise<StakingPosition[]> {
+    // Only holdings past the safe depth count, so alerts never fire on blocks that may be orphaned
+    const positions = await this.protocolRegistry.discoverPositions(userAddress, { minConfirmation: 'safe' });
+
+    return positions.map(position => ({
+      protocol: position.protocol,
+      validator: position.contractAddress,
+      operator: position.contractAddress,
+      avs: position.avs,
+      value: position.value
+    }));
   }
 
   private async getProtocolRisk(protocol: string) {
-    return { score: 0.3, dataQuality: 0.9 };
+    const adapter = this.protocolRegistry.get(protocol);
+    return adapter ? { score: adapter.info.riskScore, dataQuality: 0.9 } : { score: 0.5, dataQuality: 0.5 };
   }
 
   private async getValidatorRisk(validator: string) {
@@ -484,16 +578,18 @@ export class RiskService {
     return { slashingEvents: 0, totalEpochs: 1000 };
   }
 
-  private async getCurrentRiskFactors(validator: string, avs: string) {
+  private async getCurrentRiskFactors(validator: string, avs?: string) {
     return { multiplier: 1.0 };
   }
 
   private async getProtocolLiquidity(protocol: string) {
-    return { available: 1000 };
+    const adapter = this.protocolRegistry.get(protocol);
+    return adapter ? adapter.getLiquidity() : { available: 0 };
   }
 
-  private async getWithdrawalDelay(protocol: string, validator: string) {
-    return 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+  private async getWithdrawalDelay(protocol: string) {
+    const adapter = this.protocolRegistry.get(protocol);
+    return adapter ? adapter.getWithdrawalDelay() : 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
   }
 
   private async getHighRiskValidators(userAddress: string): Promise<{ address: string; riskScore: number }[]> {
@@ -0,0 +1,425 @@
+import { createPublicClient, custom, decodeFunctionResult, encodeFunctionData, Hex, multicall3Abi, PublicClient } from 'viem';
+import { redactUrl } from '../config';
+import { logger } from '../utils/logger';
+import { BLOCK_TIME_MS, CONFIRMATION_DEPTHS, ETHEREUM_CHAIN_ID, MULTICALL3_ADDRESS, SWELLCHAIN_CHAIN_ID } from '../utils/chains';
+import { EnvConfig, RpcClientMetrics, RpcEndpointMetrics } from '../types';
+
+export interface RpcClientOptions {
+  timeoutMs: number;
+  /** Most requests sent in one JSON-RPC batch */
+  maxBatchSize: number;
+  /** Most responses kept in the cache */
+  cacheSize: number;
+  /** How long responses for `latest` stay fresh, normally about half a block */
+  latestTtlMs: number;
+  /** Responses pinned to blocks this far below the head cannot change and are cached until evicted */
+  finalityBlocks: number;
+}
+
+export type BlockTag = bigint | 'latest' | 'safe' | 'finalized';
+
+export interface MulticallCall {
+  target: string;
+  data: Hex;
+  /** Defaults to true; when false a revert fails the whole multicall */
+  allowFailure?: boolean;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: Hex;
+}
+
+/**
+ * The node rejected a well-formed request, e.g. a reverted `eth_call`. Other endpoints would answer
+ * the same, so these are not retried.
+ */
+export class RpcRequestError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(method: string, code: number, message: string, data?: unknown) {
+    super(`${method} failed: ${message}`);
+    this.name = 'RpcRequestError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+interface JsonRpcResponse {
+  id: number;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+type CachePolicy = { ttlMs: number } | null;
+
+// Rate limiting and overload; another endpoint may well succeed
+const RETRYABLE_CODES = [-32005, -32029, 429];
+const MAX_MULTICALL_CALLS = 200;
+const MAX_COOLDOWN_MS = 60000;
+// Weight of the newest sample in the latency and error averages
+const SMOOTHING = 0.2;
+
+// Position of the block parameter for methods that take one
+const BLOCK_PARAM: Record<string, number> = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+  eth_getBlockByNumber: 0
+};
+
+class RpcEndpoint {
+  url: string;
+  requests = 0;
+  errors = 0;
+  consecutiveErrors = 0;
+  latencyMs?: number;
+  errorRate = 0;
+  lastError?: string;
+  lastErrorAt?: Date;
+  coolingUntil = 0;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  /** 0-100; failures weigh more than latency */
+  get score(): number {
+    const latencyPenalty = Math.min(50, (this.latencyMs || 0) / 20);
+    return Math.max(0, Math.round(100 * (1 - this.errorRate) - latencyPenalty));
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.requests++;
+    this.consecutiveErrors = 0;
+    this.coolingUntil = 0;
+    this.latencyMs = this.latencyMs === undefined ? latencyMs : this.latencyMs + SMOOTHING * (latencyMs - this.latencyMs);
+    this.errorRate -= SMOOTHING * this.errorRate;
+  }
+
+  recordFailure(error: Error): void {
+    this.requests++;
+    this.errors++;
+    this.consecutiveErrors++;
+    this.errorRate += SMOOTHING * (1 - this.errorRate);
+    this.lastError = error.message;
+    this.lastErrorAt = new Date();
+    // Back off 1s, 2s, 4s... so a dead endpoint is only probed occasionally
+    this.coolingUntil = Date.now() + Math.min(MAX_COOLDOWN_MS, 1000 * 2 ** (this.consecutiveErrors - 1));
+  }
+
+  metrics(now: number): RpcEndpointMetrics {
+    return {
+      url: redactUrl(this.url, true),
+      healthy: this.coolingUntil <= now,
+      score: this.score,
+      requests: this.requests,
+      errors: this.errors,
+      consecutiveErrors: this.consecutiveErrors,
+      latencyMs: this.latencyMs !== undefined ? Math.round(this.latencyMs) : undefined,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt
+    };
+  }
+}
+
+/**
+ * JSON-RPC access to one chain over several endpoints. Requests made in the same tick go out as one
+ * batch to the healthiest endpoint and fail over to the next one on transport errors. Identical
+ * concurrent requests share one call, and responses are cached by block tag: `latest` for part of a
+ * block, final blocks until evicted.
+ */
+export class RpcClient {
+  readonly chainId: number;
+  private endpoints: RpcEndpoint[];
+  private options: RpcClientOptions;
+  private queue: PendingRequest[] = [];
+  private flushScheduled = false;
+  private nextId = 1;
+  private inflight: Map<string, Promise<unknown>> = new Map();
+  private cache: Map<string, { value: unknown; expiresAt: number }> = new Map();
+  private head?: bigint;
+  private stats = { hits: 0, misses: 0, deduplicated: 0, batches: 0 };
+
+  constructor(chainId: number, urls: string[], options: RpcClientOptions) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+    }
+    this.chainId = chainId;
+    this.endpoints = urls.map(url => new RpcEndpoint(url));
+    this.options = options;
+  }
+
+  async request<T = unknown>(method: string, params: unknown[] = []): Promise<T> {
+    const key = `${method}:${JSON.stringify(params)}`;
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      // Refresh its position so the cache evicts least recently used entries first
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      this.stats.hits++;
+      return cached.value as T;
+    }
+    this.stats.misses++;
+
+    const inflight = this.inflight.get(key);
+    if (inflight) {
+      this.stats.deduplicated++;
+      return inflight as Promise<T>;
+    }
+
+    const promise = this.enqueue(method, params)
+      .then(result => {
+        if (method === 'eth_blockNumber') this.observeHead(BigInt(result as string));
+        const policy = this.cachePolicy(method, params);
+        if (policy) this.remember(key, result, policy.ttlMs);
+        return result;
+      })
+      .finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+
+    return promise as Promise<T>;
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return BigInt(await this.request<string>('eth_blockNumber'));
+  }
+
+  /**
+   * Run read-only calls through Multicall3, chunked to keep each `eth_call` a reasonable size
+   */
+  async multicall(calls: MulticallCall[], blockTag: BlockTag = 'latest'): Promise<MulticallResult[]> {
+    const results: MulticallResult[] = [];
+
+    for (let start = 0; start < calls.length; start += MAX_MULTICALL_CALLS) {
+      const chunk = calls.slice(start, start + MAX_MULTICALL_CALLS);
+      const data = encodeFunctionData({
+        abi: multicall3Abi,
+        functionName: 'aggregate3',
+        args: [chunk.map(call => ({
+          target: call.target as Hex,
+          allowFailure: call.allowFailure !== false,
+          callData: call.data
+        }))]
+      });
+      const tag = typeof blockTag === 'bigint' ? `0x${blockTag.toString(16)}` : blockTag;
+      const returned = await this.request<Hex>('eth_call', [{ to: MULTICALL3_ADDRESS, data }, tag]);
+      const decoded = decodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', data: returned });
+      results.push(...decoded.map(result => ({ success: result.success, returnData: result.returnData })));
+    }
+
+    return results;
+  }
+
+  /**
+   * A viem client on top of this one, for contract reads and log queries with typed ABIs
+   */
+  toPublicClient(): PublicClient {
+    return createPublicClient({
+      transport: custom({ request: ({ method, params }) => this.request(method, params || []) }, { retryCount: 0 })
+    });
+  }
+
+  getMetrics(): RpcClientMetrics {
+    const now = Date.now();
+    return {
+      chainId: this.chainId,
+      endpoints: this.endpoints.map(endpoint => endpoint.metrics(now)),
+      cache: { entries: this.cache.size, hits: this.stats.hits, misses: this.stats.misses },
+      deduplicated: this.stats.deduplicated,
+      batches: this.stats.batches
+    };
+  }
+
+  private enqueue(method: string, params: unknown[]): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, method, params, resolve, reject });
+
+      if (this.queue.length >= this.options.maxBatchSize) {
+        this.flush();
+      } else if (!this.flushScheduled) {
+        this.flushScheduled = true;
+        setImmediate(() => this.flush());
+      }
+    });
+  }
+
+  private flush(): void {
+    this.flushScheduled = false;
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.maxBatchSize);
+      this.stats.batches++;
+      this.send(batch).catch(error => batch.forEach(pending => pending.reject(error)));
+    }
+  }
+
+  /**
+   * Try endpoints from healthiest to least healthy until every request has an answer
+   */
+  private async send(batch: PendingRequest[]): Promise<void> {
+    let remaining = batch;
+    let lastError: Error = new Error('No RPC endpoint available');
+
+    for (const endpoint of this.rankedEndpoints()) {
+      const started = Date.now();
+      try {
+        const responses = await this.post(endpoint.url, remaining);
+        const retry: PendingRequest[] = [];
+
+        for (const pending of remaining) {
+          const response = responses.get(pending.id);
+          if (!response) {
+            retry.push(pending);
+          } else if (response.error && RETRYABLE_CODES.includes(response.error.code)) {
+            lastError = new Error(response.error.message);
+            retry.push(pending);
+          } else if (response.error) {
+            pending.reject(new RpcRequestError(pending.method, response.error.code, response.error.message, response.error.data));
+          } else {
+            pending.resolve(response.result);
+          }
+        }
+
+        if (retry.length === 0) {
+          endpoint.recordSuccess(Date.now() - started);
+          return;
+        }
+        endpoint.recordFailure(new Error(`${retry.length} of ${remaining.length} requests unanswered`));
+        remaining = retry;
+      } catch (error) {
+        lastError = error as Error;
+        endpoint.recordFailure(lastError);
+        logger.debug(`RPC endpoint failed for chain ${this.chainId}`, {
+          endpoint: redactUrl(endpoint.url, true),
+          error: lastError.message
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async post(url: string, batch: PendingRequest[]): Promise<Map<number, JsonRpcResponse>> {
+    const payload = batch.map(({ id, method, params }) => ({ jsonrpc: '2.0', id, method, params }));
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      // Single requests go unwrapped; not every node accepts batches
+      body: JSON.stringify(payload.length === 1 ? payload[0] : payload),
+      signal: AbortSignal.timeout(this.options.timeoutMs)
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as JsonRpcResponse | JsonRpcResponse[];
+    // A node that rejects the whole batch answers with one error and no id
+    if (!Array.isArray(body) && body.id === null && body.error) {
+      throw new Error(body.error.message);
+    }
+
+    const responses = Array.isArray(body) ? body : [body];
+    return new Map(responses.map(item => [Number(item.id), item]));
+  }
+
+  private rankedEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter(endpoint => endpoint.coolingUntil <= now);
+    const cooling = this.endpoints.filter(endpoint => endpoint.coolingUntil > now);
+
+    // Stable sort keeps the configured order between equally healthy endpoints
+    return [
+      ...available.sort((a, b) => b.score - a.score),
+      // Still worth a try when everything else has failed
+      ...cooling.sort((a, b) => a.coolingUntil - b.coolingUntil)
+    ];
+  }
+
+  /**
+   * How long a response may be served from the cache. Blocks near the head can still be reorged, so
+   * only responses pinned to final blocks or to a block hash are kept past the current block.
+   */
+  private cachePolicy(method: string, params: unknown[]): CachePolicy {
+    const forever = { ttlMs: Infinity };
+    const latest = { ttlMs: this.options.latestTtlMs };
+
+    if (method === 'eth_chainId' || method === 'eth_getBlockByHash') return forever;
+    if (method === 'eth_blockNumber' || method === 'eth_gasPrice') return latest;
+
+    if (method === 'eth_getLogs') {
+      const filter = (params[0] || {}) as { blockHash?: string; toBlock?: string };
+      if (filter.blockHash) return forever;
+      return this.blockTagPolicy(filter.toBlock || 'latest');
+    }
+
+    if (method in BLOCK_PARAM) {
+      return this.blockTagPolicy(params[BLOCK_PARAM[method]] ?? 'latest');
+    }
+
+    return null;
+  }
+
+  private blockTagPolicy(tag: unknown): CachePolicy {
+    if (typeof tag === 'object' && tag !== null && 'blockHash' in tag) return { ttlMs: Infinity };
+    if (tag === 'earliest') return { ttlMs: Infinity };
+    if (typeof tag !== 'string') return null;
+    if (!tag.startsWith('0x')) {
+      return tag === 'pending' ? null : { ttlMs: this.options.latestTtlMs };
+    }
+
+    const finalizedHead = this.head !== undefined ? this.head - BigInt(this.options.finalityBlocks) : undefined;
+    return finalizedHead !== undefined && BigInt(tag) <= finalizedHead ? { ttlMs: Infinity } : null;
+  }
+
+  private observeHead(blockNumber: bigint): void {
+    if (this.head === undefined || blockNumber > this.head) this.head = blockNumber;
+  }
+
+  private remember(key: string, value: unknown, ttlMs: number): void {
+    this.cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+    if (this.cache.size > this.options.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+  }
+}
+
+export function rpcOptionsFromConfig(config: EnvConfig, chainId: number): RpcClientOptions {
+  return {
+    timeoutMs: config.RPC_TIMEOUT_MS,
+    maxBatchSize: config.RPC_BATCH_SIZE,
+    cacheSize: config.RPC_CACHE_SIZE,
+    latestTtlMs: Math.floor(BLOCK_TIME_MS[chainId] / 2),
+    finalityBlocks: CONFIRMATION_DEPTHS[chainId].finalized
+  };
+}
+
+/**
+ * One client per supported chain: the primary RPC URL first, then the fallbacks in configured order
+ */
+export function rpcClientsFromConfig(config: EnvConfig): Record<number, RpcClient> {
+  return {
+    [ETHEREUM_CHAIN_ID]: new RpcClient(
+      ETHEREUM_CHAIN_ID,
+      [config.ETHEREUM_RPC_URL, ...config.ETHEREUM_FALLBACK_RPC_URLS],
+      rpcOptionsFromConfig(config, ETHEREUM_CHAIN_ID)
+    ),
+    [SWELLCHAIN_CHAIN_ID]: new RpcClient(
+      SWELLCHAIN_CHAIN_ID,
+      [config.SWELLCHAIN_RPC_URL, ...config.SWELLCHAIN_FALLBACK_RPC_URLS],
+      rpcOptionsFromConfig(config, SWELLCHAIN_CHAIN_ID)
+    )
+  };
+}
@@ -0,0 +1,229 @@
+import { PrismaClient, Session as SessionRow } from '@prisma/client';
+import { Redis } from 'ioredis';
+import jwt from 'jsonwebtoken';
+import { SessionService } from './SessionService';
+import { TokenDenylist } from './TokenDenylist';
+import { SessionInput, SessionRepository } from '../repositories/SessionRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../middleware/auth';
+import { User } from '../types';
+
+jest.mock('../utils/logger');
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const USER_ID = 'user-1';
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+/** Mirrors the conditional updates and retired hash table of the Postgres repository */
+class InMemorySessionRepository extends SessionRepository {
+  sessions = new Map<string, SessionRow>();
+  retired = new Map<string, string>();
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findById(id: string): Promise<SessionRow | null> {
+    return this.sessions.get(id) || null;
+  }
+
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<SessionRow | null> {
+    return Array.from(this.sessions.values()).find(session => session.refreshTokenHash === refreshTokenHash) || null;
+  }
+
+  async findByRetiredTokenHash(hash: string): Promise<SessionRow | null> {
+    return this.sessions.get(this.retired.get(hash)) || null;
+  }
+
+  async create(userId: string, input: SessionInput): Promise<SessionRow> {
+    const session: SessionRow = {
+      id: `session-${this.sessions.size + 1}`,
+      userId,
+      refreshTokenHash: input.refreshTokenHash,
+      userAgent: input.userAgent || null,
+      ipAddress: input.ipAddress || null,
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: input.expiresAt,
+      revokedAt: null
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  async rotate(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<SessionRow | null> {
+    const session = this.sessions.get(id);
+    if (!session || session.refreshTokenHash !== currentHash || session.revokedAt) {
+      return null;
+    }
+
+    this.retired.set(currentHash, id);
+    Object.assign(session, { refreshTokenHash: nextHash, lastUsedAt: new Date(), expiresAt });
+    return session;
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session || session.userId !== userId || session.revokedAt) {
+      return false;
+    }
+
+    session.revokedAt = new Date();
+    return true;
+  }
+
+  async revokeAll(userId: string): Promise<string[]> {
+    const active = Array.from(this.sessions.values()).filter(session => session.userId === userId && !session.revokedAt);
+    active.forEach(session => { session.revokedAt = new Date(); });
+    return active.map(session => session.id);
+  }
+}
+
+class InMemoryUserRepository extends UserRepository {
+  users = new Map<string, User>();
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.users.get(id) || null;
+  }
+}
+
+function inMemoryRedis(): Redis {
+  const values = new Map<string, string>();
+  return {
+    setex: async (key: string, _ttl: number, value: string) => {
+      values.set(key, value);
+      return 'OK';
+    },
+    mget: async (...keys: string[]) => keys.map(key => values.get(key) ?? null)
+  } as unknown as Redis;
+}
+
+describe('SessionService', () => {
+  let sessions: InMemorySessionRepository;
+  let users: InMemoryUserRepository;
+  let denylist: TokenDenylist;
+  let service: SessionService;
+
+  // Whether an access token would be turned away by the auth middleware
+  const isDenied = (token: string) => {
+    const { sid, jti } = jwt.decode(token) as { sid: string; jti: string };
+    return denylist.isRevoked(sid, jti);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    sessions = new InMemorySessionRepository();
+    users = new InMemoryUserRepository();
+    users.users.set(USER_ID, { id: USER_ID, address: ADDRESS, isActive: true } as User);
+    denylist = new TokenDenylist(inMemoryRedis(), ACCESS_TOKEN_TTL_SECONDS);
+    service = new SessionService(sessions, users, denylist);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('refresh', () => {
+    it('rotates the refresh token and extends the session', async () => {
+      const first = await service.createSession(USER_ID, ADDRESS);
+      jest.advanceTimersByTime(DAY);
+
+      const second = await service.refresh(first.refreshToken);
+
+      expect(second.sessionId).toBe(first.sessionId);
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(second.refreshExpiresAt).toBe(first.refreshExpiresAt + DAY);
+      await expect(service.refresh(second.refreshToken)).resolves.toMatchObject({ sessionId: first.sessionId });
+    });
+
+    it('revokes the session and denylists its access tokens when the previous token is replayed', async () => {
+      const first = await service.createSession(USER_ID, ADDRESS);
+      const second = await service.refresh(first.refreshToken);
+
+      await expect(service.refresh(first.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+      expect(sessions.sessions.get(first.sessionId)?.revokedAt).toEqual(NOW);
+      await expect(isDenied(second.token)).resolves.toBe(true);
+      await expect(service.refresh(second.refreshToken)).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+    });
+
+    it('detects reuse of a token rotated out several refreshes ago', async () => {
+      const first = await service.createSession(USER_ID, ADDRESS);
+      let latest = first;
+      for (let i = 0; i < 3; i++) {
+        latest = await service.refresh(latest.refreshToken);
+      }
+
+      await expect(service.refresh(first.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+      await expect(isDenied(latest.token)).resolves.toBe(true);
+      await expect(service.refresh(latest.refreshToken)).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+    });
+
+    it('lets only one of two concurrent refreshes with the same token win', async () => {
+      const { refreshToken } = await service.createSession(USER_ID, ADDRESS);
+
+      const results = await Promise.allSettled([service.refresh(refreshToken), service.refresh(refreshToken)]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { code: 'REFRESH_TOKEN_REUSED' } });
+    });
+
+    it('rejects unknown and malformed tokens without touching any session', async () => {
+      const { sessionId, refreshToken } = await service.createSession(USER_ID, ADDRESS);
+      const secret = refreshToken.split('.')[1];
+
+      await expect(service.refresh(`${sessionId}.not-a-secret`)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_INVALID' });
+      await expect(service.refresh(`session-other.${secret}`)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_INVALID' });
+      await expect(service.refresh('garbage')).rejects.toMatchObject({ code: 'REFRESH_TOKEN_INVALID' });
+
+      expect(sessions.sessions.get(sessionId)?.revokedAt).toBeNull();
+    });
+
+    it('rejects expired sessions and inactive accounts', async () => {
+      const expiring = await service.createSession(USER_ID, ADDRESS);
+      jest.advanceTimersByTime(31 * DAY);
+      await expect(service.refresh(expiring.refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_EXPIRED' });
+
+      const active = await service.createSession(USER_ID, ADDRESS);
+      users.users.get(USER_ID)!.isActive = false;
+      await expect(service.refresh(active.refreshToken)).rejects.toMatchObject({ code: 'ACCOUNT_INACTIVE' });
+    });
+  });
+
+  describe('revocation', () => {
+    it('denylists the access tokens of a revoked session and stops its refresh token', async () => {
+      const revoked = await service.createSession(USER_ID, ADDRESS);
+      const other = await service.createSession(USER_ID, ADDRESS);
+
+      await service.revokeSession(USER_ID, revoked.sessionId);
+
+      await expect(isDenied(revoked.token)).resolves.toBe(true);
+      await expect(isDenied(other.token)).resolves.toBe(false);
+      await expect(service.refresh(revoked.refreshToken)).rejects.toMatchObject({ code: 'SESSION_REVOKED' });
+      await expect(service.revokeSession(USER_ID, revoked.sessionId)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('does not revoke another user\'s session', async () => {
+      const { sessionId, token } = await service.createSession(USER_ID, ADDRESS);
+
+      await expect(service.revokeSession('user-2', sessionId)).rejects.toMatchObject({ statusCode: 404 });
+      await expect(isDenied(token)).resolves.toBe(false);
+    });
+
+    it('revokes every session of a user', async () => {
+      const first = await service.createSession(USER_ID, ADDRESS);
+      const second = await service.createSession(USER_ID, ADDRESS);
+
+      await expect(service.revokeAllSessions(USER_ID)).resolves.toBe(2);
+
+      await expect(isDenied(first.token)).resolves.toBe(true);
+      await expect(isDenied(second.token)).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { Session as SessionRow } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { AuthenticationError, NotFoundError } from '../middleware/errorHandler';
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken } from '../middleware/auth';
+import { SessionRepository } from '../repositories/SessionRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { TokenDenylist } from './TokenDenylist';
+import { AuthTokens, UserSession } from '../types';
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export class SessionService {
+  private sessionRepository: SessionRepository;
+  private userRepository: UserRepository;
+  private denylist: TokenDenylist;
+
+  constructor(sessionRepository: SessionRepository, userRepository: UserRepository, denylist: TokenDenylist) {
+    this.sessionRepository = sessionRepository;
+    this.userRepository = userRepository;
+    this.denylist = denylist;
+  }
+
+  /**
+   * Start a new session and issue its first access/refresh token pair
+   */
+  async createSession(userId: string, address: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const refresh = this.newRefreshSecret();
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+    const session = await this.sessionRepository.create(userId, {
+      refreshTokenHash: refresh.hash,
+      expiresAt,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress
+    });
+
+    return this.issueTokens(session, address, refresh.secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, rotating the refresh token.
+   * Presenting any already-rotated token revokes the whole session.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret) {
+      throw new AuthenticationError('Malformed refresh token', 'REFRESH_TOKEN_INVALID');
+    }
+
+    const hash = this.hashSecret(secret);
+    const session = await this.sessionRepository.findByRefreshTokenHash(hash);
+
+    if (!session || session.id !== sessionId) {
+      const reused = await this.sessionRepository.findByRetiredTokenHash(hash);
+      if (reused) {
+        logger.security('Refresh token reuse detected, revoking session', { sessionId: reused.id, userId: reused.userId });
+        // The session may already be revoked (logout, or an earlier reuse); that is not an error here
+        if (await this.sessionRepository.revoke(reused.userId, reused.id)) {
+          await this.denylist.revokeSession(reused.id);
+        }
+        throw new AuthenticationError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+      }
+
+      throw new AuthenticationError('Invalid refresh token', 'REFRESH_TOKEN_INVALID');
+    }
+
+    if (session.revokedAt) {
+      throw new AuthenticationError('Session has been revoked', 'SESSION_REVOKED');
+    }
+
+    if (session.expiresAt.getTime() < Date.now()) {
+      throw new AuthenticationError('Refresh token has expired', 'REFRESH_TOKEN_EXPIRED');
+    }
+
+    const user = await this.userRepository.findById(session.userId);
+    if (!user || !user.isActive) {
+      throw new AuthenticationError('User account is not active', 'ACCOUNT_INACTIVE');
+    }
+
+    const next = this.newRefreshSecret();
+    const rotated = await this.sessionRepository.rotate(
+      session.id,
+      hash,
+      next.hash,
+      new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    );
+
+    // Lost a race with a concurrent refresh using the same token
+    if (!rotated) {
+      throw new AuthenticationError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    }
+
+    return this.issueTokens(rotated, user.address, next.secret);
+  }
+
+  async listSessions(userId: string, currentSessionId?: string): Promise<UserSession[]> {
+    const sessions = await this.sessionRepository.listActive(userId);
+    return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Revoke a session: its refresh token stops working and its access tokens are denylisted
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.sessionRepository.revoke(userId, sessionId);
+    if (!revoked) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await this.denylist.revokeSession(sessionId);
+    logger.security('Session revoked', { userId, sessionId });
+  }
+
+  /**
+   * Log a user out of every device
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const sessionIds = await this.sessionRepository.revokeAll(userId);
+    await Promise.all(sessionIds.map(sessionId => this.denylist.revokeSession(sessionId)));
+
+    logger.security('All sessions revoked', { userId, count: sessionIds.length });
+    return sessionIds.length;
+  }
+
+  private issueTokens(session: SessionRow, address: string, refreshSecret: string): AuthTokens {
+    return {
+      token: generateToken(session.userId, address, session.id),
+      refreshToken: `${session.id}.${refreshSecret}`,
+      sessionId: session.id,
+      expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000,
+      refreshExpiresAt: session.expiresAt.getTime()
+    };
+  }
+
+  private newRefreshSecret(): { secret: string; hash: string } {
+    const secret = crypto.randomBytes(32).toString('base64url');
+    return { secret, hash: this.hashSecret(secret) };
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -0,0 +1,182 @@
+import { Redis } from 'ioredis';
+import { hashMessage, Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { SiweService } from './SiweService';
+import { RpcClient } from './RpcClient';
+import { buildSiweMessage, parseSiweMessage } from '../utils/siwe';
+import { normalizeAddress } from '../utils/address';
+import { ETHEREUM_CHAIN_ID, SWELLCHAIN_CHAIN_ID } from '../utils/chains';
+
+jest.mock('../utils/logger');
+
+const WALLET = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const OTHER = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+const SAFE = '0x3333333333333333333333333333333333333333';
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+function inMemoryRedis(): Redis {
+  const values = new Map<string, string>();
+  return {
+    set: async (key: string, value: string) => {
+      values.set(key, value);
+      return 'OK';
+    },
+    multi: () => {
+      const commands: Array<() => [null, unknown]> = [];
+      const transaction = {
+        get: (key: string) => {
+          commands.push(() => [null, values.get(key) ?? null]);
+          return transaction;
+        },
+        del: (key: string) => {
+          commands.push(() => [null, values.delete(key) ? 1 : 0]);
+          return transaction;
+        },
+        exec: async () => commands.map(command => command())
+      };
+      return transaction;
+    }
+  } as unknown as Redis;
+}
+
+describe('SiweService', () => {
+  let readContract: jest.Mock;
+  let service: SiweService;
+
+  const signIn = async (account = WALLET, chainId = ETHEREUM_CHAIN_ID) => {
+    const { message } = await service.createChallenge(account.address, chainId);
+    return { message, signature: await account.signMessage({ message }) };
+  };
+
+  // Re-serialize a challenge with some fields changed; the nonce stays valid
+  const tamper = async (changes: Partial<NonNullable<ReturnType<typeof parseSiweMessage>>>) => {
+    const { message } = await service.createChallenge(WALLET.address, ETHEREUM_CHAIN_ID);
+    const tampered = buildSiweMessage({ ...parseSiweMessage(message)!, ...changes });
+    return { message: tampered, signature: await WALLET.signMessage({ message: tampered }) };
+  };
+
+  beforeEach(() => {
+    // No contract code behind EOAs; tests that need a contract wallet set a result
+    readContract = jest.fn().mockRejectedValue(new Error('execution reverted'));
+    const rpc = { toPublicClient: () => ({ readContract }) } as unknown as RpcClient;
+    service = new SiweService(inMemoryRedis(), { [ETHEREUM_CHAIN_ID]: rpc, [SWELLCHAIN_CHAIN_ID]: rpc });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('signs in the wallet that signed a fresh challenge', async () => {
+    const { message, signature } = await signIn(WALLET, SWELLCHAIN_CHAIN_ID);
+
+    await expect(service.verify(message, signature)).resolves.toMatchObject({
+      address: normalizeAddress(WALLET.address),
+      chainId: SWELLCHAIN_CHAIN_ID
+    });
+  });
+
+  describe('nonces', () => {
+    it('accepts each nonce once', async () => {
+      const { message, signature } = await signIn();
+      await service.verify(message, signature);
+
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_NONCE_INVALID' });
+    });
+
+    it('rejects a nonce issued for another address', async () => {
+      const { message } = await service.createChallenge(OTHER.address, ETHEREUM_CHAIN_ID);
+      const forged = message.replace(OTHER.address, WALLET.address);
+
+      await expect(service.verify(forged, await WALLET.signMessage({ message: forged }))).rejects.toMatchObject({ code: 'SIWE_NONCE_INVALID' });
+    });
+
+    it('rejects a nonce it never issued', async () => {
+      const { message, signature } = await tamper({ nonce: 'f'.repeat(32) });
+
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_NONCE_INVALID' });
+    });
+  });
+
+  describe('message fields', () => {
+    it('rejects a message for another domain', async () => {
+      const { message, signature } = await tamper({ domain: 'evil.example' });
+
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_DOMAIN_MISMATCH' });
+    });
+
+    it('rejects a message for another URI on the same domain', async () => {
+      const { message, signature } = await tamper({ uri: 'http://localhost:3000/phishing' });
+
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_URI_MISMATCH' });
+    });
+
+    it('rejects chains without an RPC client', async () => {
+      const { message, signature } = await tamper({ chainId: 10 });
+
+      await expect(service.createChallenge(WALLET.address, 10)).rejects.toMatchObject({ code: 'SIWE_CHAIN_UNSUPPORTED' });
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_CHAIN_UNSUPPORTED' });
+    });
+
+    it('rejects a message signed for another purpose', async () => {
+      const { message, signature } = await tamper({ statement: 'Link this wallet' });
+
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_STATEMENT_MISMATCH' });
+      await expect(service.verify(message, signature, 'Link this wallet')).resolves.toMatchObject({ chainId: ETHEREUM_CHAIN_ID });
+    });
+
+    it('rejects a message past its expiration time, allowing for clock skew', async () => {
+      const { message, signature } = await signIn();
+      const expiresAt = Date.parse(parseSiweMessage(message)!.expirationTime!);
+
+      jest.spyOn(Date, 'now').mockReturnValue(expiresAt + 2 * 60 * 1000);
+
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_MESSAGE_EXPIRED' });
+    });
+
+    it('rejects a message that is not yet valid', async () => {
+      const { message, signature } = await tamper({ notBefore: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+
+      await expect(service.verify(message, signature)).rejects.toMatchObject({ code: 'SIWE_MESSAGE_NOT_YET_VALID' });
+    });
+
+    it('rejects text that is not a SIWE message', async () => {
+      await expect(service.verify('hello', await WALLET.signMessage({ message: 'hello' }))).rejects.toMatchObject({ code: 'SIWE_MALFORMED_MESSAGE' });
+    });
+  });
+
+  describe('signatures', () => {
+    it('rejects a signature by another key and burns the nonce', async () => {
+      const { message } = await service.createChallenge(WALLET.address, ETHEREUM_CHAIN_ID);
+
+      await expect(service.verify(message, await OTHER.signMessage({ message }))).rejects.toMatchObject({ code: 'SIWE_INVALID_SIGNATURE' });
+      await expect(service.verify(message, await WALLET.signMessage({ message }))).rejects.toMatchObject({ code: 'SIWE_NONCE_INVALID' });
+    });
+
+    it('falls back to EIP-1271 for contract wallets', async () => {
+      readContract.mockResolvedValue(EIP1271_MAGIC_VALUE);
+      const { message } = await service.createChallenge(SAFE, ETHEREUM_CHAIN_ID);
+      const signature: Hex = '0xc0ffee';
+
+      await expect(service.verify(message, signature)).resolves.toMatchObject({ address: SAFE });
+      expect(readContract).toHaveBeenCalledWith(expect.objectContaining({
+        address: normalizeAddress(SAFE),
+        functionName: 'isValidSignature',
+        args: [hashMessage(message), signature]
+      }));
+    });
+
+    it('rejects a contract wallet that does not return the EIP-1271 magic value', async () => {
+      readContract.mockResolvedValue('0xffffffff');
+      const { message } = await service.createChallenge(SAFE, ETHEREUM_CHAIN_ID);
+
+      await expect(service.verify(message, '0xc0ffee')).rejects.toMatchObject({ code: 'SIWE_INVALID_SIGNATURE' });
+    });
+  });
+
+  it('checks wallet signatures outside sign-in without consuming nonces', async () => {
+    const message = 'Confirm watching this wallet';
+
+    await expect(service.verifyWalletSignature(WALLET.address, ETHEREUM_CHAIN_ID, message, await WALLET.signMessage({ message }))).resolves.toBe(true);
+    await expect(service.verifyWalletSignature(WALLET.address, 10, message, await WALLET.signMessage({ message }))).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,224 @@
+import { Redis } from 'ioredis';
+import crypto from 'crypto';
+import { hashMessage, recoverMessageAddress, Hex } from 'viem';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { AuthenticationError } from '../middleware/errorHandler';
+import { buildSiweMessage, parseSiweMessage, SiweMessageFields } from '../utils/siwe';
+import { isSameAddress, normalizeAddress } from '../utils/address';
+import { SiweChallenge, SiweVerificationResult } from '../types';
+import { RpcClient } from './RpcClient';
+
+export const SIGN_IN_STATEMENT = 'Sign in to SwellScope';
+
+const NONCE_TTL_SECONDS = 10 * 60;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// EIP-1271 isValidSignature(bytes32,bytes) magic return value
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+const EIP1271_ABI = [
+  {
+    name: 'isValidSignature',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'hash', type: 'bytes32' },
+      { name: 'signature', type: 'bytes' }
+    ],
+    outputs: [{ name: 'magicValue', type: 'bytes4' }]
+  }
+] as const;
+
+/**
+ * What a signed message authorizes. Messages signed for one purpose are rejected for any other.
+ */
+export interface SignatureRequest {
+  statement: string;
+  resources?: string[];
+}
+
+export class SiweService {
+  private redis: Redis;
+  private domain: string;
+  private uri: string;
+  private rpcClients: Record<number, RpcClient>;
+
+  constructor(redis: Redis, rpcClients: Record<number, RpcClient>) {
+    this.redis = redis;
+    this.rpcClients = rpcClients;
+
+    const origin = new URL(config.CORS_ORIGIN);
+    this.domain = config.SIWE_DOMAIN || origin.host;
+    this.uri = config.SIWE_URI || origin.origin;
+  }
+
+  /**
+   * Issue a SIWE message with a single-use nonce for the given address
+   */
+  async createChallenge(
+    address: string,
+    chainId: number,
+    request: SignatureRequest = { statement: SIGN_IN_STATEMENT }
+  ): Promise<SiweChallenge> {
+    if (!this.isSupportedChain(chainId)) {
+      throw new AuthenticationError(`Chain ${chainId} is not supported for sign-in`, 'SIWE_CHAIN_UNSUPPORTED');
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_SECONDS * 1000);
+
+    await this.redis.set(this.nonceKey(nonce), normalizeAddress(address), 'EX', NONCE_TTL_SECONDS);
+
+    const message = this.buildMessage(address, chainId, { ...request, nonce, issuedAt, expiresAt });
+    return { message, nonce, expiresAt: expiresAt.getTime() };
+  }
+
+  /**
+   * Build a SIWE message for this deployment's domain. Callers that don't go through
+   * createChallenge must make the nonce single-use themselves.
+   */
+  buildMessage(
+    address: string,
+    chainId: number,
+    request: SignatureRequest & { nonce: string; issuedAt: Date; expiresAt: Date }
+  ): string {
+    return buildSiweMessage({
+      domain: this.domain,
+      address,
+      statement: request.statement,
+      uri: this.uri,
+      version: '1',
+      chainId,
+      nonce: request.nonce,
+      issuedAt: request.issuedAt.toISOString(),
+      expirationTime: request.expiresAt.toISOString(),
+      resources: request.resources
+    });
+  }
+
+  /**
+   * Verify a signed SIWE message and consume its nonce. `statement` must match the one the
+   * challenge was issued with, so a signature collected for one purpose can't sign the wallet in.
+   * Throws AuthenticationError with a SIWE_* code on any failure.
+   */
+  async verify(message: string, signature: Hex, statement: string = SIGN_IN_STATEMENT): Promise<SiweVerificationResult> {
+    const fields = parseSiweMessage(message);
+    if (!fields) {
+      throw new AuthenticationError('Malformed sign-in message', 'SIWE_MALFORMED_MESSAGE');
+    }
+
+    this.checkFields(fields);
+
+    if (fields.statement !== statement) {
+      throw new AuthenticationError('Signed message was issued for a different purpose', 'SIWE_STATEMENT_MISMATCH');
+    }
+
+    // Consume the nonce atomically so a signed message can only be used once
+    const [[, storedAddress]] = (await this.redis.multi()
+      .get(this.nonceKey(fields.nonce))
+      .del(this.nonceKey(fields.nonce))
+      .exec()) as [[Error | null, string | null], [Error | null, number]];
+
+    if (!storedAddress) {
+      logger.security('SIWE nonce rejected', { address: fields.address, nonce: fields.nonce });
+      throw new AuthenticationError('Sign-in nonce is invalid, expired or already used', 'SIWE_NONCE_INVALID');
+    }
+
+    if (!isSameAddress(storedAddress, fields.address)) {
+      throw new AuthenticationError('Sign-in nonce was issued for a different address', 'SIWE_NONCE_INVALID');
+    }
+
+    const isValid = await this.verifySignature(fields.address, fields.chainId, message, signature);
+    if (!isValid) {
+      logger.security('SIWE signature rejected', { address: fields.address, chainId: fields.chainId });
+      throw new AuthenticationError('Invalid signature', 'SIWE_INVALID_SIGNATURE');
+    }
+
+    return {
+      address: normalizeAddress(fields.address),
+      chainId: fields.chainId,
+      nonce: fields.nonce,
+      resources: fields.resources || []
+    };
+  }
+
+  /**
+   * Check that `address` signed `message`, without any SIWE field or nonce checks
+   */
+  async verifyWalletSignature(address: string, chainId: number, message: string, signature: Hex): Promise<boolean> {
+    if (!this.isSupportedChain(chainId)) return false;
+    return this.verifySignature(address, chainId, message, signature);
+  }
+
+  private checkFields(fields: SiweMessageFields): void {
+    if (fields.domain !== this.domain) {
+      throw new AuthenticationError('Sign-in message domain does not match', 'SIWE_DOMAIN_MISMATCH');
+    }
+
+    if (fields.uri !== this.uri) {
+      throw new AuthenticationError('Sign-in message URI does not match', 'SIWE_URI_MISMATCH');
+    }
+
+    if (!this.isSupportedChain(fields.chainId)) {
+      throw new AuthenticationError(`Chain ${fields.chainId} is not supported for sign-in`, 'SIWE_CHAIN_UNSUPPORTED');
+    }
+
+    const now = Date.now();
+    const issuedAt = Date.parse(fields.issuedAt);
+    if (Number.isNaN(issuedAt) || issuedAt > now + CLOCK_SKEW_MS) {
+      throw new AuthenticationError('Sign-in message issue time is invalid', 'SIWE_MALFORMED_MESSAGE');
+    }
+
+    if (fields.expirationTime) {
+      const expiresAt = Date.parse(fields.expirationTime);
+      if (Number.isNaN(expiresAt) || expiresAt < now - CLOCK_SKEW_MS) {
+        throw new AuthenticationError('Sign-in message has expired', 'SIWE_MESSAGE_EXPIRED');
+      }
+    }
+
+    if (fields.notBefore) {
+      const notBefore = Date.parse(fields.notBefore);
+      if (Number.isNaN(notBefore) || notBefore > now + CLOCK_SKEW_MS) {
+        throw new AuthenticationError('Sign-in message is not yet valid', 'SIWE_MESSAGE_NOT_YET_VALID');
+      }
+    }
+  }
+
+  /**
+   * ECDSA recovery for EOAs, falling back to EIP-1271 for contract wallets
+   */
+  private async verifySignature(address: string, chainId: number, message: string, signature: Hex): Promise<boolean> {
+    try {
+      const recovered = await recoverMessageAddress({ message, signature });
+      if (isSameAddress(recovered, address)) {
+        return true;
+      }
+    } catch (error) {
+      // Not a valid ECDSA signature - may still be a contract wallet signature
+    }
+
+    try {
+      const result = await this.rpcClients[chainId].toPublicClient().readContract({
+        address: address as Hex,
+        abi: EIP1271_ABI,
+        functionName: 'isValidSignature',
+        args: [hashMessage(message), signature]
+      });
+
+      return result.toLowerCase() === EIP1271_MAGIC_VALUE;
+    } catch (error) {
+      logger.debug('EIP-1271 signature check failed', { address, error });
+      return false;
+    }
+  }
+
+  private isSupportedChain(chainId: number): boolean {
+    return chainId in this.rpcClients;
+  }
+
+  private nonceKey(nonce: string): string {
+    return `siwe:nonce:${nonce}`;
+  }
+}
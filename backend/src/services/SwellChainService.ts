@@ -1,6 +1,11 @@
 import { PrismaClient } from '@prisma/client';
 import { Redis } from 'ioredis';
+import { formatUnits } from 'viem';
 import { logger } from '../utils/logger';
+import { config } from '../config';
+import { CHAIN_NAMES, CONFIRMATION_DEPTHS, SWELLCHAIN_CHAIN_ID, SWELLCHAIN_CONTRACTS, TOKEN_SYMBOLS } from '../utils/chains';
+import { ChainDataRepository } from '../repositories/ChainDataRepository';
+import { ProtocolRegistry } from './protocols/ProtocolRegistry';
 import { 
   AVSMetrics, 
   ProtocolData, 
@@ -10,40 +15,43 @@ import {
   ChainConfig
 } from '../types';
 
+// L2 -> L1 withdrawals wait out the fault proof window before they can be finalized
+const WITHDRAWAL_DELAY_MS = 7 * 24 * 60 * 60 * 1000;
+
 export class SwellChainService {
   private prisma: PrismaClient;
   private redis: Redis;
+  private chainDataRepository: ChainDataRepository;
+  private protocolRegistry: ProtocolRegistry;
   private swellchainConfig: ChainConfig;
   private avsContracts: Map<string, string> = new Map();
 
-  constructor(prisma: PrismaClient, redis: Redis) {
+  constructor(
+    prisma: PrismaClient,
+    redis: Redis,
+    chainDataRepository: ChainDataRepository,
+    protocolRegistry: ProtocolRegistry
+  ) {
     this.prisma = prisma;
     this.redis = redis;
+    this.chainDataRepository = chainDataRepository;
+    this.protocolRegistry = protocolRegistry;
     
     // Initialize Swellchain configuration with real deployed addresses
     this.swellchainConfig = {
-      chainId: 1923, // Swellchain mainnet
+      chainId: SWELLCHAIN_CHAIN_ID, // Swellchain mainnet
       name: 'Swellchain',
-      rpcUrl: process.env.SWELLCHAIN_RPC_URL || 'https://swell-mainnet.alt.technology',
+      rpcUrl: config.SWELLCHAIN_RPC_URL,
       explorerUrl: 'https://swellchainscan.io',
       nativeCurrency: {
         name: 'Ether',
         symbol: 'ETH',
         decimals: 18
       },
-      contracts: {
-        // Only include contracts that actually exist
-        'MACH_SERVICE_MANAGER': '0x289dbe6573d6a1daf00110b5b1b2d8f0a34099c2', // MACH Service Manager Registry on Ethereum
-        'BRIDGE_L1': '0x758E0EE66102816F5C3Ec9ECc1188860fbb87812', // OptimismPortalProxy on Ethereum
-        'BRIDGE_L2': '0x4200000000000000000000000000000000000010', // Standard L2 Bridge
-        'NUCLEUS_BORING_VAULT': '0x9ed15383940cc380faef0a75edace507cc775f22', // Nucleus/earnETH BoringVault
-        'NUCLEUS_MANAGER': '0x69fc700226e9e12d8c5e46a4b50a78efb64f50c0', // Nucleus Manager
-        'NUCLEUS_ACCOUNTANT': '0x411c78bc8c36c3c66784514f28c56209e1df2755', // Nucleus Accountant
-        'NUCLEUS_TELLER': '0x6D207874DDc8B1C3954a0BB2b21c6Fce2Aa18Dba' // Nucleus Teller
-      },
+      contracts: SWELLCHAIN_CONTRACTS,
       isTestnet: false,
       blockTime: 2000, // 2 seconds
-      finalityBlocks: 12
+      finalityBlocks: CONFIRMATION_DEPTHS[SWELLCHAIN_CHAIN_ID].finalized
     };
 
     // Initialize only real AVS contract addresses
@@ -300,27 +308,61 @@ export class SwellChainService {
     return baseMetrics;
   }
 
+  /**
+   * Vault holdings and in-flight withdrawals from indexed chain data. Values are in ETH: vault shares
+   * are priced at the accountant's latest exchange rate.
+   */
   private async fetchUserCrossChainPositions(userAddress: string): Promise<CrossChainPosition[]> {
-    // This would fetch real cross-chain positions from Swellchain bridge and other protocols
+    const [balances, pendingMessages] = await Promise.all([
+      this.chainDataRepository.getVaultBalances(userAddress),
+      this.chainDataRepository.listBridgeMessages(userAddress, { pending: true })
+    ]);
     const positions: CrossChainPosition[] = [];
-    
-    // Example position structure based on real Swellchain assets
-    if (Math.random() > 0.7) { // 30% chance user has positions
+
+    for (const balance of balances) {
+      const rate = await this.chainDataRepository.findLatestEventArgs(balance.chainId, 'NUCLEUS_ACCOUNTANT', 'ExchangeRateUpdated');
+      const shares = Number(formatUnits(BigInt(balance.shares), 18));
+      // Before the first indexed rate update, fall back to 1:1
+      const exchangeRate = rate ? Number(formatUnits(BigInt(rate.newRate as string), 18)) : 1;
+
       positions.push({
-        id: `pos_${Date.now()}`,
+        id: `vault:${balance.chainId}:${balance.vault}:${balance.account}`,
         userId: userAddress,
-        chainId: 1, // Ethereum mainnet
-        chainName: 'Ethereum',
-        token: 'swETH',
-        amount: 1.5 + Math.random() * 30, // 1.5-31.5 swETH
-        value: (1.5 + Math.random() * 30) * 3200, // Assuming swETH price ~$3200
+        chainId: balance.chainId,
+        chainName: CHAIN_NAMES[balance.chainId] || `Chain ${balance.chainId}`,
+        token: TOKEN_SYMBOLS[balance.vault] || balance.vault,
+        amount: shares,
+        value: shares * exchangeRate,
         bridge: 'Swellchain Bridge',
         status: 'active',
-        lastUpdate: Date.now(),
+        lastUpdate: balance.lastUpdate.getTime(),
         canBridge: true,
         bridgeFee: 0.002, // 0.002 ETH bridge fee
-        estimatedTime: 180000, // 3 minutes L1->L2
-        contractAddress: this.swellchainConfig.contracts['BRIDGE_L1']
+        estimatedTime: WITHDRAWAL_DELAY_MS,
+        contractAddress: balance.vault,
+        confirmation: balance.confirmation
+      });
+    }
+
+    for (const message of pendingMessages.filter(candidate => candidate.direction === 'withdrawal')) {
+      const amount = Number(formatUnits(BigInt(message.amount), 18));
+
+      positions.push({
+        id: `bridge:${message.id}`,
+        userId: userAddress,
+        chainId: message.destinationChainId,
+        chainName: CHAIN_NAMES[message.destinationChainId] || `Chain ${message.destinationChainId}`,
+        token: message.token ? TOKEN_SYMBOLS[message.token] || message.token : 'ETH',
+        amount,
+        value: amount,
+        bridge: 'Swellchain Bridge',
+        status: 'pending',
+        lastUpdate: (message.provenAt || message.initiatedAt).getTime(),
+        canBridge: false,
+        bridgeFee: 0,
+        estimatedTime: Math.max(0, message.initiatedAt.getTime() + WITHDRAWAL_DELAY_MS - Date.now()),
+        contractAddress: this.swellchainConfig.contracts['BRIDGE_L1'],
+        confirmation: message.confirmation
       });
     }
 
@@ -367,66 +409,11 @@ export class SwellChainService {
   }
 
   private async fetchSwellchainProtocols(): Promise<ProtocolData[]> {
-    // This would fetch real protocol data from Swellchain
-    return [
-      {
-        id: 'nucleus-earneth',
-        name: 'Nucleus earnETH',
-        address: this.swellchainConfig.contracts['NUCLEUS_BORING_VAULT'],
-        tvl: 45000, // Based on real boring vault TVL
-        yield: 0.065, // 6.5% APY
-        riskScore: 0.15, // Low risk due to boring vault architecture
-        users: 850,
-        logo: 'https://app.nucleus.fi/logo.png',
-        category: 'yield-farming',
-        isActive: true,
-        chainId: this.swellchainConfig.chainId,
-        deployedAt: new Date('2024-10-01'),
-        lastUpdate: new Date()
-      },
-      {
-        id: 'swell-restaking',
-        name: 'Swell Liquid Restaking',
-        address: '0x...', // Would be real swell protocol address
-        tvl: 125000,
-        yield: 0.045,
-        riskScore: 0.25,
-        users: 2300,
-        logo: 'https://swell.network/logo.png',
-        category: 'restaking',
-        isActive: true,
-        chainId: this.swellchainConfig.chainId,
-        deployedAt: new Date('2024-01-01'),
-        lastUpdate: new Date()
-      }
-    ];
+    return this.protocolRegistry.getProtocolData();
   }
 
   private async fetchRecentTransactions(limit: number): Promise<TransactionData[]> {
-    // This would fetch real transaction data from Swellchain using RPC calls
-    const transactions: TransactionData[] = [];
-    
-    const txTypes = ['deposit', 'withdraw', 'rebalance', 'claim', 'bridge'] as const;
-    const tokens = ['ETH', 'swETH', 'rswETH', 'earnETH'];
-    
-    for (let i = 0; i < Math.min(limit, 50); i++) {
-      transactions.push({
-        id: `tx_${Date.now()}_${i}`,
-        hash: `0x${Math.random().toString(16).substr(2, 64)}`,
-        type: txTypes[Math.floor(Math.random() * txTypes.length)],
-        amount: Math.random() * 50 + 0.1, // 0.1-50 tokens
-        token: tokens[Math.floor(Math.random() * tokens.length)],
-        user: `0x${Math.random().toString(16).substr(2, 40)}`,
-        timestamp: Date.now() - Math.random() * 3600000, // Within last hour
-        status: 'confirmed',
-        gasUsed: Math.floor(Math.random() * 80000) + 21000, // 21k-101k gas
-        gasPrice: Math.floor(Math.random() * 50) + 10, // 10-60 gwei
-        blockNumber: Math.floor(Math.random() * 100000) + 8900000, // Recent blocks
-        chainId: this.swellchainConfig.chainId
-      });
-    }
-
-    return transactions.sort((a, b) => b.timestamp - a.timestamp);
+    return this.chainDataRepository.listTransactions({ chainId: this.swellchainConfig.chainId, limit });
   }
 
   private async fetchOperatorPerformance(operatorAddress: string) {
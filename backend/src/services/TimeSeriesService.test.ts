@@ -0,0 +1,193 @@
+import { PrismaClient } from '@prisma/client';
+import { chainScope, TimeSeriesService, TOTAL_SCOPE } from './TimeSeriesService';
+import { PriceService } from './PriceService';
+import { ProtocolRegistry } from './protocols/ProtocolRegistry';
+import { ChainDataRepository, TokenVolume } from '../repositories/ChainDataRepository';
+import { MetricsRepository } from '../repositories/MetricsRepository';
+import { PriceRepository } from '../repositories/PriceRepository';
+import { ETHEREUM_CHAIN_ID, SWELLCHAIN_CHAIN_ID } from '../utils/chains';
+import { MetricRollup, MetricSnapshot, MetricVolume, ProtocolData, TokenPrice } from '../types';
+
+jest.mock('../utils/logger');
+
+const MINUTE = 60 * 1000;
+const NOW = new Date('2026-03-02T12:00:30.000Z');
+
+/** Indexed amounts, already in token units */
+class InMemoryChainDataRepository extends ChainDataRepository {
+  events: Array<TokenVolume & { timestamp: Date }> = [];
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async countActiveAccounts(): Promise<{ total: number; byChain: Record<number, number> }> {
+    return { total: 0, byChain: {} };
+  }
+
+  async sumVolume(since: Date, until: Date): Promise<TokenVolume[]> {
+    const volumes = new Map<string, TokenVolume>();
+    for (const event of this.events.filter(row => row.timestamp >= since && row.timestamp < until)) {
+      const volume = volumes.get(`${event.chainId}:${event.token}`) || { chainId: event.chainId, token: event.token, amount: 0 };
+      volume.amount += event.amount;
+      volumes.set(`${event.chainId}:${event.token}`, volume);
+    }
+    return Array.from(volumes.values());
+  }
+}
+
+/** Keeps bucket sums the way the Postgres upserts do */
+class InMemoryMetricsRepository extends MetricsRepository {
+  rows = new Map<string, { scope: string; resolution: number; bucket: Date; tvlSum: number; yieldSum: number; usersSum: number; volume: number; samples: number }>();
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async record(snapshots: MetricSnapshot[], at: Date, resolutions: number[]): Promise<void> {
+    for (const snapshot of snapshots) {
+      for (const resolution of resolutions) {
+        const row = this.rowOf(snapshot.scope, resolution, new Date(Math.floor(at.getTime() / (resolution * 1000)) * resolution * 1000));
+        row.tvlSum += snapshot.tvl;
+        row.yieldSum += snapshot.yield;
+        row.usersSum += snapshot.users;
+        row.samples += 1;
+      }
+    }
+  }
+
+  async setVolumes(volumes: MetricVolume[]): Promise<void> {
+    for (const { scope, resolution, bucket, volume } of volumes) {
+      if (volume > 0 || this.rows.has(`${scope}:${resolution}:${bucket.getTime()}`)) {
+        this.rowOf(scope, resolution, bucket).volume = volume;
+      }
+    }
+  }
+
+  async listRollups(scope: string, resolution: number, since: Date): Promise<MetricRollup[]> {
+    const rows = this.rollupsOf(scope, resolution);
+    const opening = rows.filter(row => row.bucket < since && row.samples > 0).pop();
+    return [...(opening ? [opening] : []), ...rows.filter(row => row.bucket >= since)];
+  }
+
+  async findAt(scope: string, resolution: number, at: Date): Promise<MetricRollup | null> {
+    return this.rollupsOf(scope, resolution).filter(row => row.bucket <= at && row.samples > 0).pop() || null;
+  }
+
+  private rowOf(scope: string, resolution: number, bucket: Date) {
+    const key = `${scope}:${resolution}:${bucket.getTime()}`;
+    if (!this.rows.has(key)) {
+      this.rows.set(key, { scope, resolution, bucket, tvlSum: 0, yieldSum: 0, usersSum: 0, volume: 0, samples: 0 });
+    }
+    return this.rows.get(key)!;
+  }
+
+  private rollupsOf(scope: string, resolution: number): MetricRollup[] {
+    return Array.from(this.rows.values())
+      .filter(row => row.scope === scope && row.resolution === resolution)
+      .sort((a, b) => a.bucket.getTime() - b.bucket.getTime())
+      .map(row => {
+        const samples = Math.max(row.samples, 1);
+        return {
+          scope: row.scope,
+          resolution: row.resolution,
+          bucket: row.bucket,
+          tvl: row.tvlSum / samples,
+          yield: row.yieldSum / samples,
+          users: Math.round(row.usersSum / samples),
+          volume: row.volume,
+          samples: row.samples
+        };
+      });
+  }
+}
+
+/** USD prices that hold at any time */
+class FixedPriceRepository extends PriceRepository {
+  prices: Record<string, number> = {};
+
+  constructor() {
+    super({} as PrismaClient);
+  }
+
+  async findAt(symbol: string, at: Date): Promise<TokenPrice | null> {
+    return symbol in this.prices ? { symbol, price: this.prices[symbol], sources: [], sampledAt: at } : null;
+  }
+}
+
+class FixedProtocolRegistry extends ProtocolRegistry {
+  async getProtocolData(): Promise<ProtocolData[]> {
+    return [{ id: 'sweth', chainId: SWELLCHAIN_CHAIN_ID, tvl: 100, yield: 3 } as ProtocolData];
+  }
+}
+
+describe('TimeSeriesService', () => {
+  let chainData: InMemoryChainDataRepository;
+  let metrics: InMemoryMetricsRepository;
+  let prices: FixedPriceRepository;
+  let service: TimeSeriesService;
+
+  const index = (chainId: number, token: string, amount: number, timestamp: Date) => {
+    chainData.events.push({ chainId, token, amount, timestamp });
+  };
+
+  const pointAt = async (scope: string, range: '1h' | '24h', at: Date) => {
+    const resolution = range === '1h' ? MINUTE : 10 * MINUTE;
+    const bucket = Math.floor(at.getTime() / resolution) * resolution;
+    return (await service.getSeries(scope, range)).find(point => point.timestamp === bucket);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    chainData = new InMemoryChainDataRepository();
+    metrics = new InMemoryMetricsRepository();
+    prices = new FixedPriceRepository();
+    prices.prices = { ETH: 3000, swETH: 3300 };
+    service = new TimeSeriesService(metrics, chainData, new FixedProtocolRegistry(), new PriceService(prices, [], 200));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts an event indexed late in the bucket of its own timestamp', async () => {
+    await service.recordSnapshot(new Date(NOW.getTime() - 40 * MINUTE));
+    await service.recordSnapshot(NOW);
+
+    // Indexed now, after the snapshots of its minute were taken
+    const late = new Date(NOW.getTime() - 25 * MINUTE);
+    index(SWELLCHAIN_CHAIN_ID, 'ETH', 2, late);
+    await service.refreshVolume(SWELLCHAIN_CHAIN_ID, late, late);
+
+    expect(await pointAt(chainScope(SWELLCHAIN_CHAIN_ID), '1h', late)).toMatchObject({ volume: 2, tvl: 100 });
+    expect(await pointAt(chainScope(SWELLCHAIN_CHAIN_ID), '24h', late)).toMatchObject({ volume: 2, tvl: 100 });
+    expect(await pointAt(TOTAL_SCOPE, '1h', late)).toMatchObject({ volume: 2 });
+    expect(await pointAt(TOTAL_SCOPE, '1h', NOW)).toMatchObject({ volume: 0 });
+  });
+
+  it('drops rolled back events from their bucket', async () => {
+    await service.recordSnapshot(new Date(NOW.getTime() - 10 * MINUTE));
+    const at = new Date(NOW.getTime() - 5 * MINUTE);
+    index(SWELLCHAIN_CHAIN_ID, 'ETH', 1, at);
+    await service.refreshVolume(SWELLCHAIN_CHAIN_ID, at, at);
+
+    chainData.events = [];
+    await service.refreshVolume(SWELLCHAIN_CHAIN_ID, at, NOW);
+
+    expect(await pointAt(chainScope(SWELLCHAIN_CHAIN_ID), '1h', at)).toMatchObject({ volume: 0 });
+    expect(await pointAt(TOTAL_SCOPE, '24h', at)).toMatchObject({ volume: 0 });
+  });
+
+  it('prices each token in ETH before adding them up, leaving out tokens without a price', async () => {
+    await service.recordSnapshot(NOW);
+    index(SWELLCHAIN_CHAIN_ID, 'ETH', 1, NOW);
+    index(SWELLCHAIN_CHAIN_ID, 'swETH', 2, NOW);
+    index(SWELLCHAIN_CHAIN_ID, '0x1111111111111111111111111111111111111111', 1000, NOW);
+    index(ETHEREUM_CHAIN_ID, 'ETH', 1, NOW);
+
+    await service.refreshVolume(SWELLCHAIN_CHAIN_ID, NOW, NOW);
+
+    expect((await pointAt(chainScope(SWELLCHAIN_CHAIN_ID), '1h', NOW))?.volume).toBeCloseTo(3.2);
+    expect((await pointAt(TOTAL_SCOPE, '1h', NOW))?.volume).toBeCloseTo(4.2);
+  });
+});
@@ -0,0 +1,228 @@
+import { ChartDataPoint, MetricRollup, MetricSnapshot, MetricVolume, ProtocolData, TimeRange } from '../types';
+import { TIME_RANGE_DAYS } from '../schemas/common';
+import { SUBSCRIPTION_LIMITS } from '../utils/subscriptions';
+import { logger } from '../utils/logger';
+import { ChainDataRepository } from '../repositories/ChainDataRepository';
+import { MetricsRepository } from '../repositories/MetricsRepository';
+import { ProtocolRegistry } from './protocols/ProtocolRegistry';
+import { PriceService } from './PriceService';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const TOTAL_SCOPE = 'total';
+export const chainScope = (chainId: number): string => `chain:${chainId}`;
+export const protocolScope = (protocol: string): string => `protocol:${protocol}`;
+
+/** Bucket width in seconds behind each chart range */
+const RANGE_RESOLUTIONS: Record<TimeRange, number> = {
+  '1h': 60,
+  '24h': 10 * 60,
+  '7d': 60 * 60,
+  '30d': 6 * 60 * 60,
+  '90d': 24 * 60 * 60,
+  '1y': 7 * 24 * 60 * 60,
+  'all': 7 * 24 * 60 * 60
+};
+
+const RESOLUTIONS = Array.from(new Set(Object.values(RANGE_RESOLUTIONS)));
+
+// 'all' reaches as far back as the most generous plan keeps history
+const MAX_HISTORY_DAYS = Math.max(...Object.values(SUBSCRIPTION_LIMITS).map(limits => limits.historicalData));
+
+// Hourly buckets are kept for a week, long enough to look up day- and week-old values
+const LOOKUP_RESOLUTION = RANGE_RESOLUTIONS['7d'];
+
+/**
+ * Records dashboard gauges (TVL, yield and active users) once a minute and serves them as charts
+ * alongside volume. Every snapshot is folded into a bucket per resolution as it is written, so a
+ * chart reads one row per point; each resolution is kept only as long as the longest range drawn
+ * from it. Volume is summed from the indexed events by their timestamps whenever the indexer adds
+ * or rolls back events, so it lands in the bucket the events belong to however late they arrive.
+ */
+export class TimeSeriesService {
+  private metricsRepository: MetricsRepository;
+  private chainDataRepository: ChainDataRepository;
+  private protocolRegistry: ProtocolRegistry;
+  private priceService: PriceService;
+
+  constructor(
+    metricsRepository: MetricsRepository,
+    chainDataRepository: ChainDataRepository,
+    protocolRegistry: ProtocolRegistry,
+    priceService: PriceService
+  ) {
+    this.metricsRepository = metricsRepository;
+    this.chainDataRepository = chainDataRepository;
+    this.protocolRegistry = protocolRegistry;
+    this.priceService = priceService;
+  }
+
+  /**
+   * Snapshot the protocols, overall and per chain
+   */
+  async recordSnapshot(at: Date = new Date()): Promise<MetricSnapshot[]> {
+    const [protocols, accounts] = await Promise.all([
+      this.protocolRegistry.getProtocolData(),
+      this.chainDataRepository.countActiveAccounts(at)
+    ]);
+
+    const chainIds = Array.from(new Set([
+      ...protocols.map(protocol => protocol.chainId),
+      ...Object.keys(accounts.byChain).map(Number)
+    ])).sort((a, b) => a - b);
+
+    const snapshots: MetricSnapshot[] = [
+      this.snapshotOf(TOTAL_SCOPE, protocols, accounts.total),
+      ...chainIds.map(chainId => this.snapshotOf(
+        chainScope(chainId),
+        protocols.filter(protocol => protocol.chainId === chainId),
+        accounts.byChain[chainId] || 0
+      )),
+      // Activity is not attributed to protocols yet
+      ...protocols.map(protocol => this.snapshotOf(protocolScope(protocol.id), [protocol], 0))
+    ];
+    await this.metricsRepository.record(snapshots, at, RESOLUTIONS);
+
+    return snapshots;
+  }
+
+  /**
+   * Recompute the volume of `chainId` and the total in every retained bucket overlapping
+   * [since, until], after the indexer saved or rolled back events with timestamps in that span.
+   * Each bucket's tokens are priced in ETH when the bucket closes, or now while it is open; tokens
+   * without a price then are left out.
+   */
+  async refreshVolume(chainId: number, since: Date, until: Date): Promise<MetricVolume[]> {
+    const now = Date.now();
+    const prices = new Map<string, Promise<number | null>>();
+    const unpriced = new Set<string>();
+    const volumes: MetricVolume[] = [];
+    const sum = (values: Array<{ value: number }>) => values.reduce((total, { value }) => total + value, 0);
+
+    for (const resolution of RESOLUTIONS) {
+      const width = resolution * 1000;
+      const retainedFrom = now - this.retentionDays(resolution) * DAY_MS - width;
+      const first = Math.floor(Math.max(since.getTime(), retainedFrom) / width) * width;
+
+      for (let bucket = first; bucket <= until.getTime(); bucket += width) {
+        const pricedAt = Math.min(bucket + width, now);
+        const tokens = await this.chainDataRepository.sumVolume(new Date(bucket), new Date(bucket + width));
+        const values = await Promise.all(tokens.map(async volume => {
+          const price = await this.ethPriceOf(volume.token, pricedAt, prices);
+          if (price === null) unpriced.add(volume.token);
+          return { chainId: volume.chainId, value: price === null ? 0 : volume.amount * price };
+        }));
+
+        volumes.push(
+          { scope: TOTAL_SCOPE, resolution, bucket: new Date(bucket), volume: sum(values) },
+          { scope: chainScope(chainId), resolution, bucket: new Date(bucket), volume: sum(values.filter(value => value.chainId === chainId)) }
+        );
+      }
+    }
+    await this.metricsRepository.setVolumes(volumes);
+
+    if (unpriced.size > 0) {
+      logger.debug('Volume left out for tokens without a price', { tokens: Array.from(unpriced) });
+    }
+
+    return volumes;
+  }
+
+  /**
+   * A scope's chart over `timeRange`, one point per bucket. Buckets without a snapshot repeat the
+   * previous TVL, yield and users; buckets before the first snapshot are left out.
+   * 'all' spans `historyDays`.
+   */
+  async getSeries(scope: string, timeRange: TimeRange, historyDays: number = MAX_HISTORY_DAYS): Promise<ChartDataPoint[]> {
+    const resolutionMs = RANGE_RESOLUTIONS[timeRange] * 1000;
+    const days = timeRange === 'all' ? Math.min(historyDays, MAX_HISTORY_DAYS) : TIME_RANGE_DAYS[timeRange];
+    const last = Math.floor(Date.now() / resolutionMs) * resolutionMs;
+    const first = last - (Math.ceil(days * DAY_MS / resolutionMs) - 1) * resolutionMs;
+    const rollups = await this.metricsRepository.listRollups(scope, RANGE_RESOLUTIONS[timeRange], new Date(first));
+
+    const points: ChartDataPoint[] = [];
+    let carried: MetricRollup | null = null;
+    let next = 0;
+    for (let bucket = first; bucket <= last; bucket += resolutionMs) {
+      let current: MetricRollup | null = null;
+      while (next < rollups.length && rollups[next].bucket.getTime() <= bucket) {
+        const rollup = rollups[next++];
+        if (rollup.samples > 0) carried = rollup;
+        if (rollup.bucket.getTime() === bucket) current = rollup;
+      }
+      if (!carried) continue;
+
+      points.push({
+        timestamp: bucket,
+        tvl: carried.tvl,
+        yield: carried.yield,
+        users: carried.users,
+        volume: current ? current.volume : 0
+      });
+    }
+    return points;
+  }
+
+  /**
+   * A scope's hourly average at `at`, or the closest hour before it; null without history that far back
+   */
+  async getPointAt(scope: string, at: Date): Promise<ChartDataPoint | null> {
+    const rollup = await this.metricsRepository.findAt(scope, LOOKUP_RESOLUTION, at);
+    if (!rollup) return null;
+
+    return {
+      timestamp: rollup.bucket.getTime(),
+      tvl: rollup.tvl,
+      yield: rollup.yield,
+      users: rollup.users,
+      volume: rollup.volume
+    };
+  }
+
+  /**
+   * Drop buckets no chart range reaches anymore; returns how many were removed
+   */
+  async prune(): Promise<number> {
+    let pruned = 0;
+    for (const resolution of RESOLUTIONS) {
+      // One bucket of slack keeps the bucket a window opens in
+      const before = Date.now() - this.retentionDays(resolution) * DAY_MS - resolution * 1000;
+      pruned += await this.metricsRepository.deleteBefore(resolution, new Date(before));
+    }
+    return pruned;
+  }
+
+  private retentionDays(resolution: number): number {
+    const ranges = (Object.keys(RANGE_RESOLUTIONS) as TimeRange[]).filter(range => RANGE_RESOLUTIONS[range] === resolution);
+    return Math.max(...ranges.map(range => range === 'all' ? MAX_HISTORY_DAYS : TIME_RANGE_DAYS[range]));
+  }
+
+  /**
+   * ETH per `symbol` at `at`, memoized per refresh; null without a price for the token or for ETH
+   */
+  private ethPriceOf(symbol: string, at: number, memo: Map<string, Promise<number | null>>): Promise<number | null> {
+    const key = `${symbol}:${at}`;
+    if (!memo.has(key)) {
+      memo.set(key, (async () => {
+        const [token, eth] = await Promise.all([
+          this.priceService.getPrice(symbol, new Date(at)),
+          this.priceService.getPrice('ETH', new Date(at))
+        ]);
+        return token && eth ? token.price / eth.price : null;
+      })());
+    }
+    return memo.get(key) as Promise<number | null>;
+  }
+
+  private snapshotOf(scope: string, protocols: ProtocolData[], users: number): MetricSnapshot {
+    const tvl = protocols.reduce((sum, protocol) => sum + protocol.tvl, 0);
+    return {
+      scope,
+      tvl,
+      // TVL-weighted, in percent
+      yield: tvl > 0 ? protocols.reduce((sum, protocol) => sum + protocol.yield * protocol.tvl, 0) / tvl : 0,
+      users
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { Redis } from 'ioredis';
+
+/**
+ * Redis-backed denylist for access tokens that must stop working before they expire.
+ * Entries only need to live as long as the longest-lived access token.
+ */
+export class TokenDenylist {
+  private redis: Redis;
+  private ttlSeconds: number;
+
+  constructor(redis: Redis, ttlSeconds: number) {
+    this.redis = redis;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Reject every access token issued for a session
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.redis.setex(this.sessionKey(sessionId), this.ttlSeconds, '1');
+  }
+
+  /**
+   * Reject a single access token by its jti
+   */
+  async revokeToken(jti: string, expiresAtSeconds: number): Promise<void> {
+    const ttl = Math.max(1, expiresAtSeconds - Math.floor(Date.now() / 1000));
+    await this.redis.setex(this.tokenKey(jti), ttl, '1');
+  }
+
+  async isRevoked(sessionId: string, jti: string): Promise<boolean> {
+    const [session, token] = await this.redis.mget(this.sessionKey(sessionId), this.tokenKey(jti));
+    return Boolean(session || token);
+  }
+
+  private sessionKey(sessionId: string): string {
+    return `auth:denylist:session:${sessionId}`;
+  }
+
+  private tokenKey(jti: string): string {
+    return `auth:denylist:token:${jti}`;
+  }
+}
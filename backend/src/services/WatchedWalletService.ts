@@ -0,0 +1,189 @@
+import { logger } from '../utils/logger';
+import { isSameAddress, normalizeAddress } from '../utils/address';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { WatchedWalletInput, WatchedWalletRepository, WatchedWalletUpdate } from '../repositories/WatchedWalletRepository';
+import { PositionRepository } from '../repositories/PositionRepository';
+import { RiskService } from './RiskService';
+import { SwellChainService } from './SwellChainService';
+import {
+  AggregatedCrossChainPositions,
+  AggregatedPortfolio,
+  AggregatedRiskMetrics,
+  Position,
+  User,
+  WalletPortfolioSummary,
+  WatchedWallet
+} from '../types';
+
+type Account = Pick<User, 'id' | 'address'>;
+
+interface WalletRef {
+  address: string;
+  label?: string;
+  group?: string;
+  primary: boolean;
+}
+
+const share = (value: number, total: number): number => total > 0 ? value / total : 0;
+
+/**
+ * Totals over a set of positions; yield and risk are weighted by position value
+ */
+const summarize = (positions: Position[]) => {
+  const totalValue = positions.reduce((sum, pos) => sum + pos.value, 0);
+
+  return {
+    totalValue,
+    totalStaked: positions.reduce((sum, pos) => sum + pos.amount, 0),
+    totalEarnings: positions.reduce((sum, pos) => sum + pos.earnings, 0),
+    averageYield: share(positions.reduce((sum, pos) => sum + pos.apy * pos.value, 0), totalValue),
+    riskScore: share(positions.reduce((sum, pos) => sum + pos.riskScore * pos.value, 0), totalValue)
+  };
+};
+
+/**
+ * Watch-only wallets and the aggregated views built from them. An aggregate covers the account's
+ * own wallet plus everything it watches, or only the watched wallets of one group.
+ */
+export class WatchedWalletService {
+  private watchedWalletRepository: WatchedWalletRepository;
+  private positionRepository: PositionRepository;
+  private riskService: RiskService;
+  private swellChainService: SwellChainService;
+
+  constructor(
+    watchedWalletRepository: WatchedWalletRepository,
+    positionRepository: PositionRepository,
+    riskService: RiskService,
+    swellChainService: SwellChainService
+  ) {
+    this.watchedWalletRepository = watchedWalletRepository;
+    this.positionRepository = positionRepository;
+    this.riskService = riskService;
+    this.swellChainService = swellChainService;
+  }
+
+  async listWallets(userId: string, group?: string): Promise<WatchedWallet[]> {
+    return this.watchedWalletRepository.listForUser(userId, group);
+  }
+
+  async addWallet(account: Account, input: WatchedWalletInput): Promise<WatchedWallet> {
+    if (isSameAddress(account.address, input.address)) {
+      throw new ValidationError('Your own wallet is always part of your portfolio and cannot be watched');
+    }
+    if (await this.watchedWalletRepository.find(account.id, input.address)) {
+      throw new ConflictError('Wallet is already watched');
+    }
+
+    const wallet = await this.watchedWalletRepository.create(account.id, input);
+    logger.info('Watched wallet added', { userId: account.id, address: wallet.address });
+    return wallet;
+  }
+
+  async updateWallet(userId: string, address: string, updates: WatchedWalletUpdate): Promise<WatchedWallet> {
+    const wallet = await this.watchedWalletRepository.update(userId, address, updates);
+    if (!wallet) {
+      throw new NotFoundError('Watched wallet not found');
+    }
+
+    return wallet;
+  }
+
+  async removeWallet(userId: string, address: string): Promise<void> {
+    const removed = await this.watchedWalletRepository.delete(userId, address);
+    if (!removed) {
+      throw new NotFoundError('Watched wallet not found');
+    }
+    logger.info('Watched wallet removed', { userId, address: normalizeAddress(address) });
+  }
+
+  async getPortfolio(account: Account, group?: string): Promise<AggregatedPortfolio> {
+    const [wallets, allPositions] = await Promise.all([
+      this.resolveWallets(account, group),
+      this.positionRepository.listForUser(account.id, { isActive: true })
+    ]);
+
+    const byWallet = wallets.map(wallet => allPositions.filter(pos => wallet.primary
+      ? !pos.walletAddress
+      : isSameAddress(pos.walletAddress, wallet.address)));
+    const positions = byWallet.flat();
+    const totals = summarize(positions);
+
+    const summaries: WalletPortfolioSummary[] = wallets.map((wallet, index) => {
+      const walletTotals = summarize(byWallet[index]);
+      return {
+        ...wallet,
+        ...walletTotals,
+        share: share(walletTotals.totalValue, totals.totalValue),
+        positionCount: byWallet[index].length
+      };
+    });
+
+    return { group, ...totals, positions, wallets: summaries };
+  }
+
+  /**
+   * Risk across the wallets as a single book, so concentration reflects the whole group
+   */
+  async getRiskMetrics(account: Account, group?: string): Promise<AggregatedRiskMetrics> {
+    const wallets = await this.resolveWallets(account, group);
+    const { metrics, wallets: scores } = await this.riskService.getAggregateRiskMetrics(
+      account.address,
+      wallets.map(wallet => wallet.address)
+    );
+
+    const totalValue = scores.reduce((sum, score) => sum + score.value, 0);
+    return {
+      group,
+      metrics,
+      wallets: wallets.map((wallet, index) => ({
+        ...wallet,
+        totalValue: scores[index].value,
+        share: share(scores[index].value, totalValue),
+        overallRiskScore: scores[index].overallRiskScore,
+        riskLevel: scores[index].riskLevel
+      }))
+    };
+  }
+
+  async getCrossChainPositions(account: Account, group?: string): Promise<AggregatedCrossChainPositions> {
+    const wallets = await this.resolveWallets(account, group);
+    const byWallet = await Promise.all(wallets.map(async wallet => {
+      const positions = await this.swellChainService.getCrossChainPositions(wallet.address);
+      return positions.map(pos => ({ ...pos, walletAddress: wallet.address }));
+    }));
+
+    const walletValues = byWallet.map(positions => positions.reduce((sum, pos) => sum + pos.value, 0));
+    const totalValue = walletValues.reduce((sum, value) => sum + value, 0);
+
+    return {
+      group,
+      totalValue,
+      positions: byWallet.flat(),
+      wallets: wallets.map((wallet, index) => ({
+        ...wallet,
+        totalValue: walletValues[index],
+        share: share(walletValues[index], totalValue)
+      }))
+    };
+  }
+
+  private async resolveWallets(account: Account, group?: string): Promise<WalletRef[]> {
+    const watched = await this.watchedWalletRepository.listForUser(account.id, group);
+    const refs = watched.map(wallet => ({
+      address: wallet.address,
+      label: wallet.label,
+      group: wallet.group,
+      primary: false
+    }));
+
+    if (group === undefined) {
+      return [{ address: normalizeAddress(account.address), primary: true }, ...refs];
+    }
+    if (refs.length === 0) {
+      throw new NotFoundError(`No watched wallets in group ${group}`);
+    }
+
+    return refs;
+  }
+}
@@ -1,18 +1,44 @@
 import { Server } from 'socket.io';
 import { logger } from '../utils/logger';
-import { WebSocketMessage, SubscriptionData, RiskAlert, PortfolioData, AVSMetrics } from '../types';
+import { AuthMiddleware } from '../middleware/auth';
+import { isSameAddress, normalizeAddress } from '../utils/address';
+import {
+  WebSocketMessage,
+  SubscriptionData,
+  SubscriptionDeniedCode,
+  SubscriptionDeniedEvent,
+  RiskAlert,
+  PortfolioData,
+  AVSMetrics
+} from '../types';
+
+/**
+ * Decides whether a user may follow another address's private feeds (e.g. organization wallets)
+ */
+export type AddressAuthorizer = (user: { id: string; address: string }, address: string) => Promise<boolean>;
+
+// Subscription types whose rooms carry a single address's private data
+const PRIVATE_SUBSCRIPTIONS = new Set<SubscriptionData['type']>(['risk_updates', 'portfolio_updates']);
 
 export class WebSocketService {
   private io: Server;
+  private verifyAccessToken: AuthMiddleware['verifyAccessToken'];
+  private addressAuthorizer?: AddressAuthorizer;
   private connectedClients: Map<string, {
     socketId: string;
     userId?: string;
+    address?: string;
+    token?: string;
+    tokenExpiresAt?: number;
+    expiryTimer?: NodeJS.Timeout;
     subscriptions: Set<string>;
     connectedAt: number;
   }> = new Map();
 
-  constructor(io: Server) {
+  constructor(io: Server, verifyAccessToken: AuthMiddleware['verifyAccessToken'], addressAuthorizer?: AddressAuthorizer) {
     this.io = io;
+    this.verifyAccessToken = verifyAccessToken;
+    this.addressAuthorizer = addressAuthorizer;
     this.setupSocketHandlers();
   }
 
@@ -32,6 +58,12 @@ export class WebSocketService {
 
       logger.info(`WebSocket client connected: ${clientId}`);
 
+      // Accept a token supplied during the handshake
+      const handshakeToken = socket.handshake.auth?.token;
+      if (typeof handshakeToken === 'string') {
+        this.handleAuthentication(clientId, { token: handshakeToken });
+      }
+
       // Handle client subscription
       socket.on('subscribe', (data: SubscriptionData) => {
         this.handleSubscription(clientId, data);
@@ -43,7 +75,7 @@ export class WebSocketService {
       });
 
       // Handle client authentication
-      socket.on('authenticate', (data: { userId: string; token: string }) => {
+      socket.on('authenticate', (data: { token: string }) => {
         this.handleAuthentication(clientId, data);
       });
 
@@ -67,41 +99,51 @@ export class WebSocketService {
   /**
    * Handle client subscription to data feeds
    */
-  private handleSubscription(clientId: string, data: SubscriptionData): void {
+  private async handleSubscription(clientId: string, data: SubscriptionData): Promise<void> {
     const client = this.connectedClients.get(clientId);
     if (!client) return;
 
-    const { type, address, filters } = data;
-    let roomName: string;
+    const { type, address, filters } = data || ({} as SubscriptionData);
+    const roomName = this.getRoomName(type, address);
 
-    switch (type) {
-      case 'risk_updates':
-        if (!address) {
-          logger.warn(`Risk updates subscription requires address for client ${clientId}`);
-          return;
-        }
-        roomName = `risk_${address}`;
-        break;
+    if (roomName === null) {
+      logger.warn(`Unknown subscription type: ${type} for client ${clientId}`);
+      this.denySubscription(clientId, data, 'UNKNOWN_SUBSCRIPTION', `Unknown subscription type: ${type}`);
+      return;
+    }
 
-      case 'portfolio_updates':
-        if (!address) {
-          logger.warn(`Portfolio updates subscription requires address for client ${clientId}`);
-          return;
-        }
-        roomName = `portfolio_${address}`;
-        break;
+    if (PRIVATE_SUBSCRIPTIONS.has(type)) {
+      if (!address) {
+        this.denySubscription(clientId, data, 'ADDRESS_REQUIRED', `${type} subscription requires an address`);
+        return;
+      }
 
-      case 'avs_updates':
-        roomName = 'avs_updates';
-        break;
+      if (!client.userId || !client.address) {
+        this.denySubscription(clientId, data, 'AUTHENTICATION_REQUIRED', 'Authenticate before subscribing to private feeds');
+        return;
+      }
 
-      case 'market_data':
-        roomName = 'market_data';
-        break;
+      if (client.tokenExpiresAt && client.tokenExpiresAt <= Date.now()) {
+        this.denySubscription(clientId, data, 'TOKEN_EXPIRED', 'Authentication token has expired, re-authenticate to subscribe');
+        return;
+      }
 
-      default:
-        logger.warn(`Unknown subscription type: ${type} for client ${clientId}`);
+      if (!(await this.verifyAccessToken(client.token as string).catch(() => null))) {
+        this.revokeAuthentication(clientId, 'TOKEN_REVOKED', 'Session has been revoked');
+        this.denySubscription(clientId, data, 'AUTHENTICATION_REQUIRED', 'Authenticate before subscribing to private feeds');
         return;
+      }
+
+      if (!(await this.canAccessAddress(client.userId, client.address, address))) {
+        logger.security('WebSocket subscription to foreign address denied', {
+          clientId,
+          userId: client.userId,
+          type,
+          address
+        });
+        this.denySubscription(clientId, data, 'ADDRESS_NOT_AUTHORIZED', 'Not authorized to subscribe to this address');
+        return;
+      }
     }
 
     // Join the room
@@ -137,25 +179,9 @@ export class WebSocketService {
     const client = this.connectedClients.get(clientId);
     if (!client) return;
 
-    const { type, address } = data;
-    let roomName: string;
-
-    switch (type) {
-      case 'risk_updates':
-        roomName = `risk_${address}`;
-        break;
-      case 'portfolio_updates':
-        roomName = `portfolio_${address}`;
-        break;
-      case 'avs_updates':
-        roomName = 'avs_updates';
-        break;
-      case 'market_data':
-        roomName = 'market_data';
-        break;
-      default:
-        return;
-    }
+    const { type, address } = data || ({} as SubscriptionData);
+    const roomName = this.getRoomName(type, address);
+    if (roomName === null) return;
 
     const socket = this.io.sockets.sockets.get(clientId);
     if (socket) {
@@ -173,24 +199,204 @@ export class WebSocketService {
   }
 
   /**
-   * Handle client authentication
+   * Handle client authentication by validating the access token
    */
-  private handleAuthentication(clientId: string, data: { userId: string; token: string }): void {
+  private async handleAuthentication(clientId: string, data: { token: string }): Promise<void> {
     const client = this.connectedClients.get(clientId);
     if (!client) return;
 
-    // In a real implementation, you would validate the token
-    // For now, we'll just store the user ID
-    client.userId = data.userId;
-
-    logger.info(`Client ${clientId} authenticated as user ${data.userId}`);
-
     const socket = this.io.sockets.sockets.get(clientId);
-    if (socket) {
-      socket.emit('authentication_confirmed', {
-        userId: data.userId,
+    const decoded = data?.token ? await this.verifyAccessToken(data.token).catch(() => null) : null;
+
+    if (!decoded) {
+      logger.security(`WebSocket authentication failed for client ${clientId}`);
+      // A failed re-authentication ends the previous identity too
+      this.clearAuthentication(clientId);
+      socket?.emit('authentication_failed', {
+        code: 'INVALID_TOKEN',
+        message: 'Invalid or revoked authentication token',
         timestamp: Date.now()
       });
+      return;
+    }
+
+    // Drop private rooms held under a previous identity
+    if (client.userId && client.userId !== decoded.userId) {
+      this.leavePrivateRooms(clientId);
+    }
+
+    client.userId = decoded.userId;
+    client.address = normalizeAddress(decoded.address);
+    client.token = data.token;
+    client.tokenExpiresAt = decoded.exp * 1000;
+
+    clearTimeout(client.expiryTimer);
+    client.expiryTimer = setTimeout(() => {
+      this.revokeAuthentication(clientId, 'TOKEN_EXPIRED', 'Authentication token has expired, re-authenticate to keep private feeds');
+    }, Math.max(0, client.tokenExpiresAt - Date.now()));
+    client.expiryTimer.unref();
+
+    logger.info(`Client ${clientId} authenticated as user ${decoded.userId}`);
+
+    socket?.emit('authentication_confirmed', {
+      userId: decoded.userId,
+      address: client.address,
+      expiresAt: client.tokenExpiresAt,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Forget the client's identity and leave its private rooms
+   */
+  private clearAuthentication(clientId: string): void {
+    const client = this.connectedClients.get(clientId);
+    if (!client) return;
+
+    this.leavePrivateRooms(clientId);
+    clearTimeout(client.expiryTimer);
+    client.userId = undefined;
+    client.address = undefined;
+    client.token = undefined;
+    client.tokenExpiresAt = undefined;
+    client.expiryTimer = undefined;
+  }
+
+  /**
+   * End an authenticated identity that is no longer valid and tell the client why
+   */
+  private revokeAuthentication(clientId: string, code: 'TOKEN_EXPIRED' | 'TOKEN_REVOKED', message: string): void {
+    const client = this.connectedClients.get(clientId);
+    if (!client?.userId) return;
+
+    logger.security(`WebSocket authentication revoked for client ${clientId}`, { userId: client.userId, code });
+    this.clearAuthentication(clientId);
+    this.io.sockets.sockets.get(clientId)?.emit('authentication_revoked', { code, message, timestamp: Date.now() });
+  }
+
+  /**
+   * Private feeds are limited to the authenticated address and addresses the user can reach
+   * through an organization
+   */
+  private async canAccessAddress(userId: string, ownAddress: string, address: string): Promise<boolean> {
+    if (isSameAddress(ownAddress, address)) {
+      return true;
+    }
+
+    if (!this.addressAuthorizer) {
+      return false;
+    }
+
+    try {
+      return await this.addressAuthorizer({ id: userId, address: ownAddress }, normalizeAddress(address));
+    } catch (error) {
+      logger.error(`Error checking address delegation for user ${userId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Emit to the clients in a private room that are still allowed to read `address`. Access is
+   * re-checked on every emit, so a revoked session or a removed organization membership stops
+   * the feed; clients that fail the check lose the room (or their identity).
+   */
+  private async emitPrivate(roomName: string, address: string, event: string, payload: unknown): Promise<void> {
+    const clientIds = Array.from(this.io.sockets.adapter.rooms.get(roomName) || []);
+
+    await Promise.all(clientIds.map(async clientId => {
+      if (await this.isStillAuthorized(clientId, roomName, address)) {
+        this.io.sockets.sockets.get(clientId)?.emit(event, payload);
+      }
+    }));
+  }
+
+  private async isStillAuthorized(clientId: string, roomName: string, address: string): Promise<boolean> {
+    const client = this.connectedClients.get(clientId);
+    const token = client?.token;
+    if (!client || !token || !client.userId || !client.address) {
+      this.leaveRoom(clientId, roomName);
+      return false;
+    }
+
+    const decoded = await this.verifyAccessToken(token).catch(() => null);
+    // The client re-authenticated while we were checking; its new identity gets the next emit
+    if (client.token !== token) return false;
+
+    if (!decoded) {
+      const expired = client.tokenExpiresAt !== undefined && client.tokenExpiresAt <= Date.now();
+      this.revokeAuthentication(
+        clientId,
+        expired ? 'TOKEN_EXPIRED' : 'TOKEN_REVOKED',
+        expired ? 'Authentication token has expired, re-authenticate to keep private feeds' : 'Session has been revoked'
+      );
+      return false;
+    }
+
+    if (!(await this.canAccessAddress(client.userId, client.address, address))) {
+      logger.security('WebSocket access to address withdrawn', { clientId, userId: client.userId, roomName });
+      this.leaveRoom(clientId, roomName);
+
+      const event: SubscriptionDeniedEvent = {
+        type: roomName.startsWith('risk_') ? 'risk_updates' : 'portfolio_updates',
+        address,
+        code: 'ADDRESS_NOT_AUTHORIZED',
+        message: 'No longer authorized to follow this address',
+        timestamp: Date.now()
+      };
+      this.io.sockets.sockets.get(clientId)?.emit('subscription_revoked', event);
+      return false;
+    }
+
+    return true;
+  }
+
+  private leaveRoom(clientId: string, roomName: string): void {
+    this.io.sockets.sockets.get(clientId)?.leave(roomName);
+    this.connectedClients.get(clientId)?.subscriptions.delete(roomName);
+  }
+
+  private denySubscription(clientId: string, data: SubscriptionData, code: SubscriptionDeniedCode, message: string): void {
+    const socket = this.io.sockets.sockets.get(clientId);
+    if (!socket) return;
+
+    const event: SubscriptionDeniedEvent = {
+      type: data?.type,
+      address: data?.address,
+      code,
+      message,
+      timestamp: Date.now()
+    };
+
+    socket.emit('subscription_denied', event);
+  }
+
+  private leavePrivateRooms(clientId: string): void {
+    const client = this.connectedClients.get(clientId);
+    const socket = this.io.sockets.sockets.get(clientId);
+    if (!client || !socket) return;
+
+    for (const roomName of Array.from(client.subscriptions)) {
+      if (roomName.startsWith('risk_0x') || roomName.startsWith('portfolio_0x')) {
+        this.leaveRoom(clientId, roomName);
+      }
+    }
+  }
+
+  /**
+   * Room name for a subscription; address rooms are keyed by the lowercased address
+   */
+  private getRoomName(type: SubscriptionData['type'], address?: string): string | null {
+    switch (type) {
+      case 'risk_updates':
+        return `risk_${normalizeAddress(address || '')}`;
+      case 'portfolio_updates':
+        return `portfolio_${normalizeAddress(address || '')}`;
+      case 'avs_updates':
+        return 'avs_updates';
+      case 'market_data':
+        return 'market_data';
+      default:
+        return null;
     }
   }
 
@@ -201,6 +407,7 @@ export class WebSocketService {
     const client = this.connectedClients.get(clientId);
     if (client) {
       const connectionDuration = Date.now() - client.connectedAt;
+      clearTimeout(client.expiryTimer);
       
       logger.info(`WebSocket client disconnected: ${clientId}`, {
         clientId,
@@ -264,7 +471,7 @@ export class WebSocketService {
    * Broadcast risk alert to subscribed clients
    */
   async broadcastRiskAlert(userAddress: string, alert: RiskAlert): Promise<void> {
-    const roomName = `risk_${userAddress}`;
+    const roomName = this.getRoomName('risk_updates', userAddress) as string;
     
     logger.info(`Broadcasting risk alert to room ${roomName}`, {
       alertId: alert.id,
@@ -272,7 +479,7 @@ export class WebSocketService {
       type: alert.type
     });
 
-    this.io.to(roomName).emit('risk:alert', {
+    await this.emitPrivate(roomName, userAddress, 'risk:alert', {
       type: 'risk_alert',
       data: alert,
       timestamp: Date.now()
@@ -283,14 +490,14 @@ export class WebSocketService {
    * Broadcast portfolio update to subscribed clients
    */
   async broadcastPortfolioUpdate(userAddress: string, portfolioData: Partial<PortfolioData>): Promise<void> {
-    const roomName = `portfolio_${userAddress}`;
+    const roomName = this.getRoomName('portfolio_updates', userAddress) as string;
     
     logger.info(`Broadcasting portfolio update to room ${roomName}`, {
       userAddress,
       updateFields: Object.keys(portfolioData)
     });
 
-    this.io.to(roomName).emit('portfolio:update', {
+    await this.emitPrivate(roomName, userAddress, 'portfolio:update', {
       type: 'portfolio_update',
       data: portfolioData,
       timestamp: Date.now()
@@ -331,14 +538,14 @@ export class WebSocketService {
    * Broadcast rebalance completion to user
    */
   async broadcastRebalanceComplete(userAddress: string, rebalanceData: any): Promise<void> {
-    const roomName = `portfolio_${userAddress}`;
+    const roomName = this.getRoomName('portfolio_updates', userAddress) as string;
     
     logger.info(`Broadcasting rebalance completion to room ${roomName}`, {
       userAddress,
       rebalanceId: rebalanceData.id
     });
 
-    this.io.to(roomName).emit('portfolio:rebalance_complete', {
+    await this.emitPrivate(roomName, userAddress, 'portfolio:rebalance_complete', {
       type: 'rebalance_complete',
       data: rebalanceData,
       timestamp: Date.now()
@@ -357,15 +564,13 @@ export class WebSocketService {
     // Broadcast to all users monitoring this validator
     const affectedUsers = slashingEvent.affectedUsers || [];
     
-    for (const userAddress of affectedUsers) {
-      const roomName = `risk_${userAddress}`;
-      
-      this.io.to(roomName).emit('risk:slashing_event', {
+    await Promise.all(affectedUsers.map((userAddress: string) =>
+      this.emitPrivate(this.getRoomName('risk_updates', userAddress) as string, userAddress, 'risk:slashing_event', {
         type: 'slashing_event',
         data: slashingEvent,
         timestamp: Date.now()
-      });
-    }
+      })
+    ));
 
     // Also broadcast to general AVS room
     this.io.to('avs_updates').emit('avs:slashing_event', {
@@ -428,13 +633,13 @@ export class WebSocketService {
   }
 
   /**
-   * Broadcast price updates to market data subscribers
+   * Broadcast price updates to market data subscribers. Prices are in USD; change24h is a
+   * percentage, null without a price from a day ago.
    */
   async broadcastPriceUpdate(priceData: {
     symbol: string;
     price: number;
-    change24h: number;
-    volume24h: number;
+    change24h: number | null;
   }): Promise<void> {
     const roomName = 'market_data';
     
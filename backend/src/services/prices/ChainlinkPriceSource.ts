@@ -0,0 +1,52 @@
+import { formatUnits, Hex, parseAbi, PublicClient } from 'viem';
+import { MULTICALL3_ADDRESS } from '../../utils/chains';
+import { RpcClient } from '../RpcClient';
+import { PriceFeed, PriceQuote } from '../../types';
+import { PriceSource } from './PriceSource';
+
+const AGGREGATOR_ABI = parseAbi([
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() view returns (uint8)'
+]);
+
+/**
+ * Chainlink-style aggregators (AggregatorV3Interface), read in one multicall. A feed whose
+ * answer is not positive is skipped.
+ */
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = 'chainlink';
+  private client: PublicClient;
+  private feeds: PriceFeed[];
+
+  constructor(rpc: RpcClient, feeds: PriceFeed[]) {
+    this.client = rpc.toPublicClient();
+    this.feeds = feeds;
+  }
+
+  async getQuotes(): Promise<PriceQuote[]> {
+    if (this.feeds.length === 0) return [];
+
+    const results = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL3_ADDRESS as Hex,
+      contracts: this.feeds.flatMap(feed => [
+        { address: feed.address as Hex, abi: AGGREGATOR_ABI, functionName: 'latestRoundData' },
+        { address: feed.address as Hex, abi: AGGREGATOR_ABI, functionName: 'decimals' }
+      ] as const)
+    });
+
+    return this.feeds.flatMap((feed, index) => {
+      const [, answer, , updatedAt] = results[index * 2] as readonly [bigint, bigint, bigint, bigint, bigint];
+      const decimals = results[index * 2 + 1] as number;
+      if (answer <= 0n) return [];
+
+      return [{
+        source: this.name,
+        symbol: feed.symbol,
+        quote: feed.quote,
+        price: Number(formatUnits(answer, decimals)),
+        updatedAt: new Date(Number(updatedAt) * 1000)
+      }];
+    });
+  }
+}
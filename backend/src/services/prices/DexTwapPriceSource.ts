@@ -0,0 +1,77 @@
+import { Hex, parseAbi, PublicClient } from 'viem';
+import { logger } from '../../utils/logger';
+import { normalizeAddress } from '../../utils/address';
+import { MULTICALL3_ADDRESS } from '../../utils/chains';
+import { RpcClient } from '../RpcClient';
+import { PeggedToken } from '../DepegMonitor';
+import { PriceQuote } from '../../types';
+import { PriceSource } from './PriceSource';
+
+const POOL_ABI = parseAbi([
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+  'function token0() view returns (address)'
+]);
+
+/**
+ * Time-weighted average tick over a window, rounded towards negative infinity like Uniswap's OracleLibrary
+ */
+export function averageTick(tickCumulatives: readonly bigint[], windowSeconds: number): number {
+  const delta = tickCumulatives[1] - tickCumulatives[0];
+  const window = BigInt(windowSeconds);
+  let tick = delta / window;
+  if (delta < 0n && delta % window !== 0n) tick--;
+  return Number(tick);
+}
+
+/**
+ * TWAPs of the Uniswap V3 token/WETH pools the depeg monitor watches, in ETH per token, over a window
+ * of their own. A pool whose observation history is shorter than the window is skipped.
+ */
+export class DexTwapPriceSource implements PriceSource {
+  readonly name = 'dex-twap';
+  private client: PublicClient;
+  private tokens: PeggedToken[];
+  private windowSeconds: number;
+
+  constructor(rpc: RpcClient, tokens: PeggedToken[], windowSeconds: number) {
+    this.client = rpc.toPublicClient();
+    this.tokens = tokens;
+    this.windowSeconds = windowSeconds;
+  }
+
+  async getQuotes(): Promise<PriceQuote[]> {
+    if (this.tokens.length === 0) return [];
+
+    const results = await this.client.multicall({
+      allowFailure: true,
+      multicallAddress: MULTICALL3_ADDRESS as Hex,
+      contracts: this.tokens.flatMap(token => [
+        { address: token.pool as Hex, abi: POOL_ABI, functionName: 'observe', args: [[this.windowSeconds, 0]] },
+        { address: token.pool as Hex, abi: POOL_ABI, functionName: 'token0' }
+      ] as const)
+    });
+    const now = new Date();
+
+    return this.tokens.flatMap((token, index) => {
+      const observation = results[index * 2];
+      const token0 = results[index * 2 + 1];
+      if (observation.status === 'failure' || token0.status === 'failure') {
+        logger.warn(`TWAP unavailable for ${token.symbol}`, { pool: token.pool });
+        return [];
+      }
+
+      const [tickCumulatives] = observation.result as readonly [readonly bigint[], readonly bigint[]];
+      const tick = averageTick(tickCumulatives, this.windowSeconds);
+      // 1.0001^tick is token1 per token0; both sides have 18 decimals
+      const tokenIsToken0 = normalizeAddress(token0.result as string) === normalizeAddress(token.token);
+
+      return [{
+        source: this.name,
+        symbol: token.symbol,
+        quote: 'ETH' as const,
+        price: Math.pow(1.0001, tokenIsToken0 ? tick : -tick),
+        updatedAt: now
+      }];
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { PriceFixture, PriceQuote } from '../../types';
+import { PriceSource } from './PriceSource';
+
+/**
+ * Fixed prices from PRICE_FIXTURES, for local development and test networks without feeds
+ */
+export class FixturePriceSource implements PriceSource {
+  readonly name = 'fixture';
+  private fixtures: PriceFixture[];
+
+  constructor(fixtures: PriceFixture[]) {
+    this.fixtures = fixtures;
+  }
+
+  async getQuotes(): Promise<PriceQuote[]> {
+    const now = new Date();
+    return this.fixtures.map(fixture => ({ source: this.name, symbol: fixture.symbol, quote: fixture.quote, price: fixture.price, updatedAt: now }));
+  }
+}
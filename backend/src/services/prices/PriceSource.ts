@@ -0,0 +1,10 @@
+import { PriceQuote } from '../../types';
+
+/**
+ * One place token prices come from, quoting every token it covers in USD or ETH. The price service
+ * converts and aggregates.
+ */
+export interface PriceSource {
+  readonly name: string;
+  getQuotes(): Promise<PriceQuote[]>;
+}
@@ -0,0 +1,134 @@
+import { formatEther, Hex, parseAbi, PublicClient, zeroAddress } from 'viem';
+import { normalizeAddress } from '../../utils/address';
+import { SWELLCHAIN_CHAIN_ID, TOKEN_SYMBOLS } from '../../utils/chains';
+import { RpcClient } from '../RpcClient';
+import { ProtocolPosition } from '../../types';
+import {
+  blockTagFor,
+  DiscoveryOptions,
+  MULTICALL,
+  ProtocolAdapter,
+  ProtocolInfo,
+  ProtocolLiquidity
+} from './ProtocolAdapter';
+
+const CROC_QUERY_ABI = parseAbi([
+  'function queryAmbientTokens(address owner, address base, address quote, uint256 poolIdx) view returns (uint128 liq, uint128 baseQty, uint128 quoteQty)',
+  // Square root of the price in base tokens per quote token, Q64.64
+  'function queryPrice(address base, address quote, uint256 poolIdx) view returns (uint128)',
+  'function queryLiquidity(address base, address quote, uint256 poolIdx) view returns (uint128)'
+]);
+
+const Q64 = 2n ** 64n;
+
+export interface AmbientConfig {
+  /** CrocQuery lens contract */
+  query: string;
+  /** Tokens paired with native ETH; ETH is always the base side */
+  tokens: string[];
+  poolIndex: number;
+}
+
+/**
+ * Full-range liquidity in Ambient ETH pools, valued in ETH at the pool price. Concentrated range
+ * positions are not discovered. Swap fees compound into the liquidity rather than accruing to a
+ * readable rate, so there is no on-chain APY.
+ */
+export class AmbientAdapter implements ProtocolAdapter {
+  readonly info: ProtocolInfo;
+  private client: PublicClient;
+  private query: Hex;
+  private tokens: Hex[];
+  private poolIndex: bigint;
+
+  constructor(rpc: RpcClient, config: AmbientConfig) {
+    this.client = rpc.toPublicClient();
+    this.query = config.query as Hex;
+    this.tokens = config.tokens.map(token => normalizeAddress(token) as Hex);
+    this.poolIndex = BigInt(config.poolIndex);
+    this.info = {
+      id: 'ambient',
+      name: 'Ambient Finance',
+      category: 'defi',
+      chainId: SWELLCHAIN_CHAIN_ID,
+      address: normalizeAddress(config.query),
+      logo: 'https://ambient.finance/logo.png',
+      riskScore: 0.4,
+      deployedAt: new Date('2024-02-15')
+    };
+  }
+
+  async discoverPositions(address: string, options: DiscoveryOptions = {}): Promise<ProtocolPosition[]> {
+    if (this.tokens.length === 0) return [];
+
+    const results = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL,
+      blockTag: blockTagFor(options),
+      contracts: this.tokens.flatMap(token => [
+        {
+          address: this.query,
+          abi: CROC_QUERY_ABI,
+          functionName: 'queryAmbientTokens',
+          args: [address as Hex, zeroAddress, token, this.poolIndex]
+        } as const,
+        { address: this.query, abi: CROC_QUERY_ABI, functionName: 'queryPrice', args: [zeroAddress, token, this.poolIndex] } as const
+      ])
+    });
+
+    const positions: ProtocolPosition[] = [];
+    this.tokens.forEach((token, index) => {
+      const [liquidity, baseQty, quoteQty] = results[index * 2] as readonly [bigint, bigint, bigint];
+      const priceRoot = results[index * 2 + 1] as bigint;
+      if (liquidity === 0n) return;
+
+      const value = baseQty + (quoteQty * priceRoot * priceRoot) / (Q64 * Q64);
+      positions.push({
+        protocol: this.info.id,
+        protocolName: this.info.name,
+        chainId: this.info.chainId,
+        token: `ETH/${TOKEN_SYMBOLS[token] || token}`,
+        contractAddress: this.info.address,
+        // Ambient liquidity units, i.e. sqrt(base * quote)
+        amount: Number(formatEther(liquidity)),
+        value: Number(formatEther(value)),
+        confirmation: options.minConfirmation || 'unconfirmed'
+      });
+    });
+
+    return positions;
+  }
+
+  async getTVL(): Promise<number> {
+    if (this.tokens.length === 0) return 0;
+
+    const results = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL,
+      contracts: this.tokens.flatMap(token => [
+        { address: this.query, abi: CROC_QUERY_ABI, functionName: 'queryLiquidity', args: [zeroAddress, token, this.poolIndex] } as const,
+        { address: this.query, abi: CROC_QUERY_ABI, functionName: 'queryPrice', args: [zeroAddress, token, this.poolIndex] } as const
+      ])
+    });
+
+    // Active liquidity L holds L * sqrt(P) of ETH and the same value again in the paired token
+    let total = 0n;
+    for (let index = 0; index < results.length; index += 2) {
+      total += (2n * results[index] * results[index + 1]) / Q64;
+    }
+    return Number(formatEther(total));
+  }
+
+  async getAPY(): Promise<number | null> {
+    return null;
+  }
+
+  async getLiquidity(): Promise<ProtocolLiquidity> {
+    const total = await this.getTVL();
+    return { available: total, total };
+  }
+
+  async getWithdrawalDelay(): Promise<number> {
+    return 0;
+  }
+}
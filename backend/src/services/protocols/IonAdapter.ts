@@ -0,0 +1,98 @@
+import { formatEther, Hex, parseAbi, PublicClient } from 'viem';
+import { normalizeAddress } from '../../utils/address';
+import { SWELLCHAIN_CHAIN_ID } from '../../utils/chains';
+import { RpcClient } from '../RpcClient';
+import { ProtocolPosition } from '../../types';
+import {
+  blockTagFor,
+  DiscoveryOptions,
+  MULTICALL,
+  ProtocolAdapter,
+  ProtocolInfo,
+  ProtocolLiquidity,
+  trailingApy
+} from './ProtocolAdapter';
+
+const ION_POOL_ABI = parseAbi([
+  // Lender claims in WETH, interest included
+  'function balanceOf(address user) view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  // Grows as interest accrues to lenders, 27 decimals
+  'function supplyFactor() view returns (uint256)',
+  // Unborrowed WETH in the pool
+  'function weth() view returns (uint256)'
+]);
+
+/**
+ * WETH lending on an Ion Protocol pool. Lenders can withdraw immediately, up to the WETH not lent out.
+ */
+export class IonAdapter implements ProtocolAdapter {
+  readonly info: ProtocolInfo;
+  private client: PublicClient;
+  private pool: Hex;
+
+  constructor(rpc: RpcClient, pool: string) {
+    this.client = rpc.toPublicClient();
+    this.pool = pool as Hex;
+    this.info = {
+      id: 'ion',
+      name: 'Ion Protocol',
+      category: 'defi',
+      chainId: SWELLCHAIN_CHAIN_ID,
+      address: normalizeAddress(pool),
+      logo: 'https://ion.money/logo.png',
+      riskScore: 0.35,
+      deployedAt: new Date('2024-02-01')
+    };
+  }
+
+  async discoverPositions(address: string, options: DiscoveryOptions = {}): Promise<ProtocolPosition[]> {
+    const balance = await this.client.readContract({
+      address: this.pool,
+      abi: ION_POOL_ABI,
+      functionName: 'balanceOf',
+      args: [address as Hex],
+      blockTag: blockTagFor(options)
+    });
+    if (balance === 0n) return [];
+
+    const amount = Number(formatEther(balance));
+    return [{
+      protocol: this.info.id,
+      protocolName: this.info.name,
+      chainId: this.info.chainId,
+      token: 'WETH',
+      contractAddress: this.info.address,
+      amount,
+      value: amount,
+      confirmation: options.minConfirmation || 'unconfirmed'
+    }];
+  }
+
+  async getTVL(): Promise<number> {
+    const supply = await this.client.readContract({ address: this.pool, abi: ION_POOL_ABI, functionName: 'totalSupply' });
+    return Number(formatEther(supply));
+  }
+
+  async getAPY(): Promise<number | null> {
+    return trailingApy(this.client, this.info.chainId, blockNumber =>
+      this.client.readContract({ address: this.pool, abi: ION_POOL_ABI, functionName: 'supplyFactor', blockNumber })
+    );
+  }
+
+  async getLiquidity(): Promise<ProtocolLiquidity> {
+    const [supply, idle] = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL,
+      contracts: [
+        { address: this.pool, abi: ION_POOL_ABI, functionName: 'totalSupply' },
+        { address: this.pool, abi: ION_POOL_ABI, functionName: 'weth' }
+      ]
+    });
+    return { available: Number(formatEther(idle)), total: Number(formatEther(supply)) };
+  }
+
+  async getWithdrawalDelay(): Promise<number> {
+    return 0;
+  }
+}
@@ -0,0 +1,182 @@
+import { formatEther, Hex, parseAbi, PublicClient } from 'viem';
+import { normalizeAddress } from '../../utils/address';
+import { SWELLCHAIN_CHAIN_ID, SWELLCHAIN_CONTRACTS, SWELLCHAIN_WETH_ADDRESS } from '../../utils/chains';
+import { RpcClient } from '../RpcClient';
+import { ChainDataRepository } from '../../repositories/ChainDataRepository';
+import { NucleusAccount, NucleusRateHistory, ProtocolPosition, VaultExchangeRate } from '../../types';
+import {
+  blockTagFor,
+  DiscoveryOptions,
+  MULTICALL,
+  ProtocolAdapter,
+  ProtocolInfo,
+  ProtocolLiquidity,
+  realizedApy,
+  trailingApy
+} from './ProtocolAdapter';
+
+const ERC20_ABI = parseAbi([
+  'function balanceOf(address account) view returns (uint256)',
+  'function totalSupply() view returns (uint256)'
+]);
+
+const ACCOUNTANT_ABI = parseAbi([
+  // WETH per vault share, 18 decimals
+  'function getRate() view returns (uint256)'
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Solvers fill atomic-queue withdrawal requests within a few days
+const WITHDRAWAL_DELAY_MS = 3 * DAY_MS;
+
+const APY_WINDOW_MS = 7 * DAY_MS;
+
+/**
+ * Nucleus earnETH on Swellchain. Shares are the BoringVault's ERC-20 balance and the accountant
+ * prices them in WETH; only WETH left idle in the vault can be withdrawn without the queue.
+ * Yield, Teller deposits and queued withdrawals come from the chain indexer.
+ */
+export class NucleusAdapter implements ProtocolAdapter {
+  readonly info: ProtocolInfo = {
+    id: 'nucleus-earneth',
+    name: 'Nucleus earnETH',
+    category: 'yield-farming',
+    chainId: SWELLCHAIN_CHAIN_ID,
+    address: SWELLCHAIN_CONTRACTS.NUCLEUS_BORING_VAULT,
+    logo: 'https://app.nucleus.fi/logo.png',
+    riskScore: 0.15,
+    deployedAt: new Date('2024-10-01')
+  };
+  private client: PublicClient;
+  private chainDataRepository: ChainDataRepository;
+  private vault = SWELLCHAIN_CONTRACTS.NUCLEUS_BORING_VAULT as Hex;
+  private accountant = SWELLCHAIN_CONTRACTS.NUCLEUS_ACCOUNTANT as Hex;
+
+  constructor(rpc: RpcClient, chainDataRepository: ChainDataRepository) {
+    this.client = rpc.toPublicClient();
+    this.chainDataRepository = chainDataRepository;
+  }
+
+  async discoverPositions(address: string, options: DiscoveryOptions = {}): Promise<ProtocolPosition[]> {
+    const [shares, rate] = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL,
+      blockTag: blockTagFor(options),
+      contracts: [
+        { address: this.vault, abi: ERC20_ABI, functionName: 'balanceOf', args: [address as Hex] },
+        { address: this.accountant, abi: ACCOUNTANT_ABI, functionName: 'getRate' }
+      ]
+    });
+    if (shares === 0n) return [];
+
+    return [{
+      protocol: this.info.id,
+      protocolName: this.info.name,
+      chainId: this.info.chainId,
+      token: 'earnETH',
+      contractAddress: normalizeAddress(this.vault),
+      amount: Number(formatEther(shares)),
+      value: Number(formatEther((shares * rate) / 10n ** 18n)),
+      confirmation: options.minConfirmation || 'unconfirmed'
+    }];
+  }
+
+  async getTVL(): Promise<number> {
+    const [supply, rate] = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL,
+      contracts: [
+        { address: this.vault, abi: ERC20_ABI, functionName: 'totalSupply' },
+        { address: this.accountant, abi: ACCOUNTANT_ABI, functionName: 'getRate' }
+      ]
+    });
+    return Number(formatEther((supply * rate) / 10n ** 18n));
+  }
+
+  /**
+   * Realized from the accountant's indexed rate updates over the last week; read from archive state
+   * when the indexer has not covered the window yet
+   */
+  async getAPY(): Promise<number | null> {
+    const rates = await this.chainDataRepository.listExchangeRates(this.info.chainId, this.accountant, new Date(Date.now() - APY_WINDOW_MS));
+    const apy = this.realizedApy(rates);
+    if (apy !== null) return apy;
+
+    return trailingApy(this.client, this.info.chainId, blockNumber =>
+      this.client.readContract({ address: this.accountant, abi: ACCOUNTANT_ABI, functionName: 'getRate', blockNumber })
+    );
+  }
+
+  async getLiquidity(): Promise<ProtocolLiquidity> {
+    const [idle, total] = await Promise.all([
+      this.client.readContract({
+        address: SWELLCHAIN_WETH_ADDRESS as Hex,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [this.vault]
+      }),
+      this.getTVL()
+    ]);
+    return { available: Number(formatEther(idle)), total };
+  }
+
+  async getWithdrawalDelay(): Promise<number> {
+    return WITHDRAWAL_DELAY_MS;
+  }
+
+  /**
+   * Share price updates since `since` and the yield they imply
+   */
+  async getRateHistory(since: Date): Promise<NucleusRateHistory> {
+    const [rate, rates] = await Promise.all([
+      this.client.readContract({ address: this.accountant, abi: ACCOUNTANT_ABI, functionName: 'getRate' }),
+      this.chainDataRepository.listExchangeRates(this.info.chainId, this.accountant, since)
+    ]);
+
+    return { rate: Number(formatEther(rate)), apy: this.realizedApy(rates), rates };
+  }
+
+  /**
+   * The address's earnETH shares with its Teller deposits and open withdrawal requests
+   */
+  async getAccount(address: string, options: DiscoveryOptions = {}): Promise<NucleusAccount> {
+    const [[shares, rate], deposits, requests] = await Promise.all([
+      this.client.multicall({
+        allowFailure: false,
+        multicallAddress: MULTICALL,
+        blockTag: blockTagFor(options),
+        contracts: [
+          { address: this.vault, abi: ERC20_ABI, functionName: 'balanceOf', args: [address as Hex] },
+          { address: this.accountant, abi: ACCOUNTANT_ABI, functionName: 'getRate' }
+        ]
+      }),
+      this.chainDataRepository.listTellerDeposits(address),
+      this.chainDataRepository.listWithdrawalRequests(address)
+    ]);
+    const lockedUntil = Math.max(0, ...deposits.filter(deposit => !deposit.refunded).map(deposit => deposit.unlocksAt.getTime()));
+
+    return {
+      address: normalizeAddress(address),
+      shares: Number(formatEther(shares)),
+      value: Number(formatEther((shares * rate) / 10n ** 18n)),
+      rate: Number(formatEther(rate)),
+      sharesLockedUntil: lockedUntil > Date.now() ? new Date(lockedUntil) : null,
+      deposits,
+      pendingWithdrawals: requests.filter(request => request.offerToken === normalizeAddress(this.vault))
+    };
+  }
+
+  /**
+   * Growth from the first to the last update, once they are at least a day apart
+   */
+  private realizedApy(rates: VaultExchangeRate[]): number | null {
+    if (rates.length < 2) return null;
+    const first = rates[0];
+    const last = rates[rates.length - 1];
+    const elapsedMs = last.timestamp.getTime() - first.timestamp.getTime();
+    if (elapsedMs < DAY_MS) return null;
+
+    return realizedApy(BigInt(last.rate), BigInt(first.rate), elapsedMs);
+  }
+}
@@ -0,0 +1,94 @@
+import { Hex, PublicClient } from 'viem';
+import { BLOCK_TIME_MS, MULTICALL3_ADDRESS } from '../../utils/chains';
+import { ConfirmationLevel, ProtocolData, ProtocolPosition } from '../../types';
+
+export interface ProtocolInfo {
+  /** Stable id positions and risk scores refer to, e.g. 'sweth' */
+  id: string;
+  name: string;
+  category: ProtocolData['category'];
+  chainId: number;
+  address: string;
+  logo: string;
+  /** Contract and design risk of the protocol itself, 0-1 */
+  riskScore: number;
+  deployedAt: Date;
+}
+
+export interface ProtocolLiquidity {
+  /** ETH that can leave the protocol now, without waiting out the withdrawal delay */
+  available: number;
+  /** ETH deposited in total */
+  total: number;
+}
+
+export interface DiscoveryOptions {
+  /** Read balances at this depth, e.g. 'safe' for anything that triggers alerts */
+  minConfirmation?: ConfirmationLevel;
+}
+
+/**
+ * One protocol users can hold ETH-denominated positions in. Values are in ETH and APYs are fractions.
+ */
+export interface ProtocolAdapter {
+  readonly info: ProtocolInfo;
+  /** The address's non-zero holdings in this protocol */
+  discoverPositions(address: string, options?: DiscoveryOptions): Promise<ProtocolPosition[]>;
+  getTVL(): Promise<number>;
+  /** Realized over a trailing window; null when the protocol's yield cannot be read from chain state */
+  getAPY(): Promise<number | null>;
+  getLiquidity(): Promise<ProtocolLiquidity>;
+  /** Worst-case wait for a withdrawal, in milliseconds */
+  getWithdrawalDelay(): Promise<number>;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const APY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// Past reads are pinned to hourly blocks so the RPC cache can answer repeats
+const PAST_BLOCK_GRANULARITY_MS = 60 * 60 * 1000;
+
+export const MULTICALL = MULTICALL3_ADDRESS as Hex;
+
+/**
+ * Block tag for reads at the requested confirmation depth
+ */
+export const blockTagFor = (options: DiscoveryOptions = {}): 'latest' | 'safe' | 'finalized' =>
+  options.minConfirmation === 'safe' || options.minConfirmation === 'finalized' ? options.minConfirmation : 'latest';
+
+/**
+ * Annualized growth of an exchange rate over the trailing week. `readRate` is called at the head and
+ * at a block a week back; null if the node has pruned that state or the rate is not set yet.
+ */
+export async function trailingApy(
+  client: PublicClient,
+  chainId: number,
+  readRate: (blockNumber: bigint) => Promise<bigint>
+): Promise<number | null> {
+  const head = await client.getBlockNumber();
+  const granularity = BigInt(Math.round(PAST_BLOCK_GRANULARITY_MS / BLOCK_TIME_MS[chainId]));
+  const target = head - BigInt(Math.round(APY_WINDOW_MS / BLOCK_TIME_MS[chainId]));
+  const past = target - (target % granularity);
+  if (past <= 0n) return null;
+
+  try {
+    const [current, previous, headBlock, pastBlock] = await Promise.all([
+      readRate(head),
+      readRate(past),
+      client.getBlock({ blockNumber: head }),
+      client.getBlock({ blockNumber: past })
+    ]);
+    const elapsedMs = Number(headBlock.timestamp - pastBlock.timestamp) * 1000;
+    return realizedApy(current, previous, elapsedMs);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Compound annual rate implied by `previous` growing to `current` over `elapsedMs`
+ */
+export function realizedApy(current: bigint, previous: bigint, elapsedMs: number): number | null {
+  if (previous <= 0n || current <= 0n || elapsedMs <= 0) return null;
+  const growth = Number((current * 10n ** 18n) / previous) / 1e18;
+  return Math.pow(growth, YEAR_MS / elapsedMs) - 1;
+}
@@ -0,0 +1,150 @@
+import { logger } from '../../utils/logger';
+import {
+  ETHEREUM_CHAIN_ID,
+  RSWETH_ADDRESS,
+  SWELLCHAIN_CHAIN_ID,
+  SWETH_ADDRESS
+} from '../../utils/chains';
+import { RpcClient } from '../RpcClient';
+import { EnvConfig, ProtocolData, ProtocolPosition } from '../../types';
+import { DiscoveryOptions, ProtocolAdapter } from './ProtocolAdapter';
+import { SwellTokenAdapter } from './SwellTokenAdapter';
+import { NucleusAdapter } from './NucleusAdapter';
+import { IonAdapter } from './IonAdapter';
+import { AmbientAdapter } from './AmbientAdapter';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adapters for every supported protocol. Ion and Ambient are only registered once their addresses
+ * are configured. The Nucleus adapter is built by the caller, which also serves its history.
+ */
+export function protocolAdaptersFromConfig(
+  config: EnvConfig,
+  rpcClients: Record<number, RpcClient>,
+  nucleus: NucleusAdapter
+): ProtocolAdapter[] {
+  const ethereum = rpcClients[ETHEREUM_CHAIN_ID];
+  const swellchain = rpcClients[SWELLCHAIN_CHAIN_ID];
+  const adapters: ProtocolAdapter[] = [
+    new SwellTokenAdapter(ethereum, {
+      info: {
+        id: 'sweth',
+        name: 'Swell swETH',
+        category: 'restaking',
+        chainId: ETHEREUM_CHAIN_ID,
+        address: SWETH_ADDRESS,
+        logo: 'https://swell.network/logo.png',
+        riskScore: 0.2,
+        deployedAt: new Date('2023-04-12')
+      },
+      symbol: 'swETH',
+      // Swell processes withdrawal requests within 12 days
+      withdrawalDelayMs: 12 * DAY_MS
+    }),
+    new SwellTokenAdapter(ethereum, {
+      info: {
+        id: 'rsweth',
+        name: 'Swell rswETH',
+        category: 'restaking',
+        chainId: ETHEREUM_CHAIN_ID,
+        address: RSWETH_ADDRESS,
+        logo: 'https://swell.network/logo.png',
+        riskScore: 0.25,
+        deployedAt: new Date('2023-12-19')
+      },
+      symbol: 'rswETH',
+      avs: 'MACH',
+      // Restaked ETH also waits out EigenLayer's 7-day escrow
+      withdrawalDelayMs: 19 * DAY_MS
+    }),
+    nucleus
+  ];
+
+  if (config.ION_PROTOCOL_ADDRESS) {
+    adapters.push(new IonAdapter(swellchain, config.ION_PROTOCOL_ADDRESS));
+  }
+  if (config.AMBIENT_PROTOCOL_ADDRESS) {
+    adapters.push(new AmbientAdapter(swellchain, {
+      query: config.AMBIENT_PROTOCOL_ADDRESS,
+      tokens: config.AMBIENT_POOL_TOKENS,
+      poolIndex: config.AMBIENT_POOL_INDEX
+    }));
+  }
+
+  return adapters;
+}
+
+/**
+ * The protocols SwellScope understands, by adapter id. Reads fan out to every adapter; one failing
+ * protocol is logged and left out rather than failing the whole read.
+ */
+export class ProtocolRegistry {
+  private adapters = new Map<string, ProtocolAdapter>();
+
+  constructor(adapters: ProtocolAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  register(adapter: ProtocolAdapter): void {
+    if (this.adapters.has(adapter.info.id)) {
+      throw new Error(`Protocol adapter '${adapter.info.id}' is already registered`);
+    }
+    this.adapters.set(adapter.info.id, adapter);
+  }
+
+  get(id: string): ProtocolAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  list(): ProtocolAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * The address's holdings across every protocol
+   */
+  async discoverPositions(address: string, options: DiscoveryOptions = {}): Promise<ProtocolPosition[]> {
+    const results = await Promise.allSettled(this.list().map(adapter => adapter.discoverPositions(address, options)));
+
+    return results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') return result.value;
+      logger.warn(`Position discovery failed for ${this.list()[index].info.id}`, { address, error: result.reason?.message });
+      return [];
+    });
+  }
+
+  /**
+   * TVL (ETH), yield (%) and risk (0-100) of every protocol
+   */
+  async getProtocolData(): Promise<ProtocolData[]> {
+    const adapters = this.list();
+    const results = await Promise.allSettled(adapters.map(adapter => Promise.all([adapter.getTVL(), adapter.getAPY()])));
+
+    return results.flatMap((result, index) => {
+      const { info } = adapters[index];
+      if (result.status === 'rejected') {
+        logger.warn(`Protocol data unavailable for ${info.id}`, { error: result.reason?.message });
+        return [];
+      }
+
+      const [tvl, apy] = result.value;
+      return [{
+        id: info.id,
+        name: info.name,
+        address: info.address,
+        tvl,
+        yield: apy === null ? 0 : apy * 100,
+        riskScore: info.riskScore * 100,
+        // Holder counts need an indexed view of every token; not tracked yet
+        users: 0,
+        logo: info.logo,
+        category: info.category,
+        isActive: true,
+        chainId: info.chainId,
+        deployedAt: info.deployedAt,
+        lastUpdate: new Date()
+      }];
+    });
+  }
+}
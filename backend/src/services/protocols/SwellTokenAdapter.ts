@@ -0,0 +1,105 @@
+import { formatEther, Hex, parseAbi, PublicClient } from 'viem';
+import { normalizeAddress } from '../../utils/address';
+import { RpcClient } from '../RpcClient';
+import { ProtocolPosition } from '../../types';
+import {
+  blockTagFor,
+  DiscoveryOptions,
+  MULTICALL,
+  ProtocolAdapter,
+  ProtocolInfo,
+  ProtocolLiquidity,
+  trailingApy
+} from './ProtocolAdapter';
+
+const SWELL_TOKEN_ABI = parseAbi([
+  'function balanceOf(address account) view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  // ETH per token, 18 decimals
+  'function getRate() view returns (uint256)'
+]);
+
+export interface SwellTokenConfig {
+  info: ProtocolInfo;
+  symbol: string;
+  /** AVS the token's ETH is restaked to, if any */
+  avs?: string;
+  withdrawalDelayMs: number;
+}
+
+/**
+ * swETH and rswETH: rebasing-free tokens whose ETH value grows through `getRate()`. Redemptions
+ * go through Swell's withdrawal queue, so nothing leaves the protocol without waiting.
+ */
+export class SwellTokenAdapter implements ProtocolAdapter {
+  readonly info: ProtocolInfo;
+  private client: PublicClient;
+  private token: Hex;
+  private symbol: string;
+  private avs?: string;
+  private withdrawalDelayMs: number;
+
+  constructor(rpc: RpcClient, config: SwellTokenConfig) {
+    this.info = config.info;
+    this.client = rpc.toPublicClient();
+    this.token = config.info.address as Hex;
+    this.symbol = config.symbol;
+    this.avs = config.avs;
+    this.withdrawalDelayMs = config.withdrawalDelayMs;
+  }
+
+  async discoverPositions(address: string, options: DiscoveryOptions = {}): Promise<ProtocolPosition[]> {
+    const [balance, rate] = await this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL,
+      blockTag: blockTagFor(options),
+      contracts: [
+        { address: this.token, abi: SWELL_TOKEN_ABI, functionName: 'balanceOf', args: [address as Hex] },
+        { address: this.token, abi: SWELL_TOKEN_ABI, functionName: 'getRate' }
+      ]
+    });
+    if (balance === 0n) return [];
+
+    return [{
+      protocol: this.info.id,
+      protocolName: this.info.name,
+      chainId: this.info.chainId,
+      token: this.symbol,
+      contractAddress: normalizeAddress(this.token),
+      amount: Number(formatEther(balance)),
+      value: Number(formatEther((balance * rate) / 10n ** 18n)),
+      avs: this.avs,
+      confirmation: options.minConfirmation || 'unconfirmed'
+    }];
+  }
+
+  async getTVL(): Promise<number> {
+    const [supply, rate] = await this.readSupplyAndRate();
+    return Number(formatEther((supply * rate) / 10n ** 18n));
+  }
+
+  async getAPY(): Promise<number | null> {
+    return trailingApy(this.client, this.info.chainId, blockNumber =>
+      this.client.readContract({ address: this.token, abi: SWELL_TOKEN_ABI, functionName: 'getRate', blockNumber })
+    );
+  }
+
+  async getLiquidity(): Promise<ProtocolLiquidity> {
+    return { available: 0, total: await this.getTVL() };
+  }
+
+  async getWithdrawalDelay(): Promise<number> {
+    return this.withdrawalDelayMs;
+  }
+
+  private readSupplyAndRate(): Promise<[bigint, bigint]> {
+    return this.client.multicall({
+      allowFailure: false,
+      multicallAddress: MULTICALL,
+      contracts: [
+        { address: this.token, abi: SWELL_TOKEN_ABI, functionName: 'totalSupply' },
+        { address: this.token, abi: SWELL_TOKEN_ABI, functionName: 'getRate' }
+      ]
+    });
+  }
+}
@@ -61,10 +61,22 @@ export interface PrivacySettings {
   shareData: boolean;
 }
 
+/**
+ * Preference changes; nested notification and privacy settings are merged key by key
+ */
+export type UserPreferencesUpdate = Partial<Omit<UserPreferences, 'notifications' | 'privacy'>> & {
+  notifications?: Partial<NotificationPreferences>;
+  privacy?: Partial<PrivacySettings>;
+};
+
+export type SubscriptionTier = 'free' | 'basic' | 'premium' | 'enterprise';
+
 export interface UserSubscription {
-  tier: 'free' | 'basic' | 'premium' | 'enterprise';
+  tier: SubscriptionTier;
   isActive: boolean;
   expiresAt?: Date;
+  /** Paid tiers keep their limits until this time after expiresAt so a late renewal doesn't interrupt service */
+  graceEndsAt?: Date;
   features: string[];
   limits: SubscriptionLimits;
 }
@@ -72,10 +84,181 @@ export interface UserSubscription {
 export interface SubscriptionLimits {
   maxPositions: number;
   maxStrategies: number;
-  apiCalls: number;
+  apiCalls: number; // per day
+  apiCallsPerMinute: number;
   historicalData: number; // days
   alerts: number;
   customDashboards: number;
+  watchedWallets: number;
+}
+
+/**
+ * Limits that cap how many of something a user may own
+ */
+export type CountedLimit = 'maxPositions' | 'maxStrategies' | 'alerts' | 'customDashboards' | 'watchedWallets';
+
+/**
+ * What the user's plan allows and how much of it they use
+ */
+export interface Entitlements {
+  tier: SubscriptionTier;
+  features: string[];
+  limits: SubscriptionLimits;
+  usage: Record<CountedLimit, number>;
+  upgradeUrl: string;
+}
+
+/**
+ * Attached to 402/403 entitlement errors so clients can point the user at the right plan
+ */
+export interface UpgradeHint {
+  currentTier: SubscriptionTier;
+  limit: keyof SubscriptionLimits;
+  allowed: number;
+  requested: number;
+  /** Cheapest tier that allows the request, if any */
+  requiredTier?: SubscriptionTier;
+  upgradeUrl: string;
+}
+
+export type PaidSubscriptionTier = Exclude<SubscriptionTier, 'free'>;
+
+export type InvoiceStatus = 'pending' | 'paid' | 'expired' | 'cancelled';
+
+/**
+ * new: no paid plan is running; renewal: extends the current tier's period;
+ * change: switches to another tier, starting a fresh period when paid
+ */
+export type InvoiceKind = 'new' | 'renewal' | 'change';
+
+export interface PaymentToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface Invoice {
+  id: string;
+  tier: PaidSubscriptionTier;
+  kind: InvoiceKind;
+  status: InvoiceStatus;
+  periodDays: number;
+  /** Amount due in token base units, as a decimal string */
+  amount: string;
+  token: PaymentToken;
+  chainId: number;
+  receiver: string;
+  /** Only transfers from this wallet settle the invoice */
+  payerAddress: string;
+  /** EIP-681 link wallets can open to prefill the transfer */
+  paymentUri: string;
+  expiresAt: Date;
+  createdAt: Date;
+  paidAt?: Date;
+  paidAmount?: string;
+  txHash?: string;
+}
+
+/**
+ * Everything stored about a user, as returned by GET /user/export
+ */
+export interface UserDataExport {
+  exportedAt: Date;
+  profile: Omit<User, 'preferences'>;
+  preferences: UserPreferences;
+  riskProfile: RiskProfile;
+  positions: Position[];
+  strategies: Strategy[];
+  alerts: RiskAlert[];
+  alertRules: AlertRule[];
+  dashboards: Dashboard[];
+  activity: ActivityEvent[];
+  bridgeOperations: BridgeOperation[];
+  invoices: Invoice[];
+  /** Organizations the user is a member of, with their role */
+  organizations: Organization[];
+  watchedWallets: WatchedWallet[];
+}
+
+export type AccountDeletionStatus = 'pending' | 'completed' | 'failed';
+
+/**
+ * Proof that an erasure request was carried out. Contains no personal data.
+ */
+export interface DeletionReceipt {
+  confirmationId: string;
+  status: AccountDeletionStatus;
+  requestedAt: Date;
+  completedAt?: Date;
+  /** Days the retained records are kept before they are purged too */
+  retentionPeriod: number;
+  retainedUntil?: Date;
+  dataRemaining: string[];
+  /** Number of records deleted or anonymized, per kind */
+  erased?: Record<string, number>;
+  /** sha256 of `<confirmationId>:<lowercase wallet address>`; lets the account holder recognise the receipt */
+  subjectHash: string;
+  /** HMAC-SHA256 of the receipt's other fields under the server's receipt key; set once the erasure has completed */
+  signature?: string;
+}
+
+// Organization Types
+export type OrganizationRole = 'owner' | 'analyst' | 'viewer';
+export type OrganizationInviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Organization {
+  id: string;
+  name: string;
+  /** The caller's role in the organization */
+  role: OrganizationRole;
+  memberCount: number;
+  addressCount: number;
+  createdAt: Date;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  address: string;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface WatchedAddress {
+  address: string;
+  label?: string;
+  addedBy: string;
+  createdAt: Date;
+}
+
+export interface OrganizationDetails extends Organization {
+  members: OrganizationMember[];
+  addresses: WatchedAddress[];
+}
+
+export interface OrganizationInvite {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  address: string;
+  role: OrganizationRole;
+  status: OrganizationInviteStatus;
+  /** SIWE-formatted message the invited wallet signs to accept */
+  message: string;
+  expiresAt: Date;
+  createdAt: Date;
+  acceptedAt?: Date;
+}
+
+/**
+ * How the caller may act on an address: their own wallet, or one attached to an organization they belong to
+ */
+export interface AddressAccess {
+  address: string;
+  /** Account the address's data belongs to */
+  userId: string;
+  role: OrganizationRole;
+  /** Set when access comes from an organization rather than the caller's own wallet */
+  organizationId?: string;
 }
 
 // Analytics Types
@@ -101,6 +284,39 @@ export interface ChartDataPoint {
   volume: number;
 }
 
+/**
+ * Dashboard gauges of one scope ("total", "chain:<id>" or "protocol:<id>") at one moment.
+ * TVL is in ETH, yield in percent, users counts active accounts.
+ */
+export interface MetricSnapshot {
+  scope: string;
+  tvl: number;
+  yield: number;
+  users: number;
+}
+
+/** Amount moved in one scope's bucket, in ETH, recomputed from the indexed events */
+export interface MetricVolume {
+  scope: string;
+  /** Bucket width in seconds */
+  resolution: number;
+  bucket: Date;
+  volume: number;
+}
+
+/** Metrics averaged over one time bucket; volume is the bucket's total */
+export interface MetricRollup {
+  scope: string;
+  /** Bucket width in seconds */
+  resolution: number;
+  bucket: Date;
+  tvl: number;
+  yield: number;
+  users: number;
+  volume: number;
+  samples: number;
+}
+
 export interface ProtocolData {
   id: string;
   name: string;
@@ -117,6 +333,24 @@ export interface ProtocolData {
   lastUpdate: Date;
 }
 
+/** A holding in one protocol, read from chain state */
+export interface ProtocolPosition {
+  /** Adapter id, e.g. 'sweth' */
+  protocol: string;
+  protocolName: string;
+  chainId: number;
+  token: string;
+  contractAddress: string;
+  /** Token units */
+  amount: number;
+  /** ETH */
+  value: number;
+  /** AVS the position's ETH is restaked to */
+  avs?: string;
+  /** Depth of the block the balance was read at */
+  confirmation: ConfirmationLevel;
+}
+
 export interface TransactionData {
   id: string;
   hash: string;
@@ -130,6 +364,8 @@ export interface TransactionData {
   gasPrice?: number;
   blockNumber?: number;
   chainId: number;
+  /** Reorg safety of the block the transaction was indexed from */
+  confirmation?: ConfirmationLevel;
 }
 
 // Risk Management Types
@@ -158,9 +394,86 @@ export interface LiquidityRiskData {
   availableLiquidity: number;
   utilizationRate: number;
   withdrawalDelay: number;
+  /** Value-weighted market discount of the liquid staking tokens held, as a fraction */
+  pegDiscount: number;
   riskScore: number;
 }
 
+/** A market discount that raises a depeg alert once it has held for `durationMs` */
+export interface DepegThreshold {
+  severity: RiskAlert['severity'];
+  deviationBps: number;
+  durationMs: number;
+}
+
+/** A liquid staking token's DEX price next to its redemption rate, both in ETH per token */
+export interface PegSample {
+  symbol: string;
+  token: string;
+  pool: string;
+  marketPrice: number;
+  redemptionRate: number;
+  /** (market - redemption) / redemption; negative when the token trades at a discount */
+  deviation: number;
+  blockNumber: number;
+  sampledAt: Date;
+}
+
+/** The strongest threshold a token's discount has held past */
+export interface PegBreach {
+  severity: RiskAlert['severity'];
+  deviationBps: number;
+  /** Start of the current run of samples past the threshold, looking back one monitoring window */
+  since: Date;
+  /** Current discount, as a fraction */
+  discount: number;
+}
+
+export interface PegStatus {
+  symbol: string;
+  token: string;
+  /** Protocol adapter id holding the token */
+  protocol: string;
+  latest: PegSample | null;
+  breach: PegBreach | null;
+}
+
+/** Currency a price is quoted in */
+export type PriceQuoteCurrency = 'USD' | 'ETH';
+
+/** A Chainlink-style aggregator pricing `symbol` in `quote` */
+export interface PriceFeed {
+  symbol: string;
+  quote: PriceQuoteCurrency;
+  address: string;
+}
+
+export interface PriceFixture {
+  symbol: string;
+  quote: PriceQuoteCurrency;
+  price: number;
+}
+
+/** One source's price for a token */
+export interface PriceQuote {
+  source: string;
+  symbol: string;
+  quote: PriceQuoteCurrency;
+  price: number;
+  /** When the source last updated the price */
+  updatedAt: Date;
+}
+
+/** A token's USD price, aggregated from the quotes of every source that covers it */
+export interface TokenPrice {
+  symbol: string;
+  /** USD, the median of the accepted quotes */
+  price: number;
+  /** Every quote considered, converted to USD; `accepted` is false for outliers */
+  sources: Array<{ source: string; price: number; accepted: boolean }>;
+  sampledAt: Date;
+}
+
 export interface ConcentrationRiskData {
   protocolConcentration: number;
   operatorConcentration: number;
@@ -194,6 +507,22 @@ export interface AlertThresholds {
   performance: number;
 }
 
+export type AlertRuleMetric = keyof AlertThresholds;
+
+export type AlertChannel = 'email' | 'push' | 'discord' | 'telegram';
+
+export interface AlertRule {
+  id: string;
+  userId: string;
+  name: string;
+  metric: AlertRuleMetric;
+  threshold: number;
+  channels: AlertChannel[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface SlashingEvent {
   id: string;
   validatorAddress: string;
@@ -277,7 +606,7 @@ export interface RiskCorrelation {
 
 export interface RiskAlert {
   id: string;
-  type: 'validator_risk' | 'concentration_risk' | 'slashing_event' | 'liquidity_risk';
+  type: 'validator_risk' | 'concentration_risk' | 'slashing_event' | 'liquidity_risk' | 'depeg_risk';
   severity: 'low' | 'medium' | 'high' | 'critical';
   title: string;
   message: string;
@@ -322,6 +651,73 @@ export interface Position {
   unlockDate?: Date;
   chainId: number;
   contractAddress: string;
+  /** Watch-only wallet holding the position; unset for the account's own wallet */
+  walletAddress?: string;
+}
+
+// Watch-only Wallet Types
+export interface WatchedWallet {
+  address: string;
+  label?: string;
+  group?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One wallet's part of an aggregated view. The account's own wallet is marked `primary`.
+ */
+export interface WalletSummary {
+  address: string;
+  label?: string;
+  group?: string;
+  primary: boolean;
+  totalValue: number;
+  /** Fraction of the aggregate's total value, 0-1 */
+  share: number;
+}
+
+export interface WalletPortfolioSummary extends WalletSummary {
+  totalStaked: number;
+  totalEarnings: number;
+  averageYield: number;
+  riskScore: number;
+  positionCount: number;
+}
+
+export interface AggregatedPortfolio {
+  /** Set when the aggregate covers a single wallet group */
+  group?: string;
+  totalValue: number;
+  totalStaked: number;
+  totalEarnings: number;
+  averageYield: number;
+  riskScore: number;
+  positions: Position[];
+  wallets: WalletPortfolioSummary[];
+}
+
+export interface WalletRiskSummary extends WalletSummary {
+  overallRiskScore: number;
+  riskLevel: RiskMetrics['riskLevel'];
+}
+
+export interface AggregatedRiskMetrics {
+  group?: string;
+  /** Metrics over the combined positions of every wallet, concentration included */
+  metrics: RiskMetrics;
+  wallets: WalletRiskSummary[];
+}
+
+export interface WalletCrossChainPosition extends CrossChainPosition {
+  walletAddress: string;
+}
+
+export interface AggregatedCrossChainPositions {
+  group?: string;
+  totalValue: number;
+  positions: WalletCrossChainPosition[];
+  wallets: WalletSummary[];
 }
 
 export interface Strategy {
@@ -329,6 +725,7 @@ export interface Strategy {
   userId: string;
   name: string;
   description: string;
+  allocations: Record<string, number>;
   riskScore: number;
   expectedYield: number;
   tvl: number;
@@ -401,6 +798,20 @@ export interface Recommendation {
   status: 'pending' | 'executed' | 'rejected' | 'expired';
 }
 
+export interface ActivityEvent {
+  id: string;
+  userId: string;
+  type: string;
+  description: string;
+  amount?: number;
+  token?: string;
+  status: string;
+  severity?: string;
+  transactionHash?: string;
+  metadata?: Record<string, any>;
+  timestamp: number;
+}
+
 // AVS and Swellchain Types
 export interface AVSMetrics {
   id: string;
@@ -485,6 +896,8 @@ export interface CrossChainPosition {
   bridgeFee: number;
   estimatedTime: number;
   contractAddress: string;
+  /** Reorg safety of the indexed data behind the position */
+  confirmation?: ConfirmationLevel;
 }
 
 export interface BridgeOperation {
@@ -506,6 +919,263 @@ export interface BridgeOperation {
   metadata?: Record<string, any>;
 }
 
+// Chain Indexer Types
+/**
+ * `unconfirmed` records can still disappear in a reorg; `safe` ones are past the chain's
+ * confirmation depth and `finalized` ones past its finality depth.
+ */
+export type ConfirmationLevel = 'unconfirmed' | 'safe' | 'finalized';
+
+export type BridgeMessageStatus = 'initiated' | 'proven' | 'finalized' | 'failed';
+
+/** A bridge transfer observed on-chain. Amounts are token base units. */
+export interface BridgeMessage {
+  id: string;
+  direction: 'deposit' | 'withdrawal';
+  status: BridgeMessageStatus;
+  sourceChainId: number;
+  destinationChainId: number;
+  sender: string;
+  recipient: string;
+  /** L1 token address; undefined for ETH */
+  token?: string;
+  amount: string;
+  withdrawalHash?: string;
+  txHash: string;
+  blockNumber: number;
+  initiatedAt: Date;
+  provenAt?: Date;
+  finalizedAt?: Date;
+  finalizeTxHash?: string;
+  /** Reorg safety of the initiating transaction */
+  confirmation: ConfirmationLevel;
+}
+
+/** Net vault position from indexed deposits and withdrawals, in base units */
+export interface VaultBalance {
+  chainId: number;
+  vault: string;
+  account: string;
+  shares: string;
+  assets: string;
+  lastUpdate: Date;
+  /** The weakest confirmation among the flows counted */
+  confirmation: ConfirmationLevel;
+}
+
+/** A vault accountant's share price after one update: base asset per share, in base units */
+export interface VaultExchangeRate {
+  chainId: number;
+  accountant: string;
+  rate: string;
+  blockNumber: number;
+  timestamp: Date;
+  confirmation: ConfirmationLevel;
+}
+
+/** A deposit made through the Nucleus Teller, in base units */
+export interface TellerDeposit {
+  nonce: string;
+  txHash: string;
+  asset: string;
+  amount: string;
+  shares: string;
+  timestamp: Date;
+  /** When the minted shares may be transferred or withdrawn */
+  unlocksAt: Date;
+  refunded: boolean;
+  confirmation: ConfirmationLevel;
+}
+
+/** An open Nucleus atomic-queue request offering vault shares for `wantToken` */
+export interface WithdrawalQueueRequest {
+  offerToken: string;
+  wantToken: string;
+  /** Shares still offered, in base units */
+  amount: string;
+  /** Lowest acceptable want-token price per share, in base units */
+  minPrice: string;
+  deadline: Date;
+  requestedAt: Date;
+  /** Requests past their deadline can no longer be solved */
+  status: 'pending' | 'expired';
+  confirmation: ConfirmationLevel;
+}
+
+/** An account's earnETH holding with its Teller deposits and queued withdrawals; values in ETH */
+export interface NucleusAccount {
+  address: string;
+  shares: number;
+  value: number;
+  /** ETH per share */
+  rate: number;
+  /** Latest share unlock among the account's deposits, null once everything is unlocked */
+  sharesLockedUntil: Date | null;
+  deposits: TellerDeposit[];
+  pendingWithdrawals: WithdrawalQueueRequest[];
+}
+
+/** earnETH share price updates over a window and the yield they imply */
+export interface NucleusRateHistory {
+  /** Current ETH per share */
+  rate: number;
+  /** Annualized from the indexed updates; null until they span a day */
+  apy: number | null;
+  rates: VaultExchangeRate[];
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  name: string;
+  blockNumber?: number;
+  blockHash?: string;
+  safeBlockNumber?: number;
+  finalizedBlockNumber?: number;
+  head?: number;
+  /** Blocks between the chain head and the last indexed block */
+  lag?: number;
+  updatedAt?: Date;
+  error?: string;
+}
+
+export interface RpcEndpointMetrics {
+  /** Origin only; provider keys in the path are redacted */
+  url: string;
+  /** False while the endpoint is backing off after failures */
+  healthy: boolean;
+  /** 0-100 from recent error rate and latency; the highest scoring endpoint is tried first */
+  score: number;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  /** Moving average over recent requests */
+  latencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
+export interface RpcClientMetrics {
+  chainId: number;
+  endpoints: RpcEndpointMetrics[];
+  cache: { entries: number; hits: number; misses: number };
+  /** Requests answered by an identical request already in flight */
+  deduplicated: number;
+  batches: number;
+}
+
+export type ContractName = 'RiskOracle' | 'SwellScopeVault' | 'SwellChainIntegration';
+
+/** Addresses from one run of a Foundry deploy script */
+export interface ContractDeployment {
+  chainId: number;
+  /** Simulated with `forge script` but never broadcast */
+  dryRun: boolean;
+  commit: string | null;
+  deployedAt: string;
+  contracts: Partial<Record<ContractName, string>>;
+}
+
+export interface ContractsStatus {
+  chainId: number;
+  /** Contracts without an address are not deployed on this chain */
+  contracts: Partial<Record<ContractName, string>>;
+}
+
+export interface VaultStrategy {
+  address: string;
+  active: boolean;
+  /** Basis points of the vault's assets */
+  allocation: number;
+  /** 0-100 */
+  riskScore: number;
+  /** Basis points */
+  expectedYield: number;
+  /** Base units of the vault asset */
+  tvl: string;
+}
+
+export interface VaultState {
+  address: string;
+  asset: string;
+  /** Base units of `asset` */
+  totalAssets: string;
+  totalSupply: string;
+  /** Allocation-weighted strategy risk, 0-100 */
+  portfolioRiskScore: number;
+  /** Basis points allocated across active strategies */
+  totalAllocation: number;
+  managementFeeBps: number;
+  performanceFeeBps: number;
+  emergencyExitTriggered: boolean;
+  paused: boolean;
+  lastRiskUpdate: Date | null;
+  strategies: VaultStrategy[];
+}
+
+export interface VaultRiskProfile {
+  /** 0-100 */
+  maxRiskScore: number;
+  preferredYield: number;
+  autoRebalance: boolean;
+  lastRebalance: Date | null;
+}
+
+/** RiskOracle scores are in basis points, 0-10000 */
+export interface OracleRiskScore {
+  asset: string;
+  riskScore: number;
+  threshold: number;
+  slashingRisk: number;
+  liquidityRisk: number;
+  smartContractRisk: number;
+  marketRisk: number;
+  emergencyActive: boolean;
+  /** No oracle update within the staleness window */
+  stale: boolean;
+  lastUpdate: Date | null;
+}
+
+export interface IntegrationAVSMetrics {
+  name: string;
+  avsContract: string;
+  totalStaked: string;
+  performanceScore: number;
+  slashingEvents: number;
+  operatorCount: number;
+  isActive: boolean;
+}
+
+export interface IntegrationTokenMetrics {
+  token: string;
+  exchangeRate: string;
+  totalSupply: string;
+  backingAssets: string;
+  yieldRate: number;
+  slashingRisk: number;
+}
+
+export interface IntegrationMetrics {
+  address: string;
+  mach: IntegrationAVSMetrics;
+  swETH: IntegrationTokenMetrics;
+  rswETH: IntegrationTokenMetrics;
+  network: { isHealthy: boolean; finalityTime: number; gasPrice: string };
+}
+
+export interface BridgeRoute {
+  bridge: string;
+  /** Seconds */
+  estimatedTime: number;
+  /** Wei */
+  estimatedCost: string;
+}
+
+export interface IntegrationBridgeStatus {
+  operationId: string;
+  /** Unknown operations also read as pending */
+  status: 'pending' | 'confirmed';
+}
+
 // WebSocket Types
 export interface WebSocketMessage {
   type: string;
@@ -522,6 +1192,21 @@ export interface SubscriptionData {
   filters?: Record<string, any>;
 }
 
+export type SubscriptionDeniedCode =
+  | 'AUTHENTICATION_REQUIRED'
+  | 'TOKEN_EXPIRED'
+  | 'ADDRESS_NOT_AUTHORIZED'
+  | 'ADDRESS_REQUIRED'
+  | 'UNKNOWN_SUBSCRIPTION';
+
+export interface SubscriptionDeniedEvent {
+  type: string;
+  address?: string;
+  code: SubscriptionDeniedCode;
+  message: string;
+  timestamp: number;
+}
+
 // Configuration Types
 export interface ChainConfig {
   chainId: number;
@@ -552,16 +1237,99 @@ export interface SwellScopeError {
 
 // Request/Response Types
 export interface AuthRequest {
-  address: string;
+  address?: string;
   signature: string;
   message: string;
-  timestamp: number;
 }
 
-export interface AuthResponse {
+export interface SiweChallenge {
+  message: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+export interface SiweVerificationResult {
+  address: string;
+  chainId: number;
+  nonce: string;
+  resources: string[];
+}
+
+export interface AuthTokens {
   token: string;
-  user: User;
+  refreshToken: string;
+  sessionId: string;
   expiresAt: number;
+  refreshExpiresAt: number;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: User;
+}
+
+export interface UserSession {
+  id: string;
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  current?: boolean;
+}
+
+/**
+ * `read` keys may only make GET requests; `trade` keys may also create and change things
+ */
+export type ApiKeyScope = 'read' | 'trade';
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  /** Public part of the key, e.g. ssk_1a2b3c4d */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  /** IP addresses or CIDR ranges; empty means any address */
+  allowedIps: string[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Returned once when a key is created or rotated; the secret cannot be retrieved again
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKeyInfo;
+  key: string;
+}
+
+export type DashboardWidgetType =
+  | 'portfolio_value'
+  | 'risk_score'
+  | 'yield_chart'
+  | 'tvl_chart'
+  | 'avs_performance'
+  | 'alerts'
+  | 'bridge_activity';
+
+export interface DashboardWidget {
+  type: DashboardWidgetType;
+  title?: string;
+  position: { x: number; y: number; w: number; h: number };
+  config?: Record<string, unknown>;
+}
+
+export interface Dashboard {
+  id: string;
+  userId: string;
+  name: string;
+  widgets: DashboardWidget[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface PaginationParams {
@@ -588,10 +1356,40 @@ export interface CacheData {
   createdAt: Date;
 }
 
-export interface RateLimitData {
-  key: string;
-  count: number;
-  resetTime: number;
+export interface RateLimitPolicy {
+  name: string;
+  limit: number;
+  windowMs: number;
+  /** Count under this key instead of the subject's, to share a quota between subjects */
+  key?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the current window ends */
+  resetMs: number;
+  /** Milliseconds until a rejected request would be allowed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Outcome of checking several policies: the one that rejected, or the one with the least headroom
+ */
+export interface RateLimitDecision extends RateLimitResult {
+  policy: RateLimitPolicy;
+}
+
+/**
+ * Who a request is counted against: an authenticated user, an API key or, for anonymous traffic, the client IP
+ */
+export interface RateLimitSubject {
+  kind: 'user' | 'apiKey' | 'ip';
+  id: string;
+  tier: SubscriptionTier;
+  /** Owning user; API keys share their user's daily quota */
+  userId?: string;
 }
 
 export interface MetricsData {
@@ -609,24 +1407,91 @@ export type TokenSymbol = 'ETH' | 'swETH' | 'rswETH' | 'USDC' | 'USDT' | 'DAI';
 
 // Environment Types
 export interface EnvConfig {
-  NODE_ENV: string;
+  NODE_ENV: 'development' | 'test' | 'production';
   PORT: number;
   DATABASE_URL: string;
   REDIS_URL: string;
   JWT_SECRET: string;
+  DELETION_RECEIPT_SECRET?: string;
   SWELLCHAIN_RPC_URL: string;
   ETHEREUM_RPC_URL: string;
-  ALCHEMY_API_KEY: string;
-  MORALIS_API_KEY: string;
+  SWELLCHAIN_FALLBACK_RPC_URLS: string[];
+  ETHEREUM_FALLBACK_RPC_URLS: string[];
+  RPC_TIMEOUT_MS: number;
+  RPC_BATCH_SIZE: number;
+  RPC_CACHE_SIZE: number;
+  SWELLSCOPE_VAULT_ADDRESS?: string;
+  RISK_ORACLE_ADDRESS?: string;
+  SWELLCHAIN_INTEGRATION_ADDRESS?: string;
+  ION_PROTOCOL_ADDRESS?: string;
+  AMBIENT_PROTOCOL_ADDRESS?: string;
+  AMBIENT_POOL_TOKENS: string[];
+  AMBIENT_POOL_INDEX: number;
+  SWETH_DEX_POOL_ADDRESS?: string;
+  RSWETH_DEX_POOL_ADDRESS?: string;
+  DEPEG_THRESHOLDS: DepegThreshold[];
+  DEPEG_TWAP_SECONDS: number;
+  DEPEG_RETENTION_DAYS: number;
+  PRICE_FEEDS: PriceFeed[];
+  PRICE_TWAP_SECONDS: number;
+  PRICE_FIXTURES: PriceFixture[];
+  PRICE_MAX_DEVIATION_BPS: number;
+  PRICE_RETENTION_DAYS: number;
+  ALCHEMY_API_KEY?: string;
+  MORALIS_API_KEY?: string;
   CORS_ORIGIN: string;
-  RATE_LIMIT_WINDOW: number;
-  RATE_LIMIT_MAX: number;
-  LOG_LEVEL: string;
+  SIWE_DOMAIN?: string;
+  SIWE_URI?: string;
+  UPGRADE_URL?: string;
+  PAYMENT_RECEIVER_ADDRESS?: string;
+  PAYMENT_TOKEN_ADDRESS: string;
+  PAYMENT_TOKEN_SYMBOL: string;
+  PAYMENT_TOKEN_DECIMALS: number;
+  PAYMENT_CHAIN_ID: number;
+  PAYMENT_RPC_URL?: string;
+  PAYMENT_CONFIRMATIONS: number;
+  PAYMENT_WATCHER: 'rpc' | 'stub';
+  INDEXER_ENABLED: boolean;
+  INDEXER_ETHEREUM_RPC_URL?: string;
+  INDEXER_SWELLCHAIN_RPC_URL?: string;
+  INDEXER_ETHEREUM_START_BLOCK?: number;
+  INDEXER_SWELLCHAIN_START_BLOCK?: number;
+  INDEXER_CONFIRMATIONS?: number;
+  INDEXER_FINALITY_BLOCKS?: number;
+  INDEXER_BATCH_SIZE: number;
+  INDEXER_CONTRACTS: Record<string, string>;
+  RATE_LIMIT_WINDOW_MS: number;
+  RATE_LIMIT_MAX_REQUESTS: number;
+  TRUST_PROXY: boolean | number | string;
+  LOG_LEVEL: 'error' | 'warn' | 'info' | 'http' | 'debug';
   SENTRY_DSN?: string;
+  ADMIN_ADDRESSES: string[];
 }
 
 // Express Types
 export interface AuthenticatedRequest extends Request {
   user?: User;
   token?: string;
+  sessionId?: string;
+  /** Set when the request authenticated with an API key instead of a session token */
+  apiKey?: { id: string; scopes: ApiKeyScope[] };
+  rateLimitSubject?: RateLimitSubject;
+  /** Set by the address access middleware on /:address routes */
+  addressAccess?: AddressAccess;
+}
+
+/**
+ * Request whose params, query and body have been parsed by validateRequest
+ */
+export type ValidatedRequest<P = {}, Q = {}, B = {}> = Omit<AuthenticatedRequest, 'params' | 'query' | 'body'> & {
+  params: P;
+  query: Q;
+  body: B;
+};
+
+export interface FieldValidationError {
+  location: 'params' | 'query' | 'body';
+  field: string;
+  message: string;
+  code: string;
 } 
\ No newline at end of file
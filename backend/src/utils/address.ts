@@ -0,0 +1,12 @@
+/**
+ * Normalize an Ethereum address for storage and comparison
+ */
+export const normalizeAddress = (address: string): string => address.toLowerCase();
+
+/**
+ * Compare two Ethereum addresses ignoring checksum casing
+ */
+export const isSameAddress = (a?: string | null, b?: string | null): boolean => {
+  if (!a || !b) return false;
+  return normalizeAddress(a) === normalizeAddress(b);
+};
@@ -0,0 +1,71 @@
+export const ETHEREUM_CHAIN_ID = 1;
+export const SWELLCHAIN_CHAIN_ID = 1923;
+
+/**
+ * Deployed contracts SwellScope reads from. The chain each one lives on is noted alongside.
+ */
+export const SWELLCHAIN_CONTRACTS: Record<string, string> = {
+  // Only include contracts that actually exist
+  'MACH_SERVICE_MANAGER': '0x289dbe6573d6a1daf00110b5b1b2d8f0a34099c2', // MACH Service Manager Registry on Ethereum
+  'BRIDGE_L1': '0x758E0EE66102816F5C3Ec9ECc1188860fbb87812', // OptimismPortalProxy on Ethereum
+  'BRIDGE_L2': '0x4200000000000000000000000000000000000010', // Standard L2 Bridge
+  'L2_TO_L1_MESSAGE_PASSER': '0x4200000000000000000000000000000000000016', // OP Stack predeploy on Swellchain
+  'NUCLEUS_BORING_VAULT': '0x9ed15383940cc380faef0a75edace507cc775f22', // Nucleus/earnETH BoringVault
+  'NUCLEUS_MANAGER': '0x69fc700226e9e12d8c5e46a4b50a78efb64f50c0', // Nucleus Manager
+  'NUCLEUS_ACCOUNTANT': '0x411c78bc8c36c3c66784514f28c56209e1df2755', // Nucleus Accountant
+  'NUCLEUS_TELLER': '0x6D207874DDc8B1C3954a0BB2b21c6Fce2Aa18Dba' // Nucleus Teller
+};
+
+/**
+ * Contracts the chain indexer follows, by the chain they are deployed on. Ones without an address,
+ * here or in INDEXER_CONTRACTS, are skipped.
+ */
+export const INDEXED_CONTRACTS: Record<number, string[]> = {
+  [ETHEREUM_CHAIN_ID]: ['BRIDGE_L1', 'MACH_SERVICE_MANAGER'],
+  [SWELLCHAIN_CHAIN_ID]: [
+    'BRIDGE_L2',
+    'L2_TO_L1_MESSAGE_PASSER',
+    'NUCLEUS_BORING_VAULT',
+    'NUCLEUS_TELLER',
+    'NUCLEUS_ACCOUNTANT',
+    'NUCLEUS_ATOMIC_QUEUE'
+  ]
+};
+
+/**
+ * Blocks on top of a record before it counts as safe from reorgs, and before it is final
+ */
+export const CONFIRMATION_DEPTHS: Record<number, { safe: number; finalized: number }> = {
+  // Two epochs until Casper finality
+  [ETHEREUM_CHAIN_ID]: { safe: 12, finalized: 64 },
+  [SWELLCHAIN_CHAIN_ID]: { safe: 6, finalized: 12 }
+};
+
+export const BLOCK_TIME_MS: Record<number, number> = {
+  [ETHEREUM_CHAIN_ID]: 12000,
+  [SWELLCHAIN_CHAIN_ID]: 2000
+};
+
+/** Deployed at the same address on Ethereum and every OP Stack chain */
+export const MULTICALL3_ADDRESS = '0xca11bde05977b3631167028862be2a173976ca11';
+
+export const CHAIN_NAMES: Record<number, string> = {
+  [ETHEREUM_CHAIN_ID]: 'Ethereum',
+  [SWELLCHAIN_CHAIN_ID]: 'Swellchain'
+};
+
+/** Swell's liquid staking and restaking tokens on Ethereum */
+export const SWETH_ADDRESS = '0xf951e335afb289353dc249e82926178eac7ded78';
+export const RSWETH_ADDRESS = '0xfae103dc9cf190ed75350761e95403b7b8afa6c0';
+
+/** OP Stack WETH predeploy */
+export const SWELLCHAIN_WETH_ADDRESS = '0x4200000000000000000000000000000000000006';
+
+/** Symbols of the 18-decimal tokens indexed events refer to, keyed by lowercase address */
+export const TOKEN_SYMBOLS: Record<string, string> = {
+  '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': 'WETH',
+  [SWELLCHAIN_WETH_ADDRESS]: 'WETH',
+  [SWETH_ADDRESS]: 'swETH',
+  [RSWETH_ADDRESS]: 'rswETH',
+  [SWELLCHAIN_CONTRACTS.NUCLEUS_BORING_VAULT]: 'earnETH'
+};
@@ -0,0 +1,33 @@
+/**
+ * Format one value as a CSV field (RFC 4180). Dates become ISO strings and objects JSON.
+ */
+const toField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  // Keep spreadsheet apps from evaluating user-supplied text as a formula
+  if (/^[=+\-@\t\r]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render rows as CSV with a header line, using the given columns in order
+ */
+export const toCsv = <T extends object>(rows: T[], columns: Array<keyof T & string>): string => {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => toField(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,39 @@
+import net from 'net';
+
+/**
+ * Whether an entry is a valid IPv4/IPv6 address or CIDR range
+ */
+export const isIpOrCidr = (entry: string): boolean => {
+  const [address, prefix, ...rest] = entry.split('/');
+  const family = net.isIP(address);
+  if (!family || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+
+  const bits = Number(prefix);
+  return /^\d+$/.test(prefix) && bits <= (family === 4 ? 32 : 128);
+};
+
+/**
+ * Check a client IP against an allowlist of addresses and CIDR ranges. An empty list allows everything.
+ */
+export const isIpAllowed = (ip: string | undefined, allowlist: string[]): boolean => {
+  if (allowlist.length === 0) return true;
+  if (!ip) return false;
+
+  // Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+  const client = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const clientType = net.isIPv4(client) ? 'ipv4' : 'ipv6';
+
+  const blockList = new net.BlockList();
+  for (const entry of allowlist) {
+    const [address, prefix] = entry.split('/');
+    const type = net.isIPv4(address) ? 'ipv4' : 'ipv6';
+    if (prefix === undefined) {
+      blockList.addAddress(address, type);
+    } else {
+      blockList.addSubnet(address, Number(prefix), type);
+    }
+  }
+
+  return blockList.check(client, clientType);
+};
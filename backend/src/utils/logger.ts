@@ -1,4 +1,5 @@
 import winston from 'winston';
+import { config } from '../config';
 
 // Define log levels
 const levels = {
@@ -62,7 +63,7 @@ const transports = [
 
 // Define logger configuration
 const Logger = winston.createLogger({
-  level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
+  level: config.LOG_LEVEL,
   levels,
   transports,
   // Do not exit on handled exceptions
@@ -0,0 +1,44 @@
+import { buildSiweMessage, parseSiweMessage, SiweMessageFields } from './siwe';
+
+const FIELDS: SiweMessageFields = {
+  domain: 'app.swellscope.io',
+  address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  statement: 'Sign in to SwellScope',
+  uri: 'https://app.swellscope.io',
+  version: '1',
+  chainId: 1923,
+  nonce: '3f2a9c1d8e7b6a5f4e3d2c1b0a998877',
+  issuedAt: '2026-10-19T12:00:00.000Z',
+  expirationTime: '2026-10-19T12:10:00.000Z',
+  resources: ['swellscope:organization:org_1']
+};
+
+describe('SIWE messages', () => {
+  it('parses back the fields a message was built from', () => {
+    const message = buildSiweMessage(FIELDS);
+
+    expect(message.split('\n').slice(0, 4)).toEqual([
+      'app.swellscope.io wants you to sign in with your Ethereum account:',
+      FIELDS.address,
+      '',
+      'Sign in to SwellScope'
+    ]);
+    expect(parseSiweMessage(message)).toEqual({ ...FIELDS, notBefore: undefined, requestId: undefined });
+  });
+
+  it('parses a message without a statement or resources', () => {
+    const fields = { ...FIELDS, statement: undefined, resources: undefined };
+
+    expect(parseSiweMessage(buildSiweMessage(fields))).toMatchObject({ statement: undefined, resources: undefined, uri: FIELDS.uri });
+  });
+
+  it('rejects messages missing required fields or with a bad address', () => {
+    const message = buildSiweMessage(FIELDS);
+
+    expect(parseSiweMessage(message.replace(/\nNonce: .*/, ''))).toBeNull();
+    expect(parseSiweMessage(message.replace('Version: 1', 'Version: 2'))).toBeNull();
+    expect(parseSiweMessage(message.replace(FIELDS.address, '0x1234'))).toBeNull();
+    expect(parseSiweMessage(message.replace(' wants you to sign in', ' wants you to log in'))).toBeNull();
+    expect(parseSiweMessage(`${message}\nnot a field`)).toBeNull();
+  });
+});
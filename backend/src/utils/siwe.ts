@@ -0,0 +1,123 @@
+import { getAddress, isAddress } from 'viem';
+
+/**
+ * EIP-4361 (Sign-In with Ethereum) message fields
+ * See https://eips.ethereum.org/EIPS/eip-4361
+ */
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+/**
+ * Serialize SIWE fields into the exact text the wallet signs
+ */
+export function buildSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain}${HEADER_SUFFIX}`,
+    getAddress(fields.address),
+    ''
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement);
+  }
+
+  lines.push(
+    '',
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  if (fields.requestId) lines.push(`Request ID: ${fields.requestId}`);
+
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse a SIWE message. Returns null when the text is not a well-formed EIP-4361 message.
+ */
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split('\n');
+
+  const header = lines[0];
+  if (!header?.endsWith(HEADER_SUFFIX)) return null;
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const address = lines[1];
+  if (!address || !isAddress(address)) return null;
+  if (lines[2] !== '') return null;
+
+  // Optional statement followed by an empty line
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== '' && !lines[index]?.startsWith('URI: ')) {
+    statement = lines[index];
+    index++;
+  }
+  if (lines[index] === '') index++;
+
+  const fields: Record<string, string> = {};
+  const resources: string[] = [];
+  let inResources = false;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (inResources) {
+      if (!line.startsWith('- ')) return null;
+      resources.push(line.slice(2));
+      continue;
+    }
+
+    if (line === 'Resources:') {
+      inResources = true;
+      continue;
+    }
+
+    const separator = line.indexOf(': ');
+    if (separator === -1) return null;
+    fields[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+
+  const chainId = Number(fields['Chain ID']);
+  if (!fields['URI'] || fields['Version'] !== '1' || !Number.isInteger(chainId) || !fields['Nonce'] || !fields['Issued At']) {
+    return null;
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId,
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time'],
+    notBefore: fields['Not Before'],
+    requestId: fields['Request ID'],
+    resources: resources.length ? resources : undefined
+  };
+}
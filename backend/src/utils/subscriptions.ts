@@ -0,0 +1,129 @@
+import { PaidSubscriptionTier, SubscriptionLimits, SubscriptionTier, UserSubscription } from '../types';
+
+// Feature flags granted by each subscription tier
+export const SUBSCRIPTION_FEATURES: Record<SubscriptionTier, string[]> = {
+  free: [
+    'basic_analytics',
+    'portfolio_tracking',
+    'risk_alerts'
+  ],
+  basic: [
+    'basic_analytics',
+    'portfolio_tracking',
+    'risk_alerts',
+    'email_support'
+  ],
+  premium: [
+    'advanced_analytics',
+    'unlimited_positions',
+    'custom_strategies',
+    'real_time_alerts',
+    'api_access',
+    'priority_support'
+  ],
+  enterprise: [
+    'white_label',
+    'custom_integrations',
+    'dedicated_support',
+    'sla_guarantee',
+    'bulk_operations',
+    'advanced_reporting'
+  ]
+};
+
+// Usage limits for each subscription tier
+export const SUBSCRIPTION_LIMITS: Record<SubscriptionTier, SubscriptionLimits> = {
+  free: {
+    maxPositions: 5,
+    maxStrategies: 1,
+    apiCalls: 1000,
+    apiCallsPerMinute: 100,
+    historicalData: 30,
+    alerts: 10,
+    customDashboards: 1,
+    watchedWallets: 3
+  },
+  basic: {
+    maxPositions: 20,
+    maxStrategies: 5,
+    apiCalls: 10000,
+    apiCallsPerMinute: 200,
+    historicalData: 90,
+    alerts: 50,
+    customDashboards: 3,
+    watchedWallets: 10
+  },
+  premium: {
+    maxPositions: 100,
+    maxStrategies: 25,
+    apiCalls: 100000,
+    apiCallsPerMinute: 1000,
+    historicalData: 365,
+    alerts: 250,
+    customDashboards: 10,
+    watchedWallets: 50
+  },
+  enterprise: {
+    maxPositions: 1000,
+    maxStrategies: 100,
+    apiCalls: 1000000,
+    apiCallsPerMinute: 5000,
+    historicalData: 1825,
+    alerts: 1000,
+    customDashboards: 50,
+    watchedWallets: 500
+  }
+};
+
+export const SUBSCRIPTION_TIERS = Object.keys(SUBSCRIPTION_LIMITS) as SubscriptionTier[];
+
+// Monthly price of each paid tier in USD
+export const SUBSCRIPTION_PRICES_USD: Record<PaidSubscriptionTier, number> = {
+  basic: 29,
+  premium: 99,
+  enterprise: 499
+};
+
+export const SUBSCRIPTION_PERIOD_DAYS = 30;
+export const SUBSCRIPTION_GRACE_PERIOD_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function getGracePeriodEnd(expiresAt: Date): Date {
+  return addDays(expiresAt, SUBSCRIPTION_GRACE_PERIOD_DAYS);
+}
+
+/**
+ * A subscription has lapsed once its grace period is over; subscriptions without an expiry never lapse
+ */
+export function isSubscriptionLapsed(expiresAt?: Date | null, now: number = Date.now()): boolean {
+  return !!expiresAt && getGracePeriodEnd(expiresAt).getTime() <= now;
+}
+
+export function isSubscriptionTier(tier: string): tier is SubscriptionTier {
+  return SUBSCRIPTION_TIERS.includes(tier as SubscriptionTier);
+}
+
+export function getSubscriptionFeatures(tier: string): string[] {
+  return isSubscriptionTier(tier) ? SUBSCRIPTION_FEATURES[tier] : SUBSCRIPTION_FEATURES.basic;
+}
+
+/**
+ * Build the subscription view for a user from the persisted tier columns
+ */
+export function buildSubscription(tier: string, isActive: boolean, expiresAt?: Date | null): UserSubscription {
+  const resolvedTier: SubscriptionTier = isSubscriptionTier(tier) ? tier : 'free';
+
+  return {
+    tier: resolvedTier,
+    isActive,
+    expiresAt: expiresAt || undefined,
+    graceEndsAt: expiresAt && resolvedTier !== 'free' ? getGracePeriodEnd(expiresAt) : undefined,
+    features: SUBSCRIPTION_FEATURES[resolvedTier],
+    limits: SUBSCRIPTION_LIMITS[resolvedTier]
+  };
+}
@@ -0,0 +1,228 @@
+import { z, ZodTypeAny } from 'zod';
+
+/**
+ * JSON Schema (2020-12 / OpenAPI 3.1) subset produced from request and response schemas
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  pattern?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * Schemas emitted as `$ref`s to `#/components/schemas/<name>` rather than inline
+ */
+export type SchemaNames = Map<ZodTypeAny, string>;
+
+/**
+ * Convert a zod schema to JSON Schema describing the accepted *input*.
+ * Refinements and transforms are not representable, so the inner schema is used.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny, names?: SchemaNames): JsonSchema {
+  const named = names && findNamed(schema, names);
+  if (named) {
+    return {
+      $ref: `#/components/schemas/${named.name}`,
+      ...(schema !== named.schema && schema.description && { description: schema.description })
+    };
+  }
+
+  const json = convert(schema, names);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+/**
+ * JSON Schema for every named schema, keyed by name; references between them stay `$ref`s
+ */
+export function componentSchemas(names: SchemaNames): Record<string, JsonSchema> {
+  const components: Record<string, JsonSchema> = {};
+  for (const [schema, name] of names) {
+    const json = convert(schema, names);
+    components[name] = schema.description ? { ...json, description: schema.description } : json;
+  }
+  return components;
+}
+
+/**
+ * Whether the field may be omitted from the input
+ */
+export function isOptionalInput(schema: ZodTypeAny): boolean {
+  return schema.isOptional() || schema instanceof z.ZodDefault;
+}
+
+/**
+ * The named schema `schema` is, or a `.describe()` copy of
+ */
+function findNamed(schema: ZodTypeAny, names: SchemaNames): { schema: ZodTypeAny; name: string } | undefined {
+  const name = names.get(schema);
+  if (name) return { schema, name };
+  if (!schema.description) return undefined;
+
+  for (const [candidate, candidateName] of names) {
+    const keys = new Set([...Object.keys(candidate._def), ...Object.keys(schema._def)]);
+    keys.delete('description');
+    if (candidate.constructor === schema.constructor && [...keys].every(key => candidate._def[key] === schema._def[key])) {
+      return { schema: candidate, name: candidateName };
+    }
+  }
+  return undefined;
+}
+
+function convert(schema: ZodTypeAny, names?: SchemaNames): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap(), names);
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap(), names);
+    return { anyOf: [inner, { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault(), names), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType(), names);
+  }
+
+  if (schema instanceof z.ZodObject) {
+    return objectToJsonSchema(schema, names);
+  }
+
+  if (schema instanceof z.ZodString) {
+    return stringToJsonSchema(schema);
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    return numberToJsonSchema(schema);
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: zodToJsonSchema(schema.element, names),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value })
+    };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema, names) };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(option => zodToJsonSchema(option, names)) };
+  }
+
+  // Anything else (z.any, z.unknown, ...) accepts any value
+  return {};
+}
+
+function objectToJsonSchema(schema: z.AnyZodObject, names?: SchemaNames): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries<ZodTypeAny>(schema.shape)) {
+    properties[key] = zodToJsonSchema(value, names);
+    if (!isOptionalInput(value)) {
+      required.push(key);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    ...(schema._def.unknownKeys === 'strict' && { additionalProperties: false })
+  };
+}
+
+function stringToJsonSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+    }
+  }
+
+  return json;
+}
+
+function numberToJsonSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        if (check.inclusive) json.minimum = check.value;
+        else json.exclusiveMinimum = check.value;
+        break;
+      case 'max':
+        if (check.inclusive) json.maximum = check.value;
+        else json.exclusiveMaximum = check.value;
+        break;
+    }
+  }
+
+  return json;
+}
@@ -1,25 +1,30 @@
 import { useState, useEffect, useCallback } from 'react';
-import { PortfolioData, Position, Strategy, Recommendation, ApiResponse } from '../types';
+import type {
+  PortfolioData,
+  PostPortfolioByAddressRebalanceBody,
+  PostPortfolioByAddressStrategiesBody,
+  Recommendation,
+} from '@swellscope/sdk';
+import { apiClient } from '../lib/api';
 
 interface UsePortfolioManagementReturn {
   portfolioData: PortfolioData | null;
+  recommendations: Recommendation[];
   isLoading: boolean;
   isRebalancing: boolean;
   error: string | null;
-  rebalancePortfolio: (strategyId?: string) => Promise<boolean>;
-  executeRecommendation: (recommendationId: string) => Promise<boolean>;
-  updateStrategy: (strategyId: string, updates: Partial<Strategy>) => Promise<boolean>;
+  rebalancePortfolio: (request: PostPortfolioByAddressRebalanceBody) => Promise<boolean>;
+  createStrategy: (strategy: PostPortfolioByAddressStrategiesBody) => Promise<boolean>;
   refreshPortfolio: () => void;
 }
 
 export function usePortfolioManagement(address?: string): UsePortfolioManagementReturn {
   const [portfolioData, setPortfolioData] = useState<PortfolioData | null>(null);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRebalancing, setIsRebalancing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
-
   const fetchPortfolioData = useCallback(async () => {
     if (!address) {
       setIsLoading(false);
@@ -30,60 +35,33 @@ export function usePortfolioManagement(address?: string): UsePortfolioManagement
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch(`${apiUrl}/api/v1/portfolio/${address}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result: ApiResponse<PortfolioData> = await response.json();
+      const [portfolio, pending] = await Promise.all([
+        apiClient.portfolio.get(address),
+        apiClient.portfolio.getRecommendations(address),
+      ]);
 
-      if (result.success && result.data) {
-        setPortfolioData(result.data);
-      } else {
-        throw new Error(result.error || 'Failed to fetch portfolio data');
-      }
+      setPortfolioData(portfolio);
+      setRecommendations(pending);
     } catch (err) {
       console.error('Error fetching portfolio data:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch portfolio data');
     } finally {
       setIsLoading(false);
     }
-  }, [address, apiUrl]);
+  }, [address]);
 
-  const rebalancePortfolio = useCallback(async (strategyId?: string): Promise<boolean> => {
+  const rebalancePortfolio = useCallback(async (request: PostPortfolioByAddressRebalanceBody): Promise<boolean> => {
     if (!address) return false;
 
     try {
       setIsRebalancing(true);
       setError(null);
 
-      const response = await fetch(`${apiUrl}/api/v1/portfolio/${address}/rebalance`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-        },
-        body: JSON.stringify({ strategyId }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result: ApiResponse<{ transactionHash: string; newAllocation: any }> = await response.json();
-
-      if (result.success) {
-        // Refresh portfolio data after successful rebalancing
-        await fetchPortfolioData();
-        return true;
-      } else {
-        throw new Error(result.error || 'Failed to rebalance portfolio');
-      }
+      await apiClient.portfolio.rebalance(address, request);
+
+      // Refresh portfolio data after successful rebalancing
+      await fetchPortfolioData();
+      return true;
     } catch (err) {
       console.error('Error rebalancing portfolio:', err);
       setError(err instanceof Error ? err.message : 'Failed to rebalance portfolio');
@@ -91,82 +69,22 @@ export function usePortfolioManagement(address?: string): UsePortfolioManagement
     } finally {
       setIsRebalancing(false);
     }
-  }, [address, apiUrl, fetchPortfolioData]);
+  }, [address, fetchPortfolioData]);
 
-  const executeRecommendation = useCallback(async (recommendationId: string): Promise<boolean> => {
+  const createStrategy = useCallback(async (strategy: PostPortfolioByAddressStrategiesBody): Promise<boolean> => {
     if (!address) return false;
 
     try {
-      const response = await fetch(`${apiUrl}/api/v1/portfolio/${address}/recommendations/${recommendationId}/execute`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result: ApiResponse<{ success: boolean }> = await response.json();
-
-      if (result.success) {
-        // Refresh portfolio data after executing recommendation
-        await fetchPortfolioData();
-        return true;
-      } else {
-        throw new Error(result.error || 'Failed to execute recommendation');
-      }
-    } catch (err) {
-      console.error('Error executing recommendation:', err);
-      setError(err instanceof Error ? err.message : 'Failed to execute recommendation');
-      return false;
-    }
-  }, [address, apiUrl, fetchPortfolioData]);
+      const created = await apiClient.portfolio.createStrategy(address, strategy);
 
-  const updateStrategy = useCallback(async (strategyId: string, updates: Partial<Strategy>): Promise<boolean> => {
-    if (!address) return false;
-
-    try {
-      const response = await fetch(`${apiUrl}/api/v1/portfolio/${address}/strategies/${strategyId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-        },
-        body: JSON.stringify(updates),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result: ApiResponse<Strategy> = await response.json();
-
-      if (result.success && result.data) {
-        // Update the strategy in the portfolio data
-        setPortfolioData(prev => {
-          if (!prev) return prev;
-          
-          return {
-            ...prev,
-            strategies: prev.strategies.map(strategy =>
-              strategy.id === strategyId 
-                ? { ...strategy, ...result.data }
-                : strategy
-            ),
-          };
-        });
-        return true;
-      } else {
-        throw new Error(result.error || 'Failed to update strategy');
-      }
+      setPortfolioData(prev => prev ? { ...prev, strategies: [...prev.strategies, created] } : prev);
+      return true;
     } catch (err) {
-      console.error('Error updating strategy:', err);
-      setError(err instanceof Error ? err.message : 'Failed to update strategy');
+      console.error('Error creating strategy:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create strategy');
       return false;
     }
-  }, [address, apiUrl]);
+  }, [address]);
 
   const refreshPortfolio = useCallback(() => {
     fetchPortfolioData();
@@ -190,12 +108,12 @@ export function usePortfolioManagement(address?: string): UsePortfolioManagement
 
   return {
     portfolioData,
+    recommendations,
     isLoading,
     isRebalancing,
     error,
     rebalancePortfolio,
-    executeRecommendation,
-    updateStrategy,
+    createStrategy,
     refreshPortfolio,
   };
 } 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
-import { RiskMetrics, RiskAlert, RiskProfile, ApiResponse } from '../types';
+import type { PutRiskProfileByAddressBody, RiskAlert, RiskMetrics, RiskProfile } from '@swellscope/sdk';
+import { apiClient } from '../lib/api';
 
 interface UseRiskAssessmentReturn {
   riskMetrics: RiskMetrics | null;
@@ -7,8 +8,8 @@ interface UseRiskAssessmentReturn {
   riskProfile: RiskProfile | null;
   isLoadingRisk: boolean;
   error: string | null;
-  updateRiskProfile: (profile: Partial<RiskProfile>) => Promise<boolean>;
-  markAlertAsRead: (alertId: string) => void;
+  updateRiskProfile: (profile: PutRiskProfileByAddressBody) => Promise<boolean>;
+  dismissAlert: (alertId: string) => void;
   refreshRiskData: () => void;
 }
 
@@ -19,8 +20,6 @@ export function useRiskAssessment(address?: string): UseRiskAssessmentReturn {
   const [isLoadingRisk, setIsLoadingRisk] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
-
   const fetchRiskData = useCallback(async () => {
     if (!address) {
       setIsLoadingRisk(false);
@@ -31,106 +30,54 @@ export function useRiskAssessment(address?: string): UseRiskAssessmentReturn {
       setIsLoadingRisk(true);
       setError(null);
 
-      // Parallel fetch of risk data
-      const [metricsResponse, alertsResponse, profileResponse] = await Promise.all([
-        fetch(`${apiUrl}/api/v1/risk/metrics/${address}`, {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-          },
-        }),
-        fetch(`${apiUrl}/api/v1/risk/alerts/${address}`, {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-          },
-        }),
-        fetch(`${apiUrl}/api/v1/risk/profile/${address}`, {
-          headers: {
-            'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-          },
-        }),
+      // Parallel fetch of risk data; one failing section shouldn't blank the others
+      const [metrics, alerts, profile] = await Promise.allSettled([
+        apiClient.risk.getMetrics(address),
+        apiClient.risk.getAlerts(address),
+        apiClient.risk.getProfile(address),
       ]);
 
-      // Process risk metrics
-      if (metricsResponse.ok) {
-        const metricsResult: ApiResponse<RiskMetrics> = await metricsResponse.json();
-        if (metricsResult.success && metricsResult.data) {
-          setRiskMetrics(metricsResult.data);
-        }
-      }
-
-      // Process risk alerts
-      if (alertsResponse.ok) {
-        const alertsResult: ApiResponse<RiskAlert[]> = await alertsResponse.json();
-        if (alertsResult.success && alertsResult.data) {
-          setRiskAlerts(alertsResult.data);
-        }
-      }
+      if (metrics.status === 'fulfilled') setRiskMetrics(metrics.value);
+      if (alerts.status === 'fulfilled') setRiskAlerts(alerts.value);
+      if (profile.status === 'fulfilled') setRiskProfile(profile.value);
 
-      // Process risk profile
-      if (profileResponse.ok) {
-        const profileResult: ApiResponse<RiskProfile> = await profileResponse.json();
-        if (profileResult.success && profileResult.data) {
-          setRiskProfile(profileResult.data);
-        }
+      const failure = [metrics, alerts, profile].find(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      );
+      if (failure) {
+        throw failure.reason;
       }
-
     } catch (err) {
       console.error('Error fetching risk data:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch risk data');
     } finally {
       setIsLoadingRisk(false);
     }
-  }, [address, apiUrl]);
+  }, [address]);
 
-  const updateRiskProfile = useCallback(async (profileUpdates: Partial<RiskProfile>): Promise<boolean> => {
+  const updateRiskProfile = useCallback(async (profileUpdates: PutRiskProfileByAddressBody): Promise<boolean> => {
     if (!address) return false;
 
     try {
-      const response = await fetch(`${apiUrl}/api/v1/risk/profile/${address}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-        },
-        body: JSON.stringify(profileUpdates),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result: ApiResponse<RiskProfile> = await response.json();
-
-      if (result.success && result.data) {
-        setRiskProfile(result.data);
-        return true;
-      } else {
-        throw new Error(result.error || 'Failed to update risk profile');
-      }
+      setRiskProfile(await apiClient.risk.updateProfile(address, profileUpdates));
+      return true;
     } catch (err) {
       console.error('Error updating risk profile:', err);
       setError(err instanceof Error ? err.message : 'Failed to update risk profile');
       return false;
     }
-  }, [address, apiUrl]);
-
-  const markAlertAsRead = useCallback((alertId: string) => {
-    setRiskAlerts(prev => 
-      prev.map(alert => 
-        alert.id === alertId 
-          ? { ...alert, isRead: true }
-          : alert
-      )
-    );
-
-    // Also update on server
-    fetch(`${apiUrl}/api/v1/risk/alerts/${alertId}/read`, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-      },
-    }).catch(err => console.error('Error marking alert as read:', err));
-  }, [apiUrl]);
+  }, [address]);
+
+  const dismissAlert = useCallback((alertId: string) => {
+    if (!address) return;
+
+    setRiskAlerts(prev => prev.filter(alert => alert.id !== alertId));
+
+    // Dismissal is persisted server-side so the alert stays gone on the next refresh
+    apiClient.risk
+      .dismissAlerts(address, [alertId])
+      .catch(err => console.error('Error dismissing alert:', err));
+  }, [address]);
 
   const refreshRiskData = useCallback(() => {
     fetchRiskData();
@@ -159,7 +106,7 @@ export function useRiskAssessment(address?: string): UseRiskAssessmentReturn {
     isLoadingRisk,
     error,
     updateRiskProfile,
-    markAlertAsRead,
+    dismissAlert,
     refreshRiskData,
   };
 } 
\ No newline at end of file
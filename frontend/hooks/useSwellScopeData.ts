@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
-import { AnalyticsData, ApiResponse } from '../types';
+import type { AnalyticsData } from '@swellscope/sdk';
+import { apiClient } from '../lib/api';
 
 interface UseSwellScopeDataReturn {
   analyticsData: AnalyticsData | null;
@@ -15,8 +16,6 @@ export function useSwellScopeData(address?: string): UseSwellScopeDataReturn {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<number | null>(null);
 
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
-
   const fetchAnalytics = useCallback(async () => {
     if (!address) {
       setIsLoadingAnalytics(false);
@@ -27,33 +26,15 @@ export function useSwellScopeData(address?: string): UseSwellScopeDataReturn {
       setIsLoadingAnalytics(true);
       setError(null);
 
-      const response = await fetch(`${apiUrl}/api/v1/analytics/overview`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('swellscope_token') || ''}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const result: ApiResponse<AnalyticsData> = await response.json();
-
-      if (result.success && result.data) {
-        setAnalyticsData(result.data);
-        setLastUpdate(Date.now());
-      } else {
-        throw new Error(result.error || 'Failed to fetch analytics data');
-      }
+      setAnalyticsData(await apiClient.analytics.getOverview());
+      setLastUpdate(Date.now());
     } catch (err) {
       console.error('Error fetching analytics:', err);
       setError(err instanceof Error ? err.message : 'Unknown error occurred');
     } finally {
       setIsLoadingAnalytics(false);
     }
-  }, [address, apiUrl]);
+  }, [address]);
 
   const refreshAnalytics = useCallback(() => {
     fetchAnalytics();
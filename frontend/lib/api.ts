@@ -0,0 +1,33 @@
+import { AuthTokens, SwellScopeClient, TokenStore } from "@swellscope/sdk";
+
+const ACCESS_TOKEN_KEY = "swellscope_token";
+const REFRESH_TOKEN_KEY = "swellscope_refresh_token";
+
+/**
+ * Keeps the session in localStorage so it survives reloads; a no-op during SSR
+ */
+class LocalStorageTokenStore implements TokenStore {
+  getAccessToken(): string | null {
+    return typeof window === "undefined" ? null : localStorage.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return typeof window === "undefined" ? null : localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  setTokens(tokens: AuthTokens | null): void {
+    if (typeof window === "undefined") return;
+    if (tokens) {
+      localStorage.setItem(ACCESS_TOKEN_KEY, tokens.token);
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    } else {
+      localStorage.removeItem(ACCESS_TOKEN_KEY);
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
+    }
+  }
+}
+
+export const apiClient = new SwellScopeClient({
+  baseUrl: process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001",
+  tokenStore: new LocalStorageTokenStore(),
+});
@@ -388,10 +388,12 @@ export interface UserSubscription {
 export interface SubscriptionLimits {
   maxPositions: number;
   maxStrategies: number;
-  apiCalls: number;
+  apiCalls: number; // per day
+  apiCallsPerMinute: number;
   historicalData: number; // days
   alerts: number;
   customDashboards: number;
+  watchedWallets: number;
 }
 
 // Configuration Types
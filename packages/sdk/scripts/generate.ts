@@ -0,0 +1,240 @@
+/**
+ * Generate src/generated/operations.ts and src/generated/models.ts from the backend's OpenAPI document.
+ *
+ *   npm run generate                                               # from the checked-in openapi.json
+ *   npm run generate -- --from http://localhost:3001/api/v1/openapi.json   # refresh the snapshot first
+ */
+import fs from 'fs';
+import path from 'path';
+
+interface JsonSchema {
+  $ref?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  security?: Array<Record<string, string[]>>;
+  parameters?: Parameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { $ref?: string; content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+interface Document {
+  info: { version: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const ROOT = path.resolve(__dirname, '..');
+const SNAPSHOT = path.join(ROOT, 'openapi.json');
+const OPERATIONS_OUTPUT = path.join(ROOT, 'src/generated/operations.ts');
+const MODELS_OUTPUT = path.join(ROOT, 'src/generated/models.ts');
+
+// The response envelope and errors are handled by the HTTP client, not exposed as models
+const ENVELOPE_SCHEMAS = new Set(['ApiResponse', 'ErrorResponse', 'ValidationErrorResponse']);
+
+// Models named by the types rendered since the last clear()
+const referencedModels = new Set<string>();
+
+async function main(): Promise<void> {
+  const fromIndex = process.argv.indexOf('--from');
+  if (fromIndex !== -1) {
+    const source = process.argv[fromIndex + 1];
+    const text = source.startsWith('http')
+      ? await fetch(source).then(response => response.text())
+      : fs.readFileSync(source, 'utf8');
+    fs.writeFileSync(SNAPSHOT, `${JSON.stringify(JSON.parse(text), null, 2)}\n`);
+  }
+
+  const document: Document = JSON.parse(fs.readFileSync(SNAPSHOT, 'utf8'));
+  fs.writeFileSync(MODELS_OUTPUT, renderModels(document));
+  fs.writeFileSync(OPERATIONS_OUTPUT, renderOperations(document));
+  console.log(`Wrote ${path.relative(process.cwd(), MODELS_OUTPUT)} and ${path.relative(process.cwd(), OPERATIONS_OUTPUT)}`);
+}
+
+function header(document: Document): string {
+  return `// Generated by scripts/generate.ts from openapi.json (API ${document.info.version}). Do not edit by hand.`;
+}
+
+function renderModels(document: Document): string {
+  const declarations = Object.entries(document.components.schemas)
+    .filter(([name]) => !ENVELOPE_SCHEMAS.has(name))
+    .map(([name, schema]) => {
+      const comment = schema.description ? `/** ${schema.description} */\n` : '';
+      return schema.type === 'object' && schema.properties
+        ? `${comment}export interface ${name} ${renderType(schema, '')}`
+        : `${comment}export type ${name} = ${renderType(schema, '')};`;
+    });
+
+  return [header(document), '', ...declarations.flatMap(declaration => [declaration, ''])].join('\n');
+}
+
+function renderOperations(document: Document): string {
+  referencedModels.clear();
+  const table: string[] = [];
+  const inputs: string[] = [];
+  const results: string[] = [];
+  const declarations: string[] = [];
+
+  for (const [route, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const id = operation.operationId;
+      const typeName = id[0].toUpperCase() + id.slice(1);
+      const parameters = operation.parameters || [];
+      const pathParams = parameters.filter(parameter => parameter.in === 'path');
+      const queryParams = parameters.filter(parameter => parameter.in === 'query');
+      const body = operation.requestBody?.content['application/json']?.schema;
+
+      table.push(`  ${id}: { method: '${method.toUpperCase()}', path: '${route}', auth: '${authOf(operation)}' },`);
+
+      const parts: string[] = [];
+      if (pathParams.length > 0) {
+        declarations.push(renderParameters(`${typeName}Params`, pathParams));
+        parts.push(`params: ${typeName}Params`);
+      }
+      if (queryParams.length > 0) {
+        declarations.push(renderParameters(`${typeName}Query`, queryParams));
+        const optional = queryParams.every(parameter => !parameter.required);
+        parts.push(`query${optional ? '?' : ''}: ${typeName}Query`);
+      }
+      if (body) {
+        declarations.push(`/** ${operation.summary} */\nexport type ${typeName}Body = ${renderType(body, '')};`);
+        parts.push(`body${operation.requestBody?.required ? '' : '?'}: ${typeName}Body`);
+      }
+
+      inputs.push(`  ${id}: ${parts.length > 0 ? `{ ${parts.join('; ')} }` : '{}'};`);
+
+      // The envelope's `data`; operations that don't answer with JSON can't be called through the client
+      const envelope = operation.responses['200']?.content?.['application/json']?.schema;
+      const data = envelope?.allOf?.find(part => part.properties?.data)?.properties?.data;
+      results.push(`  ${id}: ${data ? renderType(data, '  ') : 'never'};`);
+    }
+  }
+
+  const source = [
+    `export type AuthRequirement = 'required' | 'optional' | 'none';`,
+    '',
+    'export const OPERATIONS = {',
+    ...table,
+    '} as const;',
+    '',
+    'export type OperationId = keyof typeof OPERATIONS;',
+    '',
+    ...declarations.flatMap(declaration => [declaration, '']),
+    '/**',
+    ' * Request input accepted by each operation',
+    ' */',
+    'export interface OperationInputs {',
+    ...inputs,
+    '}',
+    '',
+    '/**',
+    ' * The `data` each operation resolves to',
+    ' */',
+    'export interface OperationResults {',
+    ...results,
+    '}',
+    ''
+  ].join('\n');
+
+  const models = Array.from(referencedModels).sort();
+
+  return [
+    header(document),
+    '',
+    ...(models.length > 0 ? [`import type {\n${models.map(name => `  ${name}`).join(',\n')}\n} from './models';`, ''] : []),
+    source
+  ].join('\n');
+}
+
+function authOf(operation: Operation): string {
+  const security = operation.security || [];
+  if (security.length === 0) return 'none';
+  return security.some(requirement => Object.keys(requirement).length === 0) ? 'optional' : 'required';
+}
+
+function renderParameters(name: string, parameters: Parameter[]): string {
+  const fields = parameters.map(parameter =>
+    `${doc(parameter.schema, '  ')}  ${parameter.name}${parameter.required ? '' : '?'}: ${renderType(parameter.schema, '  ')};`
+  );
+  return `export interface ${name} {\n${fields.join('\n')}\n}`;
+}
+
+function renderType(schema: JsonSchema, indent: string): string {
+  if (schema.$ref) {
+    const name = schema.$ref.split('/').pop() as string;
+    referencedModels.add(name);
+    return name;
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.map(option => renderType(option, indent)).join(' | ');
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const).replace(/"/g, "'");
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => JSON.stringify(value).replace(/"/g, "'")).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `Array<${schema.items ? renderType(schema.items, indent) : 'unknown'}>`;
+    case 'object': {
+      if (schema.properties) {
+        const required = new Set(schema.required || []);
+        const fields = Object.entries(schema.properties).map(([key, property]) =>
+          `${doc(property, `${indent}  `)}${indent}  ${key}${required.has(key) ? '' : '?'}: ${renderType(property, `${indent}  `)};`
+        );
+        return `{\n${fields.join('\n')}\n${indent}}`;
+      }
+      if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        return `Record<string, ${renderType(schema.additionalProperties, indent)}>`;
+      }
+      return 'Record<string, unknown>';
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+function doc(schema: JsonSchema, indent: string): string {
+  const lines = [
+    ...(schema.description ? [schema.description] : []),
+    ...(schema.default !== undefined ? [`Default: ${JSON.stringify(schema.default)}`] : [])
+  ];
+  return lines.length > 0 ? `${indent}/** ${lines.join('. ')} */\n` : '';
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
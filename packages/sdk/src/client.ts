@@ -0,0 +1,66 @@
+import { HttpClient, HttpClientOptions, TokenStore } from './http';
+import { RealtimeClient, SocketLike } from './realtime';
+import { AnalyticsApi } from './resources/analytics';
+import { RiskApi } from './resources/risk';
+import { PortfolioApi } from './resources/portfolio';
+import { AvsApi } from './resources/avs';
+import { BridgeApi } from './resources/bridge';
+import { ContractsApi } from './resources/contracts';
+import { UserApi } from './resources/user';
+import { AdminApi } from './resources/admin';
+import { OrganizationsApi } from './resources/organizations';
+import { AuthTokens } from './types';
+
+export type SwellScopeClientOptions = HttpClientOptions;
+
+/**
+ * Entry point of the SDK: one typed resource per API area sharing a single transport
+ */
+export class SwellScopeClient {
+  public readonly http: HttpClient;
+  public readonly analytics: AnalyticsApi;
+  public readonly risk: RiskApi;
+  public readonly portfolio: PortfolioApi;
+  public readonly avs: AvsApi;
+  public readonly bridge: BridgeApi;
+  public readonly contracts: ContractsApi;
+  public readonly user: UserApi;
+  public readonly admin: AdminApi;
+  public readonly organizations: OrganizationsApi;
+
+  private realtimeClients = new Set<RealtimeClient>();
+
+  constructor(options: SwellScopeClientOptions) {
+    this.http = new HttpClient({
+      ...options,
+      onTokensRefreshed: (tokens: AuthTokens) => {
+        // Sockets authenticated with the old token would lose private rooms once it expires
+        this.realtimeClients.forEach(realtime => realtime.authenticate());
+        options.onTokensRefreshed?.(tokens);
+      }
+    });
+
+    this.analytics = new AnalyticsApi(this.http);
+    this.risk = new RiskApi(this.http);
+    this.portfolio = new PortfolioApi(this.http);
+    this.avs = new AvsApi(this.http);
+    this.bridge = new BridgeApi(this.http);
+    this.contracts = new ContractsApi(this.http);
+    this.user = new UserApi(this.http);
+    this.admin = new AdminApi(this.http);
+    this.organizations = new OrganizationsApi(this.http);
+  }
+
+  get tokenStore(): TokenStore {
+    return this.http.tokenStore;
+  }
+
+  /**
+   * Wrap a socket.io-client socket, e.g. `client.realtime(io(baseUrl))`
+   */
+  realtime(socket: SocketLike): RealtimeClient {
+    const realtime = new RealtimeClient(socket, this.http.tokenStore);
+    this.realtimeClients.add(realtime);
+    return realtime;
+  }
+}
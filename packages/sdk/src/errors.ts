@@ -0,0 +1,139 @@
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class SwellScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The request never produced an HTTP response (DNS, connection reset, timeout, ...)
+ */
+export class NetworkError extends SwellScopeError {
+  public readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown before any request is made when the caller's input cannot form a URL
+ */
+export class InputError extends SwellScopeError {}
+
+/**
+ * The API answered with a non-2xx status or `success: false`
+ */
+export class ApiError extends SwellScopeError {
+  public readonly status: number;
+  public readonly code?: string;
+  public readonly details?: unknown;
+
+  constructor(message: string, status: number, code?: string, details?: unknown) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export interface FieldError {
+  location: 'params' | 'query' | 'body';
+  field: string;
+  message: string;
+  code: string;
+}
+
+export class ValidationError extends ApiError {
+  public readonly fields: FieldError[];
+
+  constructor(message: string, status: number, code?: string, details?: unknown) {
+    super(message, status, code, details);
+    const fields = (details as { fields?: FieldError[] } | undefined)?.fields;
+    this.fields = Array.isArray(fields) ? fields : [];
+  }
+}
+
+export class AuthenticationError extends ApiError {}
+
+export class AuthorizationError extends ApiError {}
+
+export class NotFoundError extends ApiError {}
+
+export interface UpgradeHint {
+  currentTier: string;
+  limit: string;
+  allowed: number;
+  requested: number;
+  /** Cheapest tier that allows the request, if any */
+  requiredTier?: string;
+  upgradeUrl: string;
+}
+
+/**
+ * The user's plan does not allow the request: 402 when a resource cap is reached,
+ * 403 `PLAN_UPGRADE_REQUIRED` when e.g. a time range exceeds the plan's history window
+ */
+export class PlanLimitError extends ApiError {
+  public readonly upgrade?: UpgradeHint;
+
+  constructor(message: string, status: number, code?: string, details?: unknown) {
+    super(message, status, code, details);
+    this.upgrade = details as UpgradeHint | undefined;
+  }
+}
+
+export class RateLimitError extends ApiError {
+  /** Milliseconds the server asked us to wait, when it said */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, status: number, code?: string, details?: unknown, retryAfterMs?: number) {
+    super(message, status, code, details);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Map an error response to the matching error class.
+ * The API answers either `{ error: { code, message, details } }` or `{ error: string, message? }`.
+ */
+export function toApiError(status: number, body: unknown, retryAfterMs?: number): ApiError {
+  const payload = (body || {}) as { error?: unknown; message?: string };
+  const error = payload.error;
+
+  let message = `Request failed with status ${status}`;
+  let code: string | undefined;
+  let details: unknown;
+
+  if (error && typeof error === 'object') {
+    const structured = error as { message?: string; code?: string; details?: unknown };
+    message = structured.message || message;
+    code = structured.code;
+    details = structured.details;
+  } else if (typeof error === 'string') {
+    message = payload.message ? `${error}: ${payload.message}` : error;
+  }
+
+  switch (status) {
+    case 400:
+      return new ValidationError(message, status, code, details);
+    case 401:
+      return new AuthenticationError(message, status, code, details);
+    case 402:
+      return new PlanLimitError(message, status, code, details);
+    case 403:
+      return code === 'PLAN_UPGRADE_REQUIRED'
+        ? new PlanLimitError(message, status, code, details)
+        : new AuthorizationError(message, status, code, details);
+    case 404:
+      return new NotFoundError(message, status, code, details);
+    case 429:
+      return new RateLimitError(message, status, code, details, retryAfterMs);
+    default:
+      return new ApiError(message, status, code, details);
+  }
+}
@@ -0,0 +1,1353 @@
+// Generated by scripts/generate.ts from openapi.json (API 1.0.0). Do not edit by hand.
+
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  discord: boolean;
+  telegram: boolean;
+  riskAlerts: boolean;
+  rebalanceNotifications: boolean;
+  yieldUpdates: boolean;
+  marketUpdates: boolean;
+}
+
+export interface PrivacySettings {
+  showPortfolio: boolean;
+  showTransactions: boolean;
+  allowAnalytics: boolean;
+  shareData: boolean;
+}
+
+export interface UserPreferences {
+  theme: 'light' | 'dark' | 'auto';
+  currency: 'USD' | 'ETH' | 'EUR';
+  language: string;
+  timezone: string;
+  notifications: NotificationPreferences;
+  privacy: PrivacySettings;
+}
+
+export type SubscriptionTier = 'free' | 'basic' | 'premium' | 'enterprise';
+
+export interface SubscriptionLimits {
+  maxPositions: number;
+  maxStrategies: number;
+  /** per day */
+  apiCalls: number;
+  apiCallsPerMinute: number;
+  /** days */
+  historicalData: number;
+  alerts: number;
+  customDashboards: number;
+  watchedWallets: number;
+}
+
+export interface UserSubscription {
+  tier: SubscriptionTier;
+  isActive: boolean;
+  expiresAt?: string;
+  /** Paid tiers keep their limits until this time after expiresAt */
+  graceEndsAt?: string;
+  features: Array<string>;
+  limits: SubscriptionLimits;
+}
+
+export interface User {
+  id: string;
+  address: string;
+  email?: string;
+  username?: string;
+  avatar?: string;
+  joinedAt: string;
+  lastActive: string;
+  preferences: UserPreferences;
+  subscription: UserSubscription;
+  isActive: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export type CountedLimit = 'maxPositions' | 'maxStrategies' | 'alerts' | 'customDashboards' | 'watchedWallets';
+
+export interface Entitlements {
+  tier: SubscriptionTier;
+  features: Array<string>;
+  limits: SubscriptionLimits;
+  usage: {
+    maxPositions: number;
+    maxStrategies: number;
+    alerts: number;
+    customDashboards: number;
+    watchedWallets: number;
+  };
+  upgradeUrl: string;
+}
+
+export interface ChartDataPoint {
+  timestamp: number;
+  tvl: number;
+  yield: number;
+  users: number;
+  volume: number;
+}
+
+export interface ProtocolData {
+  id: string;
+  name: string;
+  address: string;
+  tvl: number;
+  yield: number;
+  riskScore: number;
+  users: number;
+  logo: string;
+  category: 'restaking' | 'defi' | 'bridge' | 'avs' | 'yield-farming';
+  isActive: boolean;
+  chainId: number;
+  deployedAt: string;
+  lastUpdate: string;
+}
+
+/** `unconfirmed` records can still disappear in a reorg; `safe` ones are past the chain's confirmation depth and `finalized` ones past its finality depth. */
+export type ConfirmationLevel = 'unconfirmed' | 'safe' | 'finalized';
+
+export interface TransactionData {
+  id: string;
+  hash: string;
+  type: 'deposit' | 'withdraw' | 'rebalance' | 'claim' | 'bridge';
+  amount: number;
+  token: string;
+  user: string;
+  timestamp: number;
+  status: 'pending' | 'confirmed' | 'failed';
+  gasUsed?: number;
+  gasPrice?: number;
+  blockNumber?: number;
+  chainId: number;
+  /** Reorg safety of the block the transaction was indexed from */
+  confirmation?: ConfirmationLevel;
+}
+
+export interface AnalyticsData {
+  totalTVL: number;
+  totalUsers: number;
+  averageYield: number;
+  totalProtocols: number;
+  tvlChange24h: number;
+  usersChange24h: number;
+  yieldChange24h: number;
+  protocolsChange24h: number;
+  chartData: Array<ChartDataPoint>;
+  topProtocols: Array<ProtocolData>;
+  recentTransactions: Array<TransactionData>;
+}
+
+/** A holding in one protocol, read from chain state */
+export interface ProtocolPosition {
+  /** Adapter id, e.g. 'sweth' */
+  protocol: string;
+  protocolName: string;
+  chainId: number;
+  token: string;
+  contractAddress: string;
+  /** Token units */
+  amount: number;
+  /** ETH */
+  value: number;
+  /** AVS the position's ETH is restaked to */
+  avs?: string;
+  /** Depth of the block the balance was read at */
+  confirmation: ConfirmationLevel;
+}
+
+/** A vault accountant's share price after one update: base asset per share, in base units */
+export interface VaultExchangeRate {
+  chainId: number;
+  accountant: string;
+  rate: string;
+  blockNumber: number;
+  timestamp: string;
+  confirmation: ConfirmationLevel;
+}
+
+/** A deposit made through the Nucleus Teller, in base units */
+export interface TellerDeposit {
+  nonce: string;
+  txHash: string;
+  asset: string;
+  amount: string;
+  shares: string;
+  timestamp: string;
+  /** When the minted shares may be transferred or withdrawn */
+  unlocksAt: string;
+  refunded: boolean;
+  confirmation: ConfirmationLevel;
+}
+
+/** An open Nucleus atomic-queue request offering vault shares for `wantToken` */
+export interface WithdrawalQueueRequest {
+  offerToken: string;
+  wantToken: string;
+  /** Shares still offered, in base units */
+  amount: string;
+  /** Lowest acceptable want-token price per share, in base units */
+  minPrice: string;
+  deadline: string;
+  requestedAt: string;
+  /** Requests past their deadline can no longer be solved */
+  status: 'pending' | 'expired';
+  confirmation: ConfirmationLevel;
+}
+
+/** An account's earnETH holding with its Teller deposits and queued withdrawals; values in ETH */
+export interface NucleusAccount {
+  address: string;
+  shares: number;
+  value: number;
+  /** ETH per share */
+  rate: number;
+  /** Latest share unlock among the account's deposits, null once everything is unlocked */
+  sharesLockedUntil: string | null;
+  deposits: Array<TellerDeposit>;
+  pendingWithdrawals: Array<WithdrawalQueueRequest>;
+}
+
+/** earnETH share price updates over a window and the yield they imply */
+export interface NucleusRateHistory {
+  /** Current ETH per share */
+  rate: number;
+  /** Annualized from the indexed updates; null until they span a day */
+  apy: number | null;
+  rates: Array<VaultExchangeRate>;
+}
+
+export interface SlashingRiskData {
+  probability: number;
+  potentialLoss: number;
+  riskScore: number;
+  timeHorizon: string;
+  confidenceLevel: number;
+}
+
+export interface LiquidityRiskData {
+  availableLiquidity: number;
+  utilizationRate: number;
+  withdrawalDelay: number;
+  /** Value-weighted market discount of the liquid staking tokens held, as a fraction */
+  pegDiscount: number;
+  riskScore: number;
+}
+
+export interface ConcentrationRiskData {
+  protocolConcentration: number;
+  operatorConcentration: number;
+  avsConcentration: number;
+  diversificationScore: number;
+}
+
+export interface SlashingEvent {
+  id: string;
+  validatorAddress: string;
+  avsId: string;
+  amount: number;
+  timestamp: number;
+  reason: string;
+  blockNumber: number;
+  transactionHash: string;
+  affectedUsers: Array<string>;
+}
+
+export interface ValidatorRisk {
+  validatorAddress: string;
+  riskScore: number;
+  slashingHistory: Array<SlashingEvent>;
+  performance: number;
+  uptime: number;
+  commission: number;
+  stakedAmount: number;
+  lastUpdated: number;
+}
+
+export interface SlashingCondition {
+  type: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  probability: number;
+  maxSlashingPercent: number;
+}
+
+export interface AVSRiskMetrics {
+  avsId: string;
+  name: string;
+  riskScore: number;
+  slashingConditions: Array<SlashingCondition>;
+  operatorCount: number;
+  totalStaked: number;
+  auditScore: number;
+  governanceRisk: number;
+  lastUpdated: number;
+}
+
+export interface RiskMetadata {
+  calculationVersion: string;
+  dataQuality: number;
+  uncertaintyLevel: number;
+}
+
+export interface RiskMetrics {
+  userAddress: string;
+  overallRiskScore: number;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  slashingRisk: SlashingRiskData;
+  liquidityRisk: LiquidityRiskData;
+  concentrationRisk: ConcentrationRiskData;
+  validatorRisks: Array<ValidatorRisk>;
+  avsRisks: Array<AVSRiskMetrics>;
+  lastUpdated: number;
+  metadata: RiskMetadata;
+}
+
+/** A liquid staking token's DEX price next to its redemption rate, both in ETH per token */
+export interface PegSample {
+  symbol: string;
+  token: string;
+  pool: string;
+  marketPrice: number;
+  redemptionRate: number;
+  /** (market - redemption) / redemption; negative when the token trades at a discount */
+  deviation: number;
+  blockNumber: number;
+  sampledAt: string;
+}
+
+/** The strongest threshold a token's discount has held past */
+export interface PegBreach {
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  deviationBps: number;
+  /** Start of the current run of samples past the threshold, looking back one monitoring window */
+  since: string;
+  /** Current discount, as a fraction */
+  discount: number;
+}
+
+export interface PegStatus {
+  symbol: string;
+  token: string;
+  /** Protocol adapter id holding the token */
+  protocol: string;
+  /** A liquid staking token's DEX price next to its redemption rate, both in ETH per token */
+  latest: PegSample | null;
+  /** The strongest threshold a token's discount has held past */
+  breach: PegBreach | null;
+}
+
+/** A token's USD price, aggregated from the quotes of every source that covers it */
+export interface TokenPrice {
+  symbol: string;
+  /** USD, the median of the accepted quotes */
+  price: number;
+  /** Every quote considered, converted to USD; `accepted` is false for outliers */
+  sources: Array<{
+    source: string;
+    price: number;
+    accepted: boolean;
+  }>;
+  sampledAt: string;
+}
+
+export interface AlertThresholds {
+  slashing: number;
+  liquidity: number;
+  concentration: number;
+  performance: number;
+}
+
+export interface RiskProfile {
+  userId: string;
+  riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  maxSlashingRisk: number;
+  maxLiquidityRisk: number;
+  maxConcentration: number;
+  rebalanceThreshold: number;
+  autoRebalance: boolean;
+  alertThresholds: AlertThresholds;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AlertRuleMetric = 'slashing' | 'liquidity' | 'concentration' | 'performance';
+
+export type AlertChannel = 'email' | 'push' | 'discord' | 'telegram';
+
+export interface AlertRule {
+  id: string;
+  userId: string;
+  name: string;
+  metric: AlertRuleMetric;
+  threshold: number;
+  channels: Array<AlertChannel>;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RiskAlert {
+  id: string;
+  type: 'validator_risk' | 'concentration_risk' | 'slashing_event' | 'liquidity_risk' | 'depeg_risk';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  timestamp: number;
+  data?: unknown;
+  actionRequired: boolean;
+  suggestedActions?: Array<string>;
+}
+
+export interface Position {
+  id: string;
+  userId: string;
+  protocol: string;
+  protocolName: string;
+  token: string;
+  amount: number;
+  value: number;
+  yield: number;
+  riskScore: number;
+  allocation: number;
+  earnings: number;
+  earningsChange24h: number;
+  isActive: boolean;
+  lastUpdate: string;
+  apy: number;
+  lockupPeriod?: number;
+  unlockDate?: string;
+  chainId: number;
+  contractAddress: string;
+  /** Watch-only wallet holding the position; unset for the account's own wallet */
+  walletAddress?: string;
+}
+
+export interface StrategyFees {
+  managementFee: number;
+  performanceFee: number;
+  withdrawalFee: number;
+  depositFee: number;
+}
+
+export interface StrategyPerformance {
+  totalReturn: number;
+  annualizedReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  volatility: number;
+  alpha: number;
+  beta: number;
+}
+
+export interface Strategy {
+  id: string;
+  userId: string;
+  name: string;
+  description: string;
+  allocations: Record<string, number>;
+  riskScore: number;
+  expectedYield: number;
+  tvl: number;
+  allocation: number;
+  isActive: boolean;
+  autoExecute: boolean;
+  minAmount: number;
+  maxAmount: number;
+  fees: StrategyFees;
+  performance: StrategyPerformance;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PerformanceDataPoint {
+  timestamp: number;
+  value: number;
+  return: number;
+  cumulativeReturn: number;
+  drawdown: number;
+}
+
+export interface PerformanceData {
+  totalReturn: number;
+  totalReturnUSD: number;
+  annualizedReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  volatility: number;
+  bestDay: number;
+  worstDay: number;
+  winRate: number;
+  profitFactor: number;
+  chartData: Array<PerformanceDataPoint>;
+}
+
+export interface Recommendation {
+  id: string;
+  userId: string;
+  type: 'rebalance' | 'strategy_change' | 'risk_adjustment' | 'yield_optimization';
+  title: string;
+  description: string;
+  impact: string;
+  priority: 'low' | 'medium' | 'high';
+  estimatedGain: number;
+  estimatedRisk: number;
+  actionRequired: boolean;
+  autoExecutable: boolean;
+  deadline?: number;
+  relatedPositions: Array<string>;
+  createdAt: string;
+  executedAt?: string;
+  status: 'pending' | 'executed' | 'rejected' | 'expired';
+}
+
+export interface PortfolioData {
+  userId: string;
+  totalValue: number;
+  totalStaked: number;
+  totalEarnings: number;
+  averageYield: number;
+  riskScore: number;
+  lastRebalance: number;
+  positions: Array<Position>;
+  strategies: Array<Strategy>;
+  performance: PerformanceData;
+  recommendations: Array<Recommendation>;
+}
+
+export interface WatchedWallet {
+  address: string;
+  label?: string;
+  group?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One wallet's part of an aggregated view. The account's own wallet is marked `primary`. */
+export interface WalletSummary {
+  address: string;
+  label?: string;
+  group?: string;
+  primary: boolean;
+  totalValue: number;
+  /** Fraction of the aggregate's total value, 0-1 */
+  share: number;
+}
+
+/** One wallet's part of an aggregated view. The account's own wallet is marked `primary`. */
+export interface WalletPortfolioSummary {
+  address: string;
+  label?: string;
+  group?: string;
+  primary: boolean;
+  totalValue: number;
+  /** Fraction of the aggregate's total value, 0-1 */
+  share: number;
+  totalStaked: number;
+  totalEarnings: number;
+  averageYield: number;
+  riskScore: number;
+  positionCount: number;
+}
+
+export interface AggregatedPortfolio {
+  /** Set when the aggregate covers a single wallet group */
+  group?: string;
+  totalValue: number;
+  totalStaked: number;
+  totalEarnings: number;
+  averageYield: number;
+  riskScore: number;
+  positions: Array<Position>;
+  wallets: Array<WalletPortfolioSummary>;
+}
+
+/** One wallet's part of an aggregated view. The account's own wallet is marked `primary`. */
+export interface WalletRiskSummary {
+  address: string;
+  label?: string;
+  group?: string;
+  primary: boolean;
+  totalValue: number;
+  /** Fraction of the aggregate's total value, 0-1 */
+  share: number;
+  overallRiskScore: number;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface AggregatedRiskMetrics {
+  group?: string;
+  /** Metrics over the combined positions of every wallet, concentration included */
+  metrics: RiskMetrics;
+  wallets: Array<WalletRiskSummary>;
+}
+
+export interface CrossChainPosition {
+  id: string;
+  userId: string;
+  chainId: number;
+  chainName: string;
+  token: string;
+  amount: number;
+  value: number;
+  bridge: string;
+  status: 'active' | 'pending' | 'failed';
+  lastUpdate: number;
+  canBridge: boolean;
+  bridgeFee: number;
+  estimatedTime: number;
+  contractAddress: string;
+  /** Reorg safety of the indexed data behind the position */
+  confirmation?: ConfirmationLevel;
+}
+
+export interface WalletCrossChainPosition {
+  id: string;
+  userId: string;
+  chainId: number;
+  chainName: string;
+  token: string;
+  amount: number;
+  value: number;
+  bridge: string;
+  status: 'active' | 'pending' | 'failed';
+  lastUpdate: number;
+  canBridge: boolean;
+  bridgeFee: number;
+  estimatedTime: number;
+  contractAddress: string;
+  /** Reorg safety of the indexed data behind the position */
+  confirmation?: ConfirmationLevel;
+  walletAddress: string;
+}
+
+export interface AggregatedCrossChainPositions {
+  group?: string;
+  totalValue: number;
+  positions: Array<WalletCrossChainPosition>;
+  wallets: Array<WalletSummary>;
+}
+
+export interface ActivityEvent {
+  id: string;
+  userId: string;
+  type: string;
+  description: string;
+  amount?: number;
+  token?: string;
+  status: string;
+  severity?: string;
+  transactionHash?: string;
+  metadata?: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface AVSService {
+  name: string;
+  description: string;
+  isActive: boolean;
+  performanceMetrics: {
+    responseTime: number;
+    accuracy: number;
+    availability: number;
+  };
+  deployedAt: string;
+  version: string;
+}
+
+export interface AVSOperator {
+  address: string;
+  name?: string;
+  stake: number;
+  commission: number;
+  performanceScore: number;
+  slashingHistory: number;
+  isActive: boolean;
+  services: Array<string>;
+  joinedAt: string;
+  lastActive: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RewardDistribution {
+  id: string;
+  amount: number;
+  recipients: number;
+  timestamp: number;
+  transactionHash: string;
+  status: 'pending' | 'completed' | 'failed';
+}
+
+export interface AVSRewards {
+  totalRewards: number;
+  userRewards: number;
+  rewardRate: number;
+  lastDistribution: number;
+  nextDistribution: number;
+  claimableRewards: number;
+  distributionHistory: Array<RewardDistribution>;
+}
+
+export interface AVSMetrics {
+  id: string;
+  name: string;
+  address: string;
+  totalStaked: number;
+  operatorCount: number;
+  performanceScore: number;
+  slashingEvents: number;
+  slashingRisk: number;
+  averageCommission: number;
+  uptime: number;
+  lastSlashing?: number;
+  isActive: boolean;
+  services: Array<AVSService>;
+  operators: Array<AVSOperator>;
+  rewards: AVSRewards;
+  chainId: number;
+  deployedAt: string;
+  lastUpdate: string;
+}
+
+export interface BridgeOperation {
+  id: string;
+  userId: string;
+  fromChain: number;
+  toChain: number;
+  token: string;
+  amount: number;
+  recipient: string;
+  status: 'pending' | 'confirmed' | 'failed' | 'cancelled';
+  transactionHash?: string;
+  destinationHash?: string;
+  fee: number;
+  estimatedTime: number;
+  actualTime?: number;
+  timestamp: number;
+  error?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  contracts: Record<string, string>;
+  isTestnet: boolean;
+  blockTime: number;
+  finalityBlocks: number;
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  name: string;
+  blockNumber?: number;
+  blockHash?: string;
+  safeBlockNumber?: number;
+  finalizedBlockNumber?: number;
+  head?: number;
+  /** Blocks between the chain head and the last indexed block */
+  lag?: number;
+  updatedAt?: string;
+  error?: string;
+}
+
+export interface RpcEndpointMetrics {
+  /** Origin only; provider keys in the path are redacted */
+  url: string;
+  /** False while the endpoint is backing off after failures */
+  healthy: boolean;
+  /** 0-100 from recent error rate and latency; the highest scoring endpoint is tried first */
+  score: number;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  latencyMs?: number;
+  lastError?: string;
+  lastErrorAt?: string;
+}
+
+export interface RpcClientMetrics {
+  chainId: number;
+  endpoints: Array<RpcEndpointMetrics>;
+  cache: {
+    entries: number;
+    hits: number;
+    misses: number;
+  };
+  /** Requests answered by an identical request already in flight */
+  deduplicated: number;
+  batches: number;
+}
+
+export type ContractName = 'RiskOracle' | 'SwellScopeVault' | 'SwellChainIntegration';
+
+export interface ContractsStatus {
+  chainId: number;
+  /** Contracts without an address are not deployed on this chain */
+  contracts: {
+    RiskOracle?: string;
+    SwellScopeVault?: string;
+    SwellChainIntegration?: string;
+  };
+}
+
+export interface VaultStrategy {
+  address: string;
+  active: boolean;
+  /** Basis points of the vault's assets */
+  allocation: number;
+  /** 0-100 */
+  riskScore: number;
+  /** Basis points */
+  expectedYield: number;
+  /** Base units of the vault asset */
+  tvl: string;
+}
+
+export interface VaultState {
+  address: string;
+  asset: string;
+  /** Base units of `asset` */
+  totalAssets: string;
+  totalSupply: string;
+  /** Allocation-weighted strategy risk, 0-100 */
+  portfolioRiskScore: number;
+  /** Basis points allocated across active strategies */
+  totalAllocation: number;
+  managementFeeBps: number;
+  performanceFeeBps: number;
+  emergencyExitTriggered: boolean;
+  paused: boolean;
+  lastRiskUpdate: string | null;
+  strategies: Array<VaultStrategy>;
+}
+
+export interface VaultRiskProfile {
+  /** 0-100 */
+  maxRiskScore: number;
+  preferredYield: number;
+  autoRebalance: boolean;
+  lastRebalance: string | null;
+}
+
+/** RiskOracle scores are in basis points, 0-10000 */
+export interface OracleRiskScore {
+  asset: string;
+  riskScore: number;
+  threshold: number;
+  slashingRisk: number;
+  liquidityRisk: number;
+  smartContractRisk: number;
+  marketRisk: number;
+  emergencyActive: boolean;
+  /** No oracle update within the staleness window */
+  stale: boolean;
+  lastUpdate: string | null;
+}
+
+export interface IntegrationAVSMetrics {
+  name: string;
+  avsContract: string;
+  totalStaked: string;
+  performanceScore: number;
+  slashingEvents: number;
+  operatorCount: number;
+  isActive: boolean;
+}
+
+export interface IntegrationTokenMetrics {
+  token: string;
+  exchangeRate: string;
+  totalSupply: string;
+  backingAssets: string;
+  yieldRate: number;
+  slashingRisk: number;
+}
+
+export interface IntegrationMetrics {
+  address: string;
+  mach: IntegrationAVSMetrics;
+  swETH: IntegrationTokenMetrics;
+  rswETH: IntegrationTokenMetrics;
+  network: {
+    isHealthy: boolean;
+    finalityTime: number;
+    gasPrice: string;
+  };
+}
+
+export interface BridgeRoute {
+  bridge: string;
+  /** Seconds */
+  estimatedTime: number;
+  /** Wei */
+  estimatedCost: string;
+}
+
+export interface IntegrationBridgeStatus {
+  operationId: string;
+  /** Unknown operations also read as pending */
+  status: 'pending' | 'confirmed';
+}
+
+export interface SiweChallenge {
+  message: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  expiresAt: number;
+  refreshExpiresAt: number;
+}
+
+export interface AuthResponse {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  expiresAt: number;
+  refreshExpiresAt: number;
+  user: User;
+}
+
+export interface UserSession {
+  id: string;
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  current?: boolean;
+}
+
+export type ApiKeyScope = 'read' | 'trade';
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Array<ApiKeyScope>;
+  allowedIps: Array<string>;
+  createdAt: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export type DashboardWidgetType = 'portfolio_value' | 'risk_score' | 'yield_chart' | 'tvl_chart' | 'avs_performance' | 'alerts' | 'bridge_activity';
+
+export interface DashboardWidget {
+  type: DashboardWidgetType;
+  title?: string;
+  position: {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  };
+  config?: Record<string, unknown>;
+}
+
+export interface Dashboard {
+  id: string;
+  userId: string;
+  name: string;
+  widgets: Array<DashboardWidget>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKeyInfo;
+  /** The full key; only returned when the key is created or rotated */
+  key: string;
+}
+
+export type TimeRange = '1h' | '24h' | '7d' | '30d' | '90d' | '1y' | 'all';
+
+export interface RebalanceTransaction {
+  type: 'withdraw' | 'deposit';
+  protocol: string;
+  amount: number;
+  token: string;
+  estimatedGas: number;
+  hash: string | null;
+}
+
+export interface RebalanceResult {
+  id: string;
+  userId: string;
+  strategy: string;
+  status: 'simulated' | 'completed';
+  transactions: Array<RebalanceTransaction>;
+  estimatedGas: number;
+  estimatedTime: number;
+  actualTime: number | null;
+  slippage: number;
+  fees: {
+    gas: number;
+    protocol: number;
+  };
+  newAllocations: Record<string, number>;
+  timestamp: number;
+}
+
+export interface AVSPerformance {
+  avsId: string;
+  timeRange: TimeRange;
+  metrics: {
+    uptime: number;
+    performanceScore: number;
+    averageCommission: number;
+    slashingEvents: number;
+    totalStaked: number;
+    operatorCount: number;
+  };
+  historical: {
+    uptime: Array<{
+      timestamp: number;
+      value: number;
+    }>;
+    performance: Array<{
+      timestamp: number;
+      value: number;
+    }>;
+    stake: Array<{
+      timestamp: number;
+      value: number;
+    }>;
+  };
+  comparison: {
+    industryAverage: {
+      uptime: number;
+      performance: number;
+      commission: number;
+    };
+    ranking: {
+      uptimeRank: number;
+      performanceRank: number;
+      stakeRank: number;
+      totalAVS: number;
+    };
+  };
+}
+
+/** MACH, VITAL and SQUAD metrics plus service-specific figures */
+export interface AVSDetails {
+  id: string;
+  name: string;
+  address: string;
+  totalStaked: number;
+  operatorCount: number;
+  performanceScore: number;
+  slashingEvents: number;
+  slashingRisk: number;
+  averageCommission: number;
+  uptime: number;
+  lastSlashing?: number;
+  isActive: boolean;
+  services: Array<AVSService>;
+  operators: Array<AVSOperator>;
+  rewards: AVSRewards;
+  chainId: number;
+  deployedAt: string;
+  lastUpdate: string;
+  specific: Record<string, unknown>;
+}
+
+export interface AVSOverview {
+  totalAVS: number;
+  activeAVS: number;
+  totalStaked: number;
+  totalOperators: number;
+  averagePerformance: number;
+  averageUptime: number;
+  totalSlashingEvents: number;
+  services: Array<{
+    id: string;
+    name: string;
+    totalStaked: number;
+    performanceScore: number;
+    uptime: number;
+    isActive: boolean;
+  }>;
+  healthScore: number;
+  trends: {
+    stakeGrowth24h: number;
+    performanceChange24h: number;
+    newOperators24h: number;
+  };
+}
+
+export interface StakeResult {
+  transactionId: string;
+  avsId: string;
+  operator: string;
+  amount: number;
+  estimatedRewards: number;
+  lockupPeriod: number;
+  status: 'pending';
+  estimatedGas: number;
+  gasPrice: number;
+}
+
+export interface BridgeCostEstimate {
+  fee: number;
+  estimatedTime: number;
+  gasEstimate: number;
+  exchangeRate: number;
+  minimumAmount: number;
+  maximumAmount: number;
+  breakdown: {
+    baseFee: number;
+    percentageFee: number;
+    gasFee: number;
+  };
+}
+
+export interface BridgeFeeStructure {
+  baseFees: Record<string, number>;
+  percentageFees: {
+    standard: number;
+    fast: number;
+    instant: number;
+  };
+  limits: {
+    minimum: number;
+    maximum: number;
+    daily: number;
+  };
+}
+
+export interface BridgeEstimate {
+  fee: number;
+  estimatedTime: number;
+  gasEstimate: number;
+  exchangeRate: number;
+  minimumAmount: number;
+  maximumAmount: number;
+  breakdown: {
+    baseFee: number;
+    percentageFee: number;
+    gasFee: number;
+  };
+  route: {
+    path: Array<number>;
+    hops: number;
+    protocol: string;
+    security: string;
+    disputePeriod: number;
+  };
+  risks: Record<string, string | number>;
+  alternatives: Array<{
+    name: string;
+    estimatedTime: number;
+    fee: number;
+    confidence: number;
+  }>;
+  priceImpact: number;
+  confidence: number;
+}
+
+export interface BridgeOperationStatus {
+  operationId: string;
+  status: 'pending' | 'confirmed' | 'failed' | 'cancelled';
+  progress: number;
+  currentStep: string;
+  steps: Array<{
+    name: string;
+    status: string;
+    timestamp: number | null;
+  }>;
+  estimatedCompletion: number;
+  confirmations: {
+    source: number;
+    destination: number;
+    required: number;
+  };
+}
+
+export interface UserStats {
+  portfolio: {
+    totalValue: number;
+    totalStaked: number;
+    totalEarnings: number;
+    positionsCount: number;
+    strategiesCount: number;
+  };
+  activity: {
+    transactionsCount: number;
+    bridgeOperationsCount: number;
+    rebalancesCount: number;
+    lastTransactionDate: number | null;
+  };
+  risk: {
+    averageRiskScore: number;
+    alertsCount: number;
+    slashingEvents: number;
+  };
+  rewards: {
+    averageYield: number;
+    bestPerformingPosition: string | null;
+  };
+  period: TimeRange;
+  lastUpdated: number;
+}
+
+export type PaidSubscriptionTier = 'basic' | 'premium' | 'enterprise';
+
+export type InvoiceStatus = 'pending' | 'paid' | 'expired' | 'cancelled';
+
+export type InvoiceKind = 'new' | 'renewal' | 'change';
+
+export interface Invoice {
+  id: string;
+  tier: PaidSubscriptionTier;
+  kind: InvoiceKind;
+  status: InvoiceStatus;
+  periodDays: number;
+  /** Amount due in token base units, as a decimal string */
+  amount: string;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  chainId: number;
+  receiver: string;
+  /** Only transfers from this wallet settle the invoice */
+  payerAddress: string;
+  /** EIP-681 link wallets can open to prefill the transfer */
+  paymentUri: string;
+  expiresAt: string;
+  createdAt: string;
+  paidAt?: string;
+  paidAmount?: string;
+  txHash?: string;
+}
+
+export interface SubscriptionResult {
+  tier: PaidSubscriptionTier;
+  status: 'pending_payment';
+  paymentMethod: 'crypto';
+  features: Array<string>;
+  invoice: Invoice;
+}
+
+export type OrganizationRole = 'owner' | 'analyst' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  /** Your role in the organization */
+  role: OrganizationRole;
+  memberCount: number;
+  addressCount: number;
+  createdAt: string;
+}
+
+export interface UserDataExport {
+  exportedAt: string;
+  profile: {
+    id: string;
+    address: string;
+    email?: string;
+    username?: string;
+    avatar?: string;
+    joinedAt: string;
+    lastActive: string;
+    subscription: UserSubscription;
+    isActive: boolean;
+    metadata?: Record<string, unknown>;
+  };
+  preferences: UserPreferences;
+  riskProfile: RiskProfile;
+  positions: Array<Position>;
+  strategies: Array<Strategy>;
+  alerts: Array<RiskAlert>;
+  alertRules: Array<AlertRule>;
+  dashboards: Array<Dashboard>;
+  activity: Array<ActivityEvent>;
+  bridgeOperations: Array<BridgeOperation>;
+  invoices: Array<Invoice>;
+  organizations: Array<Organization>;
+  watchedWallets: Array<WatchedWallet>;
+}
+
+export type AccountDeletionStatus = 'pending' | 'completed' | 'failed';
+
+export interface DeletionReceipt {
+  confirmationId: string;
+  status: AccountDeletionStatus;
+  requestedAt: string;
+  completedAt?: string;
+  /** Days the retained records are kept before they are purged too */
+  retentionPeriod: number;
+  retainedUntil?: string;
+  dataRemaining: Array<string>;
+  erased?: Record<string, number>;
+  /** sha256 of `<confirmationId>:<lowercase wallet address>` */
+  subjectHash: string;
+  /** HMAC-SHA256 of the receipt's other fields under the server's receipt key; set once the erasure has completed */
+  signature?: string;
+}
+
+export type OrganizationInviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface OrganizationMember {
+  userId: string;
+  address: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface WatchedAddress {
+  address: string;
+  label?: string;
+  addedBy: string;
+  createdAt: string;
+}
+
+export interface OrganizationDetails {
+  id: string;
+  name: string;
+  /** Your role in the organization */
+  role: OrganizationRole;
+  memberCount: number;
+  addressCount: number;
+  createdAt: string;
+  members: Array<OrganizationMember>;
+  addresses: Array<WatchedAddress>;
+}
+
+export interface OrganizationInvite {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  address: string;
+  role: OrganizationRole;
+  status: OrganizationInviteStatus;
+  /** SIWE-formatted message the invited wallet signs to accept */
+  message: string;
+  expiresAt: string;
+  createdAt: string;
+  acceptedAt?: string;
+}
+
+/** Analytics endpoints whose payload shape is not fixed yet */
+export type AnalyticsMetrics = Record<string, unknown>;
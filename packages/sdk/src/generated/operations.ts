@@ -0,0 +1,1153 @@
+// Generated by scripts/generate.ts from openapi.json (API 1.0.0). Do not edit by hand.
+
+import type {
+  AVSDetails,
+  AVSMetrics,
+  AVSOperator,
+  AVSOverview,
+  AVSPerformance,
+  AVSRewards,
+  AVSRiskMetrics,
+  ActivityEvent,
+  AggregatedCrossChainPositions,
+  AggregatedPortfolio,
+  AggregatedRiskMetrics,
+  AlertRule,
+  AnalyticsData,
+  AnalyticsMetrics,
+  ApiKeyInfo,
+  AuthResponse,
+  AuthTokens,
+  BridgeCostEstimate,
+  BridgeEstimate,
+  BridgeFeeStructure,
+  BridgeOperation,
+  BridgeOperationStatus,
+  BridgeRoute,
+  ChainConfig,
+  ContractsStatus,
+  CreatedApiKey,
+  CrossChainPosition,
+  Dashboard,
+  DeletionReceipt,
+  Entitlements,
+  IndexerStatus,
+  IntegrationBridgeStatus,
+  IntegrationMetrics,
+  Invoice,
+  NucleusAccount,
+  NucleusRateHistory,
+  OracleRiskScore,
+  Organization,
+  OrganizationDetails,
+  OrganizationInvite,
+  PegSample,
+  PegStatus,
+  PerformanceData,
+  PortfolioData,
+  Position,
+  ProtocolData,
+  ProtocolPosition,
+  RebalanceResult,
+  Recommendation,
+  RiskAlert,
+  RiskMetrics,
+  RiskProfile,
+  RpcClientMetrics,
+  SiweChallenge,
+  StakeResult,
+  Strategy,
+  SubscriptionResult,
+  TokenPrice,
+  TransactionData,
+  User,
+  UserDataExport,
+  UserPreferences,
+  UserSession,
+  UserStats,
+  UserSubscription,
+  ValidatorRisk,
+  VaultRiskProfile,
+  VaultState,
+  WatchedAddress,
+  WatchedWallet
+} from './models';
+
+export type AuthRequirement = 'required' | 'optional' | 'none';
+
+export const OPERATIONS = {
+  getAnalytics: { method: 'GET', path: '/api/v1/analytics', auth: 'optional' },
+  getAnalyticsTvl: { method: 'GET', path: '/api/v1/analytics/tvl', auth: 'optional' },
+  getAnalyticsYields: { method: 'GET', path: '/api/v1/analytics/yields', auth: 'optional' },
+  getAnalyticsProtocols: { method: 'GET', path: '/api/v1/analytics/protocols', auth: 'none' },
+  getAnalyticsUsers: { method: 'GET', path: '/api/v1/analytics/users', auth: 'required' },
+  getAnalyticsRealtime: { method: 'GET', path: '/api/v1/analytics/realtime', auth: 'none' },
+  getAnalyticsSwellchain: { method: 'GET', path: '/api/v1/analytics/swellchain', auth: 'optional' },
+  getAnalyticsNucleus: { method: 'GET', path: '/api/v1/analytics/nucleus', auth: 'optional' },
+  getAnalyticsTransactions: { method: 'GET', path: '/api/v1/analytics/transactions', auth: 'optional' },
+  getAnalyticsPrices: { method: 'GET', path: '/api/v1/analytics/prices', auth: 'none' },
+  getAnalyticsPricesBySymbol: { method: 'GET', path: '/api/v1/analytics/prices/{symbol}', auth: 'none' },
+  getRiskMetricsByAddress: { method: 'GET', path: '/api/v1/risk/metrics/{address}', auth: 'none' },
+  getRiskMetricsByAddressAggregate: { method: 'GET', path: '/api/v1/risk/metrics/{address}/aggregate', auth: 'required' },
+  getRiskAlertsByAddress: { method: 'GET', path: '/api/v1/risk/alerts/{address}', auth: 'none' },
+  getRiskDepeg: { method: 'GET', path: '/api/v1/risk/depeg', auth: 'none' },
+  getRiskDepegBySymbolHistory: { method: 'GET', path: '/api/v1/risk/depeg/{symbol}/history', auth: 'none' },
+  getRiskProfileByAddress: { method: 'GET', path: '/api/v1/risk/profile/{address}', auth: 'required' },
+  putRiskProfileByAddress: { method: 'PUT', path: '/api/v1/risk/profile/{address}', auth: 'required' },
+  postRiskAssessmentByAddress: { method: 'POST', path: '/api/v1/risk/assessment/{address}', auth: 'required' },
+  getRiskValidatorsByAddress: { method: 'GET', path: '/api/v1/risk/validators/{address}', auth: 'none' },
+  getRiskAvsByAddress: { method: 'GET', path: '/api/v1/risk/avs/{address}', auth: 'none' },
+  postRiskAlertsByAddressDismiss: { method: 'POST', path: '/api/v1/risk/alerts/{address}/dismiss', auth: 'required' },
+  getRiskAlertRulesByAddress: { method: 'GET', path: '/api/v1/risk/alert-rules/{address}', auth: 'required' },
+  postRiskAlertRulesByAddress: { method: 'POST', path: '/api/v1/risk/alert-rules/{address}', auth: 'required' },
+  deleteRiskAlertRulesByAddressByRuleId: { method: 'DELETE', path: '/api/v1/risk/alert-rules/{address}/{ruleId}', auth: 'required' },
+  getPortfolioByAddress: { method: 'GET', path: '/api/v1/portfolio/{address}', auth: 'required' },
+  getPortfolioByAddressAggregate: { method: 'GET', path: '/api/v1/portfolio/{address}/aggregate', auth: 'required' },
+  getPortfolioByAddressPositions: { method: 'GET', path: '/api/v1/portfolio/{address}/positions', auth: 'required' },
+  getPortfolioByAddressProtocols: { method: 'GET', path: '/api/v1/portfolio/{address}/protocols', auth: 'required' },
+  getPortfolioByAddressNucleus: { method: 'GET', path: '/api/v1/portfolio/{address}/nucleus', auth: 'required' },
+  postPortfolioByAddressRebalance: { method: 'POST', path: '/api/v1/portfolio/{address}/rebalance', auth: 'required' },
+  getPortfolioByAddressStrategies: { method: 'GET', path: '/api/v1/portfolio/{address}/strategies', auth: 'required' },
+  postPortfolioByAddressStrategies: { method: 'POST', path: '/api/v1/portfolio/{address}/strategies', auth: 'required' },
+  getPortfolioByAddressPerformance: { method: 'GET', path: '/api/v1/portfolio/{address}/performance', auth: 'required' },
+  getPortfolioByAddressRecommendations: { method: 'GET', path: '/api/v1/portfolio/{address}/recommendations', auth: 'required' },
+  getAvs: { method: 'GET', path: '/api/v1/avs', auth: 'optional' },
+  getAvsByAvsId: { method: 'GET', path: '/api/v1/avs/{avsId}', auth: 'optional' },
+  getAvsByAvsIdOperators: { method: 'GET', path: '/api/v1/avs/{avsId}/operators', auth: 'optional' },
+  getAvsByAvsIdRewards: { method: 'GET', path: '/api/v1/avs/{avsId}/rewards', auth: 'optional' },
+  getAvsByAvsIdPerformance: { method: 'GET', path: '/api/v1/avs/{avsId}/performance', auth: 'optional' },
+  getAvsMach: { method: 'GET', path: '/api/v1/avs/mach', auth: 'optional' },
+  getAvsVital: { method: 'GET', path: '/api/v1/avs/vital', auth: 'optional' },
+  getAvsSquad: { method: 'GET', path: '/api/v1/avs/squad', auth: 'optional' },
+  getAvsOverview: { method: 'GET', path: '/api/v1/avs/overview', auth: 'optional' },
+  postAvsByAvsIdStake: { method: 'POST', path: '/api/v1/avs/{avsId}/stake', auth: 'required' },
+  getBridgePositionsByAddress: { method: 'GET', path: '/api/v1/bridge/positions/{address}', auth: 'required' },
+  getBridgePositionsByAddressAggregate: { method: 'GET', path: '/api/v1/bridge/positions/{address}/aggregate', auth: 'required' },
+  postBridgeTransfer: { method: 'POST', path: '/api/v1/bridge/transfer', auth: 'required' },
+  getBridgeOperationsByAddress: { method: 'GET', path: '/api/v1/bridge/operations/{address}', auth: 'required' },
+  getBridgeOperationByOperationId: { method: 'GET', path: '/api/v1/bridge/operation/{operationId}', auth: 'required' },
+  getBridgeChains: { method: 'GET', path: '/api/v1/bridge/chains', auth: 'optional' },
+  getBridgeFees: { method: 'GET', path: '/api/v1/bridge/fees', auth: 'optional' },
+  postBridgeEstimate: { method: 'POST', path: '/api/v1/bridge/estimate', auth: 'optional' },
+  getBridgeStatusByOperationId: { method: 'GET', path: '/api/v1/bridge/status/{operationId}', auth: 'required' },
+  getContracts: { method: 'GET', path: '/api/v1/contracts', auth: 'optional' },
+  getContractsVault: { method: 'GET', path: '/api/v1/contracts/vault', auth: 'optional' },
+  getContractsVaultProfileByAddress: { method: 'GET', path: '/api/v1/contracts/vault/profile/{address}', auth: 'optional' },
+  getContractsOracleByAddress: { method: 'GET', path: '/api/v1/contracts/oracle/{address}', auth: 'optional' },
+  getContractsIntegration: { method: 'GET', path: '/api/v1/contracts/integration', auth: 'optional' },
+  getContractsIntegrationBridgeRoute: { method: 'GET', path: '/api/v1/contracts/integration/bridge/route', auth: 'optional' },
+  getContractsIntegrationBridgeByOperationId: { method: 'GET', path: '/api/v1/contracts/integration/bridge/{operationId}', auth: 'optional' },
+  getUserAuthNonce: { method: 'GET', path: '/api/v1/user/auth/nonce', auth: 'none' },
+  postUserAuth: { method: 'POST', path: '/api/v1/user/auth', auth: 'none' },
+  postUserAuthRefresh: { method: 'POST', path: '/api/v1/user/auth/refresh', auth: 'none' },
+  postUserAuthLogout: { method: 'POST', path: '/api/v1/user/auth/logout', auth: 'required' },
+  getUserSessions: { method: 'GET', path: '/api/v1/user/sessions', auth: 'required' },
+  deleteUserSessions: { method: 'DELETE', path: '/api/v1/user/sessions', auth: 'required' },
+  deleteUserSessionsBySessionId: { method: 'DELETE', path: '/api/v1/user/sessions/{sessionId}', auth: 'required' },
+  getUserApiKeys: { method: 'GET', path: '/api/v1/user/api-keys', auth: 'required' },
+  postUserApiKeys: { method: 'POST', path: '/api/v1/user/api-keys', auth: 'required' },
+  postUserApiKeysByKeyIdRotate: { method: 'POST', path: '/api/v1/user/api-keys/{keyId}/rotate', auth: 'required' },
+  deleteUserApiKeysByKeyId: { method: 'DELETE', path: '/api/v1/user/api-keys/{keyId}', auth: 'required' },
+  getUserProfile: { method: 'GET', path: '/api/v1/user/profile', auth: 'required' },
+  putUserProfile: { method: 'PUT', path: '/api/v1/user/profile', auth: 'required' },
+  getUserPreferences: { method: 'GET', path: '/api/v1/user/preferences', auth: 'required' },
+  putUserPreferences: { method: 'PUT', path: '/api/v1/user/preferences', auth: 'required' },
+  getUserSubscription: { method: 'GET', path: '/api/v1/user/subscription', auth: 'required' },
+  getUserEntitlements: { method: 'GET', path: '/api/v1/user/entitlements', auth: 'required' },
+  getUserDashboards: { method: 'GET', path: '/api/v1/user/dashboards', auth: 'required' },
+  postUserDashboards: { method: 'POST', path: '/api/v1/user/dashboards', auth: 'required' },
+  putUserDashboardsByDashboardId: { method: 'PUT', path: '/api/v1/user/dashboards/{dashboardId}', auth: 'required' },
+  deleteUserDashboardsByDashboardId: { method: 'DELETE', path: '/api/v1/user/dashboards/{dashboardId}', auth: 'required' },
+  getUserWallets: { method: 'GET', path: '/api/v1/user/wallets', auth: 'required' },
+  postUserWallets: { method: 'POST', path: '/api/v1/user/wallets', auth: 'required' },
+  putUserWalletsByAddress: { method: 'PUT', path: '/api/v1/user/wallets/{address}', auth: 'required' },
+  deleteUserWalletsByAddress: { method: 'DELETE', path: '/api/v1/user/wallets/{address}', auth: 'required' },
+  getUserStats: { method: 'GET', path: '/api/v1/user/stats', auth: 'required' },
+  getUserActivity: { method: 'GET', path: '/api/v1/user/activity', auth: 'required' },
+  postUserSubscribe: { method: 'POST', path: '/api/v1/user/subscribe', auth: 'required' },
+  getUserInvoices: { method: 'GET', path: '/api/v1/user/invoices', auth: 'required' },
+  getUserInvoicesByInvoiceId: { method: 'GET', path: '/api/v1/user/invoices/{invoiceId}', auth: 'required' },
+  getUserExport: { method: 'GET', path: '/api/v1/user/export', auth: 'required' },
+  deleteUserAccount: { method: 'DELETE', path: '/api/v1/user/account', auth: 'required' },
+  getUserAccountDeletionsByConfirmationId: { method: 'GET', path: '/api/v1/user/account/deletions/{confirmationId}', auth: 'none' },
+  postUserAccountDeletionsVerify: { method: 'POST', path: '/api/v1/user/account/deletions/verify', auth: 'none' },
+  getOrgs: { method: 'GET', path: '/api/v1/orgs', auth: 'required' },
+  postOrgs: { method: 'POST', path: '/api/v1/orgs', auth: 'required' },
+  getOrgsInvites: { method: 'GET', path: '/api/v1/orgs/invites', auth: 'required' },
+  postOrgsInvitesByInviteIdAccept: { method: 'POST', path: '/api/v1/orgs/invites/{inviteId}/accept', auth: 'required' },
+  getOrgsByOrgId: { method: 'GET', path: '/api/v1/orgs/{orgId}', auth: 'required' },
+  putOrgsByOrgId: { method: 'PUT', path: '/api/v1/orgs/{orgId}', auth: 'required' },
+  deleteOrgsByOrgId: { method: 'DELETE', path: '/api/v1/orgs/{orgId}', auth: 'required' },
+  putOrgsByOrgIdMembersByUserId: { method: 'PUT', path: '/api/v1/orgs/{orgId}/members/{userId}', auth: 'required' },
+  deleteOrgsByOrgIdMembersByUserId: { method: 'DELETE', path: '/api/v1/orgs/{orgId}/members/{userId}', auth: 'required' },
+  getOrgsByOrgIdInvites: { method: 'GET', path: '/api/v1/orgs/{orgId}/invites', auth: 'required' },
+  postOrgsByOrgIdInvites: { method: 'POST', path: '/api/v1/orgs/{orgId}/invites', auth: 'required' },
+  deleteOrgsByOrgIdInvitesByInviteId: { method: 'DELETE', path: '/api/v1/orgs/{orgId}/invites/{inviteId}', auth: 'required' },
+  postOrgsByOrgIdAddressesChallenge: { method: 'POST', path: '/api/v1/orgs/{orgId}/addresses/challenge', auth: 'required' },
+  postOrgsByOrgIdAddresses: { method: 'POST', path: '/api/v1/orgs/{orgId}/addresses', auth: 'required' },
+  deleteOrgsByOrgIdAddressesByAddress: { method: 'DELETE', path: '/api/v1/orgs/{orgId}/addresses/{address}', auth: 'required' },
+  getAdminConfig: { method: 'GET', path: '/api/v1/admin/config', auth: 'required' },
+  getAdminIndexer: { method: 'GET', path: '/api/v1/admin/indexer', auth: 'required' },
+  getAdminRpc: { method: 'GET', path: '/api/v1/admin/rpc', auth: 'required' },
+  getOpenapiJson: { method: 'GET', path: '/api/v1/openapi.json', auth: 'none' },
+  getDocs: { method: 'GET', path: '/api/v1/docs', auth: 'none' },
+} as const;
+
+export type OperationId = keyof typeof OPERATIONS;
+
+export interface GetAnalyticsQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y' | 'all';
+  /** Default: 1101 */
+  chain?: number;
+}
+
+export interface GetAnalyticsTvlQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y' | 'all';
+  protocol?: string;
+}
+
+export interface GetAnalyticsYieldsQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y' | 'all';
+  protocol?: string;
+}
+
+export interface GetAnalyticsProtocolsQuery {
+  /** Default: "tvl" */
+  sortBy?: 'tvl' | 'yield' | 'riskScore' | 'users';
+  /** Default: "desc" */
+  order?: 'asc' | 'desc';
+  /** Default: 50 */
+  limit?: number;
+}
+
+export interface GetAnalyticsUsersQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y' | 'all';
+}
+
+export interface GetAnalyticsSwellchainQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y';
+}
+
+export interface GetAnalyticsNucleusQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y';
+}
+
+export interface GetAnalyticsTransactionsQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y';
+  type?: 'deposit' | 'withdraw' | 'rebalance' | 'claim' | 'bridge';
+  /** Default: 100 */
+  limit?: number;
+}
+
+export interface GetAnalyticsPricesBySymbolParams {
+  symbol: string;
+}
+
+export interface GetAnalyticsPricesBySymbolQuery {
+  at?: string;
+}
+
+export interface GetRiskMetricsByAddressParams {
+  address: string;
+}
+
+export interface GetRiskMetricsByAddressAggregateParams {
+  address: string;
+}
+
+export interface GetRiskMetricsByAddressAggregateQuery {
+  group?: string;
+}
+
+export interface GetRiskAlertsByAddressParams {
+  address: string;
+}
+
+export interface GetRiskAlertsByAddressQuery {
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  type?: 'validator_risk' | 'concentration_risk' | 'slashing_event' | 'liquidity_risk' | 'depeg_risk';
+  /** Default: 10 */
+  limit?: number;
+}
+
+export interface GetRiskDepegBySymbolHistoryParams {
+  symbol: 'swETH' | 'rswETH';
+}
+
+export interface GetRiskDepegBySymbolHistoryQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y';
+}
+
+export interface GetRiskProfileByAddressParams {
+  address: string;
+}
+
+export interface PutRiskProfileByAddressParams {
+  address: string;
+}
+
+/** Update risk profile settings for a user */
+export type PutRiskProfileByAddressBody = {
+  riskTolerance?: 'conservative' | 'moderate' | 'aggressive';
+  maxSlashingRisk?: number;
+  maxLiquidityRisk?: number;
+  maxConcentration?: number;
+  rebalanceThreshold?: number;
+  autoRebalance?: boolean;
+  alertThresholds?: {
+    slashing?: number;
+    liquidity?: number;
+    concentration?: number;
+    performance?: number;
+  };
+};
+
+export interface PostRiskAssessmentByAddressParams {
+  address: string;
+}
+
+export interface GetRiskValidatorsByAddressParams {
+  address: string;
+}
+
+export interface GetRiskValidatorsByAddressQuery {
+  /** Default: "riskScore" */
+  sort?: 'riskScore' | 'performance' | 'uptime' | 'commission' | 'stakedAmount';
+  /** Default: "desc" */
+  order?: 'asc' | 'desc';
+  /** Default: 20 */
+  limit?: number;
+}
+
+export interface GetRiskAvsByAddressParams {
+  address: string;
+}
+
+export interface GetRiskAvsByAddressQuery {
+  /** Default: "riskScore" */
+  sort?: 'riskScore' | 'operatorCount' | 'totalStaked' | 'auditScore' | 'governanceRisk';
+  /** Default: "desc" */
+  order?: 'asc' | 'desc';
+  /** Default: 10 */
+  limit?: number;
+}
+
+export interface PostRiskAlertsByAddressDismissParams {
+  address: string;
+}
+
+/** Dismiss specific risk alerts */
+export type PostRiskAlertsByAddressDismissBody = {
+  alertIds: Array<string>;
+};
+
+export interface GetRiskAlertRulesByAddressParams {
+  address: string;
+}
+
+export interface PostRiskAlertRulesByAddressParams {
+  address: string;
+}
+
+/** Create a custom alert rule */
+export type PostRiskAlertRulesByAddressBody = {
+  name: string;
+  metric: 'slashing' | 'liquidity' | 'concentration' | 'performance';
+  threshold: number;
+  /** Default: ["push"] */
+  channels?: Array<'email' | 'push' | 'discord' | 'telegram'>;
+};
+
+export interface DeleteRiskAlertRulesByAddressByRuleIdParams {
+  address: string;
+  ruleId: string;
+}
+
+export interface GetPortfolioByAddressParams {
+  address: string;
+}
+
+export interface GetPortfolioByAddressAggregateParams {
+  address: string;
+}
+
+export interface GetPortfolioByAddressAggregateQuery {
+  group?: string;
+}
+
+export interface GetPortfolioByAddressPositionsParams {
+  address: string;
+}
+
+export interface GetPortfolioByAddressPositionsQuery {
+  protocol?: string;
+  status?: 'active' | 'inactive';
+  /** Default: "value" */
+  sort?: 'value' | 'amount' | 'yield' | 'apy' | 'riskScore' | 'allocation' | 'earnings';
+  /** Default: "desc" */
+  order?: 'asc' | 'desc';
+  /** Default: 50 */
+  limit?: number;
+}
+
+export interface GetPortfolioByAddressProtocolsParams {
+  address: string;
+}
+
+export interface GetPortfolioByAddressNucleusParams {
+  address: string;
+}
+
+export interface PostPortfolioByAddressRebalanceParams {
+  address: string;
+}
+
+/** Trigger portfolio rebalancing */
+export type PostPortfolioByAddressRebalanceBody = {
+  strategy: string;
+  targetAllocations?: Record<string, number>;
+  /** Default: 0.02 */
+  maxSlippage?: number;
+  /** Default: false */
+  dryRun?: boolean;
+};
+
+export interface GetPortfolioByAddressStrategiesParams {
+  address: string;
+}
+
+export interface GetPortfolioByAddressStrategiesQuery {
+  status?: 'active' | 'inactive';
+  /** Default: "tvl" */
+  sort?: 'tvl' | 'riskScore' | 'expectedYield' | 'allocation';
+  /** Default: "desc" */
+  order?: 'asc' | 'desc';
+}
+
+export interface PostPortfolioByAddressStrategiesParams {
+  address: string;
+}
+
+/** Create a new investment strategy */
+export type PostPortfolioByAddressStrategiesBody = {
+  name: string;
+  description?: string;
+  allocations: Record<string, number>;
+  riskScore?: number;
+  /** Default: false */
+  autoExecute?: boolean;
+};
+
+export interface GetPortfolioByAddressPerformanceParams {
+  address: string;
+}
+
+export interface GetPortfolioByAddressPerformanceQuery {
+  /** Default: "30d" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y';
+}
+
+export interface GetPortfolioByAddressRecommendationsParams {
+  address: string;
+}
+
+export interface GetPortfolioByAddressRecommendationsQuery {
+  type?: 'rebalance' | 'strategy_change' | 'risk_adjustment' | 'yield_optimization';
+  priority?: 'low' | 'medium' | 'high';
+}
+
+export interface GetAvsQuery {
+  /** Default: "totalStaked" */
+  sort?: 'totalStaked' | 'operatorCount' | 'performanceScore' | 'slashingEvents' | 'slashingRisk' | 'averageCommission' | 'uptime';
+  /** Default: "desc" */
+  order?: 'asc' | 'desc';
+  status?: 'active' | 'inactive';
+}
+
+export interface GetAvsByAvsIdParams {
+  avsId: string;
+}
+
+export interface GetAvsByAvsIdOperatorsParams {
+  avsId: string;
+}
+
+export interface GetAvsByAvsIdOperatorsQuery {
+  /** Default: "stake" */
+  sort?: 'stake' | 'commission' | 'performanceScore' | 'slashingHistory';
+  /** Default: "desc" */
+  order?: 'asc' | 'desc';
+  status?: 'active' | 'inactive';
+  /** Default: 50 */
+  limit?: number;
+}
+
+export interface GetAvsByAvsIdRewardsParams {
+  avsId: string;
+}
+
+export interface GetAvsByAvsIdPerformanceParams {
+  avsId: string;
+}
+
+export interface GetAvsByAvsIdPerformanceQuery {
+  /** Default: "24h" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y';
+}
+
+export interface PostAvsByAvsIdStakeParams {
+  avsId: string;
+}
+
+/** Simulate staking to an AVS */
+export type PostAvsByAvsIdStakeBody = {
+  amount: number;
+  operator?: string;
+};
+
+export interface GetBridgePositionsByAddressParams {
+  address: string;
+}
+
+export interface GetBridgePositionsByAddressQuery {
+  chainId?: number;
+  token?: string;
+  status?: 'active' | 'pending' | 'failed';
+}
+
+export interface GetBridgePositionsByAddressAggregateParams {
+  address: string;
+}
+
+export interface GetBridgePositionsByAddressAggregateQuery {
+  group?: string;
+}
+
+/** Execute a cross-chain bridge transfer */
+export type PostBridgeTransferBody = {
+  fromChain: number;
+  toChain: number;
+  token: string;
+  amount: number;
+  recipient: string;
+  /** Default: 0.02 */
+  slippageTolerance?: number;
+  deadline?: number;
+};
+
+export interface GetBridgeOperationsByAddressParams {
+  address: string;
+}
+
+export interface GetBridgeOperationsByAddressQuery {
+  status?: 'pending' | 'confirmed' | 'failed' | 'cancelled';
+  fromChain?: number;
+  toChain?: number;
+  /** Default: 20 */
+  limit?: number;
+  /** Default: 0 */
+  offset?: number;
+}
+
+export interface GetBridgeOperationByOperationIdParams {
+  operationId: string;
+}
+
+export interface GetBridgeFeesQuery {
+  fromChain?: number;
+  toChain?: number;
+  token?: string;
+  amount?: number;
+}
+
+/** Get bridge transfer estimate without executing */
+export type PostBridgeEstimateBody = {
+  fromChain: number;
+  toChain: number;
+  token: string;
+  amount: number;
+};
+
+export interface GetBridgeStatusByOperationIdParams {
+  operationId: string;
+}
+
+export interface GetContractsVaultProfileByAddressParams {
+  address: string;
+}
+
+export interface GetContractsOracleByAddressParams {
+  address: string;
+}
+
+export interface GetContractsIntegrationBridgeRouteQuery {
+  token: string;
+  amount: string;
+  targetChainId: number;
+}
+
+export interface GetContractsIntegrationBridgeByOperationIdParams {
+  operationId: string;
+}
+
+export interface GetUserAuthNonceQuery {
+  address: string;
+  /** Default: 1923 */
+  chainId?: number;
+}
+
+/** Authenticate user with a signed SIWE message */
+export type PostUserAuthBody = {
+  signature: string;
+  message: string;
+  address?: string;
+};
+
+/** Exchange a refresh token for a new access/refresh token pair */
+export type PostUserAuthRefreshBody = {
+  refreshToken: string;
+};
+
+export interface DeleteUserSessionsBySessionIdParams {
+  sessionId: string;
+}
+
+/** Create an API key */
+export type PostUserApiKeysBody = {
+  name: string;
+  /** Default: ["read"] */
+  scopes?: Array<'read' | 'trade'>;
+  /** Default: [] */
+  allowedIps?: Array<string>;
+  expiresInDays?: number;
+};
+
+export interface PostUserApiKeysByKeyIdRotateParams {
+  keyId: string;
+}
+
+/** Rotate an API key */
+export type PostUserApiKeysByKeyIdRotateBody = {
+  /** Default: 0 */
+  gracePeriodMinutes?: number;
+};
+
+export interface DeleteUserApiKeysByKeyIdParams {
+  keyId: string;
+}
+
+/** Update current user's profile */
+export type PutUserProfileBody = {
+  username?: string;
+  email?: string;
+  avatar?: string;
+};
+
+/** Update current user's preferences */
+export type PutUserPreferencesBody = {
+  theme?: 'light' | 'dark' | 'auto';
+  currency?: 'USD' | 'ETH' | 'EUR';
+  language?: string;
+  timezone?: string;
+  notifications?: {
+    email?: boolean;
+    push?: boolean;
+    discord?: boolean;
+    telegram?: boolean;
+    riskAlerts?: boolean;
+    rebalanceNotifications?: boolean;
+    yieldUpdates?: boolean;
+    marketUpdates?: boolean;
+  };
+  privacy?: {
+    showPortfolio?: boolean;
+    showTransactions?: boolean;
+    allowAnalytics?: boolean;
+    shareData?: boolean;
+  };
+};
+
+/** Create a custom dashboard */
+export type PostUserDashboardsBody = {
+  name: string;
+  /** Default: [] */
+  widgets?: Array<{
+    type: 'portfolio_value' | 'risk_score' | 'yield_chart' | 'tvl_chart' | 'avs_performance' | 'alerts' | 'bridge_activity';
+    title?: string;
+    position: {
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+    };
+    config?: Record<string, unknown>;
+  }>;
+};
+
+export interface PutUserDashboardsByDashboardIdParams {
+  dashboardId: string;
+}
+
+/** Update a custom dashboard */
+export type PutUserDashboardsByDashboardIdBody = {
+  name?: string;
+  widgets?: Array<{
+    type: 'portfolio_value' | 'risk_score' | 'yield_chart' | 'tvl_chart' | 'avs_performance' | 'alerts' | 'bridge_activity';
+    title?: string;
+    position: {
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+    };
+    config?: Record<string, unknown>;
+  }>;
+};
+
+export interface DeleteUserDashboardsByDashboardIdParams {
+  dashboardId: string;
+}
+
+export interface GetUserWalletsQuery {
+  group?: string;
+}
+
+/** Watch a wallet */
+export type PostUserWalletsBody = {
+  address: string;
+  label?: string;
+  group?: string;
+};
+
+export interface PutUserWalletsByAddressParams {
+  address: string;
+}
+
+/** Change a watched wallet's label or group */
+export type PutUserWalletsByAddressBody = {
+  label?: string | null;
+  group?: string | null;
+};
+
+export interface DeleteUserWalletsByAddressParams {
+  address: string;
+}
+
+export interface GetUserStatsQuery {
+  /** Default: "30d" */
+  timeRange?: '1h' | '24h' | '7d' | '30d' | '90d' | '1y';
+}
+
+export interface GetUserActivityQuery {
+  /** Default: 20 */
+  limit?: number;
+  /** Default: 0 */
+  offset?: number;
+  type?: string;
+}
+
+/** Request a subscription tier */
+export type PostUserSubscribeBody = {
+  tier: 'basic' | 'premium' | 'enterprise';
+  /** Default: "crypto" */
+  paymentMethod?: 'crypto';
+};
+
+export interface GetUserInvoicesByInvoiceIdParams {
+  invoiceId: string;
+}
+
+export interface GetUserExportQuery {
+  /** Default: "zip" */
+  format?: 'zip' | 'json';
+}
+
+/** Request account deletion */
+export type DeleteUserAccountBody = {
+  confirmation: 'DELETE_MY_ACCOUNT';
+};
+
+export interface GetUserAccountDeletionsByConfirmationIdParams {
+  confirmationId: string;
+}
+
+/** Verify an account deletion receipt */
+export type PostUserAccountDeletionsVerifyBody = {
+  confirmationId: string;
+  requestedAt: string;
+  completedAt: string;
+  retentionPeriod: number;
+  dataRemaining: Array<string>;
+  erased: Record<string, number>;
+  subjectHash: string;
+  signature: string;
+};
+
+/** Create an organization */
+export type PostOrgsBody = {
+  name: string;
+};
+
+export interface PostOrgsInvitesByInviteIdAcceptParams {
+  inviteId: string;
+}
+
+/** Accept an organization invitation */
+export type PostOrgsInvitesByInviteIdAcceptBody = {
+  signature: string;
+};
+
+export interface GetOrgsByOrgIdParams {
+  orgId: string;
+}
+
+export interface PutOrgsByOrgIdParams {
+  orgId: string;
+}
+
+/** Rename an organization */
+export type PutOrgsByOrgIdBody = {
+  name: string;
+};
+
+export interface DeleteOrgsByOrgIdParams {
+  orgId: string;
+}
+
+export interface PutOrgsByOrgIdMembersByUserIdParams {
+  orgId: string;
+  userId: string;
+}
+
+/** Change a member's role */
+export type PutOrgsByOrgIdMembersByUserIdBody = {
+  role: 'owner' | 'analyst' | 'viewer';
+};
+
+export interface DeleteOrgsByOrgIdMembersByUserIdParams {
+  orgId: string;
+  userId: string;
+}
+
+export interface GetOrgsByOrgIdInvitesParams {
+  orgId: string;
+}
+
+export interface PostOrgsByOrgIdInvitesParams {
+  orgId: string;
+}
+
+/** Invite a wallet to an organization */
+export type PostOrgsByOrgIdInvitesBody = {
+  address: string;
+  /** Default: "viewer" */
+  role?: 'owner' | 'analyst' | 'viewer';
+};
+
+export interface DeleteOrgsByOrgIdInvitesByInviteIdParams {
+  orgId: string;
+  inviteId: string;
+}
+
+export interface PostOrgsByOrgIdAddressesChallengeParams {
+  orgId: string;
+}
+
+/** Request a watch-address signature challenge */
+export type PostOrgsByOrgIdAddressesChallengeBody = {
+  address: string;
+  /** Default: 1 */
+  chainId?: number;
+};
+
+export interface PostOrgsByOrgIdAddressesParams {
+  orgId: string;
+}
+
+/** Attach a signed-for wallet to an organization */
+export type PostOrgsByOrgIdAddressesBody = {
+  message: string;
+  signature: string;
+  label?: string;
+};
+
+export interface DeleteOrgsByOrgIdAddressesByAddressParams {
+  orgId: string;
+  address: string;
+}
+
+/**
+ * Request input accepted by each operation
+ */
+export interface OperationInputs {
+  getAnalytics: { query?: GetAnalyticsQuery };
+  getAnalyticsTvl: { query?: GetAnalyticsTvlQuery };
+  getAnalyticsYields: { query?: GetAnalyticsYieldsQuery };
+  getAnalyticsProtocols: { query?: GetAnalyticsProtocolsQuery };
+  getAnalyticsUsers: { query?: GetAnalyticsUsersQuery };
+  getAnalyticsRealtime: {};
+  getAnalyticsSwellchain: { query?: GetAnalyticsSwellchainQuery };
+  getAnalyticsNucleus: { query?: GetAnalyticsNucleusQuery };
+  getAnalyticsTransactions: { query?: GetAnalyticsTransactionsQuery };
+  getAnalyticsPrices: {};
+  getAnalyticsPricesBySymbol: { params: GetAnalyticsPricesBySymbolParams; query?: GetAnalyticsPricesBySymbolQuery };
+  getRiskMetricsByAddress: { params: GetRiskMetricsByAddressParams };
+  getRiskMetricsByAddressAggregate: { params: GetRiskMetricsByAddressAggregateParams; query?: GetRiskMetricsByAddressAggregateQuery };
+  getRiskAlertsByAddress: { params: GetRiskAlertsByAddressParams; query?: GetRiskAlertsByAddressQuery };
+  getRiskDepeg: {};
+  getRiskDepegBySymbolHistory: { params: GetRiskDepegBySymbolHistoryParams; query?: GetRiskDepegBySymbolHistoryQuery };
+  getRiskProfileByAddress: { params: GetRiskProfileByAddressParams };
+  putRiskProfileByAddress: { params: PutRiskProfileByAddressParams; body: PutRiskProfileByAddressBody };
+  postRiskAssessmentByAddress: { params: PostRiskAssessmentByAddressParams };
+  getRiskValidatorsByAddress: { params: GetRiskValidatorsByAddressParams; query?: GetRiskValidatorsByAddressQuery };
+  getRiskAvsByAddress: { params: GetRiskAvsByAddressParams; query?: GetRiskAvsByAddressQuery };
+  postRiskAlertsByAddressDismiss: { params: PostRiskAlertsByAddressDismissParams; body: PostRiskAlertsByAddressDismissBody };
+  getRiskAlertRulesByAddress: { params: GetRiskAlertRulesByAddressParams };
+  postRiskAlertRulesByAddress: { params: PostRiskAlertRulesByAddressParams; body: PostRiskAlertRulesByAddressBody };
+  deleteRiskAlertRulesByAddressByRuleId: { params: DeleteRiskAlertRulesByAddressByRuleIdParams };
+  getPortfolioByAddress: { params: GetPortfolioByAddressParams };
+  getPortfolioByAddressAggregate: { params: GetPortfolioByAddressAggregateParams; query?: GetPortfolioByAddressAggregateQuery };
+  getPortfolioByAddressPositions: { params: GetPortfolioByAddressPositionsParams; query?: GetPortfolioByAddressPositionsQuery };
+  getPortfolioByAddressProtocols: { params: GetPortfolioByAddressProtocolsParams };
+  getPortfolioByAddressNucleus: { params: GetPortfolioByAddressNucleusParams };
+  postPortfolioByAddressRebalance: { params: PostPortfolioByAddressRebalanceParams; body: PostPortfolioByAddressRebalanceBody };
+  getPortfolioByAddressStrategies: { params: GetPortfolioByAddressStrategiesParams; query?: GetPortfolioByAddressStrategiesQuery };
+  postPortfolioByAddressStrategies: { params: PostPortfolioByAddressStrategiesParams; body: PostPortfolioByAddressStrategiesBody };
+  getPortfolioByAddressPerformance: { params: GetPortfolioByAddressPerformanceParams; query?: GetPortfolioByAddressPerformanceQuery };
+  getPortfolioByAddressRecommendations: { params: GetPortfolioByAddressRecommendationsParams; query?: GetPortfolioByAddressRecommendationsQuery };
+  getAvs: { query?: GetAvsQuery };
+  getAvsByAvsId: { params: GetAvsByAvsIdParams };
+  getAvsByAvsIdOperators: { params: GetAvsByAvsIdOperatorsParams; query?: GetAvsByAvsIdOperatorsQuery };
+  getAvsByAvsIdRewards: { params: GetAvsByAvsIdRewardsParams };
+  getAvsByAvsIdPerformance: { params: GetAvsByAvsIdPerformanceParams; query?: GetAvsByAvsIdPerformanceQuery };
+  getAvsMach: {};
+  getAvsVital: {};
+  getAvsSquad: {};
+  getAvsOverview: {};
+  postAvsByAvsIdStake: { params: PostAvsByAvsIdStakeParams; body: PostAvsByAvsIdStakeBody };
+  getBridgePositionsByAddress: { params: GetBridgePositionsByAddressParams; query?: GetBridgePositionsByAddressQuery };
+  getBridgePositionsByAddressAggregate: { params: GetBridgePositionsByAddressAggregateParams; query?: GetBridgePositionsByAddressAggregateQuery };
+  postBridgeTransfer: { body: PostBridgeTransferBody };
+  getBridgeOperationsByAddress: { params: GetBridgeOperationsByAddressParams; query?: GetBridgeOperationsByAddressQuery };
+  getBridgeOperationByOperationId: { params: GetBridgeOperationByOperationIdParams };
+  getBridgeChains: {};
+  getBridgeFees: { query?: GetBridgeFeesQuery };
+  postBridgeEstimate: { body: PostBridgeEstimateBody };
+  getBridgeStatusByOperationId: { params: GetBridgeStatusByOperationIdParams };
+  getContracts: {};
+  getContractsVault: {};
+  getContractsVaultProfileByAddress: { params: GetContractsVaultProfileByAddressParams };
+  getContractsOracleByAddress: { params: GetContractsOracleByAddressParams };
+  getContractsIntegration: {};
+  getContractsIntegrationBridgeRoute: { query: GetContractsIntegrationBridgeRouteQuery };
+  getContractsIntegrationBridgeByOperationId: { params: GetContractsIntegrationBridgeByOperationIdParams };
+  getUserAuthNonce: { query: GetUserAuthNonceQuery };
+  postUserAuth: { body: PostUserAuthBody };
+  postUserAuthRefresh: { body: PostUserAuthRefreshBody };
+  postUserAuthLogout: {};
+  getUserSessions: {};
+  deleteUserSessions: {};
+  deleteUserSessionsBySessionId: { params: DeleteUserSessionsBySessionIdParams };
+  getUserApiKeys: {};
+  postUserApiKeys: { body: PostUserApiKeysBody };
+  postUserApiKeysByKeyIdRotate: { params: PostUserApiKeysByKeyIdRotateParams; body: PostUserApiKeysByKeyIdRotateBody };
+  deleteUserApiKeysByKeyId: { params: DeleteUserApiKeysByKeyIdParams };
+  getUserProfile: {};
+  putUserProfile: { body: PutUserProfileBody };
+  getUserPreferences: {};
+  putUserPreferences: { body: PutUserPreferencesBody };
+  getUserSubscription: {};
+  getUserEntitlements: {};
+  getUserDashboards: {};
+  postUserDashboards: { body: PostUserDashboardsBody };
+  putUserDashboardsByDashboardId: { params: PutUserDashboardsByDashboardIdParams; body: PutUserDashboardsByDashboardIdBody };
+  deleteUserDashboardsByDashboardId: { params: DeleteUserDashboardsByDashboardIdParams };
+  getUserWallets: { query?: GetUserWalletsQuery };
+  postUserWallets: { body: PostUserWalletsBody };
+  putUserWalletsByAddress: { params: PutUserWalletsByAddressParams; body: PutUserWalletsByAddressBody };
+  deleteUserWalletsByAddress: { params: DeleteUserWalletsByAddressParams };
+  getUserStats: { query?: GetUserStatsQuery };
+  getUserActivity: { query?: GetUserActivityQuery };
+  postUserSubscribe: { body: PostUserSubscribeBody };
+  getUserInvoices: {};
+  getUserInvoicesByInvoiceId: { params: GetUserInvoicesByInvoiceIdParams };
+  getUserExport: { query?: GetUserExportQuery };
+  deleteUserAccount: { body: DeleteUserAccountBody };
+  getUserAccountDeletionsByConfirmationId: { params: GetUserAccountDeletionsByConfirmationIdParams };
+  postUserAccountDeletionsVerify: { body: PostUserAccountDeletionsVerifyBody };
+  getOrgs: {};
+  postOrgs: { body: PostOrgsBody };
+  getOrgsInvites: {};
+  postOrgsInvitesByInviteIdAccept: { params: PostOrgsInvitesByInviteIdAcceptParams; body: PostOrgsInvitesByInviteIdAcceptBody };
+  getOrgsByOrgId: { params: GetOrgsByOrgIdParams };
+  putOrgsByOrgId: { params: PutOrgsByOrgIdParams; body: PutOrgsByOrgIdBody };
+  deleteOrgsByOrgId: { params: DeleteOrgsByOrgIdParams };
+  putOrgsByOrgIdMembersByUserId: { params: PutOrgsByOrgIdMembersByUserIdParams; body: PutOrgsByOrgIdMembersByUserIdBody };
+  deleteOrgsByOrgIdMembersByUserId: { params: DeleteOrgsByOrgIdMembersByUserIdParams };
+  getOrgsByOrgIdInvites: { params: GetOrgsByOrgIdInvitesParams };
+  postOrgsByOrgIdInvites: { params: PostOrgsByOrgIdInvitesParams; body: PostOrgsByOrgIdInvitesBody };
+  deleteOrgsByOrgIdInvitesByInviteId: { params: DeleteOrgsByOrgIdInvitesByInviteIdParams };
+  postOrgsByOrgIdAddressesChallenge: { params: PostOrgsByOrgIdAddressesChallengeParams; body: PostOrgsByOrgIdAddressesChallengeBody };
+  postOrgsByOrgIdAddresses: { params: PostOrgsByOrgIdAddressesParams; body: PostOrgsByOrgIdAddressesBody };
+  deleteOrgsByOrgIdAddressesByAddress: { params: DeleteOrgsByOrgIdAddressesByAddressParams };
+  getAdminConfig: {};
+  getAdminIndexer: {};
+  getAdminRpc: {};
+  getOpenapiJson: {};
+  getDocs: {};
+}
+
+/**
+ * The `data` each operation resolves to
+ */
+export interface OperationResults {
+  getAnalytics: AnalyticsData;
+  getAnalyticsTvl: AnalyticsMetrics;
+  getAnalyticsYields: AnalyticsMetrics;
+  getAnalyticsProtocols: Array<ProtocolData>;
+  getAnalyticsUsers: AnalyticsMetrics;
+  getAnalyticsRealtime: AnalyticsMetrics;
+  getAnalyticsSwellchain: AnalyticsMetrics;
+  getAnalyticsNucleus: NucleusRateHistory;
+  getAnalyticsTransactions: Array<TransactionData>;
+  getAnalyticsPrices: Array<TokenPrice>;
+  getAnalyticsPricesBySymbol: TokenPrice;
+  getRiskMetricsByAddress: RiskMetrics;
+  getRiskMetricsByAddressAggregate: AggregatedRiskMetrics;
+  getRiskAlertsByAddress: Array<RiskAlert>;
+  getRiskDepeg: Array<PegStatus>;
+  getRiskDepegBySymbolHistory: Array<PegSample>;
+  getRiskProfileByAddress: RiskProfile;
+  putRiskProfileByAddress: RiskProfile;
+  postRiskAssessmentByAddress: RiskMetrics;
+  getRiskValidatorsByAddress: Array<ValidatorRisk>;
+  getRiskAvsByAddress: Array<AVSRiskMetrics>;
+  postRiskAlertsByAddressDismiss: {
+    dismissed: Array<string>;
+  };
+  getRiskAlertRulesByAddress: Array<AlertRule>;
+  postRiskAlertRulesByAddress: AlertRule;
+  deleteRiskAlertRulesByAddressByRuleId: {
+    deleted: Array<string>;
+  };
+  getPortfolioByAddress: PortfolioData;
+  getPortfolioByAddressAggregate: AggregatedPortfolio;
+  getPortfolioByAddressPositions: Array<Position>;
+  getPortfolioByAddressProtocols: Array<ProtocolPosition>;
+  getPortfolioByAddressNucleus: NucleusAccount;
+  postPortfolioByAddressRebalance: RebalanceResult;
+  getPortfolioByAddressStrategies: Array<Strategy>;
+  postPortfolioByAddressStrategies: Strategy;
+  getPortfolioByAddressPerformance: PerformanceData;
+  getPortfolioByAddressRecommendations: Array<Recommendation>;
+  getAvs: Array<AVSMetrics>;
+  getAvsByAvsId: AVSMetrics;
+  getAvsByAvsIdOperators: Array<AVSOperator>;
+  getAvsByAvsIdRewards: AVSRewards;
+  getAvsByAvsIdPerformance: AVSPerformance;
+  getAvsMach: AVSDetails;
+  getAvsVital: AVSDetails;
+  getAvsSquad: AVSDetails;
+  getAvsOverview: AVSOverview;
+  postAvsByAvsIdStake: StakeResult;
+  getBridgePositionsByAddress: Array<CrossChainPosition>;
+  getBridgePositionsByAddressAggregate: AggregatedCrossChainPositions;
+  postBridgeTransfer: BridgeOperation;
+  getBridgeOperationsByAddress: Array<BridgeOperation>;
+  getBridgeOperationByOperationId: BridgeOperation;
+  getBridgeChains: Array<ChainConfig>;
+  getBridgeFees: BridgeCostEstimate | BridgeFeeStructure;
+  postBridgeEstimate: BridgeEstimate;
+  getBridgeStatusByOperationId: BridgeOperationStatus;
+  getContracts: ContractsStatus;
+  getContractsVault: VaultState;
+  getContractsVaultProfileByAddress: VaultRiskProfile;
+  getContractsOracleByAddress: OracleRiskScore;
+  getContractsIntegration: IntegrationMetrics;
+  getContractsIntegrationBridgeRoute: BridgeRoute;
+  getContractsIntegrationBridgeByOperationId: IntegrationBridgeStatus;
+  getUserAuthNonce: SiweChallenge;
+  postUserAuth: AuthResponse;
+  postUserAuthRefresh: AuthTokens;
+  postUserAuthLogout: {
+    revoked: Array<string>;
+  };
+  getUserSessions: Array<UserSession>;
+  deleteUserSessions: {
+    revokedCount: number;
+  };
+  deleteUserSessionsBySessionId: {
+    revoked: Array<string>;
+  };
+  getUserApiKeys: Array<ApiKeyInfo>;
+  postUserApiKeys: CreatedApiKey;
+  postUserApiKeysByKeyIdRotate: CreatedApiKey;
+  deleteUserApiKeysByKeyId: {
+    revoked: Array<string>;
+  };
+  getUserProfile: User;
+  putUserProfile: User;
+  getUserPreferences: UserPreferences;
+  putUserPreferences: UserPreferences;
+  getUserSubscription: UserSubscription;
+  getUserEntitlements: Entitlements;
+  getUserDashboards: Array<Dashboard>;
+  postUserDashboards: Dashboard;
+  putUserDashboardsByDashboardId: Dashboard;
+  deleteUserDashboardsByDashboardId: {
+    deleted: Array<string>;
+  };
+  getUserWallets: Array<WatchedWallet>;
+  postUserWallets: WatchedWallet;
+  putUserWalletsByAddress: WatchedWallet;
+  deleteUserWalletsByAddress: {
+    deleted: Array<string>;
+  };
+  getUserStats: UserStats;
+  getUserActivity: Array<ActivityEvent>;
+  postUserSubscribe: SubscriptionResult;
+  getUserInvoices: Array<Invoice>;
+  getUserInvoicesByInvoiceId: Invoice;
+  getUserExport: UserDataExport;
+  deleteUserAccount: DeletionReceipt;
+  getUserAccountDeletionsByConfirmationId: DeletionReceipt;
+  postUserAccountDeletionsVerify: {
+    valid: boolean;
+  };
+  getOrgs: Array<Organization>;
+  postOrgs: Organization;
+  getOrgsInvites: Array<OrganizationInvite>;
+  postOrgsInvitesByInviteIdAccept: OrganizationDetails;
+  getOrgsByOrgId: OrganizationDetails;
+  putOrgsByOrgId: OrganizationDetails;
+  deleteOrgsByOrgId: {
+    deleted: string;
+  };
+  putOrgsByOrgIdMembersByUserId: OrganizationDetails;
+  deleteOrgsByOrgIdMembersByUserId: {
+    removed: string;
+  };
+  getOrgsByOrgIdInvites: Array<OrganizationInvite>;
+  postOrgsByOrgIdInvites: OrganizationInvite;
+  deleteOrgsByOrgIdInvitesByInviteId: {
+    revoked: string;
+  };
+  postOrgsByOrgIdAddressesChallenge: SiweChallenge;
+  postOrgsByOrgIdAddresses: WatchedAddress;
+  deleteOrgsByOrgIdAddressesByAddress: {
+    removed: string;
+  };
+  getAdminConfig: Record<string, unknown>;
+  getAdminIndexer: Array<IndexerStatus>;
+  getAdminRpc: Array<RpcClientMetrics>;
+  getOpenapiJson: Record<string, unknown>;
+  getDocs: never;
+}
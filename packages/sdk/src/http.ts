@@ -0,0 +1,254 @@
+import { ApiError, AuthenticationError, InputError, NetworkError, RateLimitError, toApiError } from './errors';
+import { OPERATIONS, OperationId, OperationInputs, OperationResults } from './generated/operations';
+import { ApiResponse, AuthTokens } from './types';
+
+/**
+ * Where the client keeps the current access and refresh tokens.
+ * Browsers typically back this with localStorage, bots with memory or a file.
+ */
+export interface TokenStore {
+  getAccessToken(): string | null;
+  getRefreshToken(): string | null;
+  setTokens(tokens: AuthTokens | null): void;
+}
+
+export class MemoryTokenStore implements TokenStore {
+  private tokens: AuthTokens | null = null;
+
+  getAccessToken(): string | null {
+    return this.tokens?.token || null;
+  }
+
+  getRefreshToken(): string | null {
+    return this.tokens?.refreshToken || null;
+  }
+
+  setTokens(tokens: AuthTokens | null): void {
+    this.tokens = tokens;
+  }
+}
+
+export interface HttpClientOptions {
+  /** API origin, e.g. https://api.swellscope.io */
+  baseUrl: string;
+  tokenStore?: TokenStore;
+  /** API key sent as X-API-Key on authenticated operations instead of the session's access token */
+  apiKey?: string;
+  /** Retries after the first attempt for transient failures (default 2) */
+  retries?: number;
+  /** Base delay for exponential backoff (default 300ms) */
+  retryDelayMs?: number;
+  /** Per-attempt timeout (default 15s) */
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+  /** Called after the refresh token was rejected and the stored tokens were cleared */
+  onSessionExpired?: () => void;
+  /** Called whenever a refresh produced new tokens */
+  onTokensRefreshed?: (tokens: AuthTokens) => void;
+}
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+const IDEMPOTENT_METHODS: Method[] = ['GET', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [502, 503, 504];
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+/**
+ * Transport shared by every resource: URL building, auth headers, envelope unwrapping,
+ * retries with backoff and transparent access-token refresh.
+ */
+export class HttpClient {
+  public readonly tokenStore: TokenStore;
+  private options: HttpClientOptions;
+  private fetchImpl: typeof fetch;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(options: HttpClientOptions) {
+    this.options = options;
+    this.tokenStore = options.tokenStore || new MemoryTokenStore();
+    this.fetchImpl = options.fetch || globalThis.fetch.bind(globalThis);
+  }
+
+  /**
+   * Call an operation from the generated table and return the unwrapped `data`
+   */
+  async call<K extends OperationId>(
+    operationId: K,
+    input: OperationInputs[K] = {} as OperationInputs[K]
+  ): Promise<OperationResults[K]> {
+    type T = OperationResults[K];
+    const operation = OPERATIONS[operationId];
+    const { params, query, body } = input as { params?: object; query?: object; body?: unknown };
+    const url = this.buildUrl(operation.path, params, query);
+    const withAuth = operation.auth !== 'none';
+
+    try {
+      return await this.send<T>(operation.method, url, body, withAuth);
+    } catch (error) {
+      if (!(error instanceof AuthenticationError) || !withAuth || this.options.apiKey || !this.tokenStore.getRefreshToken()) {
+        throw error;
+      }
+
+      // Access token expired or was revoked: refresh once, then replay the request
+      if (!(await this.refreshTokens())) {
+        throw error;
+      }
+      return this.send<T>(operation.method, url, body, withAuth);
+    }
+  }
+
+  /**
+   * Exchange the stored refresh token for a new pair. Concurrent callers share one refresh.
+   */
+  refreshTokens(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async doRefresh(): Promise<boolean> {
+    const refreshToken = this.tokenStore.getRefreshToken();
+    if (!refreshToken) return false;
+
+    try {
+      const operation = OPERATIONS.postUserAuthRefresh;
+      const tokens = await this.send<AuthTokens>(operation.method, this.buildUrl(operation.path), { refreshToken }, false);
+      this.tokenStore.setTokens(tokens);
+      this.options.onTokensRefreshed?.(tokens);
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError && (error.status === 400 || error.status === 401)) {
+        this.tokenStore.setTokens(null);
+        this.options.onSessionExpired?.();
+      }
+      return false;
+    }
+  }
+
+  private async send<T>(method: Method, url: string, body: unknown, withAuth: boolean): Promise<T> {
+    const retries = this.options.retries ?? 2;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt<T>(method, url, body, withAuth);
+      } catch (error) {
+        const delay = this.retryDelay(error, method, attempt);
+        if (attempt >= retries || delay === null) {
+          throw error;
+        }
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async attempt<T>(method: Method, url: string, body: unknown, withAuth: boolean): Promise<T> {
+    const headers: Record<string, string> = { Accept: 'application/json', ...this.options.headers };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    if (withAuth && this.options.apiKey) {
+      headers['X-API-Key'] = this.options.apiKey;
+    } else {
+      const token = withAuth ? this.tokenStore.getAccessToken() : null;
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs ?? 15000);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw new NetworkError(controller.signal.aborted ? `Request timed out: ${method} ${url}` : `Request failed: ${method} ${url}`, error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw toApiError(response.status, payload, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+
+    // Most endpoints wrap results in ApiResponse; a few (openapi.json) return the document itself
+    if (payload && typeof payload === 'object' && 'success' in payload) {
+      const envelope = payload as ApiResponse<T>;
+      if (!envelope.success) {
+        throw toApiError(response.status, envelope);
+      }
+      return envelope.data as T;
+    }
+
+    return payload as T;
+  }
+
+  /**
+   * Backoff before the next attempt, or null when the failure is not worth retrying.
+   * Non-idempotent requests are only retried when the server explicitly rate-limited them.
+   */
+  private retryDelay(error: unknown, method: Method, attempt: number): number | null {
+    const backoff = (this.options.retryDelayMs ?? 300) * 2 ** attempt;
+    const jitter = Math.random() * backoff * 0.2;
+
+    if (error instanceof RateLimitError) {
+      return Math.min(error.retryAfterMs ?? backoff + jitter, MAX_RETRY_AFTER_MS);
+    }
+
+    if (!IDEMPOTENT_METHODS.includes(method)) {
+      return null;
+    }
+
+    if (error instanceof NetworkError) {
+      return backoff + jitter;
+    }
+
+    if (error instanceof ApiError && RETRYABLE_STATUSES.includes(error.status)) {
+      return backoff + jitter;
+    }
+
+    return null;
+  }
+
+  private buildUrl(path: string, params?: object, query?: object): string {
+    const resolved = path.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = (params as Record<string, unknown> | undefined)?.[name];
+      if (value === undefined || value === null) {
+        throw new InputError(`Missing path parameter "${name}" for ${path}`);
+      }
+      return encodeURIComponent(String(value));
+    });
+
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query || {})) {
+      if (value !== undefined && value !== null) {
+        search.append(key, String(value));
+      }
+    }
+
+    const queryString = search.toString();
+    return `${this.options.baseUrl.replace(/\/+$/, '')}${resolved}${queryString ? `?${queryString}` : ''}`;
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
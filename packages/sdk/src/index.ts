@@ -0,0 +1,34 @@
+export { SwellScopeClient } from './client';
+export type { SwellScopeClientOptions } from './client';
+export { HttpClient, MemoryTokenStore } from './http';
+export type { HttpClientOptions, TokenStore } from './http';
+export { RealtimeClient } from './realtime';
+export type {
+  AuthenticationConfirmed,
+  AuthenticationFailed,
+  ClientToServerEvents,
+  FeedStarted,
+  PriceUpdate,
+  RealtimeEvent,
+  ServerEventName,
+  ServerToClientEvents,
+  SocketLike,
+  SubscriptionAck,
+  SystemNotification
+} from './realtime';
+export {
+  ApiError,
+  AuthenticationError,
+  AuthorizationError,
+  InputError,
+  NetworkError,
+  NotFoundError,
+  PlanLimitError,
+  RateLimitError,
+  SwellScopeError,
+  ValidationError
+} from './errors';
+export type { FieldError, UpgradeHint } from './errors';
+export { OPERATIONS } from './generated/operations';
+export type * from './generated/operations';
+export type * from './types';
@@ -0,0 +1,168 @@
+import { TokenStore } from './http';
+import { AVSMetrics, PortfolioData, RiskAlert, SubscriptionData, SubscriptionDeniedEvent } from './types';
+
+/**
+ * Envelope used by every broadcast event
+ */
+export interface RealtimeEvent<TType extends string, TData> {
+  type: TType;
+  data: TData;
+  timestamp: number;
+}
+
+export interface SubscriptionAck {
+  type: SubscriptionData['type'];
+  roomName: string;
+  timestamp: number;
+}
+
+export interface AuthenticationConfirmed {
+  userId: string;
+  address: string;
+  expiresAt: number;
+  timestamp: number;
+}
+
+export interface AuthenticationFailed {
+  code: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface FeedStarted {
+  message: string;
+  timestamp: number;
+}
+
+export interface SystemNotification {
+  type: 'maintenance' | 'update' | 'alert' | 'info';
+  title: string;
+  message: string;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface PriceUpdate {
+  symbol: string;
+  /** USD */
+  price: number;
+  /** Percent; null without a price from a day ago */
+  change24h: number | null;
+}
+
+/**
+ * Events emitted by the server, keyed by event name
+ */
+export interface ServerToClientEvents {
+  subscription_confirmed: (event: SubscriptionAck) => void;
+  unsubscription_confirmed: (event: SubscriptionAck) => void;
+  subscription_denied: (event: SubscriptionDeniedEvent) => void;
+  authentication_confirmed: (event: AuthenticationConfirmed) => void;
+  authentication_failed: (event: AuthenticationFailed) => void;
+  /** The token expired or its session was revoked; private subscriptions were dropped */
+  authentication_revoked: (event: AuthenticationFailed) => void;
+  /** Access to the subscribed address was withdrawn, e.g. after leaving its organization */
+  subscription_revoked: (event: SubscriptionDeniedEvent) => void;
+  pong: (event: { timestamp: number }) => void;
+  'risk:initial': (event: FeedStarted) => void;
+  'portfolio:initial': (event: FeedStarted) => void;
+  'avs:initial': (event: FeedStarted) => void;
+  'market:initial': (event: FeedStarted) => void;
+  'risk:alert': (event: RealtimeEvent<'risk_alert', RiskAlert>) => void;
+  'risk:slashing_event': (event: RealtimeEvent<'slashing_event', Record<string, unknown>>) => void;
+  'portfolio:update': (event: RealtimeEvent<'portfolio_update', Partial<PortfolioData>>) => void;
+  'portfolio:rebalance_complete': (event: RealtimeEvent<'rebalance_complete', Record<string, unknown>>) => void;
+  'avs:update': (event: RealtimeEvent<'avs_update', AVSMetrics[]>) => void;
+  'avs:slashing_event': (event: RealtimeEvent<'slashing_event', Record<string, unknown>>) => void;
+  'market:update': (event: RealtimeEvent<'market_update', Record<string, unknown>>) => void;
+  'market:price_update': (event: RealtimeEvent<'price_update', PriceUpdate>) => void;
+  'system:notification': (event: RealtimeEvent<'system_notification', SystemNotification>) => void;
+}
+
+/**
+ * Events the server listens for
+ */
+export interface ClientToServerEvents {
+  subscribe: (data: SubscriptionData) => void;
+  unsubscribe: (data: SubscriptionData) => void;
+  authenticate: (data: { token: string }) => void;
+  ping: () => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+/**
+ * The subset of a socket.io-client `Socket` the SDK relies on, so socket.io-client
+ * stays an optional peer dependency. Pass `io(url)` from socket.io-client.
+ */
+export interface SocketLike {
+  connected: boolean;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  off(event: string, listener?: (...args: any[]) => void): unknown;
+  emit(event: string, ...args: any[]): unknown;
+  disconnect(): unknown;
+}
+
+/**
+ * Typed wrapper around a socket.io connection to the SwellScope server.
+ * Authenticates on every (re)connect with the current access token and keeps
+ * subscriptions across reconnects.
+ */
+export class RealtimeClient {
+  private subscriptions = new Map<string, SubscriptionData>();
+
+  constructor(private socket: SocketLike, private tokenStore: TokenStore) {
+    this.socket.on('connect', () => {
+      this.authenticate();
+      this.subscriptions.forEach(subscription => this.emit('subscribe', subscription));
+    });
+
+    if (this.socket.connected) {
+      this.authenticate();
+    }
+  }
+
+  on<E extends ServerEventName>(event: E, listener: ServerToClientEvents[E]): () => void {
+    this.socket.on(event, listener);
+    return () => {
+      this.socket.off(event, listener);
+    };
+  }
+
+  /**
+   * Send the stored access token; call again after the token was refreshed
+   */
+  authenticate(): void {
+    if (!this.socket.connected) return;
+    const token = this.tokenStore.getAccessToken();
+    if (token) {
+      this.emit('authenticate', { token });
+    }
+  }
+
+  subscribe(subscription: SubscriptionData): void {
+    this.subscriptions.set(subscriptionKey(subscription), subscription);
+    this.emit('subscribe', subscription);
+  }
+
+  unsubscribe(subscription: SubscriptionData): void {
+    this.subscriptions.delete(subscriptionKey(subscription));
+    this.emit('unsubscribe', subscription);
+  }
+
+  ping(): void {
+    this.emit('ping');
+  }
+
+  disconnect(): void {
+    this.subscriptions.clear();
+    this.socket.disconnect();
+  }
+
+  private emit<E extends keyof ClientToServerEvents>(event: E, ...args: Parameters<ClientToServerEvents[E]>): void {
+    this.socket.emit(event, ...args);
+  }
+}
+
+function subscriptionKey(subscription: SubscriptionData): string {
+  return `${subscription.type}:${(subscription.address || '').toLowerCase()}`;
+}
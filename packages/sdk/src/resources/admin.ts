@@ -0,0 +1,20 @@
+import { HttpClient } from '../http';
+
+export class AdminApi {
+  constructor(private http: HttpClient) {}
+
+  /** Effective server configuration with secrets redacted (admin wallets only) */
+  getConfig() {
+    return this.http.call('getAdminConfig');
+  }
+
+  /** Chain indexer progress per chain (admin wallets only) */
+  getIndexerStatus() {
+    return this.http.call('getAdminIndexer');
+  }
+
+  /** RPC endpoint health and cache statistics per chain (admin wallets only) */
+  getRpcMetrics() {
+    return this.http.call('getAdminRpc');
+  }
+}
@@ -0,0 +1,69 @@
+import { HttpClient } from '../http';
+import {
+  GetAnalyticsQuery,
+  GetAnalyticsTvlQuery,
+  GetAnalyticsYieldsQuery,
+  GetAnalyticsProtocolsQuery,
+  GetAnalyticsUsersQuery,
+  GetAnalyticsSwellchainQuery,
+  GetAnalyticsNucleusQuery,
+  GetAnalyticsTransactionsQuery,
+  GetAnalyticsPricesBySymbolQuery
+} from '../generated/operations';
+
+export class AnalyticsApi {
+  constructor(private http: HttpClient) {}
+
+  getOverview(query?: GetAnalyticsQuery) {
+    return this.http.call('getAnalytics', { query });
+  }
+
+  getTvl(query?: GetAnalyticsTvlQuery) {
+    return this.http.call('getAnalyticsTvl', { query });
+  }
+
+  getYields(query?: GetAnalyticsYieldsQuery) {
+    return this.http.call('getAnalyticsYields', { query });
+  }
+
+  getProtocols(query?: GetAnalyticsProtocolsQuery) {
+    return this.http.call('getAnalyticsProtocols', { query });
+  }
+
+  getUserStats(query?: GetAnalyticsUsersQuery) {
+    return this.http.call('getAnalyticsUsers', { query });
+  }
+
+  getRealtime() {
+    return this.http.call('getAnalyticsRealtime');
+  }
+
+  getSwellchain(query?: GetAnalyticsSwellchainQuery) {
+    return this.http.call('getAnalyticsSwellchain', { query });
+  }
+
+  /**
+   * earnETH share price updates and the APY they imply
+   */
+  getNucleusRates(query?: GetAnalyticsNucleusQuery) {
+    return this.http.call('getAnalyticsNucleus', { query });
+  }
+
+  getTransactions(query?: GetAnalyticsTransactionsQuery) {
+    return this.http.call('getAnalyticsTransactions', { query });
+  }
+
+  /**
+   * USD prices of every token with a current price
+   */
+  getPrices() {
+    return this.http.call('getAnalyticsPrices');
+  }
+
+  /**
+   * A token's USD price now, or at `query.at` (ISO 8601)
+   */
+  getPrice(symbol: string, query?: GetAnalyticsPricesBySymbolQuery) {
+    return this.http.call('getAnalyticsPricesBySymbol', { params: { symbol }, query });
+  }
+}
@@ -0,0 +1,51 @@
+import { HttpClient } from '../http';
+import {
+  GetAvsQuery,
+  GetAvsByAvsIdOperatorsQuery,
+  GetAvsByAvsIdPerformanceQuery,
+  PostAvsByAvsIdStakeBody
+} from '../generated/operations';
+
+export class AvsApi {
+  constructor(private http: HttpClient) {}
+
+  list(query?: GetAvsQuery) {
+    return this.http.call('getAvs', { query });
+  }
+
+  getOverview() {
+    return this.http.call('getAvsOverview');
+  }
+
+  get(avsId: string) {
+    return this.http.call('getAvsByAvsId', { params: { avsId } });
+  }
+
+  getOperators(avsId: string, query?: GetAvsByAvsIdOperatorsQuery) {
+    return this.http.call('getAvsByAvsIdOperators', { params: { avsId }, query });
+  }
+
+  getRewards(avsId: string) {
+    return this.http.call('getAvsByAvsIdRewards', { params: { avsId } });
+  }
+
+  getPerformance(avsId: string, query?: GetAvsByAvsIdPerformanceQuery) {
+    return this.http.call('getAvsByAvsIdPerformance', { params: { avsId }, query });
+  }
+
+  getMach() {
+    return this.http.call('getAvsMach');
+  }
+
+  getVital() {
+    return this.http.call('getAvsVital');
+  }
+
+  getSquad() {
+    return this.http.call('getAvsSquad');
+  }
+
+  stake(avsId: string, body: PostAvsByAvsIdStakeBody) {
+    return this.http.call('postAvsByAvsIdStake', { params: { avsId }, body });
+  }
+}
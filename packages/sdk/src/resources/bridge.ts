@@ -0,0 +1,50 @@
+import { HttpClient } from '../http';
+import {
+  GetBridgePositionsByAddressQuery,
+  GetBridgePositionsByAddressAggregateQuery,
+  GetBridgeOperationsByAddressQuery,
+  GetBridgeFeesQuery,
+  PostBridgeTransferBody,
+  PostBridgeEstimateBody
+} from '../generated/operations';
+
+export class BridgeApi {
+  constructor(private http: HttpClient) {}
+
+  getPositions(address: string, query?: GetBridgePositionsByAddressQuery) {
+    return this.http.call('getBridgePositionsByAddress', { params: { address }, query });
+  }
+
+  getAggregatePositions(address: string, query?: GetBridgePositionsByAddressAggregateQuery) {
+    return this.http.call('getBridgePositionsByAddressAggregate', { params: { address }, query });
+  }
+
+  transfer(body: PostBridgeTransferBody) {
+    return this.http.call('postBridgeTransfer', { body });
+  }
+
+  estimate(body: PostBridgeEstimateBody) {
+    return this.http.call('postBridgeEstimate', { body });
+  }
+
+  listOperations(address: string, query?: GetBridgeOperationsByAddressQuery) {
+    return this.http.call('getBridgeOperationsByAddress', { params: { address }, query });
+  }
+
+  getOperation(operationId: string) {
+    return this.http.call('getBridgeOperationByOperationId', { params: { operationId } });
+  }
+
+  getOperationStatus(operationId: string) {
+    return this.http.call('getBridgeStatusByOperationId', { params: { operationId } });
+  }
+
+  getChains() {
+    return this.http.call('getBridgeChains');
+  }
+
+  /** A quote when every field is given, otherwise the fee structure */
+  getFees(query?: GetBridgeFeesQuery) {
+    return this.http.call('getBridgeFees', { query });
+  }
+}
@@ -0,0 +1,34 @@
+import { HttpClient } from '../http';
+import { GetContractsIntegrationBridgeRouteQuery } from '../generated/operations';
+
+export class ContractsApi {
+  constructor(private http: HttpClient) {}
+
+  getStatus() {
+    return this.http.call('getContracts');
+  }
+
+  getVault() {
+    return this.http.call('getContractsVault');
+  }
+
+  getVaultProfile(address: string) {
+    return this.http.call('getContractsVaultProfileByAddress', { params: { address } });
+  }
+
+  getOracleRiskScore(address: string) {
+    return this.http.call('getContractsOracleByAddress', { params: { address } });
+  }
+
+  getIntegrationMetrics() {
+    return this.http.call('getContractsIntegration');
+  }
+
+  getBridgeRoute(query: GetContractsIntegrationBridgeRouteQuery) {
+    return this.http.call('getContractsIntegrationBridgeRoute', { query });
+  }
+
+  getBridgeStatus(operationId: string) {
+    return this.http.call('getContractsIntegrationBridgeByOperationId', { params: { operationId } });
+  }
+}
@@ -0,0 +1,83 @@
+import { HttpClient } from '../http';
+import { OrganizationRole } from '../types';
+
+/**
+ * Team workspaces. Members can call the portfolio, risk and bridge endpoints for every wallet
+ * attached to their organization; viewers are read-only.
+ */
+export class OrganizationsApi {
+  constructor(private http: HttpClient) {}
+
+  list() {
+    return this.http.call('getOrgs');
+  }
+
+  create(name: string) {
+    return this.http.call('postOrgs', { body: { name } });
+  }
+
+  get(orgId: string) {
+    return this.http.call('getOrgsByOrgId', { params: { orgId } });
+  }
+
+  rename(orgId: string, name: string) {
+    return this.http.call('putOrgsByOrgId', { params: { orgId }, body: { name } });
+  }
+
+  delete(orgId: string) {
+    return this.http.call('deleteOrgsByOrgId', { params: { orgId } });
+  }
+
+  setMemberRole(orgId: string, userId: string, role: OrganizationRole) {
+    return this.http.call('putOrgsByOrgIdMembersByUserId', { params: { orgId, userId }, body: { role } });
+  }
+
+  /**
+   * Remove a member, or leave the organization by passing your own user id
+   */
+  removeMember(orgId: string, userId: string) {
+    return this.http.call('deleteOrgsByOrgIdMembersByUserId', { params: { orgId, userId } });
+  }
+
+  /**
+   * Invite a wallet. Send the returned invite's `message` to the invitee to sign.
+   */
+  invite(orgId: string, address: string, role?: OrganizationRole) {
+    return this.http.call('postOrgsByOrgIdInvites', { params: { orgId }, body: { address, role } });
+  }
+
+  listInvites(orgId: string) {
+    return this.http.call('getOrgsByOrgIdInvites', { params: { orgId } });
+  }
+
+  revokeInvite(orgId: string, inviteId: string) {
+    return this.http.call('deleteOrgsByOrgIdInvitesByInviteId', { params: { orgId, inviteId } });
+  }
+
+  /** Open invitations to the signed-in wallet */
+  listMyInvites() {
+    return this.http.call('getOrgsInvites');
+  }
+
+  /**
+   * Accept an invitation with the signed-in wallet's signature over the invite's `message`
+   */
+  acceptInvite(inviteId: string, signature: string) {
+    return this.http.call('postOrgsInvitesByInviteIdAccept', { params: { inviteId }, body: { signature } });
+  }
+
+  /**
+   * Fetch the message the wallet to be watched has to sign; pass the signed message to `attachAddress`
+   */
+  getAddressChallenge(orgId: string, address: string, chainId?: number) {
+    return this.http.call('postOrgsByOrgIdAddressesChallenge', { params: { orgId }, body: { address, chainId } });
+  }
+
+  attachAddress(orgId: string, message: string, signature: string, label?: string) {
+    return this.http.call('postOrgsByOrgIdAddresses', { params: { orgId }, body: { message, signature, label } });
+  }
+
+  detachAddress(orgId: string, address: string) {
+    return this.http.call('deleteOrgsByOrgIdAddressesByAddress', { params: { orgId, address } });
+  }
+}
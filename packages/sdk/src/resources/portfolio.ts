@@ -0,0 +1,63 @@
+import { HttpClient } from '../http';
+import {
+  GetPortfolioByAddressAggregateQuery,
+  GetPortfolioByAddressPositionsQuery,
+  GetPortfolioByAddressStrategiesQuery,
+  GetPortfolioByAddressPerformanceQuery,
+  GetPortfolioByAddressRecommendationsQuery,
+  PostPortfolioByAddressRebalanceBody,
+  PostPortfolioByAddressStrategiesBody
+} from '../generated/operations';
+
+export class PortfolioApi {
+  constructor(private http: HttpClient) {}
+
+  get(address: string) {
+    return this.http.call('getPortfolioByAddress', { params: { address } });
+  }
+
+  /**
+   * The account's own and watch-only wallets combined, with a per-wallet breakdown
+   */
+  getAggregate(address: string, query?: GetPortfolioByAddressAggregateQuery) {
+    return this.http.call('getPortfolioByAddressAggregate', { params: { address }, query });
+  }
+
+  getPositions(address: string, query?: GetPortfolioByAddressPositionsQuery) {
+    return this.http.call('getPortfolioByAddressPositions', { params: { address }, query });
+  }
+
+  /**
+   * Holdings read from chain state across every supported protocol, valued in ETH
+   */
+  getProtocolPositions(address: string) {
+    return this.http.call('getPortfolioByAddressProtocols', { params: { address } });
+  }
+
+  /**
+   * earnETH shares with the address's Teller deposits and open withdrawal-queue requests
+   */
+  getNucleusAccount(address: string) {
+    return this.http.call('getPortfolioByAddressNucleus', { params: { address } });
+  }
+
+  rebalance(address: string, body: PostPortfolioByAddressRebalanceBody) {
+    return this.http.call('postPortfolioByAddressRebalance', { params: { address }, body });
+  }
+
+  getStrategies(address: string, query?: GetPortfolioByAddressStrategiesQuery) {
+    return this.http.call('getPortfolioByAddressStrategies', { params: { address }, query });
+  }
+
+  createStrategy(address: string, body: PostPortfolioByAddressStrategiesBody) {
+    return this.http.call('postPortfolioByAddressStrategies', { params: { address }, body });
+  }
+
+  getPerformance(address: string, query?: GetPortfolioByAddressPerformanceQuery) {
+    return this.http.call('getPortfolioByAddressPerformance', { params: { address }, query });
+  }
+
+  getRecommendations(address: string, query?: GetPortfolioByAddressRecommendationsQuery) {
+    return this.http.call('getPortfolioByAddressRecommendations', { params: { address }, query });
+  }
+}
@@ -0,0 +1,76 @@
+import { HttpClient } from '../http';
+import {
+  GetRiskMetricsByAddressAggregateQuery,
+  GetRiskAlertsByAddressQuery,
+  GetRiskDepegBySymbolHistoryQuery,
+  GetRiskValidatorsByAddressQuery,
+  GetRiskAvsByAddressQuery,
+  PutRiskProfileByAddressBody,
+  PostRiskAlertRulesByAddressBody
+} from '../generated/operations';
+
+export class RiskApi {
+  constructor(private http: HttpClient) {}
+
+  getMetrics(address: string) {
+    return this.http.call('getRiskMetricsByAddress', { params: { address } });
+  }
+
+  getAggregateMetrics(address: string, query?: GetRiskMetricsByAddressAggregateQuery) {
+    return this.http.call('getRiskMetricsByAddressAggregate', { params: { address }, query });
+  }
+
+  getAlerts(address: string, query?: GetRiskAlertsByAddressQuery) {
+    return this.http.call('getRiskAlertsByAddress', { params: { address }, query });
+  }
+
+  /**
+   * swETH and rswETH market price against redemption rate, with any active depeg
+   */
+  getPegStatus() {
+    return this.http.call('getRiskDepeg');
+  }
+
+  getPegHistory(symbol: 'swETH' | 'rswETH', query?: GetRiskDepegBySymbolHistoryQuery) {
+    return this.http.call('getRiskDepegBySymbolHistory', { params: { symbol }, query });
+  }
+
+  dismissAlerts(address: string, alertIds: string[]) {
+    return this.http.call('postRiskAlertsByAddressDismiss', { params: { address }, body: { alertIds } });
+  }
+
+  listAlertRules(address: string) {
+    return this.http.call('getRiskAlertRulesByAddress', { params: { address } });
+  }
+
+  /**
+   * Create an alert rule; throws PlanLimitError once the plan's rule count is reached
+   */
+  createAlertRule(address: string, body: PostRiskAlertRulesByAddressBody) {
+    return this.http.call('postRiskAlertRulesByAddress', { params: { address }, body });
+  }
+
+  deleteAlertRule(address: string, ruleId: string) {
+    return this.http.call('deleteRiskAlertRulesByAddressByRuleId', { params: { address, ruleId } });
+  }
+
+  getProfile(address: string) {
+    return this.http.call('getRiskProfileByAddress', { params: { address } });
+  }
+
+  updateProfile(address: string, body: PutRiskProfileByAddressBody) {
+    return this.http.call('putRiskProfileByAddress', { params: { address }, body });
+  }
+
+  runAssessment(address: string) {
+    return this.http.call('postRiskAssessmentByAddress', { params: { address } });
+  }
+
+  getValidators(address: string, query?: GetRiskValidatorsByAddressQuery) {
+    return this.http.call('getRiskValidatorsByAddress', { params: { address }, query });
+  }
+
+  getAvsRisks(address: string, query?: GetRiskAvsByAddressQuery) {
+    return this.http.call('getRiskAvsByAddress', { params: { address }, query });
+  }
+}
@@ -0,0 +1,203 @@
+import { HttpClient } from '../http';
+import {
+  GetUserStatsQuery,
+  GetUserActivityQuery,
+  PutUserProfileBody,
+  PutUserPreferencesBody,
+  PostUserSubscribeBody,
+  PostUserApiKeysBody,
+  PostUserDashboardsBody,
+  PutUserDashboardsByDashboardIdBody,
+  GetUserWalletsQuery,
+  PostUserWalletsBody,
+  PutUserWalletsByAddressBody,
+  PostUserAccountDeletionsVerifyBody
+} from '../generated/operations';
+import { AuthResponse } from '../types';
+
+export class UserApi {
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Fetch the Sign-In with Ethereum message the wallet has to sign
+   */
+  getSignInMessage(address: string, chainId?: number) {
+    return this.http.call('getUserAuthNonce', { query: { address, chainId } });
+  }
+
+  /**
+   * Exchange a signed SIWE message for tokens; the tokens are kept in the client's token store
+   */
+  async signIn(message: string, signature: string, address?: string): Promise<AuthResponse> {
+    const result = await this.http.call('postUserAuth', { body: { message, signature, address } });
+    this.http.tokenStore.setTokens(result);
+    return result;
+  }
+
+  /**
+   * Revoke the current session and forget the stored tokens
+   */
+  async signOut() {
+    try {
+      return await this.http.call('postUserAuthLogout');
+    } finally {
+      this.http.tokenStore.setTokens(null);
+    }
+  }
+
+  refreshTokens(): Promise<boolean> {
+    return this.http.refreshTokens();
+  }
+
+  listSessions() {
+    return this.http.call('getUserSessions');
+  }
+
+  revokeSession(sessionId: string) {
+    return this.http.call('deleteUserSessionsBySessionId', { params: { sessionId } });
+  }
+
+  async revokeAllSessions() {
+    try {
+      return await this.http.call('deleteUserSessions');
+    } finally {
+      this.http.tokenStore.setTokens(null);
+    }
+  }
+
+  listApiKeys() {
+    return this.http.call('getUserApiKeys');
+  }
+
+  /**
+   * Create an API key. The returned `key` is shown only once; store it securely.
+   */
+  createApiKey(body: PostUserApiKeysBody) {
+    return this.http.call('postUserApiKeys', { body });
+  }
+
+  /**
+   * Replace a key's secret. The old key keeps working for `gracePeriodMinutes` (default: stops immediately).
+   */
+  rotateApiKey(keyId: string, gracePeriodMinutes?: number) {
+    return this.http.call('postUserApiKeysByKeyIdRotate', { params: { keyId }, body: { gracePeriodMinutes } });
+  }
+
+  revokeApiKey(keyId: string) {
+    return this.http.call('deleteUserApiKeysByKeyId', { params: { keyId } });
+  }
+
+  getProfile() {
+    return this.http.call('getUserProfile');
+  }
+
+  updateProfile(body: PutUserProfileBody) {
+    return this.http.call('putUserProfile', { body });
+  }
+
+  getPreferences() {
+    return this.http.call('getUserPreferences');
+  }
+
+  updatePreferences(body: PutUserPreferencesBody) {
+    return this.http.call('putUserPreferences', { body });
+  }
+
+  getSubscription() {
+    return this.http.call('getUserSubscription');
+  }
+
+  /**
+   * Request a tier. Pay the returned invoice from the signed-in wallet; the tier takes effect once the transfer is confirmed.
+   */
+  subscribe(body: PostUserSubscribeBody) {
+    return this.http.call('postUserSubscribe', { body });
+  }
+
+  listInvoices() {
+    return this.http.call('getUserInvoices');
+  }
+
+  /**
+   * Poll an invoice until its status leaves `pending`
+   */
+  getInvoice(invoiceId: string) {
+    return this.http.call('getUserInvoicesByInvoiceId', { params: { invoiceId } });
+  }
+
+  /**
+   * Plan limits and current usage, e.g. to decide whether to show an upgrade prompt
+   */
+  getEntitlements() {
+    return this.http.call('getUserEntitlements');
+  }
+
+  listDashboards() {
+    return this.http.call('getUserDashboards');
+  }
+
+  createDashboard(body: PostUserDashboardsBody) {
+    return this.http.call('postUserDashboards', { body });
+  }
+
+  updateDashboard(dashboardId: string, body: PutUserDashboardsByDashboardIdBody) {
+    return this.http.call('putUserDashboardsByDashboardId', { params: { dashboardId }, body });
+  }
+
+  deleteDashboard(dashboardId: string) {
+    return this.http.call('deleteUserDashboardsByDashboardId', { params: { dashboardId } });
+  }
+
+  listWallets(query?: GetUserWalletsQuery) {
+    return this.http.call('getUserWallets', { query });
+  }
+
+  /**
+   * Watch an address; its positions are included in the aggregate portfolio, risk and bridge views
+   */
+  addWallet(body: PostUserWalletsBody) {
+    return this.http.call('postUserWallets', { body });
+  }
+
+  updateWallet(address: string, body: PutUserWalletsByAddressBody) {
+    return this.http.call('putUserWalletsByAddress', { params: { address }, body });
+  }
+
+  removeWallet(address: string) {
+    return this.http.call('deleteUserWalletsByAddress', { params: { address } });
+  }
+
+  getStats(query?: GetUserStatsQuery) {
+    return this.http.call('getUserStats', { query });
+  }
+
+  getActivity(query?: GetUserActivityQuery) {
+    return this.http.call('getUserActivity', { query });
+  }
+
+  /**
+   * Everything stored about the signed-in user as JSON. Browsers can fetch the same export
+   * as a zip archive with CSV files from GET /user/export.
+   */
+  exportData() {
+    return this.http.call('getUserExport', { query: { format: 'json' } });
+  }
+
+  /**
+   * Lock the account and schedule its erasure. Keep the returned confirmation id to fetch the receipt later.
+   */
+  deleteAccount() {
+    return this.http.call('deleteUserAccount', { body: { confirmation: 'DELETE_MY_ACCOUNT' } });
+  }
+
+  getDeletionReceipt(confirmationId: string) {
+    return this.http.call('getUserAccountDeletionsByConfirmationId', { params: { confirmationId } });
+  }
+
+  /**
+   * Check that a completed receipt was signed by the API and hasn't been altered. Resolves to `{ valid }`.
+   */
+  verifyDeletionReceipt(receipt: PostUserAccountDeletionsVerifyBody) {
+    return this.http.call('postUserAccountDeletionsVerify', { body: receipt });
+  }
+}
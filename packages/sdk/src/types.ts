@@ -0,0 +1,36 @@
+/**
+ * Types the OpenAPI document does not describe. Response models are generated from it into
+ * generated/models.ts and re-exported from here.
+ */
+
+export * from './generated/models';
+
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+  timestamp: number;
+  cached?: boolean;
+}
+
+export interface SubscriptionData {
+  type: 'risk_updates' | 'portfolio_updates' | 'avs_updates' | 'market_data';
+  address?: string;
+  filters?: Record<string, any>;
+}
+
+export type SubscriptionDeniedCode =
+  | 'AUTHENTICATION_REQUIRED'
+  | 'TOKEN_EXPIRED'
+  | 'ADDRESS_NOT_AUTHORIZED'
+  | 'ADDRESS_REQUIRED'
+  | 'UNKNOWN_SUBSCRIPTION';
+
+export interface SubscriptionDeniedEvent {
+  type: string;
+  address?: string;
+  code: SubscriptionDeniedCode;
+  message: string;
+  timestamp: number;
+}